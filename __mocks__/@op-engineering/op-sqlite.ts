@@ -0,0 +1,73 @@
+/**
+ * op-sqlite stand-in for tests: real SQLCipher files
+ *
+ * Databases are files in a temporary directory, opened with
+ * better-sqlite3-multiple-ciphers in SQLCipher 4 mode. Like op-sqlite, the
+ * encryptionKey is used as the PRAGMA key passphrase, and a wrong key only
+ * shows on the first read.
+ *
+ * @see services/databaseRekey.ts
+ */
+
+import Database from 'better-sqlite3-multiple-ciphers';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'op-sqlite-'));
+
+export const IOS_DOCUMENT_PATH = path.join(root, 'Documents');
+export const ANDROID_DATABASE_PATH = path.join(root, 'databases');
+/** Where op-sqlite puts databases opened without a location */
+const DEFAULT_PATH = path.join(root, 'default');
+
+/**
+ * Run a native call, rethrowing its error as a plain Error (as op-sqlite does).
+ * better-sqlite3 registers its error class once per process, so in a later
+ * test file it comes from another realm and is not an Error there.
+ */
+function native<T>(call: () => T): T {
+  try {
+    return call();
+  } catch (error) {
+    throw new Error((error as { message?: string }).message ?? String(error));
+  }
+}
+
+export function open(options: { name: string; location?: string; encryptionKey?: string }) {
+  const file = path.join(options.location ?? DEFAULT_PATH, options.name);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+
+  const db = native(() => new Database(file));
+  db.pragma("cipher = 'sqlcipher'");
+  db.pragma('legacy = 4');
+  // SQLCipher derives the key with 256000 rounds; that takes a second per test
+  db.pragma('kdf_iter = 4000');
+  if (options.encryptionKey) {
+    db.pragma(`key = '${options.encryptionKey}'`);
+  }
+
+  return {
+    async execute(sql: string, params: unknown[] = []) {
+      return native(() => {
+        const statement = db.prepare(sql);
+        if (statement.reader) {
+          return { rows: statement.all(...params) as Record<string, unknown>[], rowsAffected: 0 };
+        }
+        return { rows: [], rowsAffected: statement.run(...params).changes };
+      });
+    },
+    close(): void {
+      db.close();
+    },
+    delete(): void {
+      db.close();
+      fs.rmSync(file, { force: true });
+    },
+  };
+}
+
+/** Test helper: delete every database file */
+export function deleteAllDatabases(): void {
+  fs.rmSync(root, { recursive: true, force: true });
+}
@@ -0,0 +1,159 @@
+/**
+ * CommEazy Sudoku Engine Tests
+ *
+ * Unit tests for engines/sudoku:
+ * - Solution counting and logical grading (solver.ts), also with pauses
+ * - Generated puzzles have exactly one solution and exactly the requested grade
+ * - Seed puzzles grade at their level
+ * - Older puzzles with several solutions accept every valid answer
+ */
+
+import {
+  createInitialState,
+  deserializeState,
+  placeNumber,
+  selectCell,
+  SEED_PUZZLES,
+} from '../../src/engines/sudoku/engine';
+import type { CellValue, Grid, SudokuState } from '../../src/engines/sudoku/engine';
+import {
+  countSolutions,
+  countSolutionsAsync,
+  gradePuzzle,
+  gradePuzzleAsync,
+  solveLogically,
+} from '../../src/engines/sudoku/solver';
+import type { GameDifficulty } from '../../src/types/games';
+
+function parseGrid(digits: string): Grid {
+  return Array.from({ length: 9 }, (_, r) =>
+    Array.from({ length: 9 }, (__, c) => Number(digits[r * 9 + c]) as CellValue),
+  );
+}
+
+const EASY_PUZZLE = parseGrid(
+  '003020600900305001001806400008102900700000008006708200002609500800203009005010300',
+);
+const EASY_SOLUTION = parseGrid(
+  '483921657967345821251876493548132976729564138136798245372689514814253769695417382',
+);
+
+const EMPTY_GRID = parseGrid('0'.repeat(81));
+
+/**
+ * EASY_SOLUTION with a swappable 6/8 rectangle in rows 0-1, columns 1 and 6
+ * blanked: the kind of puzzle the old generator could produce.
+ */
+function createAmbiguousState(): SudokuState {
+  const puzzle = EASY_SOLUTION.map(row => [...row]);
+  for (const [row, col] of [[0, 1], [0, 6], [1, 1], [1, 6]]) {
+    puzzle[row][col] = 0;
+  }
+  return deserializeState({
+    solution: EASY_SOLUTION,
+    puzzle,
+    playerGrid: puzzle.map(row => [...row]),
+    locked: puzzle.map(row => row.map(cell => cell !== 0)),
+    difficulty: 'easy',
+  });
+}
+
+function place(state: SudokuState, row: number, col: number, num: CellValue): SudokuState {
+  const next = placeNumber(selectCell(state, row, col), num);
+  if (!next) throw new Error('placement rejected');
+  return next;
+}
+
+describe('Sudoku', () => {
+  describe('solver', () => {
+    it('counts solutions up to the limit', () => {
+      expect(countSolutions(EASY_PUZZLE)).toBe(1);
+      expect(countSolutions(EMPTY_GRID)).toBe(2);
+      expect(countSolutions(createAmbiguousState().puzzle)).toBe(2);
+    });
+
+    it('finds no solution for conflicting givens', () => {
+      const broken = EASY_PUZZLE.map(row => [...row]);
+      broken[0][0] = 3; // 3 is already in row 0
+
+      expect(countSolutions(broken)).toBe(0);
+    });
+
+    it('solves an easy puzzle with singles only', () => {
+      const result = solveLogically(EASY_PUZZLE);
+
+      expect(result.solved).toBe(true);
+      expect(result.grid).toEqual(EASY_SOLUTION);
+      expect(result.techniques.every(t => t === 'naked_single' || t === 'hidden_single')).toBe(true);
+      expect(gradePuzzle(EASY_PUZZLE)).toBe('easy');
+    });
+
+    it('does not grade a puzzle that needs guessing', () => {
+      expect(gradePuzzle(EMPTY_GRID)).toBeNull();
+    });
+
+    it('pauses between steps and gives the same answers', async () => {
+      let pauses = 0;
+      const pause = () => {
+        pauses++;
+        return Promise.resolve();
+      };
+
+      expect(await countSolutionsAsync(EMPTY_GRID, 2, pause)).toBe(2);
+      expect(await countSolutionsAsync(createAmbiguousState().puzzle, 2, pause)).toBe(2);
+      expect(await gradePuzzleAsync(EASY_PUZZLE, pause)).toBe('easy');
+      expect(pauses).toBeGreaterThan(0);
+    });
+  });
+
+  describe('generator', () => {
+    it.each(['easy', 'medium', 'hard', 'expert'])('creates a unique %s puzzle', async (difficulty: GameDifficulty) => {
+      for (let run = 0; run < 3; run++) {
+        const state = await createInitialState(difficulty);
+
+        expect(countSolutions(state.puzzle)).toBe(1);
+        expect(gradePuzzle(state.puzzle)).toBe(difficulty);
+        expect(solveLogically(state.puzzle).grid).toEqual(state.solution);
+      }
+    }, 30000);
+
+    it.each(['easy', 'medium', 'hard', 'expert'])('has %s seed puzzles of that grade', (difficulty: GameDifficulty) => {
+      for (const seed of SEED_PUZZLES[difficulty]) {
+        const puzzle = parseGrid(seed);
+
+        expect(countSolutions(puzzle)).toBe(1);
+        expect(gradePuzzle(puzzle)).toBe(difficulty);
+      }
+    });
+  });
+
+  describe('placeNumber', () => {
+    it('counts a number that fits no solution as an error', async () => {
+      const state = await createInitialState('easy');
+      const empty = state.puzzle.flat().indexOf(0);
+      const row = Math.floor(empty / 9);
+      const col = empty % 9;
+      const wrong = ((state.solution[row][col] % 9) + 1) as CellValue;
+
+      expect(place(state, row, col, wrong).errorCount).toBe(1);
+    });
+
+    it('accepts the other answer of an older ambiguous puzzle', () => {
+      let state = createAmbiguousState();
+      state = place(state, 0, 1, 6);
+      state = place(state, 0, 6, 8);
+      state = place(state, 1, 1, 8);
+      state = place(state, 1, 6, 6);
+
+      expect(state.errorCount).toBe(0);
+      expect(state.isComplete).toBe(true);
+      expect(state.isWon).toBe(true);
+    });
+
+    it('still rejects a number that breaks the rules', () => {
+      const state = place(createAmbiguousState(), 0, 1, 1);
+
+      expect(state.errorCount).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * CommEazy Woordy Engine Tests
+ *
+ * Unit tests for engines/woordy:
+ * - Dictionary: normalization, lookup and suffix sharing (dictionary.ts)
+ * - Word validation of every formed word (engine.ts)
+ * - Move generation: every generated move is legal (moveGenerator.ts)
+ * - Computer opponent strengths and turns (opponent.ts)
+ */
+
+import {
+  buildDictionary,
+  findNode,
+  isValidWord,
+} from '../../src/engines/woordy/dictionary';
+import {
+  createInitialState,
+  placeTile,
+  selectTile,
+  passTurn,
+  validatePlacement,
+} from '../../src/engines/woordy/engine';
+import { generateMoves } from '../../src/engines/woordy/moveGenerator';
+import { applyMove, chooseMove, playComputerTurn } from '../../src/engines/woordy/opponent';
+import type { BoardCell, Tile, WoordyState } from '../../src/engines/woordy/types';
+import { BOARD_SIZE, CENTER_POS, getLetterValue } from '../../src/engines/woordy/types';
+
+// ============================================================
+// Helpers
+// ============================================================
+
+const WORDS = ['aap', 'pa', 'ap', 'pap', 'huis', 'muis', 'mus', 'hu', 'is', 'sap', 'paus', 'au', 'uh'];
+const dictionary = buildDictionary(WORDS);
+
+let tileCounter = 0;
+
+function tiles(letters: string): Tile[] {
+  return letters.split('').map((letter) => ({
+    id: `t${tileCounter++}`,
+    letter: letter === '?' ? '' : letter,
+    value: letter === '?' ? 0 : getLetterValue(letter),
+    isBlank: letter === '?',
+  }));
+}
+
+/** Plain board (no bonus or trivia fields) so scores are predictable */
+function plainBoard(): BoardCell[][] {
+  return Array.from({ length: BOARD_SIZE }, (_, row) =>
+    Array.from({ length: BOARD_SIZE }, (__, col) => ({
+      position: { row, col },
+      fieldType: row === CENTER_POS && col === CENTER_POS ? 'center' as const : 'normal' as const,
+      tile: null,
+      triviaRevealed: false,
+    })),
+  );
+}
+
+/** State with the given racks and words already on the board */
+function makeState(
+  playerRack: string,
+  opponentRack: string,
+  laid: { word: string; row: number; col: number; vertical?: boolean }[] = [],
+): WoordyState {
+  const state = createInitialState('nl');
+  const board = plainBoard();
+  for (const { word, row, col, vertical } of laid) {
+    tiles(word).forEach((tile, i) => {
+      const position = vertical ? { row: row + i, col } : { row, col: col + i };
+      board[position.row][position.col].tile = {
+        ...tile,
+        position,
+        chosenLetter: tile.letter,
+        placedBy: 'player',
+        isCurrentTurn: false,
+      };
+    });
+  }
+
+  return {
+    ...state,
+    board,
+    player: { ...state.player, rack: tiles(playerRack) },
+    opponent: { ...state.opponent, rack: tiles(opponentRack) },
+    turns: laid.length > 0
+      ? [{ turnNumber: 1, playedBy: 'player', action: 'place', wordsFormed: [], score: 0, tilesPlaced: [], triviaTriggered: false, triviaCorrect: null }]
+      : [],
+  };
+}
+
+function play(state: WoordyState, letters: string, row: number, col: number): WoordyState {
+  let next = state;
+  letters.split('').forEach((letter, i) => {
+    const tile = next.player.rack.find((t) => t.letter === letter)!;
+    next = placeTile(selectTile(next, tile.id), { row, col: col + i });
+  });
+  return next;
+}
+
+// ============================================================
+// Tests
+// ============================================================
+
+describe('Woordy', () => {
+  describe('dictionary', () => {
+    it('normalizes words and skips unplayable ones', () => {
+      const dict = buildDictionary(['Huis', 'huis', 'café', 'e-mail', 'x', 'ĳs']);
+      expect(dict.wordCount).toBe(2);
+      expect(isValidWord(dict, 'HUIS')).toBe(true);
+      expect(isValidWord(dict, 'cafe')).toBe(true);
+      expect(isValidWord(dict, 'emai')).toBe(false);
+    });
+
+    it('finds prefixes but only accepts whole words', () => {
+      expect(findNode(dictionary, 'HUI')).not.toBeNull();
+      expect(isValidWord(dictionary, 'HUI')).toBe(false);
+      expect(findNode(dictionary, 'HUX')).toBeNull();
+    });
+
+    it('shares identical suffixes', () => {
+      // root → H/M → U → I → S: the H and M branches share one node chain
+      expect(buildDictionary(['huis', 'muis']).nodeCount).toBe(5);
+    });
+  });
+
+  describe('validatePlacement', () => {
+    it('reports every formed word that is not in the dictionary', () => {
+      const state = play(makeState('HUIXS', ''), 'HUIX', CENTER_POS, CENTER_POS);
+      expect(validatePlacement(state).valid).toBe(true);
+      expect(validatePlacement(state, dictionary)).toEqual({
+        valid: false,
+        error: 'notAWord',
+        invalidWords: ['HUIX'],
+      });
+    });
+
+    it('still expects the center after a pass before the first word', () => {
+      const passed = passTurn(passTurn(makeState('HUIS', 'AAP')));
+      expect(passed.isComplete).toBe(true);
+
+      const afterOnePass = { ...passTurn(makeState('HUIS', 'AAP')), currentTurn: 'player' as const };
+      expect(validatePlacement(play(afterOnePass, 'HUIS', CENTER_POS, 5), dictionary).valid).toBe(true);
+      expect(validatePlacement(play(afterOnePass, 'HUIS', 2, 2), dictionary).error).toBe('mustTouchCenter');
+    });
+  });
+
+  describe('generateMoves', () => {
+    it('starts on the center on an empty board', () => {
+      const moves = generateMoves(makeState('AAP', ''), dictionary);
+      expect(moves.length).toBeGreaterThan(0);
+      for (const move of moves) {
+        expect(move.tiles.some((t) => t.position.row === CENTER_POS && t.position.col === CENTER_POS)).toBe(true);
+      }
+      expect(new Set(moves.map((m) => m.words[0]))).toEqual(new Set(['AAP', 'PA', 'AP']));
+    });
+
+    it('only generates moves that pass validation', () => {
+      const state = makeState('APSUM?', '', [{ word: 'HUIS', row: CENTER_POS, col: 5 }]);
+      const moves = generateMoves(state, dictionary);
+      expect(moves.length).toBeGreaterThan(10);
+
+      for (const move of moves) {
+        const placed = applyMove(state, move);
+        expect(validatePlacement(placed, dictionary)).toEqual({ valid: true, error: null });
+        expect(move.words.every((word) => isValidWord(dictionary, word))).toBe(true);
+      }
+    });
+
+    it('uses a blank only when no real tile is left', () => {
+      const state = makeState('A?', '', [{ word: 'PA', row: CENTER_POS, col: CENTER_POS }]);
+      const pap = generateMoves(state, dictionary).find((m) => m.words[0] === 'PAP');
+      expect(pap?.tiles).toEqual([expect.objectContaining({ letter: 'P', isBlank: true })]);
+    });
+  });
+
+  describe('opponent', () => {
+    const moves = generateMoves(makeState('APSUM', '', [{ word: 'HUIS', row: CENTER_POS, col: 5 }]), dictionary);
+
+    it('plays the best move on hard and a weaker one on easy', () => {
+      const best = Math.max(...moves.map((m) => m.score));
+      expect(chooseMove(moves, 'hard', () => 0.5)!.score).toBe(best);
+      expect(chooseMove(moves, 'easy', () => 0.5)!.score).toBeLessThan(best);
+      expect(chooseMove([], 'medium')).toBeNull();
+    });
+
+    it('plays a word and hands the turn back', () => {
+      const state = { ...makeState('', 'APSUM', [{ word: 'HUIS', row: CENTER_POS, col: 5 }]), currentTurn: 'opponent' as const };
+      const next = playComputerTurn(state, dictionary, 'hard', () => 0.5);
+
+      expect(next.currentTurn).toBe('player');
+      expect(next.turns[next.turns.length - 1]).toMatchObject({ playedBy: 'opponent', action: 'place' });
+      expect(next.opponent.score).toBeGreaterThan(0);
+      expect(next.pendingTiles).toEqual([]);
+    });
+
+    it('swaps when no word can be made', () => {
+      const state = { ...makeState('', 'XXXXXXX', [{ word: 'HUIS', row: CENTER_POS, col: 5 }]), currentTurn: 'opponent' as const };
+      const next = playComputerTurn(state, dictionary, 'medium');
+      expect(next.turns[next.turns.length - 1]).toMatchObject({ playedBy: 'opponent', action: 'swap' });
+      expect(next.currentTurn).toBe('player');
+    });
+  });
+});
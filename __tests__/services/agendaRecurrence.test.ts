@@ -0,0 +1,177 @@
+/**
+ * CommEazy Agenda Recurrence Tests
+ *
+ * Unit tests for the RRULE engine (services/agendaRecurrence.ts):
+ * - Parsing and formatting RRULE values
+ * - Expansion of BYDAY, BYMONTHDAY, BYSETPOS, INTERVAL, COUNT/UNTIL
+ * - EXDATE handling and legacy repeat types
+ */
+
+import {
+  parseRRule,
+  formatRRule,
+  expandRecurrence,
+  getItemRule,
+  repeatTypeForRule,
+  describeRecurrence,
+  nthWeekdayOf,
+  type RecurrenceRule,
+} from '../../src/services/agendaRecurrence';
+
+// ============================================================
+// Helpers
+// ============================================================
+
+/** Local midnight, month is 1-based */
+function day(year: number, month: number, date: number): number {
+  return new Date(year, month - 1, date).getTime();
+}
+
+function keys(timestamps: number[]): string[] {
+  return timestamps.map(ts => {
+    const d = new Date(ts);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+  });
+}
+
+function expand(rrule: string, start: number, from: number, to: number, exdates: string[] = []): string[] {
+  const rule = parseRRule(rrule) as RecurrenceRule;
+  expect(rule).not.toBeNull();
+  return keys(expandRecurrence(rule, start, from, to, new Set(exdates)));
+}
+
+// ============================================================
+// Tests
+// ============================================================
+
+describe('agendaRecurrence', () => {
+  describe('parseRRule / formatRRule', () => {
+    it('round-trips a rule in canonical form', () => {
+      const rule = parseRRule('RRULE:freq=weekly;byday=MO,TH;interval=2;until=20240630');
+      expect(rule).toMatchObject({ freq: 'WEEKLY', interval: 2, until: '2024-06-30', byDay: [{ weekday: 'MO' }, { weekday: 'TH' }] });
+      expect(formatRRule(rule as RecurrenceRule)).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;UNTIL=20240630');
+      expect(formatRRule(parseRRule('FREQ=MONTHLY;BYDAY=2TU;COUNT=5') as RecurrenceRule)).toBe('FREQ=MONTHLY;BYDAY=2TU;COUNT=5');
+    });
+
+    it('rejects rules it cannot expand', () => {
+      expect(parseRRule('')).toBeNull();
+      expect(parseRRule('FREQ=HOURLY')).toBeNull();
+      expect(parseRRule('FREQ=YEARLY;BYWEEKNO=20')).toBeNull();
+      expect(parseRRule('FREQ=WEEKLY;BYDAY=XX')).toBeNull();
+      expect(parseRRule('FREQ=DAILY;INTERVAL=0')).toBeNull();
+    });
+  });
+
+  describe('expandRecurrence', () => {
+    it('repeats on several weekdays (physiotherapy on Monday and Thursday)', () => {
+      // 2024-03-04 is a Monday
+      expect(expand('FREQ=WEEKLY;BYDAY=MO,TH', day(2024, 3, 4), day(2024, 3, 1), day(2024, 3, 17))).toEqual([
+        '2024-03-04', '2024-03-07', '2024-03-11', '2024-03-14',
+      ]);
+    });
+
+    it('skips every other week with INTERVAL', () => {
+      expect(expand('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,FR', day(2024, 3, 5), day(2024, 3, 1), day(2024, 3, 31))).toEqual([
+        '2024-03-05', '2024-03-08', '2024-03-19', '2024-03-22',
+      ]);
+    });
+
+    it('does not drift for monthly items on the 31st', () => {
+      expect(expand('FREQ=MONTHLY', day(2024, 1, 31), day(2024, 1, 1), day(2024, 7, 31))).toEqual([
+        '2024-01-31', '2024-03-31', '2024-05-31', '2024-07-31',
+      ]);
+      expect(expand('FREQ=MONTHLY;BYMONTHDAY=-1', day(2024, 1, 31), day(2024, 1, 1), day(2024, 4, 30))).toEqual([
+        '2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30',
+      ]);
+    });
+
+    it('supports "second Tuesday" and "last Friday" of the month', () => {
+      const secondTuesday = ['2024-01-09', '2024-02-13', '2024-03-12'];
+      expect(expand('FREQ=MONTHLY;BYDAY=2TU', day(2024, 1, 9), day(2024, 1, 1), day(2024, 3, 31))).toEqual(secondTuesday);
+      expect(expand('FREQ=MONTHLY;BYDAY=TU;BYSETPOS=2', day(2024, 1, 9), day(2024, 1, 1), day(2024, 3, 31))).toEqual(secondTuesday);
+      expect(expand('FREQ=MONTHLY;BYDAY=-1FR', day(2024, 1, 26), day(2024, 1, 1), day(2024, 3, 31))).toEqual([
+        '2024-01-26', '2024-02-23', '2024-03-29',
+      ]);
+    });
+
+    it('counts from the start and applies EXDATE after COUNT', () => {
+      const start = day(2024, 3, 4);
+      expect(expand('FREQ=DAILY;COUNT=4', start, start, day(2024, 12, 31))).toEqual([
+        '2024-03-04', '2024-03-05', '2024-03-06', '2024-03-07',
+      ]);
+      expect(expand('FREQ=DAILY;COUNT=4', start, start, day(2024, 12, 31), ['2024-03-05'])).toEqual([
+        '2024-03-04', '2024-03-06', '2024-03-07',
+      ]);
+      // Occurrences before the range still count
+      expect(expand('FREQ=DAILY;COUNT=4', start, day(2024, 3, 6), day(2024, 12, 31))).toEqual([
+        '2024-03-06', '2024-03-07',
+      ]);
+    });
+
+    it('stops at UNTIL (inclusive)', () => {
+      expect(expand('FREQ=WEEKLY;UNTIL=20240318', day(2024, 3, 4), day(2024, 3, 1), day(2024, 12, 31))).toEqual([
+        '2024-03-04', '2024-03-11', '2024-03-18',
+      ]);
+    });
+
+    it('jumps ahead to the range for long-running series', () => {
+      expect(expand('FREQ=DAILY;INTERVAL=3', day(2000, 1, 1), day(2024, 3, 1), day(2024, 3, 8))).toEqual([
+        '2024-03-01', '2024-03-04', '2024-03-07',
+      ]);
+    });
+
+    it('only repeats 29 February in leap years', () => {
+      expect(expand('FREQ=YEARLY', day(2020, 2, 29), day(2020, 1, 1), day(2028, 12, 31))).toEqual([
+        '2020-02-29', '2024-02-29', '2028-02-29',
+      ]);
+    });
+
+    it('returns nothing for rules that never match', () => {
+      expect(expand('FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30', day(2024, 1, 1), day(2024, 1, 1), day(2030, 1, 1))).toEqual([]);
+    });
+  });
+
+  describe('legacy repeat types', () => {
+    it('maps repeat_type and end date to a rule', () => {
+      const rule = getItemRule({ repeatType: 'biweekly', endDate: day(2024, 4, 1) });
+      expect(rule).toMatchObject({ freq: 'WEEKLY', interval: 2, until: '2024-04-01' });
+      expect(getItemRule({ repeatType: null })).toBeNull();
+    });
+
+    it('prefers the stored RRULE', () => {
+      const rule = getItemRule({ rrule: 'FREQ=WEEKLY;BYDAY=MO,TH', repeatType: 'weekly' });
+      expect(rule?.byDay).toHaveLength(2);
+    });
+
+    it('classifies rules for the repeat picker', () => {
+      expect(repeatTypeForRule(parseRRule('FREQ=WEEKLY;BYDAY=MO,TH') as RecurrenceRule)).toBe('weekly');
+      expect(repeatTypeForRule(parseRRule('FREQ=MONTHLY;BYDAY=2TU') as RecurrenceRule)).toBe('monthly');
+      expect(repeatTypeForRule(parseRRule('FREQ=WEEKLY;INTERVAL=3') as RecurrenceRule)).toBe('custom');
+      expect(repeatTypeForRule(parseRRule('FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU') as RecurrenceRule)).toBe('custom');
+    });
+  });
+
+  describe('describeRecurrence', () => {
+    const t = (key: string, options?: Record<string, unknown>) =>
+      options ? `${key} ${JSON.stringify(options)}` : key;
+
+    it('describes monthly weekday rules', () => {
+      const rule = parseRRule('FREQ=MONTHLY;BYDAY=2TU') as RecurrenceRule;
+      expect(describeRecurrence(rule, t, 'en-US')).toBe(
+        'modules.agenda.repeat.monthlyOnWeekday {"nth":"modules.agenda.repeat.nth.second","weekday":"Tuesday"}',
+      );
+    });
+
+    it('falls back to the custom label', () => {
+      const rule = parseRRule('FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU') as RecurrenceRule;
+      expect(describeRecurrence(rule, t, 'en-US')).toBe('modules.agenda.repeat.custom');
+    });
+  });
+
+  describe('nthWeekdayOf', () => {
+    it('uses "last" for the fifth weekday of a month', () => {
+      expect(nthWeekdayOf(day(2024, 1, 9))).toEqual({ weekday: 'TU', nth: 2 });
+      expect(nthWeekdayOf(day(2024, 1, 30))).toEqual({ weekday: 'TU', nth: -1 });
+    });
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * CommEazy Backup Tests
+ *
+ * Unit tests for the archive format in services/backup.ts:
+ * - Header validation
+ * - Manifest and dump segment sealing (wrong PIN, tampering)
+ * - Replaying migrations on an older dump
+ * - File path collection, rewriting and traversal protection
+ *
+ * @see .claude/skills/security-expert/SKILL.md
+ */
+
+import sodium from 'libsodium-wrappers-sumo';
+
+// libsodium-wrappers only attaches its functions after `ready`, so resolve lazily
+jest.mock('react-native-libsodium', () => {
+  const wrappers = require('libsodium-wrappers-sumo');
+  const sodium = wrappers.default ?? wrappers;
+  return new Proxy({}, { get: (_target, key) => sodium[key] });
+});
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(),
+  setItem: jest.fn(),
+  removeItem: jest.fn(),
+}));
+
+// The archive helpers do not touch the services
+jest.mock('../../src/services/container', () => ({ ServiceContainer: {} }));
+
+import { schemaMigrations, addColumns, createTable } from '@nozbe/watermelondb/Schema/migrations';
+import {
+  BACKUP_FORMAT,
+  BACKUP_FORMAT_VERSION,
+  deriveBackupKey,
+  sealManifest,
+  openManifest,
+  sealSegment,
+  openSegment,
+  parseBackupHeader,
+  migrateDump,
+  referencedFiles,
+  rewriteDocumentPaths,
+  isSafeBackupPath,
+} from '../../src/services/backup';
+import type { BackupDump, BackupManifest } from '../../src/services/backup';
+
+const testMigrations = schemaMigrations({
+  migrations: [
+    {
+      toVersion: 3,
+      steps: [
+        addColumns({
+          table: 'messages',
+          columns: [
+            { name: 'is_read', type: 'boolean' },
+            { name: 'edited_at', type: 'number', isOptional: true },
+          ],
+        }),
+      ],
+    },
+    {
+      toVersion: 4,
+      steps: [
+        createTable({
+          name: 'game_stats',
+          columns: [{ name: 'game_type', type: 'string' }],
+        }),
+      ],
+    },
+  ],
+});
+
+function createDump(overrides: Partial<BackupDump> = {}): BackupDump {
+  return {
+    schemaVersion: 2,
+    documentDirectory: '/old/documents',
+    tables: {
+      messages: [{ id: 'm1', content: 'Hallo oma', timestamp: 1700000000000 }],
+      media_messages: [
+        { id: 'p1', local_uri: 'file:///old/documents/received_photos/p1.jpg', thumbnail_uri: '/old/documents/media/thumbnails/p1.jpg' },
+      ],
+      contacts: [{ id: 'c1', photo_path: '/old/documents/avatars/c1.jpg', name: 'Jan' }],
+    },
+    storage: {},
+    ...overrides,
+  };
+}
+
+describe('Backup', () => {
+  beforeAll(async () => {
+    await sodium.ready;
+  });
+
+  describe('parseBackupHeader', () => {
+    const header = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_FORMAT_VERSION,
+      createdAt: 1700000000000,
+      salt: 'c2FsdA==',
+      opsLimit: 2,
+      memLimit: 67108864,
+      nonce: 'bm9uY2U=',
+      manifestBytes: 1024,
+    };
+
+    it('accepts a valid header', () => {
+      expect(parseBackupHeader(JSON.stringify(header))).toEqual(header);
+    });
+
+    it('rejects other files and unknown versions', () => {
+      expect(parseBackupHeader('not json')).toBeNull();
+      expect(parseBackupHeader(JSON.stringify({ ...header, format: 'other' }))).toBeNull();
+      expect(parseBackupHeader(JSON.stringify({ ...header, version: BACKUP_FORMAT_VERSION + 1 }))).toBeNull();
+      expect(parseBackupHeader(JSON.stringify({ ...header, salt: undefined }))).toBeNull();
+      expect(parseBackupHeader(JSON.stringify({ ...header, manifestBytes: 0 }))).toBeNull();
+    });
+  });
+
+  describe('sealing', () => {
+    const salt = new Uint8Array(16).fill(7);
+    const nonce = new Uint8Array(24).fill(3);
+    const manifest: BackupManifest = {
+      createdAt: 1700000000000,
+      keys: { salt: 's', iv: 'i', encrypted: 'e', version: 1 },
+      schemaVersion: 2,
+      documentDirectory: '/old/documents',
+      tables: ['messages', 'contacts'],
+      segments: [{ table: 'messages', records: 1, bytes: 96, nonce: 'bm9uY2U=' }],
+      storage: {},
+      files: [{ path: 'media/p1.jpg', size: 10, nonce: 'bm9uY2U=' }],
+    };
+
+    function derive(pin: string): Uint8Array {
+      return deriveBackupKey(pin, salt, sodium.crypto_pwhash_OPSLIMIT_MIN, sodium.crypto_pwhash_MEMLIMIT_MIN);
+    }
+
+    it('round-trips with the same PIN', () => {
+      const sealed = sealManifest(manifest, derive('123456'), nonce);
+
+      expect(openManifest(sealed, derive('123456'), nonce)).toEqual(manifest);
+    });
+
+    it('rejects a wrong PIN', () => {
+      const sealed = sealManifest(manifest, derive('123456'), nonce);
+
+      expect(() => openManifest(sealed, derive('654321'), nonce)).toThrow();
+    });
+
+    it('rejects a tampered manifest', () => {
+      const key = derive('123456');
+      const sealed = sealManifest(manifest, key, nonce);
+      sealed[5] ^= 0x01;
+
+      expect(() => openManifest(sealed, key, nonce)).toThrow();
+    });
+
+    it('round-trips a dump segment', () => {
+      const key = derive('123456');
+      const records = createDump().tables.messages;
+
+      expect(openSegment(sealSegment(records, key, nonce), key, nonce)).toEqual(records);
+    });
+
+    it('rejects a segment opened with another nonce', () => {
+      const key = derive('123456');
+      const sealed = sealSegment(createDump().tables.messages, key, nonce);
+
+      expect(() => openSegment(sealed, key, new Uint8Array(24).fill(4))).toThrow();
+    });
+  });
+
+  describe('migrateDump', () => {
+    it('adds new columns and tables from the migrations', () => {
+      const migrated = migrateDump(createDump(), testMigrations, 4);
+
+      expect(migrated.schemaVersion).toBe(4);
+      expect(migrated.tables.messages[0]).toEqual({
+        id: 'm1',
+        content: 'Hallo oma',
+        timestamp: 1700000000000,
+        is_read: false,
+        edited_at: null,
+      });
+      expect(migrated.tables.game_stats).toEqual([]);
+    });
+
+    it('only replays the steps after the backup version', () => {
+      const dump = createDump({ schemaVersion: 3 });
+      const migrated = migrateDump(dump, testMigrations, 4);
+
+      expect(migrated.tables.messages[0]).not.toHaveProperty('is_read');
+      expect(migrated.tables.game_stats).toEqual([]);
+    });
+
+    it('does not change the original dump', () => {
+      const dump = createDump();
+      migrateDump(dump, testMigrations, 4);
+
+      expect(dump.tables.messages[0]).not.toHaveProperty('is_read');
+    });
+
+    it('refuses a backup from a newer app', () => {
+      expect(() => migrateDump(createDump({ schemaVersion: 5 }), testMigrations, 4)).toThrow();
+    });
+
+    it('refuses a backup older than the migrations', () => {
+      expect(() => migrateDump(createDump({ schemaVersion: 0 }), testMigrations, 4)).toThrow();
+    });
+  });
+
+  describe('file paths', () => {
+    it('collects files referenced by records', () => {
+      expect(referencedFiles(createDump()).sort()).toEqual([
+        'avatars/c1.jpg',
+        'media/thumbnails/p1.jpg',
+        'received_photos/p1.jpg',
+      ]);
+    });
+
+    it('rewrites paths to the new document directory', () => {
+      const rewritten = rewriteDocumentPaths(createDump(), '/new/documents');
+
+      expect(rewritten.tables.media_messages[0]).toEqual({
+        id: 'p1',
+        local_uri: 'file:///new/documents/received_photos/p1.jpg',
+        thumbnail_uri: '/new/documents/media/thumbnails/p1.jpg',
+      });
+      expect(rewritten.tables.contacts[0].photo_path).toBe('/new/documents/avatars/c1.jpg');
+      expect(rewritten.tables.contacts[0].name).toBe('Jan');
+    });
+
+    it('rejects paths outside the document directory', () => {
+      expect(isSafeBackupPath('media/p1.jpg')).toBe(true);
+      expect(isSafeBackupPath('../Library/Preferences/x.plist')).toBe(false);
+      expect(isSafeBackupPath('media/../../x')).toBe(false);
+      expect(isSafeBackupPath('/etc/passwd')).toBe(false);
+      expect(isSafeBackupPath('')).toBe(false);
+    });
+  });
+});
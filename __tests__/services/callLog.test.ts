@@ -0,0 +1,211 @@
+/**
+ * CallLogService Unit Tests
+ *
+ * Tests for the call history:
+ * - Which calls count as missed
+ * - Entries recorded from CallService state and end events
+ * - Call frequency for the frequent-calls smart section
+ *
+ * @see services/callLog.ts
+ */
+
+import {
+  callLogService,
+  countCallsPerContact,
+  isMissedCall,
+  FREQUENT_CALLS_WINDOW_DAYS,
+  type CallEventSource,
+} from '../../src/services/callLog';
+import type { ActiveCall, CallEndReason, CallLogEntry } from '../../src/services/interfaces';
+
+// Mock ServiceContainer
+const mockDatabase = {
+  saveCallLogEntry: jest.fn(),
+  getCallLog: jest.fn(),
+};
+
+jest.mock('../../src/services/container', () => ({
+  ServiceContainer: {
+    get database() { return mockDatabase; },
+  },
+}));
+
+describe('CallLogService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+    jest.setSystemTime(new Date(2024, 2, 4, 10, 0));
+    mockDatabase.saveCallLogEntry.mockResolvedValue(undefined);
+    mockDatabase.getCallLog.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    callLogService.cleanup();
+    jest.useRealTimers();
+  });
+
+  // ============================================================
+  // Missed Calls
+  // ============================================================
+
+  describe('isMissedCall', () => {
+    it('should count unanswered incoming calls that rang out or were hung up', () => {
+      expect(isMissedCall('incoming', undefined, 'timeout')).toBe(true);
+      expect(isMissedCall('incoming', undefined, 'hangup')).toBe(true);
+    });
+
+    it('should not count declined, answered, outgoing or failed calls', () => {
+      expect(isMissedCall('incoming', undefined, 'declined')).toBe(false);
+      expect(isMissedCall('incoming', 1000, 'hangup')).toBe(false);
+      expect(isMissedCall('outgoing', undefined, 'timeout')).toBe(false);
+      expect(isMissedCall('incoming', undefined, 'failed')).toBe(false);
+    });
+  });
+
+  // ============================================================
+  // Recording
+  // ============================================================
+
+  describe('recording', () => {
+    const mockCall: ActiveCall = {
+      id: 'call-1',
+      type: 'voice',
+      direction: 'incoming',
+      state: 'ringing',
+      participants: [{
+        jid: 'oma@commeazy.local',
+        name: 'Oma',
+        isMuted: false,
+        isVideoEnabled: false,
+        connectionState: 'connecting',
+      }],
+      duration: 0,
+      isMuted: false,
+      isSpeakerOn: false,
+      isVideoEnabled: false,
+      isFrontCamera: true,
+    };
+
+    // CallService stand-in: the test drives state and end events
+    let emitState: (call: ActiveCall | null) => void;
+    let endCall: (callId: string, reason: CallEndReason) => void;
+    const mockCallSource: CallEventSource = {
+      observeCallState: () => ({
+        subscribe: (observer) => {
+          emitState = observer;
+          return () => {};
+        },
+      }),
+      onCallEnded: (handler) => {
+        endCall = handler;
+        return () => {};
+      },
+    };
+
+    // Let the async save in the end handler run
+    const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+    beforeEach(() => {
+      callLogService.initialize(mockCallSource);
+    });
+
+    it('should record a missed incoming call', async () => {
+      emitState(mockCall);
+      jest.advanceTimersByTime(30_000);
+      endCall('call-1', 'timeout');
+      emitState(null);
+      await flush();
+
+      expect(mockDatabase.saveCallLogEntry).toHaveBeenCalledWith({
+        callId: 'call-1',
+        type: 'voice',
+        direction: 'incoming',
+        participants: [{ jid: 'oma@commeazy.local', name: 'Oma' }],
+        startedAt: new Date(2024, 2, 4, 10, 0).getTime(),
+        connectedAt: undefined,
+        endedAt: new Date(2024, 2, 4, 10, 0, 30).getTime(),
+        duration: 0,
+        endReason: 'timeout',
+        isMissed: true,
+      });
+    });
+
+    it('should record duration and everyone who joined a 3-way call', async () => {
+      const outgoing: ActiveCall = { ...mockCall, direction: 'outgoing', type: 'video' };
+
+      emitState(outgoing);
+      jest.advanceTimersByTime(5_000);
+      const connectedAt = Date.now();
+      emitState({ ...outgoing, state: 'connected', startTime: connectedAt });
+      emitState({
+        ...outgoing,
+        state: 'connected',
+        startTime: connectedAt,
+        participants: [
+          ...outgoing.participants,
+          { ...outgoing.participants[0], jid: 'jan@commeazy.local', name: 'Jan' },
+        ],
+      });
+      jest.advanceTimersByTime(125_000);
+      endCall('call-1', 'hangup');
+      await flush();
+
+      const saved = mockDatabase.saveCallLogEntry.mock.calls[0][0] as CallLogEntry;
+      expect(saved).toMatchObject({
+        direction: 'outgoing',
+        type: 'video',
+        connectedAt,
+        duration: 125,
+        isMissed: false,
+      });
+      expect(saved.participants.map((p) => p.name)).toEqual(['Oma', 'Jan']);
+    });
+
+    it('should ignore end events for calls it never saw', async () => {
+      endCall('unknown', 'hangup');
+      await flush();
+
+      expect(mockDatabase.saveCallLogEntry).not.toHaveBeenCalled();
+    });
+  });
+
+  // ============================================================
+  // Call Frequency
+  // ============================================================
+
+  describe('call frequency', () => {
+    const mockEntry: CallLogEntry = {
+      callId: 'c',
+      type: 'voice',
+      direction: 'outgoing',
+      participants: [{ jid: 'oma@commeazy.local', name: 'Oma' }],
+      startedAt: 0,
+      endedAt: 0,
+      duration: 0,
+      endReason: 'hangup',
+      isMissed: false,
+    };
+
+    it('should count outgoing and answered calls per contact, not missed ones', () => {
+      const frequency = countCallsPerContact([
+        mockEntry,
+        { ...mockEntry, direction: 'incoming', connectedAt: 1 },
+        { ...mockEntry, direction: 'incoming', isMissed: true },
+        { ...mockEntry, participants: [{ jid: 'jan@commeazy.local', name: 'Jan' }] },
+      ]);
+
+      expect(frequency).toEqual({ 'oma@commeazy.local': 2, 'jan@commeazy.local': 1 });
+    });
+
+    it('should only read calls within the frequency window', async () => {
+      const now = Date.now();
+
+      await callLogService.getCallFrequency(now);
+
+      expect(mockDatabase.getCallLog).toHaveBeenCalledWith(
+        expect.any(Number),
+        now - FREQUENT_CALLS_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+      );
+    });
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Call Quality Tests
+ *
+ * Tests for the call quality monitor:
+ * - Reading RTT, loss, jitter and bandwidth from connection stats
+ * - Three quality levels per sample
+ * - Hysteresis: down at once, up only after several good samples
+ * - Stall detection and change-only updates from the monitor
+ *
+ * @see services/call/qualityMonitor.ts
+ */
+
+import {
+  CallQualityMonitor,
+  SAMPLE_INTERVAL_MS,
+  classifySample,
+  isStalled,
+  nextPeerQuality,
+  readQualitySample,
+  type PeerQualityState,
+  type QualitySample,
+  type QualityUpdate,
+} from '../../src/services/call/qualityMonitor';
+import type { RTCPeerConnection, RTCStats } from '../../src/services/call/types';
+
+describe('Call quality', () => {
+  // getStats() report: selected candidate pair and inbound audio (and video)
+  const mockStatsReport = (link: {
+    packetsReceived: number;
+    packetsLost?: number;
+    bytesReceived: number;
+    videoBytes?: number;
+    rtt?: number;
+    jitter?: number;
+    bitrate?: number;
+  }): Map<string, RTCStats> => {
+    const stats: RTCStats[] = [
+      { id: 'T01', type: 'transport', selectedCandidatePairId: 'CP1' },
+      {
+        id: 'CP1',
+        type: 'candidate-pair',
+        currentRoundTripTime: link.rtt ?? 0.05,
+        availableOutgoingBitrate: link.bitrate ?? 2_000_000,
+      },
+      {
+        id: 'IA',
+        type: 'inbound-rtp',
+        kind: 'audio',
+        packetsReceived: link.packetsReceived,
+        packetsLost: link.packetsLost ?? 0,
+        bytesReceived: link.bytesReceived,
+        jitter: link.jitter ?? 0.01,
+      },
+    ];
+    if (link.videoBytes !== undefined) {
+      stats.push({ id: 'IV', type: 'inbound-rtp', kind: 'video', packetsReceived: 0, bytesReceived: link.videoBytes });
+    }
+    return new Map(stats.map((stat) => [stat.id, stat]));
+  };
+
+  const mockSample: QualitySample = {
+    rttMs: 50,
+    packetLoss: 0,
+    jitterMs: 10,
+    availableBitrate: 2_000_000,
+    stalled: false,
+    receivingVideo: null,
+  };
+
+  const mockPeer: PeerQualityState = { quality: 'good', betterSamples: 0, stalledSamples: 0, counters: null };
+
+  const COUNTERS = { packetsReceived: 0, packetsLost: 0, bytesReceived: 0, videoBytesReceived: null };
+
+  // ============================================================
+  // Reading Stats
+  // ============================================================
+
+  describe('readQualitySample', () => {
+    it('reads RTT, jitter and bandwidth in ms and bits/s', () => {
+      const { sample: first } = readQualitySample(
+        mockStatsReport({ packetsReceived: 100, bytesReceived: 1000, rtt: 0.12, jitter: 0.03, bitrate: 800_000 }),
+        null,
+      );
+
+      expect(first.rttMs).toBeCloseTo(120);
+      expect(first.jitterMs).toBeCloseTo(30);
+      expect(first.availableBitrate).toBe(800_000);
+      expect(first.stalled).toBe(false);
+    });
+
+    it('computes packet loss since the previous sample', () => {
+      const { counters } = readQualitySample(mockStatsReport({ packetsReceived: 100, packetsLost: 5, bytesReceived: 1000 }), null);
+      const { sample: next } = readQualitySample(
+        mockStatsReport({ packetsReceived: 190, packetsLost: 15, bytesReceived: 2000 }),
+        counters,
+      );
+
+      expect(next.packetLoss).toBeCloseTo(0.1);
+    });
+
+    it('marks the sample stalled when no bytes arrived', () => {
+      const { counters } = readQualitySample(mockStatsReport({ packetsReceived: 100, bytesReceived: 1000, videoBytes: 500 }), null);
+      const { sample: next } = readQualitySample(
+        mockStatsReport({ packetsReceived: 100, bytesReceived: 1000, videoBytes: 500 }),
+        counters,
+      );
+
+      expect(next.stalled).toBe(true);
+      expect(next.receivingVideo).toBe(false);
+    });
+
+    it('falls back to the nominated candidate pair', () => {
+      const report = new Map<string, RTCStats>([
+        ['CP1', { id: 'CP1', type: 'candidate-pair', nominated: true, state: 'succeeded', currentRoundTripTime: 0.2 }],
+      ]);
+      expect(readQualitySample(report, null).sample.rttMs).toBeCloseTo(200);
+    });
+  });
+
+  // ============================================================
+  // Classification
+  // ============================================================
+
+  describe('classifySample', () => {
+    it('grades by loss, RTT and jitter', () => {
+      expect(classifySample(mockSample, 'voice')).toBe('good');
+      expect(classifySample({ ...mockSample, packetLoss: 0.05 }, 'voice')).toBe('fair');
+      expect(classifySample({ ...mockSample, rttMs: 400 }, 'voice')).toBe('fair');
+      expect(classifySample({ ...mockSample, jitterMs: 200 }, 'voice')).toBe('poor');
+      expect(classifySample({ ...mockSample, packetLoss: 0.15 }, 'voice')).toBe('poor');
+    });
+
+    it('only counts bandwidth for video calls', () => {
+      const lowBandwidth = { ...mockSample, availableBitrate: 100_000 };
+      expect(classifySample(lowBandwidth, 'voice')).toBe('good');
+      expect(classifySample(lowBandwidth, 'video')).toBe('poor');
+    });
+  });
+
+  // ============================================================
+  // Hysteresis
+  // ============================================================
+
+  describe('nextPeerQuality', () => {
+    it('goes down at once', () => {
+      const next = nextPeerQuality(mockPeer, { ...mockSample, packetLoss: 0.2 }, COUNTERS, 'voice');
+      expect(next.quality).toBe('poor');
+    });
+
+    it('goes up one level after three better samples', () => {
+      let state: PeerQualityState = { ...mockPeer, quality: 'poor' };
+      for (let i = 0; i < 2; i++) {
+        state = nextPeerQuality(state, mockSample, COUNTERS, 'voice');
+        expect(state.quality).toBe('poor');
+      }
+      state = nextPeerQuality(state, mockSample, COUNTERS, 'voice');
+      expect(state.quality).toBe('fair');
+    });
+
+    it('counts stalled samples in a row', () => {
+      let state = nextPeerQuality(mockPeer, { ...mockSample, stalled: true }, COUNTERS, 'voice');
+      expect(isStalled(state)).toBe(false);
+      state = nextPeerQuality(state, { ...mockSample, stalled: true }, COUNTERS, 'voice');
+      expect(isStalled(state)).toBe(true);
+      state = nextPeerQuality(state, mockSample, COUNTERS, 'voice');
+      expect(isStalled(state)).toBe(false);
+    });
+  });
+
+  // ============================================================
+  // Monitor
+  // ============================================================
+
+  describe('CallQualityMonitor', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    async function tick(): Promise<void> {
+      jest.advanceTimersByTime(SAMPLE_INTERVAL_MS);
+      // Let the getStats() promises settle
+      for (let i = 0; i < 5; i++) {
+        await Promise.resolve();
+      }
+    }
+
+    it('reports only changes in quality or stall', async () => {
+      const reports = [
+        mockStatsReport({ packetsReceived: 100, bytesReceived: 1000 }),
+        mockStatsReport({ packetsReceived: 200, bytesReceived: 2000 }),
+        mockStatsReport({ packetsReceived: 200, bytesReceived: 2000 }),
+        mockStatsReport({ packetsReceived: 200, bytesReceived: 2000 }),
+      ];
+      const connection = {
+        getStats: jest.fn(() => Promise.resolve(reports.shift() ?? new Map())),
+      } as unknown as RTCPeerConnection;
+      const updates: QualityUpdate[] = [];
+
+      const monitor = new CallQualityMonitor();
+      monitor.start('voice', () => new Map([['bob@commeazy.local', connection]]), (_jid, update) => {
+        updates.push(update);
+      });
+
+      await tick();
+      await tick();
+      expect(updates).toHaveLength(0);
+
+      await tick();
+      await tick();
+      expect(updates).toHaveLength(1);
+      expect(updates[0].stalled).toBe(true);
+      expect(monitor.getQuality('bob@commeazy.local')).toBe('good');
+
+      monitor.stop();
+      expect(monitor.getQuality('bob@commeazy.local')).toBeUndefined();
+    });
+  });
+});
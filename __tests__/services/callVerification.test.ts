@@ -0,0 +1,169 @@
+/**
+ * CommEazy Call Verification Tests
+ *
+ * - DTLS fingerprint extraction from SDP
+ * - Negotiated certificate lookup in connection stats
+ * - Verification code: same on both devices, different per call
+ * - Signaling security: only ratchet payloads from the stated sender
+ *
+ * @see src/services/call/callVerification.ts
+ * @see src/services/call/signalingSecurity.ts
+ */
+
+import sodium from 'libsodium-wrappers-sumo';
+
+// libsodium-wrappers only attaches its functions after `ready`, so resolve lazily
+jest.mock('react-native-libsodium', () => {
+  const wrappers = require('libsodium-wrappers-sumo');
+  const sodium = wrappers.default ?? wrappers;
+  return new Proxy({}, { get: (_target, key) => sodium[key] });
+});
+
+import {
+  computeCallVerificationCode,
+  extractDtlsFingerprint,
+  formatCallVerificationCode,
+  getNegotiatedRemoteFingerprint,
+} from '../../src/services/call/callVerification';
+import { createSignalingSecurity } from '../../src/services/call/signalingSecurity';
+import type { RTCPeerConnection, RTCStats } from '../../src/services/call/types';
+import type { Contact, EncryptedPayload } from '../../src/services/interfaces';
+
+// ============================================================
+// Helpers
+// ============================================================
+
+const ALICE_FP = 'sha-256 AA:BB:CC:DD';
+const BOB_FP = 'sha-256 11:22:33:44';
+
+function sdpWith(...fingerprints: string[]): string {
+  return [
+    'v=0',
+    'o=- 1 2 IN IP4 127.0.0.1',
+    ...fingerprints.flatMap((fp) => ['m=audio 9 UDP/TLS/RTP/SAVPF 111', `a=fingerprint:${fp}`]),
+    '',
+  ].join('\r\n');
+}
+
+function connectionWithStats(stats: RTCStats[]): RTCPeerConnection {
+  const report = new Map(stats.map((stat) => [stat.id, stat]));
+  return { getStats: () => Promise.resolve(report) } as unknown as RTCPeerConnection;
+}
+
+const BOB: Contact = {
+  userUuid: 'bob-uuid',
+  jid: 'bob-uuid@commeazy.local',
+  firstName: 'Bob',
+  lastName: '',
+  publicKey: Buffer.from(new Uint8Array(32).fill(7)).toString('base64'),
+  verified: true,
+  lastSeen: 0,
+};
+
+function ratchetPayload(from: string): EncryptedPayload {
+  return { mode: 'ratchet', data: 'ciphertext', metadata: { from } };
+}
+
+// ============================================================
+// Tests
+// ============================================================
+
+describe('Call verification', () => {
+  beforeAll(async () => {
+    await sodium.ready;
+  });
+
+  describe('extractDtlsFingerprint', () => {
+    it('normalizes the fingerprint of the SDP', () => {
+      expect(extractDtlsFingerprint(sdpWith('SHA-256 aa:bb:cc:dd'))).toBe(ALICE_FP);
+    });
+
+    it('accepts repeated identical fingerprints (bundled media)', () => {
+      expect(extractDtlsFingerprint(sdpWith(ALICE_FP, ALICE_FP))).toBe(ALICE_FP);
+    });
+
+    it('rejects SDPs without or with conflicting fingerprints', () => {
+      expect(extractDtlsFingerprint(sdpWith())).toBeNull();
+      expect(extractDtlsFingerprint(sdpWith(ALICE_FP, BOB_FP))).toBeNull();
+    });
+  });
+
+  describe('getNegotiatedRemoteFingerprint', () => {
+    it('reads the remote certificate of the transport', async () => {
+      const connection = connectionWithStats([
+        { id: 'T01', type: 'transport', localCertificateId: 'C1', remoteCertificateId: 'C2' },
+        { id: 'C1', type: 'certificate', fingerprint: '11:22:33:44', fingerprintAlgorithm: 'sha-256' },
+        { id: 'C2', type: 'certificate', fingerprint: 'aa:bb:cc:dd', fingerprintAlgorithm: 'sha-256' },
+      ]);
+      await expect(getNegotiatedRemoteFingerprint(connection)).resolves.toBe(ALICE_FP);
+    });
+
+    it('returns null when the stats do not report it', async () => {
+      const connection = connectionWithStats([{ id: 'T01', type: 'transport' }]);
+      await expect(getNegotiatedRemoteFingerprint(connection)).resolves.toBeNull();
+    });
+  });
+
+  describe('verification code', () => {
+    it('is the same six digits on both devices', () => {
+      const onAlice = computeCallVerificationCode('call-1', ALICE_FP, BOB_FP);
+      const onBob = computeCallVerificationCode('call-1', BOB_FP, ALICE_FP);
+
+      expect(onAlice).toMatch(/^\d{6}$/);
+      expect(onBob).toBe(onAlice);
+    });
+
+    it('changes with the call and with either certificate', () => {
+      const code = computeCallVerificationCode('call-1', ALICE_FP, BOB_FP);
+
+      expect(computeCallVerificationCode('call-2', ALICE_FP, BOB_FP)).not.toBe(code);
+      expect(computeCallVerificationCode('call-1', 'sha-256 EE:FF', BOB_FP)).not.toBe(code);
+    });
+
+    it('formats as two groups of three digits', () => {
+      expect(formatCallVerificationCode('123456')).toBe('123 456');
+    });
+  });
+
+  describe('signaling security', () => {
+    const encryption = {
+      encrypt: jest.fn(() => Promise.resolve(ratchetPayload('me@commeazy.local'))),
+      decrypt: jest.fn(() => Promise.resolve('{"type":"hangup","callId":"call-1"}')),
+    };
+    const contacts = {
+      getContact: jest.fn((jid: string) => Promise.resolve(jid === BOB.jid ? BOB : null)),
+    };
+    const security = createSignalingSecurity(encryption, contacts);
+
+    beforeEach(() => {
+      encryption.encrypt.mockClear();
+      encryption.decrypt.mockClear();
+    });
+
+    it('seals for the bare JID with the ratchet', async () => {
+      await security.seal(`${BOB.jid}/phone`, 'payload');
+      expect(encryption.encrypt).toHaveBeenCalledWith(
+        'payload',
+        [{ jid: BOB.jid, publicKey: expect.any(Uint8Array) }],
+        'ratchet',
+      );
+    });
+
+    it('opens ratchet payloads from the stanza sender', async () => {
+      await expect(security.open(`${BOB.jid}/phone`, ratchetPayload(BOB.jid))).resolves.toContain('hangup');
+      expect(encryption.decrypt).toHaveBeenCalledWith(expect.anything(), expect.any(Uint8Array), BOB.jid);
+    });
+
+    it('refuses other modes, other senders and unknown contacts', async () => {
+      await expect(security.open(BOB.jid, { ...ratchetPayload(BOB.jid), mode: '1on1' })).rejects.toThrow();
+      await expect(security.open(BOB.jid, ratchetPayload('eve@commeazy.local'))).rejects.toThrow();
+      await expect(security.open('eve@commeazy.local', ratchetPayload('eve@commeazy.local'))).rejects.toThrow();
+      expect(encryption.decrypt).not.toHaveBeenCalled();
+    });
+
+    it('reports whether we verified the contact', async () => {
+      await expect(security.isVerifiedContact(`${BOB.jid}/phone`)).resolves.toBe(true);
+      await expect(security.isVerifiedContact('eve@commeazy.local')).resolves.toBe(false);
+    });
+  });
+});
@@ -27,6 +27,7 @@ const mockDatabase = {
   cleanupExpiredOutbox: jest.fn(),
   getContact: jest.fn(),
   getContacts: jest.fn(),
+  onContactKeyChanged: jest.fn(() => jest.fn()),
 };
 
 const mockEncryption = {
@@ -0,0 +1,217 @@
+/**
+ * CheckInService Unit Tests
+ *
+ * Tests for the daily check-in:
+ * - Status before and after the deadline, escalation to the second contact
+ * - Each contact is warned only once a day
+ * - Reminder time
+ * - Alerts, escalation and the all-clear message via chat
+ * - Overdue alerts before an app-activity check-in
+ *
+ * @see services/checkIn.ts
+ */
+
+import {
+  evaluateCheckIn,
+  contactsToAlert,
+  nextReminderAt,
+  DEFAULT_CHECK_IN_SETTINGS,
+  type CheckInSettings,
+  type CheckInState,
+} from '../../src/services/checkIn';
+
+// Mock AsyncStorage
+const mockStorage = new Map<string, string>();
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(async (key: string) => mockStorage.get(key) ?? null),
+  setItem: jest.fn(async (key: string, value: string) => {
+    mockStorage.set(key, value);
+  }),
+}));
+
+// Mock i18n — last key segment, with the interpolated values
+jest.mock('../../src/i18n', () => ({
+  __esModule: true,
+  default: {
+    language: 'en',
+    t: (key: string, options?: Record<string, unknown>) =>
+      options ? `${key.split('.').pop()}(${Object.values(options).join(',')})` : key.split('.').pop(),
+  },
+}));
+
+// Mock local notifications
+jest.mock('../../src/services/localNotifications', () => ({
+  NOTIFICATION_CATEGORIES: { CHECK_IN_REMINDER: 'check-in-reminder' },
+  localNotificationService: {
+    schedule: jest.fn(async () => undefined),
+    cancel: jest.fn(async () => undefined),
+    onEvent: jest.fn(() => () => {}),
+  },
+}));
+
+// Mock ChatService
+const mockChat = {
+  isInitialized: true,
+  sendMessage: jest.fn(),
+};
+
+jest.mock('../../src/services/chat', () => ({
+  get chatService() { return mockChat; },
+}));
+
+describe('CheckInService', () => {
+  const settings: CheckInSettings = {
+    ...DEFAULT_CHECK_IN_SETTINGS,
+    enabled: true,
+    deadline: '10:00',
+    escalateAfterMinutes: 60,
+    contactJids: ['anna@commeazy.local', 'bram@commeazy.local'],
+  };
+
+  const noState: CheckInState = { lastCheckInAt: null, alertDay: null, alertLevel: 0, alertedJids: [] };
+
+  // Local time on 4 March 2024
+  const at = (hours: number, minutes = 0, date = 4): number =>
+    new Date(2024, 2, date, hours, minutes).getTime();
+
+  // ============================================================
+  // Status
+  // ============================================================
+
+  describe('evaluateCheckIn', () => {
+    it('should be off without contacts', () => {
+      expect(evaluateCheckIn({ ...settings, contactJids: [] }, noState, at(11)).status).toBe('off');
+      expect(evaluateCheckIn({ ...settings, enabled: false }, noState, at(11)).status).toBe('off');
+    });
+
+    it('should wait until the deadline, then escalate', () => {
+      expect(evaluateCheckIn(settings, noState, at(9, 59))).toMatchObject({ status: 'waiting', dueLevel: 0 });
+      expect(evaluateCheckIn(settings, noState, at(10))).toMatchObject({ status: 'overdue', dueLevel: 1 });
+      expect(evaluateCheckIn(settings, noState, at(11))).toMatchObject({ status: 'overdue', dueLevel: 2 });
+    });
+
+    it('should never escalate with a single contact', () => {
+      const single = { ...settings, contactJids: ['anna@commeazy.local'] };
+      expect(evaluateCheckIn(single, noState, at(15)).dueLevel).toBe(1);
+    });
+
+    it('should only count a check-in of today', () => {
+      expect(evaluateCheckIn(settings, { ...noState, lastCheckInAt: at(8) }, at(11)).status).toBe('checkedIn');
+      expect(evaluateCheckIn(settings, { ...noState, lastCheckInAt: at(20, 0, 3) }, at(11)).status).toBe('overdue');
+    });
+  });
+
+  // ============================================================
+  // Alerts
+  // ============================================================
+
+  describe('contactsToAlert', () => {
+    it('should skip levels that were already sent today', () => {
+      const warned: CheckInState = { ...noState, alertDay: '2024-03-04', alertLevel: 1, alertedJids: ['anna@commeazy.local'] };
+      expect(contactsToAlert(settings, warned, 2, at(11))).toEqual([{ level: 2, jid: 'bram@commeazy.local' }]);
+      expect(contactsToAlert(settings, warned, 1, at(10, 30))).toEqual([]);
+    });
+
+    it('should start over on a new day', () => {
+      const yesterday: CheckInState = { ...noState, alertDay: '2024-03-03', alertLevel: 2 };
+      expect(contactsToAlert(settings, yesterday, 1, at(10))).toEqual([{ level: 1, jid: 'anna@commeazy.local' }]);
+    });
+  });
+
+  // ============================================================
+  // Reminder
+  // ============================================================
+
+  describe('nextReminderAt', () => {
+    it('should nudge before the deadline, or tomorrow after a check-in', () => {
+      expect(nextReminderAt(settings, noState, at(7))).toBe(at(9, 30));
+      expect(nextReminderAt(settings, { ...noState, lastCheckInAt: at(7) }, at(7))).toBe(at(9, 30, 5));
+      expect(nextReminderAt(settings, noState, at(9, 45))).toBe(at(9, 30, 5));
+    });
+  });
+
+  // ============================================================
+  // Watch and Check-in
+  // ============================================================
+
+  describe('checkInService', () => {
+    type Service = typeof import('../../src/services/checkIn').checkInService;
+    let service: Service;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockStorage.clear();
+      mockStorage.set('check_in_settings', JSON.stringify(settings));
+      mockChat.sendMessage.mockResolvedValue(undefined);
+      mockChat.isInitialized = true;
+
+      // A fresh service per test: it caches settings and state
+      jest.isolateModules(() => {
+        service = (require('../../src/services/checkIn') as typeof import('../../src/services/checkIn')).checkInService;
+      });
+    });
+
+    it('should warn the first contact at the deadline and the second one later', async () => {
+      await service.runWatch(at(9));
+      expect(mockChat.sendMessage).not.toHaveBeenCalled();
+
+      await service.runWatch(at(10, 5));
+      await service.runWatch(at(10, 30));
+      expect(mockChat.sendMessage).toHaveBeenCalledTimes(1);
+      expect(mockChat.sendMessage).toHaveBeenCalledWith('anna@commeazy.local', 'alert(10:00,lastSeenUnknown)');
+
+      await service.runWatch(at(11, 5));
+      expect(mockChat.sendMessage).toHaveBeenCalledTimes(2);
+      expect(mockChat.sendMessage).toHaveBeenLastCalledWith('bram@commeazy.local', 'escalation(10:00,lastSeenUnknown)');
+      expect((await service.getState()).alertedJids).toEqual(['anna@commeazy.local', 'bram@commeazy.local']);
+    });
+
+    it('should send the all-clear only to contacts that were warned', async () => {
+      await service.runWatch(at(10, 5));
+      mockChat.sendMessage.mockClear();
+
+      await service.checkIn('button', at(10, 20));
+      expect(mockChat.sendMessage).toHaveBeenCalledTimes(1);
+      expect(mockChat.sendMessage).toHaveBeenCalledWith('anna@commeazy.local', 'allClear(10:20)');
+      expect((await service.evaluate(at(12))).status).toBe('checkedIn');
+
+      // No more alerts for the rest of the day
+      await service.runWatch(at(12));
+      expect(mockChat.sendMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry an alert that could not be sent', async () => {
+      mockChat.isInitialized = false;
+      await service.runWatch(at(10, 5));
+      expect((await service.getState()).alertLevel).toBe(0);
+
+      mockChat.isInitialized = true;
+      await service.runWatch(at(10, 6));
+      expect(mockChat.sendMessage).toHaveBeenCalledWith('anna@commeazy.local', 'alert(10:00,lastSeenUnknown)');
+    });
+
+    it('should send overdue alerts before an app-activity check-in clears the day', async () => {
+      await service.onAppActive(at(11, 30));
+      expect(mockChat.sendMessage.mock.calls).toEqual([
+        ['anna@commeazy.local', 'alert(10:00,lastSeenUnknown)'],
+        ['bram@commeazy.local', 'escalation(10:00,lastSeenUnknown)'],
+        ['anna@commeazy.local', 'allClear(11:30)'],
+        ['bram@commeazy.local', 'allClear(11:30)'],
+      ]);
+      expect((await service.evaluate(at(12))).status).toBe('checkedIn');
+    });
+
+    it('should check in quietly on app activity before the deadline', async () => {
+      await service.onAppActive(at(9));
+      expect(mockChat.sendMessage).not.toHaveBeenCalled();
+      expect((await service.evaluate(at(11))).status).toBe('checkedIn');
+    });
+
+    it('should mention when the user was last seen', async () => {
+      await service.checkIn('activity', at(21, 15, 3));
+      await service.runWatch(at(10, 5));
+      expect(mockChat.sendMessage).toHaveBeenCalledWith('anna@commeazy.local', 'alert(10:00,yesterdayAt(21:15))');
+    });
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * CommEazy Database Rekey Target Tests
+ *
+ * The targets against real SQLCipher files (the op-sqlite stand-in in
+ * __mocks__):
+ * - Probing tells which key opens a file, also for a wrong key
+ * - PRAGMA rekey re-encrypts the file in place and keeps the rows
+ * - A wrong old key leaves the file untouched
+ * - An unencrypted mail cache counts as readable; it is closed before re-keying
+ * - The mail cache opens encrypted and replaces a cache it cannot read
+ *
+ * @see src/services/databaseRekey.ts
+ */
+
+jest.mock('@op-engineering/op-sqlite');
+
+jest.mock('../../src/services/mail/mailCache', () => ({
+  closeMailCacheDb: jest.fn(),
+}));
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { open, IOS_DOCUMENT_PATH } from '@op-engineering/op-sqlite';
+import { getDatabaseRekeyTargets } from '../../src/services/databaseRekey';
+import { closeMailCacheDb } from '../../src/services/mail/mailCache';
+import { openEncryptedMailDatabase } from '../../src/models/mailDatabase';
+
+const { deleteAllDatabases } = jest.requireMock<{ deleteAllDatabases: () => void }>('@op-engineering/op-sqlite');
+
+const OLD_KEY = 'a'.repeat(64);
+const NEW_KEY = 'b'.repeat(64);
+
+const MAIN_DB = { name: 'commeazy.db', location: IOS_DOCUMENT_PATH as string };
+const MAIL_DB = { name: 'mail_cache', location: undefined };
+
+async function createDatabase(file: typeof MAIN_DB | typeof MAIL_DB, keyHex: string | undefined): Promise<void> {
+  const db = open({ ...file, encryptionKey: keyHex });
+  try {
+    await db.execute('CREATE TABLE notes (text TEXT)');
+    await db.execute('INSERT INTO notes (text) VALUES (?)', ['hallo']);
+  } finally {
+    db.close();
+  }
+}
+
+async function readRows(file: typeof MAIN_DB | typeof MAIL_DB, keyHex: string | undefined): Promise<string[]> {
+  const db = open({ ...file, encryptionKey: keyHex });
+  try {
+    const { rows } = await db.execute('SELECT text FROM notes');
+    return rows.map((row: { text: string }) => row.text);
+  } finally {
+    db.close();
+  }
+}
+
+function targetNamed(name: string) {
+  const target = getDatabaseRekeyTargets().find(candidate => candidate.name === name);
+  if (!target) throw new Error(`no target ${name}`);
+  return target;
+}
+
+describe('databaseRekey targets', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    deleteAllDatabases();
+  });
+
+  afterAll(() => {
+    deleteAllDatabases();
+  });
+
+  describe('WatermelonDB', () => {
+    const main = () => targetNamed('WatermelonDB');
+
+    it('opens only with the key the file is encrypted with', async () => {
+      await createDatabase(MAIN_DB, OLD_KEY);
+
+      expect(await main().canOpen(OLD_KEY)).toBe(true);
+      expect(await main().canOpen(NEW_KEY)).toBe(false);
+    });
+
+    it('re-encrypts the file in place', async () => {
+      await createDatabase(MAIN_DB, OLD_KEY);
+
+      await main().rekey(OLD_KEY, NEW_KEY);
+
+      expect(await readRows(MAIN_DB, NEW_KEY)).toEqual(['hallo']);
+      await expect(readRows(MAIN_DB, OLD_KEY)).rejects.toThrow('file is not a database');
+      const header = fs.readFileSync(path.join(MAIN_DB.location, MAIN_DB.name)).subarray(0, 15).toString();
+      expect(header).not.toBe('SQLite format 3');
+    });
+
+    it('leaves the file alone when the old key is wrong', async () => {
+      await createDatabase(MAIN_DB, OLD_KEY);
+
+      await expect(main().rekey(NEW_KEY, 'c'.repeat(64))).rejects.toThrow();
+
+      expect(await readRows(MAIN_DB, OLD_KEY)).toEqual(['hallo']);
+    });
+
+    it('does not open an unencrypted file with a key', async () => {
+      await createDatabase(MAIN_DB, undefined);
+
+      expect(await main().canOpen(OLD_KEY)).toBe(false);
+    });
+  });
+
+  describe('Mail cache', () => {
+    const mail = () => targetNamed('Mail cache');
+
+    it('opens only with the key the file is encrypted with', async () => {
+      await createDatabase(MAIL_DB, OLD_KEY);
+
+      expect(await mail().canOpen(OLD_KEY)).toBe(true);
+      expect(await mail().canOpen(NEW_KEY)).toBe(false);
+    });
+
+    it('counts an unencrypted cache as readable with any key', async () => {
+      await createDatabase(MAIL_DB, undefined);
+
+      expect(await mail().canOpen(NEW_KEY)).toBe(true);
+    });
+
+    it('closes the cache connection, then re-encrypts the file', async () => {
+      await createDatabase(MAIL_DB, OLD_KEY);
+
+      await mail().rekey(OLD_KEY, NEW_KEY);
+
+      expect(closeMailCacheDb).toHaveBeenCalledTimes(1);
+      expect(await readRows(MAIL_DB, NEW_KEY)).toEqual(['hallo']);
+      await expect(readRows(MAIL_DB, OLD_KEY)).rejects.toThrow('file is not a database');
+    });
+
+    it('opens the cache encrypted with the database key', async () => {
+      const db = await openEncryptedMailDatabase(OLD_KEY);
+      await db.execute('CREATE TABLE notes (text TEXT)');
+      db.close();
+
+      expect(await mail().canOpen(OLD_KEY)).toBe(true);
+      await expect(readRows(MAIL_DB, undefined)).rejects.toThrow('file is not a database');
+    });
+
+    it('replaces a cache that does not open with the database key', async () => {
+      await createDatabase(MAIL_DB, undefined);
+
+      const db = await openEncryptedMailDatabase(OLD_KEY);
+      expect(await db.executeQuery("SELECT name FROM sqlite_master WHERE name = 'notes'")).toEqual([]);
+      await db.execute('CREATE TABLE notes (text TEXT)');
+      db.close();
+
+      await expect(readRows(MAIL_DB, undefined)).rejects.toThrow('file is not a database');
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * CommEazy Device Sync Tests
+ *
+ * Unit tests for the envelope format in services/deviceSync.ts:
+ * - Sealing one event for several linked devices
+ * - Only the addressed device can open its box
+ * - Tampered boxes and forged senders are rejected
+ *
+ * @see .claude/skills/security-expert/SKILL.md
+ */
+
+import sodium from 'libsodium-wrappers-sumo';
+
+// libsodium-wrappers only attaches its functions after `ready`, so resolve lazily
+jest.mock('react-native-libsodium', () => {
+  const wrappers = require('libsodium-wrappers-sumo');
+  const sodium = wrappers.default ?? wrappers;
+  return new Proxy({}, { get: (_target, key) => sodium[key] });
+});
+
+// The envelope helpers do not touch the services
+jest.mock('../../src/services/container', () => ({ ServiceContainer: {} }));
+jest.mock('../../src/services/chat', () => ({ chatService: {} }));
+jest.mock('../../src/services/groupChat', () => ({ groupChatService: {} }));
+
+import { sealSyncEvent, openSyncEnvelope } from '../../src/services/deviceSync';
+import type { AnnouncedDevice, DeviceSyncEvent } from '../../src/services/interfaces';
+
+interface TestDevice {
+  device: AnnouncedDevice;
+  privateKey: string;
+}
+
+function createDevice(deviceId: string): TestDevice {
+  const keyPair = sodium.crypto_box_keypair();
+  return {
+    device: {
+      deviceId,
+      name: deviceId,
+      platform: 'ios',
+      publicKey: sodium.to_base64(keyPair.publicKey, sodium.base64_variants.ORIGINAL),
+      certificate: 'certificate',
+      linkedAt: 1700000000000,
+    },
+    privateKey: sodium.to_base64(keyPair.privateKey, sodium.base64_variants.ORIGINAL),
+  };
+}
+
+describe('Device Sync', () => {
+  const event: DeviceSyncEvent = { type: 'read', chatId: 'oma@commeazy.local' };
+  let phone: TestDevice;
+  let tablet: TestDevice;
+  let laptop: TestDevice;
+
+  beforeAll(async () => {
+    await sodium.ready;
+    phone = createDevice('phone');
+    tablet = createDevice('tablet');
+    laptop = createDevice('laptop');
+  });
+
+  function open(envelope: ReturnType<typeof sealSyncEvent>, recipient: TestDevice, sender: TestDevice) {
+    return openSyncEnvelope(
+      envelope,
+      { deviceId: recipient.device.deviceId, privateKey: recipient.privateKey },
+      sender.device.publicKey,
+    );
+  }
+
+  it('seals one box per recipient and announces the sender', () => {
+    const envelope = sealSyncEvent(event, phone, [tablet.device, laptop.device]);
+
+    expect(envelope.device).toEqual(phone.device);
+    expect(Object.keys(envelope.boxes).sort()).toEqual(['laptop', 'tablet']);
+  });
+
+  it('lets every recipient open its own box', () => {
+    const envelope = sealSyncEvent(event, phone, [tablet.device, laptop.device], 1234);
+
+    expect(open(envelope, tablet, phone)).toEqual({ sentAt: 1234, event });
+    expect(open(envelope, laptop, phone)).toEqual({ sentAt: 1234, event });
+  });
+
+  it('returns null for a device without a box', () => {
+    const envelope = sealSyncEvent(event, phone, [tablet.device]);
+
+    expect(open(envelope, laptop, phone)).toBeNull();
+  });
+
+  it('rejects a box opened with another device key', () => {
+    const envelope = sealSyncEvent(event, phone, [tablet.device]);
+    const misrouted = { ...envelope, boxes: { laptop: envelope.boxes.tablet } };
+
+    expect(open(misrouted, laptop, phone)).toBeNull();
+  });
+
+  it('rejects a tampered box', () => {
+    const envelope = sealSyncEvent(event, phone, [tablet.device]);
+    const ciphertext = sodium.from_base64(envelope.boxes.tablet.ciphertext, sodium.base64_variants.ORIGINAL);
+    ciphertext[ciphertext.length - 1] ^= 0x01;
+    envelope.boxes.tablet.ciphertext = sodium.to_base64(ciphertext, sodium.base64_variants.ORIGINAL);
+
+    expect(open(envelope, tablet, phone)).toBeNull();
+  });
+
+  it('rejects a box that claims another sender', () => {
+    const envelope = sealSyncEvent(event, laptop, [tablet.device]);
+
+    expect(open(envelope, tablet, phone)).toBeNull();
+  });
+});
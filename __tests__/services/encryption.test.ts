@@ -156,7 +156,8 @@ describe('SodiumEncryptionService', () => {
       // Bob decrypts
       const decrypted = await bobService.decrypt(
         encrypted,
-        sodium.from_base64(aliceKeyPair.publicKey)
+        sodium.from_base64(aliceKeyPair.publicKey),
+        'alice@commeazy.nl'
       );
 
       expect(decrypted).toBe(plaintext);
@@ -174,7 +175,8 @@ describe('SodiumEncryptionService', () => {
 
       const decrypted = await bobService.decrypt(
         encrypted,
-        sodium.from_base64(aliceKeyPair.publicKey)
+        sodium.from_base64(aliceKeyPair.publicKey),
+        'alice@commeazy.nl'
       );
 
       expect(decrypted).toBe(sodium.to_string(binaryData));
@@ -209,7 +211,7 @@ describe('SodiumEncryptionService', () => {
       const fakeKeyPair = sodium.crypto_box_keypair();
 
       await expect(
-        bobService.decrypt(encrypted, fakeKeyPair.publicKey)
+        bobService.decrypt(encrypted, fakeKeyPair.publicKey, 'alice@commeazy.nl')
       ).rejects.toThrow();
     });
 
@@ -232,7 +234,7 @@ describe('SodiumEncryptionService', () => {
       };
 
       await expect(
-        bobService.decrypt(tamperedPayload, sodium.from_base64(aliceKeyPair.publicKey))
+        bobService.decrypt(tamperedPayload, sodium.from_base64(aliceKeyPair.publicKey), 'alice@commeazy.nl')
       ).rejects.toThrow();
     });
   });
@@ -298,7 +300,8 @@ describe('SodiumEncryptionService', () => {
         recipient.service.setMyJid(recipient.jid);
         const decrypted = await recipient.service.decrypt(
           encrypted,
-          sodium.from_base64(senderKeyPair.publicKey)
+          sodium.from_base64(senderKeyPair.publicKey),
+          'sender@commeazy.nl'
         );
         expect(decrypted).toBe(plaintext);
       }
@@ -315,11 +318,11 @@ describe('SodiumEncryptionService', () => {
 
       // Try to decrypt without setting JID
       await expect(
-        recipients[0].service.decrypt(encrypted, sodium.from_base64(senderKeyPair.publicKey))
+        recipients[0].service.decrypt(encrypted, sodium.from_base64(senderKeyPair.publicKey), 'sender@commeazy.nl')
       ).rejects.toThrow(AppError);
 
       try {
-        await recipients[0].service.decrypt(encrypted, sodium.from_base64(senderKeyPair.publicKey));
+        await recipients[0].service.decrypt(encrypted, sodium.from_base64(senderKeyPair.publicKey), 'sender@commeazy.nl');
       } catch (error) {
         expect((error as AppError).code).toBe('E202');
       }
@@ -419,7 +422,8 @@ describe('SodiumEncryptionService', () => {
         recipient.service.setMyJid(recipient.jid);
         const decrypted = await recipient.service.decrypt(
           encrypted,
-          sodium.from_base64(senderKeyPair.publicKey)
+          sodium.from_base64(senderKeyPair.publicKey),
+          'sender@commeazy.nl'
         );
         expect(decrypted).toBe(plaintext);
       }
@@ -1003,7 +1007,7 @@ describe('SodiumEncryptionService', () => {
 
         let errorMessage = '';
         try {
-          await service.decrypt(invalidPayload, sodium.crypto_box_keypair().publicKey);
+          await service.decrypt(invalidPayload, sodium.crypto_box_keypair().publicKey, 'sender@commeazy.nl');
         } catch (error) {
           errorMessage = (error as Error).message;
         }
@@ -1077,11 +1081,11 @@ describe('SodiumEncryptionService', () => {
       };
 
       await expect(
-        service.decrypt(invalidPayload, sodium.crypto_box_keypair().publicKey)
+        service.decrypt(invalidPayload, sodium.crypto_box_keypair().publicKey, 'sender@commeazy.nl')
       ).rejects.toThrow(AppError);
 
       try {
-        await service.decrypt(invalidPayload, sodium.crypto_box_keypair().publicKey);
+        await service.decrypt(invalidPayload, sodium.crypto_box_keypair().publicKey, 'sender@commeazy.nl');
       } catch (error) {
         expect(error).toBeInstanceOf(AppError);
         expect((error as AppError).code).toBe('E201');
@@ -0,0 +1,256 @@
+/**
+ * CommEazy EPUB Tests
+ *
+ * Unit tests for services/epub:
+ * - Inflating DEFLATE streams (fixed, dynamic and stored blocks)
+ * - Reading ZIP entries
+ * - OPF spine + nav/NCX table of contents → chapters
+ * - XHTML sanitizing and clean TTS text
+ */
+
+import { deflateRawSync } from 'zlib';
+
+import { openZip, inflateRaw, parseEpub, chapterText, resolveHref } from '../../src/services/epub';
+
+// ============================================================
+// Helpers
+// ============================================================
+
+interface TestFile {
+  name: string;
+  content: string;
+  store?: boolean;
+}
+
+/**
+ * Build a ZIP archive in memory (CRCs are not checked by the reader).
+ */
+function createZip(files: TestFile[]): Uint8Array {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, 'utf8');
+    const raw = Buffer.from(file.content, 'utf8');
+    const data = file.store ? raw : deflateRawSync(raw);
+    const method = file.store ? 0 : 8;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return new Uint8Array(Buffer.concat([...locals, centralDirectory, end]));
+}
+
+const CONTAINER = `<?xml version="1.0"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>
+</container>`;
+
+function createOpf(options: { nav?: boolean; ncx?: boolean }): string {
+  return `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:title>Max Havelaar</dc:title>
+    <dc:language>nl</dc:language>
+  </metadata>
+  <manifest>
+    ${options.nav ? '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>' : ''}
+    ${options.ncx ? '<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>' : ''}
+    <item id="cover" href="text/cover.xhtml" media-type="application/xhtml+xml"/>
+    <item id="book" href="text/book.xhtml" media-type="application/xhtml+xml"/>
+    <item id="notes" href="text/notes.xhtml" media-type="application/xhtml+xml"/>
+    <item id="img" href="images/cover.jpg" media-type="image/jpeg"/>
+  </manifest>
+  <spine toc="${options.ncx ? 'ncx' : ''}">
+    <itemref idref="cover"/>
+    <itemref idref="book"/>
+    <itemref idref="notes" linear="no"/>
+  </spine>
+</package>`;
+}
+
+const COVER = `<html xmlns="http://www.w3.org/1999/xhtml"><body>
+  <div class="cover"><img src="../images/cover.jpg" alt="Omslag"/></div>
+</body></html>`;
+
+const BOOK = `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<head><title>Boek</title><style>p { color: red; }</style></head>
+<body>
+  <section id="h1">
+    <h2 class="chapter">Hoofdstuk 1</h2>
+    <p onclick="steal()">Ik ben <i>makelaar</i> in koffie,<span class="pagenum">[5]</span> en woon
+      op de Lauriergracht&#160;No.&nbsp;37.</p>
+    <script>alert('x')</script>
+  </section>
+  <section>
+    <a id="h2"></a>
+    <h2>Hoofdstuk 2</h2>
+    <p>Het is mijn gewoonte niet<br/>romans te schrijven.</p>
+  </section>
+</body></html>`;
+
+const NAV = `<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops"><body>
+  <nav epub:type="landmarks"><ol><li><a href="text/cover.xhtml">Cover</a></li></ol></nav>
+  <nav epub:type="toc"><ol>
+    <li><a href="text/book.xhtml#h1">Eerste hoofdstuk</a></li>
+    <li><a href="text/book.xhtml#h2">Tweede hoofdstuk</a></li>
+  </ol></nav>
+</body></html>`;
+
+const NCX = `<?xml version="1.0"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/"><navMap>
+  <navPoint id="p1"><navLabel><text>Deel I</text></navLabel><content src="text/book.xhtml#h1"/>
+    <navPoint id="p2"><navLabel><text>Deel II</text></navLabel><content src="text/book.xhtml#h2"/></navPoint>
+  </navPoint>
+</navMap></ncx>`;
+
+function createEpub(options: { nav?: boolean; ncx?: boolean }): Uint8Array {
+  const files: TestFile[] = [
+    { name: 'mimetype', content: 'application/epub+zip', store: true },
+    { name: 'META-INF/container.xml', content: CONTAINER },
+    { name: 'OEBPS/content.opf', content: createOpf(options) },
+    { name: 'OEBPS/text/cover.xhtml', content: COVER },
+    { name: 'OEBPS/text/book.xhtml', content: BOOK },
+    { name: 'OEBPS/text/notes.xhtml', content: '<html><body><p>Noten</p></body></html>' },
+    { name: 'OEBPS/images/cover.jpg', content: 'jpeg', store: true },
+  ];
+  if (options.nav) files.push({ name: 'OEBPS/nav.xhtml', content: NAV });
+  if (options.ncx) files.push({ name: 'OEBPS/toc.ncx', content: NCX });
+  return createZip(files);
+}
+
+const resolveImage = (path: string) => `file:///books/1_epub/${path.split('/').pop()}`;
+
+// ============================================================
+// Tests
+// ============================================================
+
+describe('EPUB', () => {
+  describe('inflateRaw', () => {
+    it('inflates dynamic, fixed and stored blocks', () => {
+      const long = 'Woutertje Pieterse '.repeat(2000) + Array.from({ length: 500 }, (_, i) => i).join(',');
+      for (const [text, level] of [[long, 9], ['kort', 9], [long, 0]] as const) {
+        const compressed = deflateRawSync(Buffer.from(text), { level });
+
+        expect(Buffer.from(inflateRaw(new Uint8Array(compressed))).toString()).toBe(text);
+      }
+    });
+
+    it('rejects a truncated stream', () => {
+      const compressed = deflateRawSync(Buffer.from('Multatuli '.repeat(100)));
+
+      expect(() => inflateRaw(new Uint8Array(compressed.subarray(0, 5)))).toThrow();
+    });
+  });
+
+  describe('openZip', () => {
+    it('reads stored and deflated entries', () => {
+      const zip = openZip(createZip([
+        { name: 'a.txt', content: 'één', store: true },
+        { name: 'dir/b.txt', content: 'twee '.repeat(50) },
+      ]));
+
+      expect([...zip.entries.keys()]).toEqual(['a.txt', 'dir/b.txt']);
+      expect(Buffer.from(zip.read('a.txt') as Uint8Array).toString()).toBe('één');
+      expect(Buffer.from(zip.read('dir/b.txt') as Uint8Array).toString()).toBe('twee '.repeat(50));
+      expect(zip.read('missing.txt')).toBeNull();
+    });
+
+    it('rejects data that is not a ZIP file', () => {
+      expect(() => openZip(new Uint8Array(100))).toThrow('ZIP_INVALID');
+    });
+  });
+
+  describe('resolveHref', () => {
+    it('resolves relative paths and fragments', () => {
+      expect(resolveHref('OEBPS/text/book.xhtml', '../images/a%20b.jpg')).toEqual({ path: 'OEBPS/images/a b.jpg', fragment: null });
+      expect(resolveHref('OEBPS/nav.xhtml', 'text/book.xhtml#h2')).toEqual({ path: 'OEBPS/text/book.xhtml', fragment: 'h2' });
+      expect(resolveHref('OEBPS/text/book.xhtml', '#note1')).toEqual({ path: 'OEBPS/text/book.xhtml', fragment: 'note1' });
+    });
+  });
+
+  describe('parseEpub', () => {
+    it('reads metadata and splits chapters at the nav entries', () => {
+      const book = parseEpub(openZip(createEpub({ nav: true })), resolveImage);
+
+      expect(book.title).toBe('Max Havelaar');
+      expect(book.language).toBe('nl');
+      expect(book.chapters.map(chapter => chapter.title)).toEqual([
+        'Max Havelaar',
+        'Eerste hoofdstuk',
+        'Tweede hoofdstuk',
+      ]);
+    });
+
+    it('falls back to the NCX table of contents', () => {
+      const book = parseEpub(openZip(createEpub({ ncx: true })), resolveImage);
+
+      expect(book.chapters.map(chapter => chapter.title)).toEqual(['Max Havelaar', 'Deel I', 'Deel II']);
+    });
+
+    it('uses one chapter per document without a table of contents', () => {
+      const book = parseEpub(openZip(createEpub({})), resolveImage);
+
+      expect(book.chapters.map(chapter => chapter.title)).toEqual(['Max Havelaar', 'Hoofdstuk 1']);
+    });
+
+    it('skips documents outside the linear reading order', () => {
+      const book = parseEpub(openZip(createEpub({ nav: true })), resolveImage);
+
+      expect(book.chapters.some(chapter => chapterText(chapter).includes('Noten'))).toBe(false);
+    });
+
+    it('sanitizes the XHTML', () => {
+      const book = parseEpub(openZip(createEpub({ nav: true })), resolveImage);
+      const html = book.chapters[1].blocks.map(block => block.html).join('');
+
+      expect(html).toContain('<i>makelaar</i>');
+      expect(html).not.toMatch(/onclick|script|style|class=|\[5\]/);
+      expect(book.chapters[0].blocks[0].html).toBe('<p><img src="file:///books/1_epub/cover.jpg" alt="Omslag"/></p>');
+    });
+
+    it('produces clean text for read-aloud', () => {
+      const book = parseEpub(openZip(createEpub({ nav: true })), resolveImage);
+
+      expect(chapterText(book.chapters[0])).toBe('');
+      expect(chapterText(book.chapters[1])).toBe(
+        'Hoofdstuk 1\n\nIk ben makelaar in koffie, en woon op de Lauriergracht No. 37.',
+      );
+      expect(chapterText(book.chapters[2])).toBe('Hoofdstuk 2\n\nHet is mijn gewoonte niet\nromans te schrijven.');
+    });
+
+    it('rejects an archive without a package document', () => {
+      const zip = openZip(createZip([{ name: 'mimetype', content: 'application/epub+zip', store: true }]));
+
+      expect(() => parseEpub(zip, resolveImage)).toThrow('EPUB_INVALID');
+    });
+  });
+});
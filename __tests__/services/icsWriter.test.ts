@@ -0,0 +1,210 @@
+/**
+ * ICS Writer Tests
+ *
+ * Tests for ICS export and iTIP replies:
+ * - VEVENT fields, RRULE/EXDATE/RECURRENCE-ID and VALARM
+ * - Line folding and text escaping
+ * - Date range selection
+ * - REPLY messages for invitations
+ *
+ * @see services/mail/icsWriter.ts
+ */
+
+import {
+  buildAgendaCalendar,
+  filterItemsInRange,
+  buildInvitationReply,
+  canReplyToInvitation,
+  foldLine,
+  escapeText,
+  type IcsAgendaItem,
+} from '../../src/services/mail/icsWriter';
+import type { ParsedCalendarEvent } from '../../src/services/mail/icsParser';
+
+describe('icsWriter', () => {
+  const NOW = new Date(Date.UTC(2024, 2, 1, 9, 30));
+
+  // Local midnight, month is 1-based
+  const day = (year: number, month: number, date: number): number =>
+    new Date(year, month - 1, date).getTime();
+
+  // Unfolded content lines
+  const lines = (ics: string): string[] =>
+    ics.replace(/\r\n /g, '').split('\r\n').filter(Boolean);
+
+  const mockItem = {
+    id: 'item1',
+    title: 'Huisarts',
+    itemDate: day(2024, 3, 4),
+    time: '11:00',
+    reminderOffset: '1_hour_before',
+    isHidden: false,
+  } as IcsAgendaItem;
+
+  // ============================================================
+  // Calendar Export
+  // ============================================================
+
+  describe('buildAgendaCalendar', () => {
+    it('writes a single appointment with end time, location and alarm', () => {
+      const ics = buildAgendaCalendar([{
+        ...mockItem,
+        endTime: '11:30',
+        locationName: 'Praktijk De Linde',
+        addressStreet: 'Dorpsstraat 1',
+        addressPostalCode: '1234 AB',
+        addressCity: 'Utrecht',
+        notes: 'Pasje meenemen',
+      }], [], NOW);
+
+      expect(ics.endsWith('\r\n')).toBe(true);
+      expect(lines(ics)).toEqual([
+        'BEGIN:VCALENDAR',
+        'PRODID:-//CommEazy//Agenda//EN',
+        'VERSION:2.0',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        'BEGIN:VEVENT',
+        'UID:item1@commeazy.app',
+        'DTSTAMP:20240301T093000Z',
+        'DTSTART:20240304T110000',
+        'DTEND:20240304T113000',
+        'SUMMARY:Huisarts',
+        'LOCATION:Praktijk De Linde\\, Dorpsstraat 1\\, 1234 AB Utrecht',
+        'DESCRIPTION:Pasje meenemen',
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        'DESCRIPTION:Huisarts',
+        'TRIGGER:-PT1H',
+        'END:VALARM',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ]);
+    });
+
+    it('writes all-day items as DATE values', () => {
+      const ics = buildAgendaCalendar([{ ...mockItem, time: undefined, reminderOffset: '1_day_before' }], [], NOW);
+      expect(lines(ics)).toContain('DTSTART;VALUE=DATE:20240304');
+      expect(lines(ics)).toContain('TRIGGER:-P1D');
+      expect(ics).not.toContain('DTEND');
+    });
+
+    it('writes recurrence with EXDATE and overrides of single occurrences', () => {
+      const series = { ...mockItem, rrule: 'FREQ=WEEKLY;BYDAY=MO,TH', exdates: JSON.stringify(['2024-03-07']) };
+      const deleted = { ...mockItem, id: 'ex1', parentId: 'item1', itemDate: day(2024, 3, 11), exceptionDate: day(2024, 3, 11), isHidden: true };
+      const moved = { ...mockItem, id: 'ex2', parentId: 'item1', itemDate: day(2024, 3, 14), exceptionDate: day(2024, 3, 14), time: '14:00' };
+
+      const result = lines(buildAgendaCalendar([series], [deleted, moved], NOW));
+      expect(result).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO,TH');
+      expect(result).toContain('EXDATE:20240307T110000,20240311T110000');
+      expect(result).toContain('RECURRENCE-ID:20240314T110000');
+      expect(result).toContain('DTSTART:20240314T140000');
+      expect(result.filter(line => line === 'UID:item1@commeazy.app')).toHaveLength(2);
+    });
+
+    it('derives the rule from repeat_type and end date', () => {
+      const result = lines(buildAgendaCalendar([{ ...mockItem, repeatType: 'biweekly', endDate: day(2024, 6, 30) }], [], NOW));
+      expect(result).toContain('RRULE:FREQ=WEEKLY;INTERVAL=2;UNTIL=20240630T235959');
+    });
+
+    it('writes one series per medication time', () => {
+      const ics = buildAgendaCalendar([{ ...mockItem, time: undefined, times: JSON.stringify(['09:00', '21:00']), repeatType: 'daily' }], [], NOW);
+      expect(lines(ics)).toEqual(expect.arrayContaining([
+        'UID:item1-0@commeazy.app',
+        'DTSTART:20240304T090000',
+        'UID:item1-1@commeazy.app',
+        'DTSTART:20240304T210000',
+      ]));
+    });
+  });
+
+  // ============================================================
+  // Text Helpers
+  // ============================================================
+
+  describe('text helpers', () => {
+    it('escapes TEXT values', () => {
+      expect(escapeText('a;b,c\\d\ne')).toBe('a\\;b\\,c\\\\d\\ne');
+    });
+
+    it('folds at 75 octets without splitting characters', () => {
+      const folded = foldLine(`SUMMARY:${'é'.repeat(60)}`);
+      const parts = folded.split('\r\n');
+      expect(parts.length).toBeGreaterThan(1);
+      for (const part of parts) {
+        expect(unescape(encodeURIComponent(part)).length).toBeLessThanOrEqual(75);
+      }
+      expect(folded.replace(/\r\n /g, '')).toBe(`SUMMARY:${'é'.repeat(60)}`);
+    });
+  });
+
+  // ============================================================
+  // Date Range
+  // ============================================================
+
+  describe('filterItemsInRange', () => {
+    it('keeps single items in range and series with an occurrence in range', () => {
+      const items = [
+        { ...mockItem, id: 'single-in', itemDate: day(2024, 4, 2) },
+        { ...mockItem, id: 'single-out', itemDate: day(2024, 5, 2) },
+        { ...mockItem, id: 'weekly', itemDate: day(2024, 1, 1), repeatType: 'weekly' },
+        { ...mockItem, id: 'ended', itemDate: day(2024, 1, 1), repeatType: 'weekly', endDate: day(2024, 2, 1) },
+        { ...mockItem, id: 'exception', parentId: 'weekly', itemDate: day(2024, 4, 8) },
+      ];
+      expect(filterItemsInRange(items, day(2024, 4, 1), day(2024, 4, 30)).map(i => i.id)).toEqual([
+        'single-in', 'weekly',
+      ]);
+    });
+  });
+
+  // ============================================================
+  // Invitation Replies
+  // ============================================================
+
+  describe('invitation replies', () => {
+    const mockEvent: ParsedCalendarEvent = {
+      summary: 'Verjaardag oma',
+      dtstart: new Date(Date.UTC(2024, 5, 1, 12, 0)),
+      dtend: null,
+      location: null,
+      description: null,
+      organizer: 'piet@example.com',
+      attendees: ['oma@example.com'],
+      method: 'REQUEST',
+      sequence: 2,
+      isAllDay: false,
+      uid: 'abc-123@example.com',
+      rruleFreq: null,
+      rrule: null,
+      exdates: [],
+      recurrenceId: null,
+      isCancelled: false,
+      alarmMinutesBefore: null,
+    };
+
+    it('builds a REPLY for the attendee', () => {
+      const result = lines(buildInvitationReply(mockEvent, { email: 'oma@example.com', name: 'Jansen, Oma' }, 'accepted', NOW));
+      expect(result).toEqual(expect.arrayContaining([
+        'METHOD:REPLY',
+        'UID:abc-123@example.com',
+        'SEQUENCE:2',
+        'DTSTART:20240601T120000Z',
+        'ORGANIZER:mailto:piet@example.com',
+        'ATTENDEE;PARTSTAT=ACCEPTED;CN="Jansen, Oma":mailto:oma@example.com',
+      ]));
+    });
+
+    it('identifies the occurrence being answered', () => {
+      const event = { ...mockEvent, recurrenceId: new Date(Date.UTC(2024, 5, 8, 12, 0)) };
+      expect(lines(buildInvitationReply(event, { email: 'oma@example.com' }, 'declined', NOW)))
+        .toContain('RECURRENCE-ID:20240608T120000Z');
+    });
+
+    it('only offers replies for requests with an organizer', () => {
+      expect(canReplyToInvitation(mockEvent)).toBe(true);
+      expect(canReplyToInvitation({ ...mockEvent, method: 'PUBLISH' })).toBe(false);
+      expect(canReplyToInvitation({ ...mockEvent, organizer: null })).toBe(false);
+      expect(canReplyToInvitation({ ...mockEvent, method: 'REQUEST', isCancelled: true })).toBe(false);
+    });
+  });
+});
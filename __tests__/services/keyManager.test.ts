@@ -0,0 +1,217 @@
+/**
+ * CommEazy Key Manager Tests
+ *
+ * Database key rotation against real SQLCipher files (the op-sqlite
+ * stand-in in __mocks__), through the targets of databaseRekey.ts:
+ * - Full rotation re-keys every database and swaps the Keychain entry
+ * - Crash mid-rotation (between databases) recovers on next launch
+ * - Crash after promotion (pending slot not yet cleared) recovers
+ * - Unreadable database aborts without touching the Keychain
+ * - Keychain read errors are not mistaken for "no rotation pending"
+ *
+ * @see src/services/keyManager.ts
+ */
+
+// In-memory Keychain — one entry per service
+const mockKeychainStore = new Map<string, { username: string; password: string }>();
+
+jest.mock('react-native-keychain', () => ({
+  ACCESSIBLE: { AFTER_FIRST_UNLOCK: 'AccessibleAfterFirstUnlock' },
+  setGenericPassword: jest.fn(async (username: string, password: string, options: { service: string }) => {
+    mockKeychainStore.set(options.service, { username, password });
+    return true;
+  }),
+  getGenericPassword: jest.fn(async (options: { service: string }) => mockKeychainStore.get(options.service) ?? false),
+  resetGenericPassword: jest.fn(async (options: { service: string }) => {
+    mockKeychainStore.delete(options.service);
+    return true;
+  }),
+}));
+
+// libsodium-wrappers only attaches its functions after `ready`, so resolve lazily
+jest.mock('react-native-libsodium', () => {
+  const wrappers = require('libsodium-wrappers-sumo');
+  const sodium = wrappers.default ?? wrappers;
+  return new Proxy({}, { get: (_target, key) => sodium[key] });
+});
+
+jest.mock('@op-engineering/op-sqlite');
+
+jest.mock('../../src/services/mail/mailCache', () => ({
+  closeMailCacheDb: jest.fn(),
+}));
+
+import * as Keychain from 'react-native-keychain';
+import { open, IOS_DOCUMENT_PATH } from '@op-engineering/op-sqlite';
+import {
+  getDatabaseKey,
+  rotateKey,
+  scheduleKeyRotation,
+  completeKeyRotation,
+  isKeyRotationPending,
+  getDatabaseKeyFor,
+} from '../../src/services/keyManager';
+import { getDatabaseRekeyTargets, createMainDatabaseTarget } from '../../src/services/databaseRekey';
+
+const CURRENT = 'com.commeazy.database.key';
+const PENDING = 'com.commeazy.database.key.pending';
+
+const { deleteAllDatabases } = jest.requireMock<{ deleteAllDatabases: () => void }>('@op-engineering/op-sqlite');
+
+/** Database files as services/databaseRekey.ts finds them */
+const MAIN_DB = { name: 'commeazy.db', location: IOS_DOCUMENT_PATH as string };
+const MAIL_DB = { name: 'mail_cache', location: undefined };
+
+async function createDatabase(file: typeof MAIN_DB | typeof MAIL_DB, keyHex: string, rows: string[]): Promise<void> {
+  const db = open({ ...file, encryptionKey: keyHex });
+  try {
+    await db.execute('CREATE TABLE notes (text TEXT)');
+    for (const row of rows) {
+      await db.execute('INSERT INTO notes (text) VALUES (?)', [row]);
+    }
+  } finally {
+    db.close();
+  }
+}
+
+async function readRows(file: typeof MAIN_DB | typeof MAIL_DB, keyHex: string): Promise<string[]> {
+  const db = open({ ...file, encryptionKey: keyHex });
+  try {
+    const { rows } = await db.execute('SELECT text FROM notes');
+    return rows.map((row: { text: string }) => row.text);
+  } finally {
+    db.close();
+  }
+}
+
+describe('keyManager key rotation', () => {
+  let oldKey: string;
+
+  beforeEach(async () => {
+    mockKeychainStore.clear();
+    jest.clearAllMocks();
+    deleteAllDatabases();
+    oldKey = await getDatabaseKey();
+    await createDatabase(MAIN_DB, oldKey, ['hallo', 'dag']);
+    await createDatabase(MAIL_DB, oldKey, ['inbox']);
+  });
+
+  afterAll(() => {
+    deleteAllDatabases();
+  });
+
+  it('re-keys every database and swaps the Keychain key', async () => {
+    await rotateKey(getDatabaseRekeyTargets());
+
+    const newKey = await getDatabaseKey();
+    expect(newKey).not.toBe(oldKey);
+    expect(newKey).toMatch(/^[0-9a-f]{64}$/);
+    expect(await readRows(MAIN_DB, newKey)).toEqual(['hallo', 'dag']);
+    expect(await readRows(MAIL_DB, newKey)).toEqual(['inbox']);
+    await expect(readRows(MAIN_DB, oldKey)).rejects.toThrow('file is not a database');
+    expect(await isKeyRotationPending()).toBe(false);
+  });
+
+  it('recovers when the app is killed between databases', async () => {
+    const targets = getDatabaseRekeyTargets();
+    jest.spyOn(targets[1], 'rekey').mockRejectedValueOnce(new Error('app killed'));
+    await expect(rotateKey(targets)).rejects.toThrow('app killed');
+
+    // Main DB is on the new key, mail DB and Keychain still on the old one
+    const pendingKey = mockKeychainStore.get(PENDING)?.password ?? '';
+    expect(await getDatabaseKey()).toBe(oldKey);
+    expect(await readRows(MAIN_DB, pendingKey)).toEqual(['hallo', 'dag']);
+    expect(await readRows(MAIL_DB, oldKey)).toEqual(['inbox']);
+
+    // Next launch
+    const nextLaunch = getDatabaseRekeyTargets();
+    const mainRekey = jest.spyOn(nextLaunch[0], 'rekey');
+    expect(await completeKeyRotation(nextLaunch)).toBe(true);
+
+    const newKey = await getDatabaseKey();
+    expect(newKey).toBe(pendingKey);
+    expect(await readRows(MAIN_DB, newKey)).toEqual(['hallo', 'dag']);
+    expect(await readRows(MAIL_DB, newKey)).toEqual(['inbox']);
+    expect(mainRekey).not.toHaveBeenCalled();
+    expect(await isKeyRotationPending()).toBe(false);
+  });
+
+  it('opens the main database with the new key when the rotation failed after it', async () => {
+    const targets = getDatabaseRekeyTargets();
+    jest.spyOn(targets[1], 'rekey').mockRejectedValueOnce(new Error('disk full'));
+    await expect(rotateKey(targets)).rejects.toThrow('disk full');
+
+    const pendingKey = mockKeychainStore.get(PENDING)?.password;
+    expect(await getDatabaseKeyFor(createMainDatabaseTarget())).toBe(pendingKey);
+    // Kept for the next launch to finish the mail cache
+    expect(await isKeyRotationPending()).toBe(true);
+  });
+
+  it('opens with the current key when no rotation is pending', async () => {
+    expect(await getDatabaseKeyFor(createMainDatabaseTarget())).toBe(oldKey);
+  });
+
+  it('recovers when the app is killed after promoting the new key', async () => {
+    jest.mocked(Keychain.resetGenericPassword).mockRejectedValueOnce(new Error('app killed'));
+    await expect(rotateKey(getDatabaseRekeyTargets())).rejects.toThrow('app killed');
+    expect(mockKeychainStore.get(PENDING)?.password).toBe(mockKeychainStore.get(CURRENT)?.password);
+
+    const nextLaunch = getDatabaseRekeyTargets();
+    const rekeys = nextLaunch.map(target => jest.spyOn(target, 'rekey'));
+    expect(await completeKeyRotation(nextLaunch)).toBe(true);
+
+    const newKey = await getDatabaseKey();
+    expect(await readRows(MAIN_DB, newKey)).toEqual(['hallo', 'dag']);
+    rekeys.forEach(rekey => expect(rekey).not.toHaveBeenCalled());
+    expect(await isKeyRotationPending()).toBe(false);
+  });
+
+  it('keeps both keys when a database opens with neither', async () => {
+    deleteAllDatabases();
+    await createDatabase(MAIN_DB, oldKey, ['hallo']);
+    await createDatabase(MAIL_DB, 'f'.repeat(64), ['lost']);
+    await scheduleKeyRotation();
+    const pendingKey = mockKeychainStore.get(PENDING)?.password;
+
+    await expect(completeKeyRotation(getDatabaseRekeyTargets())).rejects.toThrow('Mail cache');
+
+    expect(await getDatabaseKey()).toBe(oldKey);
+    expect(mockKeychainStore.get(PENDING)?.password).toBe(pendingKey);
+  });
+
+  it('keeps the scheduled key when scheduling twice', async () => {
+    await scheduleKeyRotation();
+    const pendingKey = mockKeychainStore.get(PENDING)?.password;
+    await scheduleKeyRotation();
+
+    expect(mockKeychainStore.get(PENDING)?.password).toBe(pendingKey);
+  });
+
+  it('does nothing without a pending rotation', async () => {
+    const targets = getDatabaseRekeyTargets();
+    const rekeys = targets.map(target => jest.spyOn(target, 'rekey'));
+
+    expect(await completeKeyRotation(targets)).toBe(false);
+    rekeys.forEach(rekey => expect(rekey).not.toHaveBeenCalled());
+    expect(await getDatabaseKey()).toBe(oldKey);
+    expect(await readRows(MAIN_DB, oldKey)).toEqual(['hallo', 'dag']);
+  });
+
+  it('surfaces a Keychain error instead of reporting no rotation', async () => {
+    await scheduleKeyRotation();
+    const pendingKey = mockKeychainStore.get(PENDING)?.password;
+    const locked = new Error('Keychain locked');
+
+    jest.mocked(Keychain.getGenericPassword).mockRejectedValueOnce(locked);
+    await expect(isKeyRotationPending()).rejects.toThrow('Keychain locked');
+
+    // A second schedule must not replace the pending key it could not read
+    jest.mocked(Keychain.getGenericPassword).mockRejectedValueOnce(locked);
+    await expect(scheduleKeyRotation()).rejects.toThrow('Keychain locked');
+    expect(mockKeychainStore.get(PENDING)?.password).toBe(pendingKey);
+
+    jest.mocked(Keychain.getGenericPassword).mockRejectedValueOnce(locked);
+    await expect(completeKeyRotation(getDatabaseRekeyTargets())).rejects.toThrow('Keychain locked');
+    expect(await readRows(MAIN_DB, oldKey)).toEqual(['hallo', 'dag']);
+  });
+});
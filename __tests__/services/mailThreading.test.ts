@@ -0,0 +1,188 @@
+/**
+ * Mail Threading Tests
+ *
+ * Tests for conversation threading:
+ * - Message-ID / References parsing and subject normalization
+ * - Thread assignment by References, In-Reply-To and cached parents
+ * - Subject fallback for servers that strip references
+ * - Inbox grouping
+ *
+ * @see services/mail/mailThreading.ts
+ */
+
+import {
+  assignThreadIds,
+  groupByThread,
+  isReplySubject,
+  normalizeMessageId,
+  normalizeSubject,
+  parseReferences,
+} from '../../src/services/mail/mailThreading';
+import type { CachedMailHeader, MailHeader } from '../../src/types/mail';
+
+// Mock thread lookup (the mail cache)
+const mockLookup = {
+  findThreadByMessageIds: jest.fn(),
+  findThreadBySubject: jest.fn(),
+};
+
+describe('mailThreading', () => {
+  const mockHeader: MailHeader = {
+    uid: 1,
+    sequenceNumber: 1,
+    from: 'Gemeente <info@gemeente.nl>',
+    to: ['jan@example.nl'],
+    subject: 'Uw aanvraag',
+    date: '2024-03-04T09:00:00.000Z',
+    hasAttachment: false,
+    isRead: true,
+    isFlagged: false,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockLookup.findThreadByMessageIds.mockResolvedValue(null);
+    mockLookup.findThreadBySubject.mockResolvedValue(null);
+  });
+
+  // ============================================================
+  // Parsing
+  // ============================================================
+
+  describe('Header parsing', () => {
+    it('normalizes Message-IDs', () => {
+      expect(normalizeMessageId('<ABC.123@Gemeente.nl>')).toBe('abc.123@gemeente.nl');
+      expect(normalizeMessageId('abc@example.nl')).toBe('abc@example.nl');
+      expect(normalizeMessageId('')).toBeNull();
+      expect(normalizeMessageId(undefined)).toBeNull();
+    });
+
+    it('parses References oldest first without duplicates', () => {
+      expect(parseReferences('<root@a.nl>\r\n <Second@b.nl> <root@a.nl>')).toEqual(['root@a.nl', 'second@b.nl']);
+      expect(parseReferences(undefined)).toEqual([]);
+    });
+
+    it('strips reply and forward prefixes in several languages', () => {
+      expect(normalizeSubject('Re: AW: Re[2]:  Uw   aanvraag')).toBe('uw aanvraag');
+      expect(normalizeSubject('Antw: Fwd: WG: Uw aanvraag')).toBe('uw aanvraag');
+      expect(normalizeSubject('SV: Odp: Uw aanvraag')).toBe('uw aanvraag');
+      expect(normalizeSubject('Reservering')).toBe('reservering');
+    });
+
+    it('recognizes replies but not forwards', () => {
+      expect(isReplySubject('Re: Uw aanvraag')).toBe(true);
+      expect(isReplySubject('Antw: Uw aanvraag')).toBe(true);
+      expect(isReplySubject('Fwd: Uw aanvraag')).toBe(false);
+      expect(isReplySubject('Reservering')).toBe(false);
+    });
+  });
+
+  // ============================================================
+  // Thread Assignment
+  // ============================================================
+
+  describe('assignThreadIds', () => {
+    it('threads a reply with its parent in the same batch', async () => {
+      const original = { ...mockHeader, uid: 1, messageId: '<root@gemeente.nl>' };
+      const reply = {
+        ...mockHeader,
+        uid: 2,
+        messageId: '<reply@example.nl>',
+        inReplyTo: '<root@gemeente.nl>',
+        subject: 'Re: Uw aanvraag',
+        date: '2024-03-04T10:00:00.000Z',
+      };
+
+      // Newest first, as the server returns them
+      const result = await assignThreadIds([reply, original], 'INBOX', mockLookup);
+
+      expect(result.map(h => h.threadId)).toEqual(['root@gemeente.nl', 'root@gemeente.nl']);
+      expect(result[0].uid).toBe(2);
+    });
+
+    it('joins the thread of a cached parent', async () => {
+      mockLookup.findThreadByMessageIds.mockResolvedValue('older-root@gemeente.nl');
+      const reply = {
+        ...mockHeader,
+        messageId: '<reply@example.nl>',
+        references: '<older-root@gemeente.nl> <parent@example.nl>',
+      };
+
+      const [result] = await assignThreadIds([reply], 'INBOX', mockLookup);
+
+      expect(mockLookup.findThreadByMessageIds).toHaveBeenCalledWith(['older-root@gemeente.nl', 'parent@example.nl']);
+      expect(result.threadId).toBe('older-root@gemeente.nl');
+    });
+
+    it('uses the References root when the parent is not cached', async () => {
+      const reply = {
+        ...mockHeader,
+        messageId: '<reply@example.nl>',
+        references: '<root@gemeente.nl> <parent@example.nl>',
+      };
+
+      const [result] = await assignThreadIds([reply], 'INBOX', mockLookup);
+
+      expect(result.threadId).toBe('root@gemeente.nl');
+    });
+
+    it('falls back to the subject for replies without references', async () => {
+      mockLookup.findThreadBySubject.mockResolvedValue('root@gemeente.nl');
+      const reply = { ...mockHeader, messageId: '<reply@example.nl>', subject: 'RE: Uw  Aanvraag' };
+
+      const [result] = await assignThreadIds([reply], 'INBOX', mockLookup);
+
+      expect(mockLookup.findThreadBySubject).toHaveBeenCalledWith('uw aanvraag', '2024-02-03T09:00:00.000Z');
+      expect(result.threadId).toBe('root@gemeente.nl');
+    });
+
+    it('groups a reply without references with an earlier message in the batch', async () => {
+      const original = { ...mockHeader, uid: 1, messageId: '<root@gemeente.nl>' };
+      const reply = { ...mockHeader, uid: 2, subject: 'Re: Uw aanvraag', date: '2024-03-05T09:00:00.000Z' };
+
+      const result = await assignThreadIds([original, reply], 'INBOX', mockLookup);
+
+      expect(result[1].threadId).toBe('root@gemeente.nl');
+    });
+
+    it('starts a new thread for new subjects and forwards', async () => {
+      const forward = { ...mockHeader, uid: 7, subject: 'Fwd: Uw aanvraag' };
+      const fresh = { ...mockHeader, uid: 8, messageId: '<new@example.nl>', subject: 'Vraag' };
+
+      const result = await assignThreadIds([forward, fresh], 'INBOX', mockLookup);
+
+      expect(mockLookup.findThreadBySubject).not.toHaveBeenCalled();
+      expect(result.map(h => h.threadId)).toEqual(['local:INBOX:7', 'new@example.nl']);
+    });
+  });
+
+  // ============================================================
+  // Grouping
+  // ============================================================
+
+  describe('groupByThread', () => {
+    const mockCached: CachedMailHeader = {
+      ...mockHeader,
+      accountId: 'acc1',
+      folder: 'INBOX',
+      isLocal: false,
+    };
+
+    it('shows each conversation once as its latest message', () => {
+      const headers = [
+        { ...mockCached, uid: 3, threadId: 'a', date: '2024-03-06T09:00:00.000Z', isRead: false },
+        { ...mockCached, uid: 2, threadId: 'b', date: '2024-03-05T09:00:00.000Z' },
+        { ...mockCached, uid: 1, threadId: 'a', date: '2024-03-04T09:00:00.000Z', isRead: false },
+        { ...mockCached, uid: 4, date: '2024-03-01T09:00:00.000Z' },
+      ];
+
+      const threads = groupByThread(headers);
+
+      expect(threads.map(thread => [thread.threadId, thread.latest.uid, thread.count, thread.unreadCount])).toEqual([
+        ['a', 3, 2, 2],
+        ['b', 2, 1, 0],
+        ['local:INBOX:4', 4, 1, 0],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * CommEazy Media Transfer Tests
+ *
+ * Unit tests for the pure parts of services/media/mediaTransfer.ts:
+ * - Chunk math (encrypted size, resume position)
+ * - Per-chunk nonces
+ * - Chunk encryption round-trip, tamper and reorder rejection
+ * - Media pointer validation
+ *
+ * @see .claude/skills/security-expert/SKILL.md
+ */
+
+import sodium from 'libsodium-wrappers-sumo';
+
+// libsodium-wrappers only attaches its functions after `ready`, so resolve lazily
+jest.mock('react-native-libsodium', () => {
+  const wrappers = require('libsodium-wrappers-sumo');
+  const sodium = wrappers.default ?? wrappers;
+  return new Proxy({}, { get: (_target, key) => sodium[key] });
+});
+
+import {
+  AEAD_TAG_BYTES,
+  chunkCount,
+  encryptedSize,
+  resumeChunkIndex,
+  chunkNonce,
+  createMediaKey,
+  encryptChunk,
+  decryptChunk,
+  parseMediaPointer,
+} from '../../src/services/media/mediaTransfer';
+
+const CHUNK = 1024;
+
+describe('Media Transfer', () => {
+  let key: Uint8Array;
+  let nonce: Uint8Array;
+
+  beforeAll(async () => {
+    await sodium.ready;
+    const media = createMediaKey();
+    key = sodium.from_base64(media.key, sodium.base64_variants.ORIGINAL);
+    nonce = sodium.from_base64(media.nonce, sodium.base64_variants.ORIGINAL);
+  });
+
+  describe('chunk math', () => {
+    it('counts an empty file as one chunk', () => {
+      expect(chunkCount(0, CHUNK)).toBe(1);
+      expect(encryptedSize(0, CHUNK)).toBe(AEAD_TAG_BYTES);
+    });
+
+    it('adds one tag per chunk', () => {
+      expect(chunkCount(CHUNK * 2, CHUNK)).toBe(2);
+      expect(chunkCount(CHUNK * 2 + 1, CHUNK)).toBe(3);
+      expect(encryptedSize(CHUNK * 2 + 1, CHUNK)).toBe(CHUNK * 2 + 1 + 3 * AEAD_TAG_BYTES);
+    });
+
+    it('resumes after the last complete chunk on the server', () => {
+      expect(resumeChunkIndex(0, CHUNK)).toBe(0);
+      expect(resumeChunkIndex(CHUNK + AEAD_TAG_BYTES, CHUNK)).toBe(1);
+      expect(resumeChunkIndex(3 * (CHUNK + AEAD_TAG_BYTES), CHUNK)).toBe(3);
+    });
+  });
+
+  describe('chunkNonce', () => {
+    it('keeps the base nonce for chunk 0 without modifying it', () => {
+      const original = new Uint8Array(nonce);
+      expect(chunkNonce(nonce, 0)).toEqual(original);
+      chunkNonce(nonce, 7);
+      expect(nonce).toEqual(original);
+    });
+
+    it('gives every chunk a different nonce', () => {
+      const seen = new Set<string>();
+      for (let index = 0; index < 300; index++) {
+        seen.add(sodium.to_hex(chunkNonce(nonce, index)));
+      }
+      expect(seen.size).toBe(300);
+    });
+  });
+
+  describe('chunk encryption', () => {
+    it('round-trips a chunk', () => {
+      const plaintext = sodium.randombytes_buf(CHUNK);
+      const ciphertext = encryptChunk(plaintext, key, nonce, 1, 3);
+
+      expect(ciphertext.length).toBe(CHUNK + AEAD_TAG_BYTES);
+      expect(decryptChunk(ciphertext, key, nonce, 1, 3)).toEqual(plaintext);
+    });
+
+    it('rejects a tampered chunk', () => {
+      const ciphertext = encryptChunk(sodium.randombytes_buf(CHUNK), key, nonce, 0, 2);
+      ciphertext[10] ^= 0x01;
+
+      expect(() => decryptChunk(ciphertext, key, nonce, 0, 2)).toThrow();
+    });
+
+    it('rejects a chunk at the wrong position', () => {
+      const ciphertext = encryptChunk(sodium.randombytes_buf(CHUNK), key, nonce, 0, 2);
+
+      expect(() => decryptChunk(ciphertext, key, nonce, 1, 2)).toThrow();
+    });
+
+    it('rejects a truncated file (different chunk total)', () => {
+      const ciphertext = encryptChunk(sodium.randombytes_buf(CHUNK), key, nonce, 0, 2);
+
+      expect(() => decryptChunk(ciphertext, key, nonce, 0, 1)).toThrow();
+    });
+
+    it('rejects a chunk decrypted with another key', () => {
+      const ciphertext = encryptChunk(sodium.randombytes_buf(CHUNK), key, nonce, 0, 1);
+      const other = sodium.from_base64(createMediaKey().key, sodium.base64_variants.ORIGINAL);
+
+      expect(() => decryptChunk(ciphertext, other, nonce, 0, 1)).toThrow();
+    });
+  });
+
+  describe('parseMediaPointer', () => {
+    const pointer = {
+      url: 'https://upload.commeazy.nl/upload/abc/photo.bin',
+      key: 'a2V5',
+      nonce: 'bm9uY2U=',
+      size: 2048,
+      chunkSize: CHUNK,
+      mimeType: 'image/jpeg',
+    };
+
+    it('accepts a valid pointer', () => {
+      expect(parseMediaPointer(pointer)).toEqual(pointer);
+    });
+
+    it('defaults a missing mime type', () => {
+      const { mimeType: _mimeType, ...rest } = pointer;
+      expect(parseMediaPointer(rest)?.mimeType).toBe('application/octet-stream');
+    });
+
+    it('rejects malformed pointers', () => {
+      expect(parseMediaPointer(null)).toBeNull();
+      expect(parseMediaPointer('https://example.com')).toBeNull();
+      expect(parseMediaPointer({ ...pointer, key: undefined })).toBeNull();
+      expect(parseMediaPointer({ ...pointer, size: -1 })).toBeNull();
+      expect(parseMediaPointer({ ...pointer, chunkSize: 0 })).toBeNull();
+      expect(parseMediaPointer({ ...pointer, url: 'ftp://example.com/file' })).toBeNull();
+    });
+  });
+});
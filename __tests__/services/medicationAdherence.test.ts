@@ -0,0 +1,188 @@
+/**
+ * Medication Adherence Tests
+ *
+ * Tests for medication adherence:
+ * - Dose status: on time, late, skipped, missed after the grace period
+ * - Doses of recurring items, exceptions and multiple times per day
+ * - Summaries per week and per medication
+ * - Caregiver summary text and GP report
+ *
+ * @see services/medicationAdherence.ts
+ */
+
+import {
+  buildDoses,
+  classifyDose,
+  summarizeDoses,
+  summarizeByWeek,
+  summarizeByMedication,
+  buildDailySummaryText,
+  buildAdherenceReportHtml,
+  formatRate,
+  type MedicationItem,
+} from '../../src/services/medicationAdherence';
+
+describe('medicationAdherence', () => {
+  // Local time, month is 1-based
+  const at = (year: number, month: number, date: number, hours = 0, minutes = 0): number =>
+    new Date(year, month - 1, date, hours, minutes).getTime();
+
+  const mockMedication = {
+    id: 'med1',
+    title: 'Metformine',
+    category: 'medication',
+    formType: 'medication',
+    itemDate: at(2024, 3, 4),
+    time: '08:00',
+    repeatType: 'daily',
+    isHidden: false,
+  } as MedicationItem;
+
+  // Mock t() — last key segment with the interpolated values, so assertions stay readable
+  const mockT = (key: string, options?: Record<string, unknown>) =>
+    options ? `${key.split('.').pop()}(${Object.values(options).join(',')})` : key.split('.').pop() ?? key;
+
+  // ============================================================
+  // Dose Status
+  // ============================================================
+
+  describe('classifyDose', () => {
+    const scheduled = at(2024, 3, 4, 8);
+
+    it('tells on time from late', () => {
+      const onTime = { date: '2024-03-04', time: '08:00', status: 'taken' as const, confirmedAt: at(2024, 3, 4, 8, 45) };
+      const late = { ...onTime, confirmedAt: at(2024, 3, 4, 9, 30) };
+      expect(classifyDose(scheduled, onTime, at(2024, 3, 5))).toBe('taken');
+      expect(classifyDose(scheduled, late, at(2024, 3, 5))).toBe('late');
+    });
+
+    it('flags missed doses only after the grace period', () => {
+      expect(classifyDose(scheduled, undefined, at(2024, 3, 4, 7))).toBe('upcoming');
+      expect(classifyDose(scheduled, undefined, at(2024, 3, 4, 9, 30))).toBe('pending');
+      expect(classifyDose(scheduled, undefined, at(2024, 3, 4, 10, 30))).toBe('missed');
+      expect(classifyDose(scheduled, undefined, at(2024, 3, 4, 9), { lateAfterMinutes: 15, missedAfterMinutes: 30 })).toBe('missed');
+    });
+
+    it('keeps skipped doses apart from missed ones', () => {
+      expect(classifyDose(scheduled, { date: '2024-03-04', time: '08:00', status: 'skipped' }, at(2024, 3, 6))).toBe('skipped');
+    });
+  });
+
+  // ============================================================
+  // Doses
+  // ============================================================
+
+  describe('buildDoses', () => {
+    it('expands daily medication with several times per day', () => {
+      const item = {
+        ...mockMedication,
+        time: undefined,
+        times: JSON.stringify(['08:00', '20:00']),
+        medicationLog: JSON.stringify([
+          { date: '2024-03-04', time: '08:00', status: 'taken', confirmedAt: at(2024, 3, 4, 8, 5) },
+          { date: '2024-03-04', time: '20:00', status: 'skipped' },
+        ]),
+      };
+
+      const doses = buildDoses([item], at(2024, 3, 4), at(2024, 3, 5), at(2024, 3, 5, 12));
+      expect(doses.map(d => `${d.date} ${d.time} ${d.status}`)).toEqual([
+        '2024-03-04 08:00 taken',
+        '2024-03-04 20:00 skipped',
+        '2024-03-05 08:00 missed',
+        '2024-03-05 20:00 upcoming',
+      ]);
+    });
+
+    it('leaves out excluded days and uses exception records for moved doses', () => {
+      const series = { ...mockMedication, exdates: JSON.stringify(['2024-03-05']) };
+      const deleted = { ...mockMedication, id: 'ex1', parentId: 'med1', itemDate: at(2024, 3, 6), exceptionDate: at(2024, 3, 6), isHidden: true };
+      const moved = { ...mockMedication, id: 'ex2', parentId: 'med1', itemDate: at(2024, 3, 7), exceptionDate: at(2024, 3, 7), time: '10:00', repeatType: undefined };
+
+      const doses = buildDoses([series, deleted, moved], at(2024, 3, 4), at(2024, 3, 8), at(2024, 3, 9));
+      expect(doses.map(d => `${d.date} ${d.time} ${d.medicationId}`)).toEqual([
+        '2024-03-04 08:00 med1',
+        '2024-03-07 10:00 med1',
+        '2024-03-08 08:00 med1',
+      ]);
+    });
+
+    it('ignores non-medication items', () => {
+      const appointment = { ...mockMedication, id: 'a1', category: 'doctor', formType: 'appointment' };
+      expect(buildDoses([appointment], at(2024, 3, 4), at(2024, 3, 10), at(2024, 3, 11))).toEqual([]);
+    });
+  });
+
+  // ============================================================
+  // Summaries
+  // ============================================================
+
+  describe('summaries', () => {
+    const item = {
+      ...mockMedication,
+      medicationLog: JSON.stringify([
+        { date: '2024-03-08', time: '08:00', status: 'taken', confirmedAt: at(2024, 3, 8, 8) },
+        { date: '2024-03-09', time: '08:00', status: 'taken', confirmedAt: at(2024, 3, 9, 11) },
+        { date: '2024-03-10', time: '08:00', status: 'skipped' },
+        { date: '2024-03-11', time: '08:00', status: 'taken', confirmedAt: at(2024, 3, 11, 8) },
+      ]),
+    };
+    const doses = buildDoses([item], at(2024, 3, 8), at(2024, 3, 12), at(2024, 3, 12, 8, 30));
+
+    it('counts statuses and the adherence rate over due doses', () => {
+      expect(summarizeDoses(doses)).toEqual({
+        taken: 2, late: 1, skipped: 1, missed: 0, pending: 1, upcoming: 0, rate: 0.75,
+      });
+      expect(formatRate(0.75)).toBe('75%');
+      expect(formatRate(null)).toBe('–');
+    });
+
+    it('groups by week starting on Monday', () => {
+      expect(summarizeByWeek(doses).map(w => [w.weekStart, w.taken + w.late, w.skipped])).toEqual([
+        ['2024-03-04', 2, 1],
+        ['2024-03-11', 1, 0],
+      ]);
+    });
+
+    it('groups by medication', () => {
+      const other = { ...mockMedication, id: 'med2', title: 'Omeprazol', time: '07:00' };
+      const all = buildDoses([item, other], at(2024, 3, 8), at(2024, 3, 8), at(2024, 3, 9));
+      expect(summarizeByMedication(all).map(m => [m.title, m.rate])).toEqual([
+        ['Omeprazol', 0],
+        ['Metformine', 1],
+      ]);
+    });
+  });
+
+  // ============================================================
+  // Caregiver Summary and Report
+  // ============================================================
+
+  describe('caregiver summary and report', () => {
+    const item = {
+      ...mockMedication,
+      title: 'Metformine <500mg>',
+      times: JSON.stringify(['08:00', '20:00']),
+      medicationLog: JSON.stringify([{ date: '2024-03-04', time: '08:00', status: 'taken', confirmedAt: at(2024, 3, 4, 9, 30) }]),
+    };
+    const doses = buildDoses([item], at(2024, 3, 4), at(2024, 3, 4), at(2024, 3, 4, 23));
+
+    it('writes one line per dose of the day', () => {
+      const text = buildDailySummaryText('2024-03-04', doses, mockT, 'en');
+      const lines = text.split('\n');
+      expect(lines[1]).toBe('count(1,2)');
+      expect(lines).toContain('⏰ 08:00 Metformine <500mg> — late (09:30)');
+      expect(lines).toContain('❌ 20:00 Metformine <500mg> — missed');
+    });
+
+    it('mentions days without medication', () => {
+      expect(buildDailySummaryText('2024-03-05', doses, mockT, 'en').split('\n')[1]).toBe('noDoses');
+    });
+
+    it('escapes titles in the printable report', () => {
+      const html = buildAdherenceReportHtml({ doses, from: '2024-03-04', to: '2024-03-04', t: mockT, locale: 'en', now: at(2024, 3, 5) });
+      expect(html).toContain('Metformine &lt;500mg&gt;');
+      expect(html).not.toContain('<500mg>');
+      expect(html).toContain('overall(50%)');
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * CommEazy Message Action Tests
+ *
+ * - Payload recognition (edit, retract, reaction vs. ordinary content)
+ * - Edit and delete-for-everyone windows
+ * - Only the author may edit or retract; actions stay within their chat
+ * - Out-of-order edits never replace a newer version
+ *
+ * @see src/services/messageActions.ts
+ */
+
+import type { Message } from '../../src/services/interfaces';
+
+const mockMessages = new Map<string, Message>();
+
+const mockDatabase = {
+  getMessage: jest.fn((id: string) => Promise.resolve(mockMessages.get(id) ?? null)),
+  editMessage: jest.fn((id: string, content: string, editedAt: number) => {
+    const message = mockMessages.get(id)!;
+    mockMessages.set(id, { ...message, content, editedAt });
+    return Promise.resolve();
+  }),
+  retractMessage: jest.fn((id: string, retractedAt: number) => {
+    const message = mockMessages.get(id)!;
+    mockMessages.set(id, { ...message, content: '', retractedAt });
+    return Promise.resolve();
+  }),
+  setMessageReaction: jest.fn((id: string, jid: string, emoji: string | null) => {
+    const message = mockMessages.get(id)!;
+    const reactions = { ...message.reactions };
+    if (emoji) reactions[jid] = emoji;
+    else delete reactions[jid];
+    mockMessages.set(id, { ...message, reactions });
+    return Promise.resolve();
+  }),
+};
+
+jest.mock('../../src/services/container', () => ({
+  ServiceContainer: {
+    get database() { return mockDatabase; },
+  },
+}));
+
+import {
+  parseMessageAction,
+  canEditMessage,
+  canRetractMessage,
+  applyMessageAction,
+  EDIT_WINDOW_MS,
+} from '../../src/services/messageActions';
+
+const ALICE = 'alice-uuid@commeazy.local';
+const BOB = 'bob-uuid@commeazy.local';
+const CHAT_ID = `chat:${ALICE}:${BOB}`;
+
+const aliceMessage = (overrides: Partial<Message> = {}): Message => ({
+  id: 'msg-1',
+  chatId: CHAT_ID,
+  senderId: ALICE,
+  senderName: 'Alice',
+  content: 'Hallo, ik kom morg',
+  contentType: 'text',
+  timestamp: Date.now(),
+  status: 'delivered',
+  isRead: true,
+  ...overrides,
+});
+
+describe('Message actions', () => {
+  beforeEach(() => {
+    mockMessages.clear();
+    jest.clearAllMocks();
+  });
+
+  it('recognises actions and ignores ordinary payloads', () => {
+    expect(parseMessageAction({ type: 'edit', targetId: 'msg-1', text: 'Hallo', editedAt: 1 }))
+      .toEqual({ type: 'edit', targetId: 'msg-1', text: 'Hallo', editedAt: 1 });
+    expect(parseMessageAction({ type: 'reaction', targetId: 'msg-1', emoji: null }))
+      .toEqual({ type: 'reaction', targetId: 'msg-1', emoji: null });
+
+    expect(parseMessageAction('Hallo')).toBeNull();
+    expect(parseMessageAction({ type: 'photo', targetId: 'msg-1' })).toBeNull();
+    expect(parseMessageAction({ type: 'edit', targetId: 'msg-1', text: '   ', editedAt: 1 })).toBeNull();
+    expect(parseMessageAction({ type: 'reaction', targetId: 'msg-1', emoji: 'x'.repeat(100) })).toBeNull();
+  });
+
+  it('only offers edit and delete on own messages within the window', () => {
+    const now = Date.now();
+    const message = aliceMessage({ timestamp: now });
+
+    expect(canEditMessage(message, ALICE, now)).toBe(true);
+    expect(canRetractMessage(message, ALICE, now)).toBe(true);
+    expect(canEditMessage(message, BOB, now)).toBe(false);
+    expect(canEditMessage(message, ALICE, now + EDIT_WINDOW_MS + 1)).toBe(false);
+    expect(canRetractMessage({ ...message, retractedAt: now }, ALICE, now)).toBe(false);
+  });
+
+  it('applies an edit from the author and keeps the message id', async () => {
+    mockMessages.set('msg-1', aliceMessage({ timestamp: 1 }));
+
+    const updated = await applyMessageAction(
+      { type: 'edit', targetId: 'msg-1', text: 'Hallo, ik kom morgen', editedAt: 2 },
+      CHAT_ID,
+      ALICE,
+    );
+
+    expect(updated?.content).toBe('Hallo, ik kom morgen');
+    expect(updated?.editedAt).toBe(2);
+  });
+
+  it('keeps the newest edit when edits arrive out of order', async () => {
+    mockMessages.set('msg-1', aliceMessage({ timestamp: 1 }));
+
+    await applyMessageAction(
+      { type: 'edit', targetId: 'msg-1', text: 'Hallo, ik kom morgen om 3 uur', editedAt: 3 }, CHAT_ID, ALICE,
+    );
+    const updated = await applyMessageAction(
+      { type: 'edit', targetId: 'msg-1', text: 'Hallo, ik kom morgen', editedAt: 2 }, CHAT_ID, ALICE,
+    );
+
+    expect(updated?.content).toBe('Hallo, ik kom morgen om 3 uur');
+    expect(updated?.editedAt).toBe(3);
+    expect(mockDatabase.editMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects edits and retracts from someone other than the author', async () => {
+    mockMessages.set('msg-1', aliceMessage());
+
+    expect(await applyMessageAction(
+      { type: 'edit', targetId: 'msg-1', text: 'vervalst', editedAt: 2 }, CHAT_ID, BOB,
+    )).toBeNull();
+    expect(await applyMessageAction(
+      { type: 'retract', targetId: 'msg-1', retractedAt: 2 }, CHAT_ID, BOB,
+    )).toBeNull();
+    expect(mockDatabase.editMessage).not.toHaveBeenCalled();
+    expect(mockDatabase.retractMessage).not.toHaveBeenCalled();
+  });
+
+  it('ignores actions aimed at a message in another chat', async () => {
+    mockMessages.set('msg-1', aliceMessage({ chatId: 'other-group-id' }));
+
+    expect(await applyMessageAction(
+      { type: 'retract', targetId: 'msg-1', retractedAt: 2 }, CHAT_ID, ALICE,
+    )).toBeNull();
+  });
+
+  it('lets anyone react, and null removes the reaction', async () => {
+    mockMessages.set('msg-1', aliceMessage());
+
+    const reacted = await applyMessageAction({ type: 'reaction', targetId: 'msg-1', emoji: '👍' }, CHAT_ID, BOB);
+    expect(reacted?.reactions).toEqual({ [BOB]: '👍' });
+
+    const removed = await applyMessageAction({ type: 'reaction', targetId: 'msg-1', emoji: null }, CHAT_ID, BOB);
+    expect(removed?.reactions).toEqual({});
+  });
+});
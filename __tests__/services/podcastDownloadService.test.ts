@@ -0,0 +1,342 @@
+/**
+ * CommEazy Podcast Download Tests
+ *
+ * Unit tests for services/podcastDownloadService.ts:
+ * - Range-chunked downloads and the single-request fallback
+ * - Resuming a partial download after an app restart
+ * - "Wi-Fi only" waiting and continuing
+ * - Retries and failure
+ * - Auto-download of the newest episodes, auto-delete after listening
+ * - Storage info
+ */
+
+import type { PodcastEpisode, PodcastShow } from '../../src/contexts/PodcastContext';
+
+// ============================================================
+// Mocks
+// ============================================================
+
+interface MockServer {
+  content: Buffer;
+  supportsRange: boolean;
+  failures: number;
+  requestedRanges: string[];
+}
+
+const mockFiles = new Map<string, Buffer>();
+const mockStorage = new Map<string, string>();
+const mockServer: MockServer = { content: Buffer.alloc(0), supportsRange: true, failures: 0, requestedRanges: [] };
+const mockNetwork = { type: 'wifi', listener: null as ((type: string) => void) | null };
+const mockGetPodcastEpisodes = jest.fn();
+
+jest.mock('react-native-fs', () => ({
+  DocumentDirectoryPath: '/docs',
+  exists: jest.fn(async (path: string) => path === '/docs/podcasts' || mockFiles.has(path)),
+  mkdir: jest.fn(async () => undefined),
+  stat: jest.fn(async (path: string) => ({ size: mockFiles.get(path)?.length ?? 0 })),
+  unlink: jest.fn(async (path: string) => {
+    mockFiles.delete(path);
+  }),
+  readFile: jest.fn(async (path: string) => (mockFiles.get(path) ?? Buffer.alloc(0)).toString('base64')),
+  appendFile: jest.fn(async (path: string, data: string) => {
+    mockFiles.set(path, Buffer.concat([mockFiles.get(path) ?? Buffer.alloc(0), Buffer.from(data, 'base64')]));
+  }),
+  moveFile: jest.fn(async (from: string, to: string) => {
+    mockFiles.set(to, mockFiles.get(from) as Buffer);
+    mockFiles.delete(from);
+  }),
+  stopDownload: jest.fn(),
+  downloadFile: jest.fn((options: {
+    toFile: string;
+    headers: Record<string, string>;
+    begin?: (res: { statusCode: number; contentLength: number; headers: Record<string, string> }) => void;
+  }) => {
+    const promise = (async () => {
+      const range = options.headers.Range;
+      mockServer.requestedRanges.push(range);
+      if (mockServer.failures > 0) {
+        mockServer.failures--;
+        throw new Error('Network error');
+      }
+
+      const total = mockServer.content.length;
+      if (!mockServer.supportsRange) {
+        options.begin?.({ statusCode: 200, contentLength: total, headers: {} });
+        mockFiles.set(options.toFile, mockServer.content);
+        return { statusCode: 200, bytesWritten: total };
+      }
+
+      const [start, end] = /bytes=(\d+)-(\d+)/.exec(range)!.slice(1).map(Number);
+      if (start >= total) {
+        return { statusCode: 416, bytesWritten: 0 };
+      }
+      const chunk = mockServer.content.subarray(start, Math.min(end + 1, total));
+      options.begin?.({
+        statusCode: 206,
+        contentLength: chunk.length,
+        headers: { 'Content-Range': `bytes ${start}-${start + chunk.length - 1}/${total}` },
+      });
+      mockFiles.set(options.toFile, Buffer.from(chunk));
+      return { statusCode: 206, bytesWritten: chunk.length };
+    })();
+    return { jobId: 1, promise };
+  }),
+}));
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(async (key: string) => mockStorage.get(key) ?? null),
+  setItem: jest.fn(async (key: string, value: string) => {
+    mockStorage.set(key, value);
+  }),
+}));
+
+jest.mock('../../src/services/networkStatus', () => ({
+  getConnectionType: jest.fn(async () => mockNetwork.type),
+  onConnectionTypeChange: jest.fn((listener: (type: string) => void) => {
+    mockNetwork.listener = listener;
+    return () => {};
+  }),
+}));
+
+jest.mock('../../src/services/podcastService', () => ({
+  getPodcastEpisodes: (show: unknown) => mockGetPodcastEpisodes(show),
+}));
+
+jest.mock('../../src/services/retry-utils', () => ({
+  ...jest.requireActual('../../src/services/retry-utils'),
+  calculateRetryDelay: () => 0,
+}));
+
+// ============================================================
+// Helpers
+// ============================================================
+
+type Service = typeof import('../../src/services/podcastDownloadService').podcastDownloadService;
+
+const MB = 1024 * 1024;
+
+const show: PodcastShow = {
+  id: 'show-1',
+  title: 'De Dag',
+  author: 'NPO',
+  feedUrl: 'https://example.com/feed.xml',
+  subscribedAt: 0,
+};
+
+function createEpisode(id: string, publishedAt = 0): PodcastEpisode {
+  return {
+    id,
+    podcastId: show.id,
+    title: `Aflevering ${id}`,
+    description: '',
+    streamUrl: `https://cdn.example.com/audio/${id}.m4a?token=abc`,
+    duration: 1800,
+    publishedAt,
+  };
+}
+
+function createContent(size: number): Buffer {
+  const content = Buffer.alloc(size);
+  for (let i = 0; i < size; i++) content[i] = (i * 31) % 251;
+  return content;
+}
+
+function loadService(): Service {
+  let service: Service | undefined;
+  jest.isolateModules(() => {
+    service = require('../../src/services/podcastDownloadService').podcastDownloadService;
+  });
+  return service as Service;
+}
+
+/** Let the background queue run until nothing is downloading any more */
+async function waitForQueue(service: Service): Promise<void> {
+  for (let i = 0; i < 200; i++) {
+    await new Promise(resolve => setTimeout(resolve, 1));
+    const busy = service.getState().downloads.some(d => d.status === 'downloading');
+    if (!busy && i > 5) return;
+  }
+}
+
+// ============================================================
+// Tests
+// ============================================================
+
+describe('podcastDownloadService', () => {
+  let service: Service;
+
+  beforeEach(() => {
+    mockFiles.clear();
+    mockStorage.clear();
+    mockServer.content = createContent(9 * MB);
+    mockServer.supportsRange = true;
+    mockServer.failures = 0;
+    mockServer.requestedRanges = [];
+    mockNetwork.type = 'wifi';
+    mockNetwork.listener = null;
+    mockGetPodcastEpisodes.mockReset();
+    service = loadService();
+  });
+
+  afterEach(() => {
+    service.destroy();
+  });
+
+  it('downloads an episode in Range chunks', async () => {
+    await service.enqueue(createEpisode('a'), show);
+    await waitForQueue(service);
+
+    const download = service.getDownload('a')!;
+    expect(download.status).toBe('completed');
+    expect(download.totalBytes).toBe(9 * MB);
+    expect(mockServer.requestedRanges).toEqual([
+      `bytes=0-${4 * MB - 1}`,
+      `bytes=${4 * MB}-${8 * MB - 1}`,
+      `bytes=${8 * MB}-${12 * MB - 1}`,
+    ]);
+    expect(download.localPath).toMatch(/^\/docs\/podcasts\/.+\.m4a$/);
+    expect(mockFiles.get(download.localPath)!.equals(mockServer.content)).toBe(true);
+    expect(await service.getLocalUri('a')).toBe(`file://${download.localPath}`);
+  });
+
+  it('falls back to one request when the server ignores Range', async () => {
+    mockServer.supportsRange = false;
+
+    await service.enqueue(createEpisode('a'), show);
+    await waitForQueue(service);
+
+    const download = service.getDownload('a')!;
+    expect(download.status).toBe('completed');
+    expect(mockServer.requestedRanges).toHaveLength(1);
+    expect(mockFiles.get(download.localPath)!.equals(mockServer.content)).toBe(true);
+  });
+
+  it('resumes a partial download after a restart', async () => {
+    await service.enqueue(createEpisode('a'), show);
+    await waitForQueue(service);
+    const { localPath } = service.getDownload('a')!;
+    service.destroy();
+
+    // Simulate an app that was closed after the first chunk
+    const partPath = localPath.replace(/\.m4a$/, '.part');
+    mockFiles.delete(localPath);
+    mockFiles.set(partPath, mockServer.content.subarray(0, 4 * MB));
+    const stored = JSON.parse(mockStorage.get('podcast_downloads')!);
+    stored[0].status = 'downloading';
+    mockStorage.set('podcast_downloads', JSON.stringify(stored));
+    mockServer.requestedRanges = [];
+
+    service = loadService();
+    await service.initialize();
+    expect(service.getDownload('a')).toMatchObject({ status: 'queued', bytesDownloaded: 4 * MB });
+
+    await service.processQueue();
+    expect(mockServer.requestedRanges[0]).toBe(`bytes=${4 * MB}-${8 * MB - 1}`);
+    expect(service.getDownload('a')!.status).toBe('completed');
+    expect(mockFiles.get(localPath)!.equals(mockServer.content)).toBe(true);
+    expect(mockFiles.has(partPath)).toBe(false);
+  });
+
+  it('waits for Wi-Fi on mobile data and continues when it returns', async () => {
+    mockNetwork.type = 'cellular';
+
+    await service.enqueue(createEpisode('a'), show);
+    await waitForQueue(service);
+
+    expect(service.getDownload('a')!.status).toBe('queued');
+    expect(service.getState().isWaitingForWifi).toBe(true);
+    expect(mockServer.requestedRanges).toHaveLength(0);
+
+    mockNetwork.type = 'wifi';
+    mockNetwork.listener?.('wifi');
+    await waitForQueue(service);
+
+    expect(service.getDownload('a')!.status).toBe('completed');
+    expect(service.getState().isWaitingForWifi).toBe(false);
+  });
+
+  it('downloads on mobile data when Wi-Fi only is off', async () => {
+    mockNetwork.type = 'cellular';
+    await service.saveSettings({ wifiOnly: false });
+
+    await service.enqueue(createEpisode('a'), show);
+    await waitForQueue(service);
+
+    expect(service.getDownload('a')!.status).toBe('completed');
+  });
+
+  it('retries a failed chunk and gives up after the retry limit', async () => {
+    mockServer.failures = 2;
+    await service.enqueue(createEpisode('a'), show);
+    await waitForQueue(service);
+    expect(service.getDownload('a')!.status).toBe('completed');
+
+    mockServer.failures = 10;
+    await service.enqueue(createEpisode('b'), show);
+    await waitForQueue(service);
+    expect(service.getDownload('b')!.status).toBe('failed');
+  });
+
+  it('removes the files when a download is deleted', async () => {
+    await service.enqueue(createEpisode('a'), show);
+    await waitForQueue(service);
+    const { localPath } = service.getDownload('a')!;
+
+    await service.deleteDownload('a');
+
+    expect(service.getDownload('a')).toBeNull();
+    expect(mockFiles.has(localPath)).toBe(false);
+    expect(await service.getLocalUri('a')).toBeNull();
+  });
+
+  it('deletes a listened episode only when auto-delete is on', async () => {
+    mockServer.content = createContent(1000);
+    await service.enqueue(createEpisode('a'), show);
+    await waitForQueue(service);
+
+    await service.saveSettings({ autoDeleteAfterListening: false });
+    await service.handleEpisodeListened('a');
+    expect(service.getDownload('a')).not.toBeNull();
+
+    await service.saveSettings({ autoDeleteAfterListening: true });
+    await service.handleEpisodeListened('a');
+    expect(service.getDownload('a')).toBeNull();
+  });
+
+  it('auto-downloads the newest unheard episodes once', async () => {
+    mockGetPodcastEpisodes.mockResolvedValue({
+      data: [createEpisode('old', 1), createEpisode('newest', 3), createEpisode('heard', 2)],
+      error: null,
+    });
+    mockServer.content = createContent(1000);
+
+    await service.autoDownloadNewEpisodes([show], () => false);
+    expect(service.getState().downloads).toHaveLength(0);
+
+    await service.saveSettings({ autoDownloadCount: 2 });
+    await service.autoDownloadNewEpisodes([show], id => id === 'heard');
+    await waitForQueue(service);
+
+    expect(service.getState().downloads.map(d => d.episode.id)).toEqual(['newest']);
+    expect(service.getDownload('newest')!.isAutoDownload).toBe(true);
+
+    // Deleted auto-downloads don't come back, and the interval limits runs
+    await service.deleteDownload('newest');
+    await service.autoDownloadNewEpisodes([show], () => false, true);
+    expect(service.getState().downloads.map(d => d.episode.id)).toEqual(['heard']);
+    await service.autoDownloadNewEpisodes([{ ...show, id: 'show-2' }], () => false);
+    expect(mockGetPodcastEpisodes).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports storage usage', async () => {
+    mockServer.content = createContent(3 * MB);
+    await service.enqueue(createEpisode('a'), show);
+    await waitForQueue(service);
+
+    expect(await service.getStorageInfo()).toEqual({
+      usedBytes: 3 * MB,
+      episodeCount: 1,
+      formattedUsed: '3.0 MB',
+    });
+  });
+});
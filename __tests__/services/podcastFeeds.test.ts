@@ -0,0 +1,223 @@
+/**
+ * CommEazy Podcast Feed Tests
+ *
+ * Unit tests for custom feeds and OPML:
+ * - Feed URL normalization and stable show ids (services/podcastService.ts)
+ * - Adding RSS and Atom feeds by URL
+ * - OPML export and import (services/podcastOpml.ts)
+ */
+
+import type { PodcastShow } from '../../src/contexts/PodcastContext';
+import {
+  normalizeFeedUrl,
+  getFeedShowId,
+  getPodcastByFeedUrl,
+  getPodcastEpisodes,
+} from '../../src/services/podcastService';
+import { buildOpml, parseOpml } from '../../src/services/podcastOpml';
+
+// ============================================================
+// Mocks
+// ============================================================
+
+const mockCachedEpisodes = new Map<string, unknown[]>();
+
+jest.mock('../../src/services/podcastCacheService', () => ({
+  podcastCacheService: {
+    getEpisodes: jest.fn((showId: string) => mockCachedEpisodes.get(showId) ?? null),
+    setEpisodes: jest.fn(async (showId: string, episodes: unknown[]) => {
+      mockCachedEpisodes.set(showId, episodes);
+    }),
+  },
+}));
+
+jest.mock('react-native-fs', () => ({}));
+
+const RSS_FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd">
+<channel>
+  <title>Oma's Verhalen</title>
+  <description>Verhalen van vroeger</description>
+  <itunes:author>Lokale Omroep</itunes:author>
+  <itunes:image href="https://example.com/cover.jpg" />
+  <item>
+    <title>Aflevering 2</title>
+    <pubDate>Tue, 02 Jan 2024 08:00:00 GMT</pubDate>
+    <itunes:duration>10:00</itunes:duration>
+    <enclosure url="https://example.com/2.mp3?a=1&amp;b=2" type="audio/mpeg" length="1000" />
+    <guid>ep-2</guid>
+  </item>
+  <item>
+    <title>Aflevering 1</title>
+    <pubDate>Mon, 01 Jan 2024 08:00:00 GMT</pubDate>
+    <enclosure url="https://example.com/1.mp3" type="audio/mpeg" />
+    <guid>ep-1</guid>
+  </item>
+</channel>
+</rss>`;
+
+const ATOM_FEED = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title type="text">Tuinieren &amp; Meer</title>
+  <subtitle>Elke week de tuin in</subtitle>
+  <author><name>Groene Vingers</name></author>
+  <logo>https://example.com/logo.png</logo>
+  <entry>
+    <title>Rozen snoeien</title>
+    <id>urn:uuid:rozen</id>
+    <published>2024-03-01T10:00:00Z</published>
+    <summary>Hoe en wanneer</summary>
+    <link rel="alternate" href="https://example.com/rozen" />
+    <link rel="enclosure" type="audio/mpeg" length="2048" href="https://example.com/rozen.mp3" />
+  </entry>
+  <entry>
+    <title>Alleen tekst</title>
+    <id>urn:uuid:tekst</id>
+    <link rel="alternate" href="https://example.com/tekst" />
+  </entry>
+</feed>`;
+
+function mockFetchResponse(body: string, status = 200): void {
+  global.fetch = jest.fn(async () => ({
+    ok: status >= 200 && status < 300,
+    status,
+    text: async () => body,
+  })) as unknown as typeof fetch;
+}
+
+// ============================================================
+// Tests
+// ============================================================
+
+describe('podcast feeds', () => {
+  beforeEach(() => {
+    mockCachedEpisodes.clear();
+  });
+
+  describe('normalizeFeedUrl', () => {
+    it('adds https to bare addresses and rewrites podcast link schemes', () => {
+      expect(normalizeFeedUrl('  example.com/feed.xml ')).toBe('https://example.com/feed.xml');
+      expect(normalizeFeedUrl('feed://example.com/rss')).toBe('https://example.com/rss');
+      expect(normalizeFeedUrl('itpc://example.com/rss')).toBe('https://example.com/rss');
+      expect(normalizeFeedUrl('feed:https://example.com/rss')).toBe('https://example.com/rss');
+      expect(normalizeFeedUrl('http://example.com/rss')).toBe('http://example.com/rss');
+    });
+
+    it('rejects input that cannot be a feed address', () => {
+      expect(normalizeFeedUrl('')).toBeNull();
+      expect(normalizeFeedUrl('oma podcast')).toBeNull();
+      expect(normalizeFeedUrl('localhost')).toBeNull();
+      expect(normalizeFeedUrl('ftp://example.com/rss')).toBeNull();
+    });
+  });
+
+  describe('getFeedShowId', () => {
+    it('is stable per URL and differs between URLs', () => {
+      const id = getFeedShowId('https://example.com/rss');
+      expect(id).toMatch(/^feed-[0-9a-z]+$/);
+      expect(getFeedShowId('https://example.com/rss')).toBe(id);
+      expect(getFeedShowId('https://example.com/other')).not.toBe(id);
+    });
+  });
+
+  describe('getPodcastByFeedUrl', () => {
+    it('builds a show from an RSS feed and caches its episodes', async () => {
+      mockFetchResponse(RSS_FEED);
+      const feedUrl = 'https://example.com/rss';
+
+      const result = await getPodcastByFeedUrl(feedUrl);
+
+      expect(result.error).toBeNull();
+      expect(result.data).toMatchObject({
+        id: getFeedShowId(feedUrl),
+        title: "Oma's Verhalen",
+        author: 'Lokale Omroep',
+        artwork: 'https://example.com/cover.jpg',
+        feedUrl,
+      });
+
+      // Episodes come from the cache without a second fetch
+      const episodes = await getPodcastEpisodes(result.data as PodcastShow);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(episodes.data?.map(e => e.id)).toEqual(['ep-2', 'ep-1']);
+      expect(episodes.data?.[0].streamUrl).toBe('https://example.com/2.mp3?a=1&b=2');
+      expect(episodes.data?.[0].duration).toBe(600);
+    });
+
+    it('reads Atom feeds with enclosure links', async () => {
+      mockFetchResponse(ATOM_FEED);
+
+      const result = await getPodcastByFeedUrl('https://example.com/atom');
+
+      expect(result.data).toMatchObject({
+        title: 'Tuinieren & Meer',
+        author: 'Groene Vingers',
+        description: 'Elke week de tuin in',
+        artwork: 'https://example.com/logo.png',
+      });
+      const episodes = await getPodcastEpisodes(result.data as PodcastShow);
+      expect(episodes.data).toHaveLength(1);
+      expect(episodes.data?.[0]).toMatchObject({
+        id: 'urn:uuid:rozen',
+        title: 'Rozen snoeien',
+        description: 'Hoe en wanneer',
+        streamUrl: 'https://example.com/rozen.mp3',
+        publishedAt: Date.parse('2024-03-01T10:00:00Z'),
+      });
+    });
+
+    it('rejects pages that are not a podcast feed', async () => {
+      mockFetchResponse('<html><body>Welkom</body></html>');
+      expect(await getPodcastByFeedUrl('https://example.com')).toEqual({ data: null, error: 'parse' });
+
+      mockFetchResponse(ATOM_FEED.replace(/<link rel="enclosure"[^>]*>/, ''));
+      expect(await getPodcastByFeedUrl('https://example.com/atom')).toEqual({ data: null, error: 'parse' });
+    });
+
+    it('reports server errors', async () => {
+      mockFetchResponse('Not found', 404);
+      expect(await getPodcastByFeedUrl('https://example.com/missing')).toEqual({ data: null, error: 'server' });
+    });
+  });
+
+  describe('OPML', () => {
+    const shows: PodcastShow[] = [
+      { id: '123', title: 'Nieuws & Duiding', author: 'NOS', feedUrl: 'https://example.com/news?x=1&y=2', subscribedAt: 1 },
+      { id: 'feed-abc', title: 'Oma\'s "Verhalen"', author: '', feedUrl: 'https://example.com/rss', subscribedAt: 2 },
+    ];
+
+    it('round-trips subscriptions through an OPML document', () => {
+      const opml = buildOpml(shows, new Date(Date.UTC(2024, 0, 1)));
+
+      expect(opml).toContain('<opml version="2.0">');
+      expect(opml).toContain('xmlUrl="https://example.com/news?x=1&amp;y=2"');
+      expect(parseOpml(opml)).toEqual([
+        { feedUrl: 'https://example.com/news?x=1&y=2', title: 'Nieuws & Duiding' },
+        { feedUrl: 'https://example.com/rss', title: 'Oma\'s "Verhalen"' },
+      ]);
+    });
+
+    it('flattens folders, skips duplicates and outlines without a feed', () => {
+      const opml = `<?xml version="1.0"?>
+        <opml version="1.0">
+          <body>
+            <outline text="Nieuws">
+              <outline text="Radio 1" xmlurl="feed://example.com/radio1" />
+              <outline text="Website" htmlUrl="https://example.com" />
+            </outline>
+            <outline type="rss" text="Radio 1 again" xmlUrl="https://example.com/radio1" />
+            <outline type="rss" text="Geen titel" xmlUrl="example.com/plain">
+          </body>
+        </opml>`;
+
+      expect(parseOpml(opml)).toEqual([
+        { feedUrl: 'https://example.com/radio1', title: 'Radio 1' },
+        { feedUrl: 'https://example.com/plain', title: 'Geen titel' },
+      ]);
+    });
+
+    it('returns nothing for files that are not OPML', () => {
+      expect(parseOpml('just some text')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * CommEazy Double Ratchet Tests
+ *
+ * Unit tests for the pure session layer in services/ratchet.ts:
+ * - Handshake (initiate + accept) and first reply
+ * - In-order and out-of-order delivery
+ * - Replay and tamper rejection
+ * - Session serialization round-trip
+ * - SodiumEncryptionService: a replayed handshake from an older session
+ *
+ * @see .claude/skills/security-expert/SKILL.md
+ */
+
+import sodium from 'libsodium-wrappers-sumo';
+
+// libsodium-wrappers only attaches its functions after `ready`, so resolve lazily
+jest.mock('react-native-libsodium', () => {
+  const wrappers = require('libsodium-wrappers-sumo');
+  const sodium = wrappers.default ?? wrappers;
+  return new Proxy({}, { get: (_target, key) => sodium[key] });
+});
+
+// Mock react-native-keychain
+jest.mock('react-native-keychain', () => ({
+  setGenericPassword: jest.fn().mockResolvedValue(true),
+  getGenericPassword: jest.fn().mockResolvedValue(null),
+  ACCESS_CONTROL: {
+    BIOMETRY_ANY: 'BiometryAny',
+  },
+}));
+
+import {
+  initiateSession,
+  acceptSession,
+  ratchetEncrypt,
+  ratchetDecrypt,
+  serializeSession,
+  deserializeSession,
+  type RatchetSession,
+} from '../../src/services/ratchet';
+import { SodiumEncryptionService } from '../../src/services/encryption';
+import type { EncryptedPayload, StoredRatchetSession } from '../../src/services/interfaces';
+
+const text = (value: string) => sodium.from_string(value);
+const read = (bytes: Uint8Array) => sodium.to_string(bytes);
+
+describe('Double Ratchet', () => {
+  let alice: RatchetSession;
+  let bob: RatchetSession;
+
+  beforeAll(async () => {
+    await sodium.ready;
+  });
+
+  beforeEach(() => {
+    const aliceKp = sodium.crypto_box_keypair();
+    const bobKp = sodium.crypto_box_keypair();
+
+    alice = initiateSession(aliceKp.publicKey, aliceKp.privateKey, bobKp.publicKey);
+    const first = ratchetEncrypt(alice, text('hallo'));
+    expect(first.header.ek).toBeDefined();
+
+    bob = acceptSession(bobKp.publicKey, bobKp.privateKey, aliceKp.publicKey, first.header);
+    expect(read(ratchetDecrypt(bob, first))).toBe('hallo');
+    expect(bob.dhSelfPrivate).not.toBe(sodium.to_base64(bobKp.privateKey, sodium.base64_variants.ORIGINAL));
+    expect(bob.dhSelfPublic).not.toBe(sodium.to_base64(bobKp.publicKey, sodium.base64_variants.ORIGINAL));
+  });
+
+  it('exchanges messages in both directions', () => {
+    const reply = ratchetEncrypt(bob, text('dag Alice'));
+    expect(read(ratchetDecrypt(alice, reply))).toBe('dag Alice');
+
+    const next = ratchetEncrypt(alice, text('hoe gaat het?'));
+    expect(next.header.ek).toBeUndefined();
+    expect(read(ratchetDecrypt(bob, next))).toBe('hoe gaat het?');
+  });
+
+  it('decrypts out-of-order messages', () => {
+    const m1 = ratchetEncrypt(alice, text('een'));
+    const m2 = ratchetEncrypt(alice, text('twee'));
+    const m3 = ratchetEncrypt(alice, text('drie'));
+
+    expect(read(ratchetDecrypt(bob, m3))).toBe('drie');
+    expect(read(ratchetDecrypt(bob, m1))).toBe('een');
+    expect(read(ratchetDecrypt(bob, m2))).toBe('twee');
+  });
+
+  it('rejects a replayed message', () => {
+    const m1 = ratchetEncrypt(alice, text('een'));
+    ratchetDecrypt(bob, m1);
+    expect(() => ratchetDecrypt(bob, m1)).toThrow();
+  });
+
+  it('rejects a tampered header without corrupting the session', () => {
+    const m1 = ratchetEncrypt(alice, text('een'));
+    const tampered = { ...m1, header: { ...m1.header, n: m1.header.n + 1 } };
+
+    expect(() => ratchetDecrypt(bob, tampered)).toThrow();
+    expect(read(ratchetDecrypt(bob, m1))).toBe('een');
+  });
+
+  it('survives a serialization round-trip', () => {
+    const restored = deserializeSession(serializeSession(bob));
+    const m1 = ratchetEncrypt(alice, text('na herstart'));
+    expect(read(ratchetDecrypt(restored, m1))).toBe('na herstart');
+  });
+});
+
+describe('SodiumEncryptionService ratchet sessions', () => {
+  const ALICE = 'alice@commeazy.local';
+  const BOB = 'bob@commeazy.local';
+
+  let alice: SodiumEncryptionService;
+  let bob: SodiumEncryptionService;
+  let aliceSessions: Map<string, StoredRatchetSession>;
+  let alicePk: Uint8Array;
+  let bobPk: Uint8Array;
+
+  async function createService(jid: string, sessions: Map<string, StoredRatchetSession>) {
+    const service = new SodiumEncryptionService();
+    await service.initialize();
+    const keyPair = await service.generateKeyPair();
+    service.setMyJid(jid);
+    service.setSessionStore({
+      getRatchetSession: async (contactJid) => sessions.get(contactJid) ?? null,
+      saveRatchetSession: async (contactJid, session) => { sessions.set(contactJid, session); },
+      deleteRatchetSession: async (contactJid) => { sessions.delete(contactJid); },
+      getSenderKey: async () => null,
+      saveSenderKey: async () => undefined,
+      deleteSenderKeys: async () => undefined,
+    });
+    return { service, publicKey: sodium.from_base64(keyPair.publicKey, sodium.base64_variants.ORIGINAL) };
+  }
+
+  const sendToBob = (text: string) => alice.encrypt(text, [{ jid: BOB, publicKey: bobPk }], 'ratchet');
+  const bobReads = (payload: EncryptedPayload) => bob.decrypt(payload, alicePk, ALICE);
+
+  beforeAll(async () => {
+    await sodium.ready;
+  });
+
+  beforeEach(async () => {
+    aliceSessions = new Map();
+    ({ service: alice, publicKey: alicePk } = await createService(ALICE, aliceSessions));
+    ({ service: bob, publicKey: bobPk } = await createService(BOB, new Map()));
+  });
+
+  it('rejects the replayed first message of an older session', async () => {
+    const oldHandshake = await sendToBob('eerste sessie');
+    expect(await bobReads(oldHandshake)).toBe('eerste sessie');
+
+    // Alice starts over twice (e.g. reinstalled): the first session is no longer kept
+    aliceSessions.clear();
+    expect(await bobReads(await sendToBob('tweede sessie'))).toBe('tweede sessie');
+    aliceSessions.clear();
+    expect(await bobReads(await sendToBob('derde sessie'))).toBe('derde sessie');
+
+    await expect(bobReads(oldHandshake)).rejects.toMatchObject({ code: 'E201' });
+
+    // The live session is untouched
+    expect(await bobReads(await sendToBob('nog steeds hier'))).toBe('nog steeds hier');
+    const reply = await bob.encrypt('dag Alice', [{ jid: ALICE, publicKey: alicePk }], 'ratchet');
+    expect(await alice.decrypt(reply, bobPk, BOB)).toBe('dag Alice');
+  });
+});
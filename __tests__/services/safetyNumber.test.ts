@@ -0,0 +1,61 @@
+/**
+ * CommEazy Safety Number Tests
+ *
+ * - Both sides compute the same 60 digits
+ * - Any key change gives a different number
+ * - Display grouping (12 × 5 digits)
+ *
+ * @see src/services/safetyNumber.ts
+ */
+
+import sodium from 'libsodium-wrappers-sumo';
+
+// libsodium-wrappers only attaches its functions after `ready`, so resolve lazily
+jest.mock('react-native-libsodium', () => {
+  const wrappers = require('libsodium-wrappers-sumo');
+  const sodium = wrappers.default ?? wrappers;
+  return new Proxy({}, { get: (_target, key) => sodium[key] });
+});
+
+import { computeSafetyNumber, formatSafetyNumber } from '../../src/services/safetyNumber';
+
+const ALICE = 'alice-uuid@commeazy.local';
+const BOB = 'bob-uuid@commeazy.local';
+
+const newKey = () => sodium.to_base64(sodium.crypto_box_keypair().publicKey, sodium.base64_variants.ORIGINAL);
+
+describe('Safety number', () => {
+  let aliceKey: string;
+  let bobKey: string;
+
+  beforeAll(async () => {
+    await sodium.ready;
+  });
+
+  beforeEach(() => {
+    aliceKey = newKey();
+    bobKey = newKey();
+  });
+
+  it('is the same 60 digits on both devices', () => {
+    const onAlice = computeSafetyNumber(ALICE, aliceKey, BOB, bobKey);
+    const onBob = computeSafetyNumber(BOB, bobKey, ALICE, aliceKey);
+
+    expect(onAlice).toMatch(/^\d{60}$/);
+    expect(onBob).toBe(onAlice);
+  });
+
+  it('changes when either key changes', () => {
+    const before = computeSafetyNumber(ALICE, aliceKey, BOB, bobKey);
+
+    expect(computeSafetyNumber(ALICE, aliceKey, BOB, newKey())).not.toBe(before);
+    expect(computeSafetyNumber(ALICE, newKey(), BOB, bobKey)).not.toBe(before);
+  });
+
+  it('formats as twelve groups of five digits', () => {
+    const groups = formatSafetyNumber(computeSafetyNumber(ALICE, aliceKey, BOB, bobKey));
+
+    expect(groups).toHaveLength(12);
+    groups.forEach(group => expect(group).toMatch(/^\d{5}$/));
+  });
+});
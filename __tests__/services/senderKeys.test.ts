@@ -0,0 +1,123 @@
+/**
+ * CommEazy Sender Key Tests
+ *
+ * Unit tests for the pure group layer in services/senderKeys.ts:
+ * - Encrypt once, decrypt by every member holding the distribution
+ * - Out-of-order delivery and replay rejection
+ * - Forged signatures rejected
+ * - Late joiners and removed members locked out
+ * - Rotated keys ordered by generation, so late distributions cannot win
+ *
+ * @see .claude/skills/security-expert/SKILL.md
+ */
+
+import sodium from 'libsodium-wrappers-sumo';
+
+// libsodium-wrappers only attaches its functions after `ready`, so resolve lazily
+jest.mock('react-native-libsodium', () => {
+  const wrappers = require('libsodium-wrappers-sumo');
+  const sodium = wrappers.default ?? wrappers;
+  return new Proxy({}, { get: (_target, key) => sodium[key] });
+});
+
+import {
+  createSenderKey,
+  createDistribution,
+  acceptDistribution,
+  isNewerSenderKey,
+  senderKeyEncrypt,
+  senderKeyDecrypt,
+  serializeSenderKey,
+  deserializeSenderKey,
+  type SenderKeyState,
+} from '../../src/services/senderKeys';
+
+const GROUP_ID = '5f0c2a5e-7d4b-4b8e-9d55-1c1d3f2b9a10';
+
+const text = (value: string) => sodium.from_string(value);
+const read = (bytes: Uint8Array) => sodium.to_string(bytes);
+
+describe('Sender keys', () => {
+  let alice: SenderKeyState;
+  let bob: SenderKeyState;
+
+  beforeAll(async () => {
+    await sodium.ready;
+  });
+
+  beforeEach(() => {
+    alice = createSenderKey(GROUP_ID);
+    bob = acceptDistribution(createDistribution(alice));
+  });
+
+  it('decrypts a message encrypted once for the group', () => {
+    const carol = acceptDistribution(createDistribution(alice));
+    const message = senderKeyEncrypt(alice, text('hallo allemaal'));
+
+    expect(read(senderKeyDecrypt(bob, message))).toBe('hallo allemaal');
+    expect(read(senderKeyDecrypt(carol, message))).toBe('hallo allemaal');
+  });
+
+  it('decrypts out-of-order messages and rejects replays', () => {
+    const m1 = senderKeyEncrypt(alice, text('een'));
+    const m2 = senderKeyEncrypt(alice, text('twee'));
+    const m3 = senderKeyEncrypt(alice, text('drie'));
+
+    expect(read(senderKeyDecrypt(bob, m3))).toBe('drie');
+    expect(read(senderKeyDecrypt(bob, m1))).toBe('een');
+    expect(read(senderKeyDecrypt(bob, m2))).toBe('twee');
+    expect(() => senderKeyDecrypt(bob, m1)).toThrow();
+  });
+
+  it('rejects a message signed by another member', () => {
+    // Mallory holds Alice's chain key but not her signing key
+    const mallory = { ...acceptDistribution(createDistribution(alice)) };
+    const forgingKey = createSenderKey(GROUP_ID);
+    mallory.signingPrivateKey = forgingKey.signingPrivateKey;
+
+    const forged = senderKeyEncrypt(mallory, text('vals bericht'));
+    expect(() => senderKeyDecrypt(bob, forged)).toThrow('signature');
+
+    // The failed attempt must not advance Bob's chain
+    expect(read(senderKeyDecrypt(bob, senderKeyEncrypt(alice, text('echt'))))).toBe('echt');
+  });
+
+  it('keeps earlier messages unreadable for a late joiner', () => {
+    const before = senderKeyEncrypt(alice, text('voor jouw tijd'));
+    const dave = acceptDistribution(createDistribution(alice));
+    const after = senderKeyEncrypt(alice, text('welkom'));
+
+    expect(() => senderKeyDecrypt(dave, before)).toThrow();
+    expect(read(senderKeyDecrypt(dave, after))).toBe('welkom');
+  });
+
+  it('locks out the old key after rotation', () => {
+    const rotated = createSenderKey(GROUP_ID);
+    expect(rotated.keyId).not.toBe(alice.keyId);
+
+    const message = senderKeyEncrypt(rotated, text('na verwijderen'));
+    expect(() => senderKeyDecrypt(bob, message)).toThrow('mismatch');
+  });
+
+  it('orders rotated keys by generation, not by arrival', () => {
+    const rotated = acceptDistribution(createDistribution(createSenderKey(GROUP_ID, 1)));
+
+    expect(isNewerSenderKey(rotated, bob)).toBe(true);
+    // The distribution of the old key arriving late must not win
+    expect(isNewerSenderKey(acceptDistribution(createDistribution(alice)), rotated)).toBe(false);
+  });
+
+  it('treats legacy distributions without generation as generation 0', () => {
+    const legacy = { ...createDistribution(alice), generation: undefined, createdAt: undefined };
+    const received = acceptDistribution(legacy);
+
+    expect(received.generation).toBe(0);
+    expect(isNewerSenderKey(acceptDistribution(createDistribution(createSenderKey(GROUP_ID, 1))), received)).toBe(true);
+  });
+
+  it('survives a serialization round-trip', () => {
+    const restored = deserializeSenderKey(serializeSenderKey(bob));
+    const message = senderKeyEncrypt(alice, text('na herstart'));
+    expect(read(senderKeyDecrypt(restored, message))).toBe('na herstart');
+  });
+});
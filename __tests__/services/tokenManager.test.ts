@@ -0,0 +1,120 @@
+/**
+ * Token Manager Tests
+ *
+ * Tests for the client side of refresh-token rotation:
+ * - A reused or revoked refresh token clears the tokens and identity
+ * - reattestOnSignInRequired attests again for the signed-in user
+ * - Without a signed-in user nothing is attested
+ *
+ * @see src/services/attestation/tokenManager.ts
+ */
+
+// Keychain stand-in: keeps values in memory
+const mockSecureStore = new Map<string, string>();
+
+jest.mock('../../src/services/secureStorage', () => ({
+  secureSet: jest.fn((key: string, value: string) => {
+    mockSecureStore.set(key, value);
+    return Promise.resolve();
+  }),
+  secureGet: jest.fn((key: string) => Promise.resolve(mockSecureStore.get(key) ?? null)),
+  secureRemove: jest.fn((key: string) => {
+    mockSecureStore.delete(key);
+    return Promise.resolve();
+  }),
+  migrateFromAsyncStorage: jest.fn(),
+}));
+
+// Simulator without App Attest: attestation goes through dev mode
+jest.mock('../../src/services/attestation/appAttest', () => ({
+  isAppAttestSupported: jest.fn().mockResolvedValue(false),
+  generateAttestKey: jest.fn(),
+  attestKey: jest.fn(),
+}));
+
+jest.mock('react-native-libsodium', () => ({
+  randombytes_buf: jest.fn(),
+  to_hex: jest.fn(),
+  ready: Promise.resolve(),
+}));
+
+import {
+  getAccessToken,
+  reattestOnSignInRequired,
+} from '../../src/services/attestation/tokenManager';
+
+const USER = { userUuid: 'user-1', appVersion: '1.0.0' };
+
+const FRESH_TOKENS = {
+  accessToken: 'fresh-access',
+  refreshToken: 'fresh-refresh',
+  expiresIn: 86400,
+};
+
+/**
+ * Gateway stand-in: the refresh endpoint answers `refreshError`,
+ * attestation hands out FRESH_TOKENS
+ */
+function mockGateway(refreshError: string): void {
+  global.fetch = jest.fn((url: string) => Promise.resolve(
+    url.endsWith('/api/v1/token/refresh')
+      ? { ok: false, status: 401, json: () => Promise.resolve({ error: refreshError }) }
+      : { ok: true, status: 200, json: () => Promise.resolve(FRESH_TOKENS) },
+  )) as unknown as typeof fetch;
+}
+
+function requestedPaths(): string[] {
+  return (global.fetch as jest.Mock).mock.calls.map(([url]: [string]) => new URL(url).pathname);
+}
+
+// Let the attestation started by the sign-in listener run
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('tokenManager', () => {
+  let unsubscribe: (() => void) | undefined;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSecureStore.clear();
+    // Expired access token, the refresh token still in hand
+    mockSecureStore.set('jwt_access_token', 'old-access');
+    mockSecureStore.set('jwt_refresh_token', 'old-refresh');
+    mockSecureStore.set('jwt_token_expiry', '0');
+    mockSecureStore.set('attest_user_uuid', USER.userUuid);
+    mockSecureStore.set('attest_app_version', USER.appVersion);
+  });
+
+  afterEach(() => {
+    unsubscribe?.();
+    unsubscribe = undefined;
+  });
+
+  it.each(['REFRESH_TOKEN_REUSED', 'TOKEN_REVOKED'])(
+    'attests again for the signed-in user after %s',
+    async (refreshError: string) => {
+      mockGateway(refreshError);
+      unsubscribe = reattestOnSignInRequired(() => Promise.resolve(USER));
+
+      expect(await getAccessToken()).toBeNull();
+      await flush();
+
+      expect(requestedPaths()).toEqual(['/api/v1/token/refresh', '/api/v1/attest/ios']);
+      expect(mockSecureStore.get('jwt_access_token')).toBe('fresh-access');
+      expect(mockSecureStore.get('jwt_refresh_token')).toBe('fresh-refresh');
+      expect(mockSecureStore.get('attest_user_uuid')).toBe(USER.userUuid);
+    },
+  );
+
+  it('clears the tokens and attests nothing without a signed-in user', async () => {
+    mockGateway('REFRESH_TOKEN_REUSED');
+    unsubscribe = reattestOnSignInRequired(() => Promise.resolve(null));
+
+    expect(await getAccessToken()).toBeNull();
+    await flush();
+
+    expect(requestedPaths()).toEqual(['/api/v1/token/refresh']);
+    expect(mockSecureStore.has('jwt_access_token')).toBe(false);
+    expect(mockSecureStore.has('jwt_refresh_token')).toBe(false);
+    expect(mockSecureStore.has('attest_user_uuid')).toBe(false);
+  });
+});
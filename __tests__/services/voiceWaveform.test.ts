@@ -0,0 +1,32 @@
+/**
+ * CommEazy Voice Message Waveform Tests
+ *
+ * - Recorder meter levels (dBFS) become a fixed number of 0-1 bars
+ * - Silence and clipping stay within range
+ * - Each bar shows the loudest moment in its slice
+ *
+ * @see src/services/media/mediaService.ts — levelsToWaveform
+ */
+
+import { levelsToWaveform } from '../../src/services/media/mediaService';
+
+describe('levelsToWaveform', () => {
+  it('returns flat bars for an empty recording', () => {
+    expect(levelsToWaveform([], 5)).toEqual([0, 0, 0, 0, 0]);
+  });
+
+  it('maps silence to 0 and full scale to 1', () => {
+    expect(levelsToWaveform([-160, -50, -25, 0, 3], 5)).toEqual([0, 0, 0.5, 1, 1]);
+  });
+
+  it('takes the loudest level in each slice', () => {
+    const levels = [-50, -10, -50, -50, -40, -50, -30, -50];
+    expect(levelsToWaveform(levels, 4)).toEqual([0.8, 0, 0.2, 0.4]);
+  });
+
+  it('stretches short recordings over all bars', () => {
+    const waveform = levelsToWaveform([-25, 0], 4);
+    expect(waveform).toHaveLength(4);
+    expect(waveform).toEqual([0.5, 0.5, 1, 1]);
+  });
+});
@@ -255,6 +255,11 @@ class MailModule: RCTEventEmitter {
                         (part.filename != nil && !part.contentType.lowercased().hasPrefix("text/"))
                     }
 
+                    // Threading headers (References only when the server includes it)
+                    if let messageId = msg.messageId { dict["messageId"] = messageId }
+                    if let inReplyTo = msg.inReplyTo { dict["inReplyTo"] = inReplyTo }
+                    if let references = msg.additionalFields?["References"] { dict["references"] = references }
+
                     return dict
                 }
 
@@ -541,6 +546,10 @@ class MailModule: RCTEventEmitter {
                         (part.filename != nil && !part.contentType.lowercased().hasPrefix("text/"))
                     }
 
+                    if let messageId = msg.messageId { dict["messageId"] = messageId }
+                    if let inReplyTo = msg.inReplyTo { dict["inReplyTo"] = inReplyTo }
+                    if let references = msg.additionalFields?["References"] { dict["references"] = references }
+
                     return dict
                 }
 
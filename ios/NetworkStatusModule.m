@@ -0,0 +1,17 @@
+/**
+ * NetworkStatusModule.m — React Native Bridge for connection type detection
+ *
+ * Objective-C bridge macros for exposing Swift NetworkStatusModule to React Native.
+ *
+ * @see NetworkStatusModule.swift for Swift implementation
+ */
+
+#import <React/RCTBridgeModule.h>
+#import <React/RCTEventEmitter.h>
+
+@interface RCT_EXTERN_MODULE(NetworkStatusModule, RCTEventEmitter)
+
+RCT_EXTERN_METHOD(getConnectionType:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject)
+
+@end
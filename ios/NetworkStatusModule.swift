@@ -0,0 +1,78 @@
+/**
+ * NetworkStatusModule — Native module for connection type detection
+ *
+ * Wraps NWPathMonitor so JavaScript can tell Wi-Fi from mobile data
+ * (used by the podcast download queue for the "Wi-Fi only" setting).
+ *
+ * Connection types: "wifi", "cellular", "other", "none".
+ * A personal hotspot counts as "cellular": iOS marks that path as expensive.
+ *
+ * Events emitted to React Native:
+ * - "networkStatusChanged": { type: String } — when the connection type changes
+ *
+ * @see src/services/networkStatus.ts for React Native consumer
+ */
+
+import Foundation
+import Network
+import React
+
+@objc(NetworkStatusModule)
+class NetworkStatusModule: RCTEventEmitter {
+
+    private let monitor = NWPathMonitor()
+    private let monitorQueue = DispatchQueue(label: "NetworkStatusModule.monitor")
+    private var currentType = "none"
+    private var hasListeners = false
+
+    override init() {
+        super.init()
+        monitor.pathUpdateHandler = { [weak self] path in
+            guard let self = self else { return }
+            let type = NetworkStatusModule.connectionType(for: path)
+            guard type != self.currentType else { return }
+            self.currentType = type
+            if self.hasListeners {
+                self.sendEvent(withName: "networkStatusChanged", body: ["type": type])
+            }
+        }
+        monitor.start(queue: monitorQueue)
+    }
+
+    deinit {
+        monitor.cancel()
+    }
+
+    // MARK: - RCTEventEmitter Setup
+
+    override static func requiresMainQueueSetup() -> Bool {
+        return false
+    }
+
+    override func supportedEvents() -> [String]! {
+        return ["networkStatusChanged"]
+    }
+
+    override func startObserving() {
+        hasListeners = true
+    }
+
+    override func stopObserving() {
+        hasListeners = false
+    }
+
+    // MARK: - Connection Type
+
+    @objc
+    func getConnectionType(_ resolve: @escaping RCTPromiseResolveBlock,
+                           reject: @escaping RCTPromiseRejectBlock) {
+        resolve(NetworkStatusModule.connectionType(for: monitor.currentPath))
+    }
+
+    private static func connectionType(for path: NWPath) -> String {
+        guard path.status == .satisfied else { return "none" }
+        if path.isExpensive || path.usesInterfaceType(.cellular) { return "cellular" }
+        if path.usesInterfaceType(.wifi) || path.usesInterfaceType(.wiredEthernet) { return "wifi" }
+        return "other"
+    }
+}
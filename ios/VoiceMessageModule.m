@@ -0,0 +1,50 @@
+/**
+ * VoiceMessageModule.m — React Native Bridge for voice messages
+ *
+ * Objective-C bridge macros for exposing Swift VoiceMessageModule to React Native.
+ *
+ * @see VoiceMessageModule.swift for Swift implementation
+ */
+
+#import <React/RCTBridgeModule.h>
+#import <React/RCTEventEmitter.h>
+
+@interface RCT_EXTERN_MODULE(VoiceMessageModule, RCTEventEmitter)
+
+// Start recording (AAC, mono, 16 kHz) to a tmp .m4a file, stops after maxDuration seconds
+RCT_EXTERN_METHOD(startRecording:(nonnull NSNumber *)maxDuration
+                  resolve:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject)
+
+// Stop recording — resolves with uri, duration, size and meter levels
+RCT_EXTERN_METHOD(stopRecording:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject)
+
+// Stop recording and delete the file
+RCT_EXTERN_METHOD(cancelRecording:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject)
+
+// Play a voice message from a position (seconds) at a speed (0.5 – 2.0)
+RCT_EXTERN_METHOD(play:(NSString *)path
+                  position:(nonnull NSNumber *)position
+                  rate:(nonnull NSNumber *)rate
+                  resolve:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(pause:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(stop:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject)
+
+RCT_EXTERN_METHOD(setRate:(nonnull NSNumber *)rate
+                  resolve:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject)
+
+// On-device speech-to-text for a voice message
+RCT_EXTERN_METHOD(transcribe:(NSString *)path
+                  language:(NSString *)language
+                  resolve:(RCTPromiseResolveBlock)resolve
+                  reject:(RCTPromiseRejectBlock)reject)
+
+@end
@@ -0,0 +1,352 @@
+/**
+ * VoiceMessageModule — Native iOS voice message recording, playback and transcription
+ *
+ * Push-to-talk voice notes for chat. Audio is compressed while recording
+ * (AAC-LC, mono, 16 kHz, 24 kbps ≈ 180 KB per minute), so no separate
+ * compression pass is needed before encryption.
+ *
+ * CAPABILITIES:
+ * 1. startRecording / stopRecording / cancelRecording: AVAudioRecorder to tmp .m4a
+ *    with metering — stopRecording returns the level samples for the waveform
+ * 2. play / pause / stop / setRate: AVAudioPlayer with time-pitch corrected
+ *    speed control (0.5× – 2×)
+ * 3. transcribe: SFSpeechURLRecognitionRequest, on-device only — the audio
+ *    never leaves the phone
+ *
+ * Events emitted to React Native:
+ * - "voicePlaybackProgress": { uri: String, position: Number, duration: Number }
+ * - "voicePlaybackEnded": { uri: String }
+ *
+ * PRIVACY:
+ * - Transcription requires on-device recognition; unsupported languages
+ *   reject instead of falling back to Apple's servers
+ *
+ * @see src/services/media/mediaService.ts — React Native integration
+ * @see src/components/VoiceMessageBubble.tsx — playback UI
+ */
+
+import Foundation
+import React
+import AVFoundation
+import Speech
+
+// ============================================================
+// MARK: - VoiceMessageModule
+// ============================================================
+
+@objc(VoiceMessageModule)
+class VoiceMessageModule: RCTEventEmitter, AVAudioPlayerDelegate {
+
+    /// Level samples per second while recording (waveform resolution)
+    private static let meterSampleRate: Double = 10
+
+    private var recorder: AVAudioRecorder?
+    private var meterTimer: Timer?
+    private var meterSamples: [Float] = []
+
+    private var player: AVAudioPlayer?
+    private var playerUri: String?
+    private var progressTimer: Timer?
+
+    private var hasListeners = false
+
+    // MARK: - RCTEventEmitter Setup
+
+    override static func requiresMainQueueSetup() -> Bool {
+        return true
+    }
+
+    override func supportedEvents() -> [String]! {
+        return ["voicePlaybackProgress", "voicePlaybackEnded"]
+    }
+
+    override func startObserving() {
+        hasListeners = true
+    }
+
+    override func stopObserving() {
+        hasListeners = false
+    }
+
+    // MARK: - Recording
+
+    /// Start recording a voice message.
+    ///
+    /// - Parameters:
+    ///   - maxDuration: Recording stops by itself after this many seconds
+    ///
+    /// Resolves with the tmp file path once the recorder is running.
+    /// Rejects with PERMISSION_DENIED when microphone access is refused.
+    @objc(startRecording:resolve:reject:)
+    func startRecording(
+        _ maxDuration: NSNumber,
+        resolve: @escaping RCTPromiseResolveBlock,
+        reject: @escaping RCTPromiseRejectBlock
+    ) {
+        AVAudioSession.sharedInstance().requestRecordPermission { granted in
+            DispatchQueue.main.async {
+                guard granted else {
+                    reject("PERMISSION_DENIED", "Microphone permission denied", nil)
+                    return
+                }
+                self.beginRecording(maxDuration: maxDuration.doubleValue, resolve: resolve, reject: reject)
+            }
+        }
+    }
+
+    private func beginRecording(maxDuration: TimeInterval, resolve: RCTPromiseResolveBlock, reject: RCTPromiseRejectBlock) {
+        stopPlayback()
+        recorder?.stop()
+
+        let session = AVAudioSession.sharedInstance()
+        let outputPath = NSTemporaryDirectory() + "voice_\(UUID().uuidString).m4a"
+        let settings: [String: Any] = [
+            AVFormatIDKey: Int(kAudioFormatMPEG4AAC),
+            AVSampleRateKey: 16_000,
+            AVNumberOfChannelsKey: 1,
+            AVEncoderBitRateKey: 24_000,
+            AVEncoderAudioQualityKey: AVAudioQuality.medium.rawValue,
+        ]
+
+        do {
+            try session.setCategory(.playAndRecord, mode: .spokenAudio, options: [.defaultToSpeaker, .allowBluetooth])
+            try session.setActive(true)
+
+            let recorder = try AVAudioRecorder(url: URL(fileURLWithPath: outputPath), settings: settings)
+            recorder.isMeteringEnabled = true
+            guard recorder.record(forDuration: maxDuration) else {
+                reject("RECORD_FAILED", "Recorder did not start", nil)
+                return
+            }
+            self.recorder = recorder
+            meterSamples = []
+
+            meterTimer = Timer.scheduledTimer(withTimeInterval: 1 / Self.meterSampleRate, repeats: true) { [weak self] _ in
+                guard let self = self, let recorder = self.recorder, recorder.isRecording else { return }
+                recorder.updateMeters()
+                self.meterSamples.append(recorder.averagePower(forChannel: 0))
+            }
+
+            resolve(outputPath)
+        } catch {
+            reject("RECORD_FAILED", "Failed to start recording: \(error.localizedDescription)", nil)
+        }
+    }
+
+    /// Stop recording.
+    ///
+    /// Result dictionary:
+    ///   - uri: String — Path to the .m4a file
+    ///   - duration: Number — Duration in seconds
+    ///   - size: Number — File size in bytes
+    ///   - levels: [Number] — Average power in dBFS, `meterSampleRate` per second
+    @objc(stopRecording:reject:)
+    func stopRecording(
+        _ resolve: @escaping RCTPromiseResolveBlock,
+        reject: @escaping RCTPromiseRejectBlock
+    ) {
+        DispatchQueue.main.async {
+            guard let recorder = self.recorder else {
+                reject("NOT_RECORDING", "No recording in progress", nil)
+                return
+            }
+
+            let url = recorder.url
+            recorder.stop()
+            // currentTime resets once the recorder stops by itself at maxDuration
+            let duration = AVURLAsset(url: url).duration.seconds
+            self.finishRecordingSession()
+
+            let size = (try? FileManager.default.attributesOfItem(atPath: url.path)[.size] as? NSNumber)?.intValue ?? 0
+            resolve([
+                "uri": url.path,
+                "duration": duration,
+                "size": size,
+                "levels": self.meterSamples,
+            ])
+            self.meterSamples = []
+        }
+    }
+
+    /// Stop recording and delete the file (finger slid away, too short, …).
+    @objc(cancelRecording:reject:)
+    func cancelRecording(
+        _ resolve: @escaping RCTPromiseResolveBlock,
+        reject: @escaping RCTPromiseRejectBlock
+    ) {
+        DispatchQueue.main.async {
+            if let recorder = self.recorder {
+                recorder.stop()
+                recorder.deleteRecording()
+            }
+            self.finishRecordingSession()
+            self.meterSamples = []
+            resolve(nil)
+        }
+    }
+
+    private func finishRecordingSession() {
+        meterTimer?.invalidate()
+        meterTimer = nil
+        recorder = nil
+        try? AVAudioSession.sharedInstance().setActive(false, options: .notifyOthersOnDeactivation)
+    }
+
+    // MARK: - Playback
+
+    /// Play a voice message from `position` seconds at `rate` speed.
+    /// Starting another message stops the current one.
+    @objc(play:position:rate:resolve:reject:)
+    func play(
+        _ path: String,
+        position: NSNumber,
+        rate: NSNumber,
+        resolve: @escaping RCTPromiseResolveBlock,
+        reject: @escaping RCTPromiseRejectBlock
+    ) {
+        DispatchQueue.main.async {
+            guard FileManager.default.fileExists(atPath: path) else {
+                reject("FILE_NOT_FOUND", "Voice message file does not exist at path", nil)
+                return
+            }
+
+            do {
+                if self.playerUri != path || self.player == nil {
+                    self.stopPlayback()
+                    try AVAudioSession.sharedInstance().setCategory(.playback, mode: .spokenAudio)
+                    try AVAudioSession.sharedInstance().setActive(true)
+
+                    let player = try AVAudioPlayer(contentsOf: URL(fileURLWithPath: path))
+                    player.enableRate = true
+                    player.delegate = self
+                    player.prepareToPlay()
+                    self.player = player
+                    self.playerUri = path
+                }
+
+                guard let player = self.player else { return }
+                player.rate = Self.clampRate(rate.floatValue)
+                player.currentTime = min(position.doubleValue, player.duration)
+                player.play()
+                self.startProgressTimer()
+
+                resolve(["duration": player.duration])
+            } catch {
+                reject("PLAYBACK_FAILED", "Failed to play voice message: \(error.localizedDescription)", nil)
+            }
+        }
+    }
+
+    @objc(pause:reject:)
+    func pause(
+        _ resolve: @escaping RCTPromiseResolveBlock,
+        reject: @escaping RCTPromiseRejectBlock
+    ) {
+        DispatchQueue.main.async {
+            self.player?.pause()
+            self.progressTimer?.invalidate()
+            resolve(["position": self.player?.currentTime ?? 0])
+        }
+    }
+
+    @objc(stop:reject:)
+    func stop(
+        _ resolve: @escaping RCTPromiseResolveBlock,
+        reject: @escaping RCTPromiseRejectBlock
+    ) {
+        DispatchQueue.main.async {
+            self.stopPlayback()
+            resolve(nil)
+        }
+    }
+
+    /// Change speed while playing (seniors often prefer 0.75×).
+    @objc(setRate:resolve:reject:)
+    func setRate(
+        _ rate: NSNumber,
+        resolve: @escaping RCTPromiseResolveBlock,
+        reject: @escaping RCTPromiseRejectBlock
+    ) {
+        DispatchQueue.main.async {
+            self.player?.rate = Self.clampRate(rate.floatValue)
+            resolve(nil)
+        }
+    }
+
+    func audioPlayerDidFinishPlaying(_ player: AVAudioPlayer, successfully flag: Bool) {
+        let uri = playerUri
+        stopPlayback()
+        if hasListeners, let uri = uri {
+            sendEvent(withName: "voicePlaybackEnded", body: ["uri": uri])
+        }
+    }
+
+    private func startProgressTimer() {
+        progressTimer?.invalidate()
+        progressTimer = Timer.scheduledTimer(withTimeInterval: 0.25, repeats: true) { [weak self] _ in
+            guard let self = self, self.hasListeners, let player = self.player, let uri = self.playerUri else { return }
+            self.sendEvent(withName: "voicePlaybackProgress", body: [
+                "uri": uri,
+                "position": player.currentTime,
+                "duration": player.duration,
+            ])
+        }
+    }
+
+    private func stopPlayback() {
+        progressTimer?.invalidate()
+        progressTimer = nil
+        player?.stop()
+        player = nil
+        playerUri = nil
+    }
+
+    private static func clampRate(_ rate: Float) -> Float {
+        return min(max(rate, 0.5), 2.0)
+    }
+
+    // MARK: - Transcription
+
+    /// Transcribe a voice message on-device.
+    ///
+    /// - Parameters:
+    ///   - path: Absolute path to the audio file
+    ///   - language: BCP-47 language tag (e.g. "nl-NL")
+    ///
+    /// Rejects with NOT_AVAILABLE when on-device recognition is unsupported
+    /// for the language — we never send audio to a server.
+    @objc(transcribe:language:resolve:reject:)
+    func transcribe(
+        _ path: String,
+        language: String,
+        resolve: @escaping RCTPromiseResolveBlock,
+        reject: @escaping RCTPromiseRejectBlock
+    ) {
+        SFSpeechRecognizer.requestAuthorization { status in
+            guard status == .authorized else {
+                reject("PERMISSION_DENIED", "Speech recognition permission denied", nil)
+                return
+            }
+
+            guard let recognizer = SFSpeechRecognizer(locale: Locale(identifier: language)),
+                  recognizer.isAvailable,
+                  recognizer.supportsOnDeviceRecognition else {
+                reject("NOT_AVAILABLE", "On-device recognition not available for \(language)", nil)
+                return
+            }
+
+            let request = SFSpeechURLRecognitionRequest(url: URL(fileURLWithPath: path))
+            request.requiresOnDeviceRecognition = true
+            request.shouldReportPartialResults = false
+
+            recognizer.recognitionTask(with: request) { result, error in
+                if let error = error {
+                    reject("TRANSCRIPTION_FAILED", error.localizedDescription, nil)
+                    return
+                }
+                guard let result = result, result.isFinal else { return }
+                resolve(result.bestTranscription.formattedString)
+            }
+        }
+    }
+}
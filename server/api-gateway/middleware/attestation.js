@@ -9,9 +9,10 @@
 //   - Validates app ID and team ID
 //   - Stores attestation for future assertion validation
 //
-// Android: Google Play Integrity (future)
+// Android: Google Play Integrity (see ./playIntegrity.js)
 //   - Verifies Google signed integrity verdict
 //   - Validates package name and verdict levels
+//   - Uses this attestation store for one-time nonces
 //
 // References:
 //   - https://developer.apple.com/documentation/devicecheck
@@ -99,14 +100,32 @@ async function initAttestationStore() {
   }
 }
 
+function isExpired(entry, now) {
+  return now - entry.createdAt > (entry.ttlSeconds || ATTESTATION_TTL_SECONDS) * 1000;
+}
+
 const attestationStore = {
-  async set(keyId, data) {
+  async set(keyId, data, ttlSeconds = ATTESTATION_TTL_SECONDS) {
     const value = JSON.stringify({ ...data, createdAt: Date.now() });
     if (useRedis && redisClient) {
-      await redisClient.set(`attest:${keyId}`, value, 'EX', ATTESTATION_TTL_SECONDS);
+      await redisClient.set(`attest:${keyId}`, value, 'EX', ttlSeconds);
     } else {
-      mapFallback.set(keyId, { value, createdAt: Date.now() });
+      mapFallback.set(keyId, { value, createdAt: Date.now(), ttlSeconds });
+    }
+  },
+
+  /**
+   * Store a key only if it is not there yet (one-time nonces).
+   * Returns false when the key was already used.
+   */
+  async claim(keyId, ttlSeconds) {
+    const value = JSON.stringify({ createdAt: Date.now() });
+    if (useRedis && redisClient) {
+      return (await redisClient.set(`attest:${keyId}`, value, 'EX', ttlSeconds, 'NX')) === 'OK';
     }
+    if (await this.has(keyId)) return false;
+    mapFallback.set(keyId, { value, createdAt: Date.now(), ttlSeconds });
+    return true;
   },
 
   async get(keyId) {
@@ -116,7 +135,7 @@ const attestationStore = {
     } else {
       const entry = mapFallback.get(keyId);
       if (!entry) return null;
-      if (Date.now() - entry.createdAt > ATTESTATION_TTL_SECONDS * 1000) {
+      if (isExpired(entry, Date.now())) {
         mapFallback.delete(keyId);
         return null;
       }
@@ -130,7 +149,7 @@ const attestationStore = {
     } else {
       const entry = mapFallback.get(keyId);
       if (!entry) return false;
-      if (Date.now() - entry.createdAt > ATTESTATION_TTL_SECONDS * 1000) {
+      if (isExpired(entry, Date.now())) {
         mapFallback.delete(keyId);
         return false;
       }
@@ -139,13 +158,14 @@ const attestationStore = {
   },
 };
 
-// Periodic cleanup for Map fallback (Redis handles TTL natively)
+// Periodic cleanup for Map fallback (Redis handles TTL natively).
+// unref: the timer alone must not keep the process (or a test run) alive.
 setInterval(() => {
   if (useRedis) return;
   const now = Date.now();
   let cleaned = 0;
   for (const [key, entry] of mapFallback) {
-    if (now - entry.createdAt > ATTESTATION_TTL_SECONDS * 1000) {
+    if (isExpired(entry, now)) {
       mapFallback.delete(key);
       cleaned++;
     }
@@ -153,7 +173,7 @@ setInterval(() => {
   if (cleaned > 0) {
     console.log(`[attestation] Map cleanup: removed ${cleaned} expired entries`);
   }
-}, MAP_CLEANUP_INTERVAL_MS);
+}, MAP_CLEANUP_INTERVAL_MS).unref();
 
 // Initialize store on load
 initAttestationStore();
@@ -10,9 +10,16 @@
 //   platform:     "ios" | "android"
 //   app_version:  semver string
 //   device_id:    hashed device identifier
+//   trust_level:  "full" | "basic" (basic = Android device that only
+//                 passes basic integrity; short-lived, no refresh token)
+//   fam:          token family (see tokenStore.js); revoked families
+//                 are rejected even before the token expires
+//
+// Refresh tokens additionally carry jti (single-use token id).
 // ============================================================
 
 const jwt = require('jsonwebtoken');
+const { tokenStore } = require('./tokenStore');
 
 const JWT_SECRET = process.env.JWT_SECRET;
 
@@ -38,6 +45,13 @@ function jwtAuth(req, res, next) {
       algorithms: ['HS256'],
     });
 
+    if (decoded.fam && tokenStore.isFamilyRevoked(decoded.fam)) {
+      return res.status(401).json({
+        error: 'TOKEN_REVOKED',
+        message: 'Token has been revoked, attestation required',
+      });
+    }
+
     req.user = decoded;
     next();
   } catch (err) {
@@ -57,33 +71,40 @@ function jwtAuth(req, res, next) {
 
 /**
  * Generate an access token for a verified device.
+ * expiresIn overrides the configured lifetime (degraded devices).
  */
-function generateAccessToken(payload) {
+function generateAccessToken(payload, expiresIn) {
   return jwt.sign(
     {
       sub: payload.userUuid,
       platform: payload.platform,
       app_version: payload.appVersion,
       device_id: payload.deviceId,
+      trust_level: payload.trustLevel || 'full',
+      fam: payload.familyId,
     },
     JWT_SECRET,
     {
       issuer: 'commeazy-gateway',
-      expiresIn: process.env.JWT_ACCESS_TOKEN_EXPIRY || '24h',
+      expiresIn: expiresIn || process.env.JWT_ACCESS_TOKEN_EXPIRY || '24h',
       algorithm: 'HS256',
     },
   );
 }
 
 /**
- * Generate a refresh token (longer-lived).
+ * Generate a refresh token (longer-lived, single use).
+ * tokenId must be registered in the token store (see tokenStore.addRefreshToken).
  */
-function generateRefreshToken(payload) {
+function generateRefreshToken(payload, tokenId) {
   return jwt.sign(
     {
       sub: payload.userUuid,
       type: 'refresh',
+      platform: payload.platform,
       device_id: payload.deviceId,
+      fam: payload.familyId,
+      jti: tokenId,
     },
     JWT_SECRET,
     {
@@ -94,4 +115,15 @@ function generateRefreshToken(payload) {
   );
 }
 
-module.exports = { jwtAuth, generateAccessToken, generateRefreshToken };
+/**
+ * Refresh token lifetime in seconds (for the token store's expires_at).
+ */
+function getRefreshTokenExpiresAt() {
+  const token = jwt.sign({}, JWT_SECRET, {
+    expiresIn: process.env.JWT_REFRESH_TOKEN_EXPIRY || '30d',
+    algorithm: 'HS256',
+  });
+  return jwt.decode(token).exp;
+}
+
+module.exports = { jwtAuth, generateAccessToken, generateRefreshToken, getRefreshTokenExpiresAt };
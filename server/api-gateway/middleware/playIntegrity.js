@@ -0,0 +1,277 @@
+// ============================================================
+// Play Integrity Verification — CommEazy API Gateway
+//
+// Verifies Google Play Integrity tokens (Android) before issuing
+// JWT tokens. Counterpart of verifyAppleAttestation for iOS.
+//
+// Flow:
+//   1. App builds the challenge "<userUuid>:<timestamp>:<installId>".
+//      installId is a random id the app generates once and keeps in the
+//      Keystore; the gateway derives the device id from it (integrity
+//      tokens differ on every request, so they cannot identify a device)
+//   2. App requests an integrity token with
+//      nonce = base64url(SHA-256(challenge))
+//   3. App sends integrityToken + challenge + userUuid + installId
+//   4. Gateway decodes the verdict (Google decodeIntegrityToken API)
+//   5. Gateway checks package name, signing certificate, nonce binding
+//      to userUuid and installId, freshness and one-time use of the nonce
+//   6. Verdict levels decide: reject, degrade ('basic') or accept ('full')
+//
+// Verdict decoding is pluggable (setVerdictDecoder) so tests can run
+// against a local fake instead of Google.
+//
+// Development builds have no Play Store signature. Their "dev-" tokens
+// are only accepted when PLAY_INTEGRITY_ALLOW_DEV_TOKENS=true is set
+// explicitly — never by default, never in production.
+//
+// References:
+//   - https://developer.android.com/google/play/integrity/verdicts
+//   - https://developer.android.com/google/play/integrity/classic
+// ============================================================
+
+const crypto = require('crypto');
+const fs = require('fs');
+const jwt = require('jsonwebtoken');
+const { attestationStore } = require('./attestation');
+
+const GOOGLE_PACKAGE_NAME = process.env.GOOGLE_PACKAGE_NAME || 'com.commeazy.app';
+const PLAY_INTEGRITY_ALLOW_DEV_TOKENS = process.env.PLAY_INTEGRITY_ALLOW_DEV_TOKENS === 'true';
+const GOOGLE_SERVICE_ACCOUNT_FILE = process.env.GOOGLE_SERVICE_ACCOUNT_FILE || '';
+
+// Signing certificate digests (SHA-256), comma separated.
+// Accepts the Play Console notation (AB:CD:…) or base64url.
+const GOOGLE_CERT_SHA256 = (process.env.GOOGLE_CERT_SHA256 || '')
+  .split(',')
+  .map((digest) => digest.trim())
+  .filter(Boolean)
+  .map(normalizeDigest);
+
+// Challenges older than this are rejected; nonces are remembered as long
+const CHALLENGE_MAX_AGE_MS = 10 * 60 * 1000; // 10 minutes
+const NONCE_TTL_SECONDS = CHALLENGE_MAX_AGE_MS / 1000;
+
+if (PLAY_INTEGRITY_ALLOW_DEV_TOKENS) {
+  console.warn('[playIntegrity] PLAY_INTEGRITY_ALLOW_DEV_TOKENS is set — unattested dev- tokens are accepted');
+}
+
+const DECODE_URL = 'https://playintegrity.googleapis.com/v1';
+const OAUTH_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const OAUTH_SCOPE = 'https://www.googleapis.com/auth/playintegrity';
+
+// --- Helpers ---
+
+/**
+ * Certificate digest as unpadded base64url (the form Google returns).
+ */
+function normalizeDigest(digest) {
+  if (/^([0-9a-f]{2}:){31}[0-9a-f]{2}$/i.test(digest) || /^[0-9a-f]{64}$/i.test(digest)) {
+    return Buffer.from(digest.replace(/:/g, ''), 'hex').toString('base64url');
+  }
+  return digest.replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+}
+
+/**
+ * Nonce the app must pass to the Play Integrity API for a challenge.
+ */
+function nonceForChallenge(challenge) {
+  return crypto.createHash('sha256').update(challenge).digest('base64url');
+}
+
+function normalizeNonce(nonce) {
+  return typeof nonce === 'string' ? normalizeDigest(nonce.trim()) : '';
+}
+
+// --- Google verdict decoder (default) ---
+
+let cachedAccessToken = null;
+
+async function getGoogleAccessToken() {
+  if (cachedAccessToken && cachedAccessToken.expiresAt - 60 * 1000 > Date.now()) {
+    return cachedAccessToken.token;
+  }
+  if (!GOOGLE_SERVICE_ACCOUNT_FILE) {
+    throw new Error('GOOGLE_SERVICE_ACCOUNT_FILE is not configured');
+  }
+
+  const serviceAccount = JSON.parse(fs.readFileSync(GOOGLE_SERVICE_ACCOUNT_FILE, 'utf8'));
+  const now = Math.floor(Date.now() / 1000);
+  const assertion = jwt.sign(
+    {
+      iss: serviceAccount.client_email,
+      scope: OAUTH_SCOPE,
+      aud: OAUTH_TOKEN_URL,
+      iat: now,
+      exp: now + 3600,
+    },
+    serviceAccount.private_key,
+    { algorithm: 'RS256' },
+  );
+
+  const response = await fetch(OAUTH_TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+      assertion,
+    }).toString(),
+  });
+  if (!response.ok) {
+    throw new Error(`OAuth token request failed (${response.status})`);
+  }
+
+  const data = await response.json();
+  cachedAccessToken = {
+    token: data.access_token,
+    expiresAt: Date.now() + data.expires_in * 1000,
+  };
+  return cachedAccessToken.token;
+}
+
+/**
+ * Decode an integrity token through Google's decodeIntegrityToken API.
+ * Google decrypts and verifies the token signature for us.
+ *
+ * @returns tokenPayloadExternal (requestDetails, appIntegrity, deviceIntegrity, accountDetails)
+ */
+async function googleVerdictDecoder(integrityToken, packageName) {
+  const accessToken = await getGoogleAccessToken();
+  const response = await fetch(`${DECODE_URL}/${encodeURIComponent(packageName)}:decodeIntegrityToken`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ integrity_token: integrityToken }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`decodeIntegrityToken failed (${response.status})`);
+  }
+
+  const data = await response.json();
+  return data.tokenPayloadExternal;
+}
+
+let decodeVerdict = googleVerdictDecoder;
+
+/**
+ * Replace the verdict decoder, e.g. with a local fake in tests.
+ * The decoder receives (integrityToken, packageName) and resolves to a
+ * tokenPayloadExternal object. Pass null to restore the Google decoder.
+ */
+function setVerdictDecoder(decoder) {
+  decodeVerdict = decoder || googleVerdictDecoder;
+}
+
+// --- Verdict evaluation ---
+
+/**
+ * Check a decoded verdict against the expected app and nonce.
+ *
+ * @returns {{ valid: boolean, trustLevel?: 'full' | 'basic', error?: string }}
+ */
+function evaluateVerdict(payload, expectedNonce, now = Date.now()) {
+  if (!payload || !payload.requestDetails) {
+    return { valid: false, error: 'Invalid verdict format' };
+  }
+
+  const { requestDetails, appIntegrity = {}, deviceIntegrity = {} } = payload;
+
+  // Request must come from our app and be bound to this challenge
+  if (requestDetails.requestPackageName !== GOOGLE_PACKAGE_NAME) {
+    return { valid: false, error: `Unexpected package: ${requestDetails.requestPackageName}` };
+  }
+  if (normalizeNonce(requestDetails.nonce) !== expectedNonce) {
+    return { valid: false, error: 'Nonce mismatch' };
+  }
+  const requestedAt = Number(requestDetails.timestampMillis);
+  if (!requestedAt || Math.abs(now - requestedAt) > CHALLENGE_MAX_AGE_MS) {
+    return { valid: false, error: 'Verdict is too old' };
+  }
+
+  // App binary: must be our package, signed with our key, and known to Play
+  const appVerdict = appIntegrity.appRecognitionVerdict;
+  if (appVerdict === 'UNRECOGNIZED_VERSION') {
+    return { valid: false, error: 'App version not recognized by Google Play' };
+  }
+  if (appVerdict === 'PLAY_RECOGNIZED') {
+    if (appIntegrity.packageName !== GOOGLE_PACKAGE_NAME) {
+      return { valid: false, error: `Unexpected app package: ${appIntegrity.packageName}` };
+    }
+    if (GOOGLE_CERT_SHA256.length === 0) {
+      return { valid: false, error: 'GOOGLE_CERT_SHA256 is not configured' };
+    }
+    const digests = (appIntegrity.certificateSha256Digest || []).map(normalizeDigest);
+    if (!digests.some((digest) => GOOGLE_CERT_SHA256.includes(digest))) {
+      return { valid: false, error: 'Signing certificate mismatch' };
+    }
+  }
+
+  // Device: strong/device integrity is full trust, basic integrity only
+  // (rooted, unlocked bootloader, uncertified) is degraded
+  const deviceVerdicts = deviceIntegrity.deviceRecognitionVerdict || [];
+  const meetsDevice = deviceVerdicts.includes('MEETS_STRONG_INTEGRITY')
+    || deviceVerdicts.includes('MEETS_DEVICE_INTEGRITY');
+  const meetsBasic = deviceVerdicts.includes('MEETS_BASIC_INTEGRITY');
+
+  if (!meetsDevice && !meetsBasic) {
+    return { valid: false, error: 'Device integrity check failed' };
+  }
+
+  // Play could not evaluate the app (e.g. Play Store outdated): degrade
+  const trustLevel = meetsDevice && appVerdict === 'PLAY_RECOGNIZED' ? 'full' : 'basic';
+  return { valid: true, trustLevel };
+}
+
+/**
+ * Verify an Android Play Integrity token for a user.
+ *
+ * @param integrityToken - Token from IntegrityManager.requestIntegrityToken
+ * @param challenge - "<userUuid>:<timestamp>:<installId>", hashed into the nonce by the app
+ * @param userUuid - User the tokens will be issued to
+ * @param installId - Stable per-install id the device id is derived from
+ * @returns {{ valid: boolean, trustLevel?: 'full' | 'basic', error?: string }}
+ */
+async function verifyPlayIntegrity(integrityToken, challenge, userUuid, installId) {
+  try {
+    // Development builds have no Play Store signature (explicit opt-in only)
+    if (PLAY_INTEGRITY_ALLOW_DEV_TOKENS && integrityToken.startsWith('dev-')) {
+      return { valid: true, trustLevel: 'full' };
+    }
+
+    const [challengeUser, challengeTime, challengeInstall, ...rest] = String(challenge).split(':');
+    if (challengeUser !== userUuid || rest.length > 0) {
+      return { valid: false, error: 'Challenge is not bound to userUuid' };
+    }
+    if (!installId || challengeInstall !== installId) {
+      return { valid: false, error: 'Challenge is not bound to installId' };
+    }
+    const issuedAt = Number(challengeTime);
+    if (!issuedAt || Math.abs(Date.now() - issuedAt) > CHALLENGE_MAX_AGE_MS) {
+      return { valid: false, error: 'Challenge expired' };
+    }
+
+    const expectedNonce = nonceForChallenge(challenge);
+    const payload = await decodeVerdict(integrityToken, GOOGLE_PACKAGE_NAME);
+    const result = evaluateVerdict(payload, expectedNonce);
+    if (!result.valid) {
+      return result;
+    }
+
+    // Each nonce can be used once (replay protection)
+    if (!(await attestationStore.claim(`nonce:${expectedNonce}`, NONCE_TTL_SECONDS))) {
+      return { valid: false, error: 'Nonce already used' };
+    }
+
+    return result;
+  } catch (err) {
+    return { valid: false, error: `Play Integrity verification failed: ${err.message}` };
+  }
+}
+
+module.exports = {
+  verifyPlayIntegrity,
+  evaluateVerdict,
+  nonceForChallenge,
+  setVerdictDecoder,
+};
@@ -0,0 +1,263 @@
+// ============================================================
+// Refresh Token Store — CommEazy API Gateway
+//
+// SQLite bookkeeping for rotating refresh tokens (same better-sqlite3
+// setup as the invitation relay).
+//
+// Every attestation starts a token "family". Each refresh exchanges
+// the presented refresh token for a new one in the same family; the
+// old token is marked rotated. Presenting a rotated token again means
+// it was copied (stolen phone, leaked backup): the whole family is
+// revoked and the device has to attest again.
+//
+// Revoking a device revokes all of its families. Access tokens carry
+// the family id (fam), so jwtAuth rejects them right away as well.
+//
+// A family is kept until its last refresh token AND its last access
+// token have expired (degraded families only have access tokens), and
+// revoked families for REVOKED_RETENTION_SECONDS. A family that is gone
+// is therefore not revoked: all of its tokens have expired anyway.
+//
+// Stores only token ids, hashed device ids and user UUIDs — never the
+// tokens themselves.
+// ============================================================
+
+const crypto = require('crypto');
+const path = require('path');
+const Database = require('better-sqlite3');
+
+const TOKEN_DB_PATH = process.env.TOKEN_DB_PATH || path.join(__dirname, '..', 'tokens.db');
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+// Revoked families are kept a while so reuse keeps being reported
+const REVOKED_RETENTION_SECONDS = 60 * 24 * 60 * 60; // 60 days
+
+// --- Database Setup ---
+const db = new Database(TOKEN_DB_PATH);
+db.pragma('journal_mode = WAL');
+db.pragma('foreign_keys = ON');
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS token_families (
+    family_id TEXT PRIMARY KEY,
+    user_uuid TEXT NOT NULL,
+    device_id TEXT NOT NULL,
+    platform TEXT NOT NULL,
+    created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+    last_used_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+    access_expires_at INTEGER NOT NULL DEFAULT 0,
+    revoked_at INTEGER,
+    revoked_reason TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS refresh_tokens (
+    token_id TEXT PRIMARY KEY,
+    family_id TEXT NOT NULL REFERENCES token_families(family_id) ON DELETE CASCADE,
+    expires_at INTEGER NOT NULL,
+    rotated_at INTEGER
+  );
+
+  CREATE TABLE IF NOT EXISTS revoked_devices (
+    user_uuid TEXT NOT NULL,
+    device_id TEXT NOT NULL,
+    revoked_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+    PRIMARY KEY (user_uuid, device_id)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_families_user ON token_families(user_uuid, device_id);
+  CREATE INDEX IF NOT EXISTS idx_refresh_family ON refresh_tokens(family_id);
+  CREATE INDEX IF NOT EXISTS idx_refresh_expires ON refresh_tokens(expires_at);
+`);
+
+// Prepared statements
+const stmts = {
+  insertFamily: db.prepare(`
+    INSERT INTO token_families (family_id, user_uuid, device_id, platform)
+    VALUES (?, ?, ?, ?)
+  `),
+  getFamily: db.prepare(`
+    SELECT family_id, user_uuid, device_id, platform, revoked_at
+    FROM token_families WHERE family_id = ?
+  `),
+  touchFamily: db.prepare(`
+    UPDATE token_families SET last_used_at = strftime('%s', 'now') WHERE family_id = ?
+  `),
+  extendAccess: db.prepare(`
+    UPDATE token_families SET access_expires_at = MAX(access_expires_at, ?) WHERE family_id = ?
+  `),
+  revokeFamily: db.prepare(`
+    UPDATE token_families SET revoked_at = strftime('%s', 'now'), revoked_reason = ?
+    WHERE family_id = ? AND revoked_at IS NULL
+  `),
+  revokeDeviceFamilies: db.prepare(`
+    UPDATE token_families SET revoked_at = strftime('%s', 'now'), revoked_reason = ?
+    WHERE user_uuid = ? AND device_id = ? AND revoked_at IS NULL
+  `),
+  insertRevokedDevice: db.prepare(`
+    INSERT OR IGNORE INTO revoked_devices (user_uuid, device_id) VALUES (?, ?)
+  `),
+  getRevokedDevice: db.prepare(`
+    SELECT revoked_at FROM revoked_devices WHERE user_uuid = ? AND device_id = ?
+  `),
+  listDevices: db.prepare(`
+    SELECT device_id, platform, MIN(created_at) AS created_at, MAX(last_used_at) AS last_used_at
+    FROM token_families
+    WHERE user_uuid = ? AND revoked_at IS NULL
+    GROUP BY device_id, platform
+    ORDER BY last_used_at DESC
+  `),
+  insertToken: db.prepare(`
+    INSERT INTO refresh_tokens (token_id, family_id, expires_at) VALUES (?, ?, ?)
+  `),
+  getToken: db.prepare(`
+    SELECT token_id, family_id, expires_at, rotated_at FROM refresh_tokens WHERE token_id = ?
+  `),
+  markRotated: db.prepare(`
+    UPDATE refresh_tokens SET rotated_at = strftime('%s', 'now')
+    WHERE token_id = ? AND rotated_at IS NULL
+  `),
+  cleanupTokens: db.prepare(`
+    DELETE FROM refresh_tokens WHERE expires_at <= strftime('%s', 'now')
+  `),
+  cleanupFamilies: db.prepare(`
+    DELETE FROM token_families
+    WHERE NOT EXISTS (SELECT 1 FROM refresh_tokens WHERE refresh_tokens.family_id = token_families.family_id)
+      AND access_expires_at <= strftime('%s', 'now')
+      AND (revoked_at IS NULL OR revoked_at <= strftime('%s', 'now') - ?)
+  `),
+};
+
+function newId() {
+  return crypto.randomBytes(16).toString('hex');
+}
+
+// --- Rotation (one transaction, so two racing refreshes cannot both win) ---
+
+const rotateTransaction = db.transaction((tokenId, newTokenId, newExpiresAt) => {
+  const token = stmts.getToken.get(tokenId);
+  if (!token) {
+    return { status: 'unknown' };
+  }
+
+  const family = stmts.getFamily.get(token.family_id);
+  if (!family || family.revoked_at) {
+    return { status: 'revoked' };
+  }
+
+  if (token.rotated_at || stmts.markRotated.run(tokenId).changes === 0) {
+    // Already exchanged once: someone else holds a copy
+    stmts.revokeFamily.run('reuse', token.family_id);
+    return { status: 'reused', family };
+  }
+
+  stmts.insertToken.run(newTokenId, token.family_id, newExpiresAt);
+  stmts.touchFamily.run(token.family_id);
+  return { status: 'rotated', family };
+});
+
+const revokeDeviceTransaction = db.transaction((userUuid, deviceId, reason) => {
+  const result = stmts.revokeDeviceFamilies.run(reason, userUuid, deviceId);
+  if (result.changes > 0) {
+    stmts.insertRevokedDevice.run(userUuid, deviceId);
+  }
+  return result.changes;
+});
+
+const tokenStore = {
+  /**
+   * Start a token family after a successful attestation.
+   * @returns family id
+   */
+  createFamily({ userUuid, deviceId, platform }) {
+    const familyId = newId();
+    stmts.insertFamily.run(familyId, userUuid, deviceId, platform);
+    return familyId;
+  },
+
+  /**
+   * Register a newly issued refresh token.
+   * @returns token id (jti claim)
+   */
+  addRefreshToken(familyId, expiresAt) {
+    const tokenId = newId();
+    stmts.insertToken.run(tokenId, familyId, expiresAt);
+    return tokenId;
+  },
+
+  /**
+   * Remember the expiry (unix seconds) of an access token issued to a
+   * family, so cleanup keeps the family while the token is valid.
+   */
+  recordAccessToken(familyId, expiresAt) {
+    stmts.extendAccess.run(expiresAt, familyId);
+  },
+
+  /**
+   * Exchange a refresh token for a new one in the same family.
+   *
+   * @returns {{ status: 'rotated' | 'reused' | 'revoked' | 'unknown', family?, tokenId? }}
+   */
+  rotate(tokenId, newExpiresAt) {
+    const newTokenId = newId();
+    const result = rotateTransaction(tokenId, newTokenId, newExpiresAt);
+    return result.status === 'rotated' ? { ...result, tokenId: newTokenId } : result;
+  },
+
+  /**
+   * True only for a family that was revoked. Unknown families are not:
+   * cleanup removes a family only after its tokens have expired.
+   */
+  isFamilyRevoked(familyId) {
+    const family = stmts.getFamily.get(familyId);
+    return family !== undefined && family.revoked_at !== null;
+  },
+
+  /**
+   * Revoke every token family of a device and block it from attesting
+   * again under the same user.
+   * @returns number of revoked families (0 = unknown or already revoked device)
+   */
+  revokeDevice(userUuid, deviceId, reason = 'user') {
+    return revokeDeviceTransaction(userUuid, deviceId, reason);
+  },
+
+  isDeviceRevoked(userUuid, deviceId) {
+    return stmts.getRevokedDevice.get(userUuid, deviceId) !== undefined;
+  },
+
+  /**
+   * Devices with a live token family for a user, most recently used first.
+   */
+  listDevices(userUuid) {
+    return stmts.listDevices.all(userUuid).map((row) => ({
+      deviceId: row.device_id,
+      platform: row.platform,
+      createdAt: new Date(row.created_at * 1000).toISOString(),
+      lastUsedAt: new Date(row.last_used_at * 1000).toISOString(),
+    }));
+  },
+
+  cleanup() {
+    const tokens = stmts.cleanupTokens.run().changes;
+    const families = stmts.cleanupFamilies.run(REVOKED_RETENTION_SECONDS).changes;
+    return { tokens, families };
+  },
+
+  close() {
+    db.close();
+  },
+};
+
+// Periodic cleanup of expired tokens and finished families
+// (unref: the timer alone must not keep the process alive)
+setInterval(() => {
+  try {
+    const { tokens, families } = tokenStore.cleanup();
+    if (tokens > 0 || families > 0) {
+      console.log(`[tokenStore] Cleanup: removed ${tokens} expired tokens, ${families} families`);
+    }
+  } catch (err) {
+    console.error('[tokenStore] Cleanup failed:', err.message);
+  }
+}, CLEANUP_INTERVAL_MS).unref();
+
+module.exports = { tokenStore };
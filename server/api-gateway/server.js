@@ -20,10 +20,13 @@ require('dotenv').config();
 
 const express = require('express');
 const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
 const { createProxyMiddleware } = require('http-proxy-middleware');
-const { jwtAuth, generateAccessToken, generateRefreshToken } = require('./middleware/jwtAuth');
+const { jwtAuth, generateAccessToken, generateRefreshToken, getRefreshTokenExpiresAt } = require('./middleware/jwtAuth');
 const { apiRateLimiter } = require('./middleware/rateLimit');
-const { verifyAppleAttestation, verifyAppleAssertion, hasAttestation } = require('./middleware/attestation');
+const { verifyAppleAttestation, verifyAppleAssertion, hasAttestation, attestationStore } = require('./middleware/attestation');
+const { verifyPlayIntegrity } = require('./middleware/playIntegrity');
+const { tokenStore } = require('./middleware/tokenStore');
 
 // --- Configuration ---
 const PORT = parseInt(process.env.PORT || '8443', 10);
@@ -34,6 +37,13 @@ const PUSH_GATEWAY_URL = process.env.PUSH_GATEWAY_URL || 'http://127.0.0.1:5282'
 const INVITATION_RELAY_URL = process.env.INVITATION_RELAY_URL || 'http://127.0.0.1:5283';
 const PROSODY_HTTP_URL = process.env.PROSODY_HTTP_URL || 'http://127.0.0.1:5280';
 
+// Devices that only pass basic integrity get a short-lived access token
+// and no refresh token, so they re-attest every hour
+const DEGRADED_ACCESS_TOKEN_EXPIRY = '1h';
+
+// Android install ids: random, generated once by the app (UUID or hex)
+const INSTALL_ID_PATTERN = /^[0-9a-f-]{16,64}$/i;
+
 // --- Logger ---
 const LOG_LEVELS = { debug: 0, info: 1, warn: 2, error: 3 };
 const log = {
@@ -53,8 +63,11 @@ if (!process.env.JWT_SECRET) {
 const metrics = {
   attestations: 0,
   attestationsFailed: 0,
+  attestationsDegraded: 0,
   tokensIssued: 0,
   tokensRefreshed: 0,
+  refreshReuseDetected: 0,
+  devicesRevoked: 0,
   requestsProxied: 0,
   startTime: Date.now(),
 };
@@ -85,10 +98,15 @@ app.get('/metrics', (req, res) => {
     `# TYPE gateway_attestations_total counter`,
     `gateway_attestations_total ${metrics.attestations}`,
     `gateway_attestations_failed_total ${metrics.attestationsFailed}`,
+    `gateway_attestations_degraded_total ${metrics.attestationsDegraded}`,
     `# HELP gateway_tokens_issued_total Total tokens issued`,
     `# TYPE gateway_tokens_issued_total counter`,
     `gateway_tokens_issued_total ${metrics.tokensIssued}`,
     `gateway_tokens_refreshed_total ${metrics.tokensRefreshed}`,
+    `# HELP gateway_refresh_reuse_total Rotated refresh tokens presented again (family revoked)`,
+    `# TYPE gateway_refresh_reuse_total counter`,
+    `gateway_refresh_reuse_total ${metrics.refreshReuseDetected}`,
+    `gateway_devices_revoked_total ${metrics.devicesRevoked}`,
     `# HELP gateway_requests_proxied_total Total requests proxied`,
     `# TYPE gateway_requests_proxied_total counter`,
     `gateway_requests_proxied_total ${metrics.requestsProxied}`,
@@ -98,6 +116,60 @@ app.get('/metrics', (req, res) => {
   ].join('\n') + '\n');
 });
 
+// ============================================================
+// Token Issuance
+// ============================================================
+
+/**
+ * Sign an access token and record its expiry on the family, so the
+ * family is kept (and stays revocable) until the token has expired.
+ */
+function issueAccessToken(payload, expiresIn) {
+  const accessToken = generateAccessToken(payload, expiresIn);
+  tokenStore.recordAccessToken(payload.familyId, jwt.decode(accessToken).exp);
+  return accessToken;
+}
+
+/**
+ * Start a token family for an attested device and issue its tokens.
+ * Degraded devices get a short-lived access token and no refresh token.
+ */
+function issueTokens(tokenPayload) {
+  const familyId = tokenStore.createFamily(tokenPayload);
+  const payload = { ...tokenPayload, familyId };
+  metrics.tokensIssued++;
+
+  if (payload.trustLevel !== 'full') {
+    return {
+      accessToken: issueAccessToken(payload, DEGRADED_ACCESS_TOKEN_EXPIRY),
+      expiresIn: 3600,
+      trustLevel: payload.trustLevel,
+    };
+  }
+
+  const tokenId = tokenStore.addRefreshToken(familyId, getRefreshTokenExpiresAt());
+  return {
+    accessToken: issueAccessToken(payload),
+    refreshToken: generateRefreshToken(payload, tokenId),
+    expiresIn: 86400, // 24h in seconds
+    trustLevel: payload.trustLevel,
+  };
+}
+
+/**
+ * Reject attestation for devices the user has revoked (stolen phone).
+ */
+function rejectRevokedDevice(res, userUuid, deviceId) {
+  if (!tokenStore.isDeviceRevoked(userUuid, deviceId)) return false;
+  metrics.attestationsFailed++;
+  log.warn('Attestation from revoked device', { device: deviceId });
+  res.status(403).json({
+    error: 'DEVICE_REVOKED',
+    message: 'This device has been signed out by the user',
+  });
+  return true;
+}
+
 // ============================================================
 // Attestation Endpoints (unauthenticated — these issue tokens)
 // ============================================================
@@ -137,72 +209,91 @@ app.post('/api/v1/attest/ios', async (req, res) => {
 
   // Hash device identifier (keyId is device-specific)
   const deviceId = crypto.createHash('sha256').update(keyId).digest('hex').slice(0, 16);
+  if (rejectRevokedDevice(res, userUuid, deviceId)) return;
 
   // Issue tokens
-  const tokenPayload = {
+  const tokens = issueTokens({
     userUuid,
     platform: 'ios',
     appVersion: appVersion || '1.0.0',
     deviceId,
-  };
-
-  const accessToken = generateAccessToken(tokenPayload);
-  const refreshToken = generateRefreshToken(tokenPayload);
+    trustLevel: 'full',
+  });
 
-  metrics.tokensIssued++;
   log.info('iOS attestation successful, tokens issued', { device: deviceId });
-
-  res.json({
-    accessToken,
-    refreshToken,
-    expiresIn: 86400, // 24h in seconds
-  });
+  res.json(tokens);
 });
 
 /**
  * POST /api/v1/attest/android
  *
- * Android Play Integrity flow (placeholder — Android development pending).
+ * Android Play Integrity flow:
+ * 1. Client builds challenge "<userUuid>:<timestamp>:<installId>"
+ * 2. Client requests an integrity token with nonce = base64url(SHA-256(challenge))
+ * 3. Client sends integrityToken + challenge + installId to this endpoint
+ * 4. Server decodes the verdict and checks package, certificate and nonce
+ * 5. Full integrity: JWT access + refresh tokens
+ *    Basic integrity only: short-lived access token, no refresh token
+ *
+ * The device id is derived from installId (stable for the install, bound
+ * into the nonce), so a revoked device stays revoked when it attests again.
  */
 app.post('/api/v1/attest/android', async (req, res) => {
   metrics.attestations++;
-  const { integrityToken, userUuid, appVersion } = req.body;
+  const { integrityToken, challenge, userUuid, installId, appVersion } = req.body;
 
-  if (!integrityToken || !userUuid) {
+  if (!integrityToken || !challenge || !userUuid || !installId) {
     return res.status(400).json({
       error: 'MISSING_FIELDS',
-      message: 'integrityToken and userUuid are required',
+      message: 'integrityToken, challenge, userUuid, and installId are required',
+    });
+  }
+  if (typeof installId !== 'string' || !INSTALL_ID_PATTERN.test(installId)) {
+    return res.status(400).json({
+      error: 'INVALID_INSTALL_ID',
+      message: 'installId must be 16-64 hex characters',
+    });
+  }
+
+  const result = await verifyPlayIntegrity(integrityToken, challenge, userUuid, installId);
+
+  if (!result.valid) {
+    metrics.attestationsFailed++;
+    log.warn('Android attestation failed', { error: result.error });
+    return res.status(403).json({
+      error: 'ATTESTATION_FAILED',
+      message: result.error,
     });
   }
 
-  // TODO: Verify Google Play Integrity token
-  // For now, accept in development mode
-  const deviceId = crypto.createHash('sha256').update(integrityToken).digest('hex').slice(0, 16);
+  const deviceId = crypto.createHash('sha256').update(installId).digest('hex').slice(0, 16);
+  if (rejectRevokedDevice(res, userUuid, deviceId)) return;
+  await attestationStore.set(`android:${deviceId}`, { userUuid, trustLevel: result.trustLevel });
 
-  const tokenPayload = {
+  const tokens = issueTokens({
     userUuid,
     platform: 'android',
     appVersion: appVersion || '1.0.0',
     deviceId,
-  };
-
-  const accessToken = generateAccessToken(tokenPayload);
-  const refreshToken = generateRefreshToken(tokenPayload);
+    trustLevel: result.trustLevel,
+  });
 
-  metrics.tokensIssued++;
-  log.info('Android attestation (dev mode), tokens issued', { device: deviceId });
+  if (result.trustLevel !== 'full') {
+    metrics.attestationsDegraded++;
+    log.info('Android attestation degraded (basic integrity), short-lived token issued', { device: deviceId });
+  } else {
+    log.info('Android attestation successful, tokens issued', { device: deviceId });
+  }
 
-  res.json({
-    accessToken,
-    refreshToken,
-    expiresIn: 86400,
-  });
+  res.json(tokens);
 });
 
 /**
  * POST /api/v1/token/refresh
  *
- * Exchange a valid refresh token for a new access token.
+ * Exchange a refresh token for a new access token AND a new refresh token.
+ * Each refresh token works once; presenting a rotated one again revokes
+ * the whole token family (the device must attest again).
  */
 app.post('/api/v1/token/refresh', (req, res) => {
   const { refreshToken } = req.body;
@@ -214,38 +305,113 @@ app.post('/api/v1/token/refresh', (req, res) => {
     });
   }
 
-  const jwt = require('jsonwebtoken');
+  let decoded;
   try {
-    const decoded = jwt.verify(refreshToken, process.env.JWT_SECRET, {
+    decoded = jwt.verify(refreshToken, process.env.JWT_SECRET, {
       issuer: 'commeazy-gateway',
       algorithms: ['HS256'],
     });
+  } catch (err) {
+    return res.status(401).json({
+      error: 'INVALID_REFRESH_TOKEN',
+      message: 'Refresh token is invalid or expired',
+    });
+  }
 
-    if (decoded.type !== 'refresh') {
-      return res.status(400).json({
-        error: 'INVALID_TOKEN_TYPE',
-        message: 'Expected refresh token',
-      });
-    }
-
-    const accessToken = generateAccessToken({
-      userUuid: decoded.sub,
-      platform: decoded.platform || 'ios',
-      appVersion: '1.0.0',
-      deviceId: decoded.device_id,
+  if (decoded.type !== 'refresh') {
+    return res.status(400).json({
+      error: 'INVALID_TOKEN_TYPE',
+      message: 'Expected refresh token',
     });
+  }
 
-    metrics.tokensRefreshed++;
-    res.json({
-      accessToken,
-      expiresIn: 86400,
+  // Tokens from before rotation have no jti and cannot be tracked
+  if (!decoded.jti) {
+    return res.status(401).json({
+      error: 'INVALID_REFRESH_TOKEN',
+      message: 'Refresh token is invalid or expired',
     });
-  } catch (err) {
+  }
+
+  const rotation = tokenStore.rotate(decoded.jti, getRefreshTokenExpiresAt());
+
+  if (rotation.status === 'reused') {
+    metrics.refreshReuseDetected++;
+    log.warn('Refresh token reuse detected, token family revoked', { device: decoded.device_id });
+    return res.status(401).json({
+      error: 'REFRESH_TOKEN_REUSED',
+      message: 'Refresh token was already used, attestation required',
+    });
+  }
+  if (rotation.status === 'revoked') {
+    return res.status(401).json({
+      error: 'TOKEN_REVOKED',
+      message: 'Token has been revoked, attestation required',
+    });
+  }
+  if (rotation.status !== 'rotated') {
     return res.status(401).json({
       error: 'INVALID_REFRESH_TOKEN',
       message: 'Refresh token is invalid or expired',
     });
   }
+
+  const payload = {
+    userUuid: decoded.sub,
+    platform: rotation.family.platform,
+    appVersion: '1.0.0',
+    deviceId: rotation.family.device_id,
+    // Refresh tokens are only issued to fully trusted devices
+    trustLevel: 'full',
+    familyId: rotation.family.family_id,
+  };
+
+  metrics.tokensRefreshed++;
+  res.json({
+    accessToken: issueAccessToken(payload),
+    refreshToken: generateRefreshToken(payload, rotation.tokenId),
+    expiresIn: 86400,
+  });
+});
+
+// ============================================================
+// Device Management (authenticated via JWT)
+// ============================================================
+
+/**
+ * GET /api/v1/devices
+ *
+ * Devices of the current user that hold tokens.
+ */
+app.get('/api/v1/devices', jwtAuth, (req, res) => {
+  const devices = tokenStore.listDevices(req.user.sub).map((device) => ({
+    ...device,
+    current: device.deviceId === req.user.device_id,
+  }));
+  res.json({ devices });
+});
+
+/**
+ * POST /api/v1/devices/:deviceId/revoke
+ *
+ * Sign out one of the user's devices (e.g. a stolen phone). All its
+ * tokens stop working immediately and the device cannot attest again
+ * for this user.
+ */
+app.post('/api/v1/devices/:deviceId/revoke', jwtAuth, (req, res) => {
+  const { deviceId } = req.params;
+
+  const revoked = tokenStore.revokeDevice(req.user.sub, deviceId);
+  if (revoked === 0) {
+    return res.status(404).json({
+      error: 'DEVICE_NOT_FOUND',
+      message: 'No active device with this id',
+    });
+  }
+
+  metrics.devicesRevoked++;
+  log.info('Device revoked', { device: deviceId, families: revoked });
+  res.json({ revoked: true });
 });
 
 // ============================================================
@@ -333,10 +499,28 @@ app.use((req, res) => {
 // Start Server
 // ============================================================
 
-app.listen(PORT, HOST, () => {
-  log.info(`API Gateway listening on ${HOST}:${PORT}`);
-  log.info(`Proxying to:`);
-  log.info(`  Invitation Relay: ${INVITATION_RELAY_URL}`);
-  log.info(`  Push Gateway:     ${PUSH_GATEWAY_URL}`);
-  log.info(`  Prosody HTTP:     ${PROSODY_HTTP_URL}`);
-});
+// Tests load the app without listening (see test/)
+if (require.main === module) {
+  app.listen(PORT, HOST, () => {
+    log.info(`API Gateway listening on ${HOST}:${PORT}`);
+    log.info(`Proxying to:`);
+    log.info(`  Invitation Relay: ${INVITATION_RELAY_URL}`);
+    log.info(`  Push Gateway:     ${PUSH_GATEWAY_URL}`);
+    log.info(`  Prosody HTTP:     ${PROSODY_HTTP_URL}`);
+  });
+
+  // Graceful shutdown
+  process.on('SIGINT', () => {
+    log.info('Shutting down...');
+    tokenStore.close();
+    process.exit(0);
+  });
+
+  process.on('SIGTERM', () => {
+    log.info('Shutting down...');
+    tokenStore.close();
+    process.exit(0);
+  });
+}
+
+module.exports = { app };
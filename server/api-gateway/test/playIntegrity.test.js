@@ -0,0 +1,182 @@
+// ============================================================
+// Play Integrity Tests — CommEazy API Gateway
+//
+// Runs verifyPlayIntegrity against a local fake verdict decoder
+// (setVerdictDecoder), so no Google credentials are needed:
+//   - wrong package / signing certificate
+//   - nonce mismatch, challenge bound to another user or install
+//   - stale challenge and stale verdict
+//   - nonce replay
+//   - degrading to basic trust
+//   - dev- tokens refused unless explicitly enabled
+// ============================================================
+
+const { describe, it, beforeEach, after } = require('node:test');
+const assert = require('node:assert/strict');
+const crypto = require('crypto');
+
+const PACKAGE_NAME = 'com.commeazy.app';
+const CERT_SHA256 = crypto.createHash('sha256').update('commeazy-signing-cert').digest('hex');
+
+process.env.GOOGLE_PACKAGE_NAME = PACKAGE_NAME;
+process.env.GOOGLE_CERT_SHA256 = CERT_SHA256;
+delete process.env.PLAY_INTEGRITY_ALLOW_DEV_TOKENS;
+
+const { verifyPlayIntegrity, nonceForChallenge, setVerdictDecoder } = require('../middleware/playIntegrity');
+
+const USER_UUID = '9b2f4c1e-5a7d-4e3b-8c6f-0d1e2f3a4b5c';
+const INSTALL_ID = '3f6b0c9d2e4a4f1b8c7d5e6f7a8b9c0d';
+
+// --- Fake decoder: integrity token → verdict ---
+
+const verdicts = new Map();
+
+// Each test needs its own nonce: challenges one millisecond apart
+const START = Date.now();
+let challengeCount = 0;
+
+function newChallenge(issuedAt = START - challengeCount++) {
+  return `${USER_UUID}:${issuedAt}:${INSTALL_ID}`;
+}
+
+/**
+ * Register a verdict for a fresh integrity token and return the token.
+ */
+function fakeToken(challenge, overrides = {}) {
+  const token = `token-${crypto.randomBytes(8).toString('hex')}`;
+  verdicts.set(token, {
+    requestDetails: {
+      requestPackageName: PACKAGE_NAME,
+      nonce: nonceForChallenge(challenge),
+      timestampMillis: String(Date.now()),
+      ...overrides.requestDetails,
+    },
+    appIntegrity: {
+      appRecognitionVerdict: 'PLAY_RECOGNIZED',
+      packageName: PACKAGE_NAME,
+      certificateSha256Digest: [Buffer.from(CERT_SHA256, 'hex').toString('base64url')],
+      ...overrides.appIntegrity,
+    },
+    deviceIntegrity: {
+      deviceRecognitionVerdict: ['MEETS_DEVICE_INTEGRITY'],
+      ...overrides.deviceIntegrity,
+    },
+  });
+  return token;
+}
+
+describe('verifyPlayIntegrity', () => {
+  beforeEach(() => {
+    setVerdictDecoder(async (token, packageName) => {
+      assert.equal(packageName, PACKAGE_NAME);
+      return verdicts.get(token);
+    });
+  });
+
+  after(() => {
+    setVerdictDecoder(null);
+  });
+
+  it('accepts a genuine app on a certified device', async () => {
+    const challenge = newChallenge();
+    const result = await verifyPlayIntegrity(fakeToken(challenge), challenge, USER_UUID, INSTALL_ID);
+    assert.deepEqual(result, { valid: true, trustLevel: 'full' });
+  });
+
+  it('rejects a request from another package', async () => {
+    const challenge = newChallenge();
+    const token = fakeToken(challenge, { requestDetails: { requestPackageName: 'com.example.clone' } });
+    const result = await verifyPlayIntegrity(token, challenge, USER_UUID, INSTALL_ID);
+    assert.equal(result.valid, false);
+    assert.match(result.error, /Unexpected package/);
+  });
+
+  it('rejects an app signed with another certificate', async () => {
+    const challenge = newChallenge();
+    const token = fakeToken(challenge, {
+      appIntegrity: { certificateSha256Digest: [crypto.randomBytes(32).toString('base64url')] },
+    });
+    const result = await verifyPlayIntegrity(token, challenge, USER_UUID, INSTALL_ID);
+    assert.equal(result.valid, false);
+    assert.match(result.error, /certificate mismatch/);
+  });
+
+  it('rejects a verdict for another challenge', async () => {
+    const challenge = newChallenge();
+    const token = fakeToken(newChallenge());
+    const result = await verifyPlayIntegrity(token, challenge, USER_UUID, INSTALL_ID);
+    assert.equal(result.valid, false);
+    assert.match(result.error, /Nonce mismatch/);
+  });
+
+  it('rejects a challenge bound to another user', async () => {
+    const challenge = `00000000-0000-4000-8000-000000000000:${Date.now()}:${INSTALL_ID}`;
+    const result = await verifyPlayIntegrity(fakeToken(challenge), challenge, USER_UUID, INSTALL_ID);
+    assert.equal(result.valid, false);
+    assert.match(result.error, /not bound to userUuid/);
+  });
+
+  it('rejects a challenge bound to another install', async () => {
+    const challenge = newChallenge();
+    const otherInstall = 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+    const result = await verifyPlayIntegrity(fakeToken(challenge), challenge, USER_UUID, otherInstall);
+    assert.equal(result.valid, false);
+    assert.match(result.error, /not bound to installId/);
+  });
+
+  it('rejects a stale challenge and a stale verdict', async () => {
+    const oldChallenge = newChallenge(Date.now() - 11 * 60 * 1000);
+    const stale = await verifyPlayIntegrity(fakeToken(oldChallenge), oldChallenge, USER_UUID, INSTALL_ID);
+    assert.equal(stale.valid, false);
+    assert.match(stale.error, /Challenge expired/);
+
+    const challenge = newChallenge();
+    const token = fakeToken(challenge, {
+      requestDetails: { timestampMillis: String(Date.now() - 11 * 60 * 1000) },
+    });
+    const oldVerdict = await verifyPlayIntegrity(token, challenge, USER_UUID, INSTALL_ID);
+    assert.equal(oldVerdict.valid, false);
+    assert.match(oldVerdict.error, /too old/);
+  });
+
+  it('accepts each nonce only once', async () => {
+    const challenge = newChallenge();
+    const first = await verifyPlayIntegrity(fakeToken(challenge), challenge, USER_UUID, INSTALL_ID);
+    assert.equal(first.valid, true);
+
+    // Same challenge, new integrity token: the nonce is already spent
+    const replay = await verifyPlayIntegrity(fakeToken(challenge), challenge, USER_UUID, INSTALL_ID);
+    assert.equal(replay.valid, false);
+    assert.match(replay.error, /Nonce already used/);
+  });
+
+  it('degrades a device that only meets basic integrity', async () => {
+    const challenge = newChallenge();
+    const token = fakeToken(challenge, {
+      deviceIntegrity: { deviceRecognitionVerdict: ['MEETS_BASIC_INTEGRITY'] },
+    });
+    const result = await verifyPlayIntegrity(token, challenge, USER_UUID, INSTALL_ID);
+    assert.deepEqual(result, { valid: true, trustLevel: 'basic' });
+  });
+
+  it('degrades an app Play could not evaluate', async () => {
+    const challenge = newChallenge();
+    const token = fakeToken(challenge, { appIntegrity: { appRecognitionVerdict: 'UNEVALUATED' } });
+    const result = await verifyPlayIntegrity(token, challenge, USER_UUID, INSTALL_ID);
+    assert.deepEqual(result, { valid: true, trustLevel: 'basic' });
+  });
+
+  it('rejects a device without any integrity verdict', async () => {
+    const challenge = newChallenge();
+    const token = fakeToken(challenge, { deviceIntegrity: { deviceRecognitionVerdict: [] } });
+    const result = await verifyPlayIntegrity(token, challenge, USER_UUID, INSTALL_ID);
+    assert.equal(result.valid, false);
+    assert.match(result.error, /Device integrity/);
+  });
+
+  it('refuses dev- tokens unless explicitly enabled', async () => {
+    const challenge = newChallenge();
+    const result = await verifyPlayIntegrity(`dev-${USER_UUID}`, challenge, USER_UUID, INSTALL_ID);
+    assert.equal(result.valid, false);
+  });
+});
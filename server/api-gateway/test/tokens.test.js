@@ -0,0 +1,207 @@
+// ============================================================
+// Token Family Tests — CommEazy API Gateway
+//
+// Runs the gateway routes against an in-memory better-sqlite3 token
+// store and a fake Play Integrity decoder:
+//   - stable Android device id across attestations
+//   - refresh token rotation
+//   - reuse of a rotated refresh token revokes the whole family
+//   - revoked devices are refused when they attest again
+//   - degraded (basic integrity) families outlive cleanup until their
+//     access token expires
+// ============================================================
+
+const { describe, it, before, after } = require('node:test');
+const assert = require('node:assert/strict');
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+
+const PACKAGE_NAME = 'com.commeazy.app';
+const CERT_SHA256 = crypto.createHash('sha256').update('commeazy-signing-cert').digest('hex');
+
+process.env.TOKEN_DB_PATH = ':memory:';
+process.env.JWT_SECRET = crypto.randomBytes(32).toString('hex');
+process.env.GOOGLE_PACKAGE_NAME = PACKAGE_NAME;
+process.env.GOOGLE_CERT_SHA256 = CERT_SHA256;
+process.env.RATE_LIMIT_MAX = '1000';
+process.env.LOG_LEVEL = 'error';
+delete process.env.PLAY_INTEGRITY_ALLOW_DEV_TOKENS;
+
+const { setVerdictDecoder, nonceForChallenge } = require('../middleware/playIntegrity');
+const { tokenStore } = require('../middleware/tokenStore');
+const { app } = require('../server');
+
+const USER_UUID = '9b2f4c1e-5a7d-4e3b-8c6f-0d1e2f3a4b5c';
+
+// --- Fake Play Integrity: integrity token → verdict ---
+
+const verdicts = new Map();
+const START = Date.now();
+let attestCount = 0;
+
+setVerdictDecoder(async (token) => verdicts.get(token));
+
+function newInstallId() {
+  return crypto.randomBytes(16).toString('hex');
+}
+
+// --- HTTP helpers ---
+
+let server;
+let baseUrl;
+
+async function post(path, body, accessToken) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+async function getDevices(accessToken) {
+  const response = await fetch(`${baseUrl}/api/v1/devices`, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+/**
+ * Attest an Android install; `basic` makes the device meet basic integrity only.
+ */
+function attestAndroid(installId, { basic = false } = {}) {
+  // Unique challenge per attestation (each nonce is single-use)
+  const challenge = `${USER_UUID}:${START - attestCount++}:${installId}`;
+  const integrityToken = `token-${crypto.randomBytes(8).toString('hex')}`;
+  verdicts.set(integrityToken, {
+    requestDetails: {
+      requestPackageName: PACKAGE_NAME,
+      nonce: nonceForChallenge(challenge),
+      timestampMillis: String(Date.now()),
+    },
+    appIntegrity: {
+      appRecognitionVerdict: 'PLAY_RECOGNIZED',
+      packageName: PACKAGE_NAME,
+      certificateSha256Digest: [Buffer.from(CERT_SHA256, 'hex').toString('base64url')],
+    },
+    deviceIntegrity: {
+      deviceRecognitionVerdict: [basic ? 'MEETS_BASIC_INTEGRITY' : 'MEETS_DEVICE_INTEGRITY'],
+    },
+  });
+
+  return post('/api/v1/attest/android', { integrityToken, challenge, userUuid: USER_UUID, installId });
+}
+
+function refresh(refreshToken) {
+  return post('/api/v1/token/refresh', { refreshToken });
+}
+
+describe('token families', () => {
+  before(async () => {
+    server = app.listen(0, '127.0.0.1');
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${server.address().port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    tokenStore.close();
+  });
+
+  it('requires a challenge and an install id', async () => {
+    const missingChallenge = await post('/api/v1/attest/android', {
+      integrityToken: 'token', userUuid: USER_UUID, installId: newInstallId(),
+    });
+    assert.equal(missingChallenge.status, 400);
+    assert.equal(missingChallenge.body.error, 'MISSING_FIELDS');
+
+    const badInstall = await post('/api/v1/attest/android', {
+      integrityToken: 'token', challenge: `${USER_UUID}:${Date.now()}:x`, userUuid: USER_UUID, installId: 'x',
+    });
+    assert.equal(badInstall.status, 400);
+    assert.equal(badInstall.body.error, 'INVALID_INSTALL_ID');
+  });
+
+  it('keeps the same device id when an install attests again', async () => {
+    const installId = newInstallId();
+    const first = await attestAndroid(installId);
+    const second = await attestAndroid(installId);
+    const other = await attestAndroid(newInstallId());
+
+    const deviceOf = (tokens) => jwt.decode(tokens.body.accessToken).device_id;
+    assert.equal(first.status, 200);
+    assert.equal(deviceOf(first), deviceOf(second));
+    assert.notEqual(deviceOf(first), deviceOf(other));
+  });
+
+  it('rotates the refresh token on every refresh', async () => {
+    const attested = await attestAndroid(newInstallId());
+    const first = await refresh(attested.body.refreshToken);
+    const second = await refresh(first.body.refreshToken);
+
+    assert.equal(first.status, 200);
+    assert.equal(second.status, 200);
+    assert.notEqual(first.body.refreshToken, attested.body.refreshToken);
+    assert.notEqual(second.body.refreshToken, first.body.refreshToken);
+    assert.equal((await getDevices(second.body.accessToken)).status, 200);
+  });
+
+  it('revokes the whole family when a rotated refresh token is used again', async () => {
+    const attested = await attestAndroid(newInstallId());
+    const rotated = await refresh(attested.body.refreshToken);
+
+    // A copy of the first refresh token shows up again
+    const reuse = await refresh(attested.body.refreshToken);
+    assert.equal(reuse.status, 401);
+    assert.equal(reuse.body.error, 'REFRESH_TOKEN_REUSED');
+
+    // The legitimate holder's newer tokens stop working too
+    const next = await refresh(rotated.body.refreshToken);
+    assert.equal(next.status, 401);
+    assert.equal(next.body.error, 'TOKEN_REVOKED');
+    const devices = await getDevices(rotated.body.accessToken);
+    assert.equal(devices.status, 401);
+    assert.equal(devices.body.error, 'TOKEN_REVOKED');
+  });
+
+  it('refuses a revoked device when it attests again', async () => {
+    const phone = await attestAndroid(newInstallId());
+    const stolenInstall = newInstallId();
+    const stolen = await attestAndroid(stolenInstall);
+    const stolenDevice = jwt.decode(stolen.body.accessToken).device_id;
+
+    const revoke = await post(`/api/v1/devices/${stolenDevice}/revoke`, {}, phone.body.accessToken);
+    assert.equal(revoke.status, 200);
+
+    assert.equal((await getDevices(stolen.body.accessToken)).status, 401);
+    assert.equal((await refresh(stolen.body.refreshToken)).status, 401);
+
+    const again = await attestAndroid(stolenInstall);
+    assert.equal(again.status, 403);
+    assert.equal(again.body.error, 'DEVICE_REVOKED');
+  });
+
+  it('keeps a degraded family until its access token expires', async () => {
+    const degraded = await attestAndroid(newInstallId(), { basic: true });
+    assert.equal(degraded.status, 200);
+    assert.equal(degraded.body.trustLevel, 'basic');
+    assert.equal(degraded.body.refreshToken, undefined);
+
+    // No refresh tokens, but the 1-hour access token is still valid
+    tokenStore.cleanup();
+    assert.equal((await getDevices(degraded.body.accessToken)).status, 200);
+  });
+
+  it('removes a family once all its tokens have expired, without treating it as revoked', () => {
+    const familyId = tokenStore.createFamily({ userUuid: USER_UUID, deviceId: 'expired-device', platform: 'android' });
+    tokenStore.recordAccessToken(familyId, Math.floor(Date.now() / 1000) - 60);
+
+    tokenStore.cleanup();
+
+    assert.equal(tokenStore.listDevices(USER_UUID).some((device) => device.deviceId === 'expired-device'), false);
+    assert.equal(tokenStore.isFamilyRevoked(familyId), false);
+  });
+});
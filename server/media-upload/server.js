@@ -0,0 +1,348 @@
+// ============================================================
+// CommEazy Media Upload
+// Version: 1.0.0
+//
+// HTTP storage behind Prosody's XEP-0363 (HTTP File Upload) component.
+// Clients ask Prosody for an upload slot; Prosody hands out signed PUT URLs
+// that point here (mod_http_upload_external, "v2" tokens).
+//
+// Endpoints:
+//   PUT  /upload/:dir/:filename?v2=<hmac>  — Upload file, whole or in chunks
+//   HEAD /upload/:dir/:filename            — Bytes stored so far (Upload-Offset)
+//   GET  /upload/:dir/:filename            — Download a complete file (Range supported)
+//
+// Resumable uploads:
+//   A PUT may carry "Content-Range: bytes <start>-<end>/<total>". Chunks are
+//   appended only when <start> matches the bytes already stored; otherwise
+//   the server answers 409 with the expected Upload-Offset, so a client that
+//   lost its connection continues where the server actually is.
+//
+// Zero-server-storage compliance:
+//   - Clients encrypt media before upload (XChaCha20-Poly1305, per-file key)
+//   - The key travels only inside the end-to-end encrypted pointer message
+//   - Server CANNOT read file contents
+//   - Files auto-deleted after 7 days (same as the message outbox)
+//
+// Prosody configuration:
+//   Component "upload.commeazy.local" "http_upload_external"
+//     http_upload_external_base_url = "https://media.commeazy.local/upload/"
+//     http_upload_external_secret = "<UPLOAD_SECRET>"
+//     http_upload_external_file_size_limit = 52428800
+//
+// Port 5284 chosen to sit alongside Prosody (5280), Push Gateway (5282)
+// and Invitation Relay (5283).
+// ============================================================
+
+require('dotenv').config();
+
+const express = require('express');
+const rateLimit = require('express-rate-limit');
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+// --- Configuration ---
+const PORT = parseInt(process.env.PORT || '5284', 10);
+const HOST = process.env.HOST || '127.0.0.1';
+const UPLOAD_SECRET = process.env.UPLOAD_SECRET;
+const STORAGE_DIR = path.resolve(process.env.STORAGE_DIR || path.join(__dirname, 'uploads'));
+const MAX_FILE_SIZE = parseInt(process.env.MAX_FILE_SIZE || '52428800', 10); // 50MB
+const MAX_CHUNK_SIZE = 4 * 1024 * 1024; // Clients send 256KB chunks; whole-file PUTs stay small
+const FILE_TTL_DAYS = parseInt(process.env.FILE_TTL_DAYS || '7', 10);
+const CLEANUP_INTERVAL_MS = parseInt(process.env.CLEANUP_INTERVAL_MS || '3600000', 10);
+const LOG_LEVEL = process.env.LOG_LEVEL || 'info';
+
+// --- Logger ---
+const LOG_LEVELS = { debug: 0, info: 1, warn: 2, error: 3 };
+const log = {
+  debug: (...args) => LOG_LEVELS[LOG_LEVEL] <= 0 && console.log('[DEBUG]', new Date().toISOString(), ...args),
+  info:  (...args) => LOG_LEVELS[LOG_LEVEL] <= 1 && console.log('[INFO]', new Date().toISOString(), ...args),
+  warn:  (...args) => LOG_LEVELS[LOG_LEVEL] <= 2 && console.warn('[WARN]', new Date().toISOString(), ...args),
+  error: (...args) => LOG_LEVELS[LOG_LEVEL] <= 3 && console.error('[ERROR]', new Date().toISOString(), ...args),
+};
+
+// --- Validate required environment variables ---
+if (!UPLOAD_SECRET) {
+  log.error('UPLOAD_SECRET is required (same value as http_upload_external_secret)');
+  process.exit(1);
+}
+
+fs.mkdirSync(STORAGE_DIR, { recursive: true });
+
+// --- Metrics ---
+const metrics = {
+  uploadsCompleted: 0,
+  chunksReceived: 0,
+  uploadsResumed: 0,
+  downloads: 0,
+  filesExpired: 0,
+  startTime: Date.now(),
+};
+
+// ============================================================
+// Helpers
+// ============================================================
+
+// Prosody uses a random directory per slot; the filename is chosen by the client
+const DIR_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+const FILENAME_PATTERN = /^[A-Za-z0-9_-][A-Za-z0-9._-]{0,127}$/;
+
+/**
+ * Resolve the storage paths for a slot, or null for invalid names.
+ */
+function slotPaths(dir, filename) {
+  if (!DIR_PATTERN.test(dir) || !FILENAME_PATTERN.test(filename)) {
+    return null;
+  }
+  const file = path.join(STORAGE_DIR, dir, filename);
+  return { dir: path.join(STORAGE_DIR, dir), file, part: `${file}.part` };
+}
+
+/**
+ * Verify the mod_http_upload_external v2 token:
+ * HMAC-SHA256(secret, "<dir>/<filename>\0<size>\0<content-type>"), hex encoded.
+ */
+function verifyToken(dir, filename, size, contentType, token) {
+  if (typeof token !== 'string' || !/^[0-9a-f]{64}$/.test(token)) {
+    return false;
+  }
+  const expected = crypto
+    .createHmac('sha256', UPLOAD_SECRET)
+    .update(`${dir}/${filename}\0${size}\0${contentType}`)
+    .digest();
+  return crypto.timingSafeEqual(expected, Buffer.from(token, 'hex'));
+}
+
+/**
+ * Parse "bytes <start>-<end>/<total>". Returns null when malformed.
+ */
+function parseContentRange(header) {
+  const match = /^bytes (\d+)-(\d+)\/(\d+)$/.exec(header);
+  if (!match) return null;
+  const [start, end, total] = match.slice(1).map((value) => parseInt(value, 10));
+  if (end < start || end >= total) return null;
+  return { start, end, total };
+}
+
+function fileSize(filePath) {
+  try {
+    return fs.statSync(filePath).size;
+  } catch {
+    return null;
+  }
+}
+
+// --- Express App ---
+const app = express();
+
+// Rate limiting (chunked uploads need more requests than the API Gateway allows)
+app.use(rateLimit({
+  windowMs: 60000,
+  max: 600,
+  message: { error: 'RATE_LIMITED', message: 'Too many requests' },
+}));
+
+// --- Health Check ---
+app.get('/health', (req, res) => {
+  res.json({
+    status: 'ok',
+    uptime: Math.floor((Date.now() - metrics.startTime) / 1000),
+    version: '1.0.0',
+  });
+});
+
+// --- Metrics ---
+app.get('/metrics', (req, res) => {
+  res.type('text/plain').send([
+    `# HELP upload_completed_total Files fully uploaded`,
+    `# TYPE upload_completed_total counter`,
+    `upload_completed_total ${metrics.uploadsCompleted}`,
+    `upload_chunks_received_total ${metrics.chunksReceived}`,
+    `upload_resumed_total ${metrics.uploadsResumed}`,
+    `upload_downloads_total ${metrics.downloads}`,
+    `upload_files_expired_total ${metrics.filesExpired}`,
+    `# HELP upload_uptime_seconds Server uptime`,
+    `# TYPE upload_uptime_seconds gauge`,
+    `upload_uptime_seconds ${Math.floor((Date.now() - metrics.startTime) / 1000)}`,
+  ].join('\n') + '\n');
+});
+
+// ============================================================
+// Upload Endpoints
+// ============================================================
+
+/**
+ * PUT /upload/:dir/:filename?v2=<token>
+ * Store a file, or one chunk of it (Content-Range).
+ *
+ * Responses:
+ *   201 — File complete
+ *   204 — Chunk stored, more expected (Upload-Offset header)
+ *   409 — Chunk does not start at the stored offset (Upload-Offset header),
+ *         or the file already exists
+ */
+app.put(
+  '/upload/:dir/:filename',
+  express.raw({ type: () => true, limit: MAX_CHUNK_SIZE }),
+  (req, res) => {
+    const { dir, filename } = req.params;
+    const paths = slotPaths(dir, filename);
+    if (!paths) {
+      return res.status(400).json({ error: 'INVALID_PATH', message: 'Invalid upload path' });
+    }
+
+    const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    const contentType = req.headers['content-type'] || 'application/octet-stream';
+    const rangeHeader = req.headers['content-range'];
+    const range = rangeHeader
+      ? parseContentRange(rangeHeader)
+      : { start: 0, end: body.length - 1, total: body.length };
+
+    if (!range) {
+      return res.status(400).json({ error: 'INVALID_RANGE', message: 'Content-Range must be bytes <start>-<end>/<total>' });
+    }
+    if (range.end - range.start + 1 !== body.length) {
+      return res.status(400).json({ error: 'INVALID_RANGE', message: 'Content-Range does not match body length' });
+    }
+    if (range.total > MAX_FILE_SIZE) {
+      return res.status(413).json({ error: 'FILE_TOO_LARGE', message: `File exceeds maximum size of ${MAX_FILE_SIZE} bytes` });
+    }
+    if (!verifyToken(dir, filename, range.total, contentType, req.query.v2)) {
+      log.warn('Rejected upload with invalid token', { dir: dir.slice(0, 6) + '...' });
+      return res.status(403).json({ error: 'FORBIDDEN', message: 'Invalid upload token' });
+    }
+
+    if (fileSize(paths.file) !== null) {
+      res.set('Upload-Offset', String(range.total));
+      return res.status(409).json({ error: 'FILE_EXISTS', message: 'File already uploaded' });
+    }
+
+    const stored = fileSize(paths.part) ?? 0;
+    if (range.start !== stored) {
+      res.set('Upload-Offset', String(stored));
+      return res.status(409).json({ error: 'OFFSET_MISMATCH', message: `Expected chunk at offset ${stored}` });
+    }
+
+    try {
+      fs.mkdirSync(paths.dir, { recursive: true });
+      fs.appendFileSync(paths.part, body);
+      metrics.chunksReceived++;
+      if (range.start > 0) {
+        log.debug('Chunk appended', { offset: range.start, size: body.length });
+      }
+
+      const offset = stored + body.length;
+      if (offset < range.total) {
+        res.set('Upload-Offset', String(offset));
+        return res.status(204).end();
+      }
+
+      fs.renameSync(paths.part, paths.file);
+      metrics.uploadsCompleted++;
+      log.info('Upload complete', { dir: dir.slice(0, 6) + '...', size: range.total });
+      res.set('Upload-Offset', String(range.total));
+      return res.status(201).end();
+    } catch (err) {
+      log.error('Failed to store upload', { error: err.message });
+      return res.status(500).json({ error: 'INTERNAL', message: 'Failed to store upload' });
+    }
+  },
+);
+
+/**
+ * HEAD /upload/:dir/:filename
+ * How many bytes are stored — lets a client resume an interrupted upload.
+ * Paths are unguessable, so no token is needed to ask.
+ */
+app.head('/upload/:dir/:filename', (req, res) => {
+  const paths = slotPaths(req.params.dir, req.params.filename);
+  if (!paths) {
+    return res.status(400).end();
+  }
+
+  const complete = fileSize(paths.file);
+  if (complete !== null) {
+    res.set({ 'Upload-Offset': String(complete), 'Content-Length': String(complete) });
+    return res.status(200).end();
+  }
+
+  const partial = fileSize(paths.part);
+  if (partial !== null) {
+    metrics.uploadsResumed++;
+    res.set('Upload-Offset', String(partial));
+    return res.status(200).end();
+  }
+
+  return res.status(404).end();
+});
+
+/**
+ * GET /upload/:dir/:filename
+ * Download a complete (encrypted) file. Range requests are supported so
+ * interrupted downloads can continue.
+ */
+app.get('/upload/:dir/:filename', (req, res) => {
+  const paths = slotPaths(req.params.dir, req.params.filename);
+  if (!paths || fileSize(paths.file) === null) {
+    return res.status(404).json({ error: 'NOT_FOUND', message: 'File not found or expired' });
+  }
+
+  metrics.downloads++;
+  res.sendFile(paths.file, {
+    headers: { 'Content-Type': 'application/octet-stream', 'Cache-Control': 'private, no-store' },
+  });
+});
+
+// ============================================================
+// TTL Cleanup
+// ============================================================
+
+function runCleanup() {
+  const cutoff = Date.now() - FILE_TTL_DAYS * 24 * 60 * 60 * 1000;
+  let removed = 0;
+
+  try {
+    for (const dir of fs.readdirSync(STORAGE_DIR)) {
+      const dirPath = path.join(STORAGE_DIR, dir);
+      const stat = fs.statSync(dirPath);
+      if (stat.isDirectory() && stat.mtimeMs < cutoff) {
+        fs.rmSync(dirPath, { recursive: true, force: true });
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      metrics.filesExpired += removed;
+      log.info('Cleaned up expired uploads', { count: removed });
+    }
+  } catch (err) {
+    log.error('Cleanup failed', { error: err.message });
+  }
+}
+
+// Run cleanup periodically
+setInterval(runCleanup, CLEANUP_INTERVAL_MS);
+
+// Run cleanup on startup
+runCleanup();
+
+// ============================================================
+// Start Server
+// ============================================================
+
+app.listen(PORT, HOST, () => {
+  log.info(`Media Upload listening on ${HOST}:${PORT}`);
+  log.info(`Storage: ${STORAGE_DIR}`);
+  log.info(`Max file size: ${MAX_FILE_SIZE} bytes`);
+  log.info(`File TTL: ${FILE_TTL_DAYS} days`);
+});
+
+// Graceful shutdown
+process.on('SIGINT', () => {
+  log.info('Shutting down...');
+  process.exit(0);
+});
+
+process.on('SIGTERM', () => {
+  log.info('Shutting down...');
+  process.exit(0);
+});
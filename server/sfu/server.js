@@ -0,0 +1,597 @@
+// ============================================================
+// CommEazy SFU
+// Version: 1.0.0
+//
+// Selective forwarding unit for group calls with more than three people.
+// Up to three, calls stay a mesh between the phones. Above that every phone
+// would have to send its video to everyone else; through the SFU it sends
+// one copy, and the SFU forwards it to the others.
+//
+// Signaling:
+//   The SFU joins Prosody as an external component and receives call
+//   signals in the urn:commeazy:call:1 namespace, like the phones do:
+//     sfu-join   { callId, sdp, invited?, encrypted? }
+//                                          — Offer of the joining phone.
+//                                            The host's join opens the room
+//                                            for the invited JIDs; encrypted
+//                                            says whether its frames are
+//                                            end-to-end encrypted.
+//     sfu-answer { callId, sdp }            — Answer to an sfu-offer
+//     sfu-ice    { callId, candidate }      — Trickle ICE
+//     sfu-leave  { callId }
+//   It answers with:
+//     sfu-answer, sfu-ice
+//     sfu-offer  { callId, sdp, tracks }    — Forwarded tracks changed;
+//                                            tracks maps each mid to its JID
+//                                            and the sender's encrypted flag
+//     sfu-roster { callId, participants }   — Who is in the room
+//     sfu-error  { callId, code }           — not-invited | room-full | no-room | internal
+//   Only the SFU offers after the join, so offers never cross.
+//
+// Zero-server-storage compliance:
+//   - Media is only forwarded, never decoded or recorded
+//   - Where the phones support insertable streams, frames are encrypted
+//     end-to-end with a key the SFU never receives (sealed group invite).
+//     The SFU only passes on who encrypts, so receivers know which
+//     tracks to decrypt.
+//   - Rooms live in memory and disappear when the call ends
+//
+// Prosody configuration:
+//   Component "sfu.commeazy.local"
+//     component_secret = "<COMPONENT_SECRET>"
+//
+// Port 5285 (health/metrics) sits alongside Prosody (5280), Push Gateway
+// (5282), Invitation Relay (5283) and Media Upload (5284).
+//
+// Signals go out through the XMPP component; the transport is pluggable
+// (setSignalTransport) so tests can drive rooms without Prosody.
+// ============================================================
+
+require('dotenv').config();
+
+const http = require('http');
+const { component, xml } = require('@xmpp/component');
+const {
+  RTCPeerConnection,
+  RTCRtpCodecParameters,
+  MediaStream,
+  MediaStreamTrack,
+} = require('werift');
+
+// --- Configuration ---
+const XMPP_SERVICE = process.env.XMPP_SERVICE || 'xmpp://127.0.0.1:5347';
+const COMPONENT_DOMAIN = process.env.COMPONENT_DOMAIN || 'sfu.commeazy.local';
+const COMPONENT_SECRET = process.env.COMPONENT_SECRET;
+const PORT = parseInt(process.env.PORT || '5285', 10);
+const HOST = process.env.HOST || '127.0.0.1';
+const PUBLIC_IP = process.env.PUBLIC_IP || '';
+const RTC_PORT_MIN = parseInt(process.env.RTC_PORT_MIN || '40000', 10);
+const RTC_PORT_MAX = parseInt(process.env.RTC_PORT_MAX || '40100', 10);
+// Empty STUN_URL: host candidates only
+const STUN_URL = process.env.STUN_URL ?? 'stun:stun.l.google.com:19302';
+const MAX_ROOM_SIZE = parseInt(process.env.MAX_ROOM_SIZE || '8', 10);
+const ROOM_IDLE_TIMEOUT_MS = parseInt(process.env.ROOM_IDLE_TIMEOUT_MS || '60000', 10);
+const LOG_LEVEL = process.env.LOG_LEVEL || 'info';
+
+const NS_CALL = 'urn:commeazy:call:1';
+const CALL_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+// --- Logger ---
+const LOG_LEVELS = { debug: 0, info: 1, warn: 2, error: 3 };
+const log = {
+  debug: (...args) => LOG_LEVELS[LOG_LEVEL] <= 0 && console.log('[DEBUG]', new Date().toISOString(), ...args),
+  info:  (...args) => LOG_LEVELS[LOG_LEVEL] <= 1 && console.log('[INFO]', new Date().toISOString(), ...args),
+  warn:  (...args) => LOG_LEVELS[LOG_LEVEL] <= 2 && console.warn('[WARN]', new Date().toISOString(), ...args),
+  error: (...args) => LOG_LEVELS[LOG_LEVEL] <= 3 && console.error('[ERROR]', new Date().toISOString(), ...args),
+};
+
+// --- Metrics ---
+const metrics = {
+  roomsCreated: 0,
+  joins: 0,
+  joinsRefused: 0,
+  renegotiations: 0,
+  startTime: Date.now(),
+};
+
+/** callId → Room */
+const rooms = new Map();
+
+/** XMPP component, created by start() */
+let xmpp = null;
+
+// ============================================================
+// Helpers
+// ============================================================
+
+/** Same codecs as the phones use; VP8 keeps the frame layout frame encryption expects */
+const CODECS = {
+  audio: [
+    new RTCRtpCodecParameters({ mimeType: 'audio/opus', clockRate: 48000, channels: 2 }),
+  ],
+  video: [
+    new RTCRtpCodecParameters({
+      mimeType: 'video/VP8',
+      clockRate: 90000,
+      rtcpFeedback: [{ type: 'nack' }, { type: 'nack', parameter: 'pli' }, { type: 'goog-remb' }],
+    }),
+  ],
+};
+
+function bareJid(jid) {
+  return String(jid || '').split('/')[0].toLowerCase();
+}
+
+function shortJid(jid) {
+  return jid.split('@')[0].slice(0, 6) + '...';
+}
+
+function xmppTransport(to, payload) {
+  const stanza = xml('message', { to, from: COMPONENT_DOMAIN, type: 'chat', id: `sfu-${payload.callId}-${Date.now()}` },
+    xml('call', { xmlns: NS_CALL }, JSON.stringify(payload)),
+  );
+  return xmpp.send(stanza);
+}
+
+let transport = xmppTransport;
+
+/**
+ * Replace the signal transport, e.g. with a recorder in tests. The
+ * transport receives (to, payload) and returns a promise. Pass null to
+ * restore the XMPP component.
+ */
+function setSignalTransport(fn) {
+  transport = fn || xmppTransport;
+}
+
+function sendSignal(to, payload) {
+  Promise.resolve()
+    .then(() => transport(to, payload))
+    .catch((err) => {
+      log.warn('Failed to send signal', { type: payload.type, error: err.message });
+    });
+}
+
+function sendError(to, callId, code) {
+  metrics.joinsRefused++;
+  sendSignal(to, { type: 'sfu-error', callId, code });
+}
+
+function createPeerConnection() {
+  return new RTCPeerConnection({
+    codecs: CODECS,
+    iceServers: STUN_URL ? [{ urls: STUN_URL }] : [],
+    icePortRange: [RTC_PORT_MIN, RTC_PORT_MAX],
+    iceAdditionalHostAddresses: PUBLIC_IP ? [PUBLIC_IP] : undefined,
+  });
+}
+
+// ============================================================
+// Rooms
+// ============================================================
+
+/**
+ * Room of one group call.
+ * participants: jid → { jid, address, pc, encrypted, inbound, outbound, negotiating, renegotiate }
+ *   encrypted: this phone encrypts its frames end-to-end
+ *   inbound:  kind → { track, receiver }          (what this phone sends us)
+ *   outbound: sourceJid → { stream, senders, encrypted } (what we forward to this phone)
+ */
+function createRoom(callId, host, invited) {
+  const room = {
+    callId,
+    host,
+    invited: new Set([host, ...invited]),
+    participants: new Map(),
+    idleTimer: null,
+  };
+  rooms.set(callId, room);
+  metrics.roomsCreated++;
+  log.info('Room created', { callId, invited: room.invited.size });
+  return room;
+}
+
+function closeRoom(room) {
+  clearTimeout(room.idleTimer);
+  for (const participant of room.participants.values()) {
+    participant.pc.close().catch(() => {});
+  }
+  room.participants.clear();
+  rooms.delete(room.callId);
+  log.info('Room closed', { callId: room.callId });
+}
+
+/** Close the room when nobody comes back within ROOM_IDLE_TIMEOUT_MS */
+function scheduleIdleClose(room) {
+  clearTimeout(room.idleTimer);
+  room.idleTimer = null;
+  if (room.participants.size > 0) return;
+  room.idleTimer = setTimeout(() => closeRoom(room), ROOM_IDLE_TIMEOUT_MS);
+}
+
+function broadcastRoster(room) {
+  const participants = [...room.participants.keys()];
+  for (const participant of room.participants.values()) {
+    sendSignal(participant.address, { type: 'sfu-roster', callId: room.callId, participants });
+  }
+}
+
+// ============================================================
+// Participants
+// ============================================================
+
+async function handleJoin(room, from, signal) {
+  const jid = bareJid(from);
+
+  // A rejoin (new connection after network loss) replaces the old one
+  if (room.participants.has(jid)) {
+    removeParticipant(room, jid, { keepRoster: true });
+  } else if (room.participants.size >= MAX_ROOM_SIZE) {
+    return sendError(from, room.callId, 'room-full');
+  }
+
+  const pc = createPeerConnection();
+  const participant = {
+    jid,
+    address: from,
+    pc,
+    encrypted: signal.encrypted === true,
+    inbound: new Map(),
+    outbound: new Map(),
+    // The join is the first negotiation: no sfu-offer before our answer
+    negotiating: true,
+    renegotiate: false,
+  };
+  room.participants.set(jid, participant);
+  clearTimeout(room.idleTimer);
+  metrics.joins++;
+
+  pc.onIceCandidate.subscribe((candidate) => {
+    if (candidate && room.participants.get(jid) === participant) {
+      sendSignal(participant.address, {
+        type: 'sfu-ice',
+        callId: room.callId,
+        candidate: JSON.stringify(candidate.toJSON()),
+      });
+    }
+  });
+
+  // ontrack, not onTrack: only the event object carries the receiver
+  pc.ontrack = ({ track, receiver }) => {
+    participant.inbound.set(track.kind, { track, receiver });
+    log.debug('Track received', { callId: room.callId, from: shortJid(jid), kind: track.kind });
+    for (const other of room.participants.values()) {
+      if (other !== participant) {
+        forwardTrack(room, participant, other, track);
+      }
+    }
+  };
+
+  pc.connectionStateChange.subscribe((state) => {
+    log.debug('Connection state', { callId: room.callId, jid: shortJid(jid), state });
+    if (state === 'failed' && room.participants.get(jid) === participant) {
+      removeParticipant(room, jid);
+    }
+  });
+
+  await pc.setRemoteDescription(JSON.parse(signal.sdp));
+  const answer = await pc.setLocalDescription(await pc.createAnswer());
+  sendSignal(from, { type: 'sfu-answer', callId: room.callId, sdp: JSON.stringify(answer) });
+  participant.negotiating = false;
+
+  // Everyone already here: forward their tracks to the newcomer
+  for (const other of room.participants.values()) {
+    if (other === participant) continue;
+    for (const { track } of other.inbound.values()) {
+      forwardTrack(room, other, participant, track);
+    }
+  }
+  if (participant.renegotiate) {
+    void negotiate(room, participant);
+  }
+
+  log.info('Participant joined', { callId: room.callId, jid: shortJid(jid), size: room.participants.size });
+  broadcastRoster(room);
+}
+
+function removeParticipant(room, jid, { keepRoster = false } = {}) {
+  const participant = room.participants.get(jid);
+  if (!participant) return;
+
+  room.participants.delete(jid);
+  participant.pc.close().catch(() => {});
+
+  for (const other of room.participants.values()) {
+    const forwarded = other.outbound.get(jid);
+    if (!forwarded) continue;
+    for (const sender of forwarded.senders) {
+      other.pc.removeTrack(sender);
+    }
+    other.outbound.delete(jid);
+    void negotiate(room, other);
+  }
+
+  log.info('Participant left', { callId: room.callId, jid: shortJid(jid), size: room.participants.size });
+  if (!keepRoster) {
+    broadcastRoster(room);
+  }
+  scheduleIdleClose(room);
+}
+
+/**
+ * Forward one incoming track of `source` to `target`. Audio and video of
+ * a source share one stream, so the phone plays them in sync.
+ */
+function forwardTrack(room, source, target, track) {
+  let forwarded = target.outbound.get(source.jid);
+  if (!forwarded) {
+    forwarded = {
+      stream: new MediaStream({ id: `${room.callId}-${source.jid}` }),
+      senders: [],
+      encrypted: source.encrypted,
+    };
+    target.outbound.set(source.jid, forwarded);
+  }
+  if (forwarded.senders.some((sender) => sender.track && sender.track.kind === track.kind)) {
+    return;
+  }
+
+  const out = new MediaStreamTrack({ kind: track.kind });
+  const sender = target.pc.addTrack(out, forwarded.stream);
+  forwarded.senders.push(sender);
+
+  const subscription = track.onReceiveRtp.subscribe((rtp) => {
+    if (target.outbound.get(source.jid) !== forwarded) {
+      subscription.unSubscribe();
+      return;
+    }
+    out.writeRtp(rtp);
+  });
+
+  if (track.kind === 'video') {
+    // The new viewer needs a keyframe to start decoding, and so does
+    // anyone who lost one (PLI from the viewer)
+    requestKeyframe(source);
+    sender.onRtcp.subscribe((rtcp) => {
+      if (rtcp.type === 206 && rtcp.feedback && rtcp.feedback.count === 1) {
+        requestKeyframe(source);
+      }
+    });
+  }
+
+  void negotiate(room, target);
+}
+
+function requestKeyframe(source) {
+  const video = source.inbound.get('video');
+  if (video && video.track.ssrc) {
+    video.receiver.sendRtcpPLI(video.track.ssrc);
+  }
+}
+
+/**
+ * Offer the current forwarded tracks. One negotiation at a time per
+ * participant; changes during a negotiation are offered after its answer.
+ */
+async function negotiate(room, participant) {
+  if (participant.negotiating) {
+    participant.renegotiate = true;
+    return;
+  }
+  participant.negotiating = true;
+  participant.renegotiate = false;
+
+  try {
+    const offer = await participant.pc.setLocalDescription(await participant.pc.createOffer());
+    const tracks = [];
+    for (const [jid, forwarded] of participant.outbound) {
+      for (const sender of forwarded.senders) {
+        const transceiver = participant.pc.getTransceivers().find((t) => t.sender === sender);
+        if (transceiver && transceiver.mid !== undefined && sender.track) {
+          tracks.push({ mid: transceiver.mid, jid, kind: sender.track.kind, encrypted: forwarded.encrypted });
+        }
+      }
+    }
+    metrics.renegotiations++;
+    sendSignal(participant.address, {
+      type: 'sfu-offer',
+      callId: room.callId,
+      sdp: JSON.stringify(offer),
+      tracks,
+    });
+  } catch (err) {
+    participant.negotiating = false;
+    log.error('Negotiation failed', { callId: room.callId, jid: shortJid(participant.jid), error: err.message });
+  }
+}
+
+async function handleAnswer(room, participant, signal) {
+  await participant.pc.setRemoteDescription(JSON.parse(signal.sdp));
+  participant.negotiating = false;
+  if (participant.renegotiate) {
+    void negotiate(room, participant);
+  }
+}
+
+// ============================================================
+// Signaling
+// ============================================================
+
+async function handleSignal(from, signal) {
+  const { type, callId } = signal;
+  if (typeof callId !== 'string' || !CALL_ID_PATTERN.test(callId)) {
+    log.warn('Signal without valid callId', { type });
+    return;
+  }
+
+  const jid = bareJid(from);
+  let room = rooms.get(callId);
+
+  if (type === 'sfu-join') {
+    if (typeof signal.sdp !== 'string') return;
+
+    // The host opens the room with the invited JIDs
+    if (!room) {
+      if (!Array.isArray(signal.invited)) {
+        return sendError(from, callId, 'no-room');
+      }
+      if (signal.invited.length + 1 > MAX_ROOM_SIZE) {
+        return sendError(from, callId, 'room-full');
+      }
+      room = createRoom(callId, jid, signal.invited.map(bareJid));
+    }
+    if (!room.invited.has(jid)) {
+      log.warn('Join refused, not invited', { callId, jid: shortJid(jid) });
+      return sendError(from, callId, 'not-invited');
+    }
+    return handleJoin(room, from, signal);
+  }
+
+  const participant = room && room.participants.get(jid);
+  if (!participant) {
+    log.debug('Signal for unknown participant', { type, callId });
+    return;
+  }
+
+  switch (type) {
+    case 'sfu-answer':
+      if (typeof signal.sdp === 'string') {
+        await handleAnswer(room, participant, signal);
+      }
+      break;
+
+    case 'sfu-ice':
+      if (typeof signal.candidate === 'string') {
+        await participant.pc.addIceCandidate(JSON.parse(signal.candidate));
+      }
+      break;
+
+    case 'sfu-leave':
+      removeParticipant(room, jid);
+      break;
+
+    default:
+      log.debug('Ignoring signal', { type });
+  }
+}
+
+// ============================================================
+// XMPP Component
+// ============================================================
+
+function handleStanza(stanza) {
+  if (!stanza.is('message')) return;
+  const callElement = stanza.getChild('call', NS_CALL);
+  if (!callElement) return;
+
+  let signal;
+  try {
+    signal = JSON.parse(callElement.text());
+  } catch {
+    log.warn('Malformed call signal');
+    return;
+  }
+  if (!signal || typeof signal.type !== 'string' || !signal.type.startsWith('sfu-')) return;
+
+  handleSignal(stanza.attrs.from, signal).catch((err) => {
+    log.error('Failed to handle signal', { type: signal.type, error: err.message });
+    if (signal.type === 'sfu-join') {
+      sendError(stanza.attrs.from, signal.callId, 'internal');
+    }
+  });
+}
+
+// ============================================================
+// Health & Metrics
+// ============================================================
+
+const server = http.createServer((req, res) => {
+  const uptime = Math.floor((Date.now() - metrics.startTime) / 1000);
+
+  if (req.method === 'GET' && req.url === '/health') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    const status = xmpp && xmpp.status === 'online' ? 'ok' : 'degraded';
+    return res.end(JSON.stringify({ status, uptime, version: '1.0.0' }));
+  }
+
+  if (req.method === 'GET' && req.url === '/metrics') {
+    let participants = 0;
+    for (const room of rooms.values()) participants += room.participants.size;
+    res.writeHead(200, { 'Content-Type': 'text/plain' });
+    return res.end([
+      `# HELP sfu_rooms_created_total Rooms opened by a host`,
+      `# TYPE sfu_rooms_created_total counter`,
+      `sfu_rooms_created_total ${metrics.roomsCreated}`,
+      `sfu_joins_total ${metrics.joins}`,
+      `sfu_joins_refused_total ${metrics.joinsRefused}`,
+      `sfu_renegotiations_total ${metrics.renegotiations}`,
+      `# HELP sfu_rooms_active Rooms currently open`,
+      `# TYPE sfu_rooms_active gauge`,
+      `sfu_rooms_active ${rooms.size}`,
+      `sfu_participants_active ${participants}`,
+      `# HELP sfu_uptime_seconds Server uptime`,
+      `# TYPE sfu_uptime_seconds gauge`,
+      `sfu_uptime_seconds ${uptime}`,
+    ].join('\n') + '\n');
+  }
+
+  res.writeHead(404);
+  res.end();
+});
+
+// ============================================================
+// Start
+// ============================================================
+
+function start() {
+  if (!COMPONENT_SECRET) {
+    log.error('COMPONENT_SECRET is required (same value as component_secret in Prosody)');
+    process.exit(1);
+  }
+
+  xmpp = component({
+    service: XMPP_SERVICE,
+    domain: COMPONENT_DOMAIN,
+    password: COMPONENT_SECRET,
+  });
+
+  xmpp.on('error', (err) => {
+    log.error('XMPP error', { error: err.message });
+  });
+
+  xmpp.on('online', () => {
+    log.info(`Connected to ${XMPP_SERVICE} as ${COMPONENT_DOMAIN}`);
+  });
+
+  xmpp.on('stanza', handleStanza);
+
+  server.listen(PORT, HOST, () => {
+    log.info(`SFU health/metrics listening on ${HOST}:${PORT}`);
+    log.info(`Max room size: ${MAX_ROOM_SIZE}`);
+    log.info(`RTC ports: ${RTC_PORT_MIN}-${RTC_PORT_MAX}${PUBLIC_IP ? `, public IP ${PUBLIC_IP}` : ''}`);
+  });
+
+  xmpp.start().catch((err) => {
+    log.error('Failed to connect to Prosody', { error: err.message });
+    process.exit(1);
+  });
+
+  process.on('SIGINT', () => void shutdown());
+  process.on('SIGTERM', () => void shutdown());
+}
+
+// Graceful shutdown
+async function shutdown() {
+  log.info('Shutting down...');
+  for (const room of [...rooms.values()]) {
+    closeRoom(room);
+  }
+  await xmpp.stop().catch(() => {});
+  process.exit(0);
+}
+
+if (require.main === module) {
+  start();
+}
+
+module.exports = { handleSignal, setSignalTransport, rooms, closeRoom };
@@ -0,0 +1,192 @@
+// ============================================================
+// SFU Tests — CommEazy SFU
+//
+// Drives rooms through handleSignal with a recording signal transport
+// (setSignalTransport) instead of Prosody. The phones are werift peer
+// connections that offer audio + video and answer every sfu-offer:
+//   - joins without a room, uninvited and over the room size are refused
+//   - roster on join and leave
+//   - forwarded tracks carry the sender's encrypted flag
+//   - leaving stops forwarding; empty rooms close
+// ============================================================
+
+const { describe, it, beforeEach, afterEach } = require('node:test');
+const assert = require('node:assert/strict');
+const crypto = require('crypto');
+
+process.env.STUN_URL = '';
+process.env.MAX_ROOM_SIZE = '3';
+process.env.ROOM_IDLE_TIMEOUT_MS = '50';
+process.env.LOG_LEVEL = 'error';
+
+const { RTCPeerConnection, MediaStreamTrack } = require('werift');
+const { handleSignal, setSignalTransport, rooms, closeRoom } = require('../server');
+
+const HOST = 'oma@commeazy.local';
+const GUEST = 'opa@commeazy.local';
+const OTHER = 'kees@commeazy.local';
+
+// --- Phones ---
+
+/** address → signals the SFU sent there */
+let inbox;
+/** bare JID → werift peer connection of that phone */
+let phones;
+/** bare JID → signal handling of that phone, one signal at a time */
+let queues;
+
+function address(jid) {
+  return `${jid}/phone`;
+}
+
+function newCallId() {
+  return crypto.randomUUID();
+}
+
+function recordSignal(to, payload) {
+  if (!inbox.has(to)) inbox.set(to, []);
+  inbox.get(to).push(payload);
+
+  // Phones negotiate like sfuSession: apply answers, answer offers, in order
+  const jid = to.split('/')[0];
+  const pc = phones.get(jid);
+  if (!pc) return Promise.resolve();
+
+  const handled = (queues.get(jid) || Promise.resolve()).then(async () => {
+    if (payload.type === 'sfu-answer') {
+      await pc.setRemoteDescription(JSON.parse(payload.sdp));
+    } else if (payload.type === 'sfu-offer') {
+      await pc.setRemoteDescription(JSON.parse(payload.sdp));
+      const answer = await pc.setLocalDescription(await pc.createAnswer());
+      await handleSignal(to, { type: 'sfu-answer', callId: payload.callId, sdp: JSON.stringify(answer) });
+    }
+  });
+  queues.set(jid, handled.catch(() => {}));
+  return handled;
+}
+
+function signalsTo(jid, type) {
+  return (inbox.get(address(jid)) || []).filter((signal) => signal.type === type);
+}
+
+/** Wait until a signal of `type` matching `predicate` reached `jid` */
+async function waitForSignal(jid, type, predicate = () => true) {
+  const deadline = Date.now() + 5000;
+  for (;;) {
+    const found = signalsTo(jid, type).find(predicate);
+    if (found) return found;
+    if (Date.now() > deadline) {
+      assert.fail(`No ${type} for ${jid}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+async function join(jid, callId, extra = {}) {
+  // max-bundle: werift does not close the ICE transports BUNDLE drops
+  const pc = new RTCPeerConnection({ iceServers: [], bundlePolicy: 'max-bundle' });
+  pc.addTransceiver(new MediaStreamTrack({ kind: 'audio' }), { direction: 'sendonly' });
+  pc.addTransceiver(new MediaStreamTrack({ kind: 'video' }), { direction: 'sendonly' });
+  phones.set(jid, pc);
+
+  const offer = await pc.setLocalDescription(await pc.createOffer());
+  await handleSignal(address(jid), { type: 'sfu-join', callId, sdp: JSON.stringify(offer), ...extra });
+}
+
+function lastRoster(jid) {
+  const rosters = signalsTo(jid, 'sfu-roster');
+  return rosters.length > 0 ? rosters[rosters.length - 1].participants : undefined;
+}
+
+describe('SFU rooms', () => {
+  beforeEach(() => {
+    inbox = new Map();
+    phones = new Map();
+    queues = new Map();
+    setSignalTransport(recordSignal);
+  });
+
+  afterEach(async () => {
+    await Promise.all(queues.values());
+    for (const room of [...rooms.values()]) {
+      closeRoom(room);
+    }
+    await Promise.all([...phones.values()].map((pc) => pc.close()));
+    setSignalTransport(null);
+  });
+
+  it('refuses a join when no host opened the room', async () => {
+    const callId = newCallId();
+    await join(GUEST, callId);
+    assert.equal((await waitForSignal(GUEST, 'sfu-error')).code, 'no-room');
+    assert.equal(rooms.has(callId), false);
+  });
+
+  it('only admits invited participants', async () => {
+    const callId = newCallId();
+    await join(HOST, callId, { invited: [GUEST] });
+    await join(OTHER, callId);
+
+    assert.equal((await waitForSignal(OTHER, 'sfu-error')).code, 'not-invited');
+    assert.deepEqual(lastRoster(HOST), [HOST]);
+  });
+
+  it('refuses a room larger than MAX_ROOM_SIZE', async () => {
+    const callId = newCallId();
+    await join(HOST, callId, { invited: [GUEST, OTHER, 'anna@commeazy.local'] });
+    assert.equal((await waitForSignal(HOST, 'sfu-error')).code, 'room-full');
+  });
+
+  it('tells each receiver whether a forwarded sender encrypts', async () => {
+    const callId = newCallId();
+    await join(HOST, callId, { invited: [GUEST], encrypted: true });
+    await join(GUEST, callId, { encrypted: false });
+
+    const toGuest = await waitForSignal(GUEST, 'sfu-offer', (offer) => offer.tracks.length === 2);
+    assert.deepEqual(
+      toGuest.tracks.map(({ jid, kind, encrypted }) => ({ jid, kind, encrypted })).sort((a, b) => a.kind.localeCompare(b.kind)),
+      [
+        { jid: HOST, kind: 'audio', encrypted: true },
+        { jid: HOST, kind: 'video', encrypted: true },
+      ],
+    );
+
+    const toHost = await waitForSignal(HOST, 'sfu-offer', (offer) => offer.tracks.length === 2);
+    assert.ok(toHost.tracks.every((track) => track.jid === GUEST && track.encrypted === false));
+
+    assert.deepEqual(lastRoster(HOST), [HOST, GUEST]);
+    assert.deepEqual(lastRoster(GUEST), [HOST, GUEST]);
+  });
+
+  it('treats a join without the flag as not encrypted', async () => {
+    const callId = newCallId();
+    await join(HOST, callId, { invited: [GUEST] });
+    await join(GUEST, callId);
+
+    const toGuest = await waitForSignal(GUEST, 'sfu-offer', (offer) => offer.tracks.length === 2);
+    assert.ok(toGuest.tracks.every((track) => track.encrypted === false));
+  });
+
+  it('stops forwarding a participant that leaves', async () => {
+    const callId = newCallId();
+    await join(HOST, callId, { invited: [GUEST] });
+    await join(GUEST, callId);
+    await waitForSignal(HOST, 'sfu-offer', (offer) => offer.tracks.length === 2);
+
+    await handleSignal(address(GUEST), { type: 'sfu-leave', callId });
+
+    assert.deepEqual(lastRoster(HOST), [HOST]);
+    await waitForSignal(HOST, 'sfu-offer', (offer) => offer.tracks.length === 0);
+    assert.equal(rooms.get(callId).participants.has(GUEST), false);
+  });
+
+  it('closes a room nobody returns to', async () => {
+    const callId = newCallId();
+    await join(HOST, callId, { invited: [GUEST] });
+    await handleSignal(address(HOST), { type: 'sfu-leave', callId });
+
+    assert.equal(rooms.has(callId), true);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    assert.equal(rooms.has(callId), false);
+  });
+});
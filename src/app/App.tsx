@@ -12,6 +12,7 @@
 import React, { useEffect, useState, useRef } from 'react';
 import { AccessibilityInfo, AppState, AppStateStatus, View } from 'react-native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
+import DeviceInfo from 'react-native-device-info';
 
 import '@/i18n'; // Initialize i18n
 import AppNavigator from '@/navigation';
@@ -36,6 +37,7 @@ import { FieldTextStyleProvider } from '@/contexts/FieldTextStyleContext';
 import { FloatingImportIndicator } from '@/components';
 import { DevModePanel } from '@/components/DevModePanel';
 import { ServiceContainer } from '@/services/container';
+import { reattestOnSignInRequired } from '@/services/attestation';
 import { chatService } from '@/services/chat';
 import { initializePodcastCache } from '@/services/podcastService';
 
@@ -237,6 +239,22 @@ async function handleAppForeground(): Promise<void> {
         chatService.startRetryTimer();
       }
     }
+
+    // Daily check-in: returning to the app counts as "I'm OK" (when enabled)
+    try {
+      const { checkInService } = await import('@/services/checkIn');
+      await checkInService.onAppActive();
+    } catch (checkInError) {
+      console.warn('[App] Check-in failed:', checkInError);
+    }
+
+    // Daily medication summary to the chosen ICE contact (when due)
+    try {
+      const { sendDailySummaryIfDue } = await import('@/services/medicationSummary');
+      await sendDailySummaryIfDue();
+    } catch (summaryError) {
+      console.warn('[App] Medication summary failed:', summaryError);
+    }
   } catch (error) {
     console.error('[App] Error in foreground handler:', error);
   }
@@ -293,6 +311,12 @@ async function initializeApp(): Promise<void> {
     }
   }
 
+  // The gateway refused our tokens (refresh token reused, device revoked)
+  reattestOnSignInRequired(async () => {
+    const profile = await ServiceContainer.database.getUserProfile();
+    return profile ? { userUuid: profile.userUuid, appVersion: DeviceInfo.getVersion() } : null;
+  });
+
   // Initialize podcast cache service (for rate limiting and caching)
   try {
     await initializePodcastCache();
@@ -312,4 +336,14 @@ async function initializeApp(): Promise<void> {
     console.warn('[App] Local notification service failed:', error);
     // Non-critical, continue anyway
   }
+
+  // Daily check-in (after notifications: it schedules its own reminder)
+  try {
+    const { checkInService } = await import('@/services/checkIn');
+    await checkInService.initialize();
+    await checkInService.onAppActive();
+  } catch (error) {
+    console.warn('[App] Check-in service failed:', error);
+    // Non-critical, continue anyway
+  }
 }
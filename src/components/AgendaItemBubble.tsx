@@ -37,6 +37,7 @@ export interface AgendaItemPayload {
   time: string | null; // "HH:MM" or null
   times?: string[];    // Multiple times (medication)
   repeat: string | null;
+  rrule?: string;      // RRULE value (weekdays, "second Tuesday")
   endDate: string | null;
   reminderOffset: string;
   isMedication: boolean;
@@ -2,7 +2,8 @@
  * CalendarInvitationCard — Displays a parsed ICS calendar invitation in mail
  *
  * Shows event details (title, date, time, location, organizer) with an
- * "Add to Agenda" button that pre-fills the AgendaItemFormScreen.
+ * "Add to Agenda" button that pre-fills the AgendaItemFormScreen, and
+ * accept / tentative / decline buttons that answer the organizer.
  *
  * Senior-inclusive: 60pt+ touch targets, 18pt+ text, clear visual hierarchy.
  *
@@ -25,6 +26,8 @@ import { useColors } from '@/contexts/ThemeContext';
 import { useModuleColor } from '@/contexts/ModuleColorsContext';
 import { useAccentColor } from '@/hooks/useAccentColor';
 import type { ParsedCalendarEvent } from '@/services/mail/icsParser';
+import { canReplyToInvitation, type InvitationResponse } from '@/services/mail/icsWriter';
+import { parseRRule, describeRecurrence } from '@/services/agendaRecurrence';
 
 // ============================================================
 // Types
@@ -35,8 +38,20 @@ export interface CalendarInvitationCardProps {
   event: ParsedCalendarEvent;
   /** Callback to add event to agenda (navigates to form with pre-filled data) */
   onAddToAgenda: (event: ParsedCalendarEvent) => void;
+  /** Send an iTIP reply to the organizer; resolves false when sending failed */
+  onRespond?: (event: ParsedCalendarEvent, response: InvitationResponse) => Promise<boolean>;
 }
 
+// ============================================================
+// Constants
+// ============================================================
+
+const RESPONSES: { value: InvitationResponse; icon: string }[] = [
+  { value: 'accepted', icon: '✅' },
+  { value: 'tentative', icon: '❔' },
+  { value: 'declined', icon: '❌' },
+];
+
 // ============================================================
 // Helpers
 // ============================================================
@@ -82,13 +97,18 @@ function formatEndTime(date: Date, locale: string): string {
 export function CalendarInvitationCard({
   event,
   onAddToAgenda,
+  onRespond,
 }: CalendarInvitationCardProps) {
   const { t, i18n } = useTranslation();
   const themeColors = useColors();
   const moduleColor = useModuleColor('agenda');
   const { accentColor } = useAccentColor();
   const locale = getLocaleString(i18n.language);
+  const recurrenceRule = event.rrule ? parseRRule(event.rrule) : null;
   const [isAdded, setIsAdded] = useState(false);
+  const [response, setResponse] = useState<InvitationResponse | null>(null);
+  const [pendingResponse, setPendingResponse] = useState<InvitationResponse | null>(null);
+  const canRespond = !!onRespond && canReplyToInvitation(event);
 
   const handleAdd = useCallback(() => {
     if (!isAdded) {
@@ -97,6 +117,14 @@ export function CalendarInvitationCard({
     }
   }, [onAddToAgenda, event, isAdded]);
 
+  const handleRespond = useCallback(async (value: InvitationResponse) => {
+    if (!onRespond || pendingResponse) return;
+    setPendingResponse(value);
+    const sent = await onRespond(event, value);
+    setPendingResponse(null);
+    if (sent) setResponse(value);
+  }, [onRespond, event, pendingResponse]);
+
   return (
     <View
       style={[
@@ -192,12 +220,60 @@ export function CalendarInvitationCard({
           <View style={styles.detailRow}>
             <Icon name="refresh" size={20} color={moduleColor} />
             <Text style={[styles.detailText, { color: themeColors.textSecondary }]}>
-              {t(`modules.mail.ics.recurring.${event.rruleFreq.toLowerCase()}`, event.rruleFreq)}
+              {recurrenceRule
+                ? describeRecurrence(recurrenceRule, t, locale)
+                : t(`modules.mail.ics.recurring.${event.rruleFreq.toLowerCase()}`, event.rruleFreq)}
             </Text>
           </View>
         )}
       </View>
 
+      {/* Reply to organizer */}
+      {canRespond && (
+        <View style={styles.respondContainer}>
+          {response ? (
+            <Text
+              style={[styles.respondedText, { color: themeColors.textPrimary }]}
+              accessibilityLiveRegion="polite"
+            >
+              {t(`modules.mail.ics.responded.${response}`)}
+            </Text>
+          ) : (
+            <>
+              <Text style={[styles.respondTitle, { color: themeColors.textPrimary }]}>
+                {t('modules.mail.ics.respondTitle')}
+              </Text>
+              <View style={styles.respondRow}>
+                {RESPONSES.map(({ value, icon }) => (
+                  <HapticTouchable
+                    key={value}
+                    style={[
+                      styles.respondButton,
+                      { borderColor: accentColor.primary },
+                      pendingResponse === value && { backgroundColor: accentColor.primary + '15' },
+                    ]}
+                    onPress={() => void handleRespond(value)}
+                    disabled={pendingResponse !== null}
+                    accessibilityRole="button"
+                    accessibilityLabel={t(`modules.mail.ics.respond.${value}`)}
+                    accessibilityState={{ busy: pendingResponse === value, disabled: pendingResponse !== null }}
+                  >
+                    <Text style={styles.respondIcon}>{icon}</Text>
+                    <Text
+                      style={[styles.respondButtonText, { color: accentColor.primary }]}
+                      numberOfLines={1}
+                      adjustsFontSizeToFit
+                    >
+                      {t(`modules.mail.ics.respond.${value}`)}
+                    </Text>
+                  </HapticTouchable>
+                ))}
+              </View>
+            </>
+          )}
+        </View>
+      )}
+
       {/* Action Button */}
       <View style={styles.actionContainer}>
         <HapticTouchable
@@ -277,6 +353,40 @@ const styles = StyleSheet.create({
     ...typography.body,
     flex: 1,
   },
+  respondContainer: {
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.md,
+    gap: spacing.sm,
+  },
+  respondTitle: {
+    ...typography.body,
+    fontWeight: '700',
+  },
+  respondedText: {
+    ...typography.body,
+    fontWeight: '600',
+  },
+  respondRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  respondButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: touchTargets.comfortable,
+    borderRadius: borderRadius.md,
+    borderWidth: 2,
+    paddingHorizontal: spacing.xs,
+    gap: spacing.xs,
+  },
+  respondIcon: {
+    fontSize: 20,
+  },
+  respondButtonText: {
+    ...typography.small,
+    fontWeight: '700',
+  },
   actionContainer: {
     paddingHorizontal: spacing.md,
     paddingBottom: spacing.md,
@@ -0,0 +1,101 @@
+/**
+ * CheckInBanner — Big "Alles goed" button on the home screen
+ *
+ * Only visible when the daily check-in is on and the user has not
+ * checked in yet today. One tap lets the emergency contacts know all
+ * is well (or cancels the worry when an alert already went out).
+ *
+ * Senior-inclusive design:
+ * - Large touch target (84pt)
+ * - One action, clear wording
+ * - VoiceOver/TalkBack support
+ *
+ * @see services/checkIn.ts
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTranslation } from 'react-i18next';
+
+import { colors, typography, spacing, touchTargets, borderRadius } from '@/theme';
+import { HapticTouchable } from './HapticTouchable';
+import { useColors } from '@/contexts/ThemeContext';
+import { useFeedback } from '@/hooks/useFeedback';
+import { checkInService, type CheckInStatus } from '@/services/checkIn';
+
+export function CheckInBanner() {
+  const { t } = useTranslation();
+  const themeColors = useColors();
+  const { triggerFeedback } = useFeedback();
+  const [status, setStatus] = useState<CheckInStatus>('off');
+  const [deadline, setDeadline] = useState('');
+
+  useEffect(() => {
+    const refresh = () => {
+      void checkInService.evaluate().then(evaluation => setStatus(evaluation.status));
+      void checkInService.getSettings().then(settings => setDeadline(settings.deadline));
+    };
+    refresh();
+    return checkInService.subscribe(refresh);
+  }, []);
+
+  const handleCheckIn = useCallback(() => {
+    void triggerFeedback('success');
+    void checkInService.checkIn('button');
+  }, [triggerFeedback]);
+
+  if (status !== 'waiting' && status !== 'overdue') return null;
+
+  return (
+    <View style={styles.container}>
+      <HapticTouchable
+        hapticDisabled
+        style={[styles.button, { backgroundColor: themeColors.success ?? colors.success }]}
+        onPress={handleCheckIn}
+        accessibilityRole="button"
+        accessibilityLabel={t('checkIn.button')}
+        accessibilityHint={t('checkIn.buttonHint', { time: deadline })}
+      >
+        <Text style={styles.emoji}>👍</Text>
+        <View style={styles.textContainer}>
+          <Text style={styles.title}>{t('checkIn.button')}</Text>
+          <Text style={styles.hint}>
+            {status === 'overdue'
+              ? t('checkIn.overdueHint')
+              : t('checkIn.buttonHint', { time: deadline })}
+          </Text>
+        </View>
+      </HapticTouchable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.md,
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minHeight: touchTargets.large,
+    borderRadius: borderRadius.lg,
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    gap: spacing.md,
+  },
+  emoji: {
+    fontSize: 36,
+  },
+  textContainer: {
+    flex: 1,
+  },
+  title: {
+    ...typography.h2,
+    color: colors.textOnPrimary,
+  },
+  hint: {
+    ...typography.body,
+    color: colors.textOnPrimary,
+  },
+});
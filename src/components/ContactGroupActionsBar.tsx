@@ -6,6 +6,7 @@
  * 2. Groepsbericht — navigates to group chat
  * 3. Groepsmail — navigates to mail compose
  * 4. Bel iemand — shows contact picker for 1-on-1 call
+ * 5. Groepsgesprek — video call with the whole group (when onGroupCall is set)
  *
  * Senior-inclusive design:
  * - 60pt minimum touch targets
@@ -46,6 +47,8 @@ export interface ContactGroupActionsBarProps {
   onSendMail: () => void;
   /** Callback: call a group member (shows picker) */
   onCallMember: () => void;
+  /** Callback: video call the whole group (omit to hide) */
+  onGroupCall?: () => void;
   /** Module accent color */
   accentColor?: string;
 }
@@ -61,6 +64,7 @@ export function ContactGroupActionsBar({
   onSendMessage,
   onSendMail,
   onCallMember,
+  onGroupCall,
   accentColor,
 }: ContactGroupActionsBarProps) {
   const { t } = useTranslation();
@@ -92,6 +96,14 @@ export function ContactGroupActionsBar({
       label: t('contacts.groups.groupActions.callMember', 'Bellen'),
       onPress: onCallMember,
     },
+    ...(onGroupCall
+      ? [{
+        key: 'groupCall',
+        icon: 'videocam' as const,
+        label: t('contacts.groups.groupActions.groupCall', 'Groepsgesprek'),
+        onPress: onGroupCall,
+      }]
+      : []),
   ];
 
   return (
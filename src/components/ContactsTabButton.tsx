@@ -0,0 +1,138 @@
+/**
+ * ContactsTabButton — Senior-inclusive tab button for a contact list
+ *
+ * Follows the same visual pattern as RecentTabButton and FavoriteTabButton:
+ * - Icon (contacts) + label in vertical column layout
+ * - No counter badge (same as RecentTabButton)
+ * - 72pt min height touch target
+ * - Haptic feedback on press
+ * - User-configurable button border support
+ * - adjustsFontSizeToFit with minimumFontScale for long labels
+ *
+ * @see RecentTabButton.tsx (Recent tab next to it in CallsScreen)
+ * @see FavoriteButton.tsx (FavoriteTabButton)
+ * @see .claude/CLAUDE.md Section 14 (Component Registry)
+ */
+
+import React from 'react';
+import { Text, StyleSheet } from 'react-native';
+import { useTranslation } from 'react-i18next';
+
+import { Icon } from './Icon';
+import { HapticTouchable } from './HapticTouchable';
+import { useAccentColor } from '@/hooks/useAccentColor';
+import { useButtonStyleSafe } from '@/contexts/ButtonStyleContext';
+import { colors, typography, spacing, touchTargets, borderRadius } from '@/theme';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface ContactsTabButtonProps {
+  /** Whether this tab is active */
+  isActive: boolean;
+  /** Callback when pressed */
+  onPress: () => void;
+  /** Tab label (default: uses i18n 'navigation.contacts') */
+  label?: string;
+  /** Synchronized font size from TabButtonRow (overrides base size) */
+  syncedFontSize?: number;
+}
+
+// ============================================================
+// ContactsTabButton — Tab variant with contacts icon + label
+// ============================================================
+
+/**
+ * Tab-style "contacts" button with contacts icon and label
+ *
+ * @example
+ * <ContactsTabButton
+ *   isActive={activeTab === 'contacts'}
+ *   onPress={() => setActiveTab('contacts')}
+ * />
+ */
+export function ContactsTabButton({
+  isActive,
+  onPress,
+  label,
+  syncedFontSize,
+}: ContactsTabButtonProps) {
+  const { t } = useTranslation();
+  const { accentColor } = useAccentColor();
+  const buttonStyleContext = useButtonStyleSafe();
+
+  const displayLabel = label ?? t('navigation.contacts');
+
+  // User-configurable button border
+  const userBorderStyle = buttonStyleContext?.settings.borderEnabled
+    ? { borderWidth: 2, borderColor: buttonStyleContext.getBorderColorHex() }
+    : undefined;
+
+  return (
+    <HapticTouchable
+      style={[
+        styles.tab,
+        isActive
+          ? { backgroundColor: accentColor.primary }
+          : styles.tabInactive,
+        userBorderStyle,
+      ]}
+      onPress={onPress}
+      accessibilityRole="tab"
+      accessibilityState={{ selected: isActive }}
+      accessibilityLabel={displayLabel}
+    >
+      <Icon
+        name="contacts"
+        size={28}
+        color={isActive ? colors.textOnPrimary : colors.textSecondary}
+      />
+      <Text
+        style={[
+          styles.tabText,
+          isActive && styles.tabTextActive,
+          syncedFontSize != null && { fontSize: syncedFontSize },
+        ]}
+        numberOfLines={2}
+      >
+        {displayLabel}
+      </Text>
+    </HapticTouchable>
+  );
+}
+
+// ============================================================
+// Styles
+// ============================================================
+
+const styles = StyleSheet.create({
+  tab: {
+    flex: 1,
+    flexDirection: 'column',
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.surface,
+    alignItems: 'center',
+    justifyContent: 'flex-start',  // Icons align to top across all buttons
+    gap: spacing.xs,
+    minHeight: touchTargets.comfortable,  // 72pt
+  },
+  tabInactive: {
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  tabText: {
+    ...typography.body,
+    color: colors.textPrimary,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  tabTextActive: {
+    color: colors.textOnPrimary,
+  },
+});
+
+export default ContactsTabButton;
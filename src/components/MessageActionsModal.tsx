@@ -0,0 +1,245 @@
+/**
+ * MessageActionsModal — Long-press actions for a chat message
+ *
+ * Opened by long-pressing a message bubble (1-on-1 and group chat).
+ * Offers a row of reactions and, for own recent messages, edit and
+ * delete-for-everyone.
+ *
+ * Senior-inclusive design:
+ * - Large emoji buttons (60pt+) instead of a tiny reaction bar
+ * - Every action is a full-width labelled button, no icon-only actions
+ * - Tapping the current reaction again removes it
+ *
+ * @see src/services/messageActions.ts for which actions are allowed when
+ * @see src/components/ColorPickerModal.tsx (same pageSheet + LiquidGlassView pattern)
+ */
+
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+
+import { HapticTouchable } from './HapticTouchable';
+import { PanelAwareModal } from './PanelAwareModal';
+import { LiquidGlassView } from './LiquidGlassView';
+import { Icon } from './Icon';
+import { colors, typography, spacing, touchTargets, borderRadius } from '@/theme';
+import { useColors } from '@/contexts/ThemeContext';
+import { useAccentColor } from '@/hooks/useAccentColor';
+import { REACTION_EMOJIS } from '@/services/messageActions';
+import type { ModuleColorId } from '@/types/liquidGlass';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface MessageActionsModalProps {
+  /** Whether the modal is visible */
+  visible: boolean;
+  /** Module color ID for Liquid Glass tint */
+  moduleId: ModuleColorId;
+  /** Our current reaction on the message, if any */
+  myReaction?: string;
+  /** Show the reaction row */
+  canReact: boolean;
+  /** Show the edit button (own text message within the edit window) */
+  canEdit: boolean;
+  /** Show the delete-for-everyone button (own message within the window) */
+  canRetract: boolean;
+  /** Called with the chosen emoji, or null to remove our reaction */
+  onReact: (emoji: string | null) => void;
+  onEdit: () => void;
+  onRetract: () => void;
+  /** Called when the modal should close */
+  onClose: () => void;
+}
+
+// ============================================================
+// Component
+// ============================================================
+
+export function MessageActionsModal({
+  visible,
+  moduleId,
+  myReaction,
+  canReact,
+  canEdit,
+  canRetract,
+  onReact,
+  onEdit,
+  onRetract,
+  onClose,
+}: MessageActionsModalProps) {
+  const { t } = useTranslation();
+  const themeColors = useColors();
+  const { accentColor } = useAccentColor();
+
+  const handleReact = (emoji: string) => {
+    onReact(emoji === myReaction ? null : emoji);
+    onClose();
+  };
+
+  return (
+    <PanelAwareModal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+      moduleId={moduleId}
+    >
+      <LiquidGlassView moduleId={moduleId} style={styles.container} cornerRadius={0}>
+        {/* Header */}
+        <View style={[styles.header, { borderBottomColor: themeColors.border }]}>
+          <Text style={[styles.title, { color: themeColors.textPrimary }]}>
+            {t('chat.messageActions.title')}
+          </Text>
+        </View>
+
+        <View style={styles.content}>
+          {/* Reactions */}
+          {canReact && (
+            <View style={styles.reactionRow}>
+              {REACTION_EMOJIS.map((emoji) => (
+                <HapticTouchable hapticDisabled
+                  key={emoji}
+                  style={[
+                    styles.reactionButton,
+                    { backgroundColor: themeColors.surface, borderColor: themeColors.border },
+                    myReaction === emoji && { borderColor: accentColor.primary },
+                  ]}
+                  onPress={() => handleReact(emoji)}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: myReaction === emoji }}
+                  accessibilityLabel={t('chat.messageActions.reactLabel', { emoji })}
+                >
+                  <Text style={styles.reactionEmoji}>{emoji}</Text>
+                </HapticTouchable>
+              ))}
+            </View>
+          )}
+
+          {/* Edit */}
+          {canEdit && (
+            <HapticTouchable hapticDisabled
+              style={[styles.actionButton, { backgroundColor: themeColors.surface }]}
+              onPress={() => {
+                onClose();
+                onEdit();
+              }}
+              accessibilityRole="button"
+              accessibilityLabel={t('chat.messageActions.edit')}
+            >
+              <Icon name="pencil" size={24} color={themeColors.textPrimary} />
+              <Text style={[styles.actionText, { color: themeColors.textPrimary }]}>
+                {t('chat.messageActions.edit')}
+              </Text>
+            </HapticTouchable>
+          )}
+
+          {/* Delete for everyone */}
+          {canRetract && (
+            <HapticTouchable hapticDisabled
+              style={[styles.actionButton, { backgroundColor: themeColors.surface }]}
+              onPress={() => {
+                onClose();
+                onRetract();
+              }}
+              accessibilityRole="button"
+              accessibilityLabel={t('chat.messageActions.deleteForEveryone')}
+            >
+              <Icon name="trash" size={24} color={colors.error} />
+              <Text style={[styles.actionText, { color: colors.error }]}>
+                {t('chat.messageActions.deleteForEveryone')}
+              </Text>
+            </HapticTouchable>
+          )}
+        </View>
+
+        {/* Cancel button at bottom */}
+        <View style={[styles.footer, { borderTopColor: themeColors.border }]}>
+          <HapticTouchable hapticDisabled
+            style={[styles.cancelButton, { backgroundColor: accentColor.primary }]}
+            onPress={onClose}
+            accessibilityRole="button"
+            accessibilityLabel={t('common.cancel')}
+          >
+            <Text style={styles.cancelButtonText}>
+              {t('common.cancel')}
+            </Text>
+          </HapticTouchable>
+        </View>
+      </LiquidGlassView>
+    </PanelAwareModal>
+  );
+}
+
+// ============================================================
+// Styles
+// ============================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    padding: spacing.lg,
+    borderBottomWidth: 1,
+    alignItems: 'center',
+  },
+  title: {
+    ...typography.h3,
+  },
+  content: {
+    padding: spacing.lg,
+    gap: spacing.md,
+  },
+  reactionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: spacing.md,
+    marginBottom: spacing.md,
+  },
+  reactionButton: {
+    width: touchTargets.comfortable,
+    height: touchTargets.comfortable,
+    borderRadius: borderRadius.md,
+    borderWidth: 3,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  reactionEmoji: {
+    fontSize: 32,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    minHeight: touchTargets.comfortable,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.lg,
+  },
+  actionText: {
+    ...typography.bodyBold,
+  },
+  footer: {
+    padding: spacing.lg,
+    borderTopWidth: 1,
+  },
+  cancelButton: {
+    minHeight: touchTargets.comfortable,
+    borderRadius: borderRadius.md,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+  },
+  cancelButtonText: {
+    ...typography.bodyBold,
+    color: colors.textOnPrimary,
+  },
+});
+
+export default MessageActionsModal;
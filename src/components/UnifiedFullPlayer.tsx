@@ -108,6 +108,9 @@ export interface UnifiedFullPlayerProps {
   // ── Listen duration (radio) ──
   listenDuration?: number;
 
+  // ── Offline (podcast) — playing a downloaded file instead of streaming ──
+  isPlayingOffline?: boolean;
+
   // ── Apple Music specific ──
   isInLibrary?: boolean;
   isAddingToLibrary?: boolean;
@@ -177,6 +180,7 @@ export function UnifiedFullPlayer(props: UnifiedFullPlayerProps) {
     sleepTimerMinutes,
     onSleepTimerPress,
     listenDuration,
+    isPlayingOffline,
     isInLibrary,
     isAddingToLibrary,
     onAddToLibraryPress,
@@ -312,6 +316,20 @@ export function UnifiedFullPlayer(props: UnifiedFullPlayerProps) {
           ) : null}
         </View>
 
+        {/* Zone 3b: Offline indicator (podcast) */}
+        {isPlayingOffline && (
+          <View
+            style={styles.listenDurationContainer}
+            accessible={true}
+            accessibilityLabel={t('modules.podcast.downloads.playingOffline')}
+          >
+            <Icon name="download" size={18} color="rgba(255,255,255,0.8)" />
+            <Text style={styles.listenDurationText}>
+              {t('modules.podcast.downloads.playingOffline')}
+            </Text>
+          </View>
+        )}
+
         {/* Zone 4a: Listen duration (radio) */}
         {hasListenDuration && (
           <View style={styles.listenDurationContainer}>
@@ -0,0 +1,327 @@
+/**
+ * VoiceMessageBubble — Voice message playback in chat
+ *
+ * Renders a voice message with:
+ * - Large play/pause button
+ * - Waveform that fills up while playing
+ * - Speed toggle (0.75× / 1× / 1.5×) — many seniors prefer slower playback
+ * - Duration label
+ * - On-device transcript below the waveform when available
+ *
+ * Only one voice message plays at a time: the native player stops the
+ * previous one, and this bubble resets when another message starts.
+ *
+ * @see src/services/media/mediaService.ts — playVoice / onVoicePlayback
+ * @see src/components/PhotoMessageBubble.tsx (same bubble layout)
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTranslation } from 'react-i18next';
+
+import { Icon } from '@/components/Icon';
+import { HapticTouchable } from '@/components/HapticTouchable';
+import { typography, spacing, borderRadius, touchTargets } from '@/theme';
+import { useColors } from '@/contexts/ThemeContext';
+import {
+  playVoice,
+  pauseVoice,
+  setVoiceRate,
+  onVoicePlayback,
+  MEDIA_DEFAULTS,
+} from '@/services/media/mediaService';
+import { getMediaUri } from '@/services/media/mediaStorageService';
+
+// ============================================================
+// Constants
+// ============================================================
+
+const LOG_PREFIX = '[VoiceMessageBubble]';
+
+const PLAYBACK_RATES = MEDIA_DEFAULTS.voice.playbackRates;
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface VoiceMessageBubbleProps {
+  /** Local file URI, when known */
+  uri?: string;
+  /** Media ID in mediaStorageService — used when uri is not known */
+  mediaId?: string;
+  /** Duration in seconds */
+  duration: number;
+  /** Waveform bars (0-1) */
+  waveform: number[];
+  /** On-device transcript */
+  transcript?: string;
+  /** Whether this is the sender's own message */
+  isOwn: boolean;
+  /** Message timestamp */
+  timestamp: number;
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+/** 75 → "1:15" */
+function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const minutes = Math.floor(total / 60);
+  const rest = total % 60;
+  return `${minutes}:${rest.toString().padStart(2, '0')}`;
+}
+
+/** Native events report plain paths, stored URIs may carry file:// */
+function isSameFile(a: string, b: string): boolean {
+  return a.replace('file://', '') === b.replace('file://', '');
+}
+
+// ============================================================
+// Component
+// ============================================================
+
+export function VoiceMessageBubble({
+  uri,
+  mediaId,
+  duration,
+  waveform,
+  transcript,
+  isOwn,
+  timestamp,
+}: VoiceMessageBubbleProps) {
+  const { t } = useTranslation();
+  const themeColors = useColors();
+
+  const [resolvedUri, setResolvedUri] = useState<string | null>(uri ?? null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [position, setPosition] = useState(0);
+  const [rate, setRate] = useState<number>(1);
+
+  // Older rows only keep the media ID — look the file up once
+  useEffect(() => {
+    if (uri) {
+      setResolvedUri(uri);
+      return;
+    }
+    if (!mediaId) return;
+
+    let cancelled = false;
+    void getMediaUri(mediaId).then((path) => {
+      if (!cancelled && path) setResolvedUri(`file://${path}`);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [uri, mediaId]);
+
+  // Follow native playback progress for this message only
+  useEffect(() => {
+    if (!resolvedUri) return;
+
+    return onVoicePlayback(
+      (playingUri, playbackPosition) => {
+        if (isSameFile(playingUri, resolvedUri)) {
+          setPosition(playbackPosition);
+        } else {
+          // Another voice message took over the player
+          setIsPlaying(false);
+        }
+      },
+      (endedUri) => {
+        if (isSameFile(endedUri, resolvedUri)) {
+          setIsPlaying(false);
+          setPosition(0);
+        }
+      },
+    );
+  }, [resolvedUri]);
+
+  const handlePlayPause = useCallback(async () => {
+    if (!resolvedUri) return;
+
+    if (isPlaying) {
+      const pausedAt = await pauseVoice();
+      setPosition(pausedAt);
+      setIsPlaying(false);
+      return;
+    }
+
+    const started = await playVoice(resolvedUri, position, rate);
+    if (started) {
+      setIsPlaying(true);
+    } else {
+      console.warn(LOG_PREFIX, 'Playback did not start');
+    }
+  }, [resolvedUri, isPlaying, position, rate]);
+
+  const handleRate = useCallback(() => {
+    const index = PLAYBACK_RATES.indexOf(rate as typeof PLAYBACK_RATES[number]);
+    const nextRate = PLAYBACK_RATES[(index + 1) % PLAYBACK_RATES.length];
+    setRate(nextRate);
+    if (isPlaying) {
+      void setVoiceRate(nextRate);
+    }
+  }, [rate, isPlaying]);
+
+  const formatTime = useCallback((ts: number): string => {
+    return new Date(ts).toLocaleTimeString([], {
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  }, []);
+
+  const progress = duration > 0 ? Math.min(1, position / duration) : 0;
+  const foregroundColor = isOwn ? themeColors.textOnPrimary : themeColors.textPrimary;
+  const playedColor = isOwn ? themeColors.textOnPrimary : themeColors.primary;
+  const unplayedColor = isOwn ? 'rgba(255, 255, 255, 0.4)' : themeColors.border;
+  const rateLabel = t('chat.voice.speed', { rate });
+
+  return (
+    <View
+      style={[
+        styles.container,
+        isOwn
+          ? [styles.ownMessage, { backgroundColor: themeColors.primary }]
+          : [styles.otherMessage, { backgroundColor: themeColors.surface }],
+      ]}
+    >
+      <View style={styles.playerRow}>
+        <HapticTouchable
+          style={[
+            styles.playButton,
+            { backgroundColor: isOwn ? 'rgba(255, 255, 255, 0.2)' : themeColors.backgroundSecondary },
+          ]}
+          onPress={() => void handlePlayPause()}
+          disabled={!resolvedUri}
+          accessibilityRole="button"
+          accessibilityLabel={isPlaying
+            ? t('chat.voice.pause')
+            : t('chat.voice.play', { duration: formatDuration(duration) })}
+          accessibilityState={{ disabled: !resolvedUri }}
+        >
+          <Icon name={isPlaying ? 'pause' : 'play'} size={28} color={foregroundColor} />
+        </HapticTouchable>
+
+        {/* Waveform — bars left of the playhead are "played" */}
+        <View
+          style={styles.waveform}
+          accessible={true}
+          accessibilityLabel={t('chat.voice.duration', { duration: formatDuration(duration) })}
+        >
+          {waveform.map((level, index) => (
+            <View
+              key={index}
+              style={[
+                styles.waveformBar,
+                {
+                  height: `${Math.max(10, Math.round(level * 100))}%`,
+                  backgroundColor: index / waveform.length < progress ? playedColor : unplayedColor,
+                },
+              ]}
+            />
+          ))}
+        </View>
+
+        <HapticTouchable
+          style={styles.rateButton}
+          onPress={handleRate}
+          accessibilityRole="button"
+          accessibilityLabel={rateLabel}
+        >
+          <Text style={[styles.rateText, { color: foregroundColor }]}>
+            {rateLabel}
+          </Text>
+        </HapticTouchable>
+      </View>
+
+      {transcript ? (
+        <Text
+          style={[styles.transcript, { color: foregroundColor }]}
+          accessibilityLabel={t('chat.voice.transcriptLabel', { transcript })}
+          selectable
+        >
+          {transcript}
+        </Text>
+      ) : null}
+
+      <View style={styles.footer}>
+        <Text style={[styles.footerText, { color: isOwn ? 'rgba(255, 255, 255, 0.7)' : themeColors.textTertiary }]}>
+          {formatDuration(isPlaying || position > 0 ? position : duration)}
+        </Text>
+        <Text style={[styles.footerText, { color: isOwn ? 'rgba(255, 255, 255, 0.7)' : themeColors.textTertiary }]}>
+          {formatTime(timestamp)}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+// ============================================================
+// Styles
+// ============================================================
+
+const styles = StyleSheet.create({
+  container: {
+    width: '80%',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.lg,
+    marginBottom: spacing.sm,
+  },
+  ownMessage: {
+    alignSelf: 'flex-end',
+    borderBottomRightRadius: borderRadius.sm,
+  },
+  otherMessage: {
+    alignSelf: 'flex-start',
+    borderBottomLeftRadius: borderRadius.sm,
+  },
+  playerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  playButton: {
+    width: touchTargets.minimum,
+    height: touchTargets.minimum,
+    borderRadius: touchTargets.minimum / 2,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  waveform: {
+    flex: 1,
+    height: 40,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+  },
+  waveformBar: {
+    flex: 1,
+    borderRadius: 2,
+  },
+  rateButton: {
+    minWidth: touchTargets.minimum,
+    height: touchTargets.minimum,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  rateText: {
+    ...typography.bodyBold,
+  },
+  transcript: {
+    ...typography.body,
+    marginTop: spacing.sm,
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: spacing.xs,
+  },
+  footerText: {
+    ...typography.small,
+  },
+});
+
+export default VoiceMessageBubble;
@@ -0,0 +1,202 @@
+/**
+ * VoiceRecordButton — Push-to-talk voice message recording
+ *
+ * Hold the microphone button to record, release to send.
+ * A recording indicator with elapsed time appears above the button.
+ *
+ * Senior-inclusive design:
+ * - 60pt button, turns red while recording
+ * - Recordings shorter than a second are discarded (accidental taps)
+ * - VoiceOver users cannot hold: double-tap starts, double-tap again sends
+ * - Recording stops by itself at the maximum duration (2 minutes)
+ *
+ * @see src/services/media/mediaService.ts — startVoiceRecording / stopVoiceRecording
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, AccessibilityInfo } from 'react-native';
+import { useTranslation } from 'react-i18next';
+
+import { Icon } from '@/components/Icon';
+import { HapticTouchable } from '@/components/HapticTouchable';
+import { colors, typography, spacing, touchTargets, borderRadius } from '@/theme';
+import { useColors } from '@/contexts/ThemeContext';
+import {
+  startVoiceRecording,
+  stopVoiceRecording,
+  MEDIA_DEFAULTS,
+} from '@/services/media/mediaService';
+import type { VoiceRecordingResult } from '@/types/media';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface VoiceRecordButtonProps {
+  /** Called with a finished recording (at least the minimum duration) */
+  onRecorded: (recording: VoiceRecordingResult) => void;
+  /** Called when recording failed or was too short */
+  onError: (reason: 'too_short' | 'failed') => void;
+  /** Disable while a previous voice message is being sent */
+  disabled?: boolean;
+}
+
+// ============================================================
+// Component
+// ============================================================
+
+export function VoiceRecordButton({
+  onRecorded,
+  onError,
+  disabled = false,
+}: VoiceRecordButtonProps) {
+  const { t } = useTranslation();
+  const themeColors = useColors();
+
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Release can arrive before the recorder has started
+  const startPromiseRef = useRef<Promise<boolean> | null>(null);
+
+  const clearTimer = useCallback(() => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+  }, []);
+
+  useEffect(() => clearTimer, [clearTimer]);
+
+  const finishRecording = useCallback(async () => {
+    const pending = startPromiseRef.current;
+    if (!pending) return;
+    startPromiseRef.current = null;
+
+    const started = await pending;
+    clearTimer();
+    setIsRecording(false);
+    if (!started) return;
+
+    const result = await stopVoiceRecording();
+    if (result.success) {
+      onRecorded(result);
+    } else {
+      onError(result.error === 'too_short' ? 'too_short' : 'failed');
+    }
+  }, [clearTimer, onRecorded, onError]);
+
+  const startRecording = useCallback(async () => {
+    if (disabled || startPromiseRef.current) return;
+
+    const startPromise = startVoiceRecording();
+    startPromiseRef.current = startPromise;
+    const started = await startPromise;
+    if (!started) {
+      startPromiseRef.current = null;
+      onError('failed');
+      return;
+    }
+    // Released while the recorder was starting — finishRecording handles it
+    if (startPromiseRef.current !== startPromise) return;
+
+    setIsRecording(true);
+    setElapsed(0);
+    AccessibilityInfo.announceForAccessibility(t('chat.voice.recording'));
+
+    const startedAt = Date.now();
+    timerRef.current = setInterval(() => {
+      const seconds = Math.floor((Date.now() - startedAt) / 1000);
+      setElapsed(seconds);
+      // Native recorder stops by itself at the maximum — send what we have
+      if (seconds >= MEDIA_DEFAULTS.voice.maxDurationSeconds) {
+        void finishRecording();
+      }
+    }, 250);
+  }, [disabled, onError, finishRecording, t]);
+
+  // VoiceOver: double-tap toggles instead of hold-and-release
+  const handleAccessibilityAction = useCallback(() => {
+    if (isRecording) {
+      void finishRecording();
+    } else {
+      void startRecording();
+    }
+  }, [isRecording, startRecording, finishRecording]);
+
+  const minutes = Math.floor(elapsed / 60);
+  const seconds = (elapsed % 60).toString().padStart(2, '0');
+
+  return (
+    <View>
+      {isRecording && (
+        <View
+          style={[styles.indicator, { backgroundColor: themeColors.surface, borderColor: colors.error }]}
+          accessibilityLiveRegion="polite"
+        >
+          <View style={styles.recordingDot} />
+          <Text style={[styles.indicatorText, { color: themeColors.textPrimary }]}>
+            {t('chat.voice.recordingElapsed', { time: `${minutes}:${seconds}` })}
+          </Text>
+        </View>
+      )}
+
+      <HapticTouchable
+        style={[
+          styles.button,
+          { backgroundColor: isRecording ? colors.error : themeColors.primary },
+          disabled && { backgroundColor: themeColors.disabled },
+        ]}
+        onPressIn={() => void startRecording()}
+        onPressOut={() => void finishRecording()}
+        disabled={disabled}
+        activeOpacity={0.8}
+        accessibilityRole="button"
+        accessibilityLabel={isRecording ? t('chat.voice.stopAndSend') : t('chat.voice.record')}
+        accessibilityHint={t('chat.voice.recordHint')}
+        accessibilityState={{ disabled, busy: isRecording }}
+        accessibilityActions={[{ name: 'activate' }]}
+        onAccessibilityAction={handleAccessibilityAction}
+      >
+        <Icon name="mic" size={28} color={themeColors.textOnPrimary} />
+      </HapticTouchable>
+    </View>
+  );
+}
+
+// ============================================================
+// Styles
+// ============================================================
+
+const styles = StyleSheet.create({
+  button: {
+    width: touchTargets.minimum,
+    height: touchTargets.minimum,
+    borderRadius: touchTargets.minimum / 2,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  indicator: {
+    position: 'absolute',
+    bottom: touchTargets.minimum + spacing.sm,
+    right: 0,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.lg,
+    borderWidth: 2,
+  },
+  recordingDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: colors.error,
+  },
+  indicatorText: {
+    ...typography.bodyBold,
+  },
+});
+
+export default VoiceRecordButton;
@@ -90,6 +90,9 @@ export type { ModuleHeaderProps } from './ModuleHeader';
 // Module Screen Layout (configurable block order for module screens)
 export { ModuleScreenLayout } from './ModuleScreenLayout';
 
+// Daily check-in button (home screen)
+export { CheckInBanner } from './CheckInBanner';
+
 // AdMob Banner Component (placeholder until real SDK is installed)
 export { AdMobBanner } from './AdMobBanner';
 export type { AdMobBannerProps } from './AdMobBanner';
@@ -106,6 +109,10 @@ export type { SearchTabButtonProps } from './SearchButton';
 export { RecentTabButton } from './RecentTabButton';
 export type { RecentTabButtonProps } from './RecentTabButton';
 
+// Contacts Tab Button Component (for CallsScreen contact list)
+export { ContactsTabButton } from './ContactsTabButton';
+export type { ContactsTabButtonProps } from './ContactsTabButton';
+
 // Library Tab Button Component (for BooksScreen)
 export { LibraryTabButton } from './LibraryTabButton';
 export type { LibraryTabButtonProps } from './LibraryTabButton';
@@ -175,6 +182,16 @@ export { FloatingImportIndicator } from './FloatingImportIndicator';
 export { ColorPickerModal } from './ColorPickerModal';
 export type { ColorPickerModalProps, ColorOption } from './ColorPickerModal';
 
+// MessageActionsModal (long-press on a chat bubble — reactions, edit, delete for everyone)
+export { MessageActionsModal } from './MessageActionsModal';
+export type { MessageActionsModalProps } from './MessageActionsModal';
+
+// Voice messages (push-to-talk recording and playback in chat)
+export { VoiceMessageBubble } from './VoiceMessageBubble';
+export type { VoiceMessageBubbleProps } from './VoiceMessageBubble';
+export { VoiceRecordButton } from './VoiceRecordButton';
+export type { VoiceRecordButtonProps } from './VoiceRecordButton';
+
 // DateTimePickerModal (app-wide standard date & time picker — native spinner in bottom-sheet)
 export { DateTimePickerModal } from './DateTimePickerModal';
 export type { DateTimePickerModalProps, DateTimePickerEvent } from './DateTimePickerModal';
@@ -51,10 +51,13 @@ import {
   SettingsMainScreen,
   ProfileSettingsScreen,
   PrivacySettingsScreen,
+  LinkedDevicesScreen,
+  BackupSettingsScreen,
   AccessibilitySettingsScreen,
   VoiceSettingsScreen,
   ModulesSettingsScreen,
   CallSettingsScreen,
+  CheckInSettingsScreen,
   ComplianceReportScreen,
   AppearanceSettingsScreen,
   MailSettingsScreen,
@@ -132,12 +135,14 @@ type SettingsPanelParams = {
   VoiceSettings: undefined;
   ModulesSettings: undefined;
   CallSettings: undefined;
+  CheckInSettings: undefined;
   ComplianceReport: undefined;
   AppearanceSettings: undefined;
   LanguageSettings: undefined;
   BackupSettings: undefined;
   DeviceTransfer: undefined;
   DeviceLinkShowQR: undefined;
+  LinkedDevices: undefined;
   PiperTtsTest: undefined;
   MailSettings: undefined;
   MailOnboarding: undefined;
@@ -480,6 +485,11 @@ function SettingsPanelNavigator() {
             component={CallSettingsScreen}
             options={{ title: t('callSettings.title') }}
           />
+          <SettingsPanelStack.Screen
+            name="CheckInSettings"
+            component={CheckInSettingsScreen}
+            options={{ title: t('checkIn.settings.title') }}
+          />
           <SettingsPanelStack.Screen
             name="AppearanceSettings"
             component={AppearanceSettingsScreen}
@@ -492,7 +502,7 @@ function SettingsPanelNavigator() {
           />
           <SettingsPanelStack.Screen
             name="BackupSettings"
-            component={PlaceholderScreen}
+            component={BackupSettingsScreen}
             options={{ title: t('settings.backup') }}
           />
           <SettingsPanelStack.Screen
@@ -504,6 +514,11 @@ function SettingsPanelNavigator() {
             component={DeviceLinkShowQRScreen}
             options={{ title: t('settings.deviceLink') }}
           />
+          <SettingsPanelStack.Screen
+            name="LinkedDevices"
+            component={LinkedDevicesScreen}
+            options={{ title: t('linkedDevices.title') }}
+          />
           <SettingsPanelStack.Screen
             name="MailSettings"
             component={MailSettingsScreen}
@@ -0,0 +1,412 @@
+/**
+ * PodcastDownloadsModal — Manage offline podcast episodes
+ *
+ * Shows:
+ * - Storage used by downloaded episodes
+ * - Download settings (Wi-Fi only, auto-delete, auto-download count)
+ * - All downloads with status, progress and pause/resume/delete
+ *
+ * Senior-inclusive design:
+ * - Large touch targets (60pt+)
+ * - Status in words, not only icons
+ * - Deleting happens only here, never from the episode list
+ *
+ * @see src/services/podcastDownloadService.ts
+ * @see .claude/skills/ui-designer/SKILL.md
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { colors, typography, spacing, touchTargets, borderRadius } from '@/theme';
+import { Icon, IconButton, PanelAwareModal, ScrollViewWithIndicator, VoiceToggle } from '@/components';
+import { HapticTouchable } from '@/components/HapticTouchable';
+import { LiquidGlassView } from '@/components/LiquidGlassView';
+import { useModuleColor } from '@/contexts/ModuleColorsContext';
+import { usePodcastContext } from '@/contexts/PodcastContext';
+import { useAccentColor } from '@/hooks/useAccentColor';
+import { useFeedback } from '@/hooks/useFeedback';
+import { useReducedMotion } from '@/hooks/useReducedMotion';
+import type { EpisodeDownload, PodcastStorageInfo } from '@/services/podcastDownloadService';
+
+// ============================================================
+// Types
+// ============================================================
+
+interface PodcastDownloadsModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+const AUTO_DOWNLOAD_OPTIONS = [0, 1, 2, 3, 5];
+
+// ============================================================
+// Helpers
+// ============================================================
+
+/**
+ * Status of a download in words, e.g. "Downloading… 45%"
+ */
+export function getDownloadStatusText(
+  download: EpisodeDownload,
+  t: (key: string, options?: Record<string, unknown>) => string,
+  isWaitingForWifi = false,
+): string {
+  switch (download.status) {
+    case 'queued':
+      return isWaitingForWifi
+        ? t('modules.podcast.downloads.waitingForWifi')
+        : t('modules.podcast.downloads.statusQueued');
+    case 'downloading': {
+      const percent = download.totalBytes > 0
+        ? Math.floor((download.bytesDownloaded / download.totalBytes) * 100)
+        : 0;
+      return t('modules.podcast.downloads.statusDownloading', { percent });
+    }
+    case 'paused':
+      return t('modules.podcast.downloads.statusPaused');
+    case 'failed':
+      return t('modules.podcast.downloads.statusFailed');
+    case 'completed':
+      return t('modules.podcast.downloads.statusCompleted');
+  }
+}
+
+// ============================================================
+// Component
+// ============================================================
+
+export function PodcastDownloadsModal({ visible, onClose }: PodcastDownloadsModalProps) {
+  const { t } = useTranslation();
+  const insets = useSafeAreaInsets();
+  const { accentColor } = useAccentColor();
+  const podcastModuleColor = useModuleColor('podcast');
+  const isReducedMotion = useReducedMotion();
+  const { triggerFeedback } = useFeedback();
+  const {
+    downloads,
+    isDownloadWaitingForWifi,
+    downloadSettings,
+    updateDownloadSettings,
+    pauseDownload,
+    resumeDownload,
+    deleteDownload,
+    getDownloadStorageInfo,
+  } = usePodcastContext();
+
+  const [storageInfo, setStorageInfo] = useState<PodcastStorageInfo | null>(null);
+
+  // Refresh storage usage when opened and whenever a download finishes or is removed
+  const completedCount = downloads.filter(d => d.status === 'completed').length;
+  useEffect(() => {
+    if (!visible) return;
+    getDownloadStorageInfo()
+      .then(setStorageInfo)
+      .catch(() => {
+        console.warn('[PodcastDownloadsModal] Failed to load storage info');
+      });
+  }, [visible, completedCount, downloads.length, getDownloadStorageInfo]);
+
+  const renderDownload = (download: EpisodeDownload) => {
+    const { episode } = download;
+    const isActive = download.status === 'queued' || download.status === 'downloading';
+    const canResume = download.status === 'paused' || download.status === 'failed';
+    const progress = download.totalBytes > 0 ? download.bytesDownloaded / download.totalBytes : 0;
+
+    return (
+      <View key={episode.id} style={styles.downloadItem}>
+        <View style={styles.downloadInfo}>
+          <Text style={styles.downloadTitle} numberOfLines={2}>
+            {episode.title}
+          </Text>
+          <Text style={styles.downloadShow} numberOfLines={1}>
+            {download.showTitle}
+          </Text>
+          <Text
+            style={[
+              styles.downloadStatus,
+              download.status === 'failed' && { color: colors.error },
+            ]}
+          >
+            {getDownloadStatusText(download, t, isDownloadWaitingForWifi)}
+          </Text>
+          {download.status === 'downloading' && (
+            <View style={styles.progressContainer}>
+              <View
+                style={[
+                  styles.progressBar,
+                  { width: `${progress * 100}%`, backgroundColor: accentColor.primary },
+                ]}
+              />
+            </View>
+          )}
+        </View>
+
+        {isActive && (
+          <IconButton
+            icon="pause"
+            onPress={() => void pauseDownload(episode.id)}
+            accessibilityLabel={t('modules.podcast.downloads.pauseDownload', { episode: episode.title })}
+            size={24}
+          />
+        )}
+        {canResume && (
+          <IconButton
+            icon="download"
+            onPress={() => void resumeDownload(episode.id)}
+            accessibilityLabel={t('modules.podcast.downloads.resumeDownload', { episode: episode.title })}
+            size={24}
+          />
+        )}
+        <IconButton
+          icon="trash"
+          onPress={() => {
+            void triggerFeedback('tap');
+            void deleteDownload(episode.id);
+          }}
+          accessibilityLabel={t('modules.podcast.downloads.deleteEpisode', { episode: episode.title })}
+          size={24}
+        />
+      </View>
+    );
+  };
+
+  return (
+    <PanelAwareModal
+      visible={visible}
+      animationType={isReducedMotion ? 'none' : 'slide'}
+      onRequestClose={onClose}
+    >
+      <LiquidGlassView moduleId="podcast" style={styles.container} cornerRadius={0}>
+        {/* Header */}
+        <View style={[styles.header, { backgroundColor: podcastModuleColor }]}>
+          <View style={{ height: insets.top }} />
+          <View style={styles.headerRow}>
+            <IconButton
+              icon="chevron-down"
+              variant="onPrimary"
+              onPress={onClose}
+              accessibilityLabel={t('common.close')}
+              size={28}
+            />
+            <Text style={styles.headerTitle} numberOfLines={1}>
+              {t('modules.podcast.downloads.title')}
+            </Text>
+          </View>
+        </View>
+
+        <ScrollViewWithIndicator
+          style={styles.content}
+          contentContainerStyle={{ paddingBottom: spacing.xxl + insets.bottom }}
+        >
+          {/* Storage info */}
+          <View style={styles.storageInfo}>
+            <Icon name="folder" size={24} color={colors.textSecondary} />
+            <Text style={styles.storageInfoText}>
+              {t('modules.podcast.downloads.storageUsed', {
+                size: storageInfo?.formattedUsed || '0 B',
+                count: storageInfo?.episodeCount ?? 0,
+              })}
+            </Text>
+          </View>
+
+          {/* Settings */}
+          <View style={styles.section}>
+            <VoiceToggle
+              id="podcast-wifi-only"
+              label={t('modules.podcast.downloads.wifiOnly')}
+              hint={t('modules.podcast.downloads.wifiOnlyHint')}
+              value={downloadSettings.wifiOnly}
+              onValueChange={(value) => void updateDownloadSettings({ wifiOnly: value })}
+              index={0}
+            />
+            <VoiceToggle
+              id="podcast-auto-delete"
+              label={t('modules.podcast.downloads.autoDelete')}
+              hint={t('modules.podcast.downloads.autoDeleteHint')}
+              value={downloadSettings.autoDeleteAfterListening}
+              onValueChange={(value) => void updateDownloadSettings({ autoDeleteAfterListening: value })}
+              index={1}
+            />
+
+            <Text style={styles.settingLabel}>{t('modules.podcast.downloads.autoDownload')}</Text>
+            <Text style={styles.settingHint}>{t('modules.podcast.downloads.autoDownloadHint')}</Text>
+            <View style={styles.optionRow}>
+              {AUTO_DOWNLOAD_OPTIONS.map((count) => {
+                const isSelected = downloadSettings.autoDownloadCount === count;
+                const label = count === 0 ? t('modules.podcast.downloads.autoDownloadOff') : String(count);
+                return (
+                  <HapticTouchable hapticDisabled
+                    key={count}
+                    style={[
+                      styles.option,
+                      { borderColor: accentColor.primary },
+                      isSelected && { backgroundColor: accentColor.primary },
+                    ]}
+                    onPress={() => {
+                      void triggerFeedback('tap');
+                      void updateDownloadSettings({ autoDownloadCount: count });
+                    }}
+                    accessibilityRole="button"
+                    accessibilityLabel={label}
+                    accessibilityState={{ selected: isSelected }}
+                  >
+                    <Text style={[styles.optionText, isSelected && { color: colors.textOnPrimary }]}>
+                      {label}
+                    </Text>
+                  </HapticTouchable>
+                );
+              })}
+            </View>
+          </View>
+
+          {/* Downloads */}
+          {downloads.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Icon name="download" size={48} color={colors.textTertiary} />
+              <Text style={styles.emptyText}>{t('modules.podcast.downloads.empty')}</Text>
+              <Text style={styles.emptyHint}>{t('modules.podcast.downloads.emptyHint')}</Text>
+            </View>
+          ) : (
+            downloads.map(renderDownload)
+          )}
+        </ScrollViewWithIndicator>
+      </LiquidGlassView>
+    </PanelAwareModal>
+  );
+}
+
+// ============================================================
+// Styles
+// ============================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.sm,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    minHeight: touchTargets.minimum,
+  },
+  headerTitle: {
+    ...typography.h3,
+    color: colors.textOnPrimary,
+    fontWeight: '700',
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: spacing.md,
+  },
+  storageInfo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.md,
+  },
+  storageInfoText: {
+    ...typography.body,
+    color: colors.textSecondary,
+  },
+  section: {
+    marginBottom: spacing.lg,
+  },
+  settingLabel: {
+    ...typography.body,
+    color: colors.textPrimary,
+    fontWeight: '700',
+    marginTop: spacing.md,
+  },
+  settingHint: {
+    ...typography.small,
+    color: colors.textSecondary,
+    marginTop: spacing.xs,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginTop: spacing.sm,
+  },
+  option: {
+    minWidth: touchTargets.minimum,
+    minHeight: touchTargets.minimum,
+    paddingHorizontal: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 2,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  optionText: {
+    ...typography.body,
+    color: colors.textPrimary,
+    fontWeight: '600',
+  },
+  downloadItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+    minHeight: touchTargets.comfortable,
+  },
+  downloadInfo: {
+    flex: 1,
+  },
+  downloadTitle: {
+    ...typography.body,
+    color: colors.textPrimary,
+    fontWeight: '600',
+  },
+  downloadShow: {
+    ...typography.small,
+    color: colors.textSecondary,
+    marginTop: spacing.xs,
+  },
+  downloadStatus: {
+    ...typography.small,
+    color: colors.textTertiary,
+    marginTop: spacing.xs,
+  },
+  progressContainer: {
+    height: 3,
+    backgroundColor: colors.border,
+    borderRadius: 2,
+    marginTop: spacing.sm,
+    overflow: 'hidden',
+  },
+  progressBar: {
+    height: '100%',
+  },
+  emptyState: {
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.xl,
+  },
+  emptyText: {
+    ...typography.body,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  emptyHint: {
+    ...typography.small,
+    color: colors.textTertiary,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,362 @@
+/**
+ * PodcastFeedsModal — Add podcasts by web address and move them between phones
+ *
+ * Shows:
+ * - Add any RSS/Atom feed by URL (no iTunes search needed)
+ * - Share all favorites as an OPML file
+ * - Import OPML files that were opened with CommEazy (or are in Downloads)
+ *
+ * Senior-inclusive design:
+ * - Large touch targets (60pt+)
+ * - Every result is spelled out in words ("8 podcasts added, 1 failed")
+ * - Family members can set up the podcasts on their own phone and send one file
+ *
+ * @see src/services/podcastOpml.ts
+ * @see .claude/skills/ui-designer/SKILL.md
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { colors, typography, spacing, touchTargets, borderRadius } from '@/theme';
+import { Button, Icon, IconButton, PanelAwareModal, ScrollViewWithIndicator, SearchBar } from '@/components';
+import { HapticTouchable } from '@/components/HapticTouchable';
+import { LiquidGlassView } from '@/components/LiquidGlassView';
+import { useModuleColor } from '@/contexts/ModuleColorsContext';
+import { usePodcastContext } from '@/contexts/PodcastContext';
+import { useAccentColor } from '@/hooks/useAccentColor';
+import { useFeedback } from '@/hooks/useFeedback';
+import { useReducedMotion } from '@/hooks/useReducedMotion';
+import { normalizeFeedUrl } from '@/services/podcastService';
+import { listOpmlFiles, readOpmlFile, type OpmlFileInfo } from '@/services/podcastOpml';
+
+// ============================================================
+// Types
+// ============================================================
+
+interface PodcastFeedsModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+interface StatusMessage {
+  text: string;
+  isError: boolean;
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+const FEED_URL_MAX_LENGTH = 500;
+
+// ============================================================
+// Component
+// ============================================================
+
+export function PodcastFeedsModal({ visible, onClose }: PodcastFeedsModalProps) {
+  const { t } = useTranslation();
+  const insets = useSafeAreaInsets();
+  const { accentColor } = useAccentColor();
+  const podcastModuleColor = useModuleColor('podcast');
+  const isReducedMotion = useReducedMotion();
+  const { triggerFeedback } = useFeedback();
+  const { subscriptions, addFeedByUrl, importFeeds, exportSubscriptions } = usePodcastContext();
+
+  const [feedUrl, setFeedUrl] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [addStatus, setAddStatus] = useState<StatusMessage | null>(null);
+
+  const [opmlFiles, setOpmlFiles] = useState<OpmlFileInfo[]>([]);
+  const [importingPath, setImportingPath] = useState<string | null>(null);
+  const [importProgress, setImportProgress] = useState<{ checked: number; total: number } | null>(null);
+  const [transferStatus, setTransferStatus] = useState<StatusMessage | null>(null);
+
+  // Look for OPML files each time the modal opens
+  useEffect(() => {
+    if (!visible) return;
+    setAddStatus(null);
+    setTransferStatus(null);
+    listOpmlFiles()
+      .then(setOpmlFiles)
+      .catch(() => {
+        console.warn('[PodcastFeedsModal] Failed to list OPML files');
+      });
+  }, [visible]);
+
+  const handleAddFeed = useCallback(async () => {
+    const normalized = normalizeFeedUrl(feedUrl);
+    if (!normalized) {
+      void triggerFeedback('error');
+      setAddStatus({ text: t('modules.podcast.feeds.invalidUrl'), isError: true });
+      return;
+    }
+
+    setIsAdding(true);
+    setAddStatus({ text: t('modules.podcast.feeds.checking'), isError: false });
+    const result = await addFeedByUrl(normalized);
+    setIsAdding(false);
+
+    if (result.data) {
+      void triggerFeedback('success');
+      setFeedUrl('');
+      setAddStatus({ text: t('modules.podcast.feeds.added', { show: result.data.title }), isError: false });
+    } else {
+      void triggerFeedback('error');
+      setAddStatus({
+        text: result.error === 'parse'
+          ? t('modules.podcast.feeds.notAFeed')
+          : t(`modules.podcast.errors.${result.error ?? 'network'}`),
+        isError: true,
+      });
+    }
+  }, [feedUrl, addFeedByUrl, triggerFeedback, t]);
+
+  const handleExport = useCallback(async () => {
+    void triggerFeedback('tap');
+    try {
+      const outcome = await exportSubscriptions();
+      if (outcome === 'saved') {
+        setTransferStatus({ text: t('modules.podcast.feeds.exportSaved'), isError: false });
+      }
+    } catch (error) {
+      console.error('[PodcastFeedsModal] Export failed:', error);
+      setTransferStatus({ text: t('modules.podcast.feeds.exportFailed'), isError: true });
+    }
+  }, [exportSubscriptions, triggerFeedback, t]);
+
+  const handleImport = useCallback(async (file: OpmlFileInfo) => {
+    void triggerFeedback('tap');
+    setImportingPath(file.path);
+    setTransferStatus(null);
+
+    try {
+      const feeds = await readOpmlFile(file.path);
+      if (feeds.length === 0) {
+        setTransferStatus({ text: t('modules.podcast.feeds.importEmpty'), isError: true });
+        return;
+      }
+
+      const result = await importFeeds(feeds, (checked, total) => setImportProgress({ checked, total }));
+      void triggerFeedback(result.failed.length > 0 ? 'warning' : 'success');
+      setTransferStatus({
+        text: t('modules.podcast.feeds.importResult', {
+          added: result.added,
+          existing: result.alreadySubscribed,
+          failed: result.failed.length,
+        }),
+        isError: result.failed.length > 0 && result.added === 0,
+      });
+    } catch (error) {
+      console.error('[PodcastFeedsModal] Import failed:', error);
+      setTransferStatus({ text: t('modules.podcast.feeds.importFailed'), isError: true });
+    } finally {
+      setImportingPath(null);
+      setImportProgress(null);
+    }
+  }, [importFeeds, triggerFeedback, t]);
+
+  const renderStatus = (status: StatusMessage | null) => status && (
+    <Text
+      style={[styles.statusText, status.isError && { color: colors.error }]}
+      accessibilityLiveRegion="polite"
+    >
+      {status.text}
+    </Text>
+  );
+
+  return (
+    <PanelAwareModal
+      visible={visible}
+      animationType={isReducedMotion ? 'none' : 'slide'}
+      onRequestClose={onClose}
+    >
+      <LiquidGlassView moduleId="podcast" style={styles.container} cornerRadius={0}>
+        {/* Header */}
+        <View style={[styles.header, { backgroundColor: podcastModuleColor }]}>
+          <View style={{ height: insets.top }} />
+          <View style={styles.headerRow}>
+            <IconButton
+              icon="chevron-down"
+              variant="onPrimary"
+              onPress={onClose}
+              accessibilityLabel={t('common.close')}
+              size={28}
+            />
+            <Text style={styles.headerTitle} numberOfLines={1}>
+              {t('modules.podcast.feeds.title')}
+            </Text>
+          </View>
+        </View>
+
+        <ScrollViewWithIndicator
+          style={styles.content}
+          contentContainerStyle={{ paddingBottom: spacing.xxl + insets.bottom }}
+          keyboardShouldPersistTaps="handled"
+        >
+          {/* Add by web address */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t('modules.podcast.feeds.addByUrl')}</Text>
+            <Text style={styles.sectionHint}>{t('modules.podcast.feeds.addByUrlHint')}</Text>
+            <SearchBar
+              value={feedUrl}
+              onChangeText={setFeedUrl}
+              onSubmit={() => {
+                if (!isAdding) void handleAddFeed();
+              }}
+              placeholder={t('modules.podcast.feeds.urlPlaceholder')}
+              searchButtonLabel={t('modules.podcast.feeds.add')}
+              maxLength={FEED_URL_MAX_LENGTH}
+              textInputProps={{
+                keyboardType: 'url',
+                autoCapitalize: 'none',
+                autoCorrect: false,
+                editable: !isAdding,
+              }}
+            />
+            {renderStatus(addStatus)}
+          </View>
+
+          {/* Share favorites */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t('modules.podcast.feeds.export')}</Text>
+            <Text style={styles.sectionHint}>{t('modules.podcast.feeds.exportHint')}</Text>
+            <Button
+              title={t('modules.podcast.feeds.exportButton', { count: subscriptions.length })}
+              onPress={() => void handleExport()}
+              disabled={subscriptions.length === 0}
+              style={styles.actionButton}
+            />
+          </View>
+
+          {/* Import from file */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t('modules.podcast.feeds.import')}</Text>
+            <Text style={styles.sectionHint}>{t('modules.podcast.feeds.importHint')}</Text>
+
+            {opmlFiles.length === 0 ? (
+              <View style={styles.emptyState}>
+                <Icon name="document" size={48} color={colors.textTertiary} />
+                <Text style={styles.emptyText}>{t('modules.podcast.feeds.noFiles')}</Text>
+              </View>
+            ) : (
+              opmlFiles.map((file) => {
+                const isImporting = importingPath === file.path;
+                return (
+                  <HapticTouchable hapticDisabled
+                    key={file.path}
+                    style={[styles.fileItem, isImporting && { borderColor: accentColor.primary }]}
+                    onPress={() => void handleImport(file)}
+                    disabled={importingPath !== null}
+                    accessibilityRole="button"
+                    accessibilityLabel={t('modules.podcast.feeds.importFile', { name: file.name })}
+                    accessibilityState={{ busy: isImporting, disabled: importingPath !== null }}
+                  >
+                    <Icon name="document" size={28} color={accentColor.primary} />
+                    <View style={styles.fileInfo}>
+                      <Text style={styles.fileName} numberOfLines={2}>
+                        {file.name}
+                      </Text>
+                      {isImporting && importProgress && (
+                        <Text style={styles.fileStatus}>
+                          {t('modules.podcast.feeds.importProgress', importProgress)}
+                        </Text>
+                      )}
+                    </View>
+                  </HapticTouchable>
+                );
+              })
+            )}
+            {renderStatus(transferStatus)}
+          </View>
+        </ScrollViewWithIndicator>
+      </LiquidGlassView>
+    </PanelAwareModal>
+  );
+}
+
+// ============================================================
+// Styles
+// ============================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.sm,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    minHeight: touchTargets.minimum,
+  },
+  headerTitle: {
+    ...typography.h3,
+    color: colors.textOnPrimary,
+    fontWeight: '700',
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: spacing.md,
+  },
+  section: {
+    marginTop: spacing.lg,
+    gap: spacing.sm,
+  },
+  sectionTitle: {
+    ...typography.body,
+    color: colors.textPrimary,
+    fontWeight: '700',
+  },
+  sectionHint: {
+    ...typography.small,
+    color: colors.textSecondary,
+  },
+  statusText: {
+    ...typography.body,
+    color: colors.textPrimary,
+  },
+  actionButton: {
+    marginTop: spacing.xs,
+  },
+  fileItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+    padding: spacing.md,
+    minHeight: touchTargets.comfortable,
+  },
+  fileInfo: {
+    flex: 1,
+  },
+  fileName: {
+    ...typography.body,
+    color: colors.textPrimary,
+    fontWeight: '600',
+  },
+  fileStatus: {
+    ...typography.small,
+    color: colors.textSecondary,
+    marginTop: spacing.xs,
+  },
+  emptyState: {
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.lg,
+  },
+  emptyText: {
+    ...typography.body,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+});
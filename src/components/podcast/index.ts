@@ -0,0 +1,8 @@
+/**
+ * Podcast Components
+ *
+ * Reusable components for the Podcast module.
+ */
+
+export { PodcastDownloadsModal, getDownloadStatusText } from './PodcastDownloadsModal';
+export { PodcastFeedsModal } from './PodcastFeedsModal';
@@ -48,7 +48,8 @@ export type AgendaCategory =
   // Custom categories use string IDs:
   | string;
 
-export type RepeatType = 'daily' | 'weekly' | 'biweekly' | 'monthly' | 'yearly';
+/** 'custom' = stored RRULE the repeat picker cannot express (e.g. from ICS import) */
+export type RepeatType = 'daily' | 'weekly' | 'biweekly' | 'monthly' | 'yearly' | 'custom';
 
 export type ReminderOffset =
   | 'at_time'
@@ -36,6 +36,8 @@ import type {
   ReminderOffset,
 } from '@/constants/agendaCategories';
 import { getCategoryIcon, getFormTypeForCategory } from '@/constants/agendaCategories';
+import { getItemRule, expandRecurrence } from '@/services/agendaRecurrence';
+import { buildAgendaCalendar, filterItemsInRange } from '@/services/mail/icsWriter';
 
 // ============================================================
 // Types
@@ -67,6 +69,8 @@ export interface TimelineItem {
   isRecurring: boolean;
   /** Repeat type */
   repeatType: RepeatType | null;
+  /** Recurrence rule (RRULE value), null when derived from repeatType */
+  rrule: string | null;
   /** End date for recurring */
   endDate: number | null;
   /** Reminder offset */
@@ -150,6 +154,10 @@ export interface AgendaContextValue {
   // Recurring item actions
   updateSingleOccurrence: (parentId: string, date: number, data: Partial<CreateAgendaItemData>) => Promise<void>;
   deleteSingleOccurrence: (parentId: string, date: number) => Promise<void>;
+
+  // ICS export (for calendars outside CommEazy)
+  buildItemCalendar: (id: string) => Promise<string>;
+  buildRangeCalendar: (rangeStart: number, rangeEnd: number) => Promise<string>;
 }
 
 export interface CreateAgendaItemData {
@@ -165,6 +173,10 @@ export interface CreateAgendaItemData {
   time?: string;
   times?: string[];
   repeatType?: RepeatType;
+  /** RRULE value (v38) — weekdays, "second Tuesday", COUNT/UNTIL */
+  rrule?: string;
+  /** Excluded days "YYYY-MM-DD" (v38 — ICS EXDATE) */
+  exdates?: string[];
   endDate?: number;
   reminderOffset: ReminderOffset;
   contactIds?: string[];
@@ -232,15 +244,20 @@ function getNextAnnualOccurrence(isoDate: string, fromDate: Date): Date | null {
   return new Date(fromDate.getFullYear() + 1, month - 1, day);
 }
 
-/** Generate recurring occurrences within a date range */
+/**
+ * Generate recurring occurrences within a date range.
+ * Days with an exception record ("alleen vandaag" edit or delete) and
+ * EXDATE days are left out; the exception record shows up on its own.
+ */
 function generateOccurrences(
   item: AgendaItemModel,
   startRange: number,
   endRange: number,
+  exceptionDays: ReadonlySet<string> = new Set(),
 ): { date: number; time: string | null; times: string[] }[] {
   const occurrences: { date: number; time: string | null; times: string[] }[] = [];
-  const repeatType = item.repeatType as RepeatType | undefined;
-  if (!repeatType) {
+  const rule = getItemRule(item);
+  if (!rule) {
     // Single occurrence
     if (item.itemDate >= startRange && item.itemDate <= endRange) {
       occurrences.push({
@@ -252,51 +269,13 @@ function generateOccurrences(
     return occurrences;
   }
 
-  // Recurring: generate occurrences (normalize to start-of-day to avoid timezone drift)
-  let current = new Date(startOfDay(item.itemDate));
-  const endDate = item.endDate ? new Date(item.endDate) : null;
-  const rangeEnd = new Date(endRange);
-
-  // Limit to prevent infinite loops
-  const maxOccurrences = 365;
-  let count = 0;
-
-  while (current.getTime() <= rangeEnd.getTime() && count < maxOccurrences) {
-    if (endDate && current > endDate) break;
-
-    if (current.getTime() >= startRange) {
-      occurrences.push({
-        date: current.getTime(),
-        time: item.time ?? null,
-        times: item.parsedTimes,
-      });
-    }
-
-    // Advance to next occurrence
-    count++;
-    switch (repeatType) {
-      case 'daily':
-        current = new Date(current.getTime() + 24 * 60 * 60 * 1000);
-        break;
-      case 'weekly':
-        current = new Date(current.getTime() + 7 * 24 * 60 * 60 * 1000);
-        break;
-      case 'biweekly':
-        current = new Date(current.getTime() + 14 * 24 * 60 * 60 * 1000);
-        break;
-      case 'monthly': {
-        const nextMonth = new Date(current);
-        nextMonth.setMonth(nextMonth.getMonth() + 1);
-        current = nextMonth;
-        break;
-      }
-      case 'yearly': {
-        const nextYear = new Date(current);
-        nextYear.setFullYear(nextYear.getFullYear() + 1);
-        current = nextYear;
-        break;
-      }
-    }
+  const excluded = new Set([...item.parsedExdates, ...exceptionDays]);
+  for (const date of expandRecurrence(rule, item.itemDate, startRange, endRange, excluded)) {
+    occurrences.push({
+      date,
+      time: item.time ?? null,
+      times: item.parsedTimes,
+    });
   }
 
   return occurrences;
@@ -308,6 +287,7 @@ function generateOccurrences(
 
 export function AgendaProvider({ children }: { children: ReactNode }) {
   const [agendaItems, setAgendaItems] = useState<AgendaItemModel[]>([]);
+  const [exceptionItems, setExceptionItems] = useState<AgendaItemModel[]>([]);
   const [contacts, setContacts] = useState<ContactModel[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
@@ -328,6 +308,10 @@ export function AgendaProvider({ children }: { children: ReactNode }) {
       const items = await AgendaItemModel.queryVisible(itemCollection).fetch();
       setAgendaItems(items);
 
+      // Exceptions incl. hidden ones (deleted single occurrences)
+      const exceptions = await itemCollection.query(Q.where('parent_id', Q.notEq(null))).fetch();
+      setExceptionItems(exceptions);
+
       // Load contacts (for dates)
       const contactCollection = db.get<ContactModel>('contacts');
       const allContacts = await ContactModel.queryAll(contactCollection).fetch();
@@ -373,6 +357,7 @@ export function AgendaProvider({ children }: { children: ReactNode }) {
             times: [],
             isRecurring: true,
             repeatType: 'yearly',
+            rrule: null,
             endDate: null,
             reminderOffset: '1_day_before',
             contactIds: [contact.id],
@@ -415,6 +400,7 @@ export function AgendaProvider({ children }: { children: ReactNode }) {
             times: [],
             isRecurring: true,
             repeatType: 'yearly',
+            rrule: null,
             endDate: null,
             reminderOffset: '1_day_before',
             contactIds: [contact.id],
@@ -456,6 +442,7 @@ export function AgendaProvider({ children }: { children: ReactNode }) {
             times: [],
             isRecurring: true,
             repeatType: 'yearly',
+            rrule: null,
             endDate: null,
             reminderOffset: '1_day_before',
             contactIds: [contact.id],
@@ -484,8 +471,22 @@ export function AgendaProvider({ children }: { children: ReactNode }) {
     // Build contact name + photo lookup
     const contactMap = new Map(contacts.map(c => [c.id, { name: c.displayName, photoPath: c.photoPath ?? null }]));
 
+    // Days overridden per recurring parent
+    const exceptionDaysByParent = new Map<string, Set<string>>();
+    for (const exception of exceptionItems) {
+      if (!exception.parentId || exception.exceptionDate === undefined) continue;
+      const days = exceptionDaysByParent.get(exception.parentId) ?? new Set<string>();
+      days.add(toDateKey(exception.exceptionDate));
+      exceptionDaysByParent.set(exception.parentId, days);
+    }
+
     for (const item of agendaItems) {
-      const occurrences = generateOccurrences(item, todayStart - 24 * 60 * 60 * 1000, rangeEnd);
+      const occurrences = generateOccurrences(
+        item,
+        todayStart - 24 * 60 * 60 * 1000,
+        rangeEnd,
+        exceptionDaysByParent.get(item.id),
+      );
       const linkedContactIds = item.parsedContactIds;
       const linkedContactNames = linkedContactIds.map(
         id => contactMap.get(id)?.name ?? '?',
@@ -513,6 +514,7 @@ export function AgendaProvider({ children }: { children: ReactNode }) {
           times: occ.times,
           isRecurring: item.isRecurring,
           repeatType: (item.repeatType as RepeatType) ?? null,
+          rrule: item.rrule ?? null,
           endDate: item.endDate ?? null,
           reminderOffset: item.reminderOffset as ReminderOffset,
           contactIds: linkedContactIds,
@@ -592,7 +594,7 @@ export function AgendaProvider({ children }: { children: ReactNode }) {
     );
 
     return { timelineDays: days, pastItems: past, allSortedItems: allItems };
-  }, [agendaItems, contacts]);
+  }, [agendaItems, exceptionItems, contacts]);
 
   // ============================================================
   // Day-by-day navigation — get items for a specific date
@@ -658,6 +660,8 @@ export function AgendaProvider({ children }: { children: ReactNode }) {
         r.time = data.time;
         r.times = data.times ? JSON.stringify(data.times) : undefined;
         r.repeatType = data.repeatType;
+        r.rrule = data.rrule;
+        r.exdates = data.exdates?.length ? JSON.stringify(data.exdates) : undefined;
         r.endDate = data.endDate;
         r.reminderOffset = data.reminderOffset;
         r.contactIds = data.contactIds ? JSON.stringify(data.contactIds) : undefined;
@@ -691,6 +695,8 @@ export function AgendaProvider({ children }: { children: ReactNode }) {
       time: data.time,
       times: data.times,
       repeatType: data.repeatType ?? null,
+      rrule: data.rrule ?? null,
+      exdates: data.exdates,
       endDate: data.endDate ?? null,
       reminderOffset: data.reminderOffset,
       contactIds: data.contactIds,
@@ -770,6 +776,7 @@ export function AgendaProvider({ children }: { children: ReactNode }) {
         ? record.parsedTimes
         : undefined,
       repeat: record.repeatType || null,
+      rrule: record.rrule,
       endDate: record.endDate
         ? new Date(record.endDate).toISOString().split('T')[0]
         : null,
@@ -854,6 +861,28 @@ export function AgendaProvider({ children }: { children: ReactNode }) {
     await loadData();
   }, [loadData]);
 
+  // ============================================================
+  // ICS Export
+  // ============================================================
+
+  const buildItemCalendar = useCallback(async (id: string) => {
+    const dbService = ServiceContainer.database as WatermelonDBService;
+    const collection = dbService.getDb().get<AgendaItemModel>('agenda_items');
+
+    const record = await collection.find(id);
+    const exceptions = await collection.query(Q.where('parent_id', id)).fetch();
+    return buildAgendaCalendar([record], exceptions);
+  }, []);
+
+  const buildRangeCalendar = useCallback(async (rangeStart: number, rangeEnd: number) => {
+    const dbService = ServiceContainer.database as WatermelonDBService;
+    const collection = dbService.getDb().get<AgendaItemModel>('agenda_items');
+
+    const items = await collection.query(Q.where('is_hidden', false)).fetch();
+    const exceptions = await collection.query(Q.where('parent_id', Q.notEq(null))).fetch();
+    return buildAgendaCalendar(filterItemsInRange(items, rangeStart, rangeEnd), exceptions);
+  }, []);
+
   // ============================================================
   // Context Value
   // ============================================================
@@ -874,6 +903,8 @@ export function AgendaProvider({ children }: { children: ReactNode }) {
     shareItem,
     updateSingleOccurrence,
     deleteSingleOccurrence,
+    buildItemCalendar,
+    buildRangeCalendar,
   }), [
     timelineDays,
     pastItems,
@@ -890,6 +921,8 @@ export function AgendaProvider({ children }: { children: ReactNode }) {
     shareItem,
     updateSingleOccurrence,
     deleteSingleOccurrence,
+    buildItemCalendar,
+    buildRangeCalendar,
   ]);
 
   return (
@@ -101,6 +101,7 @@ export function BooksProvider({ children }: BooksProviderProps) {
   // Reading state
   const [currentBook, setCurrentBook] = useState<DownloadedBook | null>(null);
   const [currentPage, setCurrentPage] = useState<string>('');
+  const [currentPageHtml, setCurrentPageHtml] = useState<string | null>(null);
   const [currentPageNumber, setCurrentPageNumber] = useState(1);
   const [totalPages, setTotalPages] = useState(0);
   const [readingProgress, setReadingProgress] = useState<ReadingProgress | null>(null);
@@ -504,6 +505,25 @@ export function BooksProvider({ children }: BooksProviderProps) {
   // Reading Actions
   // ============================================================
 
+  /**
+   * Delete a book that can't be read (unknown format or broken EPUB)
+   * and suggest downloading it again.
+   */
+  const removeUnreadableBook = useCallback(async (book: DownloadedBook) => {
+    await booksStorageService.deleteBook(book.id);
+    setLibrary(prev => prev.filter(b => b.id !== book.id));
+    downloadedBookIds.current.delete(book.id);
+
+    setIsLoading(false);
+    setCurrentBook(null);
+
+    // Emit event to show error and suggestion to re-download
+    DeviceEventEmitter.emit('booksFormatError', {
+      book,
+      message: t('modules.books.errors.formatNotSupported'),
+    });
+  }, [t]);
+
   const openBook = useCallback(async (book: DownloadedBook) => {
     console.info('[BooksContext] Opening book:', book.id);
 
@@ -513,20 +533,8 @@ export function BooksProvider({ children }: BooksProviderProps) {
 
       // Check if format is supported
       if (!booksStorageService.isFormatSupported(book)) {
-        console.warn('[BooksContext] Book format not supported (EPUB):', book.localPath);
-        // Delete the EPUB file and inform user to re-download
-        await booksStorageService.deleteBook(book.id);
-        setLibrary(prev => prev.filter(b => b.id !== book.id));
-        downloadedBookIds.current.delete(book.id);
-
-        setIsLoading(false);
-        setCurrentBook(null);
-
-        // Emit event to show error and suggestion to re-download
-        DeviceEventEmitter.emit('booksFormatError', {
-          book,
-          message: t('modules.books.errors.formatNotSupported'),
-        });
+        console.warn('[BooksContext] Book format not supported:', book.localPath);
+        await removeUnreadableBook(book);
         return;
       }
 
@@ -544,6 +552,7 @@ export function BooksProvider({ children }: BooksProviderProps) {
         // Load the page
         const pageData = await booksStorageService.getPage(book, progress.currentPage, CHARS_PER_PAGE);
         setCurrentPage(pageData.content);
+        setCurrentPageHtml(pageData.html ?? null);
         setTotalPages(pageData.totalPages);
 
         // Announce resume
@@ -554,6 +563,7 @@ export function BooksProvider({ children }: BooksProviderProps) {
         // Start from beginning
         const pageData = await booksStorageService.getPage(book, 1, CHARS_PER_PAGE);
         setCurrentPage(pageData.content);
+        setCurrentPageHtml(pageData.html ?? null);
         setCurrentPageNumber(1);
         setTotalPages(pageData.totalPages);
 
@@ -617,11 +627,15 @@ export function BooksProvider({ children }: BooksProviderProps) {
       setIsLoading(false);
     } catch (error) {
       console.error('[BooksContext] openBook failed:', error);
+      if (error instanceof Error && error.message === 'EPUB_INVALID') {
+        await removeUnreadableBook(book);
+        return;
+      }
       setIsLoading(false);
       setCurrentBook(null);
       throw error;
     }
-  }, [t, i18n.language, ttsSettings.voices]);
+  }, [t, i18n.language, ttsSettings.voices, removeUnreadableBook]);
 
   const closeBook = useCallback(() => {
     // Save progress before closing
@@ -636,6 +650,7 @@ export function BooksProvider({ children }: BooksProviderProps) {
 
     setCurrentBook(null);
     setCurrentPage('');
+    setCurrentPageHtml(null);
     setCurrentPageNumber(1);
     setTotalPages(0);
     setReadingProgress(null);
@@ -654,6 +669,7 @@ export function BooksProvider({ children }: BooksProviderProps) {
     try {
       const pageData = await booksStorageService.getPage(currentBook, clampedPage, CHARS_PER_PAGE);
       setCurrentPage(pageData.content);
+      setCurrentPageHtml(pageData.html ?? null);
       setCurrentPageNumber(clampedPage);
 
       // Update progress
@@ -1775,6 +1791,7 @@ export function BooksProvider({ children }: BooksProviderProps) {
       // Reading
       currentBook,
       currentPage,
+      currentPageHtml,
       currentPageNumber,
       totalPages,
       readingProgress,
@@ -1868,6 +1885,7 @@ export function BooksProvider({ children }: BooksProviderProps) {
       currentDownload,
       currentBook,
       currentPage,
+      currentPageHtml,
       currentPageNumber,
       totalPages,
       readingProgress,
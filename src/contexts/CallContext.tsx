@@ -49,6 +49,8 @@ interface CallContextValue {
 
   // Actions
   initiateCall: (contactJid: string, type: CallType) => Promise<void>;
+  /** Call several contacts at once (through the SFU above 3 people) */
+  initiateGroupCall: (contactJids: string[], type: CallType) => Promise<void>;
   answerCall: () => Promise<void>;
   declineCall: () => Promise<void>;
   endCall: () => Promise<void>;
@@ -229,6 +231,24 @@ export function CallProvider({
     [isInitialized, audioOrchestrator]
   );
 
+  const initiateGroupCall = useCallback(
+    async (contactJids: string[], type: CallType) => {
+      if (!isInitialized) {
+        throw new Error('[CallContext] Not initialized');
+      }
+
+      try {
+        await audioOrchestrator.requestPlayback('call');
+        await callService.initiateGroupCall(contactJids, type);
+      } catch (error) {
+        console.error('[CallContext] Failed to initiate group call:', error);
+        audioOrchestrator.releasePlayback('call');
+        throw error;
+      }
+    },
+    [isInitialized, audioOrchestrator]
+  );
+
   const answerCall = useCallback(async () => {
     if (!activeCall) {
       console.warn('[CallContext] No call to answer');
@@ -356,6 +376,7 @@ export function CallProvider({
       localStream,
       remoteStreams,
       initiateCall,
+      initiateGroupCall,
       answerCall,
       declineCall,
       endCall,
@@ -373,6 +394,7 @@ export function CallProvider({
       localStream,
       remoteStreams,
       initiateCall,
+      initiateGroupCall,
       answerCall,
       declineCall,
       endCall,
@@ -6,6 +6,7 @@
  * - Playback controls (play, pause, stop, seek, skip)
  * - Episode progress tracking with resume
  * - Podcast subscriptions
+ * - Offline episode downloads (local file is preferred over streaming)
  *
  * Uses react-native-track-player for background audio with lock screen controls.
  *
@@ -38,6 +39,15 @@ import { useTranslation } from 'react-i18next';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 import { useAudioOrchestrator, type AudioSourceState } from './AudioOrchestratorContext';
+import {
+  podcastDownloadService,
+  DEFAULT_DOWNLOAD_SETTINGS,
+  type EpisodeDownload,
+  type PodcastDownloadSettings,
+  type PodcastStorageInfo,
+} from '@/services/podcastDownloadService';
+import { getPodcastByFeedUrl, type ApiResult } from '@/services/podcastService';
+import { exportOpmlFile, type OpmlFeed } from '@/services/podcastOpml';
 
 // ============================================================
 // Types
@@ -71,6 +81,12 @@ export interface EpisodeProgress {
   lastPlayedAt: number;  // timestamp
 }
 
+export interface PodcastImportResult {
+  added: number;
+  alreadySubscribed: number;
+  failed: OpmlFeed[];
+}
+
 export interface PodcastContextValue {
   // Playback state
   isPlaying: boolean;
@@ -114,6 +130,26 @@ export interface PodcastContextValue {
   // Sleep timer
   sleepTimerMinutes: number | null;
   setSleepTimer: (minutes: number | null) => void;
+
+  // Offline downloads
+  downloads: EpisodeDownload[];
+  isDownloadWaitingForWifi: boolean;
+  downloadSettings: PodcastDownloadSettings;
+  updateDownloadSettings: (changes: Partial<PodcastDownloadSettings>) => Promise<void>;
+  getDownload: (episodeId: string) => EpisodeDownload | null;
+  downloadEpisode: (episode: PodcastEpisode, show: PodcastShow) => Promise<void>;
+  pauseDownload: (episodeId: string) => Promise<void>;
+  resumeDownload: (episodeId: string) => Promise<void>;
+  deleteDownload: (episodeId: string) => Promise<void>;
+  getDownloadStorageInfo: () => Promise<PodcastStorageInfo>;
+
+  // Custom feeds and OPML
+  addFeedByUrl: (feedUrl: string) => Promise<ApiResult<PodcastShow>>;
+  importFeeds: (
+    feeds: OpmlFeed[],
+    onProgress?: (checked: number, total: number) => void,
+  ) => Promise<PodcastImportResult>;
+  exportSubscriptions: () => Promise<'shared' | 'saved'>;
 }
 
 // ============================================================
@@ -239,6 +275,9 @@ export function PodcastProvider({ children }: PodcastProviderProps) {
   const [isInitialized, setIsInitialized] = useState(false);
   const [playbackRate, setPlaybackRateState] = useState(1.0);
   const [sleepTimerMinutes, setSleepTimerMinutesState] = useState<number | null>(null);
+  const [downloads, setDownloads] = useState<EpisodeDownload[]>([]);
+  const [isDownloadWaitingForWifi, setIsDownloadWaitingForWifi] = useState(false);
+  const [downloadSettings, setDownloadSettings] = useState<PodcastDownloadSettings>(DEFAULT_DOWNLOAD_SETTINGS);
 
   // Refs for progress saving
   const progressSaveIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
@@ -258,28 +297,53 @@ export function PodcastProvider({ children }: PodcastProviderProps) {
       setIsInitialized(success);
 
       // Load subscriptions from storage
+      let storedSubscriptions: PodcastShow[] = [];
       try {
         const storedSubs = await AsyncStorage.getItem(STORAGE_KEYS.subscriptions);
         if (storedSubs) {
-          setSubscriptions(JSON.parse(storedSubs));
+          storedSubscriptions = JSON.parse(storedSubs) as PodcastShow[];
+          setSubscriptions(storedSubscriptions);
         }
       } catch (error) {
         console.error('[PodcastContext] Failed to load subscriptions:', error);
       }
 
       // Load episode progress from storage
+      let storedEpisodeProgress: Record<string, EpisodeProgress> = {};
       try {
         const storedProgress = await AsyncStorage.getItem(STORAGE_KEYS.progress);
         if (storedProgress) {
-          setEpisodeProgress(JSON.parse(storedProgress));
+          storedEpisodeProgress = JSON.parse(storedProgress) as Record<string, EpisodeProgress>;
+          setEpisodeProgress(storedEpisodeProgress);
         }
       } catch (error) {
         console.error('[PodcastContext] Failed to load episode progress:', error);
       }
+
+      // Offline downloads: resume the queue, then fetch new episodes of subscriptions
+      try {
+        setDownloadSettings(await podcastDownloadService.getSettings());
+        setDownloads(podcastDownloadService.getState().downloads);
+        void podcastDownloadService.processQueue().catch((error) => {
+          console.error('[PodcastContext] Failed to resume downloads:', error);
+        });
+        await podcastDownloadService.autoDownloadNewEpisodes(
+          storedSubscriptions,
+          (episodeId) => storedEpisodeProgress[episodeId]?.completedAt !== undefined,
+        );
+      } catch (error) {
+        console.error('[PodcastContext] Failed to initialize downloads:', error);
+      }
     };
     init();
 
+    const unsubscribeDownloads = podcastDownloadService.subscribe((state) => {
+      setDownloads(state.downloads);
+      setIsDownloadWaitingForWifi(state.isWaitingForWifi);
+    });
+
     return () => {
+      unsubscribeDownloads();
       // Clear intervals on unmount
       if (progressSaveIntervalRef.current) {
         clearInterval(progressSaveIntervalRef.current);
@@ -385,6 +449,11 @@ export function PodcastProvider({ children }: PodcastProviderProps) {
             return updated;
           });
 
+          // Listened to the end — remove the download if auto-delete is on
+          void podcastDownloadService.handleEpisodeListened(currentEpisode.id).catch((error) => {
+            console.error('[PodcastContext] Failed to remove listened download:', error);
+          });
+
           // Check if there's a next episode and emit event for UI
           if (currentShowEpisodes.length > 1) {
             const currentIndex = currentShowEpisodes.findIndex(ep => ep.id === currentEpisode.id);
@@ -530,15 +599,19 @@ export function PodcastProvider({ children }: PodcastProviderProps) {
           ? savedProgress.position
           : 0;
 
+        // Prefer the downloaded file over streaming
+        const localUri = await podcastDownloadService.getLocalUri(episode.id);
+        const url = localUri ?? episode.streamUrl;
+
         // Log the stream URL for debugging
-        console.debug('[PodcastContext] Stream URL:', episode.streamUrl);
+        console.debug('[PodcastContext] Stream URL:', url);
 
         // Use TrackPlayer.load() instead of reset()+add() to preserve the
         // AirPlay audio route. reset() causes a nil-item transition that
         // deactivates the audio session, dropping the AirPlay route.
         await TrackPlayer.load({
           id: episode.id,
-          url: episode.streamUrl,
+          url,
           title: episode.title,
           artist: show.title,
           artwork: episode.artwork || show.artwork || undefined,
@@ -634,6 +707,15 @@ export function PodcastProvider({ children }: PodcastProviderProps) {
       await TrackPlayer.stop();
       await TrackPlayer.reset();
       setIsLoading(false); // Defense-in-depth: ensure loading clears on stop
+
+      // Stopped after the completed threshold — remove the download if auto-delete is on
+      if (currentEpisode && trackProgress.duration > 0 &&
+          trackProgress.position / trackProgress.duration >= COMPLETED_THRESHOLD) {
+        void podcastDownloadService.handleEpisodeListened(currentEpisode.id).catch((error) => {
+          console.error('[PodcastContext] Failed to remove listened download:', error);
+        });
+      }
+
       setCurrentEpisode(null);
       setCurrentShow(null);
       setSleepTimer(null);
@@ -744,10 +826,19 @@ export function PodcastProvider({ children }: PodcastProviderProps) {
       return updated;
     });
 
+    // Fetch the newest episodes of the new show when auto-download is on
+    void podcastDownloadService.autoDownloadNewEpisodes(
+      [newShow],
+      (episodeId) => episodeProgress[episodeId]?.completedAt !== undefined,
+      true,
+    ).catch((error) => {
+      console.error('[PodcastContext] Failed to auto-download episodes:', error);
+    });
+
     AccessibilityInfo.announceForAccessibility(
       t('modules.podcast.subscribed', { show: show.title })
     );
-  }, [t]);
+  }, [t, episodeProgress]);
 
   const unsubscribe = useCallback(async (showId: string) => {
     setSubscriptions(prev => {
@@ -769,6 +860,139 @@ export function PodcastProvider({ children }: PodcastProviderProps) {
     return subscriptions.some(s => s.id === showId);
   }, [subscriptions]);
 
+  // ============================================================
+  // Offline Downloads
+  // ============================================================
+
+  const updateDownloadSettings = useCallback(async (changes: Partial<PodcastDownloadSettings>) => {
+    const updated = await podcastDownloadService.saveSettings(changes);
+    setDownloadSettings(updated);
+
+    // A higher auto-download count applies right away
+    if (changes.autoDownloadCount !== undefined && changes.autoDownloadCount > 0) {
+      void podcastDownloadService.autoDownloadNewEpisodes(
+        subscriptions,
+        (episodeId) => episodeProgress[episodeId]?.completedAt !== undefined,
+        true,
+      ).catch((error) => {
+        console.error('[PodcastContext] Failed to auto-download episodes:', error);
+      });
+    }
+  }, [subscriptions, episodeProgress]);
+
+  const getDownload = useCallback((episodeId: string): EpisodeDownload | null => {
+    return downloads.find(d => d.episode.id === episodeId) ?? null;
+  }, [downloads]);
+
+  const downloadEpisode = useCallback(async (episode: PodcastEpisode, show: PodcastShow) => {
+    await podcastDownloadService.enqueue(episode, show);
+    AccessibilityInfo.announceForAccessibility(
+      t('modules.podcast.downloads.queued', { episode: episode.title })
+    );
+  }, [t]);
+
+  const pauseDownload = useCallback(async (episodeId: string) => {
+    await podcastDownloadService.pauseDownload(episodeId);
+  }, []);
+
+  const resumeDownload = useCallback(async (episodeId: string) => {
+    await podcastDownloadService.resumeDownload(episodeId);
+  }, []);
+
+  const deleteDownload = useCallback(async (episodeId: string) => {
+    await podcastDownloadService.deleteDownload(episodeId);
+    AccessibilityInfo.announceForAccessibility(t('modules.podcast.downloads.deleted'));
+  }, [t]);
+
+  const getDownloadStorageInfo = useCallback(
+    () => podcastDownloadService.getStorageInfo(),
+    []
+  );
+
+  // ============================================================
+  // Custom Feeds and OPML
+  // ============================================================
+
+  /**
+   * Subscribe to any RSS/Atom feed. The feed must have audio episodes.
+   * A feed that is already subscribed is returned as-is.
+   */
+  const addFeedByUrl = useCallback(async (feedUrl: string): Promise<ApiResult<PodcastShow>> => {
+    const existing = subscriptions.find(s => s.feedUrl === feedUrl);
+    if (existing) {
+      return { data: existing, error: null };
+    }
+
+    const result = await getPodcastByFeedUrl(feedUrl);
+    if (result.data) {
+      await subscribe(result.data);
+    }
+    return result;
+  }, [subscriptions, subscribe]);
+
+  /**
+   * Subscribe to all feeds from an OPML file. Feeds are checked one by one
+   * so a single broken feed does not stop the import.
+   */
+  const importFeeds = useCallback(async (
+    feeds: OpmlFeed[],
+    onProgress?: (checked: number, total: number) => void,
+  ): Promise<PodcastImportResult> => {
+    const knownFeedUrls = new Set(subscriptions.map(s => s.feedUrl));
+    const newShows: PodcastShow[] = [];
+    const result: PodcastImportResult = { added: 0, alreadySubscribed: 0, failed: [] };
+
+    for (let i = 0; i < feeds.length; i++) {
+      const feed = feeds[i];
+      onProgress?.(i, feeds.length);
+
+      if (knownFeedUrls.has(feed.feedUrl)) {
+        result.alreadySubscribed++;
+        continue;
+      }
+
+      const lookup = await getPodcastByFeedUrl(feed.feedUrl);
+      if (lookup.data) {
+        knownFeedUrls.add(feed.feedUrl);
+        newShows.push({ ...lookup.data, subscribedAt: Date.now() });
+      } else {
+        console.warn('[PodcastContext] Import skipped feed:', feed.feedUrl, lookup.error);
+        result.failed.push(feed);
+      }
+    }
+    onProgress?.(feeds.length, feeds.length);
+
+    if (newShows.length > 0) {
+      setSubscriptions(prev => {
+        const added = newShows.filter(show => !prev.some(s => s.id === show.id));
+        const updated = [...prev, ...added];
+        void AsyncStorage.setItem(STORAGE_KEYS.subscriptions, JSON.stringify(updated)).catch((error) => {
+          console.error('[PodcastContext] Failed to save imported subscriptions:', error);
+        });
+        return updated;
+      });
+
+      void podcastDownloadService.autoDownloadNewEpisodes(
+        newShows,
+        (episodeId) => episodeProgress[episodeId]?.completedAt !== undefined,
+        true,
+      ).catch((error) => {
+        console.error('[PodcastContext] Failed to auto-download episodes:', error);
+      });
+    }
+    result.added = newShows.length;
+
+    AccessibilityInfo.announceForAccessibility(
+      t('modules.podcast.feeds.importDone', { count: result.added })
+    );
+    return result;
+  }, [subscriptions, episodeProgress, t]);
+
+  const exportSubscriptions = useCallback(
+    () => exportOpmlFile(subscriptions),
+    [subscriptions]
+  );
+
   // ============================================================
   // Audio Orchestrator Registration + State Push
   // ============================================================
@@ -896,6 +1120,19 @@ export function PodcastProvider({ children }: PodcastProviderProps) {
       isSubscribed,
       sleepTimerMinutes,
       setSleepTimer,
+      downloads,
+      isDownloadWaitingForWifi,
+      downloadSettings,
+      updateDownloadSettings,
+      getDownload,
+      downloadEpisode,
+      pauseDownload,
+      resumeDownload,
+      deleteDownload,
+      getDownloadStorageInfo,
+      addFeedByUrl,
+      importFeeds,
+      exportSubscriptions,
     }),
     [
       isPlaying,
@@ -926,6 +1163,19 @@ export function PodcastProvider({ children }: PodcastProviderProps) {
       isSubscribed,
       sleepTimerMinutes,
       setSleepTimer,
+      downloads,
+      isDownloadWaitingForWifi,
+      downloadSettings,
+      updateDownloadSettings,
+      getDownload,
+      downloadEpisode,
+      pauseDownload,
+      resumeDownload,
+      deleteDownload,
+      getDownloadStorageInfo,
+      addFeedByUrl,
+      importFeeds,
+      exportSubscriptions,
     ]
   );
 
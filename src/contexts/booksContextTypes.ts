@@ -71,6 +71,8 @@ export interface BooksContextValue {
   // Reading
   currentBook: DownloadedBook | null;
   currentPage: string;
+  /** Sanitized XHTML of the current page (EPUB books), null for plain text */
+  currentPageHtml: string | null;
   currentPageNumber: number;
   totalPages: number;
   readingProgress: ReadingProgress | null;
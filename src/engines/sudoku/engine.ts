@@ -3,8 +3,17 @@
  *
  * Generates valid Sudoku puzzles at 4 difficulty levels by:
  * 1. Creating a fully solved grid via backtracking
- * 2. Removing cells based on difficulty
- * 3. Validating player input in real-time
+ * 2. Removing cells one by one, keeping only removals that leave exactly
+ *    one solution
+ * 3. Grading the result by the hardest technique a person needs
+ *    (see solver.ts), retrying until it matches the chosen difficulty
+ * 4. Falling back to a scrambled seed puzzle of that grade, as random
+ *    digging rarely needs the hard and expert techniques. Its clues are
+ *    then moved around, so the same seed rarely gives the same layout
+ * 5. Validating player input in real-time
+ *
+ * Generation is async and hands the JS thread back to the UI between
+ * slices of work, also inside the solver (see solver.ts).
  *
  * Solo mode only.
  *
@@ -12,6 +21,13 @@
  */
 
 import type { GameDifficulty } from '@/types/games';
+import {
+  countSolutionsAsync,
+  gradePuzzleAsync,
+  isSolvable,
+  solveLogicallyAsync,
+  DIFFICULTY_RANK,
+} from './solver';
 
 // ============================================================
 // Types
@@ -58,12 +74,54 @@ export interface SudokuState {
 export const GRID_SIZE = 9;
 export const BOX_SIZE = 3;
 
-/** Number of cells to remove per difficulty */
-const CELLS_TO_REMOVE: Record<GameDifficulty, number> = {
-  easy: 30,
-  medium: 40,
-  hard: 50,
-  expert: 56,
+/** Clues that always stay on the board, so easy puzzles don't look empty */
+const MIN_CLUES: Record<GameDifficulty, number> = {
+  easy: 36,
+  medium: 28,
+  hard: 24,
+  expert: 21,
+};
+
+/** Dig attempts before scrambling a seed puzzle instead */
+const MAX_GENERATION_ATTEMPTS = 8;
+
+/** Work between two pauses for the UI, in ms */
+const GENERATION_SLICE_MS = 12;
+
+/** Clue moves tried on a scrambled seed puzzle */
+const SEED_CLUE_MOVES = 8;
+
+/**
+ * Unique puzzles that grade exactly at their level. Scrambling keeps the
+ * grade, so each one stands for billions of different-looking puzzles.
+ */
+export const SEED_PUZZLES: Record<GameDifficulty, string[]> = {
+  easy: [
+    '000000703008040650590087420103400278050100000000073010071000945005790032040002007',
+    '060000002001000003802010900907003608310060005045800307030670001100932876086040000',
+    '000084900601509402800000500290451070087690104010007600000140050008005206700000810',
+    '010047008030200000825600040008004091490501087102003000040050000001902476060470010',
+  ],
+  medium: [
+    '040000200200037000000028640020000900000960000509700403900203500003079004010000090',
+    '200000004030405007500060200040950030020106700100000002060001028057000000810040000',
+    '000900020040005000020017000700004080090563002060000050480300007006000208001800406',
+    '007800500800560200150000608091000000400000056006070000609107020000906040000030700',
+  ],
+  hard: [
+    '300079100800006320000000700070201080040060000600040000530000001020500000000090006',
+    '010500000000431000050680003500009000006040008003000027008000000000000501400708060',
+    '020904060800500009030000000400100386067005020000000004000800600200000010056000000',
+    '891002700500100000000000020000090040100005000020040630000009000008507200073000800',
+  ],
+  expert: [
+    '000000002000000930030060008020006003000049500000000000300050040079000050006134020',
+    '000002507000300249800000000417060020036000000000050001002040100300890000070000000',
+    '000607500506100300800000009000010000060000080203500670000920000000000005001000736',
+    '006090010048200700000400032002004690000000000607900000030502040500000020000008001',
+    '003002840000070060000390000010005004400007000078003020500000070080200030902000001',
+    '000009000402000007790400160000316200900007000000204010010900800804000000000003002',
+  ],
 };
 
 // ============================================================
@@ -80,6 +138,13 @@ function cloneGrid(grid: Grid): Grid {
   return grid.map(row => [...row]);
 }
 
+/** 81 digits, row by row, 0 = empty */
+function parseGrid(digits: string): Grid {
+  return Array.from({ length: GRID_SIZE }, (_, row) =>
+    Array.from({ length: GRID_SIZE }, (__, col) => Number(digits[row * GRID_SIZE + col]) as CellValue),
+  );
+}
+
 function createLockedGrid(puzzle: Grid): boolean[][] {
   return puzzle.map(row => row.map(cell => cell !== 0));
 }
@@ -167,43 +232,154 @@ function shuffleArray<T>(array: T[]): T[] {
 }
 
 /**
- * Generate a puzzle by removing cells from a solved grid.
+ * Start of the current slice of generation work
  */
-function generatePuzzle(solution: Grid, difficulty: GameDifficulty): Grid {
+let sliceStartedAt = 0;
+
+/**
+ * Pause for the UI once the current slice of work is used up
+ */
+async function yieldToUI(): Promise<void> {
+  if (Date.now() - sliceStartedAt < GENERATION_SLICE_MS) return;
+  await new Promise(resolve => setTimeout(resolve, 0));
+  sliceStartedAt = Date.now();
+}
+
+/**
+ * Remove cells in random order. A removal is kept only when the puzzle
+ * still has one solution and doesn't need techniques above `difficulty`.
+ */
+async function digPuzzle(solution: Grid, difficulty: GameDifficulty): Promise<Grid> {
   const puzzle = cloneGrid(solution);
-  const cellsToRemove = CELLS_TO_REMOVE[difficulty];
+  const maxRank = DIFFICULTY_RANK[difficulty];
 
-  // Create list of all positions and shuffle
   const positions: CellPosition[] = [];
   for (let row = 0; row < GRID_SIZE; row++) {
     for (let col = 0; col < GRID_SIZE; col++) {
       positions.push({ row, col });
     }
   }
-  const shuffled = shuffleArray(positions);
 
-  let removed = 0;
-  for (const { row, col } of shuffled) {
-    if (removed >= cellsToRemove) break;
+  let clues = GRID_SIZE * GRID_SIZE;
+  for (const { row, col } of shuffleArray(positions)) {
+    if (clues <= MIN_CLUES[difficulty]) break;
+    await yieldToUI();
+
+    const value = puzzle[row][col];
     puzzle[row][col] = 0;
-    removed++;
+
+    const unique = await countSolutionsAsync(puzzle, 2, yieldToUI) === 1;
+    const grade = unique ? await gradePuzzleAsync(puzzle, yieldToUI) : null;
+    if (grade === null || DIFFICULTY_RANK[grade] > maxRank) {
+      puzzle[row][col] = value;
+    } else {
+      clues--;
+    }
+  }
+
+  return puzzle;
+}
+
+/**
+ * Rows (or columns) in a random order that keeps them in their band:
+ * bands shuffled, and the rows within each band
+ */
+function shuffledLines(): number[] {
+  return shuffleArray([0, 1, 2]).flatMap(band =>
+    shuffleArray([0, 1, 2]).map(line => band * BOX_SIZE + line),
+  );
+}
+
+/**
+ * A random seed puzzle of `difficulty`, with its digits relabelled, rows
+ * and columns shuffled within their bands, bands shuffled and maybe
+ * mirrored on the diagonal. Every technique works the same on the result,
+ * so the grade and the single solution carry over.
+ */
+async function scrambleSeedPuzzle(difficulty: GameDifficulty): Promise<{ solution: Grid; puzzle: Grid }> {
+  const seeds = SEED_PUZZLES[difficulty];
+  const seed = parseGrid(seeds[Math.floor(Math.random() * seeds.length)]);
+
+  const rows = shuffledLines();
+  const cols = shuffledLines();
+  const digits = [0, ...shuffleArray([1, 2, 3, 4, 5, 6, 7, 8, 9])];
+  const transpose = Math.random() < 0.5;
+
+  const scramble = (grid: Grid): Grid =>
+    rows.map(row => cols.map(col => {
+      const value = transpose ? grid[col][row] : grid[row][col];
+      return digits[value] as CellValue;
+    }));
+
+  const { grid } = await solveLogicallyAsync(seed, yieldToUI);
+  return {
+    solution: scramble(grid),
+    puzzle: scramble(seed),
+  };
+}
+
+/**
+ * Move clues of a seed puzzle to other cells, so the same seed rarely
+ * gives the same layout. Each move hides a random clue and reveals the
+ * first blank that brings back a single solution at the same grade; a
+ * clue that no blank can stand in for stays where it is.
+ */
+async function moveClues(solution: Grid, seedPuzzle: Grid, difficulty: GameDifficulty): Promise<Grid> {
+  const puzzle = cloneGrid(seedPuzzle);
+  const cellsWhere = (keep: (value: CellValue) => boolean): CellPosition[] =>
+    shuffleArray(puzzle.flatMap((cells, row) =>
+      cells.flatMap((value, col) => (keep(value) ? [{ row, col }] : [])),
+    ));
+
+  for (const hidden of cellsWhere(value => value !== 0).slice(0, SEED_CLUE_MOVES)) {
+    const blanks = cellsWhere(value => value === 0);
+    puzzle[hidden.row][hidden.col] = 0;
+
+    let moved = false;
+    for (const { row, col } of blanks) {
+      puzzle[row][col] = solution[row][col];
+      moved = await countSolutionsAsync(puzzle, 2, yieldToUI) === 1
+        && await gradePuzzleAsync(puzzle, yieldToUI) === difficulty;
+      if (moved) break;
+      puzzle[row][col] = 0;
+    }
+    if (!moved) puzzle[hidden.row][hidden.col] = solution[hidden.row][hidden.col];
   }
 
   return puzzle;
 }
 
+/**
+ * Generate a unique-solution puzzle graded exactly at `difficulty`, each
+ * attempt on a fresh solution grid. Harder grades are rare when digging
+ * at random, so after a few attempts a seed puzzle is scrambled and its
+ * clues moved instead.
+ */
+async function generatePuzzle(difficulty: GameDifficulty): Promise<{ solution: Grid; puzzle: Grid }> {
+  sliceStartedAt = Date.now();
+
+  for (let attempt = 0; attempt < MAX_GENERATION_ATTEMPTS; attempt++) {
+    const solution = createEmptyGrid();
+    fillGrid(solution);
+    const puzzle = await digPuzzle(solution, difficulty);
+    if (await gradePuzzleAsync(puzzle, yieldToUI) === difficulty) return { solution, puzzle };
+    await yieldToUI();
+  }
+
+  const { solution, puzzle } = await scrambleSeedPuzzle(difficulty);
+  return { solution, puzzle: await moveClues(solution, puzzle, difficulty) };
+}
+
 // ============================================================
 // Engine Functions
 // ============================================================
 
 /**
- * Create a new Sudoku game state.
+ * Create a new Sudoku game state. Takes a moment for the harder levels,
+ * without blocking the UI.
  */
-export function createInitialState(difficulty: GameDifficulty = 'easy'): SudokuState {
-  const solution = createEmptyGrid();
-  fillGrid(solution);
-
-  const puzzle = generatePuzzle(solution, difficulty);
+export async function createInitialState(difficulty: GameDifficulty = 'easy'): Promise<SudokuState> {
+  const { solution, puzzle } = await generatePuzzle(difficulty);
   const playerGrid = cloneGrid(puzzle);
   const locked = createLockedGrid(puzzle);
   const notes = createNotesGrid();
@@ -251,9 +427,10 @@ export function placeNumber(state: SudokuState, num: CellValue): SudokuState | n
     newNotes[row][col].clear();
   }
 
-  // Check for errors
+  // Check for errors. Generated puzzles have one solution, but games saved
+  // before that may have several: accept any number that still leads to one.
   let newErrorCount = state.errorCount;
-  if (num !== 0 && state.solution[row][col] !== num) {
+  if (num !== 0 && state.solution[row][col] !== num && !fitsAnySolution(state.puzzle, row, col, num)) {
     newErrorCount++;
   }
 
@@ -356,15 +533,37 @@ function checkCompletion(grid: Grid): boolean {
   return true;
 }
 
+/**
+ * A full grid is correct when it matches the solution, or — for older
+ * puzzles with several solutions — when it breaks no Sudoku rule.
+ */
 function checkCorrectness(playerGrid: Grid, solution: Grid): boolean {
+  let matchesSolution = true;
+  for (let r = 0; r < GRID_SIZE; r++) {
+    for (let c = 0; c < GRID_SIZE; c++) {
+      if (playerGrid[r][c] !== solution[r][c]) matchesSolution = false;
+    }
+  }
+  if (matchesSolution) return true;
+
   for (let r = 0; r < GRID_SIZE; r++) {
     for (let c = 0; c < GRID_SIZE; c++) {
-      if (playerGrid[r][c] !== solution[r][c]) return false;
+      if (hasConflict(playerGrid, r, c)) return false;
     }
   }
   return true;
 }
 
+/**
+ * Whether `num` at (row, col) is part of at least one solution of the puzzle.
+ */
+function fitsAnySolution(puzzle: Grid, row: number, col: number, num: CellValue): boolean {
+  if (!isValidPlacement(puzzle, row, col, num)) return false;
+  const withPlacement = cloneGrid(puzzle);
+  withPlacement[row][col] = num;
+  return isSolvable(withPlacement);
+}
+
 /**
  * Calculate score based on difficulty, errors, and time.
  */
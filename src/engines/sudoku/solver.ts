@@ -0,0 +1,541 @@
+/**
+ * Sudoku Solver — Uniqueness check and difficulty grading
+ *
+ * Two solvers work side by side:
+ * 1. A backtracking counter that stops after `limit` solutions, used to
+ *    prove a puzzle has exactly one solution
+ * 2. A logical solver that only uses techniques a person would use and
+ *    records which ones were needed. The hardest technique decides the
+ *    difficulty, so a puzzle with few blanks can still be "hard".
+ *
+ * Candidates are kept as bitmasks (bit n = digit n) on a flat 81-cell board.
+ *
+ * Both solvers are written as runs that pause between slices of work. The
+ * sync functions run them straight through; the async ones (used by the
+ * generator) await `pause` at every step, so the UI stays responsive.
+ *
+ * @see src/engines/sudoku/engine.ts
+ */
+
+import type { GameDifficulty } from '@/types/games';
+import type { Grid } from './engine';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type SudokuTechnique =
+  | 'naked_single'
+  | 'hidden_single'
+  | 'locked_candidates'
+  | 'naked_pair'
+  | 'hidden_pair'
+  | 'naked_triple'
+  | 'hidden_triple'
+  | 'x_wing'
+  | 'xy_wing'
+  | 'swordfish'
+  | 'xyz_wing';
+
+export interface LogicalSolveResult {
+  /** True when every cell could be filled without guessing */
+  solved: boolean;
+  /** Techniques that were needed, in the order they were first used */
+  techniques: SudokuTechnique[];
+  /** Grid as far as the logical solver got */
+  grid: Grid;
+}
+
+interface Board {
+  values: number[];
+  candidates: number[];
+}
+
+/** A solver run: yields where a caller may pause, returns the result */
+type SolverRun<T> = Generator<void, T, void>;
+
+// ============================================================
+// Constants
+// ============================================================
+
+/** Difficulty a player needs to have mastered for each technique */
+export const TECHNIQUE_DIFFICULTY: Record<SudokuTechnique, GameDifficulty> = {
+  naked_single: 'easy',
+  hidden_single: 'easy',
+  locked_candidates: 'medium',
+  naked_pair: 'medium',
+  hidden_pair: 'medium',
+  naked_triple: 'hard',
+  hidden_triple: 'hard',
+  x_wing: 'hard',
+  xy_wing: 'hard',
+  swordfish: 'expert',
+  xyz_wing: 'expert',
+};
+
+export const DIFFICULTY_RANK: Record<GameDifficulty, number> = {
+  easy: 0,
+  medium: 1,
+  hard: 2,
+  expert: 3,
+};
+
+const ALL_DIGITS = 0x3fe;
+
+/** Backtracking nodes visited between two pauses */
+const SEARCH_NODES_PER_STEP = 200;
+
+const ROWS: number[][] = Array.from({ length: 9 }, (_, r) =>
+  Array.from({ length: 9 }, (__, c) => r * 9 + c),
+);
+const COLS: number[][] = Array.from({ length: 9 }, (_, c) =>
+  Array.from({ length: 9 }, (__, r) => r * 9 + c),
+);
+const BOXES: number[][] = Array.from({ length: 9 }, (_, b) =>
+  Array.from({ length: 9 }, (__, i) =>
+    (Math.floor(b / 3) * 3 + Math.floor(i / 3)) * 9 + (b % 3) * 3 + (i % 3),
+  ),
+);
+const UNITS = [...ROWS, ...COLS, ...BOXES];
+
+const rowOf = (cell: number) => Math.floor(cell / 9);
+const colOf = (cell: number) => cell % 9;
+const boxOf = (cell: number) => Math.floor(rowOf(cell) / 3) * 3 + Math.floor(colOf(cell) / 3);
+
+const PEERS: Set<number>[] = Array.from({ length: 81 }, (_, cell) => {
+  const peers = new Set([...ROWS[rowOf(cell)], ...COLS[colOf(cell)], ...BOXES[boxOf(cell)]]);
+  peers.delete(cell);
+  return peers;
+});
+
+// ============================================================
+// Bit Helpers
+// ============================================================
+
+function bitCount(mask: number): number {
+  let count = 0;
+  let rest = mask;
+  while (rest) {
+    rest &= rest - 1;
+    count++;
+  }
+  return count;
+}
+
+function digitsOf(mask: number): number[] {
+  const digits: number[] = [];
+  for (let d = 1; d <= 9; d++) {
+    if (mask & (1 << d)) digits.push(d);
+  }
+  return digits;
+}
+
+function combinations<T>(items: T[], size: number): T[][] {
+  if (size === 0) return [[]];
+  const result: T[][] = [];
+  for (let i = 0; i <= items.length - size; i++) {
+    for (const rest of combinations(items.slice(i + 1), size - 1)) {
+      result.push([items[i], ...rest]);
+    }
+  }
+  return result;
+}
+
+function sees(a: number, b: number): boolean {
+  return PEERS[a].has(b);
+}
+
+// ============================================================
+// Board Setup
+// ============================================================
+
+/**
+ * Build a candidate board. Returns null when the givens already conflict.
+ */
+function createBoard(grid: Grid): Board | null {
+  const board: Board = {
+    values: new Array<number>(81).fill(0),
+    candidates: new Array<number>(81).fill(ALL_DIGITS),
+  };
+  for (let cell = 0; cell < 81; cell++) {
+    const value = grid[rowOf(cell)][colOf(cell)];
+    if (value === 0) continue;
+    if (!(board.candidates[cell] & (1 << value))) return null;
+    place(board, cell, value);
+  }
+  return board;
+}
+
+function place(board: Board, cell: number, digit: number): void {
+  board.values[cell] = digit;
+  board.candidates[cell] = 0;
+  const bit = 1 << digit;
+  for (const peer of PEERS[cell]) {
+    board.candidates[peer] &= ~bit;
+  }
+}
+
+/**
+ * Remove candidate bits from cells. Returns true when anything changed.
+ */
+function eliminate(board: Board, cells: Iterable<number>, mask: number): boolean {
+  let changed = false;
+  for (const cell of cells) {
+    if (board.values[cell] === 0 && board.candidates[cell] & mask) {
+      board.candidates[cell] &= ~mask;
+      changed = true;
+    }
+  }
+  return changed;
+}
+
+function toGrid(board: Board): Grid {
+  return ROWS.map(row => row.map(cell => board.values[cell])) as Grid;
+}
+
+// ============================================================
+// Techniques
+// ============================================================
+
+function nakedSingle(board: Board): boolean {
+  for (let cell = 0; cell < 81; cell++) {
+    if (board.values[cell] === 0 && bitCount(board.candidates[cell]) === 1) {
+      place(board, cell, digitsOf(board.candidates[cell])[0]);
+      return true;
+    }
+  }
+  return false;
+}
+
+function hiddenSingle(board: Board): boolean {
+  for (const unit of UNITS) {
+    for (let d = 1; d <= 9; d++) {
+      const places = unit.filter(cell => board.candidates[cell] & (1 << d));
+      if (places.length === 1) {
+        place(board, places[0], d);
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Pointing (box → line) and claiming (line → box).
+ */
+function lockedCandidates(board: Board): boolean {
+  for (let d = 1; d <= 9; d++) {
+    const bit = 1 << d;
+    for (const box of BOXES) {
+      const places = box.filter(cell => board.candidates[cell] & bit);
+      if (places.length < 2) continue;
+      const lines = [ROWS[rowOf(places[0])], COLS[colOf(places[0])]];
+      for (const line of lines) {
+        if (places.every(cell => line.includes(cell))) {
+          if (eliminate(board, line.filter(cell => !box.includes(cell)), bit)) return true;
+        }
+      }
+    }
+    for (const line of [...ROWS, ...COLS]) {
+      const places = line.filter(cell => board.candidates[cell] & bit);
+      if (places.length < 2) continue;
+      const box = BOXES[boxOf(places[0])];
+      if (places.every(cell => box.includes(cell))) {
+        if (eliminate(board, box.filter(cell => !line.includes(cell)), bit)) return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * n cells in a unit that together hold only n candidates.
+ */
+function nakedSubset(board: Board, size: number): boolean {
+  for (const unit of UNITS) {
+    const open = unit.filter(cell => {
+      const count = bitCount(board.candidates[cell]);
+      return count >= 2 && count <= size;
+    });
+    for (const group of combinations(open, size)) {
+      const mask = group.reduce((acc, cell) => acc | board.candidates[cell], 0);
+      if (bitCount(mask) !== size) continue;
+      if (eliminate(board, unit.filter(cell => !group.includes(cell)), mask)) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * n candidates in a unit that only fit in the same n cells.
+ */
+function hiddenSubset(board: Board, size: number): boolean {
+  for (const unit of UNITS) {
+    const placesByDigit = new Map<number, number[]>();
+    for (let d = 1; d <= 9; d++) {
+      const places = unit.filter(cell => board.candidates[cell] & (1 << d));
+      if (places.length >= 2 && places.length <= size) placesByDigit.set(d, places);
+    }
+    for (const digits of combinations([...placesByDigit.keys()], size)) {
+      const cells = new Set(digits.flatMap(d => placesByDigit.get(d) ?? []));
+      if (cells.size !== size) continue;
+      const keep = digits.reduce((acc, d) => acc | (1 << d), 0);
+      if (eliminate(board, cells, ALL_DIGITS & ~keep)) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * X-wing (size 2) and swordfish (size 3): n lines where a digit fits in
+ * the same n cross lines, so the digit leaves the rest of those cross lines.
+ */
+function fish(board: Board, size: number): boolean {
+  const orientations: [number[][], number[][], (cell: number) => number][] = [
+    [ROWS, COLS, colOf],
+    [COLS, ROWS, rowOf],
+  ];
+  for (let d = 1; d <= 9; d++) {
+    const bit = 1 << d;
+    for (const [baseLines, coverLines, coverIndex] of orientations) {
+      const bases = baseLines
+        .map(line => line.filter(cell => board.candidates[cell] & bit))
+        .filter(places => places.length >= 2 && places.length <= size);
+      for (const group of combinations(bases, size)) {
+        const covers = new Set(group.flat().map(coverIndex));
+        if (covers.size !== size) continue;
+        const baseCells = new Set(group.flat());
+        const targets = [...covers].flatMap(i => coverLines[i]).filter(cell => !baseCells.has(cell));
+        if (eliminate(board, targets, bit)) return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Pivot {a,b} sees pincers {a,c} and {b,c}: c leaves every cell that sees both pincers.
+ */
+function xyWing(board: Board): boolean {
+  const bivalue: number[] = [];
+  for (let cell = 0; cell < 81; cell++) {
+    if (board.values[cell] === 0 && bitCount(board.candidates[cell]) === 2) bivalue.push(cell);
+  }
+  for (const pivot of bivalue) {
+    const pivotMask = board.candidates[pivot];
+    const wings = bivalue.filter(cell => {
+      if (!sees(pivot, cell)) return false;
+      const shared = board.candidates[cell] & pivotMask;
+      return bitCount(shared) === 1;
+    });
+    for (const [first, second] of combinations(wings, 2)) {
+      const firstShared = board.candidates[first] & pivotMask;
+      const secondShared = board.candidates[second] & pivotMask;
+      if (firstShared === secondShared) continue;
+      const zFirst = board.candidates[first] & ~pivotMask;
+      const zSecond = board.candidates[second] & ~pivotMask;
+      if (zFirst !== zSecond) continue;
+      const targets = [...PEERS[first]].filter(cell => cell !== pivot && sees(second, cell));
+      if (eliminate(board, targets, zFirst)) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Pivot {x,y,z} sees pincers {x,z} and {y,z}: z leaves every cell that sees all three.
+ */
+function xyzWing(board: Board): boolean {
+  const bivalue: number[] = [];
+  for (let cell = 0; cell < 81; cell++) {
+    if (board.values[cell] === 0 && bitCount(board.candidates[cell]) === 2) bivalue.push(cell);
+  }
+  for (let pivot = 0; pivot < 81; pivot++) {
+    const pivotMask = board.candidates[pivot];
+    if (board.values[pivot] !== 0 || bitCount(pivotMask) !== 3) continue;
+    const wings = bivalue.filter(cell =>
+      sees(pivot, cell) && (board.candidates[cell] & pivotMask) === board.candidates[cell],
+    );
+    for (const [first, second] of combinations(wings, 2)) {
+      const z = board.candidates[first] & board.candidates[second];
+      if (bitCount(z) !== 1 || (board.candidates[first] | board.candidates[second]) !== pivotMask) continue;
+      const targets = [...PEERS[pivot]].filter(cell =>
+        cell !== first && cell !== second && sees(first, cell) && sees(second, cell),
+      );
+      if (eliminate(board, targets, z)) return true;
+    }
+  }
+  return false;
+}
+
+/** Ordered from easiest to hardest; the solver always tries the easiest first */
+const TECHNIQUES: [SudokuTechnique, (board: Board) => boolean][] = [
+  ['naked_single', nakedSingle],
+  ['hidden_single', hiddenSingle],
+  ['locked_candidates', lockedCandidates],
+  ['naked_pair', board => nakedSubset(board, 2)],
+  ['hidden_pair', board => hiddenSubset(board, 2)],
+  ['naked_triple', board => nakedSubset(board, 3)],
+  ['hidden_triple', board => hiddenSubset(board, 3)],
+  ['x_wing', board => fish(board, 2)],
+  ['xy_wing', xyWing],
+  ['swordfish', board => fish(board, 3)],
+  ['xyz_wing', xyzWing],
+];
+
+// ============================================================
+// Runs
+// ============================================================
+
+function* solveLogicallyRun(grid: Grid): SolverRun<LogicalSolveResult> {
+  const board = createBoard(grid);
+  if (!board) return { solved: false, techniques: [], grid };
+
+  const used = new Set<SudokuTechnique>();
+  let progress = true;
+  while (progress) {
+    yield;
+    progress = false;
+    // A cell without candidates means the givens contradict each other
+    if (board.values.some((value, cell) => value === 0 && board.candidates[cell] === 0)) break;
+    for (const [name, apply] of TECHNIQUES) {
+      if (apply(board)) {
+        used.add(name);
+        progress = true;
+        break;
+      }
+    }
+  }
+
+  return {
+    solved: board.values.every(value => value !== 0),
+    techniques: [...used],
+    grid: toGrid(board),
+  };
+}
+
+function* gradePuzzleRun(grid: Grid): SolverRun<GameDifficulty | null> {
+  const result = yield* solveLogicallyRun(grid);
+  if (!result.solved) return null;
+
+  let grade: GameDifficulty = 'easy';
+  for (const technique of result.techniques) {
+    const level = TECHNIQUE_DIFFICULTY[technique];
+    if (DIFFICULTY_RANK[level] > DIFFICULTY_RANK[grade]) grade = level;
+  }
+  return grade;
+}
+
+/** Most constrained empty cell, or -1 when the board is full */
+function mostConstrainedCell(board: Board): number {
+  let best = -1;
+  let bestCount = 10;
+  for (let cell = 0; cell < 81; cell++) {
+    if (board.values[cell] !== 0) continue;
+    const count = bitCount(board.candidates[cell]);
+    if (count < bestCount) {
+      best = cell;
+      bestCount = count;
+      if (count <= 1) break;
+    }
+  }
+  return best;
+}
+
+/**
+ * Depth-first search on an explicit stack (rather than recursion), so the
+ * run can pause anywhere in the tree.
+ */
+function* countSolutionsRun(grid: Grid, limit: number): SolverRun<number> {
+  const board = createBoard(grid);
+  if (!board) return 0;
+
+  const stack: Board[] = [board];
+  let found = 0;
+  let visited = 0;
+  while (stack.length > 0 && found < limit) {
+    if (++visited % SEARCH_NODES_PER_STEP === 0) yield;
+
+    const current = stack.pop()!;
+    const best = mostConstrainedCell(current);
+    if (best === -1) {
+      found++;
+      continue;
+    }
+
+    // Pushed in reverse, so the lowest digit is tried first
+    const digits = digitsOf(current.candidates[best]);
+    for (let i = digits.length - 1; i >= 0; i--) {
+      const next: Board = { values: [...current.values], candidates: [...current.candidates] };
+      place(next, best, digits[i]);
+      stack.push(next);
+    }
+  }
+  return found;
+}
+
+function runToEnd<T>(run: SolverRun<T>): T {
+  let step = run.next();
+  while (!step.done) {
+    step = run.next();
+  }
+  return step.value;
+}
+
+async function runWithPauses<T>(run: SolverRun<T>, pause: () => Promise<void>): Promise<T> {
+  let step = run.next();
+  while (!step.done) {
+    await pause();
+    step = run.next();
+  }
+  return step.value;
+}
+
+// ============================================================
+// Public API
+// ============================================================
+
+/**
+ * Solve using human techniques only. Stops when no technique makes progress.
+ */
+export function solveLogically(grid: Grid): LogicalSolveResult {
+  return runToEnd(solveLogicallyRun(grid));
+}
+
+/**
+ * Grade a puzzle by the hardest technique it needs.
+ * Returns null when it can't be solved without guessing.
+ */
+export function gradePuzzle(grid: Grid): GameDifficulty | null {
+  return runToEnd(gradePuzzleRun(grid));
+}
+
+/**
+ * Count solutions by backtracking, stopping once `limit` is reached.
+ * `countSolutions(grid) === 1` proves the puzzle is unique.
+ */
+export function countSolutions(grid: Grid, limit = 2): number {
+  return runToEnd(countSolutionsRun(grid, limit));
+}
+
+/**
+ * Whether `grid` can still be completed to a valid solution.
+ */
+export function isSolvable(grid: Grid): boolean {
+  return countSolutions(grid, 1) > 0;
+}
+
+/** solveLogically, awaiting `pause` between steps */
+export function solveLogicallyAsync(grid: Grid, pause: () => Promise<void>): Promise<LogicalSolveResult> {
+  return runWithPauses(solveLogicallyRun(grid), pause);
+}
+
+/** gradePuzzle, awaiting `pause` between steps */
+export function gradePuzzleAsync(grid: Grid, pause: () => Promise<void>): Promise<GameDifficulty | null> {
+  return runWithPauses(gradePuzzleRun(grid), pause);
+}
+
+/** countSolutions, awaiting `pause` every SEARCH_NODES_PER_STEP nodes */
+export function countSolutionsAsync(grid: Grid, limit: number, pause: () => Promise<void>): Promise<number> {
+  return runWithPauses(countSolutionsRun(grid, limit), pause);
+}
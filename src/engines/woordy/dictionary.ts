@@ -0,0 +1,157 @@
+/**
+ * Woordy Dictionary — CommEazy
+ *
+ * Pure functions for word validation and prefix lookup in Woordy.
+ *
+ * The words are stored as a DAWG: a trie in which identical suffix
+ * subtrees are shared. Lookups walk one node per letter, and the move
+ * generator uses the same nodes to prune impossible prefixes.
+ *
+ * @see src/engines/woordy/wordList.ts (loads the downloaded word list)
+ * @see src/engines/woordy/moveGenerator.ts
+ */
+
+import type { BoardCell, PlacedTile } from './types';
+import { BOARD_SIZE } from './types';
+import { findFormedWords } from './scoring';
+
+// ============================================================
+// Types
+// ============================================================
+
+/** A node in the DAWG. Nodes are shared, never mutate them. */
+export interface DictionaryNode {
+  /** Whether the path to this node spells a complete word */
+  isWord: boolean;
+  /** Next letter (uppercase A-Z) → node */
+  children: Map<string, DictionaryNode>;
+}
+
+export interface WoordyDictionary {
+  root: DictionaryNode;
+  /** Number of distinct words */
+  wordCount: number;
+  /** Number of nodes after suffix sharing */
+  nodeCount: number;
+}
+
+// ============================================================
+// Building
+// ============================================================
+
+/** Shortest word that can be played */
+const MIN_WORD_LENGTH = 2;
+
+/**
+ * Normalize a word to the tile alphabet: uppercase A-Z without accents.
+ * Returns null for words that cannot be laid with tiles
+ * (digits, hyphens, apostrophes, letters outside A-Z).
+ */
+export function normalizeWord(word: string): string | null {
+  const normalized = word
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase();
+  if (normalized.length < MIN_WORD_LENGTH || normalized.length > BOARD_SIZE) return null;
+  return /^[A-Z]+$/.test(normalized) ? normalized : null;
+}
+
+function createNode(): DictionaryNode {
+  return { isWord: false, children: new Map() };
+}
+
+/**
+ * Build a dictionary from a word list.
+ * Words are normalized; unplayable words and duplicates are skipped.
+ */
+export function buildDictionary(words: Iterable<string>): WoordyDictionary {
+  const root = createNode();
+  let wordCount = 0;
+
+  // 1. Plain trie
+  for (const raw of words) {
+    const word = normalizeWord(raw);
+    if (!word) continue;
+
+    let node = root;
+    for (const letter of word) {
+      let next = node.children.get(letter);
+      if (!next) {
+        next = createNode();
+        node.children.set(letter, next);
+      }
+      node = next;
+    }
+    if (!node.isWord) {
+      node.isWord = true;
+      wordCount++;
+    }
+  }
+
+  // 2. Share identical subtrees, bottom-up
+  const register = new Map<string, DictionaryNode>();
+  const ids = new Map<DictionaryNode, number>();
+
+  const minimize = (node: DictionaryNode): DictionaryNode => {
+    const letters = [...node.children.keys()].sort();
+    for (const letter of letters) {
+      node.children.set(letter, minimize(node.children.get(letter)!));
+    }
+
+    const signature = (node.isWord ? '1' : '0')
+      + letters.map((letter) => `${letter}${ids.get(node.children.get(letter)!)}`).join('');
+    const existing = register.get(signature);
+    if (existing) return existing;
+
+    register.set(signature, node);
+    ids.set(node, ids.size);
+    return node;
+  };
+
+  const minimizedRoot = minimize(root);
+
+  return {
+    root: minimizedRoot,
+    wordCount,
+    nodeCount: register.size,
+  };
+}
+
+// ============================================================
+// Lookup
+// ============================================================
+
+/**
+ * Node reached by spelling a prefix, or null when no word starts with it.
+ */
+export function findNode(dictionary: WoordyDictionary, prefix: string): DictionaryNode | null {
+  let node: DictionaryNode | undefined = dictionary.root;
+  for (const letter of prefix.toUpperCase()) {
+    node = node.children.get(letter);
+    if (!node) return null;
+  }
+  return node;
+}
+
+/**
+ * Whether a word is in the dictionary (case-insensitive).
+ */
+export function isValidWord(dictionary: WoordyDictionary, word: string): boolean {
+  const normalized = normalizeWord(word);
+  if (!normalized) return false;
+  return findNode(dictionary, normalized)?.isWord ?? false;
+}
+
+/**
+ * Words formed by the pending tiles that are not in the dictionary.
+ * Checks the main word and every cross word from findFormedWords.
+ */
+export function findInvalidWords(
+  dictionary: WoordyDictionary,
+  board: BoardCell[][],
+  pendingTiles: PlacedTile[],
+): string[] {
+  return findFormedWords(board, pendingTiles)
+    .map((cells) => cells.map((c) => c.tile!.chosenLetter || c.tile!.letter).join(''))
+    .filter((word) => !isValidWord(dictionary, word));
+}
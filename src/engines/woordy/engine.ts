@@ -22,6 +22,7 @@ import { RACK_SIZE, getLetterValue } from './types';
 import { generateBoard } from './boardGenerator';
 import { createLetterBag, shuffleBag, drawTiles, returnTilesToBag } from './letterBag';
 import { calculateTurnScore, findFormedWords } from './scoring';
+import { findInvalidWords, type WoordyDictionary } from './dictionary';
 
 // ============================================================
 // Game Initialization
@@ -212,18 +213,32 @@ export function setBlankTileLetter(
 // Turn Actions
 // ============================================================
 
+/**
+ * Whether no word has been laid yet. Passes and swaps before the
+ * first word do not count: the first word still goes through the center.
+ */
+export function isFirstPlacement(state: WoordyState): boolean {
+  return !state.turns.some((turn) => turn.action === 'place');
+}
+
 /**
  * Validate that pending tiles form a valid placement:
  * - All in same row or column
  * - Connected to existing tiles (unless first word)
  * - First word goes through center
  * - No gaps between tiles
+ * - With a dictionary: every formed word exists
  */
-export function validatePlacement(state: WoordyState): {
+export function validatePlacement(
+  state: WoordyState,
+  dictionary: WoordyDictionary | null = null,
+): {
   valid: boolean;
   error: string | null;
+  /** Formed words that are not in the dictionary */
+  invalidWords?: string[];
 } {
-  const { pendingTiles, board, turns } = state;
+  const { pendingTiles, board } = state;
 
   if (pendingTiles.length === 0) {
     return { valid: false, error: 'noTilesPlaced' };
@@ -243,7 +258,7 @@ export function validatePlacement(state: WoordyState): {
     return { valid: false, error: 'blankNotSet' };
   }
 
-  const isFirstWord = turns.length === 0;
+  const isFirstWord = isFirstPlacement(state);
 
   // First word must go through center
   if (isFirstWord) {
@@ -293,12 +308,22 @@ export function validatePlacement(state: WoordyState): {
     }
   }
 
+  if (dictionary) {
+    if (findFormedWords(board, pendingTiles).length === 0) {
+      return { valid: false, error: 'noWord' };
+    }
+    const invalidWords = findInvalidWords(dictionary, board, pendingTiles);
+    if (invalidWords.length > 0) {
+      return { valid: false, error: 'notAWord', invalidWords };
+    }
+  }
+
   return { valid: true, error: null };
 }
 
 /**
  * Confirm the word placement.
- * NOTE: Word dictionary validation is done externally (async).
+ * NOTE: Call validatePlacement (with the dictionary) first.
  * This function handles scoring and turn advancement.
  */
 export function confirmPlacement(
@@ -308,7 +333,7 @@ export function confirmPlacement(
   if (state.isComplete) return state;
 
   const { pendingTiles, board, turns } = state;
-  const isFirstWord = turns.length === 0;
+  const isFirstWord = isFirstPlacement(state);
 
   // Check if any pending tile landed on a trivia field
   const triviaTriggered = pendingTiles.some((t) => {
@@ -526,7 +551,7 @@ export function resignGame(state: WoordyState): WoordyState {
 export function previewScore(state: WoordyState): TurnScoreBreakdown | null {
   if (state.pendingTiles.length === 0) return null;
 
-  const isFirstWord = state.turns.length === 0;
+  const isFirstWord = isFirstPlacement(state);
   return calculateTurnScore(
     state.board,
     state.pendingTiles,
@@ -0,0 +1,293 @@
+/**
+ * Woordy Move Generator — CommEazy
+ *
+ * Finds every legal move for a rack, using the anchor method of
+ * Appel & Jacobson on the dictionary DAWG:
+ * - Anchors: empty cells next to a tile (the center on an empty board)
+ * - Cross-checks: letters allowed in a cell by the word across it
+ * - Words grow left of an anchor from the rack, then right through
+ *   existing tiles, and are cut off as soon as no word starts that way
+ *
+ * Vertical moves use the same code on a transposed board.
+ *
+ * @see src/engines/woordy/dictionary.ts
+ * @see src/engines/woordy/opponent.ts
+ */
+
+import type { BoardCell, BoardPosition, PlacedTile, Tile, WoordyState } from './types';
+import { BOARD_SIZE, CENTER_POS } from './types';
+import type { DictionaryNode, WoordyDictionary } from './dictionary';
+import { calculateTurnScore } from './scoring';
+import { isFirstPlacement } from './engine';
+
+// ============================================================
+// Types
+// ============================================================
+
+/** One tile of a generated move */
+export interface MoveTile {
+  tileId: string;
+  position: BoardPosition;
+  /** Letter on the board (chosen letter for blank tiles) */
+  letter: string;
+  isBlank: boolean;
+}
+
+/** A legal move */
+export interface WoordyMove {
+  tiles: MoveTile[];
+  /** Words formed, main word first */
+  words: string[];
+  /** Score without trivia (trivia fields are hidden to both players) */
+  score: number;
+}
+
+type Direction = 'horizontal' | 'vertical';
+
+/** Letters laid so far while generating, with their index along the line */
+interface LaidTile {
+  index: number;
+  tile: Tile;
+  letter: string;
+}
+
+/** Rack tiles grouped by letter */
+interface RackPool {
+  byLetter: Map<string, Tile[]>;
+  blanks: Tile[];
+}
+
+// ============================================================
+// Board Helpers
+// ============================================================
+
+function letterGrid(board: BoardCell[][]): (string | null)[][] {
+  return board.map((row) =>
+    row.map((cell) => (cell.tile ? cell.tile.chosenLetter || cell.tile.letter : null)),
+  );
+}
+
+/**
+ * Accessor in line coordinates: for horizontal moves a line is a row,
+ * for vertical moves a line is a column.
+ */
+function lineAccessor(grid: (string | null)[][], direction: Direction) {
+  return (line: number, index: number): string | null => {
+    if (line < 0 || line >= BOARD_SIZE || index < 0 || index >= BOARD_SIZE) return null;
+    return direction === 'horizontal' ? grid[line][index] : grid[index][line];
+  };
+}
+
+function toPosition(line: number, index: number, direction: Direction): BoardPosition {
+  return direction === 'horizontal' ? { row: line, col: index } : { row: index, col: line };
+}
+
+function walk(node: DictionaryNode | null, letters: string[]): DictionaryNode | null {
+  let current = node;
+  for (const letter of letters) {
+    current = current?.children.get(letter) ?? null;
+    if (!current) return null;
+  }
+  return current;
+}
+
+function createPool(rack: Tile[]): RackPool {
+  const pool: RackPool = { byLetter: new Map(), blanks: [] };
+  for (const tile of rack) {
+    if (tile.isBlank) {
+      pool.blanks.push(tile);
+    } else {
+      const letter = tile.letter.toUpperCase();
+      pool.byLetter.set(letter, [...(pool.byLetter.get(letter) ?? []), tile]);
+    }
+  }
+  return pool;
+}
+
+/** Take a tile for a letter; a blank is only used when no real tile is left */
+function takeTile(pool: RackPool, letter: string): Tile | null {
+  return pool.byLetter.get(letter)?.pop() ?? pool.blanks.pop() ?? null;
+}
+
+function returnTile(pool: RackPool, tile: Tile): void {
+  if (tile.isBlank) {
+    pool.blanks.push(tile);
+  } else {
+    pool.byLetter.get(tile.letter.toUpperCase())!.push(tile);
+  }
+}
+
+// ============================================================
+// Move Generation
+// ============================================================
+
+/**
+ * All legal moves for the player whose turn it is (or for a given rack).
+ * Moves are unique and scored; order is not meaningful.
+ */
+export function generateMoves(
+  state: WoordyState,
+  dictionary: WoordyDictionary,
+  rack: Tile[] = state.currentTurn === 'player' ? state.player.rack : state.opponent.rack,
+): WoordyMove[] {
+  const grid = letterGrid(state.board);
+  const isEmpty = grid.every((row) => row.every((letter) => letter === null));
+  const isFirstWord = isFirstPlacement(state);
+  const pool = createPool(rack);
+  const moves = new Map<string, WoordyMove>();
+
+  const record = (laid: LaidTile[], line: number, direction: Direction) => {
+    const tiles: MoveTile[] = laid.map(({ index, tile, letter }) => ({
+      tileId: tile.id,
+      position: toPosition(line, index, direction),
+      letter,
+      isBlank: tile.isBlank,
+    }));
+    const key = tiles
+      .map((t) => `${t.position.row},${t.position.col},${t.letter},${t.isBlank ? 1 : 0}`)
+      .sort()
+      .join('|');
+    if (moves.has(key)) return;
+
+    const placed = laid.map(({ tile, letter }, i): PlacedTile => ({
+      ...tile,
+      position: tiles[i].position,
+      chosenLetter: letter,
+      placedBy: state.currentTurn,
+      isCurrentTurn: true,
+    }));
+    moves.set(key, { tiles, ...scoreMove(state.board, placed, isFirstWord) });
+  };
+
+  for (const direction of ['horizontal', 'vertical'] as Direction[]) {
+    const at = lineAccessor(grid, direction);
+
+    const isAnchor = (line: number, index: number): boolean => {
+      if (at(line, index) !== null) return false;
+      if (isEmpty) return line === CENTER_POS && index === CENTER_POS;
+      return at(line - 1, index) !== null || at(line + 1, index) !== null
+        || at(line, index - 1) !== null || at(line, index + 1) !== null;
+    };
+
+    /** Letters allowed at an empty cell by the word across it; null = any */
+    const crossCheck = (line: number, index: number): Set<string> | null => {
+      const before: string[] = [];
+      for (let l = line - 1; at(l, index) !== null; l--) before.unshift(at(l, index)!);
+      const after: string[] = [];
+      for (let l = line + 1; at(l, index) !== null; l++) after.push(at(l, index)!);
+      if (before.length === 0 && after.length === 0) return null;
+
+      const allowed = new Set<string>();
+      const prefixNode = walk(dictionary.root, before);
+      if (!prefixNode) return allowed;
+      for (const [letter, child] of prefixNode.children) {
+        if (walk(child, after)?.isWord) allowed.add(letter);
+      }
+      return allowed;
+    };
+
+    for (let line = 0; line < BOARD_SIZE; line++) {
+      const crossChecks = Array.from({ length: BOARD_SIZE }, (_, index) =>
+        (at(line, index) === null ? crossCheck(line, index) : null),
+      );
+
+      for (let anchor = 0; anchor < BOARD_SIZE; anchor++) {
+        if (!isAnchor(line, anchor)) continue;
+
+        const extendRight = (node: DictionaryNode, index: number, laid: LaidTile[]) => {
+          const existing = at(line, index);
+          if (existing !== null) {
+            const child = node.children.get(existing);
+            if (child) extendRight(child, index + 1, laid);
+            return;
+          }
+
+          // Cell is empty or off the board: the word may end here
+          if (node.isWord && index > anchor && laid.length > 0) {
+            record(laid, line, direction);
+          }
+          if (index >= BOARD_SIZE) return;
+
+          const allowed = crossChecks[index];
+          for (const [letter, child] of node.children) {
+            if (allowed && !allowed.has(letter)) continue;
+            const tile = takeTile(pool, letter);
+            if (!tile) continue;
+            laid.push({ index, tile, letter });
+            extendRight(child, index + 1, laid);
+            laid.pop();
+            returnTile(pool, tile);
+          }
+        };
+
+        if (at(line, anchor - 1) !== null) {
+          // Existing tiles left of the anchor are the fixed start of the word
+          let start = anchor;
+          while (at(line, start - 1) !== null) start--;
+          const prefix: string[] = [];
+          for (let i = start; i < anchor; i++) prefix.push(at(line, i)!);
+          const node = walk(dictionary.root, prefix);
+          if (node) extendRight(node, anchor, []);
+          continue;
+        }
+
+        // Free cells left of the anchor (they have no neighbours, so no cross-checks)
+        let limit = 0;
+        while (
+          limit < rack.length - 1
+          && anchor - limit - 1 >= 0
+          && at(line, anchor - limit - 1) === null
+          && !isAnchor(line, anchor - limit - 1)
+        ) {
+          limit++;
+        }
+
+        const leftPart = (node: DictionaryNode, part: { tile: Tile; letter: string }[]) => {
+          const laid = part.map((p, i) => ({ ...p, index: anchor - part.length + i }));
+          extendRight(node, anchor, laid);
+          if (part.length >= limit) return;
+
+          for (const [letter, child] of node.children) {
+            const tile = takeTile(pool, letter);
+            if (!tile) continue;
+            leftPart(child, [...part, { tile, letter }]);
+            returnTile(pool, tile);
+          }
+        };
+
+        leftPart(dictionary.root, []);
+      }
+    }
+  }
+
+  return [...moves.values()];
+}
+
+// ============================================================
+// Scoring
+// ============================================================
+
+/**
+ * Score a move as if it were placed, without changing the board.
+ */
+function scoreMove(
+  board: BoardCell[][],
+  placed: PlacedTile[],
+  isFirstWord: boolean,
+): { score: number; words: string[] } {
+  // Copy only the rows that change
+  const overlay = board.slice();
+  for (const tile of placed) {
+    const { row, col } = tile.position;
+    if (overlay[row] === board[row]) {
+      overlay[row] = board[row].slice();
+    }
+    overlay[row][col] = { ...overlay[row][col], tile };
+  }
+
+  const breakdown = calculateTurnScore(overlay, placed, isFirstWord, false, null);
+  return {
+    score: breakdown.total,
+    words: breakdown.words.map((w) => w.word),
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * Woordy Computer Opponent — CommEazy
+ *
+ * Plays the opponent's turn in solo games. All legal moves come from the
+ * move generator; the strength decides which one is played:
+ * - easy: short, low-scoring words
+ * - medium: a fair move, not always the best
+ * - hard: the highest-scoring move
+ *
+ * Trivia fields are hidden for the computer too. When it lands on one,
+ * the strength decides how likely the question is answered correctly.
+ *
+ * @see src/engines/woordy/moveGenerator.ts
+ */
+
+import type { WoordyState } from './types';
+import { RACK_SIZE } from './types';
+import type { WoordyDictionary } from './dictionary';
+import { generateMoves, type WoordyMove } from './moveGenerator';
+import {
+  selectTile,
+  placeTile,
+  setBlankTileLetter,
+  confirmPlacement,
+  swapTiles,
+  passTurn,
+} from './engine';
+
+// ============================================================
+// Strength
+// ============================================================
+
+export type OpponentStrength = 'easy' | 'medium' | 'hard';
+
+export const OPPONENT_STRENGTHS: OpponentStrength[] = ['easy', 'medium', 'hard'];
+
+interface StrengthProfile {
+  /** Which move to play, from 0 (lowest score) to 1 (highest score) */
+  percentile: number;
+  /** Random variation around the percentile */
+  spread: number;
+  /** Most tiles laid in one move */
+  maxTiles: number;
+  /** Chance to answer a trivia question correctly */
+  triviaAccuracy: number;
+}
+
+const STRENGTH_PROFILES: Record<OpponentStrength, StrengthProfile> = {
+  easy: { percentile: 0.25, spread: 0.2, maxTiles: 4, triviaAccuracy: 0.4 },
+  medium: { percentile: 0.65, spread: 0.2, maxTiles: 6, triviaAccuracy: 0.6 },
+  hard: { percentile: 1, spread: 0, maxTiles: RACK_SIZE, triviaAccuracy: 0.8 },
+};
+
+// ============================================================
+// Move Choice
+// ============================================================
+
+/**
+ * Pick the move to play for a strength.
+ *
+ * @param random - Random source (0-1), injectable for tests
+ * @returns null when there is no legal move
+ */
+export function chooseMove(
+  moves: WoordyMove[],
+  strength: OpponentStrength,
+  random: () => number = Math.random,
+): WoordyMove | null {
+  const profile = STRENGTH_PROFILES[strength];
+  const short = moves.filter((move) => move.tiles.length <= profile.maxTiles);
+  const candidates = short.length > 0 ? short : moves;
+  if (candidates.length === 0) return null;
+
+  const sorted = [...candidates].sort((a, b) => a.score - b.score);
+  const target = profile.percentile + (random() * 2 - 1) * profile.spread;
+  const index = Math.round(Math.min(1, Math.max(0, target)) * (sorted.length - 1));
+  return sorted[index];
+}
+
+/**
+ * Put the tiles of a move on the board as pending tiles,
+ * exactly as a player would with tap-to-place.
+ */
+export function applyMove(state: WoordyState, move: WoordyMove): WoordyState {
+  let next = state;
+  for (const tile of move.tiles) {
+    next = selectTile(next, tile.tileId);
+    next = placeTile(next, tile.position);
+    if (tile.isBlank) {
+      next = setBlankTileLetter(next, tile.position, tile.letter);
+    }
+  }
+  return next;
+}
+
+// ============================================================
+// Computer Turn
+// ============================================================
+
+/**
+ * Play the opponent's turn: the chosen word, otherwise swap the
+ * whole rack, otherwise pass.
+ *
+ * @param random - Random source (0-1), injectable for tests
+ */
+export function playComputerTurn(
+  state: WoordyState,
+  dictionary: WoordyDictionary,
+  strength: OpponentStrength,
+  random: () => number = Math.random,
+): WoordyState {
+  if (state.isComplete || state.currentTurn !== 'opponent') return state;
+
+  const move = chooseMove(generateMoves(state, dictionary), strength, random);
+  if (move) {
+    const triviaTriggered = move.tiles.some(({ position }) => {
+      const cell = state.board[position.row][position.col];
+      return cell.fieldType === 'trivia' && !cell.triviaRevealed;
+    });
+    const triviaCorrect = triviaTriggered
+      ? random() < STRENGTH_PROFILES[strength].triviaAccuracy
+      : null;
+    return confirmPlacement(applyMove(state, move), triviaCorrect);
+  }
+
+  if (state.letterBag.length > 0) {
+    return swapTiles(state, state.opponent.rack.map((tile) => tile.id));
+  }
+  return passTurn(state);
+}
@@ -0,0 +1,102 @@
+/**
+ * Woordy Word List — CommEazy
+ *
+ * Reads the woordy word list from the locally downloaded JSON file and
+ * keeps the dictionary built from it in memory.
+ * Word lists are downloaded per language via downloadService.
+ *
+ * File format (woordy-{lang}.json):
+ * {
+ *   "language": "nl",
+ *   "version": "1.0",
+ *   "words": ["aap", "aapje", "huis", ...]
+ * }
+ *
+ * @see src/engines/woordy/dictionary.ts
+ * @see src/services/downloadService.ts
+ */
+
+import { readLocalGameData } from '@/services/downloadService';
+import { buildDictionary, type WoordyDictionary } from './dictionary';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface WoordyWordData {
+  language: string;
+  version: string;
+  words: string[];
+}
+
+// ============================================================
+// In-Memory Cache
+// ============================================================
+
+let cachedDictionary: WoordyDictionary | null = null;
+let cachedLanguage: string | null = null;
+
+/**
+ * Load the word list for a language and build the dictionary.
+ * Called once when WoordyScreen detects the data is available.
+ *
+ * @param language - Language code (e.g. 'nl', 'en')
+ * @returns the dictionary, or null when the word list is missing or empty
+ */
+export async function loadDictionary(language: string): Promise<WoordyDictionary | null> {
+  // Return cached if already loaded for this language
+  if (cachedDictionary && cachedLanguage === language) {
+    return cachedDictionary;
+  }
+
+  try {
+    const data = await readLocalGameData<WoordyWordData>('woordy', language);
+    if (!data || !data.words || data.words.length === 0) {
+      console.warn(`[WoordyWordList] No words found for language: ${language}`);
+      return null;
+    }
+
+    const dictionary = buildDictionary(data.words);
+    if (dictionary.wordCount === 0) {
+      console.warn(`[WoordyWordList] No playable words for language: ${language}`);
+      return null;
+    }
+
+    cachedDictionary = dictionary;
+    cachedLanguage = language;
+    console.info(
+      `[WoordyWordList] Loaded ${dictionary.wordCount} words (${dictionary.nodeCount} nodes) for ${language}`,
+    );
+    return dictionary;
+  } catch (error) {
+    console.error(`[WoordyWordList] Failed to load word list for ${language}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Clear the in-memory dictionary
+ */
+export function clearDictionaryCache(): void {
+  cachedDictionary = null;
+  cachedLanguage = null;
+}
+
+// ============================================================
+// Query Functions
+// ============================================================
+
+/**
+ * Get the loaded dictionary.
+ * The word list MUST be loaded first via loadDictionary().
+ */
+export function getLoadedDictionary(): WoordyDictionary | null {
+  return cachedDictionary;
+}
+
+/**
+ * Get the language of the loaded dictionary
+ */
+export function getLoadedLanguage(): string | null {
+  return cachedLanguage;
+}
@@ -115,7 +115,7 @@ export interface UseAgendaNotificationsReturn {
 
 export function useAgendaNotifications(): UseAgendaNotificationsReturn {
   const { t } = useTranslation();
-  const { timelineDays } = useAgendaContext();
+  const { timelineDays, logMedication } = useAgendaContext();
   const isSchedulingRef = useRef(false);
   const lastScheduleRef = useRef<number>(0);
   const snoozeCounts = useRef<Map<string, number>>(new Map());
@@ -385,12 +385,21 @@ export function useAgendaNotifications(): UseAgendaNotificationsReturn {
         handleMedicationSnooze(data.itemId, data.date, data.time);
       }
 
-      // 'medication-taken' is handled by the AgendaContext listener
-      // (logMedication is called from the screen that opens on tap)
+      if (actionId === 'medication-taken' && data.itemId && data.date && data.time) {
+        // Logged with the confirmation time, so adherence can tell on time from late
+        logMedication(data.itemId, {
+          date: data.date,
+          time: data.time,
+          status: 'taken',
+          confirmedAt: Date.now(),
+        }).catch(error => {
+          console.warn('[AgendaNotifications] Failed to log medication:', error);
+        });
+      }
     });
 
     return unsubscribe;
-  }, [handleMedicationSnooze]);
+  }, [handleMedicationSnooze, logMedication]);
 
   // ============================================================
   // Auto-reschedule on app foreground + timeline changes
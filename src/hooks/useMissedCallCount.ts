@@ -0,0 +1,29 @@
+/**
+ * useMissedCallCount — Track unseen missed calls for badge display
+ *
+ * Observes the call log in the database, so the count updates as soon as
+ * a call is missed or the Recent tab is opened. Used by useModuleBadges
+ * to show a badge on the calls module icon.
+ *
+ * @see src/services/callLog.ts
+ */
+
+import { useState, useEffect } from 'react';
+import { ServiceContainer } from '@/services/container';
+import { callLogService } from '@/services/callLog';
+
+interface UseMissedCallCountReturn {
+  /** Number of missed calls not yet seen in the Recent tab */
+  missedCount: number;
+}
+
+export function useMissedCallCount(): UseMissedCallCountReturn {
+  const [missedCount, setMissedCount] = useState(0);
+
+  useEffect(() => {
+    if (!ServiceContainer.isInitialized) return;
+    return callLogService.observeMissedCallCount().subscribe(setMissedCount);
+  }, []);
+
+  return { missedCount };
+}
@@ -11,14 +11,16 @@
  * - ✅ mail (via useMailUnreadCount)
  * - ⏳ chats (requires ChatContext/service integration)
  * - ⏳ groups (requires GroupChatContext/service integration)
- * - ⏳ calls (requires call history tracking)
+ * - ✅ calls (via useMissedCallCount)
  *
  * @see src/screens/HomeScreen.tsx
  * @see src/hooks/useMailUnreadCount.ts
+ * @see src/hooks/useMissedCallCount.ts
  */
 
 import { useCallback } from 'react';
 import { useMailUnreadCount } from './useMailUnreadCount';
+import { useMissedCallCount } from './useMissedCallCount';
 
 // ============================================================
 // Types
@@ -29,6 +31,8 @@ export interface UseModuleBadgesReturn {
   getBadgeCount: (moduleId: string) => number | undefined;
   /** Total unread mail count */
   mailCount: number;
+  /** Missed calls not yet seen */
+  missedCallCount: number;
 }
 
 // ============================================================
@@ -37,10 +41,10 @@ export interface UseModuleBadgesReturn {
 
 export function useModuleBadges(): UseModuleBadgesReturn {
   const { unreadCount: mailCount } = useMailUnreadCount();
+  const { missedCount: missedCallCount } = useMissedCallCount();
 
   // TODO: Add chat unread count from ChatContext/ChatService
   // TODO: Add group unread count from GroupChatContext/GroupChatService
-  // TODO: Add missed call count from CallHistory (not yet implemented)
 
   const getBadgeCount = useCallback((moduleId: string): number | undefined => {
     switch (moduleId) {
@@ -50,15 +54,16 @@ export function useModuleBadges(): UseModuleBadgesReturn {
       //   return chatUnreadCount > 0 ? chatUnreadCount : undefined;
       // case 'groups':
       //   return groupUnreadCount > 0 ? groupUnreadCount : undefined;
-      // case 'calls':
-      //   return missedCallCount > 0 ? missedCallCount : undefined;
+      case 'calls':
+        return missedCallCount > 0 ? missedCallCount : undefined;
       default:
         return undefined;
     }
-  }, [mailCount]);
+  }, [mailCount, missedCallCount]);
 
   return {
     getBadgeCount,
     mailCount,
+    missedCallCount,
   };
 }
@@ -31,6 +31,8 @@ export class AgendaItemModel extends Model {
   // Repeat pattern
   @field('repeat_type') repeatType?: string;       // RepeatType or null
   @field('end_date') endDate?: number;             // Timestamp (null = no end)
+  @field('rrule') rrule?: string;                  // v38: RRULE value (null = derive from repeat_type)
+  @field('exdates') exdates?: string;              // v38: JSON array of excluded days "YYYY-MM-DD"
 
   // Reminder
   @field('reminder_offset') reminderOffset!: string; // ReminderOffset
@@ -114,6 +116,16 @@ export class AgendaItemModel extends Model {
     }
   }
 
+  /** Get parsed excluded days (EXDATE) */
+  get parsedExdates(): string[] {
+    if (!this.exdates) return [];
+    try {
+      return JSON.parse(this.exdates);
+    } catch {
+      return [];
+    }
+  }
+
   /** Check if this is a recurring item */
   get isRecurring(): boolean {
     return !!this.repeatType;
@@ -141,6 +153,8 @@ export class AgendaItemModel extends Model {
     times?: string[];
     repeatType?: RepeatType | null;
     endDate?: number | null;
+    rrule?: string | null;
+    exdates?: string[] | null;
     reminderOffset?: ReminderOffset;
     contactIds?: string[];
     locationName?: string | null;
@@ -167,6 +181,10 @@ export class AgendaItemModel extends Model {
       if (updates.endDate !== undefined) {
         record.endDate = updates.endDate ?? undefined;
       }
+      if (updates.rrule !== undefined) record.rrule = updates.rrule ?? undefined;
+      if (updates.exdates !== undefined) {
+        record.exdates = updates.exdates?.length ? JSON.stringify(updates.exdates) : undefined;
+      }
       if (updates.reminderOffset !== undefined) record.reminderOffset = updates.reminderOffset;
       if (updates.contactIds !== undefined) {
         record.contactIds = JSON.stringify(updates.contactIds);
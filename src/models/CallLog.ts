@@ -0,0 +1,43 @@
+/**
+ * CallLog Model — WatermelonDB
+ *
+ * One finished call (voice or video, 1-on-1 or 3-way). Written by
+ * CallLogService when CallService reports the call ended; read by the
+ * Recent tab, the missed-call badge and the frequent-calls smart section.
+ *
+ * @see services/callLog.ts for how calls are recorded
+ * @see schema.ts v39 for table definition
+ */
+
+import { Model } from '@nozbe/watermelondb';
+import { field, date, readonly } from '@nozbe/watermelondb/decorators';
+
+export class CallLogModel extends Model {
+  static table = 'call_log';
+
+  /** CallService call ID */
+  @field('call_id') callId!: string;
+  /** 'voice' | 'video' */
+  @field('call_type') callType!: string;
+  /** 'incoming' | 'outgoing' */
+  @field('direction') direction!: string;
+  /** JSON array of { jid, name } — the other people in the call */
+  @field('participants') participantsRaw!: string;
+  /** When ringing started */
+  @field('started_at') startedAt!: number;
+  /** When the call was answered (absent if never connected) */
+  @field('connected_at') connectedAt?: number;
+  /** When the call ended */
+  @field('ended_at') endedAt!: number;
+  /** Seconds connected */
+  @field('duration') duration!: number;
+  /** CallEndReason */
+  @field('end_reason') endReason!: string;
+  /** Incoming call that was not answered (and not declined by us) */
+  @field('is_missed') isMissed!: boolean;
+  /** When the missed call was seen in the Recent tab */
+  @field('seen_at') seenAt?: number;
+
+  @readonly @date('created_at') createdAt!: Date;
+  @readonly @date('updated_at') updatedAt!: Date;
+}
@@ -0,0 +1,29 @@
+/**
+ * ContactKey Model — WatermelonDB
+ *
+ * Key history: one record per public key ever seen for a contact.
+ * Written by DatabaseService.saveContact — never overwritten, so a key
+ * change remains traceable after Contact.publicKey moves on.
+ *
+ * @see services/safetyNumber.ts for the human-comparable fingerprint
+ * @see schema.ts v33 for table definition
+ */
+
+import { Model } from '@nozbe/watermelondb';
+import { field, date, readonly } from '@nozbe/watermelondb/decorators';
+
+export class ContactKeyModel extends Model {
+  static table = 'contact_keys';
+
+  /** Contact JID this key was seen for */
+  @field('contact_jid') contactJid!: string;
+  /** Public key (Base64) */
+  @field('public_key') publicKey!: string;
+  /** First time this key was stored for the contact */
+  @field('first_seen_at') firstSeenAt!: number;
+  /** Last time this key was stored for the contact */
+  @field('last_seen_at') lastSeenAt!: number;
+
+  @readonly @date('created_at') createdAt!: Date;
+  @readonly @date('updated_at') updatedAt!: Date;
+}
@@ -3,6 +3,8 @@
  *
  * Stores group chat metadata.
  * Members are stored as JSON array of JIDs.
+ * Groups use 'sender-key' encryption regardless of member count
+ * (older groups may still carry 'encrypt-to-all' / 'shared-key').
  */
 
 import { Model, Q } from '@nozbe/watermelondb';
@@ -25,8 +27,7 @@ export class GroupModel extends Model {
   @writer async updateMembers(newMembers: string[]): Promise<void> {
     await this.update(record => {
       record.members = newMembers;
-      // Update encryption mode based on member count
-      record.encryptionMode = newMembers.length <= 8 ? 'encrypt-to-all' : 'shared-key';
+      record.encryptionMode = 'sender-key';
     });
   }
 
@@ -38,7 +39,7 @@ export class GroupModel extends Model {
       if (!record.members.includes(jid)) {
         const newMembers = [...record.members, jid];
         record.members = newMembers;
-        record.encryptionMode = newMembers.length <= 8 ? 'encrypt-to-all' : 'shared-key';
+        record.encryptionMode = 'sender-key';
       }
     });
   }
@@ -50,7 +51,7 @@ export class GroupModel extends Model {
     await this.update(record => {
       const newMembers = record.members.filter(m => m !== jid);
       record.members = newMembers;
-      record.encryptionMode = newMembers.length <= 8 ? 'encrypt-to-all' : 'shared-key';
+      record.encryptionMode = 'sender-key';
     });
   }
 
@@ -0,0 +1,39 @@
+/**
+ * LinkedDevice Model — WatermelonDB
+ *
+ * Devices of this account (phone, tablets) that mirror messages, read
+ * markers and contact/group changes to each other. Each device has its
+ * own subkey; the account key certifies it.
+ *
+ * @see services/deviceSync.ts for the sync protocol
+ * @see schema.ts v37 for table definition
+ */
+
+import { Model } from '@nozbe/watermelondb';
+import { field, date, readonly } from '@nozbe/watermelondb/decorators';
+
+export class LinkedDeviceModel extends Model {
+  static table = 'linked_devices';
+
+  /** Random hex device ID */
+  @field('device_id') deviceId!: string;
+  /** Display name, e.g. "iPad van Oma" */
+  @field('name') name!: string;
+  /** 'ios' | 'android' */
+  @field('platform') platform!: string;
+  /** Device subkey (Base64) — sync envelopes are sealed to it */
+  @field('public_key') publicKey!: string;
+  /** Account-key certificate over device ID + subkey (Base64) */
+  @field('certificate') certificate!: string;
+  /** When the device joined the account */
+  @field('linked_at') linkedAt!: number;
+  /** Last sync stanza received from this device */
+  @field('last_seen_at') lastSeenAt?: number;
+  /** When the device was revoked (no longer receives sync stanzas) */
+  @field('revoked_at') revokedAt?: number;
+  /** This device */
+  @field('is_current') isCurrent!: boolean;
+
+  @readonly @date('created_at') createdAt!: Date;
+  @readonly @date('updated_at') updatedAt!: Date;
+}
@@ -25,7 +25,7 @@ export class MediaMessageModel extends Model {
   /** Reference to messages table */
   @field('message_id') messageId!: string;
 
-  /** Type of media: 'photo' | 'video' */
+  /** Type of media: 'photo' | 'video' | 'audio' */
   @field('type') type!: MediaType;
 
   /** Local file path (decrypted) */
@@ -46,7 +46,7 @@ export class MediaMessageModel extends Model {
   /** Video duration in seconds (optional) */
   @field('duration') duration?: number;
 
-  /** Source: 'camera' | 'gallery' | 'received' */
+  /** Source: 'camera' | 'gallery' | 'recorded' | 'received' */
   @field('source') source!: MediaSource;
 
   /** Sender JID (for received media) */
@@ -73,6 +73,15 @@ export class MediaMessageModel extends Model {
   /** 7-day expiration timestamp */
   @field('expires_at') expiresAt!: number;
 
+  /** JSON XEP-0363 upload slot — reused when an upload resumes (v36) */
+  @field('upload_slot') uploadSlot?: string;
+
+  /** Download URL of the encrypted file (v36) */
+  @field('remote_url') remoteUrl?: string;
+
+  /** Plaintext bytes per encrypted chunk (v36) */
+  @field('chunk_size') chunkSize?: number;
+
   /** Created timestamp */
   @readonly @date('created_at') createdAt!: Date;
 
@@ -9,11 +9,20 @@
  * - mediaId references media_messages table
  * - thumbnailData contains base64 preview (~10KB)
  * - mediaWidth/mediaHeight/mediaDuration for dimensions
+ *
+ * Edit / retract / reactions (v34):
+ * - editedAt + editHistory (JSON) for edited messages
+ * - retractedAt marks a message deleted for everyone (content cleared)
+ * - reactions (JSON) maps reactor JID → emoji
+ *
+ * Voice messages (v35):
+ * - contentType 'audio', file in mediaStorageService via mediaId
+ * - waveform (JSON) bars 0-1, transcript from on-device speech recognition
  */
 
 import { Model, Q } from '@nozbe/watermelondb';
-import { field, date, readonly, writer } from '@nozbe/watermelondb/decorators';
-import type { ContentType, DeliveryStatus } from '@/services/interfaces';
+import { field, date, readonly, writer, json } from '@nozbe/watermelondb/decorators';
+import type { ContentType, DeliveryStatus, MessageEdit } from '@/services/interfaces';
 
 export class MessageModel extends Model {
   static table = 'messages';
@@ -27,12 +36,20 @@ export class MessageModel extends Model {
   @field('status') status!: DeliveryStatus;
   @field('is_read') isRead!: boolean;
 
-  // Media fields (v13) — only for image/video content types
+  // Media fields (v13) — only for image/video/audio content types
   @field('media_id') mediaId?: string;
   @field('thumbnail_data') thumbnailData?: string;
   @field('media_width') mediaWidth?: number;
   @field('media_height') mediaHeight?: number;
   @field('media_duration') mediaDuration?: number;
+  @json('waveform', (raw: number[]) => raw || []) waveform!: number[];
+  @field('transcript') transcript?: string;
+
+  // Edit / retract / reactions (v34)
+  @field('edited_at') editedAt?: number;
+  @json('edit_history', (raw: MessageEdit[]) => raw || []) editHistory!: MessageEdit[];
+  @field('retracted_at') retractedAt?: number;
+  @json('reactions', (raw: Record<string, string>) => raw || {}) reactions!: Record<string, string>;
 
   @readonly @date('created_at') createdAt!: Date;
   @readonly @date('updated_at') updatedAt!: Date;
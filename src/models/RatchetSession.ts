@@ -0,0 +1,29 @@
+/**
+ * RatchetSession Model — WatermelonDB
+ *
+ * Stores the Double Ratchet session state per contact.
+ * Session blobs are sealed by SodiumEncryptionService before they reach
+ * the database — this model never sees chain keys in plaintext.
+ *
+ * @see services/ratchet.ts for the session state
+ * @see schema.ts v31 for table definition, v40 for seen_handshakes
+ */
+
+import { Model } from '@nozbe/watermelondb';
+import { field, date, readonly } from '@nozbe/watermelondb/decorators';
+
+export class RatchetSessionModel extends Model {
+  static table = 'ratchet_sessions';
+
+  /** Contact JID this session belongs to */
+  @field('contact_jid') contactJid!: string;
+  /** Sealed current session (base64 nonce + secretbox) */
+  @field('session_data') sessionData!: string;
+  /** Sealed previous session, kept to decrypt late messages after a re-handshake */
+  @field('previous_session_data') previousSessionData?: string;
+  /** Sealed list of handshake keys already accepted from this contact (v40) */
+  @field('seen_handshakes') seenHandshakes?: string;
+
+  @readonly @date('created_at') createdAt!: Date;
+  @readonly @date('updated_at') updatedAt!: Date;
+}
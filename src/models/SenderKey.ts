@@ -0,0 +1,31 @@
+/**
+ * SenderKey Model — WatermelonDB
+ *
+ * Stores group sender keys: our own key per group, and the keys other
+ * members distributed to us. Key blobs are sealed by SodiumEncryptionService
+ * before they reach the database — this model never sees chain keys in plaintext.
+ *
+ * @see services/senderKeys.ts for the key state
+ * @see schema.ts v32 for table definition
+ */
+
+import { Model } from '@nozbe/watermelondb';
+import { field, date, readonly, json } from '@nozbe/watermelondb/decorators';
+
+export class SenderKeyModel extends Model {
+  static table = 'sender_keys';
+
+  /** Group this key belongs to */
+  @field('group_id') groupId!: string;
+  /** Member that encrypts with this key (own JID for our own key) */
+  @field('sender_jid') senderJid!: string;
+  /** Sealed current key (base64 nonce + secretbox) */
+  @field('key_data') keyData!: string;
+  /** Sealed previous key, kept to decrypt late messages after a rotation */
+  @field('previous_key_data') previousKeyData?: string;
+  /** Own key only: members that received the current key */
+  @json('distributed_to', (raw: string[]) => raw || []) distributedTo!: string[];
+
+  @readonly @date('created_at') createdAt!: Date;
+  @readonly @date('updated_at') updatedAt!: Date;
+}
@@ -4,29 +4,58 @@
  * Export all models for database initialization.
  */
 
+import { MessageModel } from './Message';
+import { OutboxMessageModel } from './OutboxMessage';
+import { ContactModel } from './Contact';
+import { GroupModel } from './Group';
+import { UserProfileModel } from './UserProfile';
+import { MediaMessageModel } from './MediaMessage';
+import { AgendaItemModel } from './AgendaItem';
+import { SharedDataConsentModel } from './SharedDataConsent';
+import { GameSessionModel } from './GameSession';
+import { GameStatModel } from './GameStat';
+import { RatchetSessionModel } from './RatchetSession';
+import { SenderKeyModel } from './SenderKey';
+import { ContactKeyModel } from './ContactKey';
+import { LinkedDeviceModel } from './LinkedDevice';
+import { CallLogModel } from './CallLog';
+
 export { schema, SCHEMA_VERSION } from './schema';
 export { migrations } from './migrations';
-export { MessageModel } from './Message';
-export { OutboxMessageModel } from './OutboxMessage';
-export { ContactModel } from './Contact';
-export { GroupModel } from './Group';
-export { UserProfileModel } from './UserProfile';
-export { MediaMessageModel } from './MediaMessage';
-export { AgendaItemModel, type MedicationLogEntry } from './AgendaItem';
-export { SharedDataConsentModel } from './SharedDataConsent';
-export { GameSessionModel } from './GameSession';
-export { GameStatModel } from './GameStat';
+export {
+  MessageModel,
+  OutboxMessageModel,
+  ContactModel,
+  GroupModel,
+  UserProfileModel,
+  MediaMessageModel,
+  AgendaItemModel,
+  SharedDataConsentModel,
+  GameSessionModel,
+  GameStatModel,
+  RatchetSessionModel,
+  SenderKeyModel,
+  ContactKeyModel,
+  LinkedDeviceModel,
+  CallLogModel,
+};
+export type { MedicationLogEntry } from './AgendaItem';
 
 // Model classes array for database initialization
 export const modelClasses = [
-  require('./Message').MessageModel,
-  require('./OutboxMessage').OutboxMessageModel,
-  require('./Contact').ContactModel,
-  require('./Group').GroupModel,
-  require('./UserProfile').UserProfileModel,
-  require('./MediaMessage').MediaMessageModel,
-  require('./AgendaItem').AgendaItemModel,
-  require('./SharedDataConsent').SharedDataConsentModel,
-  require('./GameSession').GameSessionModel,
-  require('./GameStat').GameStatModel,
+  MessageModel,
+  OutboxMessageModel,
+  ContactModel,
+  GroupModel,
+  UserProfileModel,
+  MediaMessageModel,
+  AgendaItemModel,
+  SharedDataConsentModel,
+  GameSessionModel,
+  GameStatModel,
+  RatchetSessionModel,
+  SenderKeyModel,
+  ContactKeyModel,
+  LinkedDeviceModel,
+  CallLogModel,
 ];
@@ -16,11 +16,13 @@
  * @see .claude/plans/MAIL_MODULE_PROMPT.md — Fase 5.5
  */
 
+import type { DB } from '@op-engineering/op-sqlite';
+
 // ============================================================
 // Database Schema Version
 // ============================================================
 
-const MAIL_DB_VERSION = 2;
+const MAIL_DB_VERSION = 3;
 const MAIL_DB_NAME = 'mail_cache';
 
 /** Whether FTS5 is available in the current SQLite build */
@@ -62,6 +64,10 @@ const SCHEMA_SQL = {
       is_flagged INTEGER DEFAULT 0,
       sequence_number INTEGER DEFAULT 0,
       is_local INTEGER DEFAULT 0,
+      message_id TEXT,
+      in_reply_to TEXT,
+      references_ids TEXT,
+      thread_id TEXT,
       PRIMARY KEY (uid, account_id, folder)
     );
   `,
@@ -111,6 +117,22 @@ const SCHEMA_SQL = {
     ON mail_headers (account_id, folder, uid DESC);
   `,
 
+  /**
+   * Index for conversation lookups (thread view, inbox grouping).
+   */
+  createHeaderThreadIndex: `
+    CREATE INDEX IF NOT EXISTS idx_headers_account_thread
+    ON mail_headers (account_id, thread_id);
+  `,
+
+  /**
+   * Index for finding the parent of a reply by Message-ID.
+   */
+  createHeaderMessageIdIndex: `
+    CREATE INDEX IF NOT EXISTS idx_headers_account_message_id
+    ON mail_headers (account_id, message_id);
+  `,
+
   /**
    * Schema version tracking table.
    */
@@ -145,6 +167,9 @@ export interface MailDatabaseConnection {
 
   /** Close the database connection */
   close(): void;
+
+  /** Close the connection and delete the database file */
+  delete(): void;
 }
 
 /**
@@ -173,7 +198,7 @@ export interface MailDatabaseTransaction {
  */
 export function openMailDatabase(encryptionKey?: string): MailDatabaseConnection {
   // Dynamic import to avoid crash if op-sqlite is not yet installed
-  let opSqlite: { open: (options: Record<string, string>) => Record<string, unknown> };
+  let opSqlite: { open: (options: { name: string; encryptionKey?: string }) => DB };
   try {
     opSqlite = require('@op-engineering/op-sqlite');
   } catch {
@@ -186,7 +211,7 @@ export function openMailDatabase(encryptionKey?: string): MailDatabaseConnection
   const { open } = opSqlite;
 
   // Open database with optional encryption
-  const openOptions: Record<string, string> = { name: MAIL_DB_NAME };
+  const openOptions: { name: string; encryptionKey?: string } = { name: MAIL_DB_NAME };
   if (encryptionKey) {
     openOptions.encryptionKey = encryptionKey;
   }
@@ -233,11 +258,37 @@ export function openMailDatabase(encryptionKey?: string): MailDatabaseConnection
     close() {
       db.close();
     },
+
+    delete() {
+      db.delete();
+    },
   };
 
   return connection;
 }
 
+/**
+ * Open the mail cache encrypted with the database key.
+ *
+ * A cache that does not open with the key — created unencrypted by an older
+ * version, or left on another key by an interrupted key rotation — is deleted
+ * and created again. It only holds copies of server mail; the next sync refills it.
+ *
+ * @param encryptionKey - Hex database key (services/keyManager.ts)
+ */
+export async function openEncryptedMailDatabase(encryptionKey: string): Promise<MailDatabaseConnection> {
+  const db = openMailDatabase(encryptionKey);
+  try {
+    // SQLCipher only reports a wrong key on the first read
+    await db.executeQuery('SELECT count(*) FROM sqlite_master;');
+    return db;
+  } catch {
+    console.warn('[mailDatabase] Mail cache does not open with the database key, recreating it');
+    db.delete();
+    return openMailDatabase(encryptionKey);
+  }
+}
+
 /**
  * Initialize the mail database schema.
  * Creates tables, indexes, and FTS5 virtual table if they don't exist.
@@ -258,9 +309,9 @@ export async function initializeMailSchema(db: MailDatabaseConnection): Promise<
     await tx.execute(SCHEMA_SQL.createHeaderIndex);
     await tx.execute(SCHEMA_SQL.createHeaderUidIndex);
 
-    // Set schema version
+    // Set schema version for new databases (existing ones migrate below)
     await tx.execute(
-      'INSERT OR REPLACE INTO mail_meta (key, value) VALUES (?, ?)',
+      'INSERT OR IGNORE INTO mail_meta (key, value) VALUES (?, ?)',
       ['schema_version', String(MAIL_DB_VERSION)],
     );
   });
@@ -284,10 +335,29 @@ export async function initializeMailSchema(db: MailDatabaseConnection): Promise<
         "INSERT OR REPLACE INTO mail_meta (key, value) VALUES ('schema_version', '2')",
       );
     }
+
+    if (currentVersion < 3) {
+      // V3: Threading — Message-ID / In-Reply-To / References and thread id per header
+      for (const column of ['message_id', 'in_reply_to', 'references_ids', 'thread_id']) {
+        try {
+          await db.execute(`ALTER TABLE mail_headers ADD COLUMN ${column} TEXT`);
+        } catch {
+          // Column may already exist if migration was partially applied
+        }
+      }
+      console.debug('[mailDatabase] Migration v3: added threading columns');
+      await db.execute(
+        "INSERT OR REPLACE INTO mail_meta (key, value) VALUES ('schema_version', '3')",
+      );
+    }
   } catch {
     console.debug('[mailDatabase] Migration check skipped (meta table may not exist yet)');
   }
 
+  // Thread indexes — after migration v3, the columns exist on every database
+  await db.execute(SCHEMA_SQL.createHeaderThreadIndex);
+  await db.execute(SCHEMA_SQL.createHeaderMessageIdIndex);
+
   // FTS5 — optional, may not be compiled into op-sqlite
   try {
     await db.execute(SCHEMA_SQL.createFTS);
@@ -32,6 +32,16 @@
  * - v28: Added address_province to contacts and user_profile (personal address province/state)
  * - v29: Added landline_number to contacts (replaces phone_number)
  * - v30: Added game_sessions and game_stats tables for CommEazy Games
+ * - v31: Added ratchet_sessions table for forward-secret 1-on-1 messaging
+ * - v32: Added sender_keys table for sender-key group encryption
+ * - v33: Added contact_keys table (public key history for key-change warnings)
+ * - v34: Added edited_at, edit_history, retracted_at, reactions to messages
+ * - v35: Added waveform, transcript to messages (voice messages)
+ * - v36: Added upload_slot, remote_url, chunk_size to media_messages (encrypted chunked media transfer)
+ * - v37: Added linked_devices table (multi-device sync)
+ * - v38: Added rrule, exdates to agenda_items (RRULE recurrence engine)
+ * - v39: Added call_log table (call history, missed calls)
+ * - v40: Added seen_handshakes to ratchet_sessions (handshake replay protection)
  */
 
 import { schemaMigrations, addColumns, createTable } from '@nozbe/watermelondb/Schema/migrations';
@@ -536,5 +546,169 @@ export const migrations = schemaMigrations({
         }),
       ],
     },
+    // Migration from v30 to v31: Add ratchet_sessions table (Double Ratchet)
+    {
+      toVersion: 31,
+      steps: [
+        createTable({
+          name: 'ratchet_sessions',
+          columns: [
+            { name: 'contact_jid', type: 'string', isIndexed: true },
+            { name: 'session_data', type: 'string' },
+            { name: 'previous_session_data', type: 'string', isOptional: true },
+            { name: 'created_at', type: 'number' },
+            { name: 'updated_at', type: 'number' },
+          ],
+        }),
+      ],
+    },
+    // Migration from v31 to v32: Add sender_keys table (group sender keys)
+    {
+      toVersion: 32,
+      steps: [
+        createTable({
+          name: 'sender_keys',
+          columns: [
+            { name: 'group_id', type: 'string', isIndexed: true },
+            { name: 'sender_jid', type: 'string', isIndexed: true },
+            { name: 'key_data', type: 'string' },
+            { name: 'previous_key_data', type: 'string', isOptional: true },
+            { name: 'distributed_to', type: 'string', isOptional: true },
+            { name: 'created_at', type: 'number' },
+            { name: 'updated_at', type: 'number' },
+          ],
+        }),
+      ],
+    },
+    // Migration from v32 to v33: Add contact_keys table (key history)
+    {
+      toVersion: 33,
+      steps: [
+        createTable({
+          name: 'contact_keys',
+          columns: [
+            { name: 'contact_jid', type: 'string', isIndexed: true },
+            { name: 'public_key', type: 'string' },
+            { name: 'first_seen_at', type: 'number' },
+            { name: 'last_seen_at', type: 'number' },
+            { name: 'created_at', type: 'number' },
+            { name: 'updated_at', type: 'number' },
+          ],
+        }),
+      ],
+    },
+    // Migration from v33 to v34: Add edit / retract / reaction fields to messages
+    {
+      toVersion: 34,
+      steps: [
+        addColumns({
+          table: 'messages',
+          columns: [
+            { name: 'edited_at', type: 'number', isOptional: true },
+            { name: 'edit_history', type: 'string', isOptional: true },
+            { name: 'retracted_at', type: 'number', isOptional: true },
+            { name: 'reactions', type: 'string', isOptional: true },
+          ],
+        }),
+      ],
+    },
+    // Migration from v34 to v35: Add voice message fields to messages
+    {
+      toVersion: 35,
+      steps: [
+        addColumns({
+          table: 'messages',
+          columns: [
+            { name: 'waveform', type: 'string', isOptional: true },
+            { name: 'transcript', type: 'string', isOptional: true },
+          ],
+        }),
+      ],
+    },
+    // Migration from v35 to v36: Add upload resume state to media_messages
+    {
+      toVersion: 36,
+      steps: [
+        addColumns({
+          table: 'media_messages',
+          columns: [
+            { name: 'upload_slot', type: 'string', isOptional: true },
+            { name: 'remote_url', type: 'string', isOptional: true },
+            { name: 'chunk_size', type: 'number', isOptional: true },
+          ],
+        }),
+      ],
+    },
+    // Migration from v36 to v37: Add linked_devices table (multi-device sync)
+    {
+      toVersion: 37,
+      steps: [
+        createTable({
+          name: 'linked_devices',
+          columns: [
+            { name: 'device_id', type: 'string', isIndexed: true },
+            { name: 'name', type: 'string' },
+            { name: 'platform', type: 'string' },
+            { name: 'public_key', type: 'string' },
+            { name: 'certificate', type: 'string' },
+            { name: 'linked_at', type: 'number' },
+            { name: 'last_seen_at', type: 'number', isOptional: true },
+            { name: 'revoked_at', type: 'number', isOptional: true },
+            { name: 'is_current', type: 'boolean' },
+            { name: 'created_at', type: 'number' },
+            { name: 'updated_at', type: 'number' },
+          ],
+        }),
+      ],
+    },
+    // Migration from v37 to v38: Add RRULE recurrence to agenda_items
+    {
+      toVersion: 38,
+      steps: [
+        addColumns({
+          table: 'agenda_items',
+          columns: [
+            { name: 'rrule', type: 'string', isOptional: true },
+            { name: 'exdates', type: 'string', isOptional: true },
+          ],
+        }),
+      ],
+    },
+    // Migration from v38 to v39: Add call_log table (call history, missed calls)
+    {
+      toVersion: 39,
+      steps: [
+        createTable({
+          name: 'call_log',
+          columns: [
+            { name: 'call_id', type: 'string', isIndexed: true },
+            { name: 'call_type', type: 'string' },
+            { name: 'direction', type: 'string' },
+            { name: 'participants', type: 'string' },
+            { name: 'started_at', type: 'number', isIndexed: true },
+            { name: 'connected_at', type: 'number', isOptional: true },
+            { name: 'ended_at', type: 'number' },
+            { name: 'duration', type: 'number' },
+            { name: 'end_reason', type: 'string' },
+            { name: 'is_missed', type: 'boolean', isIndexed: true },
+            { name: 'seen_at', type: 'number', isOptional: true },
+            { name: 'created_at', type: 'number' },
+            { name: 'updated_at', type: 'number' },
+          ],
+        }),
+      ],
+    },
+    // Migration from v39 to v40: Remember accepted ratchet handshakes (replay protection)
+    {
+      toVersion: 40,
+      steps: [
+        addColumns({
+          table: 'ratchet_sessions',
+          columns: [
+            { name: 'seen_handshakes', type: 'string', isOptional: true },
+          ],
+        }),
+      ],
+    },
   ],
 });
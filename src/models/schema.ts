@@ -38,6 +38,16 @@
  * - v28: Added address_province to contacts and user_profile (personal address province/state)
  * - v29: Added landline_number to contacts (replaces phone_number), removed phoneNumber from UserProfile model (column remains for compat)
  * - v30: Added game_sessions and game_stats tables for CommEazy Games
+ * - v31: Added ratchet_sessions table for forward-secret 1-on-1 messaging
+ * - v32: Added sender_keys table for sender-key group encryption
+ * - v33: Added contact_keys table (public key history for key-change warnings)
+ * - v34: Added edited_at, edit_history, retracted_at, reactions to messages (edit, delete for everyone, reactions)
+ * - v35: Added waveform, transcript to messages (voice messages)
+ * - v36: Added upload_slot, remote_url, chunk_size to media_messages (encrypted chunked media transfer)
+ * - v37: Added linked_devices table (multi-device sync)
+ * - v38: Added rrule, exdates to agenda_items (RRULE recurrence engine)
+ * - v39: Added call_log table (call history, missed calls)
+ * - v40: Added seen_handshakes to ratchet_sessions (handshake replay protection)
  *
  * @see services/interfaces.ts for domain models
  * @see types/media.ts for media types
@@ -64,10 +74,10 @@ import { appSchema, tableSchema } from '@nozbe/watermelondb';
  * - Add migration steps for each version increment
  * - Test on fresh install AND on upgrade from previous version
  */
-export const SCHEMA_VERSION = 30;
+export const SCHEMA_VERSION = 40;
 
 export const schema = appSchema({
-  version: 30,
+  version: 40,
   tables: [
     // Messages table — stored locally after decryption
     tableSchema({
@@ -81,12 +91,19 @@ export const schema = appSchema({
         { name: 'timestamp', type: 'number', isIndexed: true },
         { name: 'status', type: 'string' }, // 'pending' | 'sent' | 'delivered' | 'failed' | 'expired'
         { name: 'is_read', type: 'boolean' }, // Unread message tracking
-        // Media fields (v13) — only populated for image/video content types
+        // Media fields (v13) — only populated for image/video/audio content types
         { name: 'media_id', type: 'string', isOptional: true },           // Reference to media_messages
         { name: 'thumbnail_data', type: 'string', isOptional: true },     // Base64 thumbnail (~10KB)
         { name: 'media_width', type: 'number', isOptional: true },        // Width in pixels
         { name: 'media_height', type: 'number', isOptional: true },       // Height in pixels
-        { name: 'media_duration', type: 'number', isOptional: true },     // Video duration in seconds
+        { name: 'media_duration', type: 'number', isOptional: true },     // Video/voice duration in seconds
+        { name: 'waveform', type: 'string', isOptional: true },           // JSON array of voice waveform bars (v35)
+        { name: 'transcript', type: 'string', isOptional: true },         // On-device voice transcription (v35)
+        // Edit / retract / reactions (v34)
+        { name: 'edited_at', type: 'number', isOptional: true },          // Last edit timestamp
+        { name: 'edit_history', type: 'string', isOptional: true },       // JSON array of earlier versions
+        { name: 'retracted_at', type: 'number', isOptional: true },       // Deleted for everyone timestamp
+        { name: 'reactions', type: 'string', isOptional: true },          // JSON object: reactor JID → emoji
         { name: 'created_at', type: 'number' },
         { name: 'updated_at', type: 'number' },
       ],
@@ -98,14 +115,14 @@ export const schema = appSchema({
       columns: [
         { name: 'media_id', type: 'string', isIndexed: true },          // Unique media ID (UUID v4)
         { name: 'message_id', type: 'string', isIndexed: true },        // Reference to messages table
-        { name: 'type', type: 'string' },                               // 'photo' | 'video'
+        { name: 'type', type: 'string' },                               // 'photo' | 'video' | 'audio'
         { name: 'local_uri', type: 'string' },                          // Local file path (decrypted)
         { name: 'thumbnail_uri', type: 'string' },                      // Local thumbnail path
         { name: 'size', type: 'number' },                               // File size in bytes
         { name: 'width', type: 'number' },                              // Width in pixels
         { name: 'height', type: 'number' },                             // Height in pixels
         { name: 'duration', type: 'number', isOptional: true },         // Video duration in seconds
-        { name: 'source', type: 'string' },                             // 'camera' | 'gallery' | 'received'
+        { name: 'source', type: 'string' },                             // 'camera' | 'gallery' | 'recorded' | 'received'
         { name: 'sender_jid', type: 'string', isOptional: true },       // Sender JID (for received)
         { name: 'sender_name', type: 'string', isOptional: true },      // Sender name (for received)
         { name: 'chat_id', type: 'string', isIndexed: true },           // Associated chat
@@ -114,6 +131,9 @@ export const schema = appSchema({
         { name: 'transfer_status', type: 'string' },                    // Transfer status
         { name: 'retry_count', type: 'number' },                        // Retry attempts
         { name: 'expires_at', type: 'number', isIndexed: true },        // 7-day expiration
+        { name: 'upload_slot', type: 'string', isOptional: true },      // JSON XEP-0363 slot, kept for resuming (v36)
+        { name: 'remote_url', type: 'string', isOptional: true },       // Download URL of the encrypted file (v36)
+        { name: 'chunk_size', type: 'number', isOptional: true },       // Plaintext bytes per encrypted chunk (v36)
         { name: 'created_at', type: 'number' },
         { name: 'updated_at', type: 'number' },
       ],
@@ -276,8 +296,10 @@ export const schema = appSchema({
         { name: 'time', type: 'string', isOptional: true },          // "11:00" (null for all-day)
         { name: 'times', type: 'string', isOptional: true },         // JSON: ["09:00", "21:00"]
         // Repeat pattern
-        { name: 'repeat_type', type: 'string', isOptional: true },   // 'daily'|'weekly'|'biweekly'|'monthly'|'yearly'
+        { name: 'repeat_type', type: 'string', isOptional: true },   // 'daily'|'weekly'|'biweekly'|'monthly'|'yearly'|'custom'
         { name: 'end_date', type: 'number', isOptional: true },      // End date timestamp
+        { name: 'rrule', type: 'string', isOptional: true },         // v38: RRULE value "FREQ=WEEKLY;BYDAY=MO,TH"
+        { name: 'exdates', type: 'string', isOptional: true },       // v38: JSON ["2026-03-09"] excluded days
         // Reminder
         { name: 'reminder_offset', type: 'string' },                 // ReminderOffset
         // Contacts (family appointments)
@@ -354,5 +376,83 @@ export const schema = appSchema({
         { name: 'updated_at', type: 'number' },
       ],
     }),
+
+    // Ratchet sessions table (v31) — Double Ratchet state per contact (sealed)
+    tableSchema({
+      name: 'ratchet_sessions',
+      columns: [
+        { name: 'contact_jid', type: 'string', isIndexed: true },              // Contact JID
+        { name: 'session_data', type: 'string' },                              // Sealed session state
+        { name: 'previous_session_data', type: 'string', isOptional: true },   // Sealed archived session
+        { name: 'seen_handshakes', type: 'string', isOptional: true },         // Sealed accepted handshake keys (v40)
+        { name: 'created_at', type: 'number' },
+        { name: 'updated_at', type: 'number' },
+      ],
+    }),
+
+    // Sender keys table (v32) — group sender key per member (sealed)
+    tableSchema({
+      name: 'sender_keys',
+      columns: [
+        { name: 'group_id', type: 'string', isIndexed: true },                 // Group ID
+        { name: 'sender_jid', type: 'string', isIndexed: true },               // Member JID (own JID for own key)
+        { name: 'key_data', type: 'string' },                                  // Sealed key state
+        { name: 'previous_key_data', type: 'string', isOptional: true },       // Sealed key before rotation
+        { name: 'distributed_to', type: 'string', isOptional: true },          // JSON array of JIDs (own key only)
+        { name: 'created_at', type: 'number' },
+        { name: 'updated_at', type: 'number' },
+      ],
+    }),
+
+    // Contact keys table (v33) — every public key ever seen per contact
+    tableSchema({
+      name: 'contact_keys',
+      columns: [
+        { name: 'contact_jid', type: 'string', isIndexed: true },              // Contact JID
+        { name: 'public_key', type: 'string' },                                // Base64 public key
+        { name: 'first_seen_at', type: 'number' },                             // Unix timestamp first stored
+        { name: 'last_seen_at', type: 'number' },                              // Unix timestamp last stored
+        { name: 'created_at', type: 'number' },
+        { name: 'updated_at', type: 'number' },
+      ],
+    }),
+
+    // Linked devices table (v37) — devices of this account for multi-device sync
+    tableSchema({
+      name: 'linked_devices',
+      columns: [
+        { name: 'device_id', type: 'string', isIndexed: true },                // Random hex device ID
+        { name: 'name', type: 'string' },                                      // Display name
+        { name: 'platform', type: 'string' },                                  // 'ios' | 'android'
+        { name: 'public_key', type: 'string' },                                // Device subkey (Base64)
+        { name: 'certificate', type: 'string' },                               // Account-key certificate (Base64)
+        { name: 'linked_at', type: 'number' },                                 // Unix timestamp linked
+        { name: 'last_seen_at', type: 'number', isOptional: true },            // Last sync received from it
+        { name: 'revoked_at', type: 'number', isOptional: true },              // Set when revoked
+        { name: 'is_current', type: 'boolean' },                               // This device
+        { name: 'created_at', type: 'number' },
+        { name: 'updated_at', type: 'number' },
+      ],
+    }),
+
+    // Call log table (v39) — finished calls for the Recent tab and missed-call badge
+    tableSchema({
+      name: 'call_log',
+      columns: [
+        { name: 'call_id', type: 'string', isIndexed: true },                  // CallService call ID
+        { name: 'call_type', type: 'string' },                                 // 'voice' | 'video'
+        { name: 'direction', type: 'string' },                                 // 'incoming' | 'outgoing'
+        { name: 'participants', type: 'string' },                              // JSON [{ jid, name }]
+        { name: 'started_at', type: 'number', isIndexed: true },               // Unix timestamp ringing started
+        { name: 'connected_at', type: 'number', isOptional: true },            // Unix timestamp answered
+        { name: 'ended_at', type: 'number' },                                  // Unix timestamp ended
+        { name: 'duration', type: 'number' },                                  // Seconds connected
+        { name: 'end_reason', type: 'string' },                                // CallEndReason
+        { name: 'is_missed', type: 'boolean', isIndexed: true },               // Incoming, not answered
+        { name: 'seen_at', type: 'number', isOptional: true },                 // Missed call seen in Recent tab
+        { name: 'created_at', type: 'number' },
+        { name: 'updated_at', type: 'number' },
+      ],
+    }),
   ],
 });
@@ -31,6 +31,7 @@ import {
   PhoneVerificationScreen,
   DeviceLinkScanScreen,
   InvitationCodeScreen,
+  BackupRestoreScreen,
   PinSetupScreen,
   ProfileStep1Screen,
   ProfileStep2Screen,
@@ -56,6 +57,7 @@ export type OnboardingStackParams = {
   PhoneVerification: undefined;
   DeviceLinkScan: undefined;
   InvitationCode: undefined;
+  BackupRestore: undefined;
   PinSetup: undefined;
   ProfileStep1: undefined;
   ProfileStep2: undefined;
@@ -93,10 +95,12 @@ export type SettingsStackParams = {
   VoiceSettings: undefined;
   ModulesSettings: undefined;
   CallSettings: undefined;  // Call sound and vibration settings
+  CheckInSettings: undefined;  // Daily check-in for emergency contacts
   AppearanceSettings: undefined;  // Theme (light/dark/system) + Accent color + Liquid Glass
   BackupSettings: undefined;
   DeviceTransfer: undefined;
   DeviceLinkShowQR: undefined;
+  LinkedDevices: undefined;  // Linked devices list + revoke
   PiperTtsTest: undefined;  // DEV: Test screen for Piper TTS
   MailSettings: undefined;  // E-mail module settings (Fase 9)
   MailOnboarding: undefined;  // E-mail account setup wizard
@@ -182,6 +186,11 @@ function OnboardingNavigator() {
         component={InvitationCodeScreen}
         options={{ title: '' }}
       />
+      <OnboardingStack.Screen
+        name="BackupRestore"
+        component={BackupRestoreScreen}
+        options={{ title: '' }}
+      />
       <OnboardingStack.Screen
         name="PinSetup"
         component={PinSetupScreen}
@@ -45,7 +45,7 @@ import {
   type LayoutChangeEvent,
 } from 'react-native';
 import { HapticTouchable } from '@/components/HapticTouchable';
-import { ScrollViewWithIndicator } from '@/components';
+import { ScrollViewWithIndicator, CheckInBanner } from '@/components';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useTranslation } from 'react-i18next';
 
@@ -730,6 +730,9 @@ export function HomeScreen({
         />
       )}
 
+      {/* Daily check-in ("Alles goed") — only when not checked in yet today */}
+      {!isWiggleMode && <CheckInBanner />}
+
       <ScrollViewWithIndicator
         ref={scrollViewRef}
         style={styles.scrollView}
@@ -5,6 +5,8 @@
  * - Remote video (full screen) or avatar
  * - Local video (PiP, 120x160pt, draggable)
  * - Participant name(s) + call duration
+ * - Verification code when both sides are verified contacts
+ *   (the same 6 digits on both phones, compared aloud)
  * - Control buttons: Mute, Speaker, Video, Hangup
  *
  * For 3-way calls:
@@ -41,8 +43,14 @@ import { useCall } from '@/contexts/CallContext';
 import { useColors } from '@/contexts/ThemeContext';
 import { useVisualPresence } from '@/contexts/PresenceContext';
 import { ServiceContainer } from '@/services/container';
+import { formatCallVerificationCode } from '@/services/call/callVerification';
+import type { ConnectionQuality } from '@/services/interfaces';
 import type { CallStackParams } from './types';
 
+/** Filled bars of the connection indicator */
+const QUALITY_BARS: Record<ConnectionQuality, number> = { good: 3, fair: 2, poor: 1 };
+const QUALITY_ORDER: ConnectionQuality[] = ['poor', 'fair', 'good'];
+
 /** Wrapper to show presence + trustLevel on call avatar */
 function CallContactAvatar({ name, jid, size, trustLevel }: { name: string; jid: string; size: number; trustLevel: number }) {
   const presence = useVisualPresence(jid);
@@ -171,6 +179,10 @@ export function ActiveCallScreen({ navigation, route }: Props) {
 
   // Render video or avatar
   const renderRemoteView = () => {
+    if (activeCall?.mode === 'sfu') {
+      return renderParticipantGrid();
+    }
+
     const isVideoCall = activeCall?.type === 'video';
     const hasRemoteStream = firstRemoteStream !== null;
     const remoteVideoEnabled = activeCall?.participants[0]?.isVideoEnabled ?? false;
@@ -200,6 +212,46 @@ export function ActiveCallScreen({ navigation, route }: Props) {
     );
   };
 
+  // Render group call (SFU): one tile per participant, two columns
+  const renderParticipantGrid = () => {
+    const participants = activeCall?.participants ?? [];
+    const rows = Math.max(1, Math.ceil(participants.length / 2));
+
+    return (
+      <View style={styles.participantGrid}>
+        {participants.map((participant) => {
+          const stream = remoteStreams.get(participant.jid);
+          const showVideo = activeCall?.type === 'video' && stream && participant.isVideoEnabled;
+          const tileStyle = [
+            styles.participantTile,
+            { height: `${100 / rows}%` as const },
+            participants.length === 1 && styles.participantTileFull,
+          ];
+
+          return (
+            <View key={participant.jid} style={tileStyle} accessible accessibilityLabel={participant.name}>
+              {showVideo ? (
+                <RTCView
+                  streamURL={stream.toURL()}
+                  style={styles.remoteVideo}
+                  objectFit="cover"
+                  mirror={false}
+                />
+              ) : (
+                <View style={styles.avatarView}>
+                  <CallContactAvatar name={participant.name} jid={participant.jid} size={80} trustLevel={0} />
+                </View>
+              )}
+              <Text style={[styles.participantTileName, { color: themeColors.textOnPrimary }]} numberOfLines={1}>
+                {participant.name}
+              </Text>
+            </View>
+          );
+        })}
+      </View>
+    );
+  };
+
   // Render local video PiP
   const renderLocalVideo = () => {
     const isVideoCall = activeCall?.type === 'video';
@@ -256,10 +308,85 @@ export function ActiveCallScreen({ navigation, route }: Props) {
           {participantNames}
         </Text>
         <Text style={[styles.statusText, { color: themeColors.textOnPrimary }]}>{statusText}</Text>
+        {(activeCall?.state === 'connected' || activeCall?.state === 'reconnecting') && renderConnectionQuality()}
+        {activeCall?.state === 'connected' && renderVerificationCodes()}
+        {activeCall?.state === 'connected' && activeCall.isFrameEncrypted === false && (
+          <View style={styles.verificationRow} accessible accessibilityLabel={t('call.groupRelayedNotice')}>
+            <Icon name="info" size={20} color={themeColors.textOnPrimary} />
+            <Text style={[styles.verificationText, { color: themeColors.textOnPrimary }]}>
+              {t('call.groupRelayedNotice')}
+            </Text>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  // Render connection indicator (weakest participant link decides)
+  const renderConnectionQuality = () => {
+    const measured = activeCall?.participants
+      .map((p) => p.quality)
+      .filter((quality): quality is ConnectionQuality => quality !== undefined) ?? [];
+    if (measured.length === 0) return null;
+
+    const quality = QUALITY_ORDER.find((level) => measured.includes(level)) ?? 'good';
+    const labels: Record<ConnectionQuality, string> = {
+      good: t('call.qualityGood'),
+      fair: t('call.qualityFair'),
+      poor: activeCall?.type === 'video' ? t('call.qualityPoorVideo') : t('call.qualityPoor'),
+    };
+
+    return (
+      <View style={styles.qualityRow} accessible accessibilityLabel={labels[quality]}>
+        <View style={styles.qualityBars}>
+          {[1, 2, 3].map((bar) => (
+            <View
+              key={bar}
+              style={[
+                styles.qualityBar,
+                { height: 6 + bar * 5 },
+                bar <= QUALITY_BARS[quality]
+                  ? { backgroundColor: themeColors.textOnPrimary }
+                  : styles.qualityBarEmpty,
+              ]}
+            />
+          ))}
+        </View>
+        <Text style={[styles.qualityText, { color: themeColors.textOnPrimary }]}>
+          {labels[quality]}
+        </Text>
       </View>
     );
   };
 
+  // Render verification codes (only legs where both sides are verified contacts)
+  const renderVerificationCodes = () => {
+    const verified = activeCall?.participants.filter((p) => p.verificationCode) ?? [];
+    const isGroupCall = (activeCall?.participants.length ?? 0) > 1;
+
+    return verified.map((participant) => {
+      const code = formatCallVerificationCode(participant.verificationCode!);
+      return (
+        <View
+          key={participant.jid}
+          style={styles.verificationRow}
+          accessible
+          accessibilityLabel={t('call.verificationCodeHint', {
+            name: participant.name,
+            code: participant.verificationCode!.split('').join(' '),
+          })}
+        >
+          <Icon name="shield-checkmark" size={20} color={themeColors.textOnPrimary} />
+          <Text style={[styles.verificationText, { color: themeColors.textOnPrimary }]}>
+            {isGroupCall
+              ? t('call.verificationCodeWith', { name: participant.name, code })
+              : t('call.verificationCode', { code })}
+          </Text>
+        </View>
+      );
+    });
+  };
+
   const isVideoCall = activeCall?.type === 'video';
 
   return (
@@ -399,6 +526,31 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     backgroundColor: '#1A1A1A',
   },
+  participantGrid: {
+    flex: 1,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    backgroundColor: '#1A1A1A',
+  },
+  participantTile: {
+    width: '50%',
+    borderWidth: 1,
+    borderColor: '#000',
+  },
+  participantTileFull: {
+    width: '100%',
+  },
+  participantTileName: {
+    ...typography.body,
+    // color applied dynamically via themeColors
+    position: 'absolute',
+    left: spacing.sm,
+    right: spacing.sm,
+    bottom: spacing.sm,
+    textShadowColor: 'rgba(0, 0, 0, 0.8)',
+    textShadowOffset: { width: 0, height: 1 },
+    textShadowRadius: 4,
+  },
   localVideoContainer: {
     position: 'absolute',
     top: PIP_MARGIN + 50, // Below status bar
@@ -456,6 +608,48 @@ const styles = StyleSheet.create({
     textShadowOffset: { width: 0, height: 1 },
     textShadowRadius: 4,
   },
+  qualityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: spacing.sm,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.md,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  qualityBars: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: 21,
+  },
+  qualityBar: {
+    width: 6,
+    marginRight: 3,
+    borderRadius: 1,
+  },
+  qualityBarEmpty: {
+    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  qualityText: {
+    ...typography.body,
+    // color applied dynamically via themeColors
+    marginLeft: spacing.sm,
+  },
+  verificationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: spacing.sm,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.md,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  verificationText: {
+    ...typography.body,
+    // color applied dynamically via themeColors
+    marginLeft: spacing.sm,
+    fontVariant: ['tabular-nums'],
+  },
   controlsContainer: {
     flexDirection: 'row',
     justifyContent: 'space-around',
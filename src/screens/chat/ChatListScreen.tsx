@@ -37,8 +37,9 @@ import { useNavigateToModule } from '@/hooks/useNavigateToModule';
 import type { ChatStackParams } from '@/navigation';
 import { ServiceContainer } from '@/services/container';
 import { chatService } from '@/services/chat';
-import type { DeliveryStatus } from '@/services/interfaces';
+import type { DeliveryStatus, Message } from '@/services/interfaces';
 import { getContactDisplayName } from '@/services/interfaces';
+import i18n from '@/i18n';
 
 // ChatListItem type for this screen
 interface ChatListItem {
@@ -55,6 +56,19 @@ interface ChatListItem {
 
 type NavigationProp = NativeStackNavigationProp<ChatStackParams, 'ChatList'>;
 
+/** Preview text for the last message — system notices are stored untranslated, voice messages have no text */
+function getPreviewText(message: Message | null): string {
+  if (!message) return '';
+  if (message.contentType === 'system') return i18n.t('chat.keyChangedPreview');
+  if (message.contentType === 'audio' && !message.retractedAt) {
+    const seconds = Math.round(message.mediaDuration ?? 0);
+    return i18n.t('chat.voice.preview', {
+      duration: `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`,
+    });
+  }
+  return message.content;
+}
+
 /** Small wrapper to use useVisualPresence hook in list items */
 function ChatContactAvatar({ name, jid, trustLevel }: { name: string; jid: string; trustLevel: number }) {
   const presence = useVisualPresence(jid);
@@ -114,7 +128,7 @@ export function ChatListScreen() {
                   chatId: chat.chatId,
                   contactJid: chat.contact.jid,
                   contactName: getContactDisplayName(chat.contact),
-                  lastMessage: lastMsg?.content ?? '',
+                  lastMessage: getPreviewText(lastMsg),
                   lastMessageTime: lastMsg?.timestamp ?? 0,
                   unreadCount: chat.unreadCount,
                   lastMessageIsFromMe: isFromMe,
@@ -168,7 +182,7 @@ export function ChatListScreen() {
             chatId: chat.chatId,
             contactJid: chat.contact.jid,
             contactName: getContactDisplayName(chat.contact),
-            lastMessage: lastMsg?.content ?? '',
+            lastMessage: getPreviewText(lastMsg),
             lastMessageTime: lastMsg?.timestamp ?? 0,
             unreadCount: chat.unreadCount,
             lastMessageIsFromMe: isFromMe,
@@ -196,7 +210,7 @@ export function ChatListScreen() {
             chatId: chat.chatId,
             contactJid: chat.contact.jid,
             contactName: getContactDisplayName(chat.contact),
-            lastMessage: lastMsg?.content ?? '',
+            lastMessage: getPreviewText(lastMsg),
             lastMessageTime: lastMsg?.timestamp ?? 0,
             unreadCount: chat.unreadCount,
             lastMessageIsFromMe: isFromMe,
@@ -7,6 +7,8 @@
  * - Clear message bubbles with high contrast
  * - VoiceOver support with message context
  * - Inverted FlatList (newest at bottom)
+ * - Long-press a message for reactions, edit and delete for everyone
+ * - Hold the microphone to record a voice message (shown when the input is empty)
  *
  * @see .claude/skills/ui-designer/SKILL.md
  * @see .claude/skills/react-native-expert/SKILL.md
@@ -24,6 +26,7 @@ import {
   AccessibilityInfo,
   DeviceEventEmitter,
   ActivityIndicator,
+  Alert,
 } from 'react-native';
 import { HapticTouchable } from '@/components/HapticTouchable';
 import { useTranslation } from 'react-i18next';
@@ -41,13 +44,27 @@ import {
 } from '@/theme';
 import { useColors } from '@/contexts/ThemeContext';
 import { useVisualPresence } from '@/contexts/PresenceContext';
-import { MessageStatus, PhotoMessageBubble, AgendaItemBubble, Icon, ErrorView } from '@/components';
+import {
+  MessageStatus,
+  PhotoMessageBubble,
+  AgendaItemBubble,
+  Icon,
+  ErrorView,
+  MessageActionsModal,
+  VoiceMessageBubble,
+  VoiceRecordButton,
+} from '@/components';
 import type { AgendaItemPayload } from '@/components';
 import type { Message } from '@/services/interfaces';
 import ReactNativeHapticFeedback from 'react-native-haptic-feedback';
 import type { ChatStackParams } from '@/navigation';
 import { ServiceContainer } from '@/services/container';
 import { chatService } from '@/services/chat';
+import type { MediaDownloadState } from '@/services/chat';
+import { canEditMessage, canReactToMessage, canRetractMessage } from '@/services/messageActions';
+import { stopVoice } from '@/services/media/mediaService';
+import { getPhotoFileUri } from '@/services/media';
+import type { VoiceRecordingResult } from '@/types/media';
 
 type ChatScreenRouteProp = RouteProp<ChatStackParams, 'ChatDetail'>;
 type ChatScreenNavigationProp = NativeStackNavigationProp<ChatStackParams, 'ChatDetail'>;
@@ -55,7 +72,7 @@ type ChatScreenNavigationProp = NativeStackNavigationProp<ChatStackParams, 'Chat
 const MESSAGE_LIMIT = 50;
 
 export function ChatScreen() {
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const route = useRoute<ChatScreenRouteProp>();
   const navigation = useNavigation<ChatScreenNavigationProp>();
   const themeColors = useColors();
@@ -66,12 +83,21 @@ export function ChatScreen() {
   const [inputText, setInputText] = useState('');
   const [sending, setSending] = useState(false);
   const [sendingPhoto, setSendingPhoto] = useState(false);
+  const [sendingVoice, setSendingVoice] = useState(false);
   const [notification, setNotification] = useState<{
     type: 'error' | 'warning' | 'info' | 'success';
     title: string;
     message: string;
   } | null>(null);
+  // Long-pressed message (actions modal) and message being edited in the input
+  const [actionTarget, setActionTarget] = useState<Message | null>(null);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [mediaDownloads, setMediaDownloads] = useState<
+    Record<string, { state: MediaDownloadState; progress: number }>
+  >({});
   const scrollViewRef = useRef<ScrollView>(null);
+  // Voice messages already handed to the on-device transcriber
+  const transcribedRef = useRef<Set<string>>(new Set());
 
   // Set header with name + presence status
   useEffect(() => {
@@ -156,6 +182,36 @@ export function ChatScreen() {
     return unsubscribe;
   }, []);
 
+  // Track encrypted photo downloads (progress bar, retry on failure)
+  useEffect(() => {
+    if (!ServiceContainer.isInitialized || !chatService.isInitialized) return;
+
+    return chatService.onMediaDownload((messageId, state, progress) => {
+      setMediaDownloads(prev => ({ ...prev, [messageId]: { state, progress } }));
+    });
+  }, []);
+
+  // Transcribe received voice messages on-device (read instead of listen)
+  useEffect(() => {
+    if (!ServiceContainer.isInitialized || !chatService.isInitialized) return;
+
+    const myJid = chatService.getMyJid();
+    messages
+      .filter(msg => msg.contentType === 'audio' && !msg.transcript && !msg.retractedAt && msg.senderId !== myJid)
+      .filter(msg => !transcribedRef.current.has(msg.id))
+      .forEach((msg) => {
+        transcribedRef.current.add(msg.id);
+        void chatService.transcribeVoiceMessage(msg.id, i18n.language);
+      });
+  }, [messages, i18n.language]);
+
+  // Stop playback when leaving the chat
+  useEffect(() => {
+    return () => {
+      void stopVoice();
+    };
+  }, []);
+
   const handleSend = useCallback(async () => {
     const text = inputText.trim();
     console.info('[ChatScreen] handleSend called, text length:', text.length, 'sending:', sending);
@@ -170,6 +226,23 @@ export function ChatScreen() {
     setSending(true);
     setInputText('');
 
+    // Editing an existing message instead of sending a new one
+    if (editingMessage) {
+      try {
+        if (text !== editingMessage.content) {
+          await chatService.editMessage(contactJid, editingMessage.id, text);
+        }
+        setEditingMessage(null);
+      } catch (error) {
+        console.error('[ChatScreen] Failed to edit message:', error);
+        setInputText(text);
+        setNotification({ type: 'error', title: t('chat.messageActions.failedTitle'), message: t('errors.E305') });
+      } finally {
+        setSending(false);
+      }
+      return;
+    }
+
     try {
       // Try to use real service if fully initialized
       const serviceReady = ServiceContainer.isInitialized && chatService.isInitialized;
@@ -194,7 +267,51 @@ export function ChatScreen() {
     } finally {
       setSending(false);
     }
-  }, [inputText, sending, chatId, t]);
+  }, [inputText, sending, chatId, contactJid, editingMessage, t]);
+
+  // ============================================================
+  // Message actions (reactions, edit, delete for everyone)
+  // ============================================================
+
+  const handleStartEdit = useCallback((message: Message) => {
+    setEditingMessage(message);
+    setInputText(message.content);
+    AccessibilityInfo.announceForAccessibility(t('chat.messageActions.editing'));
+  }, [t]);
+
+  const handleCancelEdit = useCallback(() => {
+    setEditingMessage(null);
+    setInputText('');
+  }, []);
+
+  const handleReact = useCallback(async (message: Message, emoji: string | null) => {
+    try {
+      await chatService.reactToMessage(contactJid, message.id, emoji);
+    } catch (error) {
+      console.error('[ChatScreen] Failed to react:', error);
+      setNotification({ type: 'error', title: t('chat.messageActions.failedTitle'), message: t('errors.E305') });
+    }
+  }, [contactJid, t]);
+
+  const handleRetract = useCallback((message: Message) => {
+    Alert.alert(
+      t('chat.messageActions.deleteConfirmTitle'),
+      t('chat.messageActions.deleteConfirmMessage', { name }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('chat.messageActions.deleteForEveryone'),
+          style: 'destructive',
+          onPress: () => {
+            chatService.retractMessage(contactJid, message.id).catch((error: unknown) => {
+              console.error('[ChatScreen] Failed to delete message:', error);
+              setNotification({ type: 'error', title: t('chat.messageActions.failedTitle'), message: t('errors.E305') });
+            });
+          },
+        },
+      ],
+    );
+  }, [contactJid, name, t]);
 
   // Refs for voice command listener to avoid re-subscribing on every keystroke
   const handleSendRef = useRef(handleSend);
@@ -299,6 +416,36 @@ export function ChatScreen() {
     }
   }, [sendingPhoto, contactJid, t]);
 
+  // ============================================================
+  // Voice messages
+  // ============================================================
+
+  const handleVoiceRecorded = useCallback(async (recording: VoiceRecordingResult) => {
+    if (!ServiceContainer.isInitialized || !chatService.isInitialized) {
+      setNotification({ type: 'error', title: t('common.error'), message: t('chat.serviceNotReady') });
+      return;
+    }
+
+    setSendingVoice(true);
+    try {
+      await chatService.sendVoiceMessage(contactJid, recording);
+      AccessibilityInfo.announceForAccessibility(t('chat.voice.sent'));
+    } catch (error) {
+      console.error('[ChatScreen] Voice message send error:', error);
+      setNotification({ type: 'error', title: t('common.error'), message: t('chat.voice.failed') });
+    } finally {
+      setSendingVoice(false);
+    }
+  }, [contactJid, t]);
+
+  const handleVoiceError = useCallback((reason: 'too_short' | 'failed') => {
+    if (reason === 'too_short') {
+      setNotification({ type: 'info', title: t('chat.voice.tooShortTitle'), message: t('chat.voice.tooShort') });
+    } else {
+      setNotification({ type: 'error', title: t('common.error'), message: t('chat.voice.recordFailed') });
+    }
+  }, [t]);
+
   const formatTime = useCallback((timestamp: number): string => {
     return new Date(timestamp).toLocaleTimeString([], {
       hour: '2-digit',
@@ -315,6 +462,43 @@ export function ChatScreen() {
         ? item.senderId === myJid
         : item.senderName === 'Ik'; // Fallback for dev mode without service
 
+      // Render local system notice (key change) — centered, no bubble
+      if (item.contentType === 'system') {
+        const notice = t('chat.keyChangedNotice', { name: item.senderName });
+        return (
+          <View
+            style={[styles.systemNotice, { backgroundColor: themeColors.surface, borderColor: themeColors.warning }]}
+            accessible={true}
+            accessibilityLabel={notice}
+          >
+            <Text style={[styles.systemNoticeText, { color: themeColors.textPrimary }]}>
+              {notice}
+            </Text>
+          </View>
+        );
+      }
+
+      // Deleted for everyone — placeholder bubble, no actions
+      if (item.retractedAt) {
+        const deletedText = isOwn ? t('chat.messageActions.deletedByYou') : t('chat.messageActions.deleted');
+        return (
+          <View
+            style={[
+              styles.messageBubble,
+              isOwn ? styles.ownMessage : styles.otherMessage,
+              styles.retractedBubble,
+              { borderColor: themeColors.border },
+            ]}
+            accessible={true}
+            accessibilityLabel={deletedText}
+          >
+            <Text style={[styles.retractedText, { color: themeColors.textSecondary }]}>
+              {deletedText}
+            </Text>
+          </View>
+        );
+      }
+
       // Render agenda item message with AgendaItemBubble
       if (item.contentType === 'agenda_item') {
         try {
@@ -341,11 +525,15 @@ export function ChatScreen() {
       }
 
       // Render photo message with PhotoMessageBubble
-      if (item.contentType === 'image' && item.mediaUri) {
+      if (item.contentType === 'image' && (item.mediaUri || item.mediaId)) {
+        const downloadFailed = mediaDownloads[item.id]?.state === 'failed';
         return (
           <PhotoMessageBubble
-            uri={item.mediaUri}
-            thumbnailUri={item.thumbnailUri}
+            uri={item.mediaUri ?? getPhotoFileUri(item.mediaId!)}
+            thumbnailUri={
+              item.thumbnailUri
+              ?? (item.thumbnailData ? `data:image/jpeg;base64,${item.thumbnailData}` : undefined)
+            }
             width={item.mediaWidth}
             height={item.mediaHeight}
             caption={item.content || undefined}
@@ -353,10 +541,12 @@ export function ChatScreen() {
             timestamp={item.timestamp}
             downloadProgress={item.mediaDownloadProgress}
             isDownloading={item.isMediaDownloading}
-            hasError={item.status === 'failed'}
+            hasError={item.status === 'failed' || downloadFailed}
             onRetry={() => {
               if (isOwn && item.status === 'failed') {
                 chatService.retrySendMessage(item.id);
+              } else if (!isOwn && downloadFailed) {
+                void chatService.retryMediaDownload(item.id);
               }
               console.info('[ChatScreen] Retry photo:', item.id);
             }}
@@ -367,6 +557,61 @@ export function ChatScreen() {
         );
       }
 
+      // Reactions grouped by emoji: { '👍': 2, '❤️': 1 }
+      const reactionCounts = Object.values(item.reactions ?? {}).reduce<Record<string, number>>(
+        (counts, emoji) => ({ ...counts, [emoji]: (counts[emoji] ?? 0) + 1 }),
+        {},
+      );
+      const reactionSummary = Object.entries(reactionCounts)
+        .map(([emoji, count]) => `${emoji} ${count}`)
+        .join(', ');
+
+      const reactionChips = reactionSummary.length > 0 && (
+        <View style={styles.reactionRow}>
+          {Object.entries(reactionCounts).map(([emoji, count]) => (
+            <View
+              key={emoji}
+              style={[styles.reactionChip, { backgroundColor: themeColors.backgroundSecondary }]}
+            >
+              <Text style={[styles.reactionChipText, { color: themeColors.textPrimary }]}>
+                {count > 1 ? `${emoji} ${count}` : emoji}
+              </Text>
+            </View>
+          ))}
+        </View>
+      );
+
+      // Render voice message with VoiceMessageBubble
+      if (item.contentType === 'audio') {
+        return (
+          <HapticTouchable hapticDisabled
+            onLongPress={() => setActionTarget(item)}
+            activeOpacity={0.9}
+            accessibilityActions={[{ name: 'longpress', label: t('chat.messageActions.title') }]}
+            onAccessibilityAction={() => setActionTarget(item)}
+          >
+            <VoiceMessageBubble
+              uri={item.mediaUri}
+              mediaId={item.mediaId}
+              duration={item.mediaDuration ?? 0}
+              waveform={item.waveform ?? []}
+              transcript={item.transcript}
+              isOwn={isOwn}
+              timestamp={item.timestamp}
+            />
+            {reactionChips && (
+              <View
+                style={isOwn ? styles.ownMessage : styles.otherMessage}
+                accessible={true}
+                accessibilityLabel={t('chat.messageActions.reactions', { reactions: reactionSummary })}
+              >
+                {reactionChips}
+              </View>
+            )}
+          </HapticTouchable>
+        );
+      }
+
       // Determine bubble style based on delivery status
       const isPending = item.status === 'pending';
       const isFailed = item.status === 'failed' || item.status === 'expired';
@@ -390,7 +635,9 @@ export function ChatScreen() {
           accessibilityLabel={t('accessibility.messageFrom', {
             name: isOwn ? t('group.you') : item.senderName,
             time: formatTime(item.timestamp),
-          }) + `. ${item.content}`}
+          }) + `. ${item.content}`
+            + (item.editedAt ? `. ${t('chat.messageActions.edited')}` : '')
+            + (reactionSummary ? `. ${t('chat.messageActions.reactions', { reactions: reactionSummary })}` : '')}
           accessibilityHint={
             isFailed && isOwn
               ? t('common.tapToRetry', 'Tap to retry')
@@ -411,6 +658,17 @@ export function ChatScreen() {
           </Text>
 
           <View style={styles.messageFooter}>
+            {item.editedAt && (
+              <Text
+                style={[
+                  styles.messageTime,
+                  { color: themeColors.textTertiary },
+                  isOwn && { color: 'rgba(255, 255, 255, 0.7)' },
+                ]}
+              >
+                {t('chat.messageActions.edited')}
+              </Text>
+            )}
             {isFailed && isOwn && (
               <Text style={[styles.messageTime, { color: 'rgba(255, 255, 255, 0.7)', marginRight: spacing.xs }]}>
                 {t('common.tapToRetry', 'Tap to retry')}
@@ -429,31 +687,42 @@ export function ChatScreen() {
               <MessageStatus status={item.status} />
             )}
           </View>
+
+          {reactionChips}
         </View>
       );
 
-      if (isFailed && isOwn) {
-        return (
-          <HapticTouchable hapticDisabled
-            onPress={() => chatService.retrySendMessage(item.id)}
-            activeOpacity={0.7}
-          >
-            {bubbleContent}
-          </HapticTouchable>
-        );
-      }
-
-      return bubbleContent;
+      return (
+        <HapticTouchable hapticDisabled
+          onPress={isFailed && isOwn ? () => chatService.retrySendMessage(item.id) : undefined}
+          onLongPress={() => setActionTarget(item)}
+          activeOpacity={0.7}
+          accessibilityActions={[{ name: 'longpress', label: t('chat.messageActions.title') }]}
+          onAccessibilityAction={() => setActionTarget(item)}
+        >
+          {bubbleContent}
+        </HapticTouchable>
+      );
     },
-    [t, formatTime, themeColors],
+    [t, formatTime, themeColors, mediaDownloads],
   );
 
   const keyExtractor = useCallback((item: Message) => item.id, []);
 
   // Memoize sorted messages to avoid re-sorting on every render
   const sortedMessages = useMemo(
-    () => [...messages].sort((a, b) => a.timestamp - b.timestamp),
-    [messages],
+    () => [...messages]
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .map((msg) => {
+        const download = mediaDownloads[msg.id];
+        if (!download) return msg;
+        return {
+          ...msg,
+          isMediaDownloading: download.state === 'downloading',
+          mediaDownloadProgress: download.progress,
+        };
+      }),
+    [messages, mediaDownloads],
   );
 
   // Debounced scroll to bottom — prevents jank during keyboard animation
@@ -503,6 +772,24 @@ export function ChatScreen() {
         ))}
       </ScrollView>
 
+      {/* Editing banner — shows which message the input replaces */}
+      {editingMessage && (
+        <View style={[styles.editingBanner, { backgroundColor: themeColors.surface, borderTopColor: themeColors.divider }]}>
+          <Icon name="pencil" size={20} color={themeColors.primary} />
+          <Text style={[styles.editingText, { color: themeColors.textPrimary }]} numberOfLines={1}>
+            {t('chat.messageActions.editing')}
+          </Text>
+          <HapticTouchable hapticDisabled
+            style={styles.editingCancel}
+            onPress={handleCancelEdit}
+            accessibilityRole="button"
+            accessibilityLabel={t('chat.messageActions.cancelEdit')}
+          >
+            <Icon name="x" size={24} color={themeColors.textSecondary} />
+          </HapticTouchable>
+        </View>
+      )}
+
       {/* Input area */}
       <View style={[styles.inputContainer, { backgroundColor: themeColors.surface, borderTopColor: themeColors.divider }]}>
         {/* Photo button */}
@@ -535,24 +822,52 @@ export function ChatScreen() {
           blurOnSubmit={false}
         />
 
-        <HapticTouchable hapticDisabled
-          style={[
-            styles.sendButton,
-            { backgroundColor: themeColors.primary },
-            (!inputText.trim() || sending) && { backgroundColor: themeColors.disabled },
-          ]}
-          onPress={handleSend}
-          disabled={!inputText.trim() || sending}
-          activeOpacity={0.7}
-          accessibilityRole="button"
-          accessibilityLabel={t('accessibility.sendButton')}
-          accessibilityState={{ disabled: !inputText.trim() || sending }}
-        >
-          <Text style={[styles.sendButtonText, { color: themeColors.textOnPrimary }]}>
-            {sending ? '...' : '→'}
-          </Text>
-        </HapticTouchable>
+        {/* Microphone while the input is empty, send button once there is text */}
+        {!inputText.trim() && !editingMessage ? (
+          <VoiceRecordButton
+            onRecorded={(recording) => void handleVoiceRecorded(recording)}
+            onError={handleVoiceError}
+            disabled={sendingVoice}
+          />
+        ) : (
+          <HapticTouchable hapticDisabled
+            style={[
+              styles.sendButton,
+              { backgroundColor: themeColors.primary },
+              (!inputText.trim() || sending) && { backgroundColor: themeColors.disabled },
+            ]}
+            onPress={handleSend}
+            disabled={!inputText.trim() || sending}
+            activeOpacity={0.7}
+            accessibilityRole="button"
+            accessibilityLabel={t('accessibility.sendButton')}
+            accessibilityState={{ disabled: !inputText.trim() || sending }}
+          >
+            <Text style={[styles.sendButtonText, { color: themeColors.textOnPrimary }]}>
+              {sending ? '...' : '→'}
+            </Text>
+          </HapticTouchable>
+        )}
       </View>
+
+      <MessageActionsModal
+        visible={actionTarget !== null}
+        moduleId="chats"
+        myReaction={actionTarget?.reactions?.[chatService.getMyJid() ?? '']}
+        canReact={actionTarget !== null && canReactToMessage(actionTarget)}
+        canEdit={actionTarget !== null && canEditMessage(actionTarget, chatService.getMyJid() ?? '')}
+        canRetract={actionTarget !== null && canRetractMessage(actionTarget, chatService.getMyJid() ?? '')}
+        onReact={(emoji) => {
+          if (actionTarget) void handleReact(actionTarget, emoji);
+        }}
+        onEdit={() => {
+          if (actionTarget) handleStartEdit(actionTarget);
+        }}
+        onRetract={() => {
+          if (actionTarget) handleRetract(actionTarget);
+        }}
+        onClose={() => setActionTarget(null)}
+      />
     </KeyboardAvoidingView>
   );
 }
@@ -593,6 +908,59 @@ const styles = StyleSheet.create({
   messageTime: {
     ...typography.small,
   },
+  systemNotice: {
+    alignSelf: 'center',
+    maxWidth: '90%',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.md,
+    borderWidth: 2,
+    marginBottom: spacing.sm,
+  },
+  systemNoticeText: {
+    ...typography.body,
+    textAlign: 'center',
+  },
+  retractedBubble: {
+    backgroundColor: 'transparent',
+    borderWidth: 1,
+  },
+  retractedText: {
+    ...typography.body,
+    fontStyle: 'italic',
+  },
+  reactionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+    marginTop: spacing.xs,
+  },
+  reactionChip: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+    borderRadius: borderRadius.md,
+  },
+  reactionChipText: {
+    ...typography.body,
+  },
+  editingBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderTopWidth: 1,
+    gap: spacing.sm,
+  },
+  editingText: {
+    ...typography.body,
+    flex: 1,
+  },
+  editingCancel: {
+    width: touchTargets.minimum,
+    height: touchTargets.minimum,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   inputContainer: {
     flexDirection: 'row',
     alignItems: 'flex-end',
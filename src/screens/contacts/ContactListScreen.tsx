@@ -25,6 +25,7 @@ import {
   Text,
   StyleSheet,
   RefreshControl,
+  Alert,
 } from 'react-native';
 import { useTranslation } from 'react-i18next';
 import { useNavigation, useIsFocused } from '@react-navigation/native';
@@ -32,6 +33,7 @@ import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 
 import { colors, typography, spacing, touchTargets, borderRadius } from '@/theme';
 import { useColors } from '@/contexts/ThemeContext';
+import { useCall } from '@/contexts/CallContext';
 import { ContactAvatar, LoadingView, Icon, ModuleHeader, ModuleScreenLayout, SearchBar, ContactGroupChipBar, ContactGroupActionsBar, HapticTouchable, ScrollViewWithIndicator, ContactReachabilityIcons } from '@/components';
 import type { ChipId } from '@/components';
 import { VoiceFocusable } from '@/components/VoiceFocusable';
@@ -43,7 +45,9 @@ import { useContactGroups } from '@/hooks/useContactGroups';
 import { ServiceContainer } from '@/services/container';
 import { type Contact, getContactDisplayName } from '@/services/interfaces';
 import { getAvatarPath } from '@/services/imageService';
-import { getSmartSections, getCallFrequency } from '@/services/contacts';
+import { getSmartSections } from '@/services/contacts';
+import { callLogService } from '@/services/callLog';
+import { CALL_LIMITS } from '@/services/call';
 import type { SmartSection, ContactGroup } from '@/services/contacts';
 import type { ContactStackParams } from '@/navigation';
 import { CreateGroupModal } from './CreateGroupModal';
@@ -122,6 +126,7 @@ export function ContactListScreen() {
   const { navigateToModule } = useNavigateToModule();
   const { triggerFeedback } = useFeedback();
   const themeColors = useColors();
+  const { initiateGroupCall, isInCall } = useCall();
   const isFocused = useIsFocused(); // Track if this screen is focused
   const [contacts, setContacts] = useState<Contact[]>([]);
   const [filteredContacts, setFilteredContacts] = useState<Contact[]>([]);
@@ -227,9 +232,10 @@ export function ContactListScreen() {
     return getSmartSections(contacts, callFrequency);
   }, [contacts, callFrequency]);
 
-  // Load call frequency data
+  // Load call frequency from the call log
   useEffect(() => {
-    getCallFrequency().then(setCallFrequency).catch(() => {});
+    if (!ServiceContainer.isInitialized) return;
+    callLogService.getCallFrequency().then(setCallFrequency).catch(() => {});
   }, []);
 
   // Filter contacts by chip selection + search query
@@ -375,6 +381,30 @@ export function ContactListScreen() {
     console.info('[ContactListScreen] Call member from group:', selectedGroupLabel, filteredContacts.length, 'contacts');
   }, [triggerFeedback, selectedGroupLabel, filteredContacts]);
 
+  // Group video call: only members with CommEazy can be called, and together
+  // with us they must fit in one call
+  const groupCallJids = useMemo(
+    () => filteredContacts.filter((c) => (c.trustLevel ?? 0) >= 2).map((c) => c.jid),
+    [filteredContacts]
+  );
+  const canGroupCall = groupCallJids.length >= 2 && groupCallJids.length < CALL_LIMITS.MAX_GROUP_PARTICIPANTS;
+
+  const handleGroupCall = useCallback(async () => {
+    void triggerFeedback('tap');
+    if (isInCall) {
+      Alert.alert(t('calls.alreadyInCall'), t('calls.alreadyInCallMessage'));
+      return;
+    }
+
+    console.info('[ContactListScreen] Group call:', selectedGroupLabel, groupCallJids.length, 'contacts');
+    try {
+      await initiateGroupCall(groupCallJids, 'video');
+    } catch (error) {
+      console.error('[ContactListScreen] Failed to start group call:', error);
+      Alert.alert(t('calls.callFailed'), t('calls.callFailedMessage'));
+    }
+  }, [triggerFeedback, isInCall, selectedGroupLabel, groupCallJids, initiateGroupCall, t]);
+
   const renderContactItem = useCallback(
     (item: Contact, index: number) => (
       <ContactListItem
@@ -508,6 +538,7 @@ export function ContactListScreen() {
                 onSendMessage={handleGroupSendMessage}
                 onSendMail={handleGroupSendMail}
                 onCallMember={handleGroupCallMember}
+                onGroupCall={canGroupCall ? () => void handleGroupCall() : undefined}
               />
             )}
 
@@ -5,6 +5,7 @@
  * - Large QR code (200pt+)
  * - Clear instructions
  * - Tab-based navigation (Show/Scan)
+ * - Safety number in 5-digit groups, readable aloud over the phone
  * - Haptic feedback on success
  * - VoiceOver support
  *
@@ -31,9 +32,12 @@ import { check, request, PERMISSIONS, RESULTS } from 'react-native-permissions';
 import ReactNativeHapticFeedback from 'react-native-haptic-feedback';
 
 import { colors, typography, spacing, touchTargets, borderRadius } from '@/theme';
-import { ErrorView , ScrollViewWithIndicator } from '@/components';
+import { Button, ErrorView , ScrollViewWithIndicator } from '@/components';
 import { useColors } from '@/contexts/ThemeContext';
 import type { ContactStackParams } from '@/navigation';
+import { ServiceContainer } from '@/services/container';
+import { chatService } from '@/services/chat';
+import { computeSafetyNumber, formatSafetyNumber } from '@/services/safetyNumber';
 
 type NavigationProp = NativeStackNavigationProp<ContactStackParams, 'VerifyContact'>;
 type VerifyContactRouteProp = RouteProp<ContactStackParams, 'VerifyContact'>;
@@ -53,6 +57,10 @@ export function VerifyContactScreen() {
   const [cameraPermission, setCameraPermission] = useState<boolean>(false);
   const [scanning, setScanning] = useState(false);
   const [verified, setVerified] = useState(false);
+  const [safetyNumber, setSafetyNumber] = useState<string[] | null>(null);
+  // Contact key the safety number was computed for — confirming only applies to this key
+  const [safetyNumberKey, setSafetyNumberKey] = useState<string | null>(null);
+  const [keyChanged, setKeyChanged] = useState(false);
   const [notification, setNotification] = useState<{
     type: 'error' | 'warning' | 'info' | 'success';
     title: string;
@@ -80,6 +88,54 @@ export function VerifyContactScreen() {
     void generateQR();
   }, [t]);
 
+  // Safety number: both sides see the same 60 digits
+  useEffect(() => {
+    const loadSafetyNumber = async () => {
+      try {
+        const db = ServiceContainer.database;
+        const contact = await db.getContact(jid);
+        const myJid = chatService.getMyJid();
+        if (!contact?.publicKey || !myJid) return;
+
+        const myPublicKey = await ServiceContainer.encryption.getPublicKey();
+        const number = computeSafetyNumber(myJid, myPublicKey, contact.jid, contact.publicKey);
+        setSafetyNumber(formatSafetyNumber(number));
+        setSafetyNumberKey(contact.publicKey);
+
+        // More than one key on record and not re-verified since
+        const history = await db.getContactKeyHistory(jid);
+        setKeyChanged(history.length > 1 && (contact.trustLevel ?? 0) < 3);
+      } catch (error) {
+        console.warn('[VerifyContact] Failed to compute safety number:', error);
+      }
+    };
+
+    void loadSafetyNumber();
+  }, [jid]);
+
+  const handleSafetyNumberMatch = useCallback(async () => {
+    try {
+      const db = ServiceContainer.database;
+      const contact = await db.getContact(jid);
+      if (!contact || contact.publicKey !== safetyNumberKey) {
+        // Key changed while the screen was open — the shown number is stale
+        setNotification({ type: 'warning', title: t('contacts.safetyNumber.title'), message: t('contacts.safetyNumber.stale') });
+        return;
+      }
+
+      await db.saveContact({ ...contact, verified: true, trustLevel: 3 });
+
+      ReactNativeHapticFeedback.trigger('notificationSuccess', {
+        enableVibrateFallback: true,
+        ignoreAndroidSystemSettings: false,
+      });
+      setVerified(true);
+    } catch (error) {
+      console.error('[VerifyContact] Failed to mark contact as verified:', error);
+      setNotification({ type: 'error', title: t('errors.genericTitle'), message: t('errors.genericError') });
+    }
+  }, [jid, safetyNumberKey, t]);
+
   // Check camera permission when switching to scan tab
   const checkCameraPermission = useCallback(async (): Promise<boolean> => {
     const permission = Platform.OS === 'ios'
@@ -220,6 +276,38 @@ export function VerifyContactScreen() {
       <Text style={[styles.helpText, { color: themeColors.textSecondary }]}>
         {t('contacts.verifyInstructions')}
       </Text>
+
+      {safetyNumber && (
+        <View style={[styles.safetyNumberContainer, { backgroundColor: themeColors.surface }]}>
+          {keyChanged && (
+            <Text style={[styles.keyChangedText, { color: themeColors.error }]}>
+              {t('contacts.safetyNumber.keyChanged', { name })}
+            </Text>
+          )}
+          <Text style={[styles.safetyNumberTitle, { color: themeColors.textPrimary }]}>
+            {t('contacts.safetyNumber.title')}
+          </Text>
+          <Text style={[styles.safetyNumberHint, { color: themeColors.textSecondary }]}>
+            {t('contacts.safetyNumber.instructions', { name })}
+          </Text>
+          <View
+            style={styles.safetyNumberGrid}
+            accessible={true}
+            accessibilityLabel={t('contacts.safetyNumber.accessibilityLabel', { digits: safetyNumber.join(', ') })}
+          >
+            {safetyNumber.map((group, index) => (
+              <Text key={index} style={[styles.safetyNumberGroup, { color: themeColors.textPrimary }]}>
+                {group}
+              </Text>
+            ))}
+          </View>
+          <Button
+            title={t('contacts.safetyNumber.matchButton')}
+            onPress={() => void handleSafetyNumberMatch()}
+            accessibilityHint={t('contacts.safetyNumber.matchHint', { name })}
+          />
+        </View>
+      )}
     </ScrollViewWithIndicator>
   );
 
@@ -408,6 +496,43 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     paddingHorizontal: spacing.lg,
   },
+  safetyNumberContainer: {
+    alignSelf: 'stretch',
+    marginTop: spacing.xl,
+    padding: spacing.lg,
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.lg,
+  },
+  keyChangedText: {
+    ...typography.body,
+    fontWeight: '700',
+    color: colors.error,
+    marginBottom: spacing.md,
+  },
+  safetyNumberTitle: {
+    ...typography.h3,
+    color: colors.textPrimary,
+    marginBottom: spacing.sm,
+  },
+  safetyNumberHint: {
+    ...typography.body,
+    color: colors.textSecondary,
+    marginBottom: spacing.md,
+  },
+  safetyNumberGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    rowGap: spacing.sm,
+    marginBottom: spacing.lg,
+  },
+  safetyNumberGroup: {
+    ...typography.h3,
+    width: '30%',
+    textAlign: 'center',
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    color: colors.textPrimary,
+  },
   scanContainer: {
     flex: 1,
   },
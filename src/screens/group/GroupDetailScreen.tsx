@@ -9,6 +9,7 @@
  * - 18pt body text
  * - Sender names always visible
  * - VoiceOver support
+ * - Hold the microphone to record a voice message (shown when the input is empty)
  *
  * @see .claude/skills/ui-designer/SKILL.md
  */
@@ -30,18 +31,21 @@ import type { NativeStackNavigationProp, NativeStackScreenProps } from '@react-n
 
 import { colors, typography, spacing, touchTargets, borderRadius } from '@/theme';
 import { useColors } from '@/contexts/ThemeContext';
-import { TextInput, LoadingView } from '@/components';
+import { TextInput, LoadingView, VoiceMessageBubble, VoiceRecordButton } from '@/components';
 import type { GroupStackParams } from '@/navigation';
 import { ServiceContainer } from '@/services/container';
 import { groupChatService } from '@/services/groupChat';
+import { chatService } from '@/services/chat';
+import { stopVoice } from '@/services/media/mediaService';
 import type { Message, Group, DeliveryStatus } from '@/services/interfaces';
+import type { VoiceRecordingResult } from '@/types/media';
 import { triggerHaptic } from '@/hooks/useHoldToNavigate';
 
 type Props = NativeStackScreenProps<GroupStackParams, 'GroupDetail'>;
 type NavigationProp = NativeStackNavigationProp<GroupStackParams, 'GroupDetail'>;
 
 export function GroupDetailScreen() {
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const navigation = useNavigation<NavigationProp>();
   const route = useRoute<Props['route']>();
   const { groupId, name } = route.params;
@@ -52,10 +56,33 @@ export function GroupDetailScreen() {
   const [group, setGroup] = useState<Group | null>(null);
   const [inputText, setInputText] = useState('');
   const [sending, setSending] = useState(false);
+  const [sendingVoice, setSendingVoice] = useState(false);
   const [loading, setLoading] = useState(true);
   const [showMembers, setShowMembers] = useState(false);
 
   const myJid = groupChatService.getMyJid();
+  // Voice messages already handed to the on-device transcriber
+  const transcribedRef = useRef<Set<string>>(new Set());
+
+  // Transcribe received voice messages on-device (read instead of listen)
+  useEffect(() => {
+    if (!ServiceContainer.isInitialized || !chatService.isInitialized) return;
+
+    messages
+      .filter(msg => msg.contentType === 'audio' && !msg.transcript && msg.senderId !== myJid)
+      .filter(msg => !transcribedRef.current.has(msg.id))
+      .forEach((msg) => {
+        transcribedRef.current.add(msg.id);
+        void chatService.transcribeVoiceMessage(msg.id, i18n.language);
+      });
+  }, [messages, myJid, i18n.language]);
+
+  // Stop playback when leaving the group
+  useEffect(() => {
+    return () => {
+      void stopVoice();
+    };
+  }, []);
 
   // Load group and messages
   useEffect(() => {
@@ -191,6 +218,28 @@ export function GroupDetailScreen() {
     }
   }, [inputText, sending, groupId, t]);
 
+  const handleVoiceRecorded = useCallback(async (recording: VoiceRecordingResult) => {
+    setSendingVoice(true);
+    try {
+      await groupChatService.sendVoiceMessage(groupId, recording);
+      triggerHaptic('success');
+      AccessibilityInfo.announceForAccessibility(t('chat.voice.sent'));
+    } catch (error) {
+      console.error('Failed to send voice message:', error);
+      triggerHaptic('error');
+      AccessibilityInfo.announceForAccessibility(t('chat.voice.failed'));
+    } finally {
+      setSendingVoice(false);
+    }
+  }, [groupId, t]);
+
+  const handleVoiceError = useCallback((reason: 'too_short' | 'failed') => {
+    triggerHaptic('error');
+    AccessibilityInfo.announceForAccessibility(
+      reason === 'too_short' ? t('chat.voice.tooShort') : t('chat.voice.recordFailed'),
+    );
+  }, [t]);
+
   const formatTime = useCallback((timestamp: number): string => {
     const date = new Date(timestamp);
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
@@ -215,6 +264,27 @@ export function GroupDetailScreen() {
     (message: Message) => {
       const isOwn = message.senderId === myJid;
 
+      if (message.contentType === 'audio') {
+        return (
+          <View key={message.id}>
+            {!isOwn && (
+              <Text style={[styles.senderName, styles.otherMessage, { color: themeColors.primary }]}>
+                {message.senderName}
+              </Text>
+            )}
+            <VoiceMessageBubble
+              uri={message.mediaUri}
+              mediaId={message.mediaId}
+              duration={message.mediaDuration ?? 0}
+              waveform={message.waveform ?? []}
+              transcript={message.transcript}
+              isOwn={isOwn}
+              timestamp={message.timestamp}
+            />
+          </View>
+        );
+      }
+
       return (
         <View
           key={message.id}
@@ -330,20 +400,28 @@ export function GroupDetailScreen() {
           style={styles.textInput}
           accessibilityLabel={t('chat.typeMessage')}
         />
-        <HapticTouchable hapticDisabled
-          style={[
-            styles.sendButton,
-            { backgroundColor: themeColors.primary },
-            !inputText.trim() && { backgroundColor: themeColors.border },
-          ]}
-          onPress={() => void handleSend()}
-          disabled={!inputText.trim() || sending}
-          activeOpacity={0.7}
-          accessibilityRole="button"
-          accessibilityLabel={t('accessibility.sendButton')}
-        >
-          <Text style={[styles.sendButtonText, { color: themeColors.textOnPrimary }]}>↑</Text>
-        </HapticTouchable>
+        {!inputText.trim() ? (
+          <VoiceRecordButton
+            onRecorded={(recording) => void handleVoiceRecorded(recording)}
+            onError={handleVoiceError}
+            disabled={sendingVoice}
+          />
+        ) : (
+          <HapticTouchable hapticDisabled
+            style={[
+              styles.sendButton,
+              { backgroundColor: themeColors.primary },
+              !inputText.trim() && { backgroundColor: themeColors.border },
+            ]}
+            onPress={() => void handleSend()}
+            disabled={!inputText.trim() || sending}
+            activeOpacity={0.7}
+            accessibilityRole="button"
+            accessibilityLabel={t('accessibility.sendButton')}
+          >
+            <Text style={[styles.sendButtonText, { color: themeColors.textOnPrimary }]}>↑</Text>
+          </HapticTouchable>
+        )}
       </View>
     </KeyboardAvoidingView>
   );
@@ -5,6 +5,7 @@
  * - Sender, recipients, date
  * - Subject line
  * - HTML or plain text body
+ * - Other messages of the conversation, in date order around this one
  * - Attachment list with download capability
  * - Action buttons (Reply, Forward, Delete)
  *
@@ -45,6 +46,7 @@ import type {
   MailAccount,
 } from '@/types/mail';
 import type { ParsedCalendarEvent } from '@/services/mail/icsParser';
+import type { InvitationResponse } from '@/services/mail/icsWriter';
 import { parseEmailAddress } from '@/types/mail';
 import { isImageType } from '@/services/mail/mediaAttachmentService';
 import { getSaveableAttachments, isAlreadySaved } from '@/services/mail/saveToAlbumService';
@@ -55,6 +57,7 @@ import { useMailTTS } from '@/hooks/useMailTTS';
 import { formatDetailDate, formatMailBody } from './mailDetailHelpers';
 import { MailBodyWebView } from './MailBodyWebView';
 import { AttachmentRow } from './AttachmentRow';
+import { MailThreadView } from './MailThreadView';
 
 // ============================================================
 // Types
@@ -132,6 +135,9 @@ export function MailDetailScreen({
   const [icsEvents, setIcsEvents] = useState<ParsedCalendarEvent[]>([]);
   const [icsAdded, setIcsAdded] = useState(false);
 
+  // Conversation: the other cached messages of this thread, oldest first
+  const [threadMessages, setThreadMessages] = useState<CachedMailHeader[]>([]);
+
   // Inline notification state (replaces Alert.alert for single-button notifications)
   const [notification, setNotification] = useState<{
     type: 'error' | 'warning' | 'info' | 'success';
@@ -323,6 +329,48 @@ export function MailDetailScreen({
     loadBody();
   }, [header.uid, header.folder, account.id]);
 
+  // ============================================================
+  // Load Conversation
+  // ============================================================
+
+  useEffect(() => {
+    if (!header.threadId) return;
+    const threadId = header.threadId;
+
+    const loadThread = async () => {
+      try {
+        const mailCache = await import('@/services/mail/mailCache');
+        const imapService = await import('@/services/mail/imapService');
+        const db = await mailCache.getMailCacheDb();
+        const thread = await imapService.getThread(db, account.id, threadId);
+
+        // Leave out this message, and copies of a message in several folders
+        const seen = new Set(header.messageId ? [header.messageId] : []);
+        const others = thread.filter(message => {
+          if (message.uid === header.uid && message.folder === header.folder) return false;
+          if (!message.messageId) return true;
+          if (seen.has(message.messageId)) return false;
+          seen.add(message.messageId);
+          return true;
+        });
+        if (mountedRef.current) setThreadMessages(others);
+      } catch (err) {
+        console.debug('[MailDetail] Failed to load conversation:', err instanceof Error ? err.message : String(err));
+      }
+    };
+
+    void loadThread();
+  }, [header.threadId, header.messageId, header.uid, header.folder, account.id]);
+
+  const earlierMessages = useMemo(
+    () => threadMessages.filter(message => message.date < header.date),
+    [threadMessages, header.date],
+  );
+  const laterMessages = useMemo(
+    () => threadMessages.filter(message => message.date >= header.date),
+    [threadMessages, header.date],
+  );
+
   // ============================================================
   // Detect and parse ICS calendar invitations
   // ============================================================
@@ -378,7 +426,7 @@ export function MailDetailScreen({
   // Handle adding ICS event to agenda
   const handleAddIcsToAgenda = useCallback(async (event: ParsedCalendarEvent) => {
     try {
-      const { mapToAgendaData } = await import('@/services/mail/icsParser');
+      const { mapToAgendaData, groupRecurrenceOverrides } = await import('@/services/mail/icsParser');
       const { ServiceContainer } = await import('@/services/container');
       const { WatermelonDBService } = await import('@/services/database');
       const { AgendaItemModel } = await import('@/models/AgendaItem');
@@ -388,8 +436,12 @@ export function MailDetailScreen({
       const db = dbService.getDb();
       const collection = db.get<InstanceType<typeof AgendaItemModel>>('agenda_items');
 
+      // Changed or cancelled occurrences of this series in the same mail
+      const overrides = groupRecurrenceOverrides(icsEvents)
+        .find(group => group.event === event)?.overrides ?? [];
+
       await db.write(async () => {
-        await collection.create(r => {
+        const parent = await collection.create(r => {
           r.category = (agendaData.category ?? 'other') as any;
           r.title = agendaData.title ?? '';
           r.categoryIcon = agendaData.categoryIcon;
@@ -398,6 +450,9 @@ export function MailDetailScreen({
           r.itemDate = agendaData.date ?? Date.now();
           r.time = agendaData.time;
           r.repeatType = agendaData.repeatType;
+          r.rrule = agendaData.rrule;
+          r.exdates = agendaData.exdates ? JSON.stringify(agendaData.exdates) : undefined;
+          r.endDate = agendaData.endDate;
           r.reminderOffset = agendaData.reminderOffset ?? '1_hour_before';
           r.locationName = agendaData.locationName;
           r.endTime = agendaData.endTime;
@@ -405,6 +460,30 @@ export function MailDetailScreen({
           r.source = 'ics';
           r.isHidden = false;
         });
+
+        // Each override becomes an exception record, like "alleen vandaag" edits
+        for (const override of overrides) {
+          const overrideData = mapToAgendaData(override);
+          const occurrenceDate = new Date(override.recurrenceId!);
+          occurrenceDate.setHours(0, 0, 0, 0);
+          await collection.create(r => {
+            r.category = parent.category;
+            r.title = overrideData.title ?? parent.title;
+            r.categoryIcon = parent.categoryIcon;
+            r.categoryName = parent.categoryName;
+            r.formType = parent.formType;
+            r.itemDate = overrideData.date ?? occurrenceDate.getTime();
+            r.time = overrideData.time;
+            r.reminderOffset = overrideData.reminderOffset ?? parent.reminderOffset;
+            r.locationName = overrideData.locationName;
+            r.endTime = overrideData.endTime;
+            r.notes = overrideData.notes;
+            r.source = 'ics';
+            r.isHidden = override.isCancelled;
+            r.parentId = parent.id;
+            r.exceptionDate = occurrenceDate.getTime();
+          });
+        }
       });
 
       setIcsAdded(true);
@@ -417,7 +496,44 @@ export function MailDetailScreen({
         message: t('modules.mail.ics.addFailed'),
       });
     }
-  }, [t, showToast]);
+  }, [icsEvents, t, showToast]);
+
+  // Answer an invitation (iTIP REPLY to the organizer)
+  const handleRespondToInvitation = useCallback(async (
+    event: ParsedCalendarEvent,
+    response: InvitationResponse,
+  ) => {
+    try {
+      const { sendInvitationReply } = await import('@/services/mail/calendarMailService');
+      await sendInvitationReply(
+        account,
+        event,
+        response,
+        t(`modules.mail.ics.replySubject.${response}`, { title: event.summary }),
+        t(`modules.mail.ics.replyBody.${response}`, { name: account.displayName, title: event.summary }),
+      );
+      showToast(t(`modules.mail.ics.responded.${response}`));
+      return true;
+    } catch (err) {
+      console.error('[MailDetail] Failed to send invitation reply:', err);
+      setNotification({
+        type: 'error',
+        title: t('status.error'),
+        message: t('modules.mail.ics.replyFailed'),
+      });
+      return false;
+    }
+  }, [account, t, showToast]);
+
+  // Overrides of a series in the same mail are added with the series,
+  // not shown as separate invitations
+  const icsCards = useMemo(
+    () => icsEvents.filter(event =>
+      !event.recurrenceId
+      || !icsEvents.some(other => !other.recurrenceId && other.uid === event.uid),
+    ),
+    [icsEvents],
+  );
 
   // ============================================================
   // Auto-download image thumbnails
@@ -813,6 +929,13 @@ export function MailDetailScreen({
         contentContainerStyle={styles.scrollContent}
         showsVerticalScrollIndicator={false}
       >
+        {/* Earlier messages of the conversation */}
+        <MailThreadView
+          messages={earlierMessages}
+          accountId={account.id}
+          title={t('modules.mail.detail.conversation.earlier')}
+        />
+
         {/* Header section */}
         <View style={styles.headerSection}>
           {/* Subject */}
@@ -941,13 +1064,14 @@ export function MailDetailScreen({
         )}
 
         {/* Calendar invitation cards (ICS) */}
-        {icsEvents.length > 0 && (
+        {icsCards.length > 0 && (
           <View style={styles.icsSection}>
-            {icsEvents.map((event, idx) => (
+            {icsCards.map((event, idx) => (
               <CalendarInvitationCard
                 key={`ics_${idx}_${event.summary}`}
                 event={event}
                 onAddToAgenda={handleAddIcsToAgenda}
+                onRespond={handleRespondToInvitation}
               />
             ))}
           </View>
@@ -1037,6 +1161,13 @@ export function MailDetailScreen({
               ))}
           </View>
         )}
+
+        {/* Later replies in the conversation */}
+        <MailThreadView
+          messages={laterMessages}
+          accountId={account.id}
+          title={t('modules.mail.detail.conversation.later')}
+        />
       </ScrollViewWithIndicator>
 
       {/* Fullscreen Image Viewer */}
@@ -6,6 +6,7 @@
  * - Pull-to-refresh to sync new messages
  * - Search via SearchBar (local substring matching + remote IMAP fallback)
  * - Unread count per folder
+ * - Conversations: one row per thread (latest message + count)
  *
  * Senior-inclusive design:
  * - Large touch targets (≥60pt)
@@ -36,6 +37,7 @@ import { VoiceFocusable } from '@/components/VoiceFocusable';
 import { useVoiceFocusList, type VoiceFocusableItem } from '@/contexts/VoiceFocusContext';
 import type { CachedMailHeader, MailAccount, MailboxInfo } from '@/types/mail';
 import { parseEmailAddress } from '@/types/mail';
+import { groupByThread } from '@/services/mail/mailThreading';
 import { MailListItem } from './MailListItem';
 import { normalizeFolderName } from './mailDetailHelpers';
 
@@ -133,12 +135,15 @@ export function MailInboxScreen({
   const loadDataRef = useRef<(isRefresh?: boolean) => Promise<void>>();
   const foldersLoadedRef = useRef(false);
 
+  // Conversations of the folder, newest first (search results stay flat)
+  const threads = useMemo(() => groupByThread(headers), [headers]);
+
   // ============================================================
   // Voice Focus — Enable voice navigation for mail list
   // ============================================================
 
   const voiceFocusItems: VoiceFocusableItem[] = useMemo(() => {
-    const activeList = searchResults ?? headers;
+    const activeList = searchResults ?? threads.map(thread => thread.latest);
     return activeList.map((header, index) => {
       const senderName = parseEmailAddress(header.from).name || parseEmailAddress(header.from).address;
       return {
@@ -148,7 +153,7 @@ export function MailInboxScreen({
         onSelect: () => onOpenMail(header),
       };
     });
-  }, [headers, searchResults, onOpenMail, t]);
+  }, [threads, searchResults, onOpenMail, t]);
 
   const { scrollRef } = useVoiceFocusList('mail-inbox', voiceFocusItems);
 
@@ -267,7 +272,8 @@ export function MailInboxScreen({
           'DELETE FROM mail_headers WHERE account_id = ? AND folder = ?',
           [account.id, selectedFolder],
         );
-        await mailCache.upsertHeaders(db, account.id, selectedFolder, serverHeaders);
+        const imapService = await import('@/services/mail/imapService');
+        await imapService.cacheHeaders(db, account.id, selectedFolder, serverHeaders);
 
         // Read back from cache (includes parsed fromName/fromAddress)
         const freshHeaders = await mailCache.getHeaders(db, account.id, selectedFolder, 500);
@@ -717,9 +723,9 @@ export function MailInboxScreen({
             />
           }
         >
-          {headers.map((header, index) => (
+          {threads.map(({ threadId, latest: header, count, unreadCount }, index) => (
             <VoiceFocusable
-              key={`${header.uid}-${header.folder}`}
+              key={threadId}
               id={`mail-${header.uid}`}
               label={`${parseEmailAddress(header.from).name || parseEmailAddress(header.from).address}: ${header.subject || ''}`}
               index={index}
@@ -729,6 +735,8 @@ export function MailInboxScreen({
                 header={header}
                 onPress={onOpenMail}
                 onToggleFlag={handleToggleFlag}
+                threadCount={count}
+                threadUnreadCount={unreadCount}
               />
             </VoiceFocusable>
           ))}
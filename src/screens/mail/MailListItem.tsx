@@ -2,8 +2,9 @@
  * MailListItem — Single mail message row in the inbox list
  *
  * Displays sender, subject, date, and status indicators
- * (unread, flagged, attachment). Senior-inclusive design with
- * large touch targets and clear typography.
+ * (unread, flagged, attachment). In the inbox a row stands for a
+ * conversation: the latest message plus the number of messages.
+ * Senior-inclusive design with large touch targets and clear typography.
  *
  * @see .claude/plans/MAIL_MODULE_PROMPT.md
  */
@@ -35,6 +36,10 @@ export interface MailListItemProps {
   onPress: (header: CachedMailHeader) => void;
   /** Called when flag is toggled */
   onToggleFlag?: (header: CachedMailHeader) => void;
+  /** Number of messages in the conversation (badge shown when > 1) */
+  threadCount?: number;
+  /** Unread messages in the conversation (row shown as unread when > 0) */
+  threadUnreadCount?: number;
 }
 
 // ============================================================
@@ -71,7 +76,13 @@ function formatMailDate(isoDate: string, t: (key: string) => string): string {
 // Component
 // ============================================================
 
-export function MailListItem({ header, onPress, onToggleFlag }: MailListItemProps) {
+export function MailListItem({
+  header,
+  onPress,
+  onToggleFlag,
+  threadCount = 1,
+  threadUnreadCount,
+}: MailListItemProps) {
   const { t } = useTranslation();
   const themeColors = useColors();
   const { accentColor } = useAccentColor();
@@ -84,6 +95,10 @@ export function MailListItem({ header, onPress, onToggleFlag }: MailListItemProp
   })();
 
   const dateDisplay = formatMailDate(header.date, t);
+  const isUnread = threadUnreadCount !== undefined ? threadUnreadCount > 0 : !header.isRead;
+  const threadLabel = threadCount > 1
+    ? t('modules.mail.inbox.threadCount', { count: threadCount }) + ', '
+    : '';
 
   const handlePress = useCallback(() => {
     triggerHaptic('tap');
@@ -100,20 +115,20 @@ export function MailListItem({ header, onPress, onToggleFlag }: MailListItemProp
       style={[
         styles.container,
         {
-          backgroundColor: header.isRead
-            ? themeColors.background
-            : themeColors.surface,
+          backgroundColor: isUnread
+            ? themeColors.surface
+            : themeColors.background,
         },
       ]}
       onPress={handlePress}
       activeOpacity={0.7}
       accessibilityRole="button"
-      accessibilityLabel={`${header.isRead ? '' : t('modules.mail.inbox.unread') + ', '}${senderDisplay}, ${header.subject || t('modules.mail.inbox.noSubject')}`}
+      accessibilityLabel={`${isUnread ? t('modules.mail.inbox.unread') + ', ' : ''}${threadLabel}${senderDisplay}, ${header.subject || t('modules.mail.inbox.noSubject')}`}
       accessibilityHint={t('modules.mail.inbox.openMailHint')}
     >
       {/* Unread indicator */}
       <View style={styles.unreadDotContainer}>
-        {!header.isRead && (
+        {isUnread && (
           <View style={[styles.unreadDot, { backgroundColor: accentColor.primary }]} />
         )}
       </View>
@@ -126,12 +141,19 @@ export function MailListItem({ header, onPress, onToggleFlag }: MailListItemProp
             style={[
               styles.sender,
               { color: themeColors.textPrimary },
-              !header.isRead && styles.senderUnread,
+              isUnread && styles.senderUnread,
             ]}
             numberOfLines={1}
           >
             {senderDisplay}
           </Text>
+          {threadCount > 1 && (
+            <View style={[styles.threadBadge, { borderColor: themeColors.textSecondary }]}>
+              <Text style={[styles.threadBadgeText, { color: themeColors.textSecondary }]}>
+                {threadCount}
+              </Text>
+            </View>
+          )}
           <Text style={[styles.date, { color: themeColors.textSecondary }]}>
             {dateDisplay}
           </Text>
@@ -143,7 +165,7 @@ export function MailListItem({ header, onPress, onToggleFlag }: MailListItemProp
             style={[
               styles.subject,
               { color: themeColors.textSecondary },
-              !header.isRead && styles.subjectUnread,
+              isUnread && styles.subjectUnread,
             ]}
             numberOfLines={1}
           >
@@ -216,6 +238,18 @@ const styles = StyleSheet.create({
   senderUnread: {
     fontWeight: '700',
   },
+  threadBadge: {
+    minWidth: 28,
+    paddingHorizontal: spacing.xs,
+    marginRight: spacing.sm,
+    borderWidth: 1,
+    borderRadius: borderRadius.sm,
+    alignItems: 'center',
+  },
+  threadBadgeText: {
+    ...typography.small,
+    fontWeight: '600',
+  },
   date: {
     ...typography.small,
   },
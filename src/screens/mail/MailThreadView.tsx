@@ -0,0 +1,276 @@
+/**
+ * MailThreadView — Other messages of a conversation in the detail screen
+ *
+ * Extracted from MailDetailScreen for better separation of concerns.
+ *
+ * Features:
+ * - Earlier messages above the open message, later replies below it,
+ *   so the conversation reads top to bottom in date order
+ * - Each message is a card (sender + date); tap to unfold its text
+ * - Body from the cache, fetched from the server when not cached
+ * - Senior-inclusive touch targets (≥60pt)
+ */
+
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  StyleSheet,
+  Text,
+  ActivityIndicator,
+} from 'react-native';
+import { HapticTouchable } from '@/components/HapticTouchable';
+import { useTranslation } from 'react-i18next';
+import { typography, touchTargets, borderRadius, spacing } from '@/theme';
+import { useColors } from '@/contexts/ThemeContext';
+import { useAccentColor } from '@/hooks/useAccentColor';
+import { useFeedback } from '@/hooks/useFeedback';
+import { Icon } from '@/components';
+import type { CachedMailHeader } from '@/types/mail';
+import { parseEmailAddress } from '@/types/mail';
+import { formatDetailDate, formatThreadMessageBody } from './mailDetailHelpers';
+
+// ============================================================
+// Props
+// ============================================================
+
+export interface MailThreadViewProps {
+  /** Messages to show, oldest first */
+  messages: CachedMailHeader[];
+  accountId: string;
+  /** Section title above the cards */
+  title: string;
+}
+
+interface ThreadMessageCardProps {
+  header: CachedMailHeader;
+  accountId: string;
+}
+
+// ============================================================
+// Component
+// ============================================================
+
+export function MailThreadView({ messages, accountId, title }: MailThreadViewProps) {
+  const themeColors = useColors();
+
+  if (messages.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <Text
+        style={[styles.title, { color: themeColors.textSecondary }]}
+        accessibilityRole="header"
+      >
+        {title}
+      </Text>
+      {messages.map(message => (
+        <ThreadMessageCard
+          key={`${message.folder}-${message.uid}`}
+          header={message}
+          accountId={accountId}
+        />
+      ))}
+    </View>
+  );
+}
+
+function ThreadMessageCard({ header, accountId }: ThreadMessageCardProps) {
+  const themeColors = useColors();
+  const { accentColor } = useAccentColor();
+  const { t } = useTranslation();
+  const { triggerHaptic } = useFeedback();
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [text, setText] = useState<string | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  const senderParsed = parseEmailAddress(header.from);
+  const senderName = header.fromName || senderParsed.name || senderParsed.address
+    || t('modules.mail.inbox.unknownSender');
+
+  const loadText = useCallback(async () => {
+    setIsLoading(true);
+    setLoadFailed(false);
+    try {
+      const mailCache = await import('@/services/mail/mailCache');
+      const db = await mailCache.getMailCacheDb();
+      let body = await mailCache.getBody(db, accountId, header.uid);
+
+      if (!body) {
+        const imapBridge = await import('@/services/mail/imapBridge');
+        const serverBody = await imapBridge.fetchMessageBody(header.uid, header.folder);
+        await mailCache.upsertBody(
+          db, accountId, header.uid,
+          serverBody.html, serverBody.plainText,
+          serverBody.attachments,
+        );
+        body = { uid: header.uid, accountId, ...serverBody };
+      }
+
+      setText(formatThreadMessageBody(body));
+
+      // Reading it here counts as read (keeps the inbox row from staying unread)
+      if (!header.isRead) {
+        const imapBridge = await import('@/services/mail/imapBridge');
+        await imapBridge.markAsRead(header.uid, header.folder, true).catch(() => {
+          console.debug('[MailThreadView] Failed to mark as read');
+        });
+        await mailCache.updateReadStatus(db, accountId, header.folder, header.uid, true);
+      }
+    } catch (error) {
+      console.debug('[MailThreadView] Failed to load body:', error instanceof Error ? error.message : String(error));
+      setLoadFailed(true);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [accountId, header.uid, header.folder, header.isRead]);
+
+  const handleToggle = useCallback(() => {
+    triggerHaptic('tap');
+    const expand = !isExpanded;
+    setIsExpanded(expand);
+    if (expand && text === null && !isLoading) {
+      void loadText();
+    }
+  }, [isExpanded, text, isLoading, loadText, triggerHaptic]);
+
+  const renderBody = () => {
+    if (isLoading) {
+      return <ActivityIndicator color={accentColor.primary} />;
+    }
+    if (loadFailed) {
+      return (
+        <HapticTouchable hapticDisabled
+          style={styles.retryButton}
+          onPress={() => void loadText()}
+          accessibilityRole="button"
+          accessibilityLabel={t('common.tryAgain')}
+        >
+          <Text style={[styles.bodyText, { color: themeColors.error }]}>
+            {t('modules.mail.detail.loadFailed')}
+          </Text>
+          <Text style={[styles.retryText, { color: accentColor.primary }]}>
+            {t('common.tryAgain')}
+          </Text>
+        </HapticTouchable>
+      );
+    }
+    return (
+      <Text style={[styles.bodyText, { color: themeColors.textPrimary }]} selectable>
+        {text || t('modules.mail.detail.noContent')}
+      </Text>
+    );
+  };
+
+  return (
+    <View style={[styles.card, { backgroundColor: themeColors.surface, borderColor: themeColors.border }]}>
+      <HapticTouchable hapticDisabled
+        style={styles.cardHeader}
+        onPress={handleToggle}
+        activeOpacity={0.7}
+        accessibilityRole="button"
+        accessibilityState={{ expanded: isExpanded }}
+        accessibilityLabel={`${senderName}, ${formatDetailDate(header.date)}`}
+        accessibilityHint={t(isExpanded
+          ? 'modules.mail.detail.conversation.collapseHint'
+          : 'modules.mail.detail.conversation.expandHint')}
+      >
+        <View style={[styles.avatar, { backgroundColor: accentColor.light }]}>
+          <Text style={[styles.avatarText, { color: accentColor.primary }]}>
+            {senderName.charAt(0).toUpperCase()}
+          </Text>
+        </View>
+        <View style={styles.cardInfo}>
+          <Text
+            style={[styles.sender, { color: themeColors.textPrimary }, !header.isRead && styles.senderUnread]}
+            numberOfLines={1}
+          >
+            {senderName}
+          </Text>
+          <Text style={[styles.date, { color: themeColors.textSecondary }]} numberOfLines={1}>
+            {formatDetailDate(header.date)}
+          </Text>
+        </View>
+        <Icon
+          name={isExpanded ? 'chevron-up' : 'chevron-down'}
+          size={20}
+          color={themeColors.textSecondary}
+        />
+      </HapticTouchable>
+
+      {isExpanded && (
+        <View style={styles.cardBody}>
+          {renderBody()}
+        </View>
+      )}
+    </View>
+  );
+}
+
+// ============================================================
+// Styles
+// ============================================================
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.md,
+    gap: spacing.sm,
+  },
+  title: {
+    ...typography.small,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  card: {
+    borderWidth: 1,
+    borderRadius: borderRadius.md,
+    overflow: 'hidden',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minHeight: touchTargets.minimum,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    gap: spacing.sm,
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  avatarText: {
+    ...typography.body,
+    fontWeight: '700',
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  sender: {
+    ...typography.body,
+  },
+  senderUnread: {
+    fontWeight: '700',
+  },
+  date: {
+    ...typography.small,
+  },
+  cardBody: {
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.md,
+  },
+  bodyText: {
+    ...typography.body,
+  },
+  retryButton: {
+    minHeight: touchTargets.minimum,
+    justifyContent: 'center',
+  },
+  retryText: {
+    ...typography.body,
+    fontWeight: '600',
+  },
+});
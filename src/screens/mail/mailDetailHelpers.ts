@@ -6,6 +6,7 @@
  * - File size formatting
  * - Quoted-printable decoding
  * - URL shortening
+ * - Plain text of earlier messages in a conversation
  * - HTML document building for WebView
  * - Attachment icon mapping
  */
@@ -93,6 +94,38 @@ export function formatMailBody(text: string): string {
   return result;
 }
 
+/**
+ * Plain text of a message in the conversation view.
+ * Quoted lines ("> ...") are left out: the quoted message is already
+ * shown in the conversation.
+ */
+export function formatThreadMessageBody(body: { html?: string; plainText?: string }): string {
+  const text = body.plainText?.trim() ? body.plainText : htmlToPlainText(body.html ?? '');
+  const unquoted = text
+    .split(/\r?\n/)
+    .filter(line => !line.trimStart().startsWith('>'))
+    .join('\n');
+  return formatMailBody(unquoted).replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Convert an HTML body to readable plain text (tags removed, entities decoded).
+ */
+function htmlToPlainText(html: string): string {
+  return html
+    .replace(/<(style|script|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<blockquote[^>]*>[\s\S]*?<\/blockquote>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?(p|div|li|tr|h[1-6])[^>]*>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;|&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
 // ============================================================
 // WebView HTML Builder
 // ============================================================
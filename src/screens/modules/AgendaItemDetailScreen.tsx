@@ -32,14 +32,12 @@ import {
   type TimelineItem,
 } from '@/contexts/AgendaContext';
 import type { MedicationLogEntry } from '@/models/AgendaItem';
-import {
-  REPEAT_OPTIONS,
-  REMINDER_OPTIONS,
-} from '@/constants/agendaCategories';
+import { REMINDER_OPTIONS } from '@/constants/agendaCategories';
 import { useVisualPresence } from '@/contexts/PresenceContext';
 import type { Contact } from '@/services/interfaces';
 import { getContactDisplayName } from '@/services/interfaces';
 import { ServiceContainer } from '@/services/container';
+import { getItemRule, describeRecurrence, toDayKey } from '@/services/agendaRecurrence';
 
 /** Wrapper to call useVisualPresence per contact in the share list */
 function ShareContactAvatar({ name, jid, trustLevel }: { name: string; jid: string; trustLevel: number }) {
@@ -55,6 +53,8 @@ interface AgendaItemDetailScreenProps {
   item: TimelineItem;
   onBack: () => void;
   onEdit: (item: TimelineItem) => void;
+  /** Open the medication overview (medication items only) */
+  onShowAdherence?: () => void;
 }
 
 // ============================================================
@@ -234,6 +234,7 @@ export function AgendaItemDetailScreen({
   item,
   onBack,
   onEdit,
+  onShowAdherence,
 }: AgendaItemDetailScreenProps) {
   const { t, i18n } = useTranslation();
   const themeColors = useColors();
@@ -245,6 +246,7 @@ export function AgendaItemDetailScreen({
     logMedication,
     deleteSingleOccurrence,
     shareItem,
+    buildItemCalendar,
   } = useAgendaContext();
 
   const locale = getLocaleString(i18n.language);
@@ -255,8 +257,9 @@ export function AgendaItemDetailScreen({
     action: 'edit' | 'delete';
   }>({ visible: false, action: 'edit' });
 
-  // Share modal state
+  // Share modal state ('mail' = .ics by e-mail for family without CommEazy)
   const [showShareModal, setShowShareModal] = useState(false);
+  const [shareMode, setShareMode] = useState<'chat' | 'mail'>('chat');
   const [shareContacts, setShareContacts] = useState<Contact[]>([]);
   const [shareContactsLoading, setShareContactsLoading] = useState(false);
   const [selectedShareContacts, setSelectedShareContacts] = useState<Set<string>>(new Set());
@@ -286,9 +289,9 @@ export function AgendaItemDetailScreen({
   }, [item.time, item.times, t]);
 
   const repeatDisplay = useMemo(() => {
-    const opt = REPEAT_OPTIONS.find(o => o.value === item.repeatType);
-    return opt ? t(opt.labelKey) : t('modules.agenda.repeat.none');
-  }, [item.repeatType, t]);
+    const rule = getItemRule({ rrule: item.rrule, repeatType: item.repeatType });
+    return rule ? describeRecurrence(rule, t, locale) : t('modules.agenda.repeat.none');
+  }, [item.rrule, item.repeatType, t, locale]);
 
   const reminderDisplay = useMemo(() => {
     const opt = REMINDER_OPTIONS.find(o => o.value === item.reminderOffset);
@@ -371,7 +374,7 @@ export function AgendaItemDetailScreen({
   // Medication actions
   const handleMedicationTaken = useCallback(async () => {
     if (!item.modelId) return;
-    const dateKey = new Date(item.date).toISOString().split('T')[0];
+    const dateKey = toDayKey(item.date);
     const entry: MedicationLogEntry = {
       date: dateKey,
       time: item.time ?? '00:00',
@@ -384,7 +387,7 @@ export function AgendaItemDetailScreen({
 
   const handleMedicationSkipped = useCallback(async () => {
     if (!item.modelId) return;
-    const dateKey = new Date(item.date).toISOString().split('T')[0];
+    const dateKey = toDayKey(item.date);
     const entry: MedicationLogEntry = {
       date: dateKey,
       time: item.time ?? '00:00',
@@ -396,14 +399,15 @@ export function AgendaItemDetailScreen({
   }, [item, logMedication, onBack]);
 
   // Share — open contact picker modal
-  const handleShare = useCallback(async () => {
+  const handleShare = useCallback(async (mode: 'chat' | 'mail' = 'chat') => {
+    setShareMode(mode);
     setShowShareModal(true);
     setSelectedShareContacts(new Set());
     setShareContactsLoading(true);
 
     try {
       const contacts = await ServiceContainer.database.getContactsOnce();
-      setShareContacts(contacts);
+      setShareContacts(mode === 'mail' ? contacts.filter(c => c.email?.trim()) : contacts);
     } catch (error) {
       console.warn('[AgendaDetail] Failed to load contacts:', error);
       setShareContacts([]);
@@ -424,11 +428,49 @@ export function AgendaItemDetailScreen({
     });
   }, []);
 
+  // Share by e-mail — .ics attachment from the default mail account
+  const handleMailConfirm = useCallback(async (modelId: string) => {
+    const recipients = shareContacts
+      .filter(c => selectedShareContacts.has(c.jid) && c.email)
+      .map(c => ({ name: getContactDisplayName(c), address: c.email!.trim() }));
+
+    const { sendCalendarByMail, icsFileName } = await import('@/services/mail/calendarMailService');
+    const ics = await buildItemCalendar(modelId);
+    const sent = await sendCalendarByMail({
+      to: recipients,
+      subject: t('modules.agenda.share.mailSubject', { title: item.title }),
+      body: t('modules.agenda.share.mailBody', { title: item.title, date: dateDisplay }),
+      ics,
+      fileName: icsFileName(item.title),
+    });
+
+    if (!sent) {
+      setNotification({
+        type: 'warning',
+        title: t('modules.agenda.share.errorTitle'),
+        message: t('modules.agenda.share.noMailAccount'),
+      });
+      return;
+    }
+
+    setShowShareModal(false);
+    setNotification({
+      type: 'success',
+      title: t('modules.agenda.share.successTitle'),
+      message: t('modules.agenda.share.mailSuccessMessage', { count: recipients.length }),
+    });
+  }, [shareContacts, selectedShareContacts, buildItemCalendar, item.title, dateDisplay, t]);
+
   const handleShareConfirm = useCallback(async () => {
     if (!item.modelId || selectedShareContacts.size === 0) return;
 
     setIsSharing(true);
     try {
+      if (shareMode === 'mail') {
+        await handleMailConfirm(item.modelId);
+        return;
+      }
+
       const jids = Array.from(selectedShareContacts);
       await shareItem(item.modelId, jids);
       setShowShareModal(false);
@@ -449,7 +491,7 @@ export function AgendaItemDetailScreen({
     } finally {
       setIsSharing(false);
     }
-  }, [item.modelId, selectedShareContacts, shareItem, t]);
+  }, [item.modelId, selectedShareContacts, shareMode, handleMailConfirm, shareItem, t]);
 
   const handleShareClose = useCallback(() => {
     setShowShareModal(false);
@@ -458,7 +500,7 @@ export function AgendaItemDetailScreen({
   // Check if medication was already logged for this date
   const medicationStatus = useMemo(() => {
     if (!item.isMedication) return null;
-    const dateKey = new Date(item.date).toISOString().split('T')[0];
+    const dateKey = toDayKey(item.date);
     const log = item.medicationLog.find(
       e => e.date === dateKey && e.time === (item.time ?? '00:00'),
     );
@@ -610,6 +652,20 @@ export function AgendaItemDetailScreen({
             <View style={[styles.divider, { backgroundColor: themeColors.divider }]} />
           )}
 
+          {item.isMedication && onShowAdherence && (
+            <HapticTouchable
+              style={[styles.outlineButton, { borderColor: accentColor.primary }]}
+              onPress={onShowAdherence}
+              accessibilityRole="button"
+              accessibilityLabel={t('modules.agenda.detail.adherence')}
+            >
+              <Text style={styles.outlineEmoji}>📊</Text>
+              <Text style={[styles.outlineButtonText, { color: accentColor.primary }]}>
+                {t('modules.agenda.detail.adherence')}
+              </Text>
+            </HapticTouchable>
+          )}
+
           <HapticTouchable
             style={[styles.outlineButton, { borderColor: accentColor.primary }]}
             onPress={handleEdit}
@@ -624,7 +680,7 @@ export function AgendaItemDetailScreen({
 
           <HapticTouchable
             style={[styles.outlineButton, { borderColor: accentColor.primary }]}
-            onPress={handleShare}
+            onPress={() => void handleShare('chat')}
             accessibilityRole="button"
             accessibilityLabel={t('modules.agenda.detail.share')}
           >
@@ -634,6 +690,18 @@ export function AgendaItemDetailScreen({
             </Text>
           </HapticTouchable>
 
+          <HapticTouchable
+            style={[styles.outlineButton, { borderColor: accentColor.primary }]}
+            onPress={() => void handleShare('mail')}
+            accessibilityRole="button"
+            accessibilityLabel={t('modules.agenda.detail.shareByMail')}
+          >
+            <Text style={styles.outlineEmoji}>✉️</Text>
+            <Text style={[styles.outlineButtonText, { color: accentColor.primary }]}>
+              {t('modules.agenda.detail.shareByMail')}
+            </Text>
+          </HapticTouchable>
+
           <HapticTouchable
             style={[styles.outlineButton, { borderColor: themeColors.error ?? colors.error }]}
             onPress={handleDelete}
@@ -687,7 +755,7 @@ export function AgendaItemDetailScreen({
               <Text style={shareStyles.closeButtonText}>{t('common.close')}</Text>
             </HapticTouchable>
             <Text style={shareStyles.headerTitle}>
-              {t('modules.agenda.share.title')}
+              {shareMode === 'mail' ? t('modules.agenda.share.mailTitle') : t('modules.agenda.share.title')}
             </Text>
             <View style={shareStyles.headerSpacer} />
           </View>
@@ -725,7 +793,7 @@ export function AgendaItemDetailScreen({
           ) : shareContacts.length === 0 ? (
             <View style={shareStyles.emptyContainer}>
               <Text style={[shareStyles.emptyText, { color: themeColors.textSecondary }]}>
-                {t('modules.agenda.share.noContacts')}
+                {shareMode === 'mail' ? t('modules.agenda.share.noMailContacts') : t('modules.agenda.share.noContacts')}
               </Text>
             </View>
           ) : (
@@ -16,6 +16,8 @@
  * - Date (always) — date picker
  * - Time (type-dependent) — time picker or multiple times (medication)
  * - Repeat (always) — picker modal
+ * - Repeat days (weekly) — weekday chips ("maandag en donderdag")
+ * - Monthly pattern (monthly) — same day of month or "tweede dinsdag"
  * - End date (when repeat selected) — date picker
  * - Reminder (always) — picker modal
  * - Contacts (appointment only) — contact picker
@@ -72,6 +74,18 @@ import {
 } from '@/constants/agendaCategories';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useAgendaContext, type CreateAgendaItemData } from '@/contexts/AgendaContext';
+import {
+  WEEKDAYS,
+  parseRRule,
+  formatRRule,
+  ruleFromRepeatType,
+  describeRecurrence,
+  nthWeekdayOf,
+  weekdayName,
+  toDayKey,
+  type RecurrenceRule,
+  type Weekday,
+} from '@/services/agendaRecurrence';
 import type { ContactModel } from '@/models/Contact';
 
 /** Wrapper to show presence + trustLevel on agenda contact avatar */
@@ -174,6 +188,13 @@ function formatTime(date: Date): string {
   return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
 }
 
+/** Weekday chips start on Monday */
+const WEEK_ORDER: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+function sortWeekdays(days: Weekday[]): Weekday[] {
+  return WEEK_ORDER.filter(day => days.includes(day));
+}
+
 /** Generate a simple unique ID */
 function generateId(): string {
   return `custom-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
@@ -865,6 +886,19 @@ export function AgendaItemFormScreen({
   const [endDate, setEndDate] = useState<Date | null>(
     initialData?.endDate ? new Date(initialData.endDate) : null,
   );
+  // Stored rule when editing (kept as-is for 'custom' repeats)
+  const initialRule = useMemo(
+    () => (initialData?.rrule ? parseRRule(initialData.rrule) : null),
+    [initialData?.rrule],
+  );
+  // Weekly: chosen weekdays (empty = weekday of the start date)
+  const [repeatDays, setRepeatDays] = useState<Weekday[]>(
+    () => (initialRule?.freq === 'WEEKLY' ? (initialRule.byDay ?? []).map(d => d.weekday) : []),
+  );
+  // Monthly: "second Tuesday" instead of "day 14"
+  const [monthlyByWeekday, setMonthlyByWeekday] = useState(
+    () => initialRule?.freq === 'MONTHLY' && !!initialRule.byDay?.length,
+  );
   const [reminderOffset, setReminderOffset] = useState<ReminderOffset>(
     initialData?.reminderOffset ?? formTypeDef.defaultReminder,
   );
@@ -1046,6 +1080,27 @@ export function AgendaItemFormScreen({
     : i18n.language === 'pl' ? 'pl-PL'
     : 'en-US';
 
+  // Repeat row text; custom rules (ICS import) are described in full
+  const repeatSummary = useMemo(() => {
+    if (repeatType === 'custom') {
+      return initialRule ? describeRecurrence(initialRule, t, locale) : t('modules.agenda.repeat.custom');
+    }
+    return t(REPEAT_OPTIONS.find(o => o.value === repeatType)?.labelKey ?? 'modules.agenda.repeat.none');
+  }, [repeatType, initialRule, t, locale]);
+
+  // Weekday chips show the start date's weekday until the user picks days
+  const startWeekday = WEEKDAYS[selectedDate.getDay()];
+  const activeRepeatDays = repeatDays.length > 0 ? repeatDays : [startWeekday];
+
+  const handleToggleRepeatDay = useCallback((day: Weekday) => {
+    setRepeatDays(prev => {
+      const current = prev.length > 0 ? prev : [startWeekday];
+      const next = current.includes(day) ? current.filter(d => d !== day) : [...current, day];
+      // At least one day must stay selected
+      return next.length > 0 ? sortWeekdays(next) : current;
+    });
+  }, [startWeekday]);
+
   // ============================================================
   // Handlers
   // ============================================================
@@ -1173,6 +1228,28 @@ export function AgendaItemFormScreen({
       timeStr = formatTime(selectedTime);
     }
 
+    // Recurrence rule from the repeat fields
+    let rule: RecurrenceRule | null = null;
+    if (repeatType === 'custom') {
+      rule = initialRule ? { ...initialRule } : null;
+    } else if (repeatType) {
+      rule = ruleFromRepeatType(repeatType);
+      if (rule && (repeatType === 'weekly' || repeatType === 'biweekly') && repeatDays.length > 0) {
+        rule.byDay = sortWeekdays(repeatDays).map(weekday => ({ weekday }));
+      }
+      if (rule && repeatType === 'monthly' && monthlyByWeekday) {
+        rule.byDay = [nthWeekdayOf(selectedDate.getTime())];
+      }
+    }
+    if (rule) {
+      if (endDate) {
+        rule.until = toDayKey(endDate.getTime());
+        delete rule.count;
+      } else {
+        delete rule.until;
+      }
+    }
+
     const data: CreateAgendaItemData = {
       category: selectedCategoryId as AgendaCategory,
       categoryIcon: selectedCategoryIcon,
@@ -1183,6 +1260,7 @@ export function AgendaItemFormScreen({
       time: timeStr,
       times: timesArr,
       repeatType: repeatType ?? undefined,
+      rrule: rule ? formatRRule(rule) : undefined,
       endDate: endDate?.getTime(),
       reminderOffset,
       // Contacts (only for form types that support it)
@@ -1222,6 +1300,9 @@ export function AgendaItemFormScreen({
     selectedTime,
     medicationTimes,
     repeatType,
+    initialRule,
+    repeatDays,
+    monthlyByWeekday,
     endDate,
     reminderOffset,
     selectedContactIds,
@@ -1636,15 +1717,83 @@ export function AgendaItemFormScreen({
             style={[styles.pickerRow, { borderColor: themeColors.border, backgroundColor: themeColors.surface }, getFieldHighlightStyle('repeat', moduleColor)]}
             onPress={() => { Keyboard.dismiss(); setTimeout(() => { setFieldFocus('repeat'); setShowRepeatPicker(true); }, 100); }}
             accessibilityRole="button"
-            accessibilityLabel={`${t('modules.agenda.form.repeatLabel')}: ${t(REPEAT_OPTIONS.find(o => o.value === repeatType)?.labelKey ?? 'modules.agenda.repeat.none')}`}
+            accessibilityLabel={`${t('modules.agenda.form.repeatLabel')}: ${repeatSummary}`}
           >
             <Text style={[styles.pickerValue, { color: fieldTextStyle.color, fontWeight: fieldTextStyle.fontWeight, fontStyle: fieldTextStyle.fontStyle }]}>
-              {t(REPEAT_OPTIONS.find(o => o.value === repeatType)?.labelKey ?? 'modules.agenda.repeat.none')}
+              {repeatSummary}
             </Text>
             <Icon name="chevron-right" size={20} color={themeColors.textSecondary} />
           </HapticTouchable>
         </View>
 
+        {/* ====== Repeat Days (weekly) ====== */}
+        {(repeatType === 'weekly' || repeatType === 'biweekly') && (
+          <View style={styles.fieldContainer}>
+            <Text style={[styles.fieldLabel, { color: labelStyle.color, fontWeight: labelStyle.fontWeight, fontStyle: labelStyle.fontStyle }]}>
+              {t('modules.agenda.form.repeatDaysLabel')}
+            </Text>
+            <View style={styles.contactChipsRow}>
+              {WEEK_ORDER.map(day => {
+                const isSelected = activeRepeatDays.includes(day);
+                return (
+                  <HapticTouchable
+                    key={day}
+                    style={[
+                      styles.repeatDayChip,
+                      isSelected
+                        ? { backgroundColor: accentColor.primary, borderColor: accentColor.primary }
+                        : { backgroundColor: themeColors.surface, borderColor: themeColors.border },
+                    ]}
+                    onPress={() => handleToggleRepeatDay(day)}
+                    accessibilityRole="checkbox"
+                    accessibilityState={{ checked: isSelected }}
+                    accessibilityLabel={weekdayName(day, locale)}
+                  >
+                    <Text style={[styles.contactChipText, { color: isSelected ? colors.textOnPrimary : themeColors.textPrimary }]}>
+                      {weekdayName(day, locale, 'short')}
+                    </Text>
+                  </HapticTouchable>
+                );
+              })}
+            </View>
+          </View>
+        )}
+
+        {/* ====== Monthly Pattern ====== */}
+        {repeatType === 'monthly' && (
+          <View style={styles.fieldContainer}>
+            <Text style={[styles.fieldLabel, { color: labelStyle.color, fontWeight: labelStyle.fontWeight, fontStyle: labelStyle.fontStyle }]}>
+              {t('modules.agenda.form.repeatMonthlyLabel')}
+            </Text>
+            {[false, true].map(byWeekday => {
+              const optionRule: RecurrenceRule = byWeekday
+                ? { freq: 'MONTHLY', interval: 1, weekStart: 'MO', byDay: [nthWeekdayOf(selectedDate.getTime())] }
+                : { freq: 'MONTHLY', interval: 1, weekStart: 'MO', byMonthDay: [selectedDate.getDate()] };
+              const label = describeRecurrence(optionRule, t, locale);
+              const isSelected = monthlyByWeekday === byWeekday;
+              return (
+                <HapticTouchable
+                  key={byWeekday ? 'weekday' : 'day'}
+                  style={[
+                    styles.pickerRow,
+                    styles.monthlyOption,
+                    { borderColor: isSelected ? accentColor.primary : themeColors.border, backgroundColor: themeColors.surface },
+                  ]}
+                  onPress={() => setMonthlyByWeekday(byWeekday)}
+                  accessibilityRole="radio"
+                  accessibilityState={{ selected: isSelected }}
+                  accessibilityLabel={label}
+                >
+                  <Text style={[styles.pickerValue, { color: fieldTextStyle.color, fontWeight: fieldTextStyle.fontWeight, fontStyle: fieldTextStyle.fontStyle }]}>
+                    {label}
+                  </Text>
+                  {isSelected && <Icon name="check" size={20} color={accentColor.primary} />}
+                </HapticTouchable>
+              );
+            })}
+          </View>
+        )}
+
         {/* ====== End Date (when repeating) ====== */}
         {repeatType != null && (
           <View ref={registerField('endDate')} style={styles.fieldContainer}>
@@ -2369,6 +2518,19 @@ const styles = StyleSheet.create({
     ...typography.body,
     fontWeight: '600',
   },
+  repeatDayChip: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: spacing.sm,
+    borderRadius: borderRadius.md,
+    borderWidth: 2,
+    minWidth: touchTargets.minimum,
+    minHeight: touchTargets.minimum,
+  },
+  monthlyOption: {
+    marginBottom: spacing.sm,
+    borderWidth: 2,
+  },
   addContactButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -28,6 +28,7 @@ import {
   Platform,
   Switch,
   Pressable,
+  Alert,
 } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useTranslation } from 'react-i18next';
@@ -49,6 +50,7 @@ import { useAccentColor } from '@/hooks/useAccentColor';
 import { useAgendaNotifications } from '@/hooks/useAgendaNotifications';
 import { AgendaItemFormScreen } from './AgendaItemFormScreen';
 import { AgendaItemDetailScreen } from './AgendaItemDetailScreen';
+import { MedicationAdherenceScreen } from './MedicationAdherenceScreen';
 
 // ============================================================
 // Constants
@@ -291,7 +293,8 @@ type AgendaView =
   | { screen: 'dayView' }
   | { screen: 'search' }
   | { screen: 'form'; editItem?: TimelineItem }
-  | { screen: 'detail'; item: TimelineItem };
+  | { screen: 'detail'; item: TimelineItem }
+  | { screen: 'adherence'; item: TimelineItem };
 
 function AgendaScreenInner() {
   const { t } = useTranslation();
@@ -308,6 +311,7 @@ function AgendaScreenInner() {
     updateItem,
     getItemsForDate,
     searchItems,
+    buildRangeCalendar,
   } = useAgendaContext();
 
   // Activate notification scheduling
@@ -356,6 +360,38 @@ function AgendaScreenInner() {
     setCurrentView({ screen: 'search' });
   }, []);
 
+  // Export a period as .ics for calendars outside CommEazy
+  const exportRange = useCallback(async (months: number) => {
+    const start = new Date(selectedDate);
+    start.setHours(0, 0, 0, 0);
+    const end = new Date(start);
+    end.setMonth(end.getMonth() + months);
+
+    try {
+      const { exportCalendarFile } = await import('@/services/mail/calendarMailService');
+      const ics = await buildRangeCalendar(start.getTime(), end.getTime());
+      const outcome = await exportCalendarFile(ics, 'CommEazy-agenda.ics');
+      if (outcome === 'saved') {
+        Alert.alert(t('modules.agenda.export.title'), t('modules.agenda.export.saved'));
+      }
+    } catch (error) {
+      console.error('[AgendaScreen] Export failed:', error);
+      Alert.alert(t('modules.agenda.export.title'), t('modules.agenda.export.failed'));
+    }
+  }, [selectedDate, buildRangeCalendar, t]);
+
+  const handleExport = useCallback(() => {
+    Alert.alert(
+      t('modules.agenda.export.title'),
+      t('modules.agenda.export.message'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('modules.agenda.export.oneMonth'), onPress: () => void exportRange(1) },
+        { text: t('modules.agenda.export.oneYear'), onPress: () => void exportRange(12) },
+      ],
+    );
+  }, [exportRange, t]);
+
   // Back from search to day view
   const handleBackFromSearch = useCallback(() => {
     setSearchQuery('');
@@ -385,6 +421,11 @@ function AgendaScreenInner() {
     }
   }, [currentView, createItem, updateItem]);
 
+  // Medication overview from detail, back returns to the same item
+  const handleShowAdherence = useCallback((item: TimelineItem) => {
+    setCurrentView({ screen: 'adherence', item });
+  }, []);
+
   // Back navigation
   const handleBackToTimeline = useCallback(() => {
     setCurrentView({ screen: 'dayView' });
@@ -445,6 +486,16 @@ function AgendaScreenInner() {
         item={currentView.item}
         onBack={handleBackToTimeline}
         onEdit={handleEditItem}
+        onShowAdherence={() => handleShowAdherence(currentView.item)}
+      />
+    );
+  }
+
+  if (currentView.screen === 'adherence') {
+    const { item } = currentView;
+    return (
+      <MedicationAdherenceScreen
+        onBack={() => setCurrentView({ screen: 'detail', item })}
       />
     );
   }
@@ -461,6 +512,7 @@ function AgendaScreenInner() {
           time: currentView.editItem.time ?? undefined,
           times: currentView.editItem.times.length > 0 ? currentView.editItem.times : undefined,
           repeatType: currentView.editItem.repeatType ?? undefined,
+          rrule: currentView.editItem.rrule ?? undefined,
           endDate: currentView.editItem.endDate ?? undefined,
           reminderOffset: currentView.editItem.reminderOffset,
           contactIds: currentView.editItem.contactIds,
@@ -510,7 +562,7 @@ function AgendaScreenInner() {
     // Day view controls
     return (
       <>
-        {/* Action bar: [+ Nieuwe afspraak] ... [🔍] */}
+        {/* Action bar: [+ Nieuwe afspraak] ... [⬇] [🔍] */}
         <View style={styles.actionBar}>
           <HapticTouchable
             style={[styles.actionButton, { backgroundColor: accentColor.primary }]}
@@ -524,6 +576,15 @@ function AgendaScreenInner() {
             </Text>
           </HapticTouchable>
 
+          <HapticTouchable
+            style={[styles.searchButton, { backgroundColor: 'rgba(255, 255, 255, 0.15)', borderColor: themeColors.border, borderWidth: 1 }]}
+            onPress={handleExport}
+            accessibilityRole="button"
+            accessibilityLabel={t('modules.agenda.export.title')}
+          >
+            <Icon name="download" size={24} color={themeColors.textPrimary} />
+          </HapticTouchable>
+
           <HapticTouchable
             style={[styles.searchButton, { backgroundColor: 'rgba(255, 255, 255, 0.15)', borderColor: themeColors.border, borderWidth: 1 }]}
             onPress={handleOpenSearch}
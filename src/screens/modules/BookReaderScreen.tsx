@@ -3,6 +3,7 @@
  *
  * Senior-inclusive reading experience with:
  * - Large, adjustable text (Dynamic Type support)
+ * - EPUB pages rendered from sanitized XHTML (chapters, italics, images)
  * - TTS read-aloud with play/pause/stop
  * - Page navigation (swipe or buttons)
  * - Progress tracking and auto-save
@@ -30,7 +31,9 @@ import {
   Linking,
   Platform,
   Pressable,
+  useWindowDimensions,
 } from 'react-native';
+import RenderHtml from 'react-native-render-html';
 import { HapticTouchable } from '@/components/HapticTouchable';
 import { useTranslation } from 'react-i18next';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
@@ -97,6 +100,7 @@ export function BookReaderScreen() {
   const { t } = useTranslation();
   const insets = useSafeAreaInsets();
   const navigation = useNavigation();
+  const { width: windowWidth } = useWindowDimensions();
   const { accentColor } = useAccentColor();
   const isReducedMotion = useReducedMotion();
   const { triggerFeedback } = useFeedback();
@@ -110,6 +114,7 @@ export function BookReaderScreen() {
   const {
     currentBook,
     currentPage,
+    currentPageHtml,
     currentPageNumber,
     totalPages,
     isSpeaking,
@@ -145,6 +150,23 @@ export function BookReaderScreen() {
   const fontSize = FONT_SIZES[readerSettings.fontSize];
   const lineHeight = LINE_HEIGHTS[readerSettings.lineHeight];
 
+  // EPUB pages: same font and colors as plain text, headings a bit larger
+  const htmlSource = useMemo(() => ({ html: currentPageHtml ?? '' }), [currentPageHtml]);
+  const htmlBaseStyle = useMemo(() => ({
+    color: theme.text,
+    fontSize,
+    lineHeight: fontSize * lineHeight,
+  }), [theme.text, fontSize, lineHeight]);
+  const htmlTagsStyles = useMemo(() => ({
+    p: { marginTop: 0, marginBottom: fontSize * 0.8 },
+    h1: { fontSize: fontSize * 1.4, lineHeight: fontSize * 1.4 * lineHeight, marginBottom: fontSize },
+    h2: { fontSize: fontSize * 1.25, lineHeight: fontSize * 1.25 * lineHeight, marginBottom: fontSize },
+    h3: { fontSize: fontSize * 1.1, lineHeight: fontSize * 1.1 * lineHeight, marginBottom: fontSize * 0.8 },
+    blockquote: { marginHorizontal: spacing.md },
+    img: { marginVertical: spacing.md },
+    hr: { backgroundColor: theme.secondary, marginVertical: spacing.md },
+  }), [fontSize, lineHeight, theme.secondary]);
+
   // Swipe gesture for page navigation
   const panResponder = useMemo(() => {
     return PanResponder.create({
@@ -378,9 +400,17 @@ export function BookReaderScreen() {
             { paddingBottom: 180 + insets.bottom },
           ]}
         >
-          {isLoading ? (
-            <LoadingView message={t('modules.books.loading')} />
-          ) : (
+          {isLoading && <LoadingView message={t('modules.books.loading')} />}
+          {!isLoading && currentPageHtml !== null && (
+            <RenderHtml
+              source={htmlSource}
+              contentWidth={windowWidth - spacing.lg * 2}
+              baseStyle={htmlBaseStyle}
+              tagsStyles={htmlTagsStyles}
+              defaultTextProps={{ selectable: true }}
+            />
+          )}
+          {!isLoading && currentPageHtml === null && (
             <Text
               style={[
                 styles.pageContent,
@@ -1,10 +1,11 @@
 /**
  * CallsScreen — Combined voice and video calling module
  *
- * Displays all contacts with:
- * - Voice call button (📞)
- * - Video call button (📹)
- * - Online/offline status indicator
+ * Two tabs:
+ * - Recent: call history with missed calls highlighted and a "call back"
+ *   button (opening this tab clears the missed-call badge)
+ * - Contacts: all contacts with voice (📞) and video (📹) call buttons
+ *   and an online/offline status indicator
  *
  * Senior-inclusive design:
  * - 60pt minimum touch targets for call buttons
@@ -12,6 +13,7 @@
  * - Clear presence indicators with icons (not just color)
  * - VoiceOver support
  *
+ * @see src/services/callLog.ts
  * @see .claude/skills/ui-designer/SKILL.md
  * @see .claude/skills/accessibility-specialist/SKILL.md
  */
@@ -29,7 +31,7 @@ import { useIsFocused, useNavigation } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 
 import { colors, typography, spacing, touchTargets } from '@/theme';
-import { ContactAvatar, LoadingView, Icon, ModuleHeader, ModuleScreenLayout, SearchBar, ScrollViewWithIndicator, ErrorView } from '@/components';
+import { ContactAvatar, LoadingView, Icon, ModuleHeader, ModuleScreenLayout, SearchBar, ScrollViewWithIndicator, ErrorView, TabButtonRow, RecentTabButton, ContactsTabButton } from '@/components';
 import { VoiceFocusable } from '@/components/VoiceFocusable';
 import { useVoiceFocusList, type VoiceFocusableItem } from '@/contexts/VoiceFocusContext';
 import { useVisualPresence } from '@/contexts/PresenceContext';
@@ -37,13 +39,132 @@ import { useFeedback } from '@/hooks/useFeedback';
 import { useCall } from '@/contexts/CallContext';
 import { useColors } from '@/contexts/ThemeContext';
 import { useModuleColor } from '@/contexts/ModuleColorsContext';
-import type { Contact, CallType } from '@/services/interfaces';
+import type { Contact, CallType, CallLogEntry } from '@/services/interfaces';
 import { getContactDisplayName } from '@/services/interfaces';
 import { ServiceContainer } from '@/services/container';
+import { callLogService } from '@/services/callLog';
 import type { RootStackParams } from '@/navigation';
 
 type CallsNavigationProp = NativeStackNavigationProp<RootStackParams>;
 
+type CallsTab = 'recent' | 'contacts';
+
+/** i18n key for the second line of a call log row */
+function getCallStatusKey(call: CallLogEntry): string {
+  if (call.isMissed) return 'modules.calls.recent.missed';
+  if (call.connectedAt !== undefined) {
+    return call.direction === 'incoming' ? 'modules.calls.recent.incoming' : 'modules.calls.recent.outgoing';
+  }
+  switch (call.endReason) {
+    case 'declined':
+      return 'modules.calls.recent.declined';
+    case 'busy':
+      return 'modules.calls.recent.busy';
+    case 'failed':
+    case 'error':
+      return 'modules.calls.recent.failed';
+    default:
+      return 'modules.calls.recent.notAnswered';
+  }
+}
+
+/** Call log row: who, when, what happened, and a call back button */
+function CallLogItem({
+  call,
+  contact,
+  index,
+  onCallBack,
+  callsModuleColor,
+}: {
+  call: CallLogEntry;
+  contact: Contact | undefined;
+  index: number;
+  onCallBack: (call: CallLogEntry) => void;
+  callsModuleColor: string;
+}) {
+  const { t } = useTranslation();
+  const themeColors = useColors();
+
+  // Current contact name when known, otherwise the name at the time of the call
+  const name = contact
+    ? [getContactDisplayName(contact), ...call.participants.slice(1).map((p) => p.name)].join(', ')
+    : call.participants.map((p) => p.name).join(', ');
+
+  const time = useMemo(() => {
+    const date = new Date(call.startedAt);
+    const now = new Date();
+    const clock = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    if (date.toDateString() === now.toDateString()) return clock;
+
+    const yesterday = new Date(now);
+    yesterday.setDate(yesterday.getDate() - 1);
+    if (date.toDateString() === yesterday.toDateString()) {
+      return t('modules.calls.recent.yesterdayAt', { time: clock });
+    }
+    return date.toLocaleDateString([], { day: 'numeric', month: 'short' });
+  }, [call.startedAt, t]);
+
+  const status = t(getCallStatusKey(call));
+  const duration = call.duration >= 60
+    ? t('modules.calls.recent.minutes', { minutes: Math.round(call.duration / 60) })
+    : t('modules.calls.recent.seconds', { seconds: call.duration });
+  const details = call.connectedAt !== undefined ? `${status} · ${duration}` : status;
+  const statusColor = call.isMissed ? themeColors.error : themeColors.textSecondary;
+
+  return (
+    <VoiceFocusable
+      id={call.callId}
+      label={name}
+      index={index}
+      onSelect={() => onCallBack(call)}
+    >
+      <View style={[styles.contactItem, { backgroundColor: themeColors.surface, borderBottomColor: themeColors.divider }]}>
+        <ContactAvatar
+          name={name}
+          photoUrl={contact?.photoUrl}
+          size={56}
+          trustLevel={contact?.trustLevel ?? 0}
+        />
+
+        {/* Name, status and time */}
+        <View style={styles.contactInfo}>
+          <Text
+            style={[styles.contactName, { color: call.isMissed ? themeColors.error : themeColors.textPrimary }]}
+            numberOfLines={1}
+            ellipsizeMode="tail"
+          >
+            {name}
+          </Text>
+          <View style={styles.callDetailsRow}>
+            <Icon name={call.type === 'video' ? 'videocam' : 'call'} size={16} color={statusColor} />
+            <Text style={[styles.statusText, { color: statusColor }]} numberOfLines={1}>
+              {details}
+            </Text>
+          </View>
+          <Text style={[styles.statusText, { color: themeColors.textTertiary }]}>
+            {time}
+          </Text>
+        </View>
+
+        {/* Call back — same type as the original call */}
+        <HapticTouchable hapticDisabled
+          style={[
+            styles.callButton,
+            { backgroundColor: call.type === 'video' ? callsModuleColor : themeColors.success },
+          ]}
+          onPress={() => onCallBack(call)}
+          activeOpacity={0.7}
+          accessibilityRole="button"
+          accessibilityLabel={t('modules.calls.recent.callBackLabel', { name, status, time })}
+          accessibilityHint={t(call.type === 'video' ? 'modules.calls.videoCallHint' : 'modules.calls.voiceCallHint')}
+        >
+          <Icon name={call.type === 'video' ? 'videocam' : 'call'} size={24} color={themeColors.textOnPrimary} />
+        </HapticTouchable>
+      </View>
+    </VoiceFocusable>
+  );
+}
+
 /** Contact row with real presence via PresenceContext */
 function CallContactItem({
   contact,
@@ -136,7 +257,9 @@ export function CallsScreen() {
   // User-customizable module color for Liquid Glass
   const callsModuleColor = useModuleColor('calls');
 
+  const [activeTab, setActiveTab] = useState<CallsTab>('recent');
   const [contacts, setContacts] = useState<Contact[]>([]);
+  const [recentCalls, setRecentCalls] = useState<CallLogEntry[]>([]);
   const [filteredContacts, setFilteredContacts] = useState<Contact[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [refreshing, setRefreshing] = useState(false);
@@ -171,6 +294,25 @@ export function CallsScreen() {
     void loadContacts();
   }, []);
 
+  // Observe the call log (updates when a call ends)
+  useEffect(() => {
+    if (!ServiceContainer.isInitialized) return;
+    return callLogService.observeRecentCalls().subscribe(setRecentCalls);
+  }, []);
+
+  // Viewing the Recent tab clears the missed-call badge
+  const hasUnseenMissedCalls = recentCalls.some((call) => call.isMissed && call.seenAt === undefined);
+  useEffect(() => {
+    if (isFocused && activeTab === 'recent' && hasUnseenMissedCalls) {
+      void callLogService.markMissedCallsSeen();
+    }
+  }, [isFocused, activeTab, hasUnseenMissedCalls]);
+
+  const contactsByJid = useMemo(
+    () => new Map(contacts.map((contact) => [contact.jid, contact])),
+    [contacts],
+  );
+
   // Filter contacts when search query changes
   useEffect(() => {
     if (searchQuery.trim() === '') {
@@ -245,16 +387,43 @@ export function CallsScreen() {
     [handleInitiateCall]
   );
 
+  // Call back: same type, first participant (3-way calls are started one person at a time)
+  const handleCallBack = useCallback(
+    (call: CallLogEntry) => {
+      const participant = call.participants[0];
+      if (!participant) return;
+      const contact = contactsByJid.get(participant.jid);
+      if (!contact) {
+        setNotification({
+          type: 'warning',
+          title: t('modules.calls.callFailed'),
+          message: t('modules.calls.recent.unknownContact', { name: participant.name }),
+        });
+        return;
+      }
+      void handleInitiateCall(contact, call.type);
+    },
+    [contactsByJid, handleInitiateCall, t]
+  );
+
   // Build voice focusable items
   const voiceFocusItems: VoiceFocusableItem[] = useMemo(() => {
     if (!isFocused) return [];
+    if (activeTab === 'recent') {
+      return recentCalls.map((call, index) => ({
+        id: call.callId,
+        label: call.participants.map((p) => p.name).join(', '),
+        index,
+        onSelect: () => handleCallBack(call), // Default action: call back
+      }));
+    }
     return filteredContacts.map((contact, index) => ({
       id: contact.jid,
       label: getContactDisplayName(contact),
       index,
       onSelect: () => handleVoiceCall(contact), // Default action: voice call
     }));
-  }, [filteredContacts, handleVoiceCall, isFocused]);
+  }, [activeTab, recentCalls, handleCallBack, filteredContacts, handleVoiceCall, isFocused]);
 
   const { scrollRef } = useVoiceFocusList('calls-list', voiceFocusItems);
 
@@ -279,6 +448,33 @@ export function CallsScreen() {
     [handleVoiceCall, handleVideoCall, callsModuleColor]
   );
 
+  const renderCallLogItem = useCallback(
+    (call: CallLogEntry, index: number) => (
+      <CallLogItem
+        key={call.callId}
+        call={call}
+        contact={call.participants[0] ? contactsByJid.get(call.participants[0].jid) : undefined}
+        index={index}
+        onCallBack={handleCallBack}
+        callsModuleColor={callsModuleColor}
+      />
+    ),
+    [contactsByJid, handleCallBack, callsModuleColor]
+  );
+
+  const renderEmptyRecent = useCallback(
+    () => (
+      <View style={styles.emptyContainer}>
+        <View style={[styles.emptyIconContainer, { backgroundColor: themeColors.backgroundSecondary }]}>
+          <Icon name="clock" size={64} color={themeColors.textTertiary} />
+        </View>
+        <Text style={[styles.emptyTitle, { color: themeColors.textPrimary }]}>{t('modules.calls.recent.empty')}</Text>
+        <Text style={[styles.emptySubtitle, { color: themeColors.textSecondary }]}>{t('modules.calls.recent.emptyHint')}</Text>
+      </View>
+    ),
+    [t, themeColors]
+  );
+
   const renderEmptyList = useCallback(
     () => (
       <View style={styles.emptyContainer}>
@@ -296,6 +492,19 @@ export function CallsScreen() {
     return <LoadingView fullscreen message={t('common.loading')} />;
   }
 
+  const listIsEmpty = activeTab === 'recent' ? recentCalls.length === 0 : filteredContacts.length === 0;
+
+  const renderList = () => {
+    if (activeTab === 'recent') {
+      return recentCalls.length === 0
+        ? renderEmptyRecent()
+        : recentCalls.map((call, index) => renderCallLogItem(call, index));
+    }
+    return filteredContacts.length === 0
+      ? renderEmptyList()
+      : filteredContacts.map((contact, index) => renderContactItem(contact, index));
+  };
+
   return (
     <View style={[styles.container, { backgroundColor: themeColors.background }]}>
       {notification && (
@@ -317,24 +526,46 @@ export function CallsScreen() {
             skipSafeArea
           />
         }
-        controlsBlock={
-          <View style={[styles.searchContainer, { backgroundColor: themeColors.background, borderBottomColor: themeColors.divider }]}>
-            <SearchBar
-              value={searchQuery}
-              onChangeText={setSearchQuery}
-              onSubmit={() => {}} // Live filter
-              placeholder={t('modules.calls.searchPlaceholder')}
-              searchButtonLabel={t('modules.calls.searchButton')}
-            />
+        controlsBlock={<>
+          {/* Tab selector — Recent (default) + Contacts */}
+          <View style={styles.tabBar}>
+            <TabButtonRow labels={[t('modules.calls.recentTab'), t('modules.calls.contactsTab')]}>
+              {(syncedFontSize) => (
+                <>
+                  <RecentTabButton
+                    isActive={activeTab === 'recent'}
+                    onPress={() => setActiveTab('recent')}
+                    label={t('modules.calls.recentTab')}
+                    syncedFontSize={syncedFontSize}
+                  />
+                  <ContactsTabButton
+                    isActive={activeTab === 'contacts'}
+                    onPress={() => setActiveTab('contacts')}
+                    label={t('modules.calls.contactsTab')}
+                    syncedFontSize={syncedFontSize}
+                  />
+                </>
+              )}
+            </TabButtonRow>
           </View>
-        }
+
+          {activeTab === 'contacts' && (
+            <View style={[styles.searchContainer, { backgroundColor: themeColors.background, borderBottomColor: themeColors.divider }]}>
+              <SearchBar
+                value={searchQuery}
+                onChangeText={setSearchQuery}
+                onSubmit={() => {}} // Live filter
+                placeholder={t('modules.calls.searchPlaceholder')}
+                searchButtonLabel={t('modules.calls.searchButton')}
+              />
+            </View>
+          )}
+        </>}
         contentBlock={
           <ScrollViewWithIndicator
             ref={scrollRef}
             style={styles.contentFlex}
-            contentContainerStyle={
-              filteredContacts.length === 0 ? styles.emptyListContent : undefined
-            }
+            contentContainerStyle={listIsEmpty ? styles.emptyListContent : undefined}
             refreshControl={
               <RefreshControl
                 refreshing={refreshing}
@@ -343,13 +574,11 @@ export function CallsScreen() {
               />
             }
             showsVerticalScrollIndicator={false}
-            accessibilityLabel={t('modules.calls.contactList', { count: filteredContacts.length })}
+            accessibilityLabel={activeTab === 'recent'
+              ? t('modules.calls.recent.listLabel', { count: recentCalls.length })
+              : t('modules.calls.contactList', { count: filteredContacts.length })}
           >
-            {filteredContacts.length === 0 ? (
-              renderEmptyList()
-            ) : (
-              filteredContacts.map((contact, index) => renderContactItem(contact, index))
-            )}
+            {renderList()}
           </ScrollViewWithIndicator>
         }
       />
@@ -365,6 +594,12 @@ const styles = StyleSheet.create({
   contentFlex: {
     flex: 1,
   },
+  tabBar: {
+    flexDirection: 'row',
+    marginHorizontal: spacing.md,
+    marginVertical: spacing.sm,
+    gap: spacing.sm,
+  },
   searchContainer: {
     paddingHorizontal: spacing.md,
     paddingVertical: spacing.sm,
@@ -396,6 +631,10 @@ const styles = StyleSheet.create({
     ...typography.small,
     marginLeft: spacing.xs,
   },
+  callDetailsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   callButtons: {
     flexDirection: 'row',
     gap: spacing.sm,
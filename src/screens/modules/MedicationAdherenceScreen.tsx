@@ -0,0 +1,588 @@
+/**
+ * MedicationAdherenceScreen — Medication overview for the user and caregiver
+ *
+ * Shows how medication was taken over the last week(s):
+ * - Totals: on time, late, skipped, missed
+ * - Per medication and per week
+ * - Missed doses (nothing logged after the grace period)
+ * - Daily summary to an ICE contact (end-to-end encrypted chat message)
+ * - Printable overview for the GP
+ *
+ * Senior-inclusive: 60pt+ touch targets, 18pt+ text, WCAG AAA contrast
+ *
+ * @see services/medicationAdherence.ts for the numbers
+ * @see services/medicationSummary.ts for sending and exporting
+ */
+
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Switch,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { colors, typography, spacing, touchTargets, borderRadius } from '@/theme';
+import { Icon, HapticTouchable, LoadingView, ScrollViewWithIndicator, ErrorView } from '@/components';
+import { useColors } from '@/contexts/ThemeContext';
+import { useModuleColor } from '@/contexts/ModuleColorsContext';
+import { useAccentColor } from '@/hooks/useAccentColor';
+import type { Contact } from '@/services/interfaces';
+import { getContactDisplayName } from '@/services/interfaces';
+import { ServiceContainer } from '@/services/container';
+import {
+  summarizeDoses,
+  summarizeByWeek,
+  summarizeByMedication,
+  formatRate,
+  type Dose,
+} from '@/services/medicationAdherence';
+import {
+  loadDoses,
+  getDailySummarySettings,
+  saveDailySummarySettings,
+  exportAdherenceReport,
+  type DailySummarySettings,
+} from '@/services/medicationSummary';
+
+// ============================================================
+// Props
+// ============================================================
+
+interface MedicationAdherenceScreenProps {
+  onBack: () => void;
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+const PERIOD_OPTIONS = [
+  { weeks: 1, labelKey: 'modules.agenda.adherence.lastWeek' },
+  { weeks: 4, labelKey: 'modules.agenda.adherence.lastFourWeeks' },
+] as const;
+type PeriodWeeks = typeof PERIOD_OPTIONS[number]['weeks'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================
+// MedicationAdherenceScreen
+// ============================================================
+
+export function MedicationAdherenceScreen({ onBack }: MedicationAdherenceScreenProps) {
+  const { t, i18n } = useTranslation();
+  const themeColors = useColors();
+  const insets = useSafeAreaInsets();
+  const moduleColor = useModuleColor('agenda');
+  const { accentColor } = useAccentColor();
+
+  const [periodWeeks, setPeriodWeeks] = useState<PeriodWeeks>(1);
+  const [doses, setDoses] = useState<Dose[] | null>(null);
+  const [settings, setSettings] = useState<DailySummarySettings | null>(null);
+  const [iceContacts, setIceContacts] = useState<Contact[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+  const [notification, setNotification] = useState<{
+    type: 'success' | 'error';
+    title: string;
+    message: string;
+  } | null>(null);
+
+  // Period: the last N weeks up to and including today
+  const range = useMemo(() => {
+    const end = new Date();
+    end.setHours(0, 0, 0, 0);
+    return { start: end.getTime() - (periodWeeks * 7 - 1) * DAY_MS, end: end.getTime() };
+  }, [periodWeeks]);
+
+  useEffect(() => {
+    setDoses(null);
+    loadDoses(range.start, range.end)
+      .then(setDoses)
+      .catch(error => {
+        console.error('[MedicationAdherence] Failed to load doses:', error);
+        setDoses([]);
+      });
+  }, [range]);
+
+  useEffect(() => {
+    void getDailySummarySettings().then(setSettings);
+    ServiceContainer.database.getContactsOnce()
+      .then(contacts => setIceContacts(contacts.filter(c => c.isEmergencyContact)))
+      .catch(error => console.warn('[MedicationAdherence] Failed to load contacts:', error));
+  }, []);
+
+  const summary = useMemo(() => (doses ? summarizeDoses(doses) : null), [doses]);
+  const weeks = useMemo(() => (doses ? summarizeByWeek(doses) : []), [doses]);
+  const medications = useMemo(() => (doses ? summarizeByMedication(doses) : []), [doses]);
+  const missedDoses = useMemo(
+    () => (doses ?? []).filter(dose => dose.status === 'missed').reverse(),
+    [doses],
+  );
+
+  const formatDay = useCallback((dayKey: string) => {
+    const [year, month, day] = dayKey.split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString(i18n.language, {
+      weekday: 'short',
+      day: 'numeric',
+      month: 'short',
+    });
+  }, [i18n.language]);
+
+  // ============================================================
+  // Caregiver summary
+  // ============================================================
+
+  const updateSettings = useCallback((changes: Partial<DailySummarySettings>) => {
+    setSettings(prev => {
+      if (!prev) return prev;
+      const next = { ...prev, ...changes };
+      saveDailySummarySettings(next).catch(error => {
+        console.warn('[MedicationAdherence] Failed to save settings:', error);
+      });
+      return next;
+    });
+  }, []);
+
+  const handleToggleSummary = useCallback((enabled: boolean) => {
+    updateSettings({
+      enabled,
+      // Preselect the only ICE contact
+      contactJid: settings?.contactJid ?? (iceContacts.length === 1 ? iceContacts[0].jid : null),
+    });
+  }, [updateSettings, settings, iceContacts]);
+
+  // ============================================================
+  // Export
+  // ============================================================
+
+  const handleExport = useCallback(async () => {
+    setIsExporting(true);
+    try {
+      const result = await exportAdherenceReport(range.start, range.end);
+      if (result === 'saved') {
+        setNotification({
+          type: 'success',
+          title: t('modules.agenda.adherence.export'),
+          message: t('modules.agenda.adherence.exportSaved'),
+        });
+      }
+    } catch (error) {
+      console.error('[MedicationAdherence] Export failed:', error);
+      setNotification({
+        type: 'error',
+        title: t('modules.agenda.adherence.export'),
+        message: t('modules.agenda.adherence.exportFailed'),
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  }, [range, t]);
+
+  // ============================================================
+  // Render
+  // ============================================================
+
+  const statusColor = (status: 'taken' | 'late' | 'skipped' | 'missed') => {
+    switch (status) {
+      case 'taken': return themeColors.success ?? '#4CAF50';
+      case 'late':
+      case 'skipped': return themeColors.warning ?? '#FF9800';
+      case 'missed': return themeColors.error ?? colors.error;
+    }
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: themeColors.background }]}>
+      {notification && (
+        <ErrorView
+          type={notification.type}
+          title={notification.title}
+          message={notification.message}
+          autoDismiss={notification.type === 'success' ? 3000 : undefined}
+          onDismiss={() => setNotification(null)}
+        />
+      )}
+
+      {/* Header */}
+      <View
+        style={[
+          styles.header,
+          {
+            backgroundColor: moduleColor,
+            paddingTop: insets.top + spacing.sm,
+          },
+        ]}
+      >
+        <HapticTouchable
+          style={styles.backButton}
+          onPress={onBack}
+          accessibilityRole="button"
+          accessibilityLabel={t('common.goBack')}
+        >
+          <Icon name="chevron-left" size={24} color={colors.textOnPrimary} />
+        </HapticTouchable>
+        <Text style={styles.headerTitle} numberOfLines={1}>
+          {t('modules.agenda.adherence.title')}
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollViewWithIndicator
+        style={styles.scrollView}
+        contentContainerStyle={[
+          styles.scrollContent,
+          { paddingBottom: insets.bottom + spacing.xl },
+        ]}
+      >
+        {/* Period */}
+        <View style={styles.periodRow}>
+          {PERIOD_OPTIONS.map(option => {
+            const isSelected = periodWeeks === option.weeks;
+            return (
+              <HapticTouchable
+                key={option.weeks}
+                style={[
+                  styles.periodButton,
+                  { borderColor: accentColor.primary },
+                  isSelected && { backgroundColor: accentColor.primary },
+                ]}
+                onPress={() => setPeriodWeeks(option.weeks)}
+                accessibilityRole="button"
+                accessibilityState={{ selected: isSelected }}
+                accessibilityLabel={t(option.labelKey)}
+              >
+                <Text style={[styles.periodText, { color: isSelected ? colors.textOnPrimary : accentColor.primary }]}>
+                  {t(option.labelKey)}
+                </Text>
+              </HapticTouchable>
+            );
+          })}
+        </View>
+
+        {!summary && <LoadingView />}
+
+        {summary && doses?.length === 0 && (
+          <Text style={[styles.emptyText, { color: themeColors.textSecondary }]}>
+            {t('modules.agenda.adherence.noMedication')}
+          </Text>
+        )}
+
+        {summary && !!doses?.length && (
+          <>
+            {/* Totals */}
+            <View style={[styles.card, { borderColor: themeColors.border }]}>
+              <Text style={[styles.rate, { color: themeColors.textPrimary }]}>
+                {formatRate(summary.rate)}
+              </Text>
+              <Text style={[styles.rateLabel, { color: themeColors.textSecondary }]}>
+                {t('modules.agenda.adherence.rateLabel')}
+              </Text>
+              {(['taken', 'late', 'skipped', 'missed'] as const).map(status => (
+                <View key={status} style={styles.countRow}>
+                  <View style={[styles.statusDot, { backgroundColor: statusColor(status) }]} />
+                  <Text style={[styles.countLabel, { color: themeColors.textPrimary }]}>
+                    {t(`modules.agenda.adherence.status.${status}`)}
+                  </Text>
+                  <Text style={[styles.countValue, { color: themeColors.textPrimary }]}>
+                    {summary[status]}
+                  </Text>
+                </View>
+              ))}
+            </View>
+
+            {/* Per medication */}
+            {medications.length > 1 && (
+              <View style={styles.section}>
+                <Text style={[styles.sectionTitle, { color: themeColors.textSecondary }]}>
+                  {t('modules.agenda.adherence.perMedication')}
+                </Text>
+                {medications.map(medication => (
+                  <View key={medication.medicationId} style={[styles.row, { borderColor: themeColors.border }]}>
+                    <Text style={[styles.rowLabel, { color: themeColors.textPrimary }]} numberOfLines={1}>
+                      {medication.title}
+                    </Text>
+                    <Text style={[styles.rowValue, { color: themeColors.textPrimary }]}>
+                      {formatRate(medication.rate)}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            {/* Per week */}
+            {weeks.length > 1 && (
+              <View style={styles.section}>
+                <Text style={[styles.sectionTitle, { color: themeColors.textSecondary }]}>
+                  {t('modules.agenda.adherence.perWeek')}
+                </Text>
+                {weeks.map(week => (
+                  <View key={week.weekStart} style={[styles.row, { borderColor: themeColors.border }]}>
+                    <Text style={[styles.rowLabel, { color: themeColors.textPrimary }]}>
+                      {t('modules.agenda.adherence.weekOf', { date: formatDay(week.weekStart) })}
+                    </Text>
+                    <Text style={[styles.rowValue, { color: themeColors.textPrimary }]}>
+                      {formatRate(week.rate)}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            {/* Missed doses */}
+            <View style={styles.section}>
+              <Text style={[styles.sectionTitle, { color: themeColors.textSecondary }]}>
+                {t('modules.agenda.adherence.missedTitle')}
+              </Text>
+              {missedDoses.length === 0 ? (
+                <Text style={[styles.emptyText, { color: themeColors.textSecondary }]}>
+                  {t('modules.agenda.adherence.noMissed')}
+                </Text>
+              ) : (
+                missedDoses.map(dose => (
+                  <View
+                    key={`${dose.medicationId}-${dose.date}-${dose.time}`}
+                    style={[styles.row, { borderColor: statusColor('missed') }]}
+                  >
+                    <Text style={[styles.rowLabel, { color: themeColors.textPrimary }]} numberOfLines={2}>
+                      {`${formatDay(dose.date)} ${dose.time} — ${dose.title}`}
+                    </Text>
+                  </View>
+                ))
+              )}
+            </View>
+          </>
+        )}
+
+        {/* Daily summary to an ICE contact */}
+        {settings && (
+          <View style={[styles.card, { borderColor: themeColors.border }]}>
+            <View style={styles.switchRow}>
+              <Text style={[styles.switchLabel, { color: themeColors.textPrimary }]}>
+                {t('modules.agenda.adherence.caregiverTitle')}
+              </Text>
+              <Switch
+                value={settings.enabled}
+                onValueChange={handleToggleSummary}
+                disabled={iceContacts.length === 0}
+                trackColor={{ false: themeColors.border, true: moduleColor }}
+                accessibilityLabel={t('modules.agenda.adherence.caregiverTitle')}
+              />
+            </View>
+            <Text style={[styles.hint, { color: themeColors.textSecondary }]}>
+              {iceContacts.length === 0
+                ? t('modules.agenda.adherence.noIceContacts')
+                : t('modules.agenda.adherence.caregiverHint', { time: settings.sendAt })}
+            </Text>
+
+            {settings.enabled && iceContacts.map(contact => {
+              const isSelected = settings.contactJid === contact.jid;
+              const name = getContactDisplayName(contact);
+              return (
+                <HapticTouchable
+                  key={contact.jid}
+                  style={[
+                    styles.contactRow,
+                    { borderColor: isSelected ? accentColor.primary : themeColors.border },
+                  ]}
+                  onPress={() => updateSettings({ contactJid: contact.jid })}
+                  accessibilityRole="radio"
+                  accessibilityState={{ selected: isSelected }}
+                  accessibilityLabel={name}
+                >
+                  <Text style={[styles.rowLabel, { color: themeColors.textPrimary }]} numberOfLines={1}>
+                    {name}
+                  </Text>
+                  {isSelected && <Icon name="check" size={24} color={accentColor.primary} />}
+                </HapticTouchable>
+              );
+            })}
+          </View>
+        )}
+
+        {/* Export for the GP */}
+        <HapticTouchable
+          style={[styles.outlineButton, { borderColor: accentColor.primary }]}
+          onPress={() => void handleExport()}
+          disabled={isExporting || !doses || doses.length === 0}
+          accessibilityRole="button"
+          accessibilityLabel={t('modules.agenda.adherence.export')}
+        >
+          <Text style={styles.outlineEmoji}>🖨️</Text>
+          <Text style={[styles.outlineButtonText, { color: accentColor.primary }]}>
+            {t('modules.agenda.adherence.export')}
+          </Text>
+        </HapticTouchable>
+      </ScrollViewWithIndicator>
+    </View>
+  );
+}
+
+// ============================================================
+// Styles
+// ============================================================
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+
+  // Header
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingBottom: spacing.md,
+    paddingHorizontal: spacing.md,
+  },
+  backButton: {
+    width: touchTargets.minimum,
+    height: touchTargets.minimum,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    borderRadius: borderRadius.md,
+  },
+  headerTitle: {
+    ...typography.h3,
+    color: colors.textOnPrimary,
+    flex: 1,
+    textAlign: 'center',
+    marginHorizontal: spacing.sm,
+  },
+  headerSpacer: {
+    width: touchTargets.minimum,
+  },
+
+  // Scroll
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.lg,
+    gap: spacing.lg,
+  },
+
+  // Period selector
+  periodRow: {
+    flexDirection: 'row',
+    gap: spacing.md,
+  },
+  periodButton: {
+    flex: 1,
+    minHeight: touchTargets.minimum,
+    borderWidth: 1,
+    borderRadius: borderRadius.md,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: spacing.sm,
+  },
+  periodText: {
+    ...typography.button,
+    fontWeight: '600',
+  },
+
+  // Cards & rows
+  card: {
+    borderWidth: 1,
+    borderRadius: borderRadius.md,
+    padding: spacing.lg,
+    gap: spacing.md,
+  },
+  rate: {
+    ...typography.h1,
+    textAlign: 'center',
+  },
+  rateLabel: {
+    ...typography.body,
+    textAlign: 'center',
+  },
+  countRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    minHeight: 32,
+  },
+  statusDot: {
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+  },
+  countLabel: {
+    ...typography.body,
+    flex: 1,
+  },
+  countValue: {
+    ...typography.bodyBold,
+  },
+  section: {
+    gap: spacing.sm,
+  },
+  sectionTitle: {
+    ...typography.label,
+    fontWeight: '700',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minHeight: touchTargets.minimum,
+    borderWidth: 1,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.md,
+    gap: spacing.md,
+  },
+  rowLabel: {
+    ...typography.body,
+    flex: 1,
+  },
+  rowValue: {
+    ...typography.bodyBold,
+  },
+  emptyText: {
+    ...typography.body,
+    textAlign: 'center',
+  },
+
+  // Caregiver summary
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+  },
+  switchLabel: {
+    ...typography.bodyBold,
+    flex: 1,
+  },
+  hint: {
+    ...typography.body,
+  },
+  contactRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minHeight: touchTargets.minimum,
+    borderWidth: 2,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.md,
+    gap: spacing.md,
+  },
+
+  // Export button
+  outlineButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: touchTargets.comfortable,
+    borderWidth: 1,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.lg,
+    gap: spacing.sm,
+  },
+  outlineEmoji: {
+    fontSize: 18,
+  },
+  outlineButtonText: {
+    ...typography.button,
+    fontWeight: '600',
+  },
+});
@@ -66,6 +66,7 @@ import { useRecentPodcasts } from '@/hooks/useRecentPodcasts';
 import { useSearchCache } from '@/hooks/useSearchCache';
 import { useModuleBrowsingState, type PodcastBrowsingState } from '@/contexts/ModuleBrowsingContext';
 import { LiquidGlassView } from '@/components/LiquidGlassView';
+import { PodcastDownloadsModal, PodcastFeedsModal, getDownloadStatusText } from '@/components/podcast';
 import { ModalLayout, useModalLayoutBottom } from '@/components/ModalLayout';
 import { useModalTextStyle } from '@/contexts/FieldTextStyleContext';
 import { useModuleLayoutSafe } from '@/contexts/ModuleLayoutContext';
@@ -143,6 +144,11 @@ export function PodcastScreen() {
     isSubscribed,
     sleepTimerMinutes,
     setSleepTimer,
+    getDownload,
+    isDownloadWaitingForWifi,
+    downloadEpisode,
+    pauseDownload,
+    resumeDownload,
   } = usePodcastContext();
 
   // Glass Player for iOS 26+ Liquid Glass effect
@@ -253,6 +259,8 @@ export function PodcastScreen() {
   const [isPlayerExpanded, setIsPlayerExpanded] = useState(false);
   const [showSpeedPicker, setShowSpeedPicker] = useState(false);
   const [showSleepTimerPicker, setShowSleepTimerPicker] = useState(false);
+  const [showDownloadsModal, setShowDownloadsModal] = useState(false);
+  const [showFeedsModal, setShowFeedsModal] = useState(false);
 
   // Continue listening dialog
   const [showContinueListeningDialog, setShowContinueListeningDialog] = useState(false);
@@ -716,6 +724,26 @@ export function PodcastScreen() {
               title={t('modules.podcast.title')}
               currentSource="podcast"
               skipSafeArea
+              rightAccessory={
+                <View style={styles.headerActions}>
+                  <IconButton
+                    icon="plus"
+                    variant="onPrimary"
+                    onPress={() => setShowFeedsModal(true)}
+                    accessibilityLabel={t('modules.podcast.feeds.title')}
+                    accessibilityHint={t('modules.podcast.feeds.openHint')}
+                    size={28}
+                  />
+                  <IconButton
+                    icon="download"
+                    variant="onPrimary"
+                    onPress={() => setShowDownloadsModal(true)}
+                    accessibilityLabel={t('modules.podcast.downloads.title')}
+                    accessibilityHint={t('modules.podcast.downloads.openHint')}
+                    size={28}
+                  />
+                </View>
+              }
             />
           }
           controlsBlock={<>
@@ -1009,6 +1037,8 @@ export function PodcastScreen() {
                       const episodeProgress = getEpisodeProgress(episode.id);
                       const completed = isEpisodeCompleted(episode.id);
                       const isCurrentEpisode = currentEpisode && currentEpisode.id === episode.id;
+                      const download = getDownload(episode.id);
+                      const isDownloadActive = download?.status === 'queued' || download?.status === 'downloading';
 
                       return (
                         <HapticTouchable hapticDisabled
@@ -1058,6 +1088,11 @@ export function PodcastScreen() {
                                 </View>
                               )}
                             </View>
+                            {download && (
+                              <Text style={styles.episodeDownloadStatus}>
+                                {getDownloadStatusText(download, t, isDownloadWaitingForWifi)}
+                              </Text>
+                            )}
                             {episodeProgress && !completed && (
                               <View style={styles.episodeProgressContainer}>
                                 <View
@@ -1072,6 +1107,29 @@ export function PodcastScreen() {
                               </View>
                             )}
                           </View>
+                          {download?.status !== 'completed' && (
+                            <IconButton
+                              icon={isDownloadActive ? 'pause' : 'download'}
+                              onPress={() => {
+                                let action: Promise<void>;
+                                if (isDownloadActive) {
+                                  action = pauseDownload(episode.id);
+                                } else if (download) {
+                                  action = resumeDownload(episode.id);
+                                } else {
+                                  action = downloadEpisode(episode, selectedShow);
+                                }
+                                void action.catch((error) => {
+                                  console.error('[PodcastScreen] Download action failed:', error);
+                                });
+                              }}
+                              accessibilityLabel={isDownloadActive
+                                ? t('modules.podcast.downloads.pauseDownload', { episode: episode.title })
+                                : t('modules.podcast.downloads.downloadEpisode', { episode: episode.title })}
+                              size={24}
+                              style={styles.episodeDownloadButton}
+                            />
+                          )}
                           <View style={[styles.playButton, { backgroundColor: accentColor.primary }]}>
                             <Icon name={isCurrentEpisode && isPlaying ? 'pause' : 'play'} size={20} color={colors.textOnPrimary} />
                           </View>
@@ -1135,6 +1193,19 @@ export function PodcastScreen() {
             setIsPlayerExpanded(false);
             setTimeout(() => setShowSleepTimerPicker(true), 100);
           }}
+          isPlayingOffline={currentEpisode ? getDownload(currentEpisode.id)?.status === 'completed' : false}
+        />
+
+        {/* Offline downloads + storage */}
+        <PodcastDownloadsModal
+          visible={showDownloadsModal}
+          onClose={() => setShowDownloadsModal(false)}
+        />
+
+        {/* Add feeds by URL + OPML import/export */}
+        <PodcastFeedsModal
+          visible={showFeedsModal}
+          onClose={() => setShowFeedsModal(false)}
         />
 
         {/* Speed Picker Modal */}
@@ -1775,6 +1846,11 @@ const styles = StyleSheet.create({
     // No explicit positioning needed — it's the last child in flex column
   },
   // ============================================================
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
   tabBar: {
     flexDirection: 'row',
     marginHorizontal: spacing.md,
@@ -2005,6 +2081,14 @@ const styles = StyleSheet.create({
     ...typography.small,
     color: colors.textTertiary,
   },
+  episodeDownloadStatus: {
+    ...typography.small,
+    color: colors.textSecondary,
+    marginTop: spacing.xs,
+  },
+  episodeDownloadButton: {
+    marginRight: spacing.sm,
+  },
   completedBadge: {
     backgroundColor: colors.success,
     borderRadius: 14,
@@ -13,7 +13,7 @@
  */
 
 import React, { useState, useCallback, useMemo } from 'react';
-import { View, Text, StyleSheet, Dimensions, Alert } from 'react-native';
+import { View, Text, StyleSheet, Dimensions, Alert, ActivityIndicator } from 'react-native';
 import { useTranslation } from 'react-i18next';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
@@ -99,6 +99,7 @@ export function SudokuScreen({ onBack }: SudokuScreenProps) {
   const [difficulty, setDifficulty] = useState<GameDifficulty>('easy');
   const [notesMode, setNotesMode] = useState(false);
   const [showStats, setShowStats] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
 
   // Remaining cells count
   const remaining = useMemo(() => {
@@ -108,7 +109,14 @@ export function SudokuScreen({ onBack }: SudokuScreenProps) {
 
   // Start new game
   const handleStartGame = useCallback(async () => {
-    const state = createInitialState(difficulty);
+    if (isGenerating) return;
+    setIsGenerating(true);
+    let state: SudokuState;
+    try {
+      state = await createInitialState(difficulty);
+    } finally {
+      setIsGenerating(false);
+    }
     setGameState(state);
     setPhase('playing');
     setNotesMode(false);
@@ -118,7 +126,7 @@ export function SudokuScreen({ onBack }: SudokuScreenProps) {
       difficulty,
       players: [],
     });
-  }, [difficulty, startSession]);
+  }, [difficulty, isGenerating, startSession]);
 
   // Select cell
   const handleCellPress = useCallback((row: number, col: number) => {
@@ -255,12 +263,16 @@ export function SudokuScreen({ onBack }: SudokuScreenProps) {
                 {/* Start button — top for quick access */}
                 <HapticTouchable
                   onPress={handleStartGame}
+                  disabled={isGenerating}
                   hapticType="success"
                   style={[styles.startButton, { backgroundColor: moduleColor }]}
                   accessibilityRole="button"
                   accessibilityLabel={t('games.lobby.newGame')}
+                  accessibilityState={{ busy: isGenerating }}
                 >
-                  <Icon name="play" size={24} color="#FFFFFF" />
+                  {isGenerating
+                    ? <ActivityIndicator size="small" color={themeConst.textOnPrimary} />
+                    : <Icon name="play" size={24} color="#FFFFFF" />}
                   <Text style={styles.startButtonText}>{t('games.lobby.newGame')}</Text>
                 </HapticTouchable>
 
@@ -8,24 +8,27 @@
  * - Score preview before confirming
  * - Undo button to take back tiles
  * - No time pressure
+ * - Computer opponent at a chosen strength, with a short pause per move
  *
  * @see src/engines/woordy/engine.ts
+ * @see src/engines/woordy/opponent.ts
  * @see src/types/games.ts
  * @see .claude/plans/WOORDY_DESIGN.md
  */
 
 import React, { useState, useCallback, useEffect, useMemo } from 'react';
-import { View, Text, StyleSheet, Alert, ScrollView, Modal, Dimensions } from 'react-native';
+import { View, Text, StyleSheet, Alert, ScrollView, Modal, Dimensions, ActivityIndicator } from 'react-native';
 import { useTranslation } from 'react-i18next';
 
 import { spacing, borderRadius, touchTargets, typography, colors as themeConst } from '@/theme';
 import { ModuleHeader, ModuleScreenLayout, HapticTouchable, Icon, ScrollViewWithIndicator } from '@/components';
-import { GameHeader, GameOverModal, GameSoundPicker, GameSettingsAccordion } from '@/components/games';
-import type { GameOverStat } from '@/components/games';
+import { GameHeader, GameOverModal, GameSoundPicker, GameSettingsAccordion, DifficultyPicker } from '@/components/games';
+import type { GameOverStat, DifficultyOption } from '@/components/games';
 import { useColors } from '@/contexts/ThemeContext';
 import { useModuleColor } from '@/contexts/ModuleColorsContext';
 import { useGameSession } from '@/hooks/games/useGameSession';
 import type { ModuleColorId } from '@/types/liquidGlass';
+import { checkDataStatus, downloadGameData, type DownloadProgress } from '@/services/downloadService';
 
 import {
   createInitialState,
@@ -45,6 +48,9 @@ import {
 } from '@/engines/woordy/engine';
 import type { WoordyState, BoardCell, Tile } from '@/engines/woordy/types';
 import { BOARD_SIZE } from '@/engines/woordy/types';
+import type { WoordyDictionary } from '@/engines/woordy/dictionary';
+import { loadDictionary, getLoadedDictionary, getLoadedLanguage } from '@/engines/woordy/wordList';
+import { playComputerTurn, type OpponentStrength } from '@/engines/woordy/opponent';
 
 // ============================================================
 // Constants
@@ -52,6 +58,18 @@ import { BOARD_SIZE } from '@/engines/woordy/types';
 
 const MODULE_ID: ModuleColorId = 'woordy' as ModuleColorId;
 
+/** Pause before the computer plays, so the player can follow the game */
+const COMPUTER_THINKING_MS = 1200;
+
+/** Pause before the game-over modal, so the last move stays visible */
+const GAME_OVER_DELAY_MS = 500;
+
+const STRENGTH_OPTIONS: DifficultyOption[] = [
+  { value: 'easy', label: 'games.lobby.easy' },
+  { value: 'medium', label: 'games.lobby.medium' },
+  { value: 'hard', label: 'games.lobby.hard' },
+];
+
 const CELL_SIZE = 38;
 const RACK_TILE_SIZE = 48;
 
@@ -76,6 +94,9 @@ const BONUS_COLORS: Record<string, string> = {
 
 type GamePhase = 'menu' | 'playing';
 
+/** Word list state: needed for word checks and the computer opponent */
+type DictionaryStatus = 'checking' | 'missing' | 'downloading' | 'ready';
+
 interface WoordyScreenProps {
   onBack: () => void;
 }
@@ -85,7 +106,7 @@ interface WoordyScreenProps {
 // ============================================================
 
 export function WoordyScreen({ onBack }: WoordyScreenProps) {
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const themeColors = useColors();
   const moduleColor = useModuleColor(MODULE_ID);
 
@@ -103,18 +124,83 @@ export function WoordyScreen({ onBack }: WoordyScreenProps) {
   const [showFullscreen, setShowFullscreen] = useState(false);
   const [swapMode, setSwapMode] = useState(false);
   const [swapSelection, setSwapSelection] = useState<Set<string>>(new Set());
+  const [strength, setStrength] = useState<OpponentStrength>('medium');
+
+  // Word list
+  const [dictionary, setDictionary] = useState<WoordyDictionary | null>(null);
+  const [dictionaryStatus, setDictionaryStatus] = useState<DictionaryStatus>('checking');
+  const [downloadProgress, setDownloadProgress] = useState(0);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+
+  // Current language code (e.g. 'nl', 'en', 'de')
+  const woordyLanguage = useMemo(() => i18n.language.substring(0, 2), [i18n.language]);
+
+  // ============================================================
+  // Word List — check, load and download
+  // ============================================================
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function checkAndLoadWords() {
+      // If already loaded for this language, use it straight away
+      const loaded = getLoadedDictionary();
+      if (loaded && getLoadedLanguage() === woordyLanguage) {
+        setDictionary(loaded);
+        setDictionaryStatus('ready');
+        return;
+      }
+
+      setDictionaryStatus('checking');
+      const status = await checkDataStatus('woordy', woordyLanguage);
+      if (cancelled) return;
+
+      const result = status.isAvailable ? await loadDictionary(woordyLanguage) : null;
+      if (cancelled) return;
+
+      setDictionary(result);
+      setDictionaryStatus(result ? 'ready' : 'missing');
+    }
+
+    void checkAndLoadWords();
+    return () => { cancelled = true; };
+  }, [woordyLanguage]);
+
+  const handleStartDownload = useCallback(async () => {
+    setDictionaryStatus('downloading');
+    setDownloadProgress(0);
+    setDownloadError(null);
+
+    const result = await downloadGameData('woordy', woordyLanguage, (progress: DownloadProgress) => {
+      setDownloadProgress(progress.progress);
+    });
+
+    const loaded = result.success ? await loadDictionary(woordyLanguage) : null;
+    if (!loaded) {
+      setDownloadError(result.error || 'load_failed');
+      setDictionaryStatus('missing');
+      return;
+    }
+
+    setDictionary(loaded);
+    setDictionaryStatus('ready');
+  }, [woordyLanguage]);
 
   // ============================================================
   // Game Actions
   // ============================================================
 
   const handleStartGame = useCallback(() => {
-    // Use app language for dictionary — for now default to 'nl'
-    const state = createInitialState('nl');
+    // Letters and words follow the app language
+    const state = createInitialState(woordyLanguage);
     setGameState(state);
     setPhase('playing');
-    startSession();
-  }, [startSession]);
+    void startSession({
+      mode: 'solo',
+      difficulty: strength,
+      players: [],
+    });
+  }, [woordyLanguage, strength, startSession]);
 
   const handleQuit = useCallback(() => {
     Alert.alert(
@@ -159,29 +245,20 @@ export function WoordyScreen({ onBack }: WoordyScreenProps) {
   }, []);
 
   const handleConfirm = useCallback(() => {
-    setGameState((prev) => {
-      if (!prev) return prev;
-      const validation = validatePlacement(prev);
-      if (!validation.valid) {
-        // Show error in next tick to avoid setState during render
-        setTimeout(() => {
-          Alert.alert(
-            t('games.woordy.invalidWord'),
-            t(`games.woordy.errors.${validation.error}`),
-          );
-        }, 0);
-        return prev;
-      }
-
-      const newState = confirmPlacement(prev);
-
-      if (newState.isComplete) {
-        setTimeout(() => setShowGameOver(true), 500);
-      }
+    if (!gameState) return;
+    const validation = validatePlacement(gameState, dictionary);
+    if (!validation.valid) {
+      Alert.alert(
+        t('games.woordy.invalidWord'),
+        t(`games.woordy.errors.${validation.error}`, {
+          words: validation.invalidWords?.join(', ') ?? '',
+        }),
+      );
+      return;
+    }
 
-      return newState;
-    });
-  }, [t]);
+    setGameState(confirmPlacement(gameState));
+  }, [gameState, t, dictionary]);
 
   const handlePass = useCallback(() => {
     Alert.alert(
@@ -192,14 +269,7 @@ export function WoordyScreen({ onBack }: WoordyScreenProps) {
         {
           text: t('games.woordy.pass'),
           onPress: () => {
-            setGameState((prev) => {
-              if (!prev) return prev;
-              const newState = passTurn(prev);
-              if (newState.isComplete) {
-                setTimeout(() => setShowGameOver(true), 500);
-              }
-              return newState;
-            });
+            setGameState((prev) => (prev ? passTurn(prev) : prev));
           },
         },
       ],
@@ -216,12 +286,7 @@ export function WoordyScreen({ onBack }: WoordyScreenProps) {
           text: t('games.woordy.resign'),
           style: 'destructive',
           onPress: () => {
-            setGameState((prev) => {
-              if (!prev) return prev;
-              const newState = resignGame(prev);
-              setTimeout(() => setShowGameOver(true), 500);
-              return newState;
-            });
+            setGameState((prev) => (prev ? resignGame(prev) : prev));
           },
         },
       ],
@@ -266,6 +331,56 @@ export function WoordyScreen({ onBack }: WoordyScreenProps) {
     setSwapSelection(new Set());
   }, [swapSelection]);
 
+  // ============================================================
+  // Computer Opponent
+  // ============================================================
+
+  const opponentToMove = !!gameState && !gameState.isComplete && gameState.currentTurn === 'opponent';
+
+  useEffect(() => {
+    if (!opponentToMove || !dictionary) return;
+
+    const timer = setTimeout(() => {
+      setGameState((prev) =>
+        prev && !prev.isComplete && prev.currentTurn === 'opponent'
+          ? playComputerTurn(prev, dictionary, strength)
+          : prev,
+      );
+    }, COMPUTER_THINKING_MS);
+
+    return () => clearTimeout(timer);
+  }, [opponentToMove, dictionary, strength]);
+
+  // ============================================================
+  // Game Over
+  // ============================================================
+
+  const isComplete = gameState?.isComplete ?? false;
+
+  // Every ending (last word, passes, resign, computer move) shows the modal
+  useEffect(() => {
+    if (!isComplete) return;
+    const timer = setTimeout(() => setShowGameOver(true), GAME_OVER_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isComplete]);
+
+  /** What the computer did in its last turn, shown above the rack */
+  const opponentStatus = useMemo(() => {
+    if (!gameState || gameState.isComplete) return null;
+    if (gameState.currentTurn === 'opponent') return t('games.woordy.computer.thinking');
+
+    const last = gameState.turns[gameState.turns.length - 1];
+    if (!last || last.playedBy !== 'opponent') return null;
+    switch (last.action) {
+      case 'place':
+        return t('games.woordy.computer.played', { word: last.wordsFormed.join(', '), score: last.score });
+      case 'swap':
+        return t('games.woordy.computer.swapped');
+      default:
+        return t('games.woordy.computer.passed');
+    }
+  }, [gameState, t]);
+
   // Complete the session as soon as the game ends (stop timer immediately)
   useEffect(() => {
     if (gameState?.isComplete && showGameOver) {
@@ -326,23 +441,99 @@ export function WoordyScreen({ onBack }: WoordyScreenProps) {
         {t('games.woordy.howToPlay')}
       </Text>
 
-      {/* Start button — top for quick access */}
-      <HapticTouchable
-        style={[styles.startButton, { backgroundColor: moduleColor }]}
-        onPress={handleStartGame}
-      >
-        <Text style={styles.startButtonText}>
-          {t('games.common.play')}
-        </Text>
-      </HapticTouchable>
+      {/* Start button — top for quick access (the computer needs the word list) */}
+      {dictionaryStatus === 'ready' ? (
+        <HapticTouchable
+          style={[styles.startButton, { backgroundColor: moduleColor }]}
+          onPress={handleStartGame}
+        >
+          <Text style={styles.startButtonText}>
+            {t('games.common.play')}
+          </Text>
+        </HapticTouchable>
+      ) : renderDownloadCard()}
 
       <GameSettingsAccordion moduleColor={moduleColor}>
+        {/* Computer strength */}
+        <DifficultyPicker
+          selected={strength}
+          onSelect={(value) => setStrength(value as OpponentStrength)}
+          options={STRENGTH_OPTIONS.map((o) => ({ ...o, label: t(o.label) }))}
+          moduleId={MODULE_ID}
+        />
+
         {/* Sound settings */}
         <GameSoundPicker moduleColor={moduleColor} />
       </GameSettingsAccordion>
     </ScrollViewWithIndicator>
   );
 
+  // ============================================================
+  // Render: Word List Download
+  // ============================================================
+
+  const renderDownloadCard = () => {
+    if (dictionaryStatus === 'checking') {
+      return (
+        <View style={styles.downloadCard}>
+          <ActivityIndicator size="large" color={moduleColor} />
+          <Text style={[styles.downloadText, { color: themeColors.textSecondary }]}>
+            {t('games.woordy.download.checking')}
+          </Text>
+        </View>
+      );
+    }
+
+    if (dictionaryStatus === 'downloading') {
+      const progressPercent = Math.round(downloadProgress * 100);
+      return (
+        <View style={[styles.downloadCard, { backgroundColor: themeColors.surface, borderColor: themeColors.border }]}>
+          <Text style={[styles.downloadTitle, { color: themeColors.textPrimary }]}>
+            {t('games.woordy.download.downloading')}
+          </Text>
+          <View style={[styles.progressBarTrack, { backgroundColor: themeColors.border }]}>
+            <View style={[styles.progressBarFill, { backgroundColor: moduleColor, width: `${progressPercent}%` }]} />
+          </View>
+          <Text style={[styles.downloadText, { color: themeColors.textSecondary }]}>
+            {progressPercent}%
+          </Text>
+        </View>
+      );
+    }
+
+    return (
+      <View style={[styles.downloadCard, { backgroundColor: themeColors.surface, borderColor: themeColors.border }]}>
+        <Text style={[styles.downloadTitle, { color: themeColors.textPrimary }]}>
+          {t('games.woordy.download.title')}
+        </Text>
+        <Text style={[styles.downloadText, { color: themeColors.textSecondary }]}>
+          {t('games.woordy.download.description')}
+        </Text>
+
+        {downloadError && (
+          <View style={styles.downloadErrorBanner}>
+            <Icon name="warning" size={20} color="#F44336" />
+            <Text style={styles.downloadErrorText}>
+              {t('games.woordy.download.error')}
+            </Text>
+          </View>
+        )}
+
+        <HapticTouchable
+          style={[styles.startButton, styles.downloadButton, { backgroundColor: moduleColor }]}
+          onPress={() => void handleStartDownload()}
+          accessibilityRole="button"
+          accessibilityLabel={t('games.woordy.download.button')}
+        >
+          <Icon name="download" size={24} color="#FFFFFF" />
+          <Text style={styles.startButtonText}>
+            {t('games.woordy.download.button')}
+          </Text>
+        </HapticTouchable>
+      </View>
+    );
+  };
+
   // ============================================================
   // Render: Board
   // ============================================================
@@ -715,6 +906,14 @@ export function WoordyScreen({ onBack }: WoordyScreenProps) {
       <View style={{ flex: 1 }}>
         {renderBoard()}
       </View>
+      {opponentStatus && (
+        <Text
+          style={[styles.opponentStatus, { color: themeColors.textSecondary }]}
+          accessibilityLiveRegion="polite"
+        >
+          {opponentStatus}
+        </Text>
+      )}
       {renderRack()}
       {renderActions()}
     </View>
@@ -840,6 +1039,61 @@ const styles = StyleSheet.create({
     fontWeight: '700',
   },
 
+  // Word list download
+  downloadCard: {
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: 'transparent',
+    padding: spacing.lg,
+    alignItems: 'center',
+    width: '100%',
+    maxWidth: 400,
+    gap: spacing.md,
+  },
+  downloadTitle: {
+    ...typography.h3,
+    textAlign: 'center',
+  },
+  downloadText: {
+    ...typography.body,
+    textAlign: 'center',
+  },
+  downloadButton: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  downloadErrorBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFEBEE',
+    borderRadius: borderRadius.sm,
+    padding: spacing.md,
+    gap: spacing.sm,
+  },
+  downloadErrorText: {
+    ...typography.body,
+    color: '#F44336',
+    flex: 1,
+  },
+  progressBarTrack: {
+    width: '100%',
+    height: 12,
+    borderRadius: 6,
+    overflow: 'hidden',
+  },
+  progressBarFill: {
+    height: '100%',
+    borderRadius: 6,
+  },
+
+  // Computer opponent
+  opponentStatus: {
+    ...typography.body,
+    textAlign: 'center',
+    marginHorizontal: spacing.md,
+    marginTop: spacing.xs,
+  },
+
   // Scoreboard
   scoreboard: {
     flexDirection: 'row',
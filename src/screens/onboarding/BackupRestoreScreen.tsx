@@ -0,0 +1,275 @@
+/**
+ * BackupRestoreScreen
+ *
+ * Restore a full backup made on the old phone (Settings > Backup).
+ * Reached from DeviceChoice. After restoring, the user continues with
+ * phone verification so the account connects again.
+ *
+ * Where backups are found:
+ * - iOS: files opened with CommEazy (share sheet / Files app "Open in")
+ * - Android: the Downloads folder
+ *
+ * Senior-inclusive design: One choice per step, large buttons,
+ * clear explanation when no backup is found.
+ *
+ * @see services/backup.ts
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  Platform,
+  Keyboard,
+} from 'react-native';
+import { HapticTouchable } from '@/components/HapticTouchable';
+import { useTranslation } from 'react-i18next';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { typography, spacing, touchTargets } from '@/theme';
+import { useColors } from '@/contexts/ThemeContext';
+import { Button, ProgressIndicator, PinInput, ScrollViewWithIndicator } from '@/components';
+import { useFeedback } from '@/hooks/useFeedback';
+import { backupService } from '@/services/backup';
+import type { BackupFileInfo } from '@/services/backup';
+import { AppError } from '@/services/interfaces';
+import type { OnboardingStackParams } from '@/navigation';
+
+type Props = NativeStackScreenProps<OnboardingStackParams, 'BackupRestore'>;
+
+type RestoreStep = 'choose' | 'pin' | 'restoring';
+
+const PIN_LENGTH = 6;
+
+export function BackupRestoreScreen({ navigation }: Props) {
+  const { t, i18n } = useTranslation();
+  const themeColors = useColors();
+  const { triggerFeedback } = useFeedback();
+
+  const [step, setStep] = useState<RestoreStep>('choose');
+  const [backups, setBackups] = useState<BackupFileInfo[] | null>(null);
+  const [selected, setSelected] = useState<BackupFileInfo | null>(null);
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+
+  const loadBackups = useCallback(async () => {
+    try {
+      setBackups(await backupService.listBackups());
+    } catch (err) {
+      console.warn('[BackupRestore] Failed to list backups:', (err as Error).message);
+      setBackups([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadBackups();
+  }, [loadBackups]);
+
+  const handleSelect = (backup: BackupFileInfo) => {
+    void triggerFeedback('tap');
+    setSelected(backup);
+    setPin('');
+    setError(null);
+    setStep('pin');
+  };
+
+  const restore = async (backupPin: string) => {
+    if (!selected) return;
+    Keyboard.dismiss();
+    setStep('restoring');
+    setProgress(0);
+
+    try {
+      await backupService.restoreBackup(selected.path, backupPin, setProgress);
+      void triggerFeedback('success');
+      navigation.navigate('PhoneVerification');
+    } catch (err) {
+      const code = err instanceof AppError ? err.code : null;
+      console.warn('[BackupRestore] Restore failed:', code ?? (err as Error).message);
+      setError(code === 'E602' || code === 'E603' ? t(`errors.${code}`) : t('backupRestore.failed'));
+      setPin('');
+      setStep('pin');
+    }
+  };
+
+  const handlePinChange = (value: string) => {
+    setError(null);
+    setPin(value);
+    if (value.length === PIN_LENGTH) {
+      void restore(value);
+    }
+  };
+
+  const handleBack = () => {
+    void triggerFeedback('tap');
+    if (step === 'pin') {
+      setStep('choose');
+      setSelected(null);
+      setError(null);
+    } else {
+      navigation.goBack();
+    }
+  };
+
+  const formatBackupDate = (backup: BackupFileInfo) =>
+    backup.createdAt
+      ? new Date(backup.createdAt).toLocaleDateString(i18n.language, { day: 'numeric', month: 'long', year: 'numeric' })
+      : backup.name;
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: themeColors.background }]}>
+      <View style={styles.content}>
+        <ProgressIndicator currentStep={2} totalSteps={5} />
+
+        <View style={styles.header}>
+          <Text style={[styles.title, { color: themeColors.textPrimary }]}>{t('backupRestore.title')}</Text>
+          <Text style={[styles.subtitle, { color: themeColors.textSecondary }]}>
+            {step === 'choose' && t('backupRestore.chooseSubtitle')}
+            {step === 'pin' && t('backupRestore.pinSubtitle')}
+            {step === 'restoring' && t('backupRestore.restoring', { percent: Math.round(progress * 100) })}
+          </Text>
+        </View>
+
+        {step === 'choose' && (
+          <ScrollViewWithIndicator contentContainerStyle={styles.options}>
+            {backups?.map(backup => (
+              <HapticTouchable hapticDisabled
+                key={backup.path}
+                style={[styles.optionCard, { backgroundColor: themeColors.surface, shadowColor: themeColors.textPrimary }]}
+                onPress={() => handleSelect(backup)}
+                accessibilityRole="button"
+                accessibilityLabel={t('backupRestore.backupFrom', { date: formatBackupDate(backup) })}
+              >
+                <View style={styles.optionText}>
+                  <Text style={[styles.optionTitle, { color: themeColors.textPrimary }]}>
+                    {t('backupRestore.backupFrom', { date: formatBackupDate(backup) })}
+                  </Text>
+                  <Text style={[styles.optionDescription, { color: themeColors.textSecondary }]}>
+                    {t('backupRestore.size', { size: Math.max(1, Math.round(backup.size / (1024 * 1024))) })}
+                  </Text>
+                </View>
+                <Text style={[styles.chevron, { color: themeColors.textTertiary }]}>›</Text>
+              </HapticTouchable>
+            ))}
+
+            {backups?.length === 0 && (
+              <>
+                <Text style={[styles.emptyText, { color: themeColors.textSecondary }]}>
+                  {Platform.OS === 'ios' ? t('backupRestore.noneFoundIos') : t('backupRestore.noneFoundAndroid')}
+                </Text>
+                <Button
+                  title={t('backupRestore.searchAgain')}
+                  onPress={() => void loadBackups()}
+                  variant="secondary"
+                />
+              </>
+            )}
+          </ScrollViewWithIndicator>
+        )}
+
+        {step === 'pin' && (
+          <View style={styles.pinContainer}>
+            <PinInput
+              value={pin}
+              onChange={handlePinChange}
+              length={PIN_LENGTH}
+              error={Boolean(error)}
+              autoFocus={true}
+              accessibilityLabel={t('backupRestore.pinSubtitle')}
+            />
+            {error && (
+              <Text style={[styles.errorText, { color: themeColors.error }]}>{error}</Text>
+            )}
+          </View>
+        )}
+
+        {step !== 'restoring' && (
+          <View style={styles.footer}>
+            <Button
+              title={t('accessibility.backButton')}
+              onPress={handleBack}
+              variant="text"
+            />
+          </View>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+  },
+  header: {
+    marginTop: spacing.xl,
+    marginBottom: spacing.xl,
+  },
+  title: {
+    ...typography.h1,
+    textAlign: 'center',
+    marginBottom: spacing.sm,
+  },
+  subtitle: {
+    ...typography.body,
+    textAlign: 'center',
+  },
+  options: {
+    gap: spacing.lg,
+  },
+  optionCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 16,
+    padding: spacing.lg,
+    minHeight: touchTargets.comfortable,
+    ...Platform.select({
+      ios: {
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+      },
+      android: {
+        elevation: 2,
+      },
+    }),
+  },
+  optionText: {
+    flex: 1,
+  },
+  optionTitle: {
+    ...typography.h3,
+    marginBottom: spacing.xs,
+  },
+  optionDescription: {
+    ...typography.body,
+  },
+  chevron: {
+    ...typography.h1,
+    marginLeft: spacing.sm,
+  },
+  emptyText: {
+    ...typography.body,
+    textAlign: 'center',
+    marginBottom: spacing.lg,
+  },
+  pinContainer: {
+    alignItems: 'center',
+  },
+  errorText: {
+    ...typography.body,
+    textAlign: 'center',
+    marginTop: spacing.md,
+  },
+  footer: {
+    marginTop: 'auto',
+    paddingVertical: spacing.xl,
+  },
+});
@@ -5,6 +5,7 @@
  * 1. New Account - Continue with phone verification (existing flow)
  * 2. Link Device - Scan QR from existing device (tablets without phone number)
  * 3. Invitation Code - Enter a code received from a family member (iPad standalone)
+ * 4. Restore Backup - Full backup made on the old phone (Settings > Backup)
  *
  * Senior-inclusive design: Large buttons, clear icons, simple choice.
  *
@@ -45,6 +46,10 @@ export function DeviceChoiceScreen({ navigation }: Props) {
     navigation.navigate('InvitationCode');
   };
 
+  const handleRestoreBackup = () => {
+    navigation.navigate('BackupRestore');
+  };
+
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: themeColors.background }]}>
       <View style={styles.content}>
@@ -115,6 +120,26 @@ export function DeviceChoiceScreen({ navigation }: Props) {
             </View>
             <Text style={[styles.chevron, { color: themeColors.textTertiary }]}>›</Text>
           </HapticTouchable>
+
+          {/* Restore Backup Option (new phone) */}
+          <HapticTouchable hapticDisabled
+            style={[styles.optionCard, { backgroundColor: themeColors.surface, shadowColor: themeColors.textPrimary }]}
+            onPress={handleRestoreBackup}
+            accessibilityRole="button"
+            accessibilityLabel={t('deviceLink.restoreBackup')}
+            accessibilityHint={t('deviceLink.restoreBackupHint')}
+          >
+            <View style={[styles.iconContainer, { backgroundColor: themeColors.primaryLight }]}>
+              <Text style={styles.icon}>💾</Text>
+            </View>
+            <View style={styles.optionText}>
+              <Text style={[styles.optionTitle, { color: themeColors.textPrimary }]}>{t('deviceLink.restoreBackup')}</Text>
+              <Text style={[styles.optionDescription, { color: themeColors.textSecondary }]}>
+                {t('deviceLink.restoreBackupDescription')}
+              </Text>
+            </View>
+            <Text style={[styles.chevron, { color: themeColors.textTertiary }]}>›</Text>
+          </HapticTouchable>
         </View>
 
         <View style={styles.footer}>
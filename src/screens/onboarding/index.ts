@@ -1,12 +1,13 @@
 /**
  * Onboarding Screens
  *
- * Flow: Language → Welcome → DeviceChoice → Phone/LinkScan/InvitationCode → PIN → ProfileStep1 → ProfileStep2 → ProfileStep3 → NavigationTutorial → Completion
+ * Flow: Language → Welcome → DeviceChoice → Phone/LinkScan/InvitationCode/BackupRestore → PIN → ProfileStep1 → ProfileStep2 → ProfileStep3 → NavigationTutorial → Completion
  *
- * DeviceChoice allows three paths:
+ * DeviceChoice allows four paths:
  * 1. New Account → Phone verification (standard)
  * 2. Link Device → QR scan from existing device (tablets)
  * 3. Invitation Code → Enter code from family member (iPad standalone)
+ * 4. Restore Backup → Full backup from the old phone, then phone verification
  *
  * Profile wizard (3 steps):
  *   Step 1 "Wie ben je?" — firstName*, lastName*, gender*, birthDate*, weddingDate
@@ -23,6 +24,7 @@ export { PhoneVerificationScreen } from './PhoneVerificationScreen';
 export { DeviceLinkScanScreen } from './DeviceLinkScanScreen';
 export { DeviceLinkShowQRScreen } from './DeviceLinkShowQRScreen';
 export { InvitationCodeScreen } from './InvitationCodeScreen';
+export { BackupRestoreScreen } from './BackupRestoreScreen';
 export { PinSetupScreen } from './PinSetupScreen';
 export { ProfileStep1Screen } from './ProfileStep1Screen';
 export { ProfileStep2Screen } from './ProfileStep2Screen';
@@ -0,0 +1,305 @@
+/**
+ * BackupSettingsScreen — Full encrypted backup
+ *
+ * Contains:
+ * - Explanation of what is backed up
+ * - Backup PIN (entered twice)
+ * - Progress while the archive is written
+ * - Share sheet (iOS) or Downloads (Android) to keep the file safe
+ *
+ * Restoring happens during onboarding on the new phone.
+ *
+ * Senior-inclusive design:
+ * - One step per screen state
+ * - Large touch targets (60pt+)
+ * - VoiceOver/TalkBack support
+ *
+ * @see services/backup.ts
+ * @see .claude/skills/accessibility-specialist/SKILL.md
+ */
+
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Alert,
+  Keyboard,
+} from 'react-native';
+import { ScrollViewWithIndicator, Button, PinInput } from '@/components';
+import { useTranslation } from 'react-i18next';
+import { useIsFocused } from '@react-navigation/native';
+
+import {
+  colors,
+  typography,
+  spacing,
+  borderRadius,
+} from '@/theme';
+import { useAccentColor } from '@/hooks/useAccentColor';
+import { useFeedback } from '@/hooks/useFeedback';
+import { useVoiceFocusList } from '@/contexts/VoiceFocusContext';
+import { useColors } from '@/contexts/ThemeContext';
+import { backupService } from '@/services/backup';
+
+const PIN_LENGTH = 6;
+
+type BackupStep = 'intro' | 'create' | 'confirm' | 'working' | 'done';
+
+export function BackupSettingsScreen() {
+  const { t } = useTranslation();
+  const isFocused = useIsFocused();
+  const themeColors = useColors();
+  const { accentColor } = useAccentColor();
+  const { triggerFeedback } = useFeedback();
+
+  const [step, setStep] = useState<BackupStep>('intro');
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [pinError, setPinError] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [backupPath, setBackupPath] = useState<string | null>(null);
+
+  const reset = useCallback(() => {
+    setStep('intro');
+    setPin('');
+    setConfirmPin('');
+    setPinError(false);
+    setProgress(0);
+  }, []);
+
+  const runBackup = useCallback(async (backupPin: string) => {
+    setStep('working');
+    setProgress(0);
+    try {
+      const path = await backupService.createBackup(backupPin, setProgress);
+      setBackupPath(path);
+      setStep('done');
+      void triggerFeedback('success');
+    } catch (error) {
+      console.warn('[BackupSettings] Backup failed:', error);
+      Alert.alert(t('backup.title'), t('backup.failed'));
+      reset();
+    } finally {
+      setPin('');
+      setConfirmPin('');
+    }
+  }, [t, triggerFeedback, reset]);
+
+  const handlePinChange = useCallback((value: string) => {
+    setPinError(false);
+    if (step === 'create') {
+      setPin(value);
+      if (value.length === PIN_LENGTH) {
+        Keyboard.dismiss();
+        setStep('confirm');
+      }
+      return;
+    }
+
+    setConfirmPin(value);
+    if (value.length === PIN_LENGTH) {
+      Keyboard.dismiss();
+      if (value === pin) {
+        void runBackup(value);
+      } else {
+        setPinError(true);
+        setConfirmPin('');
+      }
+    }
+  }, [step, pin, runBackup]);
+
+  const handleStart = useCallback(() => {
+    void triggerFeedback('tap');
+    setStep('create');
+  }, [triggerFeedback]);
+
+  const handleShare = useCallback(async () => {
+    if (!backupPath) return;
+    void triggerFeedback('tap');
+    try {
+      const result = await backupService.shareBackup(backupPath);
+      if (result === 'saved') {
+        Alert.alert(t('backup.title'), t('backup.savedToDownloads'));
+      }
+    } catch (error) {
+      console.warn('[BackupSettings] Share failed:', error);
+      Alert.alert(t('backup.title'), t('backup.shareFailed'));
+    }
+  }, [backupPath, t, triggerFeedback]);
+
+  // Voice focus items for voice navigation
+  const voiceFocusItems = useMemo(() => {
+    if (!isFocused) return [];
+    if (step === 'intro') {
+      return [{ id: 'start-backup', label: t('backup.start'), index: 0, onSelect: handleStart }];
+    }
+    if (step === 'done') {
+      return [{ id: 'share-backup', label: t('backup.share'), index: 0, onSelect: () => void handleShare() }];
+    }
+    return [];
+  }, [isFocused, step, t, handleStart, handleShare]);
+
+  const { scrollRef } = useVoiceFocusList(
+    'backup-settings-list',
+    voiceFocusItems
+  );
+
+  return (
+    <ScrollViewWithIndicator
+      ref={scrollRef}
+      style={[styles.container, { backgroundColor: themeColors.background }]}
+      contentContainerStyle={styles.contentContainer}
+      keyboardShouldPersistTaps="handled"
+    >
+      <View style={[styles.section, { backgroundColor: themeColors.surface }]}>
+        <Text style={[styles.sectionTitle, { color: themeColors.textPrimary }]}>
+          {t('backup.title')}
+        </Text>
+
+        {step === 'intro' && (
+          <>
+            <Text style={[styles.sectionHint, { color: themeColors.textSecondary }]}>
+              {t('backup.intro')}
+            </Text>
+            <View style={styles.buttonContainer}>
+              <Button
+                title={t('backup.start')}
+                onPress={handleStart}
+                accessibilityHint={t('backup.intro')}
+              />
+            </View>
+          </>
+        )}
+
+        {(step === 'create' || step === 'confirm') && (
+          <>
+            <Text style={[styles.sectionHint, { color: themeColors.textSecondary }]}>
+              {step === 'create' ? t('backup.createPin') : t('backup.confirmPin')}
+            </Text>
+            <View style={styles.pinContainer}>
+              <PinInput
+                key={step}
+                value={step === 'create' ? pin : confirmPin}
+                onChange={handlePinChange}
+                length={PIN_LENGTH}
+                error={pinError}
+                autoFocus={true}
+                accessibilityLabel={step === 'create' ? t('backup.createPin') : t('backup.confirmPin')}
+              />
+            </View>
+            {pinError && (
+              <Text style={[styles.errorText, { color: themeColors.error }]}>
+                {t('onboarding.pinMismatch')}
+              </Text>
+            )}
+            <View style={styles.buttonContainer}>
+              <Button
+                title={t('common.cancel')}
+                onPress={reset}
+                variant="secondary"
+              />
+            </View>
+          </>
+        )}
+
+        {step === 'working' && (
+          <View style={styles.progressContainer} accessibilityLiveRegion="polite">
+            <Text style={[styles.sectionHint, { color: themeColors.textSecondary }]}>
+              {t('backup.working', { percent: Math.round(progress * 100) })}
+            </Text>
+            <View style={[styles.progressTrack, { backgroundColor: themeColors.border }]}>
+              <View
+                style={[
+                  styles.progressFill,
+                  { width: `${Math.round(progress * 100)}%`, backgroundColor: accentColor.primary },
+                ]}
+              />
+            </View>
+          </View>
+        )}
+
+        {step === 'done' && (
+          <>
+            <Text style={[styles.sectionHint, { color: themeColors.textSecondary }]}>
+              {t('backup.done')}
+            </Text>
+            <View style={styles.buttonContainer}>
+              <Button
+                title={t('backup.share')}
+                onPress={() => void handleShare()}
+                accessibilityHint={t('backup.shareHint')}
+              />
+            </View>
+          </>
+        )}
+      </View>
+
+      {/* Info text */}
+      <Text style={[styles.infoText, { color: themeColors.textSecondary }]}>
+        {t('backup.info')}
+      </Text>
+    </ScrollViewWithIndicator>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  contentContainer: {
+    padding: spacing.lg,
+  },
+  section: {
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.md,
+    marginBottom: spacing.lg,
+    overflow: 'hidden',
+  },
+  sectionTitle: {
+    ...typography.h3,
+    color: colors.textPrimary,
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.md,
+    paddingBottom: spacing.xs,
+  },
+  sectionHint: {
+    ...typography.body,
+    color: colors.textSecondary,
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.md,
+  },
+  pinContainer: {
+    alignItems: 'center',
+    paddingBottom: spacing.md,
+  },
+  errorText: {
+    ...typography.body,
+    textAlign: 'center',
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.md,
+  },
+  progressContainer: {
+    paddingBottom: spacing.md,
+  },
+  progressTrack: {
+    height: 12,
+    borderRadius: 6,
+    marginHorizontal: spacing.md,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+  },
+  buttonContainer: {
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.md,
+  },
+  infoText: {
+    ...typography.small,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    paddingHorizontal: spacing.lg,
+  },
+});
@@ -0,0 +1,427 @@
+/**
+ * CheckInSettingsScreen — Daily check-in for family
+ *
+ * Contains:
+ * - Check-in on/off
+ * - Time to check in before
+ * - Which emergency contacts are warned (first, then second)
+ * - Escalation delay to the second contact
+ * - Whether opening the app counts as a check-in
+ *
+ * Senior-inclusive design:
+ * - Large touch targets (60pt+)
+ * - Clear labels ABOVE controls
+ * - VoiceOver/TalkBack support
+ *
+ * @see services/checkIn.ts
+ */
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Switch,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useIsFocused } from '@react-navigation/native';
+
+import {
+  colors,
+  typography,
+  spacing,
+  touchTargets,
+  borderRadius,
+} from '@/theme';
+import { HapticTouchable } from '@/components/HapticTouchable';
+import { Icon, ScrollViewWithIndicator } from '@/components';
+import { useColors } from '@/contexts/ThemeContext';
+import { useAccentColor } from '@/hooks/useAccentColor';
+import { useFeedback } from '@/hooks/useFeedback';
+import { useVoiceFocusList } from '@/contexts/VoiceFocusContext';
+import { ServiceContainer } from '@/services/container';
+import { getContactDisplayName, type Contact } from '@/services/interfaces';
+import { getIceContacts } from '@/services/contacts';
+import {
+  checkInService,
+  DEFAULT_CHECK_IN_SETTINGS,
+  type CheckInSettings,
+} from '@/services/checkIn';
+
+// ============================================================
+// Constants
+// ============================================================
+
+const DEADLINE_OPTIONS = ['08:00', '09:00', '10:00', '11:00', '12:00'];
+const ESCALATION_OPTIONS = [30, 60, 120];
+const MAX_CONTACTS = 2;
+/** Badge for the first and second contact */
+const POSITION_KEYS = ['checkIn.settings.first', 'checkIn.settings.second'];
+
+// ============================================================
+// Toggle Row Component
+// ============================================================
+
+interface ToggleRowProps {
+  label: string;
+  hint?: string;
+  value: boolean;
+  onValueChange: (value: boolean) => void;
+  disabled?: boolean;
+  accentColor: string;
+  accentColorLight: string;
+  themeColors: ReturnType<typeof useColors>;
+}
+
+function ToggleRow({ label, hint, value, onValueChange, disabled, accentColor, accentColorLight, themeColors }: ToggleRowProps) {
+  return (
+    <View style={[styles.toggleContainer, { borderTopColor: themeColors.border }]}>
+      <View style={styles.toggleLabelContainer}>
+        <Text style={[styles.toggleLabel, { color: themeColors.textPrimary }]}>{label}</Text>
+        {hint && <Text style={[styles.toggleHint, { color: themeColors.textSecondary }]}>{hint}</Text>}
+      </View>
+      <Switch
+        value={value}
+        onValueChange={onValueChange}
+        disabled={disabled}
+        trackColor={{ false: themeColors.border, true: accentColorLight }}
+        thumbColor={value ? accentColor : themeColors.textTertiary}
+        accessibilityLabel={label}
+        accessibilityRole="switch"
+        accessibilityState={{ checked: value, disabled }}
+      />
+    </View>
+  );
+}
+
+// ============================================================
+// Option Row Component
+// ============================================================
+
+interface OptionRowProps {
+  label: string;
+  isSelected: boolean;
+  badge?: string;
+  onPress: () => void;
+  accessibilityRole: 'radio' | 'checkbox';
+  accentColor: string;
+  accentColorLight: string;
+  themeColors: ReturnType<typeof useColors>;
+}
+
+function OptionRow({ label, isSelected, badge, onPress, accessibilityRole, accentColor, accentColorLight, themeColors }: OptionRowProps) {
+  return (
+    <HapticTouchable
+      style={[
+        styles.option,
+        { borderColor: themeColors.border, backgroundColor: themeColors.surface },
+        isSelected && { borderColor: accentColor, backgroundColor: accentColorLight + '20' },
+      ]}
+      onPress={onPress}
+      accessibilityRole={accessibilityRole}
+      accessibilityState={accessibilityRole === 'radio' ? { selected: isSelected } : { checked: isSelected }}
+      accessibilityLabel={badge ? `${label}, ${badge}` : label}
+    >
+      <Text
+        style={[
+          styles.optionText,
+          { color: themeColors.textPrimary },
+          isSelected && { color: accentColor, fontWeight: '700' },
+        ]}
+        numberOfLines={1}
+      >
+        {label}
+      </Text>
+      {badge && (
+        <Text style={[styles.optionBadge, { color: accentColor }]}>{badge}</Text>
+      )}
+      {isSelected && !badge && <Icon name="check" size={20} color={accentColor} />}
+    </HapticTouchable>
+  );
+}
+
+// ============================================================
+// Main Component
+// ============================================================
+
+export function CheckInSettingsScreen() {
+  const { t } = useTranslation();
+  const isFocused = useIsFocused();
+  const { accentColor } = useAccentColor();
+  const themeColors = useColors();
+  const { triggerFeedback } = useFeedback();
+
+  const [settings, setSettings] = useState<CheckInSettings>(DEFAULT_CHECK_IN_SETTINGS);
+  const [iceContacts, setIceContacts] = useState<Contact[]>([]);
+
+  useEffect(() => {
+    void checkInService.getSettings().then(setSettings);
+    ServiceContainer.database.getContactsOnce()
+      .then(contacts => setIceContacts(getIceContacts(contacts)))
+      .catch(error => console.warn('[CheckInSettings] Failed to load contacts:', error));
+  }, []);
+
+  const update = useCallback((changes: Partial<CheckInSettings>) => {
+    void triggerFeedback('tap');
+    setSettings(prev => ({ ...prev, ...changes }));
+    checkInService.updateSettings(changes).catch(error => {
+      console.error('[CheckInSettings] Failed to save settings:', error);
+    });
+  }, [triggerFeedback]);
+
+  // Contacts that are no longer ICE contacts are dropped
+  const selectedJids = useMemo(
+    () => settings.contactJids.filter(jid => iceContacts.some(c => c.jid === jid)),
+    [settings.contactJids, iceContacts],
+  );
+
+  const handleToggleEnabled = useCallback((enabled: boolean) => {
+    update({
+      enabled,
+      // Start with the first emergency contact so the feature works right away
+      contactJids: enabled && selectedJids.length === 0 && iceContacts.length > 0
+        ? [iceContacts[0].jid]
+        : selectedJids,
+    });
+  }, [update, selectedJids, iceContacts]);
+
+  const handleToggleContact = useCallback((jid: string) => {
+    if (selectedJids.includes(jid)) {
+      update({ contactJids: selectedJids.filter(j => j !== jid) });
+    } else if (selectedJids.length < MAX_CONTACTS) {
+      update({ contactJids: [...selectedJids, jid] });
+    }
+  }, [update, selectedJids]);
+
+  // Voice focus items
+  const voiceFocusItems = useMemo(() => {
+    if (!isFocused) return [];
+    return [
+      {
+        id: 'check-in-enabled',
+        label: t('checkIn.settings.enabled'),
+        index: 0,
+        onSelect: () => handleToggleEnabled(!settings.enabled),
+      },
+    ];
+  }, [isFocused, t, settings.enabled, handleToggleEnabled]);
+
+  const { scrollRef } = useVoiceFocusList('check-in-settings-list', voiceFocusItems);
+
+  const hasIceContacts = iceContacts.length > 0;
+
+  return (
+    <ScrollViewWithIndicator
+      ref={scrollRef}
+      style={[styles.container, { backgroundColor: themeColors.background }]}
+      contentContainerStyle={styles.contentContainer}
+    >
+      <View style={[styles.section, { backgroundColor: themeColors.surface }]}>
+        <Text style={[styles.sectionTitle, { color: themeColors.textPrimary }]}>
+          {t('checkIn.settings.title')}
+        </Text>
+        <Text style={[styles.sectionHint, { color: themeColors.textSecondary }]}>
+          {t('checkIn.settings.intro')}
+        </Text>
+
+        <ToggleRow
+          label={t('checkIn.settings.enabled')}
+          hint={hasIceContacts ? undefined : t('checkIn.settings.noIceContacts')}
+          value={settings.enabled}
+          onValueChange={handleToggleEnabled}
+          disabled={!hasIceContacts && !settings.enabled}
+          accentColor={accentColor.primary}
+          accentColorLight={accentColor.primaryLight}
+          themeColors={themeColors}
+        />
+      </View>
+
+      {settings.enabled && (
+        <>
+          {/* Deadline */}
+          <View style={[styles.section, { backgroundColor: themeColors.surface }]}>
+            <Text style={[styles.sectionTitle, { color: themeColors.textPrimary }]}>
+              {t('checkIn.settings.deadline')}
+            </Text>
+            <Text style={[styles.sectionHint, { color: themeColors.textSecondary }]}>
+              {t('checkIn.settings.deadlineHint')}
+            </Text>
+            <View style={styles.options}>
+              {DEADLINE_OPTIONS.map(time => (
+                <OptionRow
+                  key={time}
+                  label={time}
+                  isSelected={settings.deadline === time}
+                  onPress={() => update({ deadline: time })}
+                  accessibilityRole="radio"
+                  accentColor={accentColor.primary}
+                  accentColorLight={accentColor.primaryLight}
+                  themeColors={themeColors}
+                />
+              ))}
+            </View>
+          </View>
+
+          {/* Contacts */}
+          <View style={[styles.section, { backgroundColor: themeColors.surface }]}>
+            <Text style={[styles.sectionTitle, { color: themeColors.textPrimary }]}>
+              {t('checkIn.settings.contacts')}
+            </Text>
+            <Text style={[styles.sectionHint, { color: themeColors.textSecondary }]}>
+              {t('checkIn.settings.contactsHint')}
+            </Text>
+            <View style={styles.options}>
+              {iceContacts.map(contact => {
+                const position = selectedJids.indexOf(contact.jid);
+                return (
+                  <OptionRow
+                    key={contact.jid}
+                    label={getContactDisplayName(contact)}
+                    isSelected={position >= 0}
+                    badge={position >= 0 ? t(POSITION_KEYS[position]) : undefined}
+                    onPress={() => handleToggleContact(contact.jid)}
+                    accessibilityRole="checkbox"
+                    accentColor={accentColor.primary}
+                    accentColorLight={accentColor.primaryLight}
+                    themeColors={themeColors}
+                  />
+                );
+              })}
+            </View>
+          </View>
+
+          {/* Escalation */}
+          {selectedJids.length > 1 && (
+            <View style={[styles.section, { backgroundColor: themeColors.surface }]}>
+              <Text style={[styles.sectionTitle, { color: themeColors.textPrimary }]}>
+                {t('checkIn.settings.escalation')}
+              </Text>
+              <Text style={[styles.sectionHint, { color: themeColors.textSecondary }]}>
+                {t('checkIn.settings.escalationHint')}
+              </Text>
+              <View style={styles.options}>
+                {ESCALATION_OPTIONS.map(minutes => (
+                  <OptionRow
+                    key={minutes}
+                    label={t('checkIn.settings.afterMinutes', { minutes })}
+                    isSelected={settings.escalateAfterMinutes === minutes}
+                    onPress={() => update({ escalateAfterMinutes: minutes })}
+                    accessibilityRole="radio"
+                    accentColor={accentColor.primary}
+                    accentColorLight={accentColor.primaryLight}
+                    themeColors={themeColors}
+                  />
+                ))}
+              </View>
+            </View>
+          )}
+
+          {/* App activity */}
+          <View style={[styles.section, { backgroundColor: themeColors.surface }]}>
+            <ToggleRow
+              label={t('checkIn.settings.countAppActivity')}
+              hint={t('checkIn.settings.countAppActivityHint')}
+              value={settings.countAppActivity}
+              onValueChange={countAppActivity => update({ countAppActivity })}
+              accentColor={accentColor.primary}
+              accentColorLight={accentColor.primaryLight}
+              themeColors={themeColors}
+            />
+          </View>
+        </>
+      )}
+
+      {/* Info text */}
+      <Text style={[styles.infoText, { color: themeColors.textSecondary }]}>
+        {t('checkIn.settings.info')}
+      </Text>
+    </ScrollViewWithIndicator>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  contentContainer: {
+    padding: spacing.lg,
+  },
+  section: {
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.md,
+    marginBottom: spacing.lg,
+    overflow: 'hidden',
+  },
+  sectionTitle: {
+    ...typography.h3,
+    color: colors.textPrimary,
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.md,
+    paddingBottom: spacing.xs,
+  },
+  sectionHint: {
+    ...typography.body,
+    color: colors.textSecondary,
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.md,
+  },
+  // Toggle styles
+  toggleContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    minHeight: touchTargets.comfortable,
+  },
+  toggleLabelContainer: {
+    flex: 1,
+    marginRight: spacing.md,
+  },
+  toggleLabel: {
+    ...typography.body,
+    color: colors.textPrimary,
+    fontWeight: '700',
+  },
+  toggleHint: {
+    ...typography.small,
+    color: colors.textSecondary,
+    marginTop: spacing.xs,
+  },
+  // Option styles
+  options: {
+    gap: spacing.sm,
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.md,
+  },
+  option: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+    borderRadius: borderRadius.md,
+    borderWidth: 2,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+    minHeight: touchTargets.comfortable,
+  },
+  optionText: {
+    ...typography.body,
+    color: colors.textPrimary,
+    flex: 1,
+  },
+  optionBadge: {
+    ...typography.body,
+    fontWeight: '700',
+  },
+  infoText: {
+    ...typography.small,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    paddingHorizontal: spacing.lg,
+  },
+});
@@ -0,0 +1,290 @@
+/**
+ * LinkedDevicesScreen — Devices linked to this account
+ *
+ * Contains:
+ * - All devices that share this account (this device first)
+ * - Last sync per device
+ * - Revoke a lost or old device (it stops receiving messages)
+ * - Link a new device (shows the QR code)
+ *
+ * Senior-inclusive design:
+ * - Large touch targets (60pt+)
+ * - Confirmation before revoking
+ * - VoiceOver/TalkBack support
+ *
+ * @see services/deviceSync.ts
+ * @see .claude/skills/accessibility-specialist/SKILL.md
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Alert,
+} from 'react-native';
+import { ScrollViewWithIndicator, Button } from '@/components';
+import { useTranslation } from 'react-i18next';
+import { useIsFocused, useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+
+import {
+  colors,
+  typography,
+  spacing,
+  touchTargets,
+  borderRadius,
+} from '@/theme';
+import { useFeedback } from '@/hooks/useFeedback';
+import { useVoiceFocusList } from '@/contexts/VoiceFocusContext';
+import { useColors } from '@/contexts/ThemeContext';
+import { deviceSyncService } from '@/services/deviceSync';
+import type { LinkedDevice } from '@/services/interfaces';
+import type { SettingsStackParams } from '@/navigation';
+
+type NavigationProp = NativeStackNavigationProp<SettingsStackParams, 'LinkedDevices'>;
+
+function formatDate(timestamp: number, language: string): string {
+  return new Date(timestamp).toLocaleString(language, {
+    day: 'numeric',
+    month: 'long',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function LinkedDevicesScreen() {
+  const { t, i18n } = useTranslation();
+  const isFocused = useIsFocused();
+  const navigation = useNavigation<NavigationProp>();
+  const themeColors = useColors();
+  const { triggerFeedback } = useFeedback();
+
+  const [devices, setDevices] = useState<LinkedDevice[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Load devices and follow changes (link, revoke, last seen)
+  useEffect(() => {
+    const loadDevices = async () => {
+      try {
+        setDevices(await deviceSyncService.getDevices());
+      } catch (error) {
+        console.warn('[LinkedDevices] Failed to load devices:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    void loadDevices();
+    return deviceSyncService.onDevicesChanged(setDevices);
+  }, []);
+
+  const confirmRevoke = useCallback(async (device: LinkedDevice) => {
+    try {
+      await deviceSyncService.revokeDevice(device.deviceId);
+      void triggerFeedback('success');
+    } catch (error) {
+      console.warn('[LinkedDevices] Failed to revoke device:', error);
+      Alert.alert(t('linkedDevices.revokeTitle'), t('linkedDevices.revokeFailed'));
+    }
+  }, [t, triggerFeedback]);
+
+  const handleRevoke = useCallback((device: LinkedDevice) => {
+    void triggerFeedback('tap');
+    Alert.alert(
+      t('linkedDevices.revokeTitle'),
+      t('linkedDevices.revokeMessage', { device: device.name }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('linkedDevices.revokeButton'),
+          style: 'destructive',
+          onPress: () => void confirmRevoke(device),
+        },
+      ]
+    );
+  }, [t, triggerFeedback, confirmRevoke]);
+
+  // "This device", revoked date, last sync or link date
+  const describeDevice = useCallback((device: LinkedDevice): string => {
+    if (device.isCurrent) return t('linkedDevices.thisDevice');
+    if (device.revokedAt) {
+      return t('linkedDevices.revokedOn', { date: formatDate(device.revokedAt, i18n.language) });
+    }
+    if (device.lastSeenAt) {
+      return t('linkedDevices.lastSeen', { date: formatDate(device.lastSeenAt, i18n.language) });
+    }
+    return t('linkedDevices.linkedOn', { date: formatDate(device.linkedAt, i18n.language) });
+  }, [t, i18n.language]);
+
+  const handleLinkNew = useCallback(() => {
+    void triggerFeedback('tap');
+    navigation.navigate('DeviceLinkShowQR');
+  }, [navigation, triggerFeedback]);
+
+  // Voice focus items: revoke buttons of active devices, then "link new device"
+  const voiceFocusItems = useMemo(() => {
+    if (!isFocused) return [];
+
+    const revocable = devices.filter(d => !d.isCurrent && !d.revokedAt);
+    return [
+      ...revocable.map((device, index) => ({
+        id: `revoke-${device.deviceId}`,
+        label: t('linkedDevices.revokeDevice', { device: device.name }),
+        index,
+        onSelect: () => handleRevoke(device),
+      })),
+      {
+        id: 'link-new',
+        label: t('linkedDevices.linkNew'),
+        index: revocable.length,
+        onSelect: handleLinkNew,
+      },
+    ];
+  }, [isFocused, t, devices, handleRevoke, handleLinkNew]);
+
+  const { scrollRef } = useVoiceFocusList(
+    'linked-devices-list',
+    voiceFocusItems
+  );
+
+  if (isLoading) {
+    return (
+      <View style={[styles.container, { backgroundColor: themeColors.background }]}>
+        <View style={styles.loadingContainer}>
+          <Text style={[styles.loadingText, { color: themeColors.textSecondary }]}>
+            {t('common.loading')}
+          </Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollViewWithIndicator
+      ref={scrollRef}
+      style={[styles.container, { backgroundColor: themeColors.background }]}
+      contentContainerStyle={styles.contentContainer}
+    >
+      <View style={[styles.section, { backgroundColor: themeColors.surface }]}>
+        <Text style={[styles.sectionTitle, { color: themeColors.textPrimary }]}>
+          {t('linkedDevices.title')}
+        </Text>
+        <Text style={[styles.sectionHint, { color: themeColors.textSecondary }]}>
+          {t('linkedDevices.hint')}
+        </Text>
+
+        {devices.map(device => (
+          <View key={device.deviceId} style={styles.deviceRow}>
+            <View style={styles.deviceLabelContainer}>
+              <Text
+                style={[
+                  styles.deviceName,
+                  { color: device.revokedAt ? themeColors.textSecondary : themeColors.textPrimary },
+                ]}
+              >
+                {device.name}
+              </Text>
+              <Text style={[styles.deviceDetail, { color: themeColors.textSecondary }]}>
+                {describeDevice(device)}
+              </Text>
+            </View>
+
+            {!device.isCurrent && !device.revokedAt && (
+              <Button
+                title={t('linkedDevices.revokeButton')}
+                onPress={() => handleRevoke(device)}
+                variant="secondary"
+                accessibilityHint={t('linkedDevices.revokeDevice', { device: device.name })}
+              />
+            )}
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.buttonContainer}>
+        <Button
+          title={t('linkedDevices.linkNew')}
+          onPress={handleLinkNew}
+          accessibilityHint={t('deviceLink.showQRSubtitle')}
+        />
+      </View>
+
+      {/* Info text */}
+      <Text style={[styles.infoText, { color: themeColors.textSecondary }]}>
+        {t('linkedDevices.info')}
+      </Text>
+    </ScrollViewWithIndicator>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  contentContainer: {
+    padding: spacing.lg,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    ...typography.body,
+    color: colors.textSecondary,
+  },
+  section: {
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.md,
+    marginBottom: spacing.lg,
+    overflow: 'hidden',
+  },
+  sectionTitle: {
+    ...typography.h3,
+    color: colors.textPrimary,
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.md,
+    paddingBottom: spacing.xs,
+  },
+  sectionHint: {
+    ...typography.small,
+    color: colors.textSecondary,
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.md,
+  },
+  deviceRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    minHeight: touchTargets.comfortable,
+  },
+  deviceLabelContainer: {
+    flex: 1,
+    marginRight: spacing.md,
+  },
+  deviceName: {
+    ...typography.body,
+    color: colors.textPrimary,
+    fontWeight: '700',
+  },
+  deviceDetail: {
+    ...typography.small,
+    color: colors.textSecondary,
+    marginTop: spacing.xs,
+  },
+  buttonContainer: {
+    marginBottom: spacing.lg,
+  },
+  infoText: {
+    ...typography.small,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    paddingHorizontal: spacing.lg,
+  },
+});
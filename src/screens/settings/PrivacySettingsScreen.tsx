@@ -3,6 +3,7 @@
  *
  * Contains:
  * - External links preference toggle (open in system browser)
+ * - Database key rotation (applied on next app start)
  *
  * Senior-inclusive design:
  * - Large touch targets (60pt+)
@@ -19,8 +20,9 @@ import {
   Text,
   StyleSheet,
   Switch,
+  Alert,
 } from 'react-native';
-import { ScrollViewWithIndicator } from '@/components';
+import { ScrollViewWithIndicator, Button } from '@/components';
 import { useTranslation } from 'react-i18next';
 import { useIsFocused } from '@react-navigation/native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
@@ -36,6 +38,7 @@ import { useAccentColor } from '@/hooks/useAccentColor';
 import { useFeedback } from '@/hooks/useFeedback';
 import { useVoiceFocusList } from '@/contexts/VoiceFocusContext';
 import { useColors } from '@/contexts/ThemeContext';
+import { scheduleKeyRotation, isKeyRotationPending } from '@/services/keyManager';
 
 // AsyncStorage key — same as used in ArticleWebViewer
 const ALWAYS_OPEN_EXTERNAL_LINKS_KEY = 'article_always_open_external_links';
@@ -85,12 +88,16 @@ export function PrivacySettingsScreen() {
   const [alwaysOpenExternalLinks, setAlwaysOpenExternalLinks] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
 
+  // Database key rotation state (scheduled rotations run on next app start)
+  const [keyRotationPending, setKeyRotationPending] = useState(false);
+
   // Load preference from AsyncStorage
   useEffect(() => {
     const loadPreference = async () => {
       try {
         const value = await AsyncStorage.getItem(ALWAYS_OPEN_EXTERNAL_LINKS_KEY);
         setAlwaysOpenExternalLinks(value === 'true');
+        setKeyRotationPending(await isKeyRotationPending());
       } catch (error) {
         console.warn('[PrivacySettings] Failed to load preference:', error);
       } finally {
@@ -115,6 +122,33 @@ export function PrivacySettingsScreen() {
     [triggerFeedback]
   );
 
+  // Schedule database key rotation — the databases are re-keyed on next start
+  const confirmRotateKey = useCallback(async () => {
+    try {
+      await scheduleKeyRotation();
+      setKeyRotationPending(true);
+      void triggerFeedback('success');
+    } catch (error) {
+      console.warn('[PrivacySettings] Failed to schedule key rotation:', error);
+      Alert.alert(t('privacySettings.keyRotationTitle'), t('privacySettings.keyRotationFailed'));
+    }
+  }, [t, triggerFeedback]);
+
+  const handleRotateKey = useCallback(() => {
+    void triggerFeedback('tap');
+    Alert.alert(
+      t('privacySettings.keyRotationConfirmTitle'),
+      t('privacySettings.keyRotationConfirmMessage'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('privacySettings.keyRotationButton'),
+          onPress: () => void confirmRotateKey(),
+        },
+      ]
+    );
+  }, [t, triggerFeedback, confirmRotateKey]);
+
   // Voice focus items for voice navigation
   const voiceFocusItems = useMemo(() => {
     if (!isFocused) return [];
@@ -126,8 +160,18 @@ export function PrivacySettingsScreen() {
         index: 0,
         onSelect: () => void handleExternalLinksToggle(!alwaysOpenExternalLinks),
       },
+      ...(keyRotationPending
+        ? []
+        : [
+            {
+              id: 'key-rotation',
+              label: t('privacySettings.keyRotationButton'),
+              index: 1,
+              onSelect: handleRotateKey,
+            },
+          ]),
     ];
-  }, [isFocused, t, alwaysOpenExternalLinks, handleExternalLinksToggle]);
+  }, [isFocused, t, alwaysOpenExternalLinks, handleExternalLinksToggle, keyRotationPending, handleRotateKey]);
 
   const { scrollRef } = useVoiceFocusList(
     'privacy-settings-list',
@@ -171,6 +215,29 @@ export function PrivacySettingsScreen() {
         />
       </View>
 
+      {/* Database key section */}
+      <View style={[styles.section, { backgroundColor: themeColors.surface }]}>
+        <Text style={[styles.sectionTitle, { color: themeColors.textPrimary }]}>
+          {t('privacySettings.keyRotationTitle')}
+        </Text>
+        <Text style={[styles.sectionHint, { color: themeColors.textSecondary }]}>
+          {keyRotationPending
+            ? t('privacySettings.keyRotationPending')
+            : t('privacySettings.keyRotationHint')}
+        </Text>
+
+        {!keyRotationPending && (
+          <View style={styles.buttonContainer}>
+            <Button
+              title={t('privacySettings.keyRotationButton')}
+              onPress={handleRotateKey}
+              variant="secondary"
+              accessibilityHint={t('privacySettings.keyRotationHint')}
+            />
+          </View>
+        )}
+      </View>
+
       {/* Info text */}
       <Text style={[styles.infoText, { color: themeColors.textSecondary }]}>
         {t('privacySettings.info')}
@@ -240,6 +307,10 @@ const styles = StyleSheet.create({
     color: colors.textSecondary,
     marginTop: spacing.xs,
   },
+  buttonContainer: {
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.md,
+  },
   infoText: {
     ...typography.small,
     color: colors.textSecondary,
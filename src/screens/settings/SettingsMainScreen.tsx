@@ -125,6 +125,7 @@ export function SettingsMainScreen() {
   const settingsItems = useMemo(() => [
     { id: 'profile', label: t('settings.profile'), onSelect: () => { void triggerFeedback('tap'); navigation.navigate('ProfileSettings'); } },
     { id: 'privacy', label: t('privacySettings.title'), onSelect: () => { void triggerFeedback('tap'); navigation.navigate('PrivacySettings'); } },
+    { id: 'check-in', label: t('checkIn.settings.title'), onSelect: () => { void triggerFeedback('tap'); navigation.navigate('CheckInSettings'); } },
     { id: 'accessibility', label: t('settings.accessibility'), onSelect: () => { void triggerFeedback('tap'); navigation.navigate('AccessibilitySettings'); } },
     { id: 'appearance', label: t('appearance.title'), onSelect: () => { void triggerFeedback('tap'); navigation.navigate('AppearanceSettings'); } },
     { id: 'voice', label: t('voiceSettings.title'), onSelect: () => { void triggerFeedback('tap'); navigation.navigate('VoiceSettings'); } },
@@ -137,7 +138,7 @@ export function SettingsMainScreen() {
       setNotification({ type: 'info', title: t('common.comingSoon'), message: t('settings.notificationsComingSoon') });
     }},
     { id: 'backup', label: t('settings.backup'), onSelect: () => { void triggerFeedback('tap'); navigation.navigate('BackupSettings'); } },
-    { id: 'device-link', label: t('settings.deviceLink'), onSelect: () => { void triggerFeedback('tap'); navigation.navigate('DeviceLinkShowQR'); } },
+    { id: 'device-link', label: t('settings.deviceLink'), onSelect: () => { void triggerFeedback('tap'); navigation.navigate('LinkedDevices'); } },
   ], [t, navigation, triggerFeedback]);
 
   // Voice Focus: Register settings items for voice navigation
@@ -299,18 +300,21 @@ export function SettingsMainScreen() {
         <VoiceFocusable id="privacy" label={t('privacySettings.title')} index={1} onSelect={() => navigation.navigate('PrivacySettings')}>
           <SubsectionButton icon="lock" label={t('privacySettings.title')} onPress={() => navigation.navigate('PrivacySettings')} accessibilityHint={t('privacySettings.screenHint')} iconColor={accentColor.primary} focused={isItemFocused('privacy')} focusStyle={getFocusStyle()} themeColors={themeColors} labelStyle={labelStyle} />
         </VoiceFocusable>
+        <VoiceFocusable id="check-in" label={t('checkIn.settings.title')} index={2} onSelect={() => navigation.navigate('CheckInSettings')}>
+          <SubsectionButton icon="heart" label={t('checkIn.settings.title')} onPress={() => navigation.navigate('CheckInSettings')} accessibilityHint={t('checkIn.settings.screenHint')} iconColor={accentColor.primary} focused={isItemFocused('check-in')} focusStyle={getFocusStyle()} themeColors={themeColors} labelStyle={labelStyle} />
+        </VoiceFocusable>
       </View>
 
       {/* ── Section 2: Weergave ────────────────── */}
       <Text style={[styles.sectionHeader, { color: labelStyle.color, fontWeight: labelStyle.fontWeight, fontStyle: labelStyle.fontStyle }]}>{t('settings.sections.display')}</Text>
       <View style={[styles.subsectionsContainer, { backgroundColor: themeColors.surface }]}>
-        <VoiceFocusable id="appearance" label={t('appearance.title')} index={2} onSelect={() => navigation.navigate('AppearanceSettings')}>
+        <VoiceFocusable id="appearance" label={t('appearance.title')} index={3} onSelect={() => navigation.navigate('AppearanceSettings')}>
           <SubsectionButton icon="sun" label={t('appearance.title')} onPress={() => navigation.navigate('AppearanceSettings')} accessibilityHint={t('appearance.theme.hint')} iconColor={accentColor.primary} focused={isItemFocused('appearance')} focusStyle={getFocusStyle()} themeColors={themeColors} labelStyle={labelStyle} />
         </VoiceFocusable>
-        <VoiceFocusable id="accessibility" label={t('settings.accessibility')} index={3} onSelect={() => navigation.navigate('AccessibilitySettings')}>
+        <VoiceFocusable id="accessibility" label={t('settings.accessibility')} index={4} onSelect={() => navigation.navigate('AccessibilitySettings')}>
           <SubsectionButton icon="accessibility" label={t('settings.accessibility')} onPress={() => navigation.navigate('AccessibilitySettings')} accessibilityHint={t('accessibilitySettings.screenHint')} iconColor={accentColor.primary} focused={isItemFocused('accessibility')} focusStyle={getFocusStyle()} themeColors={themeColors} labelStyle={labelStyle} />
         </VoiceFocusable>
-        <VoiceFocusable id="voice" label={t('voiceSettings.title')} index={4} onSelect={() => navigation.navigate('VoiceSettings')}>
+        <VoiceFocusable id="voice" label={t('voiceSettings.title')} index={5} onSelect={() => navigation.navigate('VoiceSettings')}>
           <SubsectionButton icon="mic" label={t('voiceSettings.title')} onPress={() => navigation.navigate('VoiceSettings')} accessibilityHint={t('voiceSettings.enableVoiceControlHint')} iconColor={accentColor.primary} focused={isItemFocused('voice')} focusStyle={getFocusStyle()} themeColors={themeColors} labelStyle={labelStyle} />
         </VoiceFocusable>
       </View>
@@ -318,19 +322,19 @@ export function SettingsMainScreen() {
       {/* ── Section 3: Apps & Diensten ────────────────── */}
       <Text style={[styles.sectionHeader, { color: labelStyle.color, fontWeight: labelStyle.fontWeight, fontStyle: labelStyle.fontStyle }]}>{t('settings.sections.apps')}</Text>
       <View style={[styles.subsectionsContainer, { backgroundColor: themeColors.surface }]}>
-        <VoiceFocusable id="modules" label={t('settings.modules.title')} index={5} onSelect={() => navigation.navigate('ModulesSettings')}>
+        <VoiceFocusable id="modules" label={t('settings.modules.title')} index={6} onSelect={() => navigation.navigate('ModulesSettings')}>
           <SubsectionButton icon="news" label={t('settings.modules.title')} onPress={() => navigation.navigate('ModulesSettings')} accessibilityHint={t('settings.modules.settingsHint')} iconColor={accentColor.primary} focused={isItemFocused('modules')} focusStyle={getFocusStyle()} themeColors={themeColors} labelStyle={labelStyle} />
         </VoiceFocusable>
-        <VoiceFocusable id="call-settings" label={t('callSettings.title')} index={6} onSelect={() => navigation.navigate('CallSettings')}>
+        <VoiceFocusable id="call-settings" label={t('callSettings.title')} index={7} onSelect={() => navigation.navigate('CallSettings')}>
           <SubsectionButton icon="call" label={t('callSettings.title')} onPress={() => navigation.navigate('CallSettings')} accessibilityHint={t('callSettings.screenHint')} iconColor={accentColor.primary} focused={isItemFocused('call-settings')} focusStyle={getFocusStyle()} themeColors={themeColors} labelStyle={labelStyle} />
         </VoiceFocusable>
-        <VoiceFocusable id="mail-settings" label={t('mailSettings.title')} index={7} onSelect={() => navigation.navigate('MailSettings')}>
+        <VoiceFocusable id="mail-settings" label={t('mailSettings.title')} index={8} onSelect={() => navigation.navigate('MailSettings')}>
           <SubsectionButton icon="mail" label={t('mailSettings.title')} onPress={() => navigation.navigate('MailSettings')} accessibilityHint={t('mailSettings.screenHint')} iconColor={accentColor.primary} focused={isItemFocused('mail-settings')} focusStyle={getFocusStyle()} themeColors={themeColors} labelStyle={labelStyle} />
         </VoiceFocusable>
-        <VoiceFocusable id="apple-music-settings" label={t('appleMusicSettings.title')} index={8} onSelect={() => navigation.navigate('AppleMusicSettings')}>
+        <VoiceFocusable id="apple-music-settings" label={t('appleMusicSettings.title')} index={9} onSelect={() => navigation.navigate('AppleMusicSettings')}>
           <SubsectionButton icon="musical-notes" label={t('appleMusicSettings.title')} onPress={() => navigation.navigate('AppleMusicSettings')} accessibilityHint={t('appleMusicSettings.screenHint')} iconColor={accentColor.primary} focused={isItemFocused('apple-music-settings')} focusStyle={getFocusStyle()} themeColors={themeColors} labelStyle={labelStyle} />
         </VoiceFocusable>
-        <VoiceFocusable id="notifications" label={t('settings.notifications')} index={9} onSelect={() => { setNotification({ type: 'info', title: t('common.comingSoon'), message: t('settings.notificationsComingSoon') }); }}>
+        <VoiceFocusable id="notifications" label={t('settings.notifications')} index={10} onSelect={() => { setNotification({ type: 'info', title: t('common.comingSoon'), message: t('settings.notificationsComingSoon') }); }}>
           <SubsectionButton icon="notifications" label={t('settings.notifications')} onPress={() => { setNotification({ type: 'info', title: t('common.comingSoon'), message: t('settings.notificationsComingSoon') }); }} accessibilityHint={t('settings.notificationsHint')} iconColor={accentColor.primary} focused={isItemFocused('notifications')} focusStyle={getFocusStyle()} themeColors={themeColors} labelStyle={labelStyle} />
         </VoiceFocusable>
       </View>
@@ -338,11 +342,11 @@ export function SettingsMainScreen() {
       {/* ── Section 4: Apparaat ────────────────── */}
       <Text style={[styles.sectionHeader, { color: labelStyle.color, fontWeight: labelStyle.fontWeight, fontStyle: labelStyle.fontStyle }]}>{t('settings.sections.device')}</Text>
       <View style={[styles.subsectionsContainer, { backgroundColor: themeColors.surface }]}>
-        <VoiceFocusable id="backup" label={t('settings.backup')} index={10} onSelect={() => navigation.navigate('BackupSettings')}>
+        <VoiceFocusable id="backup" label={t('settings.backup')} index={11} onSelect={() => navigation.navigate('BackupSettings')}>
           <SubsectionButton icon="backup" label={t('settings.backup')} onPress={() => navigation.navigate('BackupSettings')} accessibilityHint={t('settings.backupHint')} iconColor={accentColor.primary} focused={isItemFocused('backup')} focusStyle={getFocusStyle()} themeColors={themeColors} labelStyle={labelStyle} />
         </VoiceFocusable>
-        <VoiceFocusable id="device-link" label={t('settings.deviceLink')} index={11} onSelect={() => navigation.navigate('DeviceLinkShowQR')}>
-          <SubsectionButton icon="device" label={t('settings.deviceLink')} onPress={() => navigation.navigate('DeviceLinkShowQR')} accessibilityHint={t('deviceLink.showQRSubtitle')} iconColor={accentColor.primary} focused={isItemFocused('device-link')} focusStyle={getFocusStyle()} themeColors={themeColors} labelStyle={labelStyle} />
+        <VoiceFocusable id="device-link" label={t('settings.deviceLink')} index={12} onSelect={() => navigation.navigate('LinkedDevices')}>
+          <SubsectionButton icon="device" label={t('settings.deviceLink')} onPress={() => navigation.navigate('LinkedDevices')} accessibilityHint={t('linkedDevices.hint')} iconColor={accentColor.primary} focused={isItemFocused('device-link')} focusStyle={getFocusStyle()} themeColors={themeColors} labelStyle={labelStyle} />
         </VoiceFocusable>
       </View>
 
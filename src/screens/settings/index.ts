@@ -5,10 +5,13 @@
 export { SettingsMainScreen } from './SettingsMainScreen';
 export { ProfileSettingsScreen } from './ProfileSettingsScreen';
 export { PrivacySettingsScreen } from './PrivacySettingsScreen';
+export { LinkedDevicesScreen } from './LinkedDevicesScreen';
+export { BackupSettingsScreen } from './BackupSettingsScreen';
 export { AccessibilitySettingsScreen } from './AccessibilitySettingsScreen';
 export { VoiceSettingsScreen } from './VoiceSettingsScreen';
 export { ModulesSettingsScreen } from './ModulesSettingsScreen';
 export { CallSettingsScreen } from './CallSettingsScreen';
+export { CheckInSettingsScreen } from './CheckInSettingsScreen';
 export { ComplianceReportScreen } from './ComplianceReportScreen';
 export { AppearanceSettingsScreen } from './AppearanceSettingsScreen';
 export { MailSettingsScreen } from './MailSettingsScreen';
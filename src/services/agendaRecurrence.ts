@@ -0,0 +1,611 @@
+/**
+ * agendaRecurrence — Local recurrence engine for agenda items (RFC 5545 RRULE)
+ *
+ * Agenda items repeat on whole days; the time of day is stored separately
+ * (time / times). The engine therefore expands rules on calendar dates and
+ * ignores BYHOUR/BYMINUTE/BYSECOND.
+ *
+ * Supported: FREQ=DAILY|WEEKLY|MONTHLY|YEARLY, INTERVAL, COUNT, UNTIL,
+ * BYDAY (incl. "2TU", "-1FR"), BYMONTHDAY (incl. negative), BYMONTH,
+ * BYSETPOS and WKST. Dates that do not exist (31 April, 29 February in a
+ * common year) are skipped, as RFC 5545 requires — a monthly item from the
+ * 31st never drifts to the 1st of the next month.
+ *
+ * Rules are stored as RRULE strings per agenda item (agenda_items.rrule),
+ * so ICS import and export can pass them through unchanged. Legacy items
+ * only have repeat_type; ruleFromRepeatType() maps those.
+ *
+ * Day keys ("YYYY-MM-DD") are used for UNTIL and EXDATE so that a change
+ * of time zone or DST never moves an occurrence to another day.
+ *
+ * @see contexts/AgendaContext.tsx for timeline expansion
+ * @see services/mail/icsParser.ts for ICS RRULE/EXDATE import
+ */
+
+import type { RepeatType } from '@/constants/agendaCategories';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export type Weekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+export interface WeekdayRule {
+  weekday: Weekday;
+  /** 1 = first, 2 = second, -1 = last (MONTHLY/YEARLY only) */
+  nth?: number;
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  /** Every n-th day/week/month/year (>= 1) */
+  interval: number;
+  /** Total number of occurrences, counted from the start date */
+  count?: number;
+  /** Last possible day "YYYY-MM-DD" (inclusive) */
+  until?: string;
+  byDay?: WeekdayRule[];
+  /** Day of month, 1..31 or -1 (last day) .. -31 */
+  byMonthDay?: number[];
+  /** Month, 1..12 */
+  byMonth?: number[];
+  /** Pick positions from each period's set, 1 = first, -1 = last */
+  bySetPos?: number[];
+  /** First day of the week (WEEKLY with INTERVAL > 1) */
+  weekStart: Weekday;
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+/** Index matches Date.getDay() */
+export const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Protection against rules that never match (BYMONTHDAY=30;BYMONTH=2)
+const MAX_PERIODS = 50000;
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+// Parts that change the meaning of a rule but are not supported
+const UNSUPPORTED_PARTS = ['BYWEEKNO', 'BYYEARDAY'];
+
+// ============================================================
+// Calendar Helpers
+// ============================================================
+
+/** Days since 1970-01-01 for a calendar date (month is 0-based) */
+function toDayNumber(year: number, month: number, day: number): number {
+  return Math.round(Date.UTC(year, month, day) / DAY_MS);
+}
+
+function fromDayNumber(dayNumber: number): { year: number; month: number; day: number } {
+  const d = new Date(dayNumber * DAY_MS);
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth(), day: d.getUTCDate() };
+}
+
+/** 0 = Sunday, like Date.getDay() */
+function weekdayOf(dayNumber: number): number {
+  return (((dayNumber + 4) % 7) + 7) % 7; // 1970-01-01 was a Thursday
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/** Local calendar day of a timestamp */
+function localDayNumber(timestamp: number): number {
+  const d = new Date(timestamp);
+  return toDayNumber(d.getFullYear(), d.getMonth(), d.getDate());
+}
+
+/** Local midnight of a day number */
+function localMidnight(dayNumber: number): number {
+  const { year, month, day } = fromDayNumber(dayNumber);
+  return new Date(year, month, day).getTime();
+}
+
+/**
+ * Day key "YYYY-MM-DD" of a timestamp in local time.
+ */
+export function toDayKey(timestamp: number): string {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+function dayKeyToDayNumber(dayKey: string): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dayKey);
+  if (!match) return null;
+  return toDayNumber(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+// ============================================================
+// Parsing & Formatting
+// ============================================================
+
+function parseIntList(value: string, min: number, max: number): number[] | null {
+  const numbers = value.split(',').map(part => Number(part.trim()));
+  const valid = numbers.every(n => Number.isInteger(n) && n !== 0 && n >= min && n <= max);
+  return valid && numbers.length > 0 ? numbers : null;
+}
+
+/** UNTIL value (date or UTC/floating date-time) as local day key */
+function parseUntil(value: string): string | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  if (utc) {
+    return toDayKey(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds));
+  }
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Parse an RRULE value ("FREQ=WEEKLY;BYDAY=MO,TH", optionally prefixed
+ * with "RRULE:"). Returns null for rules the engine cannot expand
+ * faithfully (sub-daily frequencies, BYWEEKNO, BYYEARDAY).
+ */
+export function parseRRule(value: string): RecurrenceRule | null {
+  const source = value.trim().replace(/^RRULE:/i, '');
+  if (!source) return null;
+
+  const parts = new Map<string, string>();
+  for (const part of source.split(';')) {
+    const [name, partValue] = part.split('=');
+    if (name && partValue !== undefined) {
+      parts.set(name.trim().toUpperCase(), partValue.trim().toUpperCase());
+    }
+  }
+
+  const freq = parts.get('FREQ') as RecurrenceFrequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) return null;
+  if (UNSUPPORTED_PARTS.some(name => parts.has(name))) return null;
+
+  const rule: RecurrenceRule = { freq, interval: 1, weekStart: 'MO' };
+
+  const interval = parts.get('INTERVAL');
+  if (interval !== undefined) {
+    const n = Number(interval);
+    if (!Number.isInteger(n) || n < 1) return null;
+    rule.interval = n;
+  }
+
+  const count = parts.get('COUNT');
+  if (count !== undefined) {
+    const n = Number(count);
+    if (!Number.isInteger(n) || n < 1) return null;
+    rule.count = n;
+  }
+
+  const until = parts.get('UNTIL');
+  if (until !== undefined) {
+    const dayKey = parseUntil(until);
+    if (!dayKey) return null;
+    rule.until = dayKey;
+  }
+
+  const byDay = parts.get('BYDAY');
+  if (byDay !== undefined) {
+    const rules: WeekdayRule[] = [];
+    for (const entry of byDay.split(',')) {
+      const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(entry.trim());
+      if (!match) return null;
+      const nth = match[1] ? Number(match[1]) : undefined;
+      if (nth !== undefined && (nth === 0 || Math.abs(nth) > 53)) return null;
+      rules.push(nth !== undefined ? { weekday: match[2] as Weekday, nth } : { weekday: match[2] as Weekday });
+    }
+    rule.byDay = rules;
+  }
+
+  const byMonthDay = parts.get('BYMONTHDAY');
+  if (byMonthDay !== undefined) {
+    const days = parseIntList(byMonthDay, -31, 31);
+    if (!days) return null;
+    rule.byMonthDay = days;
+  }
+
+  const byMonth = parts.get('BYMONTH');
+  if (byMonth !== undefined) {
+    const months = parseIntList(byMonth, 1, 12);
+    if (!months) return null;
+    rule.byMonth = months;
+  }
+
+  const bySetPos = parts.get('BYSETPOS');
+  if (bySetPos !== undefined) {
+    const positions = parseIntList(bySetPos, -366, 366);
+    if (!positions) return null;
+    rule.bySetPos = positions;
+  }
+
+  const weekStart = parts.get('WKST');
+  if (weekStart !== undefined) {
+    if (!WEEKDAYS.includes(weekStart as Weekday)) return null;
+    rule.weekStart = weekStart as Weekday;
+  }
+
+  return rule;
+}
+
+/**
+ * Format a rule as RRULE value (without "RRULE:" prefix).
+ * UNTIL is written as a DATE value.
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(d => `${d.nth ?? ''}${d.weekday}`).join(',')}`);
+  }
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.weekStart !== 'MO') parts.push(`WKST=${rule.weekStart}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  return parts.join(';');
+}
+
+// ============================================================
+// Legacy Repeat Types
+// ============================================================
+
+/**
+ * Rule for items that only have a repeat_type (created before RRULE support).
+ */
+export function ruleFromRepeatType(repeatType: RepeatType): RecurrenceRule | null {
+  switch (repeatType) {
+    case 'daily': return { freq: 'DAILY', interval: 1, weekStart: 'MO' };
+    case 'weekly': return { freq: 'WEEKLY', interval: 1, weekStart: 'MO' };
+    case 'biweekly': return { freq: 'WEEKLY', interval: 2, weekStart: 'MO' };
+    case 'monthly': return { freq: 'MONTHLY', interval: 1, weekStart: 'MO' };
+    case 'yearly': return { freq: 'YEARLY', interval: 1, weekStart: 'MO' };
+    default: return null;
+  }
+}
+
+/**
+ * Repeat type shown in the repeat picker for a rule. Rules the picker
+ * cannot express (every 3 weeks, yearly on the last Sunday of March)
+ * are 'custom'.
+ */
+export function repeatTypeForRule(rule: RecurrenceRule): RepeatType {
+  if (rule.bySetPos?.length || rule.byMonth?.length) return 'custom';
+  if (rule.freq === 'WEEKLY' && rule.interval <= 2 && !rule.byMonthDay?.length
+    && !rule.byDay?.some(d => d.nth !== undefined)) {
+    return rule.interval === 1 ? 'weekly' : 'biweekly';
+  }
+  if (rule.interval !== 1 || rule.byMonthDay?.length) return 'custom';
+  switch (rule.freq) {
+    case 'DAILY': return rule.byDay?.length ? 'custom' : 'daily';
+    case 'MONTHLY': return !rule.byDay || isSingleNthWeekday(rule.byDay) ? 'monthly' : 'custom';
+    case 'YEARLY': return rule.byDay?.length ? 'custom' : 'yearly';
+    default: return 'custom';
+  }
+}
+
+function isSingleNthWeekday(byDay: WeekdayRule[]): boolean {
+  return byDay.length === 1 && byDay[0].nth !== undefined;
+}
+
+/**
+ * Effective rule of an agenda item: the stored RRULE, else the legacy
+ * repeat type. The item's end date acts as UNTIL when the rule has none.
+ */
+export function getItemRule(item: {
+  rrule?: string | null;
+  repeatType?: string | null;
+  endDate?: number | null;
+}): RecurrenceRule | null {
+  let rule: RecurrenceRule | null = null;
+  if (item.rrule) {
+    rule = parseRRule(item.rrule);
+  }
+  if (!rule && item.repeatType) {
+    rule = ruleFromRepeatType(item.repeatType as RepeatType);
+  }
+  if (rule && !rule.until && rule.count === undefined && item.endDate) {
+    rule = { ...rule, until: toDayKey(item.endDate) };
+  }
+  return rule;
+}
+
+// ============================================================
+// Expansion
+// ============================================================
+
+/** Pick the n-th (1-based, negative from the end) entry of a sorted list */
+function pickPositions(days: number[], positions: number[]): number[] {
+  const picked = new Set<number>();
+  for (const position of positions) {
+    const index = position > 0 ? position - 1 : days.length + position;
+    if (index >= 0 && index < days.length) picked.add(days[index]);
+  }
+  return Array.from(picked);
+}
+
+/** Days (day numbers) in [first, last] that match a BYDAY list */
+function matchWeekdays(first: number, last: number, byDay: WeekdayRule[]): number[] {
+  const matches = new Set<number>();
+  for (const { weekday, nth } of byDay) {
+    const target = WEEKDAYS.indexOf(weekday);
+    const days: number[] = [];
+    const offset = (target - weekdayOf(first) + 7) % 7;
+    for (let day = first + offset; day <= last; day += 7) {
+      days.push(day);
+    }
+    for (const day of nth !== undefined ? pickPositions(days, [nth]) : days) {
+      matches.add(day);
+    }
+  }
+  return Array.from(matches);
+}
+
+/** Days of one month for a MONTHLY rule, or a YEARLY rule with BYMONTH */
+function monthDays(year: number, month: number, rule: RecurrenceRule, startDay: number): number[] {
+  const first = toDayNumber(year, month, 1);
+  const length = daysInMonth(year, month);
+
+  if (rule.byMonthDay?.length) {
+    const days = rule.byMonthDay
+      .map(d => (d > 0 ? d : length + d + 1))
+      .filter(d => d >= 1 && d <= length)
+      .map(d => first + d - 1);
+    if (!rule.byDay?.length) return days;
+    const weekdays = new Set(rule.byDay.map(d => WEEKDAYS.indexOf(d.weekday)));
+    return days.filter(day => weekdays.has(weekdayOf(day)));
+  }
+
+  if (rule.byDay?.length) {
+    return matchWeekdays(first, first + length - 1, rule.byDay);
+  }
+
+  const { day } = fromDayNumber(startDay);
+  return day <= length ? [first + day - 1] : [];
+}
+
+/** Candidate days of one period (before COUNT/UNTIL), sorted */
+function periodDays(
+  rule: RecurrenceRule,
+  period: number,
+  startDay: number,
+  weekOffset: number,
+): number[] {
+  let days: number[];
+
+  switch (rule.freq) {
+    case 'DAILY':
+      days = [period];
+      if (rule.byMonthDay?.length) {
+        const { year, month, day } = fromDayNumber(period);
+        const length = daysInMonth(year, month);
+        days = rule.byMonthDay.some(d => (d > 0 ? d : length + d + 1) === day) ? days : [];
+      }
+      if (rule.byDay?.length) {
+        const weekdays = new Set(rule.byDay.map(d => WEEKDAYS.indexOf(d.weekday)));
+        days = days.filter(day => weekdays.has(weekdayOf(day)));
+      }
+      break;
+
+    case 'WEEKLY': {
+      const first = period * 7 + weekOffset;
+      const weekdays = rule.byDay?.length
+        ? rule.byDay.map(d => WEEKDAYS.indexOf(d.weekday))
+        : [weekdayOf(startDay)];
+      days = [];
+      for (let day = first; day < first + 7; day++) {
+        if (weekdays.includes(weekdayOf(day))) days.push(day);
+      }
+      break;
+    }
+
+    case 'MONTHLY':
+      days = monthDays(Math.floor(period / 12), period % 12, rule, startDay);
+      break;
+
+    case 'YEARLY': {
+      const year = period;
+      if (rule.byMonth?.length) {
+        days = rule.byMonth.flatMap(m => monthDays(year, m - 1, rule, startDay));
+      } else if (rule.byMonthDay?.length) {
+        days = Array.from({ length: 12 }, (_, m) => monthDays(year, m, rule, startDay)).flat();
+      } else if (rule.byDay?.length) {
+        days = matchWeekdays(toDayNumber(year, 0, 1), toDayNumber(year, 11, 31), rule.byDay);
+      } else {
+        const { month, day } = fromDayNumber(startDay);
+        days = day <= daysInMonth(year, month) ? [toDayNumber(year, month, day)] : [];
+      }
+      break;
+    }
+  }
+
+  if (rule.byMonth?.length && rule.freq !== 'YEARLY') {
+    days = days.filter(day => rule.byMonth!.includes(fromDayNumber(day).month + 1));
+  }
+
+  days = Array.from(new Set(days)).sort((a, b) => a - b);
+  if (rule.bySetPos?.length) {
+    days = pickPositions(days, rule.bySetPos).sort((a, b) => a - b);
+  }
+  return days;
+}
+
+/** Period index (day, week, month or year) that contains a day */
+function periodOf(rule: RecurrenceRule, dayNumber: number, weekOffset: number): number {
+  switch (rule.freq) {
+    case 'DAILY': return dayNumber;
+    case 'WEEKLY': return Math.floor((dayNumber - weekOffset) / 7);
+    case 'MONTHLY': {
+      const { year, month } = fromDayNumber(dayNumber);
+      return year * 12 + month;
+    }
+    case 'YEARLY': return fromDayNumber(dayNumber).year;
+  }
+}
+
+/** First day of a period */
+function periodStart(rule: RecurrenceRule, period: number, weekOffset: number): number {
+  switch (rule.freq) {
+    case 'DAILY': return period;
+    case 'WEEKLY': return period * 7 + weekOffset;
+    case 'MONTHLY': return toDayNumber(Math.floor(period / 12), period % 12, 1);
+    case 'YEARLY': return toDayNumber(period, 0, 1);
+  }
+}
+
+/**
+ * Expand a rule into occurrence dates (local midnight timestamps).
+ *
+ * COUNT is applied before EXDATE, like RFC 5545 does: excluding a date
+ * does not add an extra occurrence at the end.
+ *
+ * @param rule - Recurrence rule
+ * @param start - Start date of the series (first occurrence candidate)
+ * @param rangeStart - Earliest occurrence to return (inclusive)
+ * @param rangeEnd - Latest occurrence to return (inclusive)
+ * @param exdates - Day keys ("YYYY-MM-DD") to leave out
+ */
+export function expandRecurrence(
+  rule: RecurrenceRule,
+  start: number,
+  rangeStart: number,
+  rangeEnd: number,
+  exdates: ReadonlySet<string> = new Set(),
+): number[] {
+  const startDay = localDayNumber(start);
+  const fromDay = Math.max(startDay, localDayNumber(rangeStart));
+  let lastDay = localDayNumber(rangeEnd);
+  if (rule.until) {
+    const untilDay = dayKeyToDayNumber(rule.until);
+    if (untilDay !== null) lastDay = Math.min(lastDay, untilDay);
+  }
+  if (lastDay < fromDay) return [];
+
+  // Weeks start on WKST (day 4 = 1970-01-05 is a Monday)
+  const weekOffset = ((WEEKDAYS.indexOf(rule.weekStart) - 4) % 7 + 7) % 7;
+  const firstPeriod = periodOf(rule, startDay, weekOffset);
+
+  // Without COUNT nothing before the range matters: jump ahead
+  let period = firstPeriod;
+  if (rule.count === undefined) {
+    const skip = Math.floor((periodOf(rule, fromDay, weekOffset) - firstPeriod) / rule.interval);
+    period += Math.max(0, skip) * rule.interval;
+  }
+
+  const occurrences: number[] = [];
+  let generated = 0;
+
+  for (let i = 0; i < MAX_PERIODS; i++, period += rule.interval) {
+    if (periodStart(rule, period, weekOffset) > lastDay) break;
+
+    for (const day of periodDays(rule, period, startDay, weekOffset)) {
+      if (day < startDay) continue;
+      if (day > lastDay) break;
+      if (rule.count !== undefined && generated >= rule.count) break;
+      generated++;
+
+      if (day >= fromDay) {
+        const timestamp = localMidnight(day);
+        if (!exdates.has(toDayKey(timestamp))) {
+          occurrences.push(timestamp);
+        }
+      }
+    }
+
+    if (rule.count !== undefined && generated >= rule.count) break;
+  }
+
+  return occurrences;
+}
+
+// ============================================================
+// Description
+// ============================================================
+
+type Translate = (key: string, options?: Record<string, unknown>) => string;
+
+const NTH_KEYS: Record<string, string> = {
+  '1': 'first',
+  '2': 'second',
+  '3': 'third',
+  '4': 'fourth',
+  '-1': 'last',
+};
+
+/** Localized weekday name, e.g. "dinsdag" */
+export function weekdayName(weekday: Weekday, locale: string, format: 'long' | 'short' = 'long'): string {
+  // 2023-01-01 was a Sunday
+  return new Date(2023, 0, 1 + WEEKDAYS.indexOf(weekday)).toLocaleDateString(locale, { weekday: format });
+}
+
+/**
+ * Human description of a rule ("Elke week op maandag en donderdag").
+ * Falls back to the generic repeat label for rules without a dedicated
+ * sentence.
+ */
+export function describeRecurrence(rule: RecurrenceRule, t: Translate, locale: string): string {
+  const byDay = rule.byDay ?? [];
+  const listDays = () => byDay.map(d => weekdayName(d.weekday, locale)).join(', ');
+
+  if (rule.bySetPos?.length || rule.byMonth?.length) {
+    return t('modules.agenda.repeat.custom');
+  }
+
+  switch (rule.freq) {
+    case 'DAILY':
+      if (byDay.length || rule.byMonthDay?.length) break;
+      return rule.interval === 1
+        ? t('modules.agenda.repeat.daily')
+        : t('modules.agenda.repeat.everyDays', { count: rule.interval });
+
+    case 'WEEKLY':
+      if (rule.byMonthDay?.length || byDay.some(d => d.nth !== undefined)) break;
+      if (!byDay.length) {
+        if (rule.interval === 1) return t('modules.agenda.repeat.weekly');
+        if (rule.interval === 2) return t('modules.agenda.repeat.biweekly');
+      }
+      return rule.interval === 1
+        ? t('modules.agenda.repeat.weeklyOn', { days: listDays() })
+        : t('modules.agenda.repeat.everyWeeksOn', { count: rule.interval, days: listDays() });
+
+    case 'MONTHLY': {
+      if (rule.interval !== 1) break;
+      if (rule.byMonthDay?.length === 1 && !byDay.length) {
+        const day = rule.byMonthDay[0];
+        if (day === -1) return t('modules.agenda.repeat.monthlyOnLastDay');
+        if (day > 0) return t('modules.agenda.repeat.monthlyOnDay', { day });
+        break;
+      }
+      if (!rule.byMonthDay?.length && isSingleNthWeekday(byDay) && NTH_KEYS[String(byDay[0].nth)]) {
+        return t('modules.agenda.repeat.monthlyOnWeekday', {
+          nth: t(`modules.agenda.repeat.nth.${NTH_KEYS[String(byDay[0].nth)]}`),
+          weekday: weekdayName(byDay[0].weekday, locale),
+        });
+      }
+      if (!byDay.length && !rule.byMonthDay?.length) return t('modules.agenda.repeat.monthly');
+      break;
+    }
+
+    case 'YEARLY':
+      if (rule.interval === 1 && !byDay.length && !rule.byMonthDay?.length) {
+        return t('modules.agenda.repeat.yearly');
+      }
+      break;
+  }
+
+  return t('modules.agenda.repeat.custom');
+}
+
+/**
+ * "Second Tuesday" style rule for the weekday of a date: nth weekday of
+ * its month, or -1 when it is the last one (5th Tuesday becomes "last").
+ */
+export function nthWeekdayOf(date: number): WeekdayRule {
+  const d = new Date(date);
+  const nth = Math.ceil(d.getDate() / 7);
+  return { weekday: WEEKDAYS[d.getDay()], nth: nth === 5 ? -1 : nth };
+}
@@ -41,6 +41,7 @@ export async function addAgendaItemFromShare(
       r.time = payload.time ?? undefined;
       r.times = payload.times ? JSON.stringify(payload.times) : undefined;
       r.repeatType = payload.repeat ?? undefined;
+      r.rrule = payload.rrule;
       r.endDate = payload.endDate
         ? new Date(payload.endDate + 'T12:00:00').getTime()
         : undefined;
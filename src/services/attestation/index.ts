@@ -18,4 +18,8 @@ export {
   clearTokens,
   hasValidTokens,
   getApiGatewayUrl,
+  onSignInRequired,
+  reattestOnSignInRequired,
 } from './tokenManager';
+
+export type { AttestationIdentity } from './tokenManager';
@@ -8,13 +8,24 @@
  * 1. First launch: attestation → tokens stored
  * 2. Normal use: getAccessToken() returns cached token
  * 3. Token expired: automatic refresh via refresh token
- * 4. Refresh expired: re-attestation triggered
+ *    (the gateway rotates the refresh token on every refresh)
+ * 4. Refresh token expired: re-attestation with the stored identity
+ *    Refresh token reused or device revoked: tokens and identity are
+ *    cleared and onSignInRequired listeners are told to sign in again
+ *    (refreshing would hand a copied token family a fresh start)
+ * 5. At app startup reattestOnSignInRequired() attests again for the
+ *    signed-in user; a revoked device is refused by the gateway
+ *
+ * Only one refresh runs at a time. A rotated refresh token is single-use,
+ * so two parallel refreshes would look like token theft to the gateway
+ * and revoke the whole token family.
  *
  * @see TRUST_AND_ATTESTATION_PLAN.md section 3.2
  * @see TESTFLIGHT_SECURITY_HARDENING.md Item 2.1
  */
 
 import { Platform } from 'react-native';
+import { randombytes_buf, to_hex, ready as sodiumReady } from 'react-native-libsodium';
 import { secureSet, secureGet, secureRemove, migrateFromAsyncStorage } from '../secureStorage';
 import { isAppAttestSupported, generateAttestKey, attestKey } from './appAttest';
 
@@ -26,6 +37,11 @@ const KEYS = {
   REFRESH_TOKEN: 'jwt_refresh_token',
   ATTEST_KEY_ID: 'attest_key_id',
   TOKEN_EXPIRY: 'jwt_token_expiry',
+  // Needed to re-attest on our own when the gateway rejects a refresh
+  ATTEST_USER_UUID: 'attest_user_uuid',
+  ATTEST_APP_VERSION: 'attest_app_version',
+  // Random per-install id; the gateway derives the Android device id from it
+  INSTALL_ID: 'attest_install_id',
 };
 
 // Legacy AsyncStorage keys (for migration)
@@ -59,6 +75,57 @@ interface TokenResponse {
   expiresIn: number;
 }
 
+interface GatewayError {
+  error?: string;
+  message?: string;
+}
+
+export interface AttestationIdentity {
+  userUuid: string;
+  appVersion: string;
+}
+
+// Shared by all callers while a refresh is running
+let refreshInFlight: Promise<string | null> | null = null;
+
+const signInRequiredListeners = new Set<() => void>();
+
+/**
+ * Listen for the gateway refusing this device's tokens (refresh token
+ * reused or device revoked). The user has to sign in again.
+ * @returns Unsubscribe function
+ */
+export function onSignInRequired(listener: () => void): () => void {
+  signInRequiredListeners.add(listener);
+  return () => {
+    signInRequiredListeners.delete(listener);
+  };
+}
+
+/**
+ * Attest again whenever the gateway refuses this device's tokens. The
+ * stored identity is gone by then, so `getIdentity` supplies the
+ * signed-in user; without one the app stays without tokens.
+ * @returns Unsubscribe function
+ */
+export function reattestOnSignInRequired(
+  getIdentity: () => Promise<AttestationIdentity | null>,
+): () => void {
+  return onSignInRequired(() => {
+    void (async () => {
+      const identity = await getIdentity();
+      if (!identity) {
+        console.warn(LOG_PREFIX, 'No signed-in user, attestation needed');
+        return;
+      }
+      const success = await performAttestation(identity.userUuid, identity.appVersion);
+      if (!success) console.warn(LOG_PREFIX, 'Attestation after refused tokens failed');
+    })().catch(() => {
+      console.warn(LOG_PREFIX, 'Attestation after refused tokens failed');
+    });
+  });
+}
+
 /**
  * Get a valid access token, refreshing if necessary.
  * Returns null if no token is available (attestation needed).
@@ -91,14 +158,26 @@ export async function getAccessToken(): Promise<string | null> {
 
 /**
  * Refresh the access token using the stored refresh token.
- * Returns null if refresh fails (re-attestation needed).
+ * Concurrent callers share the same request.
+ * Returns null if no new token could be obtained.
  */
-async function refreshAccessToken(): Promise<string | null> {
+function refreshAccessToken(): Promise<string | null> {
+  if (!refreshInFlight) {
+    refreshInFlight = doRefreshAccessToken().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+}
+
+async function doRefreshAccessToken(): Promise<string | null> {
   try {
     const refreshToken = await secureGet(KEYS.REFRESH_TOKEN);
     if (!refreshToken) {
-      console.debug(LOG_PREFIX, 'No refresh token, attestation needed');
-      return null;
+      // Degraded (basic trust) tokens come without a refresh token:
+      // their access token simply expired
+      await clearTokens();
+      return await reattest();
     }
 
     const response = await fetch(`${API_GATEWAY_URL}/api/v1/token/refresh`, {
@@ -107,13 +186,26 @@ async function refreshAccessToken(): Promise<string | null> {
       body: JSON.stringify({ refreshToken }),
     });
 
+    if (response.status >= 500) {
+      // Gateway trouble — keep the tokens and try again later
+      console.warn(LOG_PREFIX, 'Token refresh unavailable', { status: response.status });
+      return null;
+    }
+
     if (!response.ok) {
-      console.warn(LOG_PREFIX, 'Token refresh failed', { status: response.status });
-      // Clear tokens — re-attestation needed
+      const body = (await response.json().catch(() => ({}))) as GatewayError;
+      console.warn(LOG_PREFIX, 'Token refresh rejected', { status: response.status, error: body.error });
       await clearTokens();
+      if (body.error === 'INVALID_REFRESH_TOKEN') {
+        // Normal expiry — attest again
+        return await reattest();
+      }
+      // Reused or revoked — someone else may hold a copy of our tokens
+      await requireSignIn();
       return null;
     }
 
+    // The old refresh token is spent; storeTokens keeps the rotated one
     const data: TokenResponse = await response.json();
     await storeTokens(data);
 
@@ -125,6 +217,45 @@ async function refreshAccessToken(): Promise<string | null> {
   }
 }
 
+/**
+ * Forget the attestation identity so nothing re-attests on its own,
+ * and tell the app to sign in again.
+ */
+async function requireSignIn(): Promise<void> {
+  await Promise.all([
+    secureRemove(KEYS.ATTEST_USER_UUID),
+    secureRemove(KEYS.ATTEST_APP_VERSION),
+  ]);
+  console.warn(LOG_PREFIX, 'Tokens refused, sign-in required');
+  signInRequiredListeners.forEach((listener) => {
+    try {
+      listener();
+    } catch (error) {
+      console.error(LOG_PREFIX, 'Sign-in listener failed:', error);
+    }
+  });
+}
+
+/**
+ * Attest again with the identity of the last successful attestation
+ * after the tokens expired normally. A failure leaves the app without
+ * tokens until the next performAttestation() call.
+ */
+async function reattest(): Promise<string | null> {
+  const [userUuid, appVersion] = await Promise.all([
+    secureGet(KEYS.ATTEST_USER_UUID),
+    secureGet(KEYS.ATTEST_APP_VERSION),
+  ]);
+  if (!userUuid || !appVersion) {
+    console.debug(LOG_PREFIX, 'No attestation identity stored, attestation needed');
+    return null;
+  }
+
+  console.info(LOG_PREFIX, 'Tokens expired, re-attesting');
+  const success = await performAttestation(userUuid, appVersion);
+  return success ? secureGet(KEYS.ACCESS_TOKEN) : null;
+}
+
 /**
  * Perform device attestation and obtain new tokens.
  *
@@ -136,12 +267,20 @@ export async function performAttestation(
   appVersion: string,
 ): Promise<boolean> {
   try {
+    let success = false;
     if (Platform.OS === 'ios') {
-      return await performIOSAttestation(userUuid, appVersion);
+      success = await performIOSAttestation(userUuid, appVersion);
     } else if (Platform.OS === 'android') {
-      return await performAndroidAttestation(userUuid, appVersion);
+      success = await performAndroidAttestation(userUuid, appVersion);
     }
-    return false;
+
+    if (success) {
+      await Promise.all([
+        secureSet(KEYS.ATTEST_USER_UUID, userUuid),
+        secureSet(KEYS.ATTEST_APP_VERSION, appVersion),
+      ]);
+    }
+    return success;
   } catch (error) {
     console.error(LOG_PREFIX, 'Attestation failed');
     return false;
@@ -222,6 +361,11 @@ async function performIOSAttestation(
   });
 
   if (!response.ok) {
+    if (await isDeviceRevoked(response)) {
+      // Keep the key: a new key must not get around the revocation
+      console.warn(LOG_PREFIX, 'Device was revoked, not retrying');
+      return false;
+    }
     // Key may be invalidated — generate new one
     await secureRemove(KEYS.ATTEST_KEY_ID);
     console.warn(LOG_PREFIX, 'Re-attestation failed, key invalidated');
@@ -233,6 +377,16 @@ async function performIOSAttestation(
   return true;
 }
 
+/**
+ * Whether the gateway refused attestation because the device was revoked
+ * (signed out from another device).
+ */
+async function isDeviceRevoked(response: Response): Promise<boolean> {
+  if (response.status !== 403) return false;
+  const body = (await response.json().catch(() => ({}))) as GatewayError;
+  return body.error === 'DEVICE_REVOKED';
+}
+
 /**
  * Android attestation flow using Play Integrity (placeholder).
  */
@@ -245,6 +399,20 @@ async function performAndroidAttestation(
   return await requestDevModeToken(userUuid, appVersion, 'android');
 }
 
+/**
+ * Random id for this app install, created on first use. Survives token
+ * loss, so the gateway keeps recognising (and revoking) the same device.
+ */
+async function getInstallId(): Promise<string> {
+  const stored = await secureGet(KEYS.INSTALL_ID);
+  if (stored) return stored;
+
+  await sodiumReady;
+  const installId = to_hex(randombytes_buf(16));
+  await secureSet(KEYS.INSTALL_ID, installId);
+  return installId;
+}
+
 /**
  * Development mode: request token without attestation.
  * Only works when API Gateway is in development mode.
@@ -259,6 +427,7 @@ async function requestDevModeToken(
       ? '/api/v1/attest/ios'
       : '/api/v1/attest/android';
 
+    const installId = platform === 'android' ? await getInstallId() : '';
     const body = platform === 'ios'
       ? {
           keyId: `dev-${userUuid}`,
@@ -269,7 +438,10 @@ async function requestDevModeToken(
         }
       : {
           integrityToken: `dev-${userUuid}`,
+          // The gateway checks the challenge is bound to user and install
+          challenge: `${userUuid}:${Date.now()}:${installId}`,
           userUuid,
+          installId,
           appVersion,
         };
 
@@ -0,0 +1,861 @@
+/**
+ * BackupService — Encrypted full backup and restore
+ *
+ * EncryptionService.createBackup only protects the identity key. This
+ * service exports everything needed to continue on a new phone into one
+ * archive file: messages, contacts, groups, agenda items, game stats,
+ * photo albums and the media files they reference.
+ *
+ * Archive layout (*.commeazy-backup):
+ * 1. One line of plaintext JSON — BackupHeader (format, KDF salt and limits,
+ *    creation date). Nothing personal.
+ * 2. The manifest, sealed with XChaCha20-Poly1305 under a key derived from
+ *    the PIN with Argon2id. It holds the PIN-sealed identity key
+ *    (EncryptionService.createBackup), the list of dump segments and the
+ *    list of files.
+ * 3. The database dump in segments of up to SEGMENT_RECORDS records of one
+ *    table, each sealed on its own, so neither writing nor restoring holds
+ *    more than one segment in memory.
+ * 4. The files, each encrypted in chunks exactly like media uploads
+ *    (media/mediaTransfer.ts) with its own base nonce from the manifest.
+ *
+ * Restore writes files, database and albums first and the identity key
+ * last; when any step fails, everything written so far is removed again.
+ *
+ * Not backed up:
+ * - ratchet_sessions / sender_keys — restoring old ratchet state would
+ *   reuse message keys; sessions are re-established after restore
+ * - outbox_messages — expire after 7 days and belong to the old device
+ * - linked_devices — device subkeys stay on the device that made them
+ *
+ * A backup from an older app version is brought up to date by replaying
+ * the steps in models/migrations.ts on each segment before it is written.
+ *
+ * @see services/encryption.ts — createBackup / restoreBackup (identity key)
+ * @see models/migrations.ts
+ * @see .claude/skills/security-expert/SKILL.md
+ */
+
+import { Platform, Share } from 'react-native';
+import RNFS from 'react-native-fs';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { SchemaMigrations } from '@nozbe/watermelondb/Schema/migrations';
+import type { ColumnSchema } from '@nozbe/watermelondb';
+import {
+  crypto_pwhash,
+  crypto_pwhash_SALTBYTES,
+  crypto_pwhash_OPSLIMIT_MODERATE,
+  crypto_pwhash_MEMLIMIT_MODERATE,
+  crypto_pwhash_ALG_ARGON2ID13,
+  crypto_aead_xchacha20poly1305_ietf_encrypt,
+  crypto_aead_xchacha20poly1305_ietf_decrypt,
+  crypto_aead_xchacha20poly1305_ietf_NPUBBYTES,
+  randombytes_buf,
+  memzero,
+  to_base64,
+  from_base64,
+  to_string,
+  base64_variants,
+} from 'react-native-libsodium';
+
+import { Q } from '@nozbe/watermelondb';
+
+import { schema, migrations, SCHEMA_VERSION } from '@/models';
+import type { ProgressCallback } from '@/types/media';
+import { ServiceContainer } from './container';
+import type { WatermelonDBService } from './database';
+import { AppError } from './interfaces';
+import type { EncryptedBackup } from './interfaces';
+import {
+  AEAD_TAG_BYTES,
+  chunkCount,
+  encryptedSize,
+  encryptChunk,
+  decryptChunk,
+} from './media/mediaTransfer';
+
+// ============================================================
+// Constants
+// ============================================================
+
+const LOG_PREFIX = '[Backup]';
+
+export const BACKUP_FORMAT = 'commeazy-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+export const BACKUP_EXTENSION = '.commeazy-backup';
+
+/** Plaintext bytes per encrypted file chunk */
+const BACKUP_CHUNK_SIZE = 256 * 1024;
+
+/** Tables that must not travel to another device (see header) */
+const EXCLUDED_TABLES = ['ratchet_sessions', 'sender_keys', 'outbox_messages', 'linked_devices'];
+
+/** AsyncStorage keys that hold user content (albums live outside the database) */
+const STORAGE_KEYS = ['@commeazy/photoAlbums'];
+
+/** Folders under DocumentDirectory backed up in full (album photos are only referenced by ID) */
+const MEDIA_FOLDERS = ['media', 'media/thumbnails'];
+
+/** Records per sealed dump segment (one database batch on restore) */
+const SEGMENT_RECORDS = 500;
+
+// ============================================================
+// Types
+// ============================================================
+
+/** Plaintext first line of an archive */
+export interface BackupHeader {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: number;
+  salt: string;
+  opsLimit: number;
+  memLimit: number;
+  nonce: string;
+  manifestBytes: number;
+}
+
+export type BackupRecord = Record<string, string | number | boolean | null>;
+
+/**
+ * Database records as raw WatermelonDB records, per table. The archive
+ * stores them in segments; restore migrates one segment at a time.
+ */
+export interface BackupDump {
+  schemaVersion: number;
+  /** DocumentDirectoryPath of the device that made the backup */
+  documentDirectory: string;
+  tables: Record<string, BackupRecord[]>;
+  storage: Record<string, string | null>;
+}
+
+export interface BackupFileEntry {
+  /** Relative to DocumentDirectoryPath */
+  path: string;
+  size: number;
+  nonce: string;
+}
+
+/** Sealed records of one table, in archive order after the manifest */
+export interface BackupSegment {
+  table: string;
+  records: number;
+  /** Sealed size in the archive */
+  bytes: number;
+  nonce: string;
+}
+
+export interface BackupManifest {
+  createdAt: number;
+  keys: EncryptedBackup;
+  schemaVersion: number;
+  /** DocumentDirectoryPath of the device that made the backup */
+  documentDirectory: string;
+  /** Every backed-up table, also the empty ones */
+  tables: string[];
+  segments: BackupSegment[];
+  storage: Record<string, string | null>;
+  files: BackupFileEntry[];
+}
+
+export interface BackupFileInfo {
+  path: string;
+  name: string;
+  size: number;
+  createdAt: number | null;
+}
+
+export interface BackupRestoreResult {
+  records: number;
+  files: number;
+  migratedFrom: number | null;
+}
+
+// ============================================================
+// Archive Format (pure)
+// ============================================================
+
+/**
+ * Derive the archive key from the PIN.
+ * The caller must memzero the result.
+ */
+export function deriveBackupKey(pin: string, salt: Uint8Array, opsLimit: number, memLimit: number): Uint8Array {
+  return crypto_pwhash(32, pin, salt, opsLimit, memLimit, crypto_pwhash_ALG_ARGON2ID13);
+}
+
+export function sealManifest(manifest: BackupManifest, key: Uint8Array, nonce: Uint8Array): Uint8Array {
+  return crypto_aead_xchacha20poly1305_ietf_encrypt(JSON.stringify(manifest), null, null, nonce, key);
+}
+
+/** Throws when the key is wrong (wrong PIN) or the manifest was changed */
+export function openManifest(sealed: Uint8Array, key: Uint8Array, nonce: Uint8Array): BackupManifest {
+  const plaintext = crypto_aead_xchacha20poly1305_ietf_decrypt(null, sealed, null, nonce, key);
+  return JSON.parse(to_string(plaintext)) as BackupManifest;
+}
+
+export function sealSegment(records: BackupRecord[], key: Uint8Array, nonce: Uint8Array): Uint8Array {
+  return crypto_aead_xchacha20poly1305_ietf_encrypt(JSON.stringify(records), null, null, nonce, key);
+}
+
+/** Throws when the segment was changed or belongs to another archive */
+export function openSegment(sealed: Uint8Array, key: Uint8Array, nonce: Uint8Array): BackupRecord[] {
+  const plaintext = crypto_aead_xchacha20poly1305_ietf_decrypt(null, sealed, null, nonce, key);
+  return JSON.parse(to_string(plaintext)) as BackupRecord[];
+}
+
+/**
+ * Parse the first line of an archive. Returns null for anything that is
+ * not a CommEazy backup this version can read.
+ */
+export function parseBackupHeader(line: string): BackupHeader | null {
+  try {
+    const header = JSON.parse(line) as Partial<BackupHeader>;
+    if (header.format !== BACKUP_FORMAT || header.version !== BACKUP_FORMAT_VERSION) return null;
+    if (typeof header.salt !== 'string' || typeof header.nonce !== 'string') return null;
+    if (typeof header.opsLimit !== 'number' || typeof header.memLimit !== 'number') return null;
+    if (typeof header.manifestBytes !== 'number' || header.manifestBytes <= AEAD_TAG_BYTES) return null;
+    if (typeof header.createdAt !== 'number') return null;
+    return header as BackupHeader;
+  } catch {
+    return null;
+  }
+}
+
+/** Value WatermelonDB gives a column that did not exist yet */
+function emptyColumnValue(column: ColumnSchema): string | number | boolean | null {
+  if (column.isOptional) return null;
+  if (column.type === 'number') return 0;
+  if (column.type === 'boolean') return false;
+  return '';
+}
+
+/**
+ * Bring a dump from an older schema up to `toVersion` by replaying the
+ * migration steps: new tables start empty, new columns get their empty value.
+ *
+ * @throws Error when the dump is newer than `toVersion`, older than the
+ *         oldest migration, or a step cannot be replayed on raw records
+ */
+export function migrateDump(dump: BackupDump, schemaMigrations: SchemaMigrations, toVersion: number): BackupDump {
+  if (dump.schemaVersion > toVersion) {
+    throw new Error(`Backup schema v${dump.schemaVersion} is newer than v${toVersion}`);
+  }
+  if (dump.schemaVersion === toVersion) return dump;
+  if (dump.schemaVersion < schemaMigrations.minVersion) {
+    throw new Error(`Backup schema v${dump.schemaVersion} is too old to migrate`);
+  }
+
+  const tables: Record<string, BackupRecord[]> = {};
+  for (const [name, records] of Object.entries(dump.tables)) {
+    tables[name] = records.map(record => ({ ...record }));
+  }
+
+  const pending = schemaMigrations.sortedMigrations.filter(
+    migration => migration.toVersion > dump.schemaVersion && migration.toVersion <= toVersion,
+  );
+  for (const migration of pending) {
+    for (const step of migration.steps) {
+      if (step.type === 'create_table') {
+        tables[step.schema.name] = tables[step.schema.name] ?? [];
+      } else if (step.type === 'add_columns') {
+        for (const record of tables[step.table] ?? []) {
+          for (const column of step.columns) {
+            if (!(column.name in record)) {
+              record[column.name] = emptyColumnValue(column);
+            }
+          }
+        }
+      } else {
+        throw new Error(`Migration to v${migration.toVersion} cannot be applied to a backup`);
+      }
+    }
+  }
+
+  return { ...dump, schemaVersion: toVersion, tables };
+}
+
+/**
+ * Files under `documentDirectory` referenced by any record
+ * (media_messages.local_uri, contacts.photo_path, ...), relative paths.
+ */
+export function referencedFiles(dump: BackupDump): string[] {
+  const prefix = `${dump.documentDirectory}/`;
+  const files = new Set<string>();
+
+  for (const records of Object.values(dump.tables)) {
+    for (const record of records) {
+      for (const value of Object.values(record)) {
+        if (typeof value !== 'string') continue;
+        const path = value.replace('file://', '');
+        if (path.startsWith(prefix)) {
+          files.add(path.slice(prefix.length));
+        }
+      }
+    }
+  }
+
+  return [...files];
+}
+
+/**
+ * Point file paths in the dump at this device's DocumentDirectory
+ * (on iOS it changes with every install).
+ */
+export function rewriteDocumentPaths(dump: BackupDump, documentDirectory: string): BackupDump {
+  const from = dump.documentDirectory;
+  if (from === documentDirectory) return dump;
+
+  const rewrite = (value: string): string => {
+    if (value.startsWith(`${from}/`)) return documentDirectory + value.slice(from.length);
+    if (value.startsWith(`file://${from}/`)) return `file://${documentDirectory}${value.slice(from.length + 7)}`;
+    return value;
+  };
+
+  const tables: Record<string, BackupRecord[]> = {};
+  for (const [name, records] of Object.entries(dump.tables)) {
+    tables[name] = records.map(record => {
+      const copy: BackupRecord = {};
+      for (const [column, value] of Object.entries(record)) {
+        copy[column] = typeof value === 'string' ? rewrite(value) : value;
+      }
+      return copy;
+    });
+  }
+
+  return { ...dump, documentDirectory, tables };
+}
+
+/** Reject paths that would escape DocumentDirectory when restored */
+export function isSafeBackupPath(path: string): boolean {
+  return path.length > 0 && !path.startsWith('/') && !path.split('/').includes('..');
+}
+
+/** Records from the archive with the dump details from its manifest */
+function segmentDump(manifest: BackupManifest, tables: Record<string, BackupRecord[]>): BackupDump {
+  return {
+    schemaVersion: manifest.schemaVersion,
+    documentDirectory: manifest.documentDirectory,
+    tables,
+    storage: manifest.storage,
+  };
+}
+
+// ============================================================
+// BackupService
+// ============================================================
+
+export class BackupService {
+  /** Where new backups are written before they are shared */
+  getBackupDirectory(): string {
+    return `${RNFS.DocumentDirectoryPath}/backups`;
+  }
+
+  /**
+   * Write a full backup protected by `pin`.
+   *
+   * @param pin - Backup PIN (needed again to restore)
+   * @param onProgress - 0-1 progress
+   * @returns Path of the archive
+   */
+  async createBackup(pin: string, onProgress?: ProgressCallback): Promise<string> {
+    const createdAt = Date.now();
+    const keys = await ServiceContainer.encryption.createBackup(pin);
+
+    const salt = randombytes_buf(crypto_pwhash_SALTBYTES);
+    const nonce = randombytes_buf(crypto_aead_xchacha20poly1305_ietf_NPUBBYTES);
+    const opsLimit = crypto_pwhash_OPSLIMIT_MODERATE;
+    const memLimit = crypto_pwhash_MEMLIMIT_MODERATE;
+    const key = deriveBackupKey(pin, salt, opsLimit, memLimit);
+
+    const directory = this.getBackupDirectory();
+    const date = new Date(createdAt).toISOString().slice(0, 10);
+    const path = `${directory}/commeazy-${date}${BACKUP_EXTENSION}`;
+    const partialPath = `${path}.partial`;
+    // Sealed segments wait here until the manifest that lists them is written
+    const segmentsPath = `${path}.segments`;
+
+    try {
+      if (!(await RNFS.exists(directory))) {
+        await RNFS.mkdir(directory);
+      }
+      await RNFS.writeFile(segmentsPath, '', 'base64');
+      const { tables, segments, referenced } = await this.writeSegments(segmentsPath, key);
+      const files = await this.collectFiles(referenced);
+
+      const manifest: BackupManifest = {
+        createdAt,
+        keys,
+        schemaVersion: SCHEMA_VERSION,
+        documentDirectory: RNFS.DocumentDirectoryPath,
+        tables,
+        segments,
+        storage: await this.readStorage(),
+        files,
+      };
+      const sealed = sealManifest(manifest, key, nonce);
+      const header: BackupHeader = {
+        format: BACKUP_FORMAT,
+        version: BACKUP_FORMAT_VERSION,
+        createdAt,
+        salt: to_base64(salt, base64_variants.ORIGINAL),
+        opsLimit,
+        memLimit,
+        nonce: to_base64(nonce, base64_variants.ORIGINAL),
+        manifestBytes: sealed.length,
+      };
+
+      await RNFS.writeFile(partialPath, `${JSON.stringify(header)}\n`, 'utf8');
+      await RNFS.appendFile(partialPath, to_base64(sealed, base64_variants.ORIGINAL), 'base64');
+      await this.appendArchivePart(partialPath, segmentsPath);
+      await RNFS.unlink(segmentsPath);
+
+      const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+      let doneBytes = 0;
+      for (const file of files) {
+        await this.appendEncryptedFile(partialPath, file, key, read => {
+          doneBytes += read;
+          onProgress?.(totalBytes > 0 ? doneBytes / totalBytes : 1);
+        });
+      }
+
+      if (await RNFS.exists(path)) {
+        await RNFS.unlink(path);
+      }
+      await RNFS.moveFile(partialPath, path);
+      onProgress?.(1);
+
+      console.info(LOG_PREFIX, `Backup written: ${segments.length} segments, ${files.length} files`);
+      return path;
+    } catch (error) {
+      await RNFS.unlink(partialPath).catch(() => {});
+      await RNFS.unlink(segmentsPath).catch(() => {});
+      console.error(LOG_PREFIX, 'Backup failed:', (error as Error).message);
+      throw new AppError('E600', 'storage', () => {}, { reason: 'backup_write_failed' });
+    } finally {
+      memzero(key);
+    }
+  }
+
+  /**
+   * Hand an archive to the user.
+   * iOS opens the share sheet (Save to Files, AirDrop, mail); Android has no
+   * file sharing without a FileProvider, so the archive is copied to Downloads.
+   *
+   * @returns 'shared' when the share sheet was used, 'saved' for Downloads
+   */
+  async shareBackup(path: string): Promise<'shared' | 'saved'> {
+    if (Platform.OS === 'ios') {
+      await Share.share({ url: `file://${path}` });
+      return 'shared';
+    }
+
+    const target = `${RNFS.DownloadDirectoryPath}/${path.split('/').pop()}`;
+    if (await RNFS.exists(target)) {
+      await RNFS.unlink(target);
+    }
+    await RNFS.copyFile(path, target);
+    return 'saved';
+  }
+
+  /**
+   * Archives this device can see: our own backups folder, files opened with
+   * CommEazy (iOS Documents/Inbox) and Downloads on Android.
+   */
+  async listBackups(): Promise<BackupFileInfo[]> {
+    const directories = [this.getBackupDirectory()];
+    if (Platform.OS === 'ios') {
+      directories.push(`${RNFS.DocumentDirectoryPath}/Inbox`);
+    } else {
+      directories.push(RNFS.DownloadDirectoryPath);
+    }
+
+    const backups: BackupFileInfo[] = [];
+    for (const directory of directories) {
+      if (!(await RNFS.exists(directory))) continue;
+      try {
+        for (const item of await RNFS.readDir(directory)) {
+          if (!item.isFile() || !item.name.endsWith(BACKUP_EXTENSION)) continue;
+          const header = await this.readHeader(item.path).catch(() => null);
+          backups.push({
+            path: item.path,
+            name: item.name,
+            size: Number(item.size) || 0,
+            createdAt: header?.header.createdAt ?? null,
+          });
+        }
+      } catch (error) {
+        console.warn(LOG_PREFIX, 'Could not read folder:', (error as Error).message);
+      }
+    }
+
+    return backups.sort((a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0));
+  }
+
+  /**
+   * Restore an archive over the current database. Meant for onboarding,
+   * before anything is sent from this device.
+   *
+   * Files, database and albums are written first and the identity key last.
+   * When a step fails, the restored files, tables and albums are removed
+   * again and the identity key is left alone.
+   *
+   * @throws AppError E602 — not a backup, wrong PIN or damaged file
+   * @throws AppError E603 — made by a newer app version (or too old to migrate)
+   */
+  async restoreBackup(path: string, pin: string, onProgress?: ProgressCallback): Promise<BackupRestoreResult> {
+    const { header, headerBytes } = await this.readHeader(path);
+
+    const salt = from_base64(header.salt, base64_variants.ORIGINAL);
+    const nonce = from_base64(header.nonce, base64_variants.ORIGINAL);
+    const key = deriveBackupKey(pin, salt, header.opsLimit, header.memLimit);
+
+    try {
+      let manifest: BackupManifest;
+      try {
+        const sealed = await RNFS.read(path, header.manifestBytes, headerBytes, 'base64');
+        manifest = openManifest(from_base64(sealed, base64_variants.ORIGINAL), key, nonce);
+      } catch {
+        // E602: Wrong PIN or tampered archive — never log the PIN
+        throw new AppError('E602', 'storage', () => {}, { reason: 'backup_open_failed' });
+      }
+
+      // Replay the migrations on the empty tables first: an archive this
+      // version cannot read is refused before anything is written
+      const originalVersion = manifest.schemaVersion;
+      let tables: string[];
+      try {
+        const empty = segmentDump(manifest, Object.fromEntries(manifest.tables.map(table => [table, []])));
+        const migrated = migrateDump(empty, migrations, SCHEMA_VERSION);
+        tables = Object.keys(migrated.tables).filter(
+          table => table in schema.tables && !EXCLUDED_TABLES.includes(table),
+        );
+      } catch (error) {
+        console.warn(LOG_PREFIX, (error as Error).message);
+        throw new AppError('E603', 'storage', () => {}, {
+          reason: originalVersion > SCHEMA_VERSION ? 'backup_newer' : 'backup_unsupported',
+        });
+      }
+
+      const segmentsOffset = headerBytes + header.manifestBytes;
+      const segmentBytes = manifest.segments.reduce((sum, segment) => sum + segment.bytes, 0);
+      const totalBytes = segmentBytes + manifest.files.reduce((sum, file) => sum + file.size, 0);
+      let doneBytes = 0;
+      const onRead = (bytes: number) => {
+        doneBytes += bytes;
+        onProgress?.(totalBytes > 0 ? (doneBytes / totalBytes) * 0.95 : 0.95);
+      };
+
+      const restoredFiles: string[] = [];
+      let restoredTables: string[] = [];
+      let previousStorage: Record<string, string | null> | null = null;
+      let records: number;
+      try {
+        let offset = segmentsOffset + segmentBytes;
+        for (const file of manifest.files) {
+          if (isSafeBackupPath(file.path)) {
+            await this.restoreEncryptedFile(path, offset, file, key, onRead);
+            restoredFiles.push(file.path);
+          } else {
+            console.warn(LOG_PREFIX, 'Skipping file with an unsafe path');
+          }
+          offset += encryptedSize(file.size, BACKUP_CHUNK_SIZE);
+        }
+
+        restoredTables = tables;
+        records = await this.restoreSegments(path, segmentsOffset, manifest, tables, key, onRead);
+
+        previousStorage = await this.readStorage();
+        await this.writeStorage(manifest.storage);
+
+        // Identity key last: contacts recognise us only once the rest is in place
+        await ServiceContainer.encryption.restoreBackup(pin, manifest.keys);
+      } catch (error) {
+        await this.rollbackRestore(restoredTables, restoredFiles, previousStorage);
+        throw error;
+      }
+      onProgress?.(1);
+
+      console.info(LOG_PREFIX, `Backup restored: ${records} records, ${restoredFiles.length} files`);
+      return {
+        records,
+        files: restoredFiles.length,
+        migratedFrom: originalVersion < SCHEMA_VERSION ? originalVersion : null,
+      };
+    } finally {
+      memzero(key);
+    }
+  }
+
+  // ============================================================
+  // Private — Collect
+  // ============================================================
+
+  private getDb() {
+    return (ServiceContainer.database as WatermelonDBService).getDb();
+  }
+
+  /**
+   * Seal the backed-up tables into `segmentsPath`, SEGMENT_RECORDS records
+   * at a time, noting the files the records refer to.
+   */
+  private async writeSegments(
+    segmentsPath: string,
+    key: Uint8Array,
+  ): Promise<{ tables: string[]; segments: BackupSegment[]; referenced: Set<string> }> {
+    const db = this.getDb();
+    const tables = Object.keys(schema.tables).filter(table => !EXCLUDED_TABLES.includes(table));
+    const segments: BackupSegment[] = [];
+    const referenced = new Set<string>();
+
+    for (const table of tables) {
+      let lastId = '';
+      let raws: BackupRecord[];
+      do {
+        raws = (await db.get(table).query(
+          Q.where('id', Q.gt(lastId)),
+          Q.sortBy('id', Q.asc),
+          Q.take(SEGMENT_RECORDS),
+        ).unsafeFetchRaw()) as BackupRecord[];
+        if (raws.length === 0) break;
+        lastId = String(raws[raws.length - 1].id);
+
+        const records = raws.map(raw => {
+          // Sync bookkeeping is meaningless on another device
+          const record = { ...raw };
+          delete record._status;
+          delete record._changed;
+          return record;
+        });
+        const dump: BackupDump = {
+          schemaVersion: SCHEMA_VERSION,
+          documentDirectory: RNFS.DocumentDirectoryPath,
+          tables: { [table]: records },
+          storage: {},
+        };
+        referencedFiles(dump).forEach(file => referenced.add(file));
+
+        const nonce = randombytes_buf(crypto_aead_xchacha20poly1305_ietf_NPUBBYTES);
+        const sealed = sealSegment(records, key, nonce);
+        await RNFS.appendFile(segmentsPath, to_base64(sealed, base64_variants.ORIGINAL), 'base64');
+        segments.push({
+          table,
+          records: records.length,
+          bytes: sealed.length,
+          nonce: to_base64(nonce, base64_variants.ORIGINAL),
+        });
+      } while (raws.length === SEGMENT_RECORDS);
+    }
+
+    return { tables, segments, referenced };
+  }
+
+  private async readStorage(): Promise<Record<string, string | null>> {
+    const storage: Record<string, string | null> = {};
+    for (const storageKey of STORAGE_KEYS) {
+      storage[storageKey] = await AsyncStorage.getItem(storageKey);
+    }
+    return storage;
+  }
+
+  private async collectFiles(referenced: Set<string>): Promise<BackupFileEntry[]> {
+    const paths = new Set(referenced);
+
+    for (const folder of MEDIA_FOLDERS) {
+      const directory = `${RNFS.DocumentDirectoryPath}/${folder}`;
+      if (!(await RNFS.exists(directory))) continue;
+      for (const item of await RNFS.readDir(directory)) {
+        if (item.isFile()) paths.add(`${folder}/${item.name}`);
+      }
+    }
+
+    const files: BackupFileEntry[] = [];
+    for (const path of paths) {
+      const fullPath = `${RNFS.DocumentDirectoryPath}/${path}`;
+      if (!(await RNFS.exists(fullPath))) continue;
+      const { size } = await RNFS.stat(fullPath);
+      files.push({
+        path,
+        size: Number(size),
+        nonce: to_base64(randombytes_buf(crypto_aead_xchacha20poly1305_ietf_NPUBBYTES), base64_variants.ORIGINAL),
+      });
+    }
+    return files;
+  }
+
+  // ============================================================
+  // Private — Archive IO
+  // ============================================================
+
+  private async readHeader(path: string): Promise<{ header: BackupHeader; headerBytes: number }> {
+    const start = await RNFS.read(path, 1024, 0, 'utf8');
+    const end = start.indexOf('\n');
+    const header = end > 0 ? parseBackupHeader(start.slice(0, end)) : null;
+    if (!header) {
+      throw new AppError('E602', 'storage', () => {}, { reason: 'backup_invalid' });
+    }
+    // The header is plain ASCII, so characters are bytes
+    return { header, headerBytes: end + 1 };
+  }
+
+  private async appendEncryptedFile(
+    archivePath: string,
+    file: BackupFileEntry,
+    key: Uint8Array,
+    onRead: (bytes: number) => void,
+  ): Promise<void> {
+    const sourcePath = `${RNFS.DocumentDirectoryPath}/${file.path}`;
+    const nonce = from_base64(file.nonce, base64_variants.ORIGINAL);
+    const total = chunkCount(file.size, BACKUP_CHUNK_SIZE);
+
+    for (let index = 0; index < total; index++) {
+      const start = index * BACKUP_CHUNK_SIZE;
+      const length = Math.min(BACKUP_CHUNK_SIZE, file.size - start);
+      const plaintext = length > 0
+        ? from_base64(await RNFS.read(sourcePath, length, start, 'base64'), base64_variants.ORIGINAL)
+        : new Uint8Array(0);
+      const ciphertext = encryptChunk(plaintext, key, nonce, index, total);
+      await RNFS.appendFile(archivePath, to_base64(ciphertext, base64_variants.ORIGINAL), 'base64');
+      onRead(length);
+    }
+  }
+
+  private async restoreEncryptedFile(
+    archivePath: string,
+    offset: number,
+    file: BackupFileEntry,
+    key: Uint8Array,
+    onRead: (bytes: number) => void,
+  ): Promise<void> {
+    const destPath = `${RNFS.DocumentDirectoryPath}/${file.path}`;
+    const folder = destPath.slice(0, destPath.lastIndexOf('/'));
+    const nonce = from_base64(file.nonce, base64_variants.ORIGINAL);
+    const total = chunkCount(file.size, BACKUP_CHUNK_SIZE);
+
+    try {
+      if (!(await RNFS.exists(folder))) {
+        await RNFS.mkdir(folder);
+      }
+      await RNFS.writeFile(destPath, '', 'base64');
+
+      for (let index = 0; index < total; index++) {
+        const length = Math.min(BACKUP_CHUNK_SIZE, file.size - index * BACKUP_CHUNK_SIZE);
+        const start = offset + index * (BACKUP_CHUNK_SIZE + AEAD_TAG_BYTES);
+        const ciphertext = await RNFS.read(archivePath, length + AEAD_TAG_BYTES, start, 'base64');
+        const plaintext = decryptChunk(from_base64(ciphertext, base64_variants.ORIGINAL), key, nonce, index, total);
+        await RNFS.appendFile(destPath, to_base64(plaintext, base64_variants.ORIGINAL), 'base64');
+        onRead(length);
+      }
+    } catch (error) {
+      await RNFS.unlink(destPath).catch(() => {});
+      if (error instanceof AppError) throw error;
+      throw new AppError('E602', 'storage', () => {}, { reason: 'backup_file_damaged' });
+    }
+  }
+
+  /** Copy a file of sealed data onto the end of the archive, chunk by chunk */
+  private async appendArchivePart(archivePath: string, partPath: string): Promise<void> {
+    const size = Number((await RNFS.stat(partPath)).size);
+    for (let position = 0; position < size; position += BACKUP_CHUNK_SIZE) {
+      const length = Math.min(BACKUP_CHUNK_SIZE, size - position);
+      await RNFS.appendFile(archivePath, await RNFS.read(partPath, length, position, 'base64'), 'base64');
+    }
+  }
+
+  private async readSegment(
+    archivePath: string,
+    offset: number,
+    segment: BackupSegment,
+    key: Uint8Array,
+  ): Promise<BackupRecord[]> {
+    try {
+      const sealed = await RNFS.read(archivePath, segment.bytes, offset, 'base64');
+      const nonce = from_base64(segment.nonce, base64_variants.ORIGINAL);
+      return openSegment(from_base64(sealed, base64_variants.ORIGINAL), key, nonce);
+    } catch {
+      throw new AppError('E602', 'storage', () => {}, { reason: 'backup_file_damaged' });
+    }
+  }
+
+  // ============================================================
+  // Private — Restore
+  // ============================================================
+
+  /**
+   * Replace the backed-up tables with the archived records, one segment
+   * at a time (migrated and pointed at this device's DocumentDirectory).
+   */
+  private async restoreSegments(
+    archivePath: string,
+    offset: number,
+    manifest: BackupManifest,
+    tables: string[],
+    key: Uint8Array,
+    onRead: (bytes: number) => void,
+  ): Promise<number> {
+    const db = this.getDb();
+    let position = offset;
+    let written = 0;
+
+    await db.write(async () => {
+      for (const table of tables) {
+        await db.get(table).query().destroyAllPermanently();
+      }
+      for (const segment of manifest.segments) {
+        const records = await this.readSegment(archivePath, position, segment, key);
+        position += segment.bytes;
+        onRead(segment.bytes);
+        if (!tables.includes(segment.table)) continue;
+
+        const migrated = migrateDump(segmentDump(manifest, { [segment.table]: records }), migrations, SCHEMA_VERSION);
+        const dump = rewriteDocumentPaths(migrated, RNFS.DocumentDirectoryPath);
+        const collection = db.get(segment.table);
+        await db.batch(...dump.tables[segment.table].map(raw => collection.prepareCreateFromDirtyRaw(raw)));
+        written += records.length;
+      }
+    });
+
+    return written;
+  }
+
+  private async writeStorage(storage: Record<string, string | null>): Promise<void> {
+    for (const [storageKey, value] of Object.entries(storage)) {
+      if (!STORAGE_KEYS.includes(storageKey)) continue;
+      if (value === null) {
+        await AsyncStorage.removeItem(storageKey);
+      } else {
+        await AsyncStorage.setItem(storageKey, value);
+      }
+    }
+  }
+
+  /**
+   * Remove what a failed restore wrote: the tables it replaced are left
+   * empty, as on a new phone, and the albums get their old value back.
+   */
+  private async rollbackRestore(
+    tables: string[],
+    files: string[],
+    storage: Record<string, string | null> | null,
+  ): Promise<void> {
+    try {
+      if (tables.length > 0) {
+        const db = this.getDb();
+        await db.write(async () => {
+          for (const table of tables) {
+            await db.get(table).query().destroyAllPermanently();
+          }
+        });
+      }
+      for (const file of files) {
+        await RNFS.unlink(`${RNFS.DocumentDirectoryPath}/${file}`).catch(() => {});
+      }
+      if (storage) {
+        await this.writeStorage(storage);
+      }
+    } catch (error) {
+      console.error(LOG_PREFIX, 'Restore rollback failed:', (error as Error).message);
+    }
+  }
+}
+
+export const backupService = new BackupService();
@@ -49,7 +49,8 @@ const STORAGE_KEYS = {
 // v1: Initial version (EPUB preferred)
 // v2: Plain text preferred over EPUB for TTS compatibility
 // v3: EPUB completely removed - only plain text books are now returned
-const CURRENT_CACHE_VERSION = 3;
+// v4: EPUB preferred again - parsed natively by services/epub
+const CURRENT_CACHE_VERSION = 4;
 
 // ============================================================
 // In-Memory Cache
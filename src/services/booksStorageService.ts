@@ -7,6 +7,8 @@
  *
  * Features:
  * - Download books (EPUB/TXT) with progress tracking
+ * - EPUB books are unpacked once into chapters of sanitized XHTML
+ *   (images extracted next to them) and cached as JSON
  * - Store downloaded books in app documents directory
  * - Track reading progress per book
  * - Storage usage monitoring
@@ -19,8 +21,10 @@
 
 import RNFS from 'react-native-fs';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { from_base64, to_base64, base64_variants } from 'react-native-libsodium';
 
 import type { Book, DownloadedBook } from './gutenbergService';
+import { openZip, parseEpub, chapterText, type EpubChapter, type ZipArchive } from './epub';
 import { calculateRetryDelay, BOOKS_DOWNLOAD_RETRY_CONFIG } from './retry-utils';
 
 // ============================================================
@@ -65,6 +69,15 @@ export interface BookChapter {
   estimatedDuration: number;     // Estimated TTS duration in seconds (rough)
 }
 
+/**
+ * One page in the reader
+ */
+export interface BookPage {
+  content: string;               // Plain text (shown for TXT, read aloud by TTS)
+  html?: string;                 // Sanitized XHTML (EPUB only)
+  totalPages: number;
+}
+
 /**
  * TTS settings per language
  */
@@ -118,6 +131,19 @@ const STORAGE_KEYS = {
   readerSettings: '@books:readerSettings',
 };
 
+// Bump when the prepared EPUB format changes so books are unpacked again
+const EPUB_CACHE_VERSION = 1;
+const EPUB_CACHE_FILE = 'book.json';
+const EPUB_IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'gif', 'webp'];
+
+/**
+ * EPUB unpacked into chapters, stored next to the .epub file
+ */
+interface PreparedEpub {
+  version: number;
+  chapters: EpubChapter[];
+}
+
 // Default settings
 const DEFAULT_TTS_SETTINGS: TtsSettings = {
   voices: {},
@@ -145,6 +171,8 @@ class BooksStorageService {
   private initialized = false;
   private activeDownloadJobId: number | null = null;
   private downloadCancelled = false;
+  /** Last opened EPUB, so page turns don't re-read the JSON */
+  private epubCache: { bookId: string; epub: PreparedEpub; pages: Map<number, BookPage[]> } | null = null;
 
   /**
    * Initialize the storage service
@@ -431,6 +459,15 @@ class BooksStorageService {
         console.debug('[BooksStorageService] Deleted file:', book.localPath);
       }
 
+      // Delete unpacked EPUB (chapters + images)
+      const epubDir = this.getEpubDirectory(bookId);
+      if (await RNFS.exists(epubDir)) {
+        await RNFS.unlink(epubDir);
+      }
+      if (this.epubCache?.bookId === bookId) {
+        this.epubCache = null;
+      }
+
       // Remove from library
       const newLibrary = library.filter(b => b.id !== bookId);
       await this.saveLibrary(newLibrary);
@@ -638,7 +675,7 @@ class BooksStorageService {
    * Read book content from file
    *
    * @param book - Downloaded book to read
-   * @returns Book content as string
+   * @returns Book content as string (clean text for EPUB)
    */
   async readBookContent(book: DownloadedBook): Promise<string> {
     try {
@@ -647,12 +684,9 @@ class BooksStorageService {
         throw new Error('Book file not found');
       }
 
-      // Check if this is an EPUB file (binary ZIP archive)
-      const isEpub = book.localPath.endsWith('.epub');
-      if (isEpub) {
-        // EPUB files are ZIP archives and cannot be read as plain text
-        // Re-download as plain text format is needed
-        throw new Error('EPUB_FORMAT_NOT_SUPPORTED');
+      if (this.isEpub(book)) {
+        const epub = await this.loadEpub(book);
+        return epub.chapters.map(chapterText).filter(Boolean).join('\n\n');
       }
 
       const content = await RNFS.readFile(book.localPath, 'utf8');
@@ -667,12 +701,17 @@ class BooksStorageService {
    * Check if a book file format is supported for reading
    */
   isFormatSupported(book: DownloadedBook): boolean {
-    return book.localPath.endsWith('.txt');
+    return book.localPath.endsWith('.txt') || this.isEpub(book);
+  }
+
+  private isEpub(book: DownloadedBook): boolean {
+    return book.localPath.endsWith('.epub');
   }
 
   /**
    * Get a portion of book content for a page
-   * For plain text files, we split by estimated page length
+   * For plain text files, we split by estimated page length.
+   * For EPUB, whole paragraphs are grouped until the page is full.
    *
    * @param book - Downloaded book
    * @param page - Page number (1-based)
@@ -682,7 +721,13 @@ class BooksStorageService {
     book: DownloadedBook,
     page: number,
     charsPerPage: number = 2000
-  ): Promise<{ content: string; totalPages: number }> {
+  ): Promise<BookPage> {
+    if (this.isEpub(book)) {
+      const pages = await this.getEpubPages(book, charsPerPage);
+      const epubPage = pages[Math.max(0, Math.min(page, pages.length) - 1)];
+      return { ...epubPage, totalPages: pages.length };
+    }
+
     const fullContent = await this.readBookContent(book);
     const totalPages = Math.ceil(fullContent.length / charsPerPage);
 
@@ -706,6 +751,131 @@ class BooksStorageService {
     };
   }
 
+  // ============================================================
+  // EPUB
+  // ============================================================
+
+  private getEpubDirectory(bookId: string): string {
+    return `${BOOKS_DIR}/${bookId}_epub`;
+  }
+
+  /**
+   * Load the unpacked EPUB, unpacking it on first use.
+   * Throws EPUB_INVALID when the file is not a readable EPUB.
+   */
+  private async loadEpub(book: DownloadedBook): Promise<PreparedEpub> {
+    if (this.epubCache?.bookId === book.id) {
+      return this.epubCache.epub;
+    }
+
+    const epubDir = this.getEpubDirectory(book.id);
+    const cachePath = `${epubDir}/${EPUB_CACHE_FILE}`;
+    let epub: PreparedEpub | null = null;
+
+    if (await RNFS.exists(cachePath)) {
+      try {
+        const cached = JSON.parse(await RNFS.readFile(cachePath, 'utf8')) as PreparedEpub;
+        if (cached.version === EPUB_CACHE_VERSION) epub = cached;
+      } catch (error) {
+        console.warn('[BooksStorageService] Unpacked EPUB unreadable, unpacking again:', book.id);
+      }
+    }
+
+    if (!epub) {
+      epub = await this.unpackEpub(book, epubDir);
+      await RNFS.writeFile(cachePath, JSON.stringify(epub), 'utf8');
+    }
+
+    this.epubCache = { bookId: book.id, epub, pages: new Map() };
+    return epub;
+  }
+
+  /**
+   * Parse the EPUB and extract its images next to the chapters.
+   */
+  private async unpackEpub(book: DownloadedBook, epubDir: string): Promise<PreparedEpub> {
+    console.info('[BooksStorageService] Unpacking EPUB:', book.id);
+
+    const data = await RNFS.readFile(book.localPath, 'base64');
+    const images = new Map<string, string>();
+    let chapters: EpubChapter[];
+    let zip: ZipArchive;
+
+    try {
+      zip = openZip(from_base64(data, base64_variants.ORIGINAL));
+      chapters = parseEpub(zip, archivePath => {
+        const extension = archivePath.split('.').pop()?.toLowerCase() ?? '';
+        if (!EPUB_IMAGE_EXTENSIONS.includes(extension) || !zip.entries.has(archivePath)) return null;
+
+        let fileName = images.get(archivePath);
+        if (!fileName) {
+          fileName = `image_${images.size}.${extension}`;
+          images.set(archivePath, fileName);
+        }
+        return `file://${epubDir}/${fileName}`;
+      }).chapters;
+    } catch (error) {
+      console.error('[BooksStorageService] EPUB parse failed:', book.id, error);
+      throw new Error('EPUB_INVALID');
+    }
+
+    if (await RNFS.exists(epubDir)) {
+      await RNFS.unlink(epubDir);
+    }
+    await RNFS.mkdir(epubDir);
+
+    for (const [archivePath, fileName] of images) {
+      try {
+        const bytes = zip.read(archivePath);
+        if (bytes) {
+          await RNFS.writeFile(`${epubDir}/${fileName}`, to_base64(bytes, base64_variants.ORIGINAL), 'base64');
+        }
+      } catch (error) {
+        // A broken image should not block the text
+        console.warn('[BooksStorageService] Skipping EPUB image:', archivePath);
+      }
+    }
+
+    console.info('[BooksStorageService] Unpacked EPUB:', book.id, chapters.length, 'chapters,', images.size, 'images');
+    return { version: EPUB_CACHE_VERSION, chapters };
+  }
+
+  /**
+   * Split the EPUB into pages of whole paragraphs.
+   * A new chapter always starts on a new page.
+   */
+  private async getEpubPages(book: DownloadedBook, charsPerPage: number): Promise<BookPage[]> {
+    await this.loadEpub(book);
+    const cache = this.epubCache!;
+    const cached = cache.pages.get(charsPerPage);
+    if (cached) return cached;
+
+    const pages: BookPage[] = [];
+    for (const chapter of cache.epub.chapters) {
+      let html: string[] = [];
+      let text: string[] = [];
+      let length = 0;
+
+      for (const block of chapter.blocks) {
+        if (length > 0 && length + block.text.length > charsPerPage) {
+          pages.push({ content: text.join('\n\n'), html: html.join(''), totalPages: 0 });
+          html = [];
+          text = [];
+          length = 0;
+        }
+        html.push(block.html);
+        if (block.text) text.push(block.text);
+        length += block.text.length;
+      }
+      if (html.length > 0) {
+        pages.push({ content: text.join('\n\n'), html: html.join(''), totalPages: 0 });
+      }
+    }
+
+    cache.pages.set(charsPerPage, pages);
+    return pages;
+  }
+
   // ============================================================
   // Chapter Parsing (for Audio Player mode)
   // ============================================================
@@ -724,6 +894,10 @@ class BooksStorageService {
    * @returns Array of chapters
    */
   async getBookChapters(book: DownloadedBook): Promise<BookChapter[]> {
+    if (this.isEpub(book)) {
+      return this.getEpubChapters(book);
+    }
+
     const fullContent = await this.readBookContent(book);
 
     // Minimum content length for a valid chapter (skip table of contents entries)
@@ -847,6 +1021,34 @@ class BooksStorageService {
     return chapters;
   }
 
+  /**
+   * EPUB chapters come from the book's own table of contents.
+   * Chapters without text (cover, illustrations) are skipped for listening.
+   */
+  private async getEpubChapters(book: DownloadedBook): Promise<BookChapter[]> {
+    const epub = await this.loadEpub(book);
+    const chapters: BookChapter[] = [];
+    let position = 0;
+
+    for (const epubChapter of epub.chapters) {
+      const content = chapterText(epubChapter);
+      if (!content) continue;
+
+      chapters.push({
+        index: chapters.length,
+        title: epubChapter.title,
+        content,
+        startPosition: position,
+        endPosition: position + content.length,
+        estimatedDuration: Math.ceil(content.length / this.TTS_CHARS_PER_SECOND),
+      });
+      position += content.length + 2; // '\n\n' between chapters in readBookContent
+    }
+
+    console.debug('[BooksStorageService] EPUB has', chapters.length, 'chapters for book:', book.id);
+    return chapters;
+  }
+
   // ============================================================
   // Chapter Progress
   // ============================================================
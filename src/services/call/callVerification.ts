@@ -0,0 +1,109 @@
+/**
+ * Call Verification — DTLS fingerprints and the call verification code
+ *
+ * Call signaling is end-to-end encrypted (see signalingSecurity.ts), so the
+ * DTLS fingerprint in a remote SDP was written by the contact, not by the
+ * server. Two checks build on that:
+ * - After connecting, the certificate WebRTC actually negotiated must match
+ *   the fingerprint from the authenticated SDP
+ * - When both sides QR-verified each other, both screens show the same
+ *   6-digit code, derived from both fingerprints. Reading it aloud proves
+ *   nobody relays the media in between.
+ *
+ * @see services/call/signalingSecurity.ts
+ * @see services/safetyNumber.ts (same idea for contact keys)
+ */
+
+import { crypto_generichash } from 'react-native-libsodium';
+import { asciiBytes } from '../crypto-utils';
+import type { RTCPeerConnection, RTCStats } from './types';
+
+/** Domain separation for the code hash */
+const CODE_CONTEXT = 'commeazy.call.verification.v1';
+
+/** Digits in the verification code */
+const CODE_LENGTH = 6;
+
+// ============================================================
+// Fingerprints
+// ============================================================
+
+/**
+ * DTLS fingerprint from an SDP, normalized as "sha-256 AB:CD:…".
+ * Returns null when there is none, or when media sections disagree.
+ */
+export function extractDtlsFingerprint(sdp: string): string | null {
+  const fingerprints = new Set<string>();
+  for (const match of sdp.matchAll(/^a=fingerprint:(\S+)\s+([0-9A-Fa-f:]+)\s*$/gm)) {
+    fingerprints.add(normalizeFingerprint(match[1], match[2]));
+  }
+  return fingerprints.size === 1 ? [...fingerprints][0] : null;
+}
+
+/**
+ * Fingerprint of the certificate the remote side used in the DTLS
+ * handshake, from the connection stats. Null when the stats do not
+ * report it (the check is then left to WebRTC itself).
+ */
+export async function getNegotiatedRemoteFingerprint(
+  connection: RTCPeerConnection,
+): Promise<string | null> {
+  const report = await connection.getStats();
+  const stats: RTCStats[] = [...report.values()];
+
+  const transport = stats.find(
+    (stat) => stat.type === 'transport' && typeof stat.remoteCertificateId === 'string',
+  );
+  const certificate = transport
+    ? report.get(transport.remoteCertificateId as string)
+    : undefined;
+
+  if (
+    !certificate
+    || typeof certificate.fingerprint !== 'string'
+    || typeof certificate.fingerprintAlgorithm !== 'string'
+  ) {
+    return null;
+  }
+  return normalizeFingerprint(certificate.fingerprintAlgorithm, certificate.fingerprint);
+}
+
+// ============================================================
+// Verification Code
+// ============================================================
+
+/**
+ * 6-digit code for one call leg, identical on both devices.
+ * Changes with every call because the certificates and call id do.
+ */
+export function computeCallVerificationCode(
+  callId: string,
+  localFingerprint: string,
+  remoteFingerprint: string,
+): string {
+  const [first, second] = [localFingerprint, remoteFingerprint].sort();
+  const hash = crypto_generichash(32, asciiBytes(`${CODE_CONTEXT}|${callId}|${first}|${second}`), null);
+
+  // 32 bits exceed signed bitwise operators, so multiply instead of shifting
+  let value = 0;
+  for (let i = 0; i < 4; i++) {
+    value = value * 256 + hash[i];
+  }
+  return String(value % 10 ** CODE_LENGTH).padStart(CODE_LENGTH, '0');
+}
+
+/**
+ * "123456" → "123 456", easier to read aloud.
+ */
+export function formatCallVerificationCode(code: string): string {
+  const half = Math.ceil(code.length / 2);
+  return `${code.slice(0, half)} ${code.slice(half)}`;
+}
+
+// ============================================================
+// Private helpers
+// ============================================================
+
+function normalizeFingerprint(algorithm: string, hex: string): string {
+  return `${algorithm.toLowerCase()} ${hex.toUpperCase()}`;
+}
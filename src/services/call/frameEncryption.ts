@@ -0,0 +1,247 @@
+/**
+ * Frame Encryption — end-to-end media protection for SFU group calls
+ *
+ * In a mesh call DTLS runs between the phones themselves. Through the SFU
+ * it ends at the server, which could see the media. Where the WebRTC
+ * stack offers insertable streams (createEncodedStreams), every encoded
+ * frame is sealed again with a key only the participants have:
+ * - The host creates the key and sends it inside the sealed group invite
+ * - When someone leaves, the roster leader sends a new key (group-key); the
+ *   previous key keeps decrypting frames sealed before a sender switched
+ * - Senders say whether they encrypt (sfu-join), the SFU passes that on
+ *   per forwarded track, and receivers only decrypt tracks that are sealed
+ * - Frame = unencrypted codec header ‖ XChaCha20-Poly1305 ciphertext ‖ nonce
+ * - The header stays readable so the SFU can still route keyframes; it is
+ *   authenticated as associated data
+ *
+ * Without insertable streams the call still works, but only with transport
+ * encryption to the SFU. ActiveCall.isFrameEncrypted tells the UI which.
+ *
+ * @see services/call/sfuSession.ts
+ * @see server/sfu/server.js
+ */
+
+import {
+  crypto_aead_xchacha20poly1305_ietf_encrypt,
+  crypto_aead_xchacha20poly1305_ietf_decrypt,
+  crypto_aead_xchacha20poly1305_ietf_keygen,
+  crypto_aead_xchacha20poly1305_ietf_NPUBBYTES,
+  randombytes_buf,
+  to_base64,
+  from_base64,
+  base64_variants,
+} from 'react-native-libsodium';
+
+// ============================================================
+// Types
+// ============================================================
+
+/** RTCEncodedAudioFrame / RTCEncodedVideoFrame */
+export interface EncodedFrame {
+  data: ArrayBuffer;
+  type?: 'key' | 'delta' | 'empty';
+}
+
+interface EncodedStreams {
+  readable: { getReader(): { read(): Promise<{ value?: EncodedFrame; done: boolean }> } };
+  writable: { getWriter(): { write(frame: EncodedFrame): Promise<void> } };
+}
+
+/** RTCRtpSender or RTCRtpReceiver, with insertable streams when supported */
+export interface InsertableStreamsEndpoint {
+  track: { kind: string } | null;
+  createEncodedStreams?: () => EncodedStreams;
+}
+
+export type FrameKind = 'audio' | 'video';
+
+/**
+ * Keys of a call, read by the running frame transforms on every frame, so
+ * a rekey applies without renegotiating
+ */
+export interface FrameKeyRing {
+  /** Senders seal with this key */
+  current: Uint8Array;
+  /** Key before the last rekey, still accepted on received frames */
+  previous: Uint8Array | null;
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+/**
+ * Bytes left readable at the start of a frame (as in other SFrame-style
+ * schemes): the Opus TOC byte, the VP8 payload header (10 bytes on a
+ * keyframe, 3 otherwise)
+ */
+const CLEAR_BYTES = {
+  audio: 1,
+  videoKey: 10,
+  videoDelta: 3,
+};
+
+// ============================================================
+// Keys & Frames
+// ============================================================
+
+/**
+ * New frame key for a group call (base64, sent in the sealed invite)
+ */
+export function createFrameKey(): string {
+  return to_base64(crypto_aead_xchacha20poly1305_ietf_keygen(), base64_variants.ORIGINAL);
+}
+
+export function decodeFrameKey(key: string): Uint8Array {
+  return from_base64(key, base64_variants.ORIGINAL);
+}
+
+export function createKeyRing(key: string): FrameKeyRing {
+  return { current: decodeFrameKey(key), previous: null };
+}
+
+/**
+ * Switch to a new key (in place); the replaced key stays accepted for
+ * frames that were in flight
+ */
+export function rotateKeyRing(ring: FrameKeyRing, key: string): void {
+  const next = decodeFrameKey(key);
+  if (sameKey(next, ring.current)) return;
+  ring.previous = ring.current;
+  ring.current = next;
+}
+
+export function encryptFrame(
+  frame: Uint8Array,
+  kind: FrameKind,
+  isKeyFrame: boolean,
+  key: Uint8Array,
+): Uint8Array {
+  const clear = Math.min(clearBytes(kind, isKeyFrame), frame.length);
+  const header = frame.subarray(0, clear);
+  const nonce = randombytes_buf(crypto_aead_xchacha20poly1305_ietf_NPUBBYTES);
+  const ciphertext = crypto_aead_xchacha20poly1305_ietf_encrypt(
+    frame.subarray(clear),
+    header,
+    null,
+    nonce,
+    key,
+  );
+
+  const out = new Uint8Array(clear + ciphertext.length + crypto_aead_xchacha20poly1305_ietf_NPUBBYTES);
+  out.set(header, 0);
+  out.set(ciphertext, clear);
+  out.set(nonce, clear + ciphertext.length);
+  return out;
+}
+
+/**
+ * Returns null for frames that do not decrypt (wrong key, tampered, or
+ * sent before the key arrived); those are dropped.
+ */
+export function decryptFrame(
+  frame: Uint8Array,
+  kind: FrameKind,
+  isKeyFrame: boolean,
+  key: Uint8Array,
+): Uint8Array | null {
+  const clear = clearBytes(kind, isKeyFrame);
+  if (frame.length < clear + crypto_aead_xchacha20poly1305_ietf_NPUBBYTES) return null;
+
+  const header = frame.subarray(0, clear);
+  const nonce = frame.subarray(frame.length - crypto_aead_xchacha20poly1305_ietf_NPUBBYTES);
+  try {
+    const plaintext = crypto_aead_xchacha20poly1305_ietf_decrypt(
+      null,
+      frame.subarray(clear, frame.length - crypto_aead_xchacha20poly1305_ietf_NPUBBYTES),
+      header,
+      nonce,
+      key,
+    );
+    const out = new Uint8Array(clear + plaintext.length);
+    out.set(header, 0);
+    out.set(plaintext, clear);
+    return out;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================
+// Insertable Streams
+// ============================================================
+
+/**
+ * Whether this WebRTC stack can transform encoded frames
+ */
+export function supportsFrameEncryption(endpoint: InsertableStreamsEndpoint): boolean {
+  return typeof endpoint.createEncodedStreams === 'function';
+}
+
+/**
+ * Encrypt everything a sender sends. Returns false when not supported.
+ */
+export function protectSender(sender: InsertableStreamsEndpoint, keys: FrameKeyRing): boolean {
+  return transformFrames(sender, (frame, kind) => encryptFrame(frame.data, kind, frame.isKey, keys.current));
+}
+
+/**
+ * Decrypt everything a receiver gets. Returns false when not supported.
+ */
+export function protectReceiver(receiver: InsertableStreamsEndpoint, keys: FrameKeyRing): boolean {
+  return transformFrames(receiver, (frame, kind) => decryptWithRing(frame.data, kind, frame.isKey, keys));
+}
+
+// ============================================================
+// Private helpers
+// ============================================================
+
+function decryptWithRing(
+  frame: Uint8Array,
+  kind: FrameKind,
+  isKeyFrame: boolean,
+  keys: FrameKeyRing,
+): Uint8Array | null {
+  const decrypted = decryptFrame(frame, kind, isKeyFrame, keys.current);
+  if (decrypted || !keys.previous) return decrypted;
+  return decryptFrame(frame, kind, isKeyFrame, keys.previous);
+}
+
+function sameKey(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+function clearBytes(kind: FrameKind, isKeyFrame: boolean): number {
+  if (kind === 'audio') return CLEAR_BYTES.audio;
+  return isKeyFrame ? CLEAR_BYTES.videoKey : CLEAR_BYTES.videoDelta;
+}
+
+function transformFrames(
+  endpoint: InsertableStreamsEndpoint,
+  transform: (frame: { data: Uint8Array; isKey: boolean }, kind: FrameKind) => Uint8Array | null,
+): boolean {
+  if (!endpoint.createEncodedStreams || !endpoint.track) return false;
+
+  const kind: FrameKind = endpoint.track.kind === 'video' ? 'video' : 'audio';
+  const { readable, writable } = endpoint.createEncodedStreams();
+  const reader = readable.getReader();
+  const writer = writable.getWriter();
+
+  const pump = async (): Promise<void> => {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done || !value) return;
+
+      const out = transform({ data: new Uint8Array(value.data), isKey: value.type === 'key' }, kind);
+      if (out) {
+        value.data = out.buffer as ArrayBuffer;
+        await writer.write(value);
+      }
+    }
+  };
+
+  pump().catch((error) => {
+    console.warn('[FrameEncryption] Frame pipe stopped:', error);
+  });
+  return true;
+}
@@ -7,7 +7,10 @@
  * Features:
  * - 1-on-1 P2P calls (voice and video)
  * - 3-way mesh calls (max 3 participants)
- * - XMPP signaling for SDP/ICE exchange
+ * - Group calls up to 8 participants through the SFU (sfuSession.ts)
+ * - XMPP signaling for SDP/ICE exchange, end-to-end encrypted
+ * - DTLS fingerprint check and verification code for verified contacts
+ * - Connection quality monitoring with adaptive video encoding
  * - On-device media processing (privacy-first)
  *
  * @see interfaces.ts for CallService interface
@@ -23,6 +26,7 @@ import type {
   ActiveCall,
   CallEndReason,
   CallParticipant,
+  ConnectionQuality,
   IceServer,
   Observable,
   Unsubscribe,
@@ -30,16 +34,29 @@ import type {
 
 import { webrtcService, WebRTCService } from './webrtcService';
 import { signalingService, CallSignalingService, type XMPPSignaling } from './signalingService';
+import type { SignalingSecurity } from './signalingSecurity';
+import {
+  extractDtlsFingerprint,
+  getNegotiatedRemoteFingerprint,
+  computeCallVerificationCode,
+} from './callVerification';
 import { MeshManager } from './meshManager';
+import { SfuSession } from './sfuSession';
+import { createFrameKey } from './frameEncryption';
+import { CallQualityMonitor, VIDEO_ENCODINGS, type QualityUpdate } from './qualityMonitor';
 import {
   CALL_TIMEOUTS,
   CALL_LIMITS,
+  SFU_JID,
   type CallOfferPayload,
   type CallAnswerPayload,
   type IceCandidatePayload,
   type CallControlPayload,
   type CallInvitePayload,
+  type CallGroupInvitePayload,
+  type CallGroupKeyPayload,
   type InternalCallState,
+  type RTCPeerConnection,
 } from './types';
 import { callSoundService, type CallSoundSettings } from './callSoundService';
 import { callKitService } from './callKitService';
@@ -68,7 +85,10 @@ function normalizeJid(jid: string): string {
 export class WebRTCCallService implements CallService {
   private webrtc: WebRTCService = webrtcService;
   private signaling: CallSignalingService = signalingService;
+  private security: SignalingSecurity | null = null;
   private mesh: MeshManager;
+  private sfu: SfuSession;
+  private qualityMonitor: CallQualityMonitor = new CallQualityMonitor();
 
   private localJid: string = '';
   private currentCall: InternalCallState | null = null;
@@ -84,6 +104,13 @@ export class WebRTCCallService implements CallService {
 
   constructor() {
     this.mesh = new MeshManager(this.webrtc);
+    this.sfu = new SfuSession(this.webrtc, {
+      send: (signal) => this.signaling.sendToSfu(signal),
+      onRosterChange: (participants) => this.handleSfuRoster(participants),
+      onStreamsChange: () => this.notifyStateChange(),
+      onConnectionStateChange: (state) => this.handleConnectionStateChange(SFU_JID, state),
+      onError: (code) => this.handleSfuError(code),
+    });
   }
 
   // ============================================================
@@ -100,6 +127,9 @@ export class WebRTCCallService implements CallService {
       onIceCandidate: this.handleRemoteIceCandidate.bind(this),
       onCallControl: this.handleCallControl.bind(this),
       onCallInvite: this.handleCallInvite.bind(this),
+      onGroupInvite: this.handleGroupInvite.bind(this),
+      onGroupKey: this.handleGroupKey.bind(this),
+      onSfuSignal: (signal) => this.sfu.handleSignal(signal),
     });
 
     // Set up CallKit for native iOS call UI
@@ -138,12 +168,13 @@ export class WebRTCCallService implements CallService {
   }
 
   /**
-   * Initialize with XMPP service and local JID
+   * Initialize with XMPP service, local JID and signaling encryption
    * Called after XMPPService is connected
    */
-  initializeWithXMPP(xmpp: XMPPSignaling, localJid: string): void {
+  initializeWithXMPP(xmpp: XMPPSignaling, localJid: string, security: SignalingSecurity): void {
     this.localJid = localJid;
-    this.signaling.initialize(xmpp);
+    this.security = security;
+    this.signaling.initialize(xmpp, security);
     console.info('[CallService] Connected to XMPP as:', localJid);
   }
 
@@ -156,6 +187,7 @@ export class WebRTCCallService implements CallService {
     this.mesh.cleanup();
     this.webrtc.cleanup();
     this.signaling.cleanup();
+    this.security = null;
 
     this.stateObservers.clear();
     this.incomingCallHandlers.clear();
@@ -217,11 +249,15 @@ export class WebRTCCallService implements CallService {
       peerConnections: new Map([[contactJid, peerState]]),
       localMedia: this.webrtc.getLocalMediaState(),
       isSpeakerOn: type === 'video', // Video calls default to speaker
+      peerSecurity: new Map(),
+      stalledPeers: new Set(),
+      mode: 'mesh',
     };
 
     // Create and send offer
     const offer = await this.mesh.createOffer(contactJid);
-    await this.signaling.sendOffer(contactJid, callId, type, offer);
+    const verified = await this.isVerifiedContact(contactJid);
+    await this.signaling.sendOffer(contactJid, callId, type, offer, verified);
 
     // Start ring timeout
     this.startRingTimeout();
@@ -257,6 +293,11 @@ export class WebRTCCallService implements CallService {
       throw new Error('[CallService] Cannot answer outgoing call');
     }
 
+    if (this.currentCall.mode === 'sfu') {
+      await this.answerGroupCall(this.currentCall);
+      return;
+    }
+
     if (!this.currentCall.pendingOfferSdp) {
       throw new Error('[CallService] No pending offer SDP');
     }
@@ -308,7 +349,8 @@ export class WebRTCCallService implements CallService {
     // 4. Create and send answer
     console.info('[CallService] Step 4: Creating and sending answer');
     const answer = await this.mesh.createAnswer(callerJid);
-    await this.signaling.sendAnswer(callerJid, callId, answer);
+    const verified = await this.isVerifiedContact(callerJid);
+    await this.signaling.sendAnswer(callerJid, callId, answer, verified);
 
     // Clean up pending SDP
     delete this.currentCall.pendingOfferSdp;
@@ -333,8 +375,10 @@ export class WebRTCCallService implements CallService {
     // Clear ring timeout
     this.clearRingTimeout();
 
-    // Send decline to all participants
-    const participants = this.mesh.getParticipantJids();
+    // Send decline to all participants (group calls: only the host invited us)
+    const participants = this.currentCall.mode === 'sfu'
+      ? [...this.currentCall.participants.keys()].slice(0, 1)
+      : this.mesh.getParticipantJids();
     await Promise.all(
       participants.map((jid) => this.signaling.sendControl(jid, callId, 'decline'))
     );
@@ -355,8 +399,13 @@ export class WebRTCCallService implements CallService {
     this.clearRingTimeout();
     this.clearDurationInterval();
 
-    // Send hangup to all participants
-    const participants = this.mesh.getParticipantJids();
+    // Send hangup to all participants. Group calls: the others see us leave
+    // the room; only those still ringing need to hear it.
+    const participants = this.currentCall.mode === 'sfu'
+      ? [...this.currentCall.participants.values()]
+        .filter((p) => p.connectionState !== 'connected')
+        .map((p) => p.jid)
+      : this.mesh.getParticipantJids();
     await Promise.all(
       participants.map((jid) => this.signaling.sendControl(jid, callId, 'hangup'))
     );
@@ -404,7 +453,8 @@ export class WebRTCCallService implements CallService {
       callId,
       this.currentCall.type,
       existingParticipants,
-      offer
+      offer,
+      await this.isVerifiedContact(contactJid)
     );
 
     this.notifyStateChange();
@@ -424,6 +474,7 @@ export class WebRTCCallService implements CallService {
     this.mesh.removeParticipant(contactJid);
     this.currentCall.participants.delete(contactJid);
     this.currentCall.peerConnections.delete(contactJid);
+    this.currentCall.stalledPeers.delete(contactJid);
 
     // If only self left, end the call
     if (this.currentCall.participants.size === 0) {
@@ -438,9 +489,308 @@ export class WebRTCCallService implements CallService {
     if (!this.currentCall || this.currentCall.id !== callId) {
       return false;
     }
+    // Group calls are invited up front
+    if (this.currentCall.mode === 'sfu') {
+      return false;
+    }
     return this.mesh.canAddParticipant();
   }
 
+  // ============================================================
+  // Group Calls (SFU)
+  // ============================================================
+
+  async initiateGroupCall(contactJids: string[], type: CallType): Promise<string> {
+    const self = normalizeJid(this.localJid);
+    const invitees = [...new Set(contactJids.map(normalizeJid))].filter((jid) => jid !== self);
+
+    if (invitees.length === 0) {
+      throw new Error('[CallService] No contacts to call');
+    }
+    if (invitees.length + 1 > CALL_LIMITS.MAX_GROUP_PARTICIPANTS) {
+      throw new Error('[CallService] Max participants reached');
+    }
+
+    // Up to 3 people the mesh stays the better path (no server in between)
+    if (invitees.length + 1 <= CALL_LIMITS.MAX_PARTICIPANTS) {
+      const callId = await this.initiateCall(invitees[0], type);
+      for (const jid of invitees.slice(1)) {
+        await this.addParticipant(callId, jid);
+      }
+      return callId;
+    }
+
+    if (this.currentCall) {
+      throw new Error('[CallService] Already in a call');
+    }
+
+    const callId = uuid.v4() as string;
+    console.info('[CallService] Initiating', type, 'group call with', invitees.length, 'contacts, id:', callId);
+
+    InCallManager.start({ media: type === 'video' ? 'video' : 'audio' });
+    await this.webrtc.startLocalMedia(type);
+
+    const mediaKey = createFrameKey();
+    this.currentCall = {
+      id: callId,
+      type,
+      direction: 'outgoing',
+      state: 'ringing',
+      participants: new Map(invitees.map((jid) => [jid, {
+        jid,
+        name: this.getContactName?.(jid) || jid,
+        isMuted: false,
+        isVideoEnabled: type === 'video',
+        connectionState: 'connecting',
+      }])),
+      peerConnections: new Map(),
+      localMedia: this.webrtc.getLocalMediaState(),
+      isSpeakerOn: true, // Group calls are on speaker, also voice-only
+      peerSecurity: new Map(),
+      stalledPeers: new Set(),
+      mode: 'sfu',
+      mediaKey,
+    };
+
+    // The room must exist (with its guest list) before anyone is invited;
+    // SFU signals and invites share the send queue, so the join goes first
+    await this.sfu.join(callId, type, mediaKey, invitees);
+
+    const everyone = [self, ...invitees];
+    await Promise.all(invitees.map((jid) =>
+      this.signaling.sendGroupInvite(jid, callId, type, everyone, mediaKey).catch((error) => {
+        // One unreachable contact must not stop the family call
+        console.warn('[CallService] Could not invite', jid, error);
+        this.currentCall?.participants.delete(jid);
+      })
+    ));
+
+    if (this.currentCall.participants.size === 0) {
+      this.endCallInternal('failed');
+      throw new Error('[CallService] Could not invite anyone');
+    }
+
+    this.startRingTimeout();
+    callKitService.startOutgoingCall(
+      callId,
+      invitees[0],
+      [...this.currentCall.participants.values()].map((p) => p.name).join(', '),
+      type === 'video'
+    );
+
+    this.notifyStateChange();
+    return callId;
+  }
+
+  private handleGroupInvite(from: string, payload: CallGroupInvitePayload): void {
+    const host = normalizeJid(from);
+
+    if (this.currentCall) {
+      console.info('[CallService] Busy, declining group invite from:', from);
+      void this.signaling.sendControl(host, payload.callId, 'busy');
+      return;
+    }
+
+    // The host must be the first participant, and the group within limits
+    if (payload.participants[0] !== host || payload.participants.length > CALL_LIMITS.MAX_GROUP_PARTICIPANTS) {
+      console.warn('[CallService] Ignoring malformed group invite from:', from);
+      return;
+    }
+
+    console.info('[CallService] Incoming', payload.callType, 'group call from:', from);
+
+    const self = normalizeJid(this.localJid);
+    const others = payload.participants.filter((jid) => jid !== self);
+
+    this.currentCall = {
+      id: payload.callId,
+      type: payload.callType,
+      direction: 'incoming',
+      state: 'ringing',
+      // Host first: the incoming call screen shows who is calling
+      participants: new Map(others.map((jid) => [jid, {
+        jid,
+        name: this.getContactName?.(jid) || jid,
+        isMuted: false,
+        isVideoEnabled: payload.callType === 'video',
+        connectionState: 'connecting',
+      }])),
+      peerConnections: new Map(),
+      localMedia: {
+        stream: null,
+        audioTrack: null,
+        videoTrack: null,
+        isMuted: false,
+        isVideoEnabled: payload.callType === 'video',
+        isFrontCamera: true,
+      },
+      isSpeakerOn: true,
+      peerSecurity: new Map(),
+      stalledPeers: new Set(),
+      mode: 'sfu',
+      mediaKey: payload.mediaKey,
+    };
+
+    void this.signaling.sendControl(host, payload.callId, 'ringing');
+
+    callKitService.displayIncomingCall(
+      payload.callId,
+      host,
+      this.getContactName?.(host) || host,
+      payload.callType === 'video'
+    );
+    callSoundService.onIncomingCallRinging();
+    this.startRingTimeout();
+
+    const activeCall = this.toActiveCall(this.currentCall);
+    this.incomingCallHandlers.forEach((handler) => handler(activeCall));
+    this.notifyStateChange();
+  }
+
+  private async answerGroupCall(call: InternalCallState): Promise<void> {
+    if (this.isAnswering) return;
+    this.isAnswering = true;
+
+    console.info('[CallService] Joining group call:', call.id);
+
+    InCallManager.start({ media: call.type === 'video' ? 'video' : 'audio' });
+    callKitService.reportCallAnswered(call.id);
+    callSoundService.onIncomingCallEnded();
+    this.clearRingTimeout();
+
+    try {
+      await this.webrtc.startLocalMedia(call.type);
+      call.localMedia = this.webrtc.getLocalMediaState();
+      call.state = 'connecting';
+      this.notifyStateChange();
+
+      await this.sfu.join(call.id, call.type, call.mediaKey);
+    } finally {
+      this.isAnswering = false;
+    }
+  }
+
+  /**
+   * Who is in the SFU room. Invitees not yet in it are still ringing;
+   * participants that were in it and are gone have left.
+   */
+  private handleSfuRoster(roster: string[]): void {
+    const call = this.currentCall;
+    if (!call || call.mode !== 'sfu') return;
+
+    const self = normalizeJid(this.localJid);
+    const previous = call.sfuRoster ?? [];
+    call.sfuRoster = roster;
+    const present = new Set(roster.filter((jid) => jid !== self));
+
+    for (const jid of present) {
+      const participant = call.participants.get(jid);
+      if (participant) {
+        participant.connectionState = 'connected';
+      } else {
+        call.participants.set(jid, {
+          jid,
+          name: this.getContactName?.(jid) || jid,
+          isMuted: false,
+          isVideoEnabled: call.type === 'video',
+          connectionState: 'connected',
+        });
+      }
+    }
+    for (const participant of [...call.participants.values()]) {
+      if (participant.connectionState === 'connected' && !present.has(participant.jid)) {
+        this.handleGroupMemberGone(participant.jid);
+        if (this.currentCall !== call) return;
+      }
+    }
+    if (roster[0] === self) {
+      this.shareGroupKey(call, previous, roster);
+    }
+
+    // The first one to join answers the host's call
+    if (call.state === 'ringing' && present.size > 0) {
+      this.clearRingTimeout();
+      call.state = 'connecting';
+      const iceState = this.sfu.getConnection()?.connection.iceConnectionState;
+      if (iceState === 'connected' || iceState === 'completed') {
+        this.handleConnectionStateChange(SFU_JID, iceState);
+        return;
+      }
+    }
+
+    this.notifyStateChange();
+  }
+
+  /**
+   * Roster leader (first in the room): a new frame key when someone left,
+   * so they cannot follow the rest of the call, and the current key to
+   * whoever joined since the last roster
+   */
+  private shareGroupKey(call: InternalCallState, previous: string[], roster: string[]): void {
+    if (!call.mediaKey) return;
+
+    const self = normalizeJid(this.localJid);
+    const others = roster.filter((jid) => jid !== self);
+    const someoneLeft = previous.some((jid) => !roster.includes(jid));
+    const recipients = someoneLeft ? others : others.filter((jid) => !previous.includes(jid));
+    if (recipients.length === 0) return;
+
+    if (someoneLeft) {
+      call.mediaKey = createFrameKey();
+      this.sfu.rekey(call.mediaKey);
+    }
+    const { id, mediaKey } = call;
+    for (const jid of recipients) {
+      void this.signaling.sendGroupKey(jid, id, mediaKey).catch((error) => {
+        console.warn('[CallService] Could not send group key to', jid, error);
+      });
+    }
+  }
+
+  /**
+   * New frame key from the roster leader. Only someone still in this call
+   * may hand out keys.
+   */
+  private handleGroupKey(from: string, payload: CallGroupKeyPayload): void {
+    const call = this.currentCall;
+    const sender = normalizeJid(from);
+    if (!call || call.mode !== 'sfu' || call.id !== payload.callId || !call.participants.has(sender)) {
+      console.warn('[CallService] Ignoring group key from:', from);
+      return;
+    }
+
+    call.mediaKey = payload.mediaKey;
+    this.sfu.rekey(payload.mediaKey);
+  }
+
+  /**
+   * A group call participant declined, hung up or left the room
+   */
+  private handleGroupMemberGone(jid: string): void {
+    const call = this.currentCall;
+    if (!call) return;
+
+    // Still ringing and the host gave up: the call is off
+    const host = [...call.participants.keys()][0];
+    if (call.direction === 'incoming' && call.state === 'ringing' && jid === host) {
+      this.endCallInternal('hangup');
+      return;
+    }
+
+    call.participants.delete(jid);
+    call.stalledPeers.delete(jid);
+    if (call.participants.size === 0) {
+      this.endCallInternal('hangup');
+      return;
+    }
+    this.notifyStateChange();
+  }
+
+  private handleSfuError(code: string): void {
+    console.warn('[CallService] Group call server refused:', code);
+    this.endCallInternal(code === 'room-full' ? 'busy' : 'failed');
+  }
+
   // ============================================================
   // Local Controls
   // ============================================================
@@ -534,6 +884,9 @@ export class WebRTCCallService implements CallService {
    * Get all remote streams mapped by JID
    */
   getRemoteStreams(): Map<string, MediaStream> {
+    if (this.currentCall?.mode === 'sfu') {
+      return this.sfu.getRemoteStreams();
+    }
     return this.mesh.getRemoteStreams();
   }
 
@@ -549,6 +902,15 @@ export class WebRTCCallService implements CallService {
       return;
     }
 
+    // Parse the SDP - we'll set it when answering
+    // DON'T set remote description here - we need to add local tracks first when answering
+    const sdp = CallSignalingService.parseSdp(payload.sdp);
+    const remoteFingerprint = extractDtlsFingerprint(sdp.sdp);
+    if (!remoteFingerprint) {
+      console.warn('[CallService] Ignoring offer without DTLS fingerprint from:', from);
+      return;
+    }
+
     console.info('[CallService] Incoming', payload.callType, 'call from:', from);
 
     const participantName = this.getContactName?.(from) || from;
@@ -569,10 +931,6 @@ export class WebRTCCallService implements CallService {
     // Add caller as participant
     const peerState = this.mesh.addParticipant(from, participantName);
 
-    // Parse the SDP - we'll set it when answering
-    // DON'T set remote description here - we need to add local tracks first when answering
-    const sdp = CallSignalingService.parseSdp(payload.sdp);
-
     // Create internal call state
     this.currentCall = {
       id: payload.callId,
@@ -598,6 +956,12 @@ export class WebRTCCallService implements CallService {
       isSpeakerOn: payload.callType === 'video',
       // Store the pending offer SDP for when we answer
       pendingOfferSdp: sdp,
+      peerSecurity: new Map([[from, {
+        remoteFingerprint,
+        remoteVerified: payload.verified === true,
+      }]]),
+      stalledPeers: new Set(),
+      mode: 'mesh',
     };
 
     // Send ringing acknowledgment
@@ -635,11 +999,23 @@ export class WebRTCCallService implements CallService {
     const bareJid = normalizeJid(from);
     console.info('[CallService] Received answer from:', from, '(normalized:', bareJid + ')');
 
+    // An answer we cannot check the media against is not accepted
+    const sdp = CallSignalingService.parseSdp(payload.sdp);
+    const remoteFingerprint = extractDtlsFingerprint(sdp.sdp);
+    if (!remoteFingerprint) {
+      console.warn('[CallService] Answer without DTLS fingerprint, ending call');
+      this.endCallInternal('failed');
+      return;
+    }
+    this.currentCall.peerSecurity.set(bareJid, {
+      remoteFingerprint,
+      remoteVerified: payload.verified === true,
+    });
+
     // Clear ring timeout
     this.clearRingTimeout();
 
     // Set remote description (the answer)
-    const sdp = CallSignalingService.parseSdp(payload.sdp);
     void this.mesh.setRemoteDescription(bareJid, sdp);
 
     // Update state
@@ -675,6 +1051,11 @@ export class WebRTCCallService implements CallService {
         this.handleRemoteDecline(from);
         break;
       case 'busy':
+        // A busy invitee does not end a group call
+        if (this.currentCall.mode === 'sfu') {
+          this.handleRemoteDecline(from);
+          break;
+        }
         this.endCallInternal('busy');
         break;
       case 'ringing':
@@ -706,16 +1087,23 @@ export class WebRTCCallService implements CallService {
       callType: payload.callType,
       sdp: payload.sdp,
       participants: [from, ...payload.existingParticipants],
+      verified: payload.verified,
     });
   }
 
   private handleRemoteHangup(from: string): void {
     if (!this.currentCall) return;
 
+    if (this.currentCall.mode === 'sfu') {
+      this.handleGroupMemberGone(normalizeJid(from));
+      return;
+    }
+
     // Remove the participant who hung up
     this.mesh.removeParticipant(from);
     this.currentCall.participants.delete(from);
     this.currentCall.peerConnections.delete(from);
+    this.currentCall.stalledPeers.delete(from);
 
     // If no participants left, end the call
     if (this.currentCall.participants.size === 0) {
@@ -751,6 +1139,8 @@ export class WebRTCCallService implements CallService {
     switch (state) {
       case 'connected':
       case 'completed':
+        void this.verifyPeer(jid);
+
         // At least one connection is up
         if (this.currentCall.state === 'connecting' || this.currentCall.state === 'reconnecting') {
           this.currentCall.state = 'connected';
@@ -759,6 +1149,7 @@ export class WebRTCCallService implements CallService {
           if (!this.currentCall.startTime) {
             this.currentCall.startTime = Date.now();
             this.startDurationInterval();
+            this.startQualityMonitor();
           }
 
           // Reset reconnection counter on successful (re)connection
@@ -845,11 +1236,18 @@ export class WebRTCCallService implements CallService {
       try {
         console.info('[CallService] Performing ICE restart attempt', attempt, 'for', jid);
 
+        // Group calls: a fresh connection to the SFU room
+        if (this.currentCall.mode === 'sfu') {
+          await this.sfu.rejoin();
+          return;
+        }
+
         // Create new offer with ICE restart flag
         const offer = await this.mesh.restartIce(jid);
 
         // Send the new offer to the remote peer via signaling
-        await this.signaling.sendOffer(jid, this.currentCall.id, this.currentCall.type, offer);
+        const verified = await this.isVerifiedContact(jid);
+        await this.signaling.sendOffer(jid, this.currentCall.id, this.currentCall.type, offer, verified);
 
         console.info('[CallService] ICE restart offer sent to', jid);
       } catch (error) {
@@ -870,6 +1268,138 @@ export class WebRTCCallService implements CallService {
     }
   }
 
+  // ============================================================
+  // Connection Quality
+  // ============================================================
+
+  private startQualityMonitor(): void {
+    if (!this.currentCall) return;
+
+    const isGroupCall = this.currentCall.mode === 'sfu';
+    this.qualityMonitor.start(
+      this.currentCall.type,
+      () => {
+        const peer = this.sfu.getConnection();
+        if (!isGroupCall) return this.mesh.getConnections();
+        return new Map<string, RTCPeerConnection>(peer ? [[SFU_JID, peer.connection]] : []);
+      },
+      (jid, update) => this.handleQualityUpdate(jid, update),
+    );
+  }
+
+  /**
+   * React to a changed link to one participant:
+   * - Video calls: lower or restore the outgoing video encoding
+   * - No media arriving: show 'reconnecting' before ICE reports a failure,
+   *   and back to 'connected' when media flows again (unless an ICE
+   *   restart is already running)
+   */
+  private handleQualityUpdate(jid: string, update: QualityUpdate): void {
+    const call = this.currentCall;
+    if (!call) return;
+
+    let previous: ConnectionQuality;
+    if (call.mode === 'sfu') {
+      // One link to the SFU carries everyone's media
+      const peer = this.sfu.getConnection();
+      if (!peer) return;
+      const participants = [...call.participants.values()];
+      previous = participants[0]?.quality ?? 'good';
+      participants.forEach((p) => {
+        p.quality = update.quality;
+      });
+      if (call.type === 'video' && update.quality !== previous) {
+        void this.webrtc.applyVideoEncoding(peer, VIDEO_ENCODINGS[update.quality]);
+      }
+    } else {
+      const participant = this.mesh.getParticipant(jid);
+      if (!participant) return;
+      previous = participant.quality ?? 'good';
+      this.mesh.setQuality(jid, update.quality);
+      if (update.receivingVideo !== null) {
+        this.mesh.setRemoteVideoEnabled(jid, update.receivingVideo);
+      }
+      if (call.type === 'video' && update.quality !== previous) {
+        void this.mesh.applyVideoEncoding(jid, VIDEO_ENCODINGS[update.quality]);
+      }
+    }
+
+    if (update.quality !== previous) {
+      console.info('[CallService] Connection quality for', jid, ':', previous, '→', update.quality);
+    }
+
+    if (update.stalled) {
+      call.stalledPeers.add(jid);
+      if (call.state === 'connected') {
+        console.warn('[CallService] No media from', jid, '- reconnecting');
+        call.state = 'reconnecting';
+      }
+    } else {
+      call.stalledPeers.delete(jid);
+      if (call.state === 'reconnecting' && call.stalledPeers.size === 0 && !call.reconnectTimer) {
+        console.info('[CallService] Media from', jid, 'resumed');
+        call.state = 'connected';
+      }
+    }
+
+    this.notifyStateChange();
+  }
+
+  // ============================================================
+  // Media Verification
+  // ============================================================
+
+  /**
+   * Check the certificate of a connected leg against the DTLS fingerprint
+   * from the encrypted signaling. A mismatch means someone relays the
+   * media, so the leg is dropped. When both sides verified each other,
+   * the participant gets the verification code to compare aloud.
+   */
+  private async verifyPeer(jid: string): Promise<void> {
+    const call = this.currentCall;
+    const peer = call?.peerSecurity.get(jid);
+    const connection = call?.peerConnections.get(jid)?.connection;
+    if (!call || !peer || !connection) return;
+
+    try {
+      const negotiated = await getNegotiatedRemoteFingerprint(connection);
+      if (this.currentCall !== call) return;
+
+      if (negotiated && negotiated !== peer.remoteFingerprint) {
+        console.error('[CallService] DTLS certificate does not match signaling for:', jid);
+        if (call.participants.size > 1) {
+          await this.removeParticipant(call.id, jid);
+        } else {
+          void this.signaling.sendControl(jid, call.id, 'hangup');
+          this.endCallInternal('failed');
+        }
+        return;
+      }
+
+      const localFingerprint = extractDtlsFingerprint(connection.localDescription?.sdp ?? '');
+      if (!localFingerprint || !peer.remoteVerified || !(await this.isVerifiedContact(jid))) {
+        return;
+      }
+      if (this.currentCall !== call) return;
+
+      this.mesh.setVerificationCode(
+        jid,
+        computeCallVerificationCode(call.id, localFingerprint, peer.remoteFingerprint),
+      );
+      this.notifyStateChange();
+    } catch (error) {
+      console.warn('[CallService] Could not verify media for:', jid, error);
+    }
+  }
+
+  private async isVerifiedContact(jid: string): Promise<boolean> {
+    try {
+      return (await this.security?.isVerifiedContact(jid)) ?? false;
+    } catch {
+      return false;
+    }
+  }
+
   // ============================================================
   // Internal Helpers
   // ============================================================
@@ -887,6 +1417,7 @@ export class WebRTCCallService implements CallService {
     this.clearRingTimeout();
     this.clearDurationInterval();
     this.clearReconnectTimer();
+    this.qualityMonitor.stop();
 
     // Report to CallKit
     callKitService.endCall(callId);
@@ -894,7 +1425,10 @@ export class WebRTCCallService implements CallService {
     // Stop InCallManager to restore normal audio routing
     InCallManager.stop();
 
-    // Clean up mesh and media
+    // Clean up mesh, SFU room and media
+    if (this.currentCall.mode === 'sfu') {
+      this.sfu.leave();
+    }
     this.mesh.cleanup();
     this.webrtc.stopLocalMedia();
 
@@ -918,13 +1452,17 @@ export class WebRTCCallService implements CallService {
       type: internal.type,
       direction: internal.direction,
       state: internal.state,
-      participants: this.mesh.toCallParticipants(),
+      participants: internal.mode === 'sfu'
+        ? [...internal.participants.values()].map((p) => ({ ...p }))
+        : this.mesh.toCallParticipants(),
       startTime: internal.startTime,
       duration: this.calculateDuration(internal),
       isMuted: internal.localMedia.isMuted,
       isSpeakerOn: internal.isSpeakerOn,
       isVideoEnabled: internal.localMedia.isVideoEnabled,
       isFrontCamera: internal.localMedia.isFrontCamera,
+      mode: internal.mode,
+      isFrameEncrypted: internal.mode === 'sfu' ? this.sfu.isFrameEncrypted() : undefined,
     };
   }
 
@@ -978,6 +1516,8 @@ export const callService = new WebRTCCallService();
 // Re-export types and services
 export { webrtcService } from './webrtcService';
 export { signalingService } from './signalingService';
+export { createSignalingSecurity, type SignalingSecurity } from './signalingSecurity';
+export { formatCallVerificationCode } from './callVerification';
 export { MeshManager } from './meshManager';
 export { callSoundService, DEFAULT_CALL_SOUND_SETTINGS } from './callSoundService';
 export type { CallSoundSettings, RingtoneSound } from './callSoundService';
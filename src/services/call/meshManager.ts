@@ -17,8 +17,9 @@
  */
 
 import type { MediaStream, RTCIceCandidate, RTCSessionDescription } from 'react-native-webrtc';
-import type { CallType, CallParticipant } from '../interfaces';
-import { CALL_LIMITS, type PeerConnectionState } from './types';
+import type { CallType, CallParticipant, ConnectionQuality } from '../interfaces';
+import { CALL_LIMITS, type PeerConnectionState, type RTCPeerConnection } from './types';
+import type { VideoEncoding } from './qualityMonitor';
 import { WebRTCService } from './webrtcService';
 
 // ============================================================
@@ -33,6 +34,10 @@ export interface MeshParticipant {
   isMuted: boolean;
   isVideoEnabled: boolean;
   connectionState: 'connecting' | 'connected' | 'disconnected';
+  /** Set once the leg is checked and both sides are verified contacts */
+  verificationCode?: string;
+  /** Measured link quality (CallQualityMonitor) */
+  quality?: ConnectionQuality;
 }
 
 export interface MeshCallbacks {
@@ -218,9 +223,61 @@ export class MeshManager {
       isMuted: p.isMuted,
       isVideoEnabled: p.isVideoEnabled,
       connectionState: p.connectionState,
+      verificationCode: p.verificationCode,
+      quality: p.quality,
     }));
   }
 
+  /**
+   * Store the verification code of a participant's leg
+   */
+  setVerificationCode(jid: string, code: string): void {
+    const participant = this.participants.get(jid);
+    if (participant) {
+      participant.verificationCode = code;
+    }
+  }
+
+  /**
+   * Store the measured link quality of a participant
+   */
+  setQuality(jid: string, quality: ConnectionQuality): void {
+    const participant = this.participants.get(jid);
+    if (participant) {
+      participant.quality = quality;
+    }
+  }
+
+  /**
+   * Mark whether a participant's video arrives
+   * (paused on a poor link, so the UI shows the avatar instead of a frozen frame)
+   */
+  setRemoteVideoEnabled(jid: string, enabled: boolean): void {
+    const participant = this.participants.get(jid);
+    if (participant) {
+      participant.isVideoEnabled = enabled;
+    }
+  }
+
+  /**
+   * Adapt the outgoing video to one participant
+   */
+  async applyVideoEncoding(jid: string, encoding: VideoEncoding): Promise<void> {
+    const participant = this.participants.get(jid);
+    if (participant) {
+      await this.webrtc.applyVideoEncoding(participant.peerState, encoding);
+    }
+  }
+
+  /**
+   * PeerConnections by JID, for sampling stats
+   */
+  getConnections(): Map<string, RTCPeerConnection> {
+    return new Map(
+      this.getAllParticipants().map((p) => [p.jid, p.peerState.connection]),
+    );
+  }
+
   // ============================================================
   // SDP Negotiation
   // ============================================================
@@ -420,11 +477,12 @@ export class MeshManager {
   /**
    * Get connection statistics for debugging
    */
-  getStats(): { jid: string; state: string; hasStream: boolean }[] {
+  getStats(): { jid: string; state: string; hasStream: boolean; quality?: ConnectionQuality }[] {
     return this.getAllParticipants().map((p) => ({
       jid: p.jid,
       state: p.connectionState,
       hasStream: p.remoteStream !== null,
+      quality: p.quality,
     }));
   }
 }
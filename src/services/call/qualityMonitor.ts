@@ -0,0 +1,356 @@
+/**
+ * Call Quality Monitor — connection quality per peer from RTCStats
+ *
+ * Every SAMPLE_INTERVAL_MS the stats of each PeerConnection are sampled:
+ * - RTT and available bandwidth from the active candidate pair
+ * - Packet loss and jitter from the incoming RTP streams
+ * - Whether media (and video) still arrives at all
+ *
+ * The samples are reduced to three levels (good / fair / poor). Going down
+ * is immediate, going up needs UPGRADE_AFTER_SAMPLES better samples in a
+ * row, so the video quality does not flap on a shaky link.
+ *
+ * CallService uses the levels to adapt the video encoding (VIDEO_ENCODINGS)
+ * and the stall detection to show 'reconnecting' before ICE gives up.
+ *
+ * @see services/call/index.ts (CallService)
+ * @see services/call/webrtcService.ts (applyVideoEncoding)
+ */
+
+import type { CallType, ConnectionQuality } from '../interfaces';
+import type { RTCPeerConnection, RTCStats } from './types';
+
+// ============================================================
+// Types
+// ============================================================
+
+/** One measurement of one peer connection */
+export interface QualitySample {
+  /** Round-trip time of the active candidate pair */
+  rttMs: number | null;
+  /** Share of incoming packets lost since the previous sample (0-1) */
+  packetLoss: number;
+  /** Jitter of the incoming audio */
+  jitterMs: number | null;
+  /** Send bandwidth estimate of the active candidate pair (bits/s) */
+  availableBitrate: number | null;
+  /** No incoming media at all since the previous sample */
+  stalled: boolean;
+  /** Incoming video since the previous sample; null without a video stream */
+  receivingVideo: boolean | null;
+}
+
+/** Cumulative counters, kept to compute the next sample */
+export interface StatsCounters {
+  packetsReceived: number;
+  packetsLost: number;
+  bytesReceived: number;
+  videoBytesReceived: number | null;
+}
+
+/** Quality state of one peer between samples */
+export interface PeerQualityState {
+  quality: ConnectionQuality;
+  /** Better samples in a row (for upgrading) */
+  betterSamples: number;
+  /** Stalled samples in a row */
+  stalledSamples: number;
+  counters: StatsCounters | null;
+}
+
+/** What CallService hears after a sample changed something */
+export interface QualityUpdate {
+  quality: ConnectionQuality;
+  stalled: boolean;
+  receivingVideo: boolean | null;
+  sample: QualitySample;
+}
+
+/** Video encoding for a quality level */
+export interface VideoEncoding {
+  /** false = audio-only */
+  sendVideo: boolean;
+  maxBitrate: number;
+  maxFramerate: number;
+  scaleResolutionDownBy: number;
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+export const SAMPLE_INTERVAL_MS = 2000;
+
+/** Better samples in a row before the quality goes up one level */
+const UPGRADE_AFTER_SAMPLES = 3;
+
+/** Samples without incoming media before the peer counts as stalled */
+const STALL_AFTER_SAMPLES = 2;
+
+interface QualityThresholds {
+  packetLoss: number;
+  rttMs: number;
+  jitterMs: number;
+  /** Only for video calls */
+  availableBitrate: number;
+}
+
+/** A sample is 'fair' from these values */
+const FAIR_THRESHOLDS: QualityThresholds = {
+  packetLoss: 0.03,
+  rttMs: 300,
+  jitterMs: 50,
+  availableBitrate: 600_000,
+};
+
+/** A sample is 'poor' from these values */
+const POOR_THRESHOLDS: QualityThresholds = {
+  packetLoss: 0.1,
+  rttMs: 700,
+  jitterMs: 150,
+  availableBitrate: 150_000,
+};
+
+/** 720p source (VIDEO_MEDIA_CONSTRAINTS), scaled down on weaker links */
+export const VIDEO_ENCODINGS: Record<ConnectionQuality, VideoEncoding> = {
+  good: { sendVideo: true, maxBitrate: 1_500_000, maxFramerate: 30, scaleResolutionDownBy: 1 },
+  fair: { sendVideo: true, maxBitrate: 500_000, maxFramerate: 15, scaleResolutionDownBy: 2 },
+  poor: { sendVideo: false, maxBitrate: 0, maxFramerate: 0, scaleResolutionDownBy: 4 },
+};
+
+const LEVELS: ConnectionQuality[] = ['poor', 'fair', 'good'];
+
+// ============================================================
+// Pure Helpers
+// ============================================================
+
+/**
+ * Read one sample from a getStats() report.
+ * The first sample of a peer (no previous counters) has no loss and never stalls.
+ */
+export function readQualitySample(
+  report: Map<string, RTCStats>,
+  previous: StatsCounters | null,
+): { sample: QualitySample; counters: StatsCounters } {
+  const stats = [...report.values()];
+
+  const counters: StatsCounters = {
+    packetsReceived: 0,
+    packetsLost: 0,
+    bytesReceived: 0,
+    videoBytesReceived: null,
+  };
+  let jitterMs: number | null = null;
+
+  for (const stat of stats) {
+    if (stat.type !== 'inbound-rtp') continue;
+    const kind = stat.kind ?? stat.mediaType;
+    const bytes = numberOf(stat.bytesReceived) ?? 0;
+
+    counters.packetsReceived += numberOf(stat.packetsReceived) ?? 0;
+    counters.packetsLost += Math.max(0, numberOf(stat.packetsLost) ?? 0);
+    counters.bytesReceived += bytes;
+
+    if (kind === 'video') {
+      counters.videoBytesReceived = (counters.videoBytesReceived ?? 0) + bytes;
+    } else if (kind === 'audio' && numberOf(stat.jitter) !== null) {
+      jitterMs = numberOf(stat.jitter)! * 1000;
+    }
+  }
+
+  const pair = findActiveCandidatePair(report);
+  const rtt = numberOf(pair?.currentRoundTripTime);
+
+  let packetLoss = 0;
+  if (previous) {
+    const lost = counters.packetsLost - previous.packetsLost;
+    const received = counters.packetsReceived - previous.packetsReceived;
+    if (lost > 0 && lost + received > 0) {
+      packetLoss = lost / (lost + received);
+    }
+  }
+
+  let receivingVideo: boolean | null = null;
+  if (counters.videoBytesReceived !== null) {
+    receivingVideo = previous?.videoBytesReceived == null
+      || counters.videoBytesReceived > previous.videoBytesReceived;
+  }
+
+  return {
+    sample: {
+      rttMs: rtt !== null ? rtt * 1000 : null,
+      packetLoss,
+      jitterMs,
+      availableBitrate: numberOf(pair?.availableOutgoingBitrate),
+      stalled: previous !== null && counters.bytesReceived <= previous.bytesReceived,
+      receivingVideo,
+    },
+    counters,
+  };
+}
+
+/**
+ * Quality level of a single sample.
+ */
+export function classifySample(sample: QualitySample, callType: CallType): ConnectionQuality {
+  const exceeds = (limits: QualityThresholds): boolean =>
+    sample.packetLoss >= limits.packetLoss
+    || (sample.rttMs !== null && sample.rttMs >= limits.rttMs)
+    || (sample.jitterMs !== null && sample.jitterMs >= limits.jitterMs)
+    || (callType === 'video'
+      && sample.availableBitrate !== null
+      && sample.availableBitrate < limits.availableBitrate);
+
+  if (exceeds(POOR_THRESHOLDS)) return 'poor';
+  if (exceeds(FAIR_THRESHOLDS)) return 'fair';
+  return 'good';
+}
+
+/**
+ * Next quality state after a sample: down at once, up one level after
+ * UPGRADE_AFTER_SAMPLES better samples in a row.
+ */
+export function nextPeerQuality(
+  state: PeerQualityState,
+  sample: QualitySample,
+  counters: StatsCounters,
+  callType: CallType,
+): PeerQualityState {
+  const measured = LEVELS.indexOf(classifySample(sample, callType));
+  const current = LEVELS.indexOf(state.quality);
+  const stalledSamples = sample.stalled ? state.stalledSamples + 1 : 0;
+
+  if (measured < current) {
+    return { quality: LEVELS[measured], betterSamples: 0, stalledSamples, counters };
+  }
+  if (measured > current) {
+    const betterSamples = state.betterSamples + 1;
+    return betterSamples >= UPGRADE_AFTER_SAMPLES
+      ? { quality: LEVELS[current + 1], betterSamples: 0, stalledSamples, counters }
+      : { quality: state.quality, betterSamples, stalledSamples, counters };
+  }
+  return { quality: state.quality, betterSamples: 0, stalledSamples, counters };
+}
+
+export function isStalled(state: PeerQualityState): boolean {
+  return state.stalledSamples >= STALL_AFTER_SAMPLES;
+}
+
+// ============================================================
+// Monitor
+// ============================================================
+
+/**
+ * Samples all peer connections of a call on an interval and reports
+ * changes in quality, stall or incoming video per peer.
+ */
+export class CallQualityMonitor {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private peers: Map<string, PeerQualityState> = new Map();
+  private receivingVideo: Map<string, boolean | null> = new Map();
+  private isSampling = false;
+
+  /**
+   * @param getConnections - Current peer connections by JID (read on every sample)
+   * @param onUpdate - Called when a peer's quality, stall or video state changes
+   */
+  start(
+    callType: CallType,
+    getConnections: () => Map<string, RTCPeerConnection>,
+    onUpdate: (jid: string, update: QualityUpdate) => void,
+  ): void {
+    this.stop();
+
+    this.timer = setInterval(() => {
+      // A slow getStats() must not pile up samples
+      if (this.isSampling) return;
+      this.isSampling = true;
+      void this.sample(callType, getConnections(), onUpdate).finally(() => {
+        this.isSampling = false;
+      });
+    }, SAMPLE_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.peers.clear();
+    this.receivingVideo.clear();
+    this.isSampling = false;
+  }
+
+  /** Last known quality of a peer */
+  getQuality(jid: string): ConnectionQuality | undefined {
+    return this.peers.get(jid)?.quality;
+  }
+
+  private async sample(
+    callType: CallType,
+    connections: Map<string, RTCPeerConnection>,
+    onUpdate: (jid: string, update: QualityUpdate) => void,
+  ): Promise<void> {
+    // Forget peers that left the call
+    for (const jid of this.peers.keys()) {
+      if (!connections.has(jid)) {
+        this.peers.delete(jid);
+        this.receivingVideo.delete(jid);
+      }
+    }
+
+    for (const [jid, connection] of connections) {
+      try {
+        const report = await connection.getStats();
+        const previous = this.peers.get(jid) ?? {
+          quality: 'good',
+          betterSamples: 0,
+          stalledSamples: 0,
+          counters: null,
+        };
+        const { sample, counters } = readQualitySample(report, previous.counters);
+        const next = nextPeerQuality(previous, sample, counters, callType);
+        this.peers.set(jid, next);
+
+        const wasReceivingVideo = this.receivingVideo.get(jid) ?? null;
+        this.receivingVideo.set(jid, sample.receivingVideo);
+
+        if (
+          next.quality !== previous.quality
+          || isStalled(next) !== isStalled(previous)
+          || sample.receivingVideo !== wasReceivingVideo
+        ) {
+          onUpdate(jid, {
+            quality: next.quality,
+            stalled: isStalled(next),
+            receivingVideo: sample.receivingVideo,
+            sample,
+          });
+        }
+      } catch (error) {
+        console.debug('[CallQuality] Stats unavailable for', jid, error);
+      }
+    }
+  }
+}
+
+// ============================================================
+// Private helpers
+// ============================================================
+
+function numberOf(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/** Selected pair of the transport, else the nominated succeeded pair */
+function findActiveCandidatePair(report: Map<string, RTCStats>): RTCStats | undefined {
+  const stats = [...report.values()];
+  const transport = stats.find(
+    (stat) => stat.type === 'transport' && typeof stat.selectedCandidatePairId === 'string',
+  );
+  const selected = transport ? report.get(transport.selectedCandidatePairId as string) : undefined;
+
+  return selected ?? stats.find(
+    (stat) => stat.type === 'candidate-pair' && stat.nominated === true && stat.state === 'succeeded',
+  );
+}
@@ -0,0 +1,304 @@
+/**
+ * SFU Session
+ *
+ * The client side of a group call through the SFU (server/sfu). Instead of
+ * N-1 PeerConnections (mesh), there is one PeerConnection to the SFU:
+ * - We offer our own tracks when joining (sfu-join)
+ * - The SFU offers the forwarded tracks of the others (sfu-offer) and tells
+ *   per m-line whose they are; we answer (sfu-answer)
+ * - The roster (sfu-roster) says who is in the room
+ *
+ * Signaling goes over XMPP to the SFU's component JID in the call namespace.
+ * Media frames are encrypted with the group key where insertable streams
+ * are available (frameEncryption.ts). The join says whether we encrypt; the
+ * SFU passes that on per forwarded track, and only sealed tracks are
+ * decrypted, so senders without insertable streams stay visible.
+ *
+ * @see types.ts (SfuSignal)
+ * @see services/call/index.ts (CallService, group calls)
+ */
+
+import type { MediaStream, RTCIceCandidate } from 'react-native-webrtc';
+import type { CallType } from '../interfaces';
+import {
+  SFU_JID,
+  type PeerConnectionState,
+  type SfuSignal,
+  type SfuTrackInfo,
+} from './types';
+import { CallSignalingService } from './signalingService';
+import { WebRTCService } from './webrtcService';
+import {
+  createKeyRing,
+  protectReceiver,
+  protectSender,
+  rotateKeyRing,
+  type FrameKeyRing,
+  type InsertableStreamsEndpoint,
+} from './frameEncryption';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface SfuCallbacks {
+  /** Send a signal to the SFU */
+  send: (signal: SfuSignal) => Promise<void>;
+  onRosterChange: (participants: string[]) => void;
+  onStreamsChange: () => void;
+  onConnectionStateChange: (state: string) => void;
+  onError: (code: string) => void;
+}
+
+interface SfuTrackEvent {
+  streams: MediaStream[];
+  receiver: InsertableStreamsEndpoint;
+  transceiver: { mid: string | null };
+}
+
+// ============================================================
+// SFU Session
+// ============================================================
+
+export class SfuSession {
+  private webrtc: WebRTCService;
+  private callbacks: SfuCallbacks;
+  private peer: PeerConnectionState | null = null;
+  private callId = '';
+  private callType: CallType = 'video';
+  /** Shared with the frame transforms; rekey() rotates it in place */
+  private keys: FrameKeyRing | null = null;
+  private frameEncrypted = false;
+  /** Forwarded m-lines by mid, from the last sfu-offer */
+  private tracks: Map<string, SfuTrackInfo> = new Map();
+  private streams: Map<string, MediaStream> = new Map();
+  /** Signals are handled one at a time (SDP negotiation is not reentrant) */
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(webrtc: WebRTCService, callbacks: SfuCallbacks) {
+    this.webrtc = webrtc;
+    this.callbacks = callbacks;
+  }
+
+  // ============================================================
+  // Joining & Leaving
+  // ============================================================
+
+  /**
+   * Connect to the SFU room of a call. Local media must be started.
+   * @param invited - Host only: who may join the room
+   * @param frameKey - Group key for frame encryption (base64)
+   */
+  async join(callId: string, callType: CallType, frameKey: string | undefined, invited?: string[]): Promise<void> {
+    this.callId = callId;
+    this.callType = callType;
+    this.keys = frameKey ? createKeyRing(frameKey) : null;
+    await this.connect(invited);
+  }
+
+  /**
+   * Switch to a new group key (someone left, or we joined after a rekey)
+   */
+  rekey(frameKey: string): void {
+    if (!this.keys) return;
+    rotateKeyRing(this.keys, frameKey);
+    console.info('[SfuSession] Frame key rotated for call:', this.callId);
+  }
+
+  /**
+   * New PeerConnection to the same room (reconnection). The SFU replaces
+   * our previous connection and offers the forwarded tracks again.
+   */
+  async rejoin(): Promise<void> {
+    this.closeConnection();
+    await this.connect();
+  }
+
+  leave(): void {
+    if (this.callId) {
+      void this.callbacks.send({ type: 'sfu-leave', callId: this.callId }).catch((error) => {
+        console.warn('[SfuSession] Failed to send leave:', error);
+      });
+    }
+    this.closeConnection();
+    this.callId = '';
+    this.keys = null;
+    this.frameEncrypted = false;
+  }
+
+  // ============================================================
+  // Signaling
+  // ============================================================
+
+  /**
+   * Handle a signal from the SFU (in order)
+   */
+  handleSignal(signal: SfuSignal): void {
+    if (signal.callId !== this.callId) {
+      console.warn('[SfuSession] Signal for another call:', signal.type);
+      return;
+    }
+
+    this.queue = this.queue
+      .then(() => this.processSignal(signal))
+      .catch((error) => {
+        console.error('[SfuSession] Failed to handle', signal.type, error);
+      });
+  }
+
+  private async processSignal(signal: SfuSignal): Promise<void> {
+    const peer = this.peer;
+
+    switch (signal.type) {
+      case 'sfu-answer':
+        if (peer) {
+          await this.webrtc.setRemoteDescription(peer, CallSignalingService.parseSdp(signal.sdp));
+        }
+        break;
+
+      case 'sfu-offer': {
+        if (!peer) return;
+        this.tracks = new Map(signal.tracks.map((track) => [track.mid, track]));
+        this.pruneStreams();
+
+        await this.webrtc.setRemoteDescription(peer, CallSignalingService.parseSdp(signal.sdp));
+        const answer = await this.webrtc.createAnswer(peer);
+        await this.callbacks.send({ type: 'sfu-answer', callId: this.callId, sdp: JSON.stringify(answer) });
+        break;
+      }
+
+      case 'sfu-ice':
+        if (peer) {
+          await this.webrtc.addIceCandidate(peer, CallSignalingService.parseIceCandidate(signal.candidate));
+        }
+        break;
+
+      case 'sfu-roster':
+        this.callbacks.onRosterChange(signal.participants);
+        break;
+
+      case 'sfu-error':
+        console.warn('[SfuSession] SFU error:', signal.code);
+        this.callbacks.onError(signal.code);
+        break;
+
+      default:
+        console.warn('[SfuSession] Unexpected signal:', signal.type);
+    }
+  }
+
+  // ============================================================
+  // State
+  // ============================================================
+
+  getConnection(): PeerConnectionState | null {
+    return this.peer;
+  }
+
+  /** Forwarded streams by participant JID */
+  getRemoteStreams(): Map<string, MediaStream> {
+    return new Map(this.streams);
+  }
+
+  /** Whether our outgoing media and every forwarded track are frame encrypted */
+  isFrameEncrypted(): boolean {
+    return this.frameEncrypted && [...this.tracks.values()].every((track) => track.encrypted === true);
+  }
+
+  // ============================================================
+  // Private helpers
+  // ============================================================
+
+  private async connect(invited?: string[]): Promise<void> {
+    const peer = this.webrtc.createPeerConnection(SFU_JID, { encodedInsertableStreams: this.keys !== null });
+    this.peer = peer;
+    this.setupHandlers(peer);
+
+    // Seal our frames before the first one leaves
+    const senders = peer.connection.getSenders();
+    const keys = this.keys;
+    this.frameEncrypted = keys !== null
+      && senders.length > 0
+      && senders.every((sender) => protectSender(sender, keys));
+    if (keys && !this.frameEncrypted) {
+      console.warn('[SfuSession] Insertable streams unavailable, media protected to the SFU only');
+    }
+
+    const offer = await this.webrtc.createOffer(peer, this.callType);
+    await this.callbacks.send({
+      type: 'sfu-join',
+      callId: this.callId,
+      sdp: JSON.stringify(offer),
+      invited,
+      encrypted: this.frameEncrypted,
+    });
+    console.info('[SfuSession] Joining room for call:', this.callId);
+  }
+
+  private setupHandlers(peer: PeerConnectionState): void {
+    const { connection } = peer;
+
+    connection.onicecandidate = (event: { candidate: RTCIceCandidate | null }) => {
+      if (event.candidate && this.peer === peer) {
+        void this.callbacks.send({
+          type: 'sfu-ice',
+          callId: this.callId,
+          candidate: JSON.stringify(event.candidate),
+        }).catch((error) => {
+          console.warn('[SfuSession] Failed to send ICE candidate:', error);
+        });
+      }
+    };
+
+    connection.ontrack = (event) => {
+      this.handleTrack(event as unknown as SfuTrackEvent);
+    };
+
+    const notifyState = (state: string) => {
+      if (this.peer === peer) {
+        this.callbacks.onConnectionStateChange(state);
+      }
+    };
+    connection.onconnectionstatechange = () => notifyState(connection.connectionState);
+    connection.oniceconnectionstatechange = () => notifyState(connection.iceConnectionState);
+    connection.onnegotiationneeded = null;
+  }
+
+  private handleTrack(event: SfuTrackEvent): void {
+    const mid = event.transceiver.mid;
+    const info = mid !== null ? this.tracks.get(mid) : undefined;
+    const stream = event.streams[0];
+    if (!info || !stream) {
+      console.warn('[SfuSession] Track without participant, mid:', mid);
+      return;
+    }
+
+    // Frames of a sender without insertable streams arrive as they are
+    if (info.encrypted && (!this.keys || !protectReceiver(event.receiver, this.keys))) {
+      console.warn('[SfuSession] Cannot decrypt', info.kind, 'from', info.jid);
+    }
+
+    this.streams.set(info.jid, stream);
+    console.info('[SfuSession] Remote', info.kind, 'from', info.jid);
+    this.callbacks.onStreamsChange();
+  }
+
+  /** Forget streams of participants that are no longer forwarded */
+  private pruneStreams(): void {
+    const forwarded = new Set([...this.tracks.values()].map((track) => track.jid));
+    for (const jid of this.streams.keys()) {
+      if (!forwarded.has(jid)) {
+        this.streams.delete(jid);
+      }
+    }
+  }
+
+  private closeConnection(): void {
+    if (this.peer) {
+      this.webrtc.closePeerConnection(this.peer);
+      this.peer = null;
+    }
+    this.tracks.clear();
+    this.streams.clear();
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Call Signaling Security — end-to-end encryption of call setup
+ *
+ * SDP offers/answers and ICE candidates contain IP addresses, codecs and
+ * DTLS fingerprints. They are encrypted with the contact's keys through
+ * EncryptionService ('ratchet' mode, as chat messages), so the XMPP server
+ * can neither read nor forge them.
+ *
+ * Only contacts with a known public key can call or be called.
+ *
+ * @see services/call/signalingService.ts
+ * @see services/call/callVerification.ts
+ */
+
+import { from_base64, base64_variants } from 'react-native-libsodium';
+import type {
+  Contact,
+  DatabaseService,
+  EncryptedPayload,
+  EncryptionService,
+  Recipient,
+} from '../interfaces';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface SignalingSecurity {
+  /** Encrypt a signaling payload for a contact */
+  seal(to: string, plaintext: string): Promise<EncryptedPayload>;
+  /** Decrypt and authenticate a signaling payload from a contact */
+  open(from: string, envelope: EncryptedPayload): Promise<string>;
+  /** Whether we QR-verified this contact */
+  isVerifiedContact(jid: string): Promise<boolean>;
+}
+
+// ============================================================
+// Factory
+// ============================================================
+
+/**
+ * Signaling security backed by EncryptionService and the contact list.
+ * JIDs may include a resource; keys are looked up by bare JID.
+ */
+export function createSignalingSecurity(
+  encryption: Pick<EncryptionService, 'encrypt' | 'decrypt'>,
+  contacts: Pick<DatabaseService, 'getContact'>,
+): SignalingSecurity {
+  const getRecipient = async (jid: string): Promise<Recipient & { contact: Contact }> => {
+    const bareJid = jid.split('/')[0];
+    const contact = await contacts.getContact(bareJid);
+    let publicKey = contact?.publicKey;
+
+    // DEV: Test devices may not have exchanged keys yet
+    if (__DEV__ && contact && !publicKey) {
+      const { getTestPublicKeyForJid } = await import('../testKeys');
+      publicKey = (await getTestPublicKeyForJid(bareJid)) ?? undefined;
+    }
+
+    if (!contact || !publicKey) {
+      throw new Error(`[CallSignaling] No public key for ${bareJid.split('@')[0]}`);
+    }
+
+    return {
+      jid: bareJid,
+      publicKey: from_base64(publicKey, base64_variants.ORIGINAL),
+      contact,
+    };
+  };
+
+  return {
+    async seal(to, plaintext) {
+      const { jid, publicKey } = await getRecipient(to);
+      return encryption.encrypt(plaintext, [{ jid, publicKey }], 'ratchet');
+    },
+
+    async open(from, envelope) {
+      // Only forward-secret payloads; static '1on1' boxes could be replayed
+      if (envelope.mode !== 'ratchet') {
+        throw new Error(`[CallSignaling] Unexpected encryption mode: ${envelope.mode}`);
+      }
+      const { jid, publicKey } = await getRecipient(from);
+      if (envelope.metadata.from !== jid) {
+        throw new Error('[CallSignaling] Sender does not match envelope');
+      }
+      return encryption.decrypt(envelope, publicKey, jid);
+    },
+
+    async isVerifiedContact(jid) {
+      const contact = await contacts.getContact(jid.split('/')[0]);
+      return contact?.verified ?? false;
+    },
+  };
+}
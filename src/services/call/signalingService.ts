@@ -6,50 +6,35 @@
  * - ICE candidate exchange
  * - Call control messages (hangup, decline, busy, ringing)
  *
- * Uses custom XMPP stanzas with namespace 'urn:commeazy:call:1'
+ * Uses custom XMPP stanzas with namespace 'urn:commeazy:call:1'.
+ * Every payload is end-to-end encrypted with the contact's keys; the
+ * server only sees the call id and whether a call starts ringing.
+ * Unencrypted payloads (older clients, or forged by the server) are dropped.
+ *
+ * The exception is the SFU for group calls: it is a server component, not a
+ * contact, so sfu-* signals to and from SFU_JID are plain. The group key
+ * travels only sealed (group invite, group-key).
  *
  * @see types.ts for signaling payload types
+ * @see signalingSecurity.ts for the encryption
  */
 
 import { RTCSessionDescription, RTCIceCandidate } from 'react-native-webrtc';
 import type { CallType, Unsubscribe } from '../interfaces';
 import {
-  NS_CALL,
+  SFU_JID,
   type CallOfferPayload,
   type CallAnswerPayload,
   type IceCandidatePayload,
   type CallControlPayload,
   type CallInvitePayload,
+  type CallGroupInvitePayload,
+  type CallGroupKeyPayload,
+  type CallSignal,
   type CallSignalingPayload,
+  type SfuSignal,
 } from './types';
-
-// ============================================================
-// Base64 Encoding/Decoding
-// ============================================================
-
-/**
- * Encode string to Base64
- */
-function toBase64(str: string): string {
-  // React Native doesn't have btoa, use global
-  if (typeof btoa === 'function') {
-    return btoa(str);
-  }
-  // Fallback for older RN versions
-  return Buffer.from(str, 'utf-8').toString('base64');
-}
-
-/**
- * Decode Base64 to string
- */
-function fromBase64(base64: string): string {
-  // React Native doesn't have atob, use global
-  if (typeof atob === 'function') {
-    return atob(base64);
-  }
-  // Fallback for older RN versions
-  return Buffer.from(base64, 'base64').toString('utf-8');
-}
+import type { SignalingSecurity } from './signalingSecurity';
 
 // ============================================================
 // Signaling Service
@@ -61,6 +46,9 @@ export interface SignalingHandlers {
   onIceCandidate: (from: string, payload: IceCandidatePayload) => void;
   onCallControl: (from: string, payload: CallControlPayload) => void;
   onCallInvite: (from: string, payload: CallInvitePayload) => void;
+  onGroupInvite: (from: string, payload: CallGroupInvitePayload) => void;
+  onGroupKey: (from: string, payload: CallGroupKeyPayload) => void;
+  onSfuSignal: (signal: SfuSignal) => void;
 }
 
 /**
@@ -68,28 +56,35 @@ export interface SignalingHandlers {
  * This allows us to decouple from the full XMPP service
  */
 export interface XMPPSignaling {
-  sendCallSignaling(to: string, payload: CallSignalingPayload): Promise<void>;
-  onCallSignaling(handler: (from: string, payload: CallSignalingPayload) => void): Unsubscribe;
+  sendCallSignaling(to: string, payload: CallSignal): Promise<void>;
+  onCallSignaling(handler: (from: string, payload: CallSignal) => void): Unsubscribe;
 }
 
 export class CallSignalingService {
   private xmpp: XMPPSignaling | null = null;
+  private security: SignalingSecurity | null = null;
   private handlers: Partial<SignalingHandlers> = {};
   private unsubscribe: Unsubscribe | null = null;
 
+  // Encryption is async: chain sends and receives so offers, answers and
+  // ICE candidates keep their order on the wire and in the handlers
+  private sendQueue: Promise<void> = Promise.resolve();
+  private receiveQueue: Promise<void> = Promise.resolve();
+
   // ============================================================
   // Initialization
   // ============================================================
 
   /**
-   * Initialize with XMPP service reference
+   * Initialize with XMPP service reference and the encryption for payloads
    */
-  initialize(xmpp: XMPPSignaling): void {
+  initialize(xmpp: XMPPSignaling, security: SignalingSecurity): void {
     this.xmpp = xmpp;
+    this.security = security;
 
     // Subscribe to incoming call signaling
     this.unsubscribe = xmpp.onCallSignaling((from, payload) => {
-      this.handleIncomingSignaling(from, payload);
+      this.receiveQueue = this.receiveQueue.then(() => this.openIncomingSignaling(from, payload));
     });
 
     console.info('[CallSignaling] Initialized');
@@ -104,6 +99,7 @@ export class CallSignalingService {
       this.unsubscribe = null;
     }
     this.xmpp = null;
+    this.security = null;
     this.handlers = {};
     console.info('[CallSignaling] Cleaned up');
   }
@@ -127,21 +123,19 @@ export class CallSignalingService {
     callId: string,
     callType: CallType,
     sdp: RTCSessionDescription,
+    verified: boolean,
     participants?: string[]
   ): Promise<void> {
-    if (!this.xmpp) {
-      throw new Error('[CallSignaling] Not initialized');
-    }
-
     const payload: CallOfferPayload = {
       type: 'offer',
       callId,
       callType,
-      sdp: toBase64(JSON.stringify(sdp)),
+      sdp: JSON.stringify(sdp),
       participants,
+      verified,
     };
 
-    await this.xmpp.sendCallSignaling(to, payload);
+    await this.send(to, payload);
     console.info('[CallSignaling] Sent offer to:', to);
   }
 
@@ -151,19 +145,17 @@ export class CallSignalingService {
   async sendAnswer(
     to: string,
     callId: string,
-    sdp: RTCSessionDescription
+    sdp: RTCSessionDescription,
+    verified: boolean
   ): Promise<void> {
-    if (!this.xmpp) {
-      throw new Error('[CallSignaling] Not initialized');
-    }
-
     const payload: CallAnswerPayload = {
       type: 'answer',
       callId,
-      sdp: toBase64(JSON.stringify(sdp)),
+      sdp: JSON.stringify(sdp),
+      verified,
     };
 
-    await this.xmpp.sendCallSignaling(to, payload);
+    await this.send(to, payload);
     console.info('[CallSignaling] Sent answer to:', to);
   }
 
@@ -175,17 +167,13 @@ export class CallSignalingService {
     callId: string,
     candidate: RTCIceCandidate
   ): Promise<void> {
-    if (!this.xmpp) {
-      throw new Error('[CallSignaling] Not initialized');
-    }
-
     const payload: IceCandidatePayload = {
       type: 'ice-candidate',
       callId,
-      candidate: toBase64(JSON.stringify(candidate)),
+      candidate: JSON.stringify(candidate),
     };
 
-    await this.xmpp.sendCallSignaling(to, payload);
+    await this.send(to, payload);
     console.debug('[CallSignaling] Sent ICE candidate to:', to);
   }
 
@@ -198,17 +186,13 @@ export class CallSignalingService {
     action: 'hangup' | 'decline' | 'busy' | 'ringing',
     reason?: string
   ): Promise<void> {
-    if (!this.xmpp) {
-      throw new Error('[CallSignaling] Not initialized');
-    }
-
     const payload: CallControlPayload = {
       type: action,
       callId,
       reason,
     };
 
-    await this.xmpp.sendCallSignaling(to, payload);
+    await this.send(to, payload);
     console.info('[CallSignaling] Sent control:', action, 'to:', to);
   }
 
@@ -220,28 +204,133 @@ export class CallSignalingService {
     callId: string,
     callType: CallType,
     existingParticipants: string[],
-    sdp: RTCSessionDescription
+    sdp: RTCSessionDescription,
+    verified: boolean
   ): Promise<void> {
-    if (!this.xmpp) {
-      throw new Error('[CallSignaling] Not initialized');
-    }
-
     const payload: CallInvitePayload = {
       type: 'invite',
       callId,
       callType,
       existingParticipants,
-      sdp: toBase64(JSON.stringify(sdp)),
+      sdp: JSON.stringify(sdp),
+      verified,
     };
 
-    await this.xmpp.sendCallSignaling(to, payload);
+    await this.send(to, payload);
     console.info('[CallSignaling] Sent invite to:', to, 'existing:', existingParticipants);
   }
 
+  /**
+   * Send group call invite (host → invitee), with the frame key
+   */
+  async sendGroupInvite(
+    to: string,
+    callId: string,
+    callType: CallType,
+    participants: string[],
+    mediaKey: string
+  ): Promise<void> {
+    const payload: CallGroupInvitePayload = {
+      type: 'group-invite',
+      callId,
+      callType,
+      participants,
+      mediaKey,
+    };
+
+    await this.send(to, payload);
+    console.info('[CallSignaling] Sent group invite to:', to);
+  }
+
+  /**
+   * Send a new frame key to a group call participant (roster leader only)
+   */
+  async sendGroupKey(to: string, callId: string, mediaKey: string): Promise<void> {
+    const payload: CallGroupKeyPayload = {
+      type: 'group-key',
+      callId,
+      mediaKey,
+    };
+
+    await this.send(to, payload);
+    console.info('[CallSignaling] Sent group key to:', to);
+  }
+
+  /**
+   * Send a signal to the SFU (not sealed; see header)
+   */
+  sendToSfu(signal: SfuSignal): Promise<void> {
+    const { xmpp } = this;
+    if (!xmpp) {
+      return Promise.reject(new Error('[CallSignaling] Not initialized'));
+    }
+
+    const sent = this.sendQueue.then(() => xmpp.sendCallSignaling(SFU_JID, signal));
+    this.sendQueue = sent.catch(() => {});
+    return sent;
+  }
+
+  /**
+   * Encrypt a payload for the recipient and send it, after earlier sends
+   */
+  private send(to: string, payload: CallSignalingPayload): Promise<void> {
+    const { xmpp, security } = this;
+    if (!xmpp || !security) {
+      return Promise.reject(new Error('[CallSignaling] Not initialized'));
+    }
+
+    const sent = this.sendQueue.then(async () => {
+      const envelope = await security.seal(to, JSON.stringify(payload));
+      await xmpp.sendCallSignaling(to, {
+        type: 'sealed',
+        callId: payload.callId,
+        ring: payload.type === 'offer' || payload.type === 'invite' || payload.type === 'group-invite' || undefined,
+        envelope,
+      });
+    });
+    // A failed send must not block the ones after it
+    this.sendQueue = sent.catch(() => {});
+    return sent;
+  }
+
   // ============================================================
   // Receiving Signaling Messages
   // ============================================================
 
+  /**
+   * Decrypt an incoming stanza. Anything that is not sealed by the
+   * sender, or fails to decrypt, is dropped.
+   */
+  private async openIncomingSignaling(from: string, sealed: CallSignal): Promise<void> {
+    if (!this.security) return;
+
+    if (sealed.type.startsWith('sfu-')) {
+      this.handleSfuSignal(from, sealed as SfuSignal);
+      return;
+    }
+
+    if (sealed.type !== 'sealed' || !sealed.envelope) {
+      console.warn('[CallSignaling] Dropped unencrypted signaling from:', from.split('@')[0]);
+      return;
+    }
+
+    let payload: CallSignalingPayload;
+    try {
+      payload = JSON.parse(await this.security.open(from, sealed.envelope)) as CallSignalingPayload;
+    } catch (error) {
+      console.warn('[CallSignaling] Dropped signaling that failed to decrypt:', error);
+      return;
+    }
+
+    // The call id outside the envelope must not be trusted
+    if (payload.callId !== sealed.callId) {
+      console.warn('[CallSignaling] Dropped signaling with mismatched call id');
+      return;
+    }
+
+    this.handleIncomingSignaling(from, payload);
+  }
+
   /**
    * Handle incoming signaling message
    */
@@ -267,6 +356,16 @@ export class CallSignalingService {
       case 'invite':
         this.handleInvite(from, payload);
         break;
+      case 'group-invite':
+        if (this.handlers.onGroupInvite) {
+          this.handlers.onGroupInvite(from, payload);
+        }
+        break;
+      case 'group-key':
+        if (this.handlers.onGroupKey) {
+          this.handlers.onGroupKey(from, payload);
+        }
+        break;
       default:
         console.warn('[CallSignaling] Unknown payload type:', (payload as CallSignalingPayload).type);
     }
@@ -274,34 +373,19 @@ export class CallSignalingService {
 
   private handleOffer(from: string, payload: CallOfferPayload): void {
     if (this.handlers.onCallOffer) {
-      // Decode SDP
-      const decodedPayload: CallOfferPayload = {
-        ...payload,
-        sdp: fromBase64(payload.sdp),
-      };
-      this.handlers.onCallOffer(from, decodedPayload);
+      this.handlers.onCallOffer(from, payload);
     }
   }
 
   private handleAnswer(from: string, payload: CallAnswerPayload): void {
     if (this.handlers.onCallAnswer) {
-      // Decode SDP
-      const decodedPayload: CallAnswerPayload = {
-        ...payload,
-        sdp: fromBase64(payload.sdp),
-      };
-      this.handlers.onCallAnswer(from, decodedPayload);
+      this.handlers.onCallAnswer(from, payload);
     }
   }
 
   private handleIceCandidate(from: string, payload: IceCandidatePayload): void {
     if (this.handlers.onIceCandidate) {
-      // Decode candidate
-      const decodedPayload: IceCandidatePayload = {
-        ...payload,
-        candidate: fromBase64(payload.candidate),
-      };
-      this.handlers.onIceCandidate(from, decodedPayload);
+      this.handlers.onIceCandidate(from, payload);
     }
   }
 
@@ -313,12 +397,20 @@ export class CallSignalingService {
 
   private handleInvite(from: string, payload: CallInvitePayload): void {
     if (this.handlers.onCallInvite) {
-      // Decode SDP
-      const decodedPayload: CallInvitePayload = {
-        ...payload,
-        sdp: fromBase64(payload.sdp),
-      };
-      this.handlers.onCallInvite(from, decodedPayload);
+      this.handlers.onCallInvite(from, payload);
+    }
+  }
+
+  /**
+   * SFU signals count only from the SFU itself
+   */
+  private handleSfuSignal(from: string, signal: SfuSignal): void {
+    if (from.split('/')[0] !== SFU_JID) {
+      console.warn('[CallSignaling] Dropped SFU signal from:', from.split('@')[0]);
+      return;
+    }
+    if (this.handlers.onSfuSignal) {
+      this.handlers.onSfuSignal(signal);
     }
   }
 
@@ -7,8 +7,15 @@
  * @see src/services/interfaces.ts for public API types
  */
 
-import type { MediaStream, RTCIceCandidate, RTCSessionDescription } from 'react-native-webrtc';
-import type { CallType, CallState, CallParticipant } from '../interfaces';
+import type { MediaStream, MediaStreamTrack, RTCIceCandidate, RTCSessionDescription } from 'react-native-webrtc';
+import {
+  COMMEAZY_DOMAIN,
+  type CallMode,
+  type CallType,
+  type CallState,
+  type CallParticipant,
+  type EncryptedPayload,
+} from '../interfaces';
 
 // ============================================================
 // XMPP Signaling Types
@@ -24,8 +31,9 @@ export interface CallOfferPayload {
   type: 'offer';
   callId: string;
   callType: CallType;
-  sdp: string;  // Base64 encoded SDP
+  sdp: string;  // JSON encoded RTCSessionDescription
   participants?: string[];  // JIDs for 3-way calls
+  verified?: boolean;  // Sender has QR-verified the recipient
 }
 
 /**
@@ -34,7 +42,8 @@ export interface CallOfferPayload {
 export interface CallAnswerPayload {
   type: 'answer';
   callId: string;
-  sdp: string;  // Base64 encoded SDP
+  sdp: string;  // JSON encoded RTCSessionDescription
+  verified?: boolean;  // Sender has QR-verified the recipient
 }
 
 /**
@@ -43,7 +52,7 @@ export interface CallAnswerPayload {
 export interface IceCandidatePayload {
   type: 'ice-candidate';
   callId: string;
-  candidate: string;  // Base64 encoded JSON
+  candidate: string;  // JSON encoded RTCIceCandidate
 }
 
 /**
@@ -64,6 +73,30 @@ export interface CallInvitePayload {
   callType: CallType;
   existingParticipants: string[];  // Current JIDs in call
   sdp: string;
+  verified?: boolean;  // Sender has QR-verified the recipient
+}
+
+/**
+ * Invite to a group call through the SFU (more than 3 participants).
+ * Only travels sealed: the media key must never reach the SFU.
+ */
+export interface CallGroupInvitePayload {
+  type: 'group-invite';
+  callId: string;
+  callType: CallType;
+  participants: string[];  // All invited JIDs, host first
+  mediaKey: string;  // Base64 frame encryption key (insertable streams)
+}
+
+/**
+ * New frame key for a running group call, sent by the roster leader when
+ * someone left (so they cannot decrypt what follows) and to late joiners.
+ * Only travels sealed, like the invite.
+ */
+export interface CallGroupKeyPayload {
+  type: 'group-key';
+  callId: string;
+  mediaKey: string;  // Base64 frame encryption key
 }
 
 /**
@@ -74,7 +107,109 @@ export type CallSignalingPayload =
   | CallAnswerPayload
   | IceCandidatePayload
   | CallControlPayload
-  | CallInvitePayload;
+  | CallInvitePayload
+  | CallGroupInvitePayload
+  | CallGroupKeyPayload;
+
+/**
+ * What actually goes over XMPP: a CallSignalingPayload encrypted with the
+ * contact's keys. The server only sees the call id, whether the call starts
+ * ringing (needed for VoIP push) and the ciphertext.
+ */
+export interface SealedCallSignal {
+  type: 'sealed';
+  callId: string;
+  /** Set on offers and invites so the push module can wake the callee */
+  ring?: boolean;
+  envelope: EncryptedPayload;
+}
+
+// ============================================================
+// SFU Signaling Types
+// ============================================================
+
+/** XMPP component address of the SFU (server/sfu) */
+export const SFU_JID = `sfu.${COMMEAZY_DOMAIN}`;
+
+/**
+ * Join (or rejoin) a room. The host creates the room with the invited JIDs;
+ * the SFU admits only those. The client offers its own tracks.
+ */
+export interface SfuJoinSignal {
+  type: 'sfu-join';
+  callId: string;
+  sdp: string;  // JSON encoded RTCSessionDescription (offer)
+  invited?: string[];  // Host only: bare JIDs allowed to join
+  encrypted?: boolean;  // Our frames are sealed with the group key
+}
+
+/**
+ * Renegotiation from the SFU: forwarded tracks of the other participants
+ */
+export interface SfuOfferSignal {
+  type: 'sfu-offer';
+  callId: string;
+  sdp: string;  // JSON encoded RTCSessionDescription
+  tracks: SfuTrackInfo[];
+}
+
+/** Which participant a forwarded m-line belongs to */
+export interface SfuTrackInfo {
+  mid: string;
+  jid: string;
+  kind: 'audio' | 'video';
+  encrypted?: boolean;  // The sender seals its frames; only then do we decrypt
+}
+
+/**
+ * Answer in either direction (to our join offer, or to an sfu-offer)
+ */
+export interface SfuAnswerSignal {
+  type: 'sfu-answer';
+  callId: string;
+  sdp: string;  // JSON encoded RTCSessionDescription
+}
+
+export interface SfuIceSignal {
+  type: 'sfu-ice';
+  callId: string;
+  candidate: string;  // JSON encoded RTCIceCandidate
+}
+
+/** Bare JIDs currently in the room */
+export interface SfuRosterSignal {
+  type: 'sfu-roster';
+  callId: string;
+  participants: string[];
+}
+
+export interface SfuLeaveSignal {
+  type: 'sfu-leave';
+  callId: string;
+}
+
+export interface SfuErrorSignal {
+  type: 'sfu-error';
+  callId: string;
+  code: 'not-invited' | 'room-full' | 'no-room' | 'internal';
+}
+
+/**
+ * SFU signaling. Not sealed: the SFU is a server, not a contact. It
+ * terminates the transport encryption, so media is protected end-to-end
+ * with frame encryption where the platform supports it.
+ */
+export type SfuSignal =
+  | SfuJoinSignal
+  | SfuOfferSignal
+  | SfuAnswerSignal
+  | SfuIceSignal
+  | SfuRosterSignal
+  | SfuLeaveSignal
+  | SfuErrorSignal;
+
+/** Everything in the call namespace on the wire */
+export type CallSignal = SealedCallSignal | SfuSignal;
 
 // ============================================================
 // WebRTC Internal Types
@@ -124,6 +259,26 @@ export interface InternalCallState {
   reconnectAttempts?: number;
   /** Timer for reconnection attempt */
   reconnectTimer?: ReturnType<typeof setTimeout>;
+  /** Per remote JID: DTLS fingerprint and verified flag from authenticated signaling */
+  peerSecurity: Map<string, PeerSecurityState>;
+  /** Remote JIDs whose media stopped arriving (CallQualityMonitor) */
+  stalledPeers: Set<string>;
+  /** 'sfu' for group calls with more than MAX_PARTICIPANTS */
+  mode: CallMode;
+  /** SFU calls: current frame encryption key (sealed invite or group-key) */
+  mediaKey?: string;
+  /** SFU calls: last roster, in join order (roster[0] hands out keys) */
+  sfuRoster?: string[];
+}
+
+/**
+ * What the encrypted signaling told us about one remote participant
+ */
+export interface PeerSecurityState {
+  /** DTLS fingerprint from the remote SDP ("sha-256 AB:CD:…") */
+  remoteFingerprint: string;
+  /** The remote side has QR-verified us */
+  remoteVerified: boolean;
 }
 
 // ============================================================
@@ -218,6 +373,8 @@ export const CALL_TIMEOUTS = {
 export const CALL_LIMITS = {
   /** Maximum participants in a mesh call */
   MAX_PARTICIPANTS: 3,
+  /** Maximum participants in a group call through the SFU */
+  MAX_GROUP_PARTICIPANTS: 8,
   /** Maximum reconnection attempts */
   MAX_RECONNECTION_ATTEMPTS: 3,
 };
@@ -239,6 +396,8 @@ export interface RTCPeerConnection {
   addTrack(track: MediaStreamTrack, stream: MediaStream): RTCRtpSender;
   removeTrack(sender: RTCRtpSender): void;
   getTransceivers(): RTCRtpTransceiver[];
+  getSenders(): RTCRtpSender[];
+  getStats(): Promise<Map<string, RTCStats>>;
   close(): void;
 
   // Event handlers
@@ -256,6 +415,13 @@ export interface RTCPeerConnection {
   remoteDescription: RTCSessionDescription | null;
 }
 
+/** Entry of a getStats() report; fields depend on the type */
+export interface RTCStats {
+  id: string;
+  type: string;
+  [key: string]: unknown;
+}
+
 interface RTCOfferOptions {
   offerToReceiveAudio?: boolean;
   offerToReceiveVideo?: boolean;
@@ -280,6 +446,20 @@ interface RTCTrackEvent {
 interface RTCRtpSender {
   track: MediaStreamTrack | null;
   replaceTrack(track: MediaStreamTrack | null): Promise<void>;
+  getParameters(): RTCRtpSendParameters;
+  setParameters(parameters: RTCRtpSendParameters): Promise<void>;
+}
+
+export interface RTCRtpSendParameters {
+  encodings: RTCRtpEncodingParameters[];
+  [key: string]: unknown;
+}
+
+export interface RTCRtpEncodingParameters {
+  active: boolean;
+  maxBitrate?: number;
+  maxFramerate?: number;
+  scaleResolutionDownBy?: number;
 }
 
 interface RTCRtpReceiver {
@@ -300,14 +480,4 @@ type RTCPeerConnectionState = 'new' | 'connecting' | 'connected' | 'disconnected
 type RTCSignalingState = 'stable' | 'have-local-offer' | 'have-remote-offer' | 'have-local-pranswer' | 'have-remote-pranswer' | 'closed';
 
 // Export react-native-webrtc types
-export type { MediaStream, RTCIceCandidate, RTCSessionDescription } from 'react-native-webrtc';
-
-// MediaStreamTrack is not exported from react-native-webrtc, define minimal interface
-export interface MediaStreamTrack {
-  kind: 'audio' | 'video';
-  id: string;
-  enabled: boolean;
-  muted: boolean;
-  readyState: 'live' | 'ended';
-  stop(): void;
-}
+export type { MediaStream, MediaStreamTrack, RTCIceCandidate, RTCSessionDescription } from 'react-native-webrtc';
@@ -30,6 +30,7 @@ import {
   type LocalMediaState,
   type MediaStreamTrack,
 } from './types';
+import type { VideoEncoding } from './qualityMonitor';
 
 // ============================================================
 // WebRTC Service
@@ -217,12 +218,17 @@ export class WebRTCService {
   // ============================================================
 
   /**
-   * Create a new PeerConnection for a remote participant
+   * Create a new PeerConnection for a remote participant (or the SFU)
+   * @param options.encodedInsertableStreams - Allow frame encryption (SFU calls)
    */
-  createPeerConnection(remoteJid: string): PeerConnectionState {
+  createPeerConnection(
+    remoteJid: string,
+    options: { encodedInsertableStreams?: boolean } = {}
+  ): PeerConnectionState {
     const config = {
       iceServers: this.iceServers,
       ...PEER_CONNECTION_CONFIG,
+      ...(options.encodedInsertableStreams ? { encodedInsertableStreams: true } : {}),
     };
 
     console.info('[WebRTC] Creating PeerConnection for:', remoteJid);
@@ -545,6 +551,42 @@ export class WebRTCService {
     }
   }
 
+  /**
+   * Adapt the outgoing video to the link quality.
+   * Only the encoding changes, so no renegotiation is needed; with
+   * sendVideo false the sender stops (the call continues audio-only)
+   * while the camera stays on for the local preview.
+   */
+  async applyVideoEncoding(state: PeerConnectionState, encoding: VideoEncoding): Promise<void> {
+    const senders = state.connection.getSenders?.() || [];
+    const sender = senders.find((s) => s.track?.kind === 'video');
+    if (!sender) return;
+
+    const parameters = sender.getParameters();
+    if (!parameters.encodings || parameters.encodings.length === 0) {
+      parameters.encodings = [{ active: true }];
+    }
+
+    for (const params of parameters.encodings) {
+      params.active = encoding.sendVideo;
+      if (encoding.sendVideo) {
+        params.maxBitrate = encoding.maxBitrate;
+        params.maxFramerate = encoding.maxFramerate;
+        params.scaleResolutionDownBy = encoding.scaleResolutionDownBy;
+      }
+    }
+
+    try {
+      await sender.setParameters(parameters);
+      console.info(
+        '[WebRTC] Video encoding for:', state.jid,
+        encoding.sendVideo ? `${encoding.maxBitrate / 1000} kbps` : 'paused',
+      );
+    } catch (error) {
+      console.warn('[WebRTC] Failed to set video encoding for:', state.jid, error);
+    }
+  }
+
   // ============================================================
   // State Mapping Helpers
   // ============================================================
@@ -0,0 +1,232 @@
+/**
+ * Call Log Service — Call history and missed calls
+ *
+ * Records every finished call in the call_log table:
+ * - observeCallState() snapshots give the type, direction, participants
+ *   and the moment the call was answered
+ * - onCallEnded() gives the end reason and triggers the write
+ *
+ * An incoming call is "missed" when it was never answered and ended by
+ * itself (ring timeout) or because the caller hung up. Calls we declined
+ * ourselves are not missed. Missed calls stay unseen (badge on the Calls
+ * module) until the Recent tab is opened.
+ *
+ * The log also feeds the frequent-calls smart section in Contacts.
+ *
+ * @see services/call/index.ts (CallService)
+ * @see screens/modules/CallsScreen.tsx (Recent tab)
+ * @see services/contacts/smartSections.ts (getFrequentCalls)
+ */
+
+import { ServiceContainer } from './container';
+import type {
+  ActiveCall,
+  CallDirection,
+  CallEndReason,
+  CallLogEntry,
+  CallService,
+  CallType,
+  Observable,
+  Unsubscribe,
+} from './interfaces';
+
+// ============================================================
+// Types
+// ============================================================
+
+/** The part of CallService the log listens to */
+export type CallEventSource = Pick<CallService, 'observeCallState' | 'onCallEnded'>;
+
+/** What we know about a call while it is still going */
+interface TrackedCall {
+  type: CallType;
+  direction: CallDirection;
+  startedAt: number;
+  connectedAt?: number;
+  /** JID → display name; kept when participants leave a 3-way call */
+  participants: Map<string, string>;
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+/** Calls shown in the Recent tab */
+export const RECENT_CALLS_LIMIT = 100;
+
+/** Period counted for the frequent-calls smart section */
+export const FREQUENT_CALLS_WINDOW_DAYS = 90;
+
+/** Most calls read for frequency counting */
+const FREQUENCY_SAMPLE_LIMIT = 500;
+
+/** Reasons an unanswered incoming call counts as missed */
+const MISSED_REASONS: CallEndReason[] = ['timeout', 'hangup'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================
+// Pure Helpers
+// ============================================================
+
+/**
+ * Whether a call counts as missed: incoming, never answered, and not
+ * declined by us (failures before answering are not missed either).
+ */
+export function isMissedCall(
+  direction: CallDirection,
+  connectedAt: number | undefined,
+  reason: CallEndReason,
+): boolean {
+  return direction === 'incoming' && connectedAt === undefined && MISSED_REASONS.includes(reason);
+}
+
+/**
+ * Count calls per contact: outgoing calls and answered incoming calls.
+ * Missed and declined calls do not make someone a frequent contact.
+ */
+export function countCallsPerContact(calls: CallLogEntry[]): Record<string, number> {
+  const frequency: Record<string, number> = {};
+  for (const call of calls) {
+    if (call.direction === 'incoming' && call.connectedAt === undefined) continue;
+    for (const { jid } of call.participants) {
+      frequency[jid] = (frequency[jid] || 0) + 1;
+    }
+  }
+  return frequency;
+}
+
+// ============================================================
+// Service
+// ============================================================
+
+class CallLogServiceImpl {
+  private tracked: Map<string, TrackedCall> = new Map();
+  private unsubscribers: Unsubscribe[] = [];
+
+  /**
+   * Start recording calls. Safe to call more than once.
+   */
+  initialize(calls: CallEventSource): void {
+    if (this.unsubscribers.length > 0) return;
+
+    this.unsubscribers = [
+      calls.observeCallState().subscribe((call) => {
+        if (call) this.track(call);
+      }),
+      calls.onCallEnded((callId, reason) => {
+        void this.record(callId, reason);
+      }),
+    ];
+  }
+
+  /**
+   * Stop recording (tests, logout).
+   */
+  cleanup(): void {
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+    this.tracked.clear();
+  }
+
+  // ============================================================
+  // Queries
+  // ============================================================
+
+  /**
+   * Recent calls, newest first.
+   */
+  observeRecentCalls(limit: number = RECENT_CALLS_LIMIT): Observable<CallLogEntry[]> {
+    return ServiceContainer.database.observeCallLog(limit);
+  }
+
+  /**
+   * Number of missed calls not yet seen in the Recent tab.
+   */
+  observeMissedCallCount(): Observable<number> {
+    return ServiceContainer.database.observeUnseenMissedCallCount();
+  }
+
+  /**
+   * Clear the missed-call badge (the user opened the Recent tab).
+   */
+  async markMissedCallsSeen(now: number = Date.now()): Promise<void> {
+    await ServiceContainer.database.markMissedCallsSeen(now);
+  }
+
+  /**
+   * Calls per contact JID over the last FREQUENT_CALLS_WINDOW_DAYS.
+   */
+  async getCallFrequency(now: number = Date.now()): Promise<Record<string, number>> {
+    try {
+      const since = now - FREQUENT_CALLS_WINDOW_DAYS * DAY_MS;
+      const calls = await ServiceContainer.database.getCallLog(FREQUENCY_SAMPLE_LIMIT, since);
+      return countCallsPerContact(calls);
+    } catch (error) {
+      console.error('[CallLog] Failed to read call frequency:', error);
+      return {};
+    }
+  }
+
+  // ============================================================
+  // Recording
+  // ============================================================
+
+  private track(call: ActiveCall): void {
+    let tracked = this.tracked.get(call.id);
+    if (!tracked) {
+      tracked = {
+        type: call.type,
+        direction: call.direction,
+        startedAt: Date.now(),
+        participants: new Map(),
+      };
+      this.tracked.set(call.id, tracked);
+    }
+
+    if (call.startTime !== undefined && tracked.connectedAt === undefined) {
+      tracked.connectedAt = call.startTime;
+    }
+    for (const participant of call.participants) {
+      tracked.participants.set(participant.jid, participant.name);
+    }
+  }
+
+  private async record(callId: string, reason: CallEndReason): Promise<void> {
+    const tracked = this.tracked.get(callId);
+    if (!tracked) {
+      console.warn('[CallLog] Ended call was never seen:', callId);
+      return;
+    }
+    this.tracked.delete(callId);
+
+    const endedAt = Date.now();
+    const entry: CallLogEntry = {
+      callId,
+      type: tracked.type,
+      direction: tracked.direction,
+      participants: [...tracked.participants].map(([jid, name]) => ({ jid, name })),
+      startedAt: tracked.startedAt,
+      connectedAt: tracked.connectedAt,
+      endedAt,
+      duration: tracked.connectedAt !== undefined
+        ? Math.max(0, Math.floor((endedAt - tracked.connectedAt) / 1000))
+        : 0,
+      endReason: reason,
+      isMissed: isMissedCall(tracked.direction, tracked.connectedAt, reason),
+    };
+
+    try {
+      await ServiceContainer.database.saveCallLogEntry(entry);
+      console.info('[CallLog] Recorded', entry.direction, entry.type, 'call, reason:', reason);
+    } catch (error) {
+      console.error('[CallLog] Failed to record call:', error);
+    }
+  }
+}
+
+// ============================================================
+// Singleton Export
+// ============================================================
+
+export const callLogService = new CallLogServiceImpl();
@@ -6,6 +6,8 @@
  * - Receiving and decrypting messages
  * - Delivery receipts
  * - Offline sync (7-day outbox)
+ * - Edit, delete for everyone and reactions (services/messageActions.ts)
+ * - Key-change warnings (system message when a contact's key changes)
  *
  * @see services/interfaces.ts for contracts
  * @see .claude/skills/xmpp-specialist/SKILL.md for offline sync protocol
@@ -15,11 +17,26 @@ import uuid from 'react-native-uuid';
 import RNFS from 'react-native-fs';
 
 import { ServiceContainer } from './container';
-import { compressPhoto, generatePhotoThumbnail } from './media';
+import {
+  generatePhotoThumbnail,
+  getMediaUri,
+  saveVoice,
+  transcribeVoice,
+  savePhoto,
+  preparePhotoPath,
+  prepareVoicePath,
+  createMediaKey,
+  uploadMediaTransfer,
+  downloadEncryptedFile,
+  parseMediaPointer,
+  MEDIA_DEFAULTS,
+} from './media';
 import type {
   Message,
+  MediaTransfer,
   OutboxMessage,
   Contact,
+  ContactKeyChange,
   EncryptedPayload,
   Observable,
   Unsubscribe,
@@ -29,7 +46,16 @@ import type {
 } from './interfaces';
 import { getContactDisplayName } from './interfaces';
 import { AppError } from './interfaces';
+import {
+  applyMessageAction,
+  canEditMessage,
+  canReactToMessage,
+  canRetractMessage,
+  parseMessageAction,
+  type MessageAction,
+} from './messageActions';
 import { OutboxMessageModel } from '@/models';
+import type { MediaPointer, VoiceRecordingResult } from '@/types/media';
 
 const SEVEN_DAYS_MS = 7 * 24 * 60 * 60 * 1000;
 
@@ -63,6 +89,9 @@ export interface SendPhotoMessageResult extends SendMessageResult {
   thumbnailUri?: string;
 }
 
+/** Received photo download state, for progress in the chat */
+export type MediaDownloadState = 'downloading' | 'done' | 'failed';
+
 export interface PhotoMessageOptions {
   /** Optional caption text for the photo */
   caption?: string;
@@ -72,6 +101,17 @@ export interface PhotoMessageOptions {
   height: number;
 }
 
+/**
+ * Photo, voice message or agenda item sent as a JSON payload.
+ * Pointer variants carry media: null when the pointer is malformed.
+ */
+export type StructuredPayload =
+  | { type: 'image'; media: MediaPointer | null; caption: string; width?: number; height?: number; thumbnail?: string }
+  | { type: 'image'; data: string; caption: string; width?: number; height?: number; size?: number }
+  | { type: 'audio'; media: MediaPointer | null; duration: number; waveform: number[] }
+  | { type: 'audio'; data: string; duration: number; waveform: number[]; size?: number }
+  | { type: 'agenda_item'; title: string };
+
 export class ChatService {
   private myJid: string | null = null;
   private myName: string | null = null;
@@ -80,6 +120,9 @@ export class ChatService {
   private messageListeners: Set<(message: Message) => void> = new Set();
   private presenceListeners: Set<(jid: string, show: PresenceShow) => void> = new Set();
   private statusListeners: Set<(messageId: string, status: DeliveryStatus) => void> = new Set();
+  private mediaDownloadListeners: Set<(messageId: string, state: MediaDownloadState, progress: number) => void> = new Set();
+  // Media IDs with an upload or download in flight
+  private activeMediaTransfers: Set<string> = new Set();
 
   // Retry state
   private retryTimer: NodeJS.Timeout | null = null;
@@ -123,6 +166,12 @@ export class ChatService {
     // Subscribe to XMPP events
     this.setupXMPPListeners();
 
+    // Warn in the chat when a contact's public key changes
+    const keyChangeUnsub = ServiceContainer.database.onContactKeyChanged((change) => {
+      void this.handleContactKeyChanged(change);
+    });
+    this.unsubscribers.push(keyChangeUnsub);
+
     // Start daily outbox cleanup
     this.scheduleOutboxCleanup();
 
@@ -189,7 +238,7 @@ export class ChatService {
       });
     }
 
-    const messageId = uuid.v4() as string;
+    const messageId = uuid.v4();
     const timestamp = Date.now();
     const chatId = this.getChatId(contactJid);
 
@@ -238,10 +287,11 @@ export class ChatService {
           publicKey: from_base64(recipientPublicKey, base64_variants.ORIGINAL),
         };
 
-        // Encrypt message
+        // Encrypt message (Double Ratchet — forward secret per contact)
         encryptedPayload = await ServiceContainer.encryption.encrypt(
           content,
           [recipient],
+          'ratchet',
         );
       }
 
@@ -268,6 +318,7 @@ export class ChatService {
         try {
           await xmpp.sendMessage(contactJid, encryptedPayload, messageId);
           await this.updateMessageStatus(messageId, 'sent');
+          this.statusListeners.forEach(listener => listener(messageId, 'sent'));
           return { messageId, status: 'sent' };
         } catch (xmppError) {
           // XMPP send failed, save to outbox
@@ -284,7 +335,7 @@ export class ChatService {
       console.error('sendMessage error:', error);
       if (error instanceof AppError) throw error;
 
-      throw new AppError('E300', 'delivery', () => this.retrySendMessage(messageId), {
+      throw new AppError('E300', 'delivery', () => { void this.retrySendMessage(messageId); }, {
         reason: 'send_failed',
       });
     }
@@ -292,7 +343,12 @@ export class ChatService {
 
   /**
    * Send a photo message to a contact.
-   * Handles compression, thumbnail generation, encryption, and XMPP delivery.
+   * The photo is stripped of EXIF data, compressed, encrypted with a random
+   * key and uploaded in chunks (XEP-0363). The contact receives a small
+   * pointer message with the download URL and key.
+   *
+   * When offline or the upload is interrupted, the message stays 'pending'
+   * and the upload resumes later (retry timer or retrySendMessage).
    *
    * @param contactJid - The JID of the recipient
    * @param photoUri - The local file URI of the photo to send
@@ -311,137 +367,342 @@ export class ChatService {
         reason: 'contact_not_found',
       });
     }
+    // Fail early — without a public key the pointer can never be sent
+    await this.resolveRecipient(contactJid);
 
-    const messageId = uuid.v4() as string;
+    const messageId = uuid.v4();
     const timestamp = Date.now();
     const chatId = this.getChatId(contactJid);
 
     try {
-      // Step 1: Compress photo and generate thumbnail
-      console.info('[ChatService] Compressing photo for sending...');
-      const compressed = await compressPhoto(photoUri);
-      if (!compressed.success || !compressed.uri) {
+      // Step 1: Strip EXIF, compress and store the photo with its thumbnail
+      console.info('[ChatService] Preparing photo for sending...');
+      const item = await savePhoto(photoUri, chatId, 'camera');
+      if (!item) {
         throw new AppError('E500', 'network', () => {}, {
           reason: 'photo_compression_failed',
-          error: compressed.error,
         });
       }
+      const thumbnailData = await this.readInlineThumbnail(item.thumbnailUri);
 
-      console.info('[ChatService] Generating thumbnail...');
-      const thumbnail = await generatePhotoThumbnail(compressed.uri);
-      const thumbnailUri = thumbnail.success ? thumbnail.uri : undefined;
-
-      // Step 2: Read compressed photo as base64 for encryption
-      const normalizedUri = compressed.uri.startsWith('file://')
-        ? compressed.uri.slice(7)
-        : compressed.uri;
-      const photoBase64 = await RNFS.readFile(normalizedUri, 'base64');
+      // Step 2: Transfer record with a fresh per-file key
+      const { key, nonce } = createMediaKey();
+      const transfer: MediaTransfer = {
+        mediaId: item.id,
+        messageId,
+        chatId,
+        type: 'photo',
+        localUri: item.localUri,
+        size: item.size,
+        width: item.width || options.width,
+        height: item.height || options.height,
+        source: item.source,
+        encryptionKey: key,
+        encryptionNonce: nonce,
+        chunkSize: MEDIA_DEFAULTS.transfer.chunkSize,
+        status: 'pending',
+        retryCount: 0,
+        expiresAt: timestamp + SEVEN_DAYS_MS,
+      };
+      await ServiceContainer.database.saveMediaTransfer(transfer);
 
-      // Step 3: Create photo payload (photo data + metadata)
-      const photoPayload = {
-        type: 'image',
-        data: photoBase64,
-        caption: options.caption || '',
-        width: compressed.width || options.width,
-        height: compressed.height || options.height,
-        size: compressed.size || 0,
-        mimeType: 'image/jpeg',
+      // Step 3: Save to local messages (unencrypted for display)
+      const message: Message = {
+        id: messageId,
+        chatId,
+        senderId: this.myJid!,
+        senderName: this.myName!,
+        content: options.caption || '',
+        contentType: 'image',
+        timestamp,
+        status: 'pending',
+        isRead: true,
+        // Photo-specific fields
+        mediaId: item.id,
+        mediaUri: `file://${item.localUri}`,
+        thumbnailUri: `file://${item.thumbnailUri}`,
+        thumbnailData,
+        mediaWidth: transfer.width,
+        mediaHeight: transfer.height,
+        mediaSize: item.size,
       };
-      const payloadJson = JSON.stringify(photoPayload);
+      await ServiceContainer.database.saveMessage(message);
 
-      // Step 4: Encrypt the payload
-      let encryptedPayload: EncryptedPayload;
+      // Notify listeners
+      this.messageListeners.forEach(listener => listener(message));
 
-      {
-        const { from_base64, base64_variants } = await import('react-native-libsodium');
+      // Step 4: Upload, then send the pointer (or queue it)
+      const status = await this.deliverMedia(transfer, contactJid);
+      if (status !== 'pending') {
+        this.statusListeners.forEach(listener => listener(messageId, status));
+      }
+      return { messageId, status, thumbnailUri: message.thumbnailUri };
+    } catch (error) {
+      console.error('[ChatService] sendPhotoMessage error:', error);
+      if (error instanceof AppError) throw error;
 
-        let recipientPublicKey = contact.publicKey;
+      throw new AppError('E300', 'delivery', () => { void this.retrySendMessage(messageId); }, {
+        reason: 'photo_send_failed',
+      });
+    }
+  }
 
-        if (__DEV__ && (!recipientPublicKey || recipientPublicKey.length === 0)) {
-          console.warn(`[ChatService] Contact ${contactJid} has no public key, trying test keys...`);
-          try {
-            const { getTestPublicKeyForJid } = await import('./testKeys');
-            const testKey = await getTestPublicKeyForJid(contactJid);
-            if (testKey) {
-              recipientPublicKey = testKey;
-              await ServiceContainer.database.saveContact({
-                ...contact,
-                publicKey: testKey,
-              });
-              console.log(`[ChatService] Loaded test key for ${contactJid}`);
-            }
-          } catch (testKeyError) {
-            console.warn(`[ChatService] Failed to load test key:`, testKeyError);
-          }
-        }
+  /**
+   * Download a received photo or voice message: again after a failed
+   * download, or for the first time when GroupChatService recorded it.
+   */
+  async retryMediaDownload(messageId: string): Promise<void> {
+    const message = await ServiceContainer.database.getMessage(messageId);
+    if (message?.mediaId) {
+      await this.downloadMedia(message.mediaId);
+    }
+  }
 
-        if (!recipientPublicKey || recipientPublicKey.length === 0) {
-          throw new AppError('E202', 'encryption', () => {}, {
-            reason: 'missing_public_key',
-            contactJid,
-          });
-        }
+  /**
+   * Continue interrupted media uploads and downloads.
+   * Called from the outbox retry timer; safe to call at any time.
+   * Group uploads are resumed by GroupChatService.
+   */
+  async resumeMediaTransfers(): Promise<void> {
+    if (ServiceContainer.xmpp.getConnectionStatus() !== 'connected') return;
+
+    const transfers = await ServiceContainer.database.getPendingMediaTransfers();
+    for (const transfer of transfers) {
+      if (transfer.source === 'received') {
+        await this.downloadMedia(transfer.mediaId);
+        continue;
+      }
+      if (!transfer.chatId.startsWith('chat:')) continue;
 
-        const recipient: Recipient = {
-          jid: contactJid,
-          publicKey: from_base64(recipientPublicKey, base64_variants.ORIGINAL),
-        };
+      const contactJid = this.getContactJidFromChatId(transfer.chatId);
+      const status = await this.deliverMedia(transfer, contactJid);
+      if (status !== 'pending') {
+        this.statusListeners.forEach(listener => listener(transfer.messageId, status));
+      }
+    }
+  }
 
-        encryptedPayload = await ServiceContainer.encryption.encrypt(
-          payloadJson,
-          [recipient],
-        );
+  /**
+   * Send a voice message to a contact.
+   * The recording is already AAC-compressed by the native recorder; like a
+   * photo it is encrypted with a random key and uploaded in chunks, and the
+   * contact receives a pointer with the duration and waveform.
+   *
+   * @param contactJid - The JID of the recipient
+   * @param recording - Result of stopVoiceRecording()
+   */
+  async sendVoiceMessage(
+    contactJid: string,
+    recording: VoiceRecordingResult,
+  ): Promise<SendMessageResult> {
+    this.ensureInitialized();
+
+    if (!recording.success || !recording.uri) {
+      throw new AppError('E300', 'delivery', () => {}, {
+        reason: recording.error ?? 'voice_recording_failed',
+      });
+    }
+
+    // Fail early — without a public key the pointer can never be sent
+    await this.resolveRecipient(contactJid);
+
+    const messageId = uuid.v4();
+    const timestamp = Date.now();
+    const chatId = this.getChatId(contactJid);
+    const duration = recording.duration ?? 0;
+    const waveform = recording.waveform ?? [];
+
+    try {
+      // Step 1: Move the recording into media storage
+      const item = await saveVoice(recording.uri, chatId, duration, waveform, 'recorded', this.myJid!, this.myName!);
+      if (!item) {
+        throw new AppError('E500', 'network', () => {}, { reason: 'voice_save_failed' });
       }
 
-      // Step 5: Save to local messages (unencrypted for display)
+      // Step 2: Transfer record with a fresh per-file key
+      const { key, nonce } = createMediaKey();
+      const transfer: MediaTransfer = {
+        mediaId: item.id,
+        messageId,
+        chatId,
+        type: 'audio',
+        localUri: item.localUri,
+        size: item.size,
+        width: 0,
+        height: 0,
+        source: item.source,
+        encryptionKey: key,
+        encryptionNonce: nonce,
+        chunkSize: MEDIA_DEFAULTS.transfer.chunkSize,
+        status: 'pending',
+        retryCount: 0,
+        expiresAt: timestamp + SEVEN_DAYS_MS,
+      };
+      await ServiceContainer.database.saveMediaTransfer(transfer);
+
+      // Step 3: Save to local messages
       const message: Message = {
         id: messageId,
         chatId,
         senderId: this.myJid!,
         senderName: this.myName!,
-        content: options.caption || '',
-        contentType: 'image',
+        content: '',
+        contentType: 'audio',
         timestamp,
         status: 'pending',
         isRead: true,
-        // Photo-specific fields
-        mediaUri: compressed.uri,
-        thumbnailUri,
-        mediaWidth: compressed.width || options.width,
-        mediaHeight: compressed.height || options.height,
-        mediaSize: compressed.size,
+        mediaId: item.id,
+        mediaUri: `file://${item.localUri}`,
+        mediaSize: item.size,
+        mediaDuration: duration,
+        waveform,
       };
       await ServiceContainer.database.saveMessage(message);
-
-      // Notify listeners
       this.messageListeners.forEach(listener => listener(message));
 
-      // Step 6: Send via XMPP
-      const xmpp = ServiceContainer.xmpp;
-      if (xmpp.getConnectionStatus() === 'connected') {
-        try {
-          await xmpp.sendMessage(contactJid, encryptedPayload, messageId);
-          await this.updateMessageStatus(messageId, 'sent');
-          console.info('[ChatService] Photo message sent successfully');
-          return { messageId, status: 'sent', thumbnailUri };
-        } catch (xmppError) {
-          await this.saveToOutbox(chatId, encryptedPayload, [contactJid], messageId, 'image');
-          return { messageId, status: 'pending', thumbnailUri };
-        }
-      } else {
-        await this.saveToOutbox(chatId, encryptedPayload, [contactJid], messageId, 'image');
-        return { messageId, status: 'pending', thumbnailUri };
+      // Step 4: Upload, then send the pointer (or queue it)
+      const status = await this.deliverMedia(transfer, contactJid);
+      if (status !== 'pending') {
+        this.statusListeners.forEach(listener => listener(messageId, status));
       }
+      return { messageId, status };
     } catch (error) {
-      console.error('[ChatService] sendPhotoMessage error:', error);
+      console.error('[ChatService] sendVoiceMessage error:', error);
       if (error instanceof AppError) throw error;
 
-      throw new AppError('E300', 'delivery', () => this.retrySendMessage(messageId), {
-        reason: 'photo_send_failed',
+      throw new AppError('E300', 'delivery', () => { void this.retrySendMessage(messageId); }, {
+        reason: 'voice_send_failed',
       });
     }
   }
 
+  /**
+   * Transcribe a voice message on-device and store the transcript.
+   * Best effort: languages without on-device recognition simply get none.
+   * Works for 1-on-1 and group messages alike.
+   *
+   * @param language - App language (i18n.language)
+   * @returns The transcript, or null
+   */
+  async transcribeVoiceMessage(messageId: string, language: string): Promise<string | null> {
+    const message = await ServiceContainer.database.getMessage(messageId);
+    if (!message || message.contentType !== 'audio' || message.retractedAt) return null;
+    if (message.transcript) return message.transcript;
+
+    const uri = message.mediaUri ?? (message.mediaId ? await getMediaUri(message.mediaId) : null);
+    if (!uri) return null;
+
+    const transcript = await transcribeVoice(uri, language);
+    if (transcript) {
+      await ServiceContainer.database.setMessageTranscript(messageId, transcript);
+    }
+    return transcript;
+  }
+
+  // ============================================================
+  // Message Actions (edit, delete for everyone, reactions)
+  // ============================================================
+
+  /**
+   * Edit one of our own text messages (within EDIT_WINDOW_MS).
+   */
+  async editMessage(contactJid: string, messageId: string, text: string): Promise<void> {
+    this.ensureInitialized();
+    const message = await ServiceContainer.database.getMessage(messageId);
+    if (!message || !canEditMessage(message, this.myJid!)) {
+      throw new AppError('E305', 'delivery', () => {}, { reason: 'edit_not_allowed' });
+    }
+    await this.sendAction(contactJid, { type: 'edit', targetId: messageId, text, editedAt: Date.now() });
+  }
+
+  /**
+   * Delete one of our own messages for everyone (within RETRACT_WINDOW_MS).
+   */
+  async retractMessage(contactJid: string, messageId: string): Promise<void> {
+    this.ensureInitialized();
+    const message = await ServiceContainer.database.getMessage(messageId);
+    if (!message || !canRetractMessage(message, this.myJid!)) {
+      throw new AppError('E305', 'delivery', () => {}, { reason: 'retract_not_allowed' });
+    }
+    await this.sendAction(contactJid, { type: 'retract', targetId: messageId, retractedAt: Date.now() });
+  }
+
+  /**
+   * React to a message with an emoji, or remove our reaction (emoji null).
+   */
+  async reactToMessage(contactJid: string, messageId: string, emoji: string | null): Promise<void> {
+    this.ensureInitialized();
+    const message = await ServiceContainer.database.getMessage(messageId);
+    if (!message || !canReactToMessage(message)) {
+      throw new AppError('E305', 'delivery', () => {}, { reason: 'reaction_not_allowed' });
+    }
+    await this.sendAction(contactJid, { type: 'reaction', targetId: messageId, emoji });
+  }
+
+  // ============================================================
+  // Linked Device Sync (services/deviceSync.ts)
+  // ============================================================
+
+  /**
+   * Encrypted photo pointer for a message, once the photo is on the upload
+   * server. Linked devices use it to download the same photo.
+   */
+  async getMediaPointer(message: Message): Promise<MediaPointer | null> {
+    if (message.contentType !== 'image' || !message.mediaId) return null;
+
+    const transfer = await ServiceContainer.database.getMediaTransfer(message.mediaId);
+    if (!transfer?.remoteUrl) return null;
+
+    return {
+      url: transfer.remoteUrl,
+      key: transfer.encryptionKey,
+      nonce: transfer.encryptionNonce,
+      size: transfer.size,
+      chunkSize: transfer.chunkSize ?? MEDIA_DEFAULTS.transfer.chunkSize,
+      mimeType: 'image/jpeg',
+    };
+  }
+
+  /**
+   * Store a message sent or received on a linked device.
+   * Photos are downloaded from the pointer; voice recordings stay on the
+   * device that has them (waveform and transcript are mirrored).
+   */
+  async applySyncedMessage(message: Message, media?: MediaPointer): Promise<void> {
+    const db = ServiceContainer.database;
+
+    if (!(await db.getMessage(message.id))) {
+      const synced: Message = {
+        ...message,
+        mediaUri: undefined,
+        thumbnailUri: undefined,
+        isMediaDownloading: undefined,
+        mediaDownloadProgress: undefined,
+      };
+      await db.saveMessage(synced);
+      this.messageListeners.forEach(listener => listener(synced));
+    }
+
+    if (media) {
+      await this.attachSyncedMedia(message.id, media);
+    }
+  }
+
+  /**
+   * Apply a delivery status reported by a linked device (our own messages).
+   * An own photo gets its pointer once the other device finished uploading.
+   */
+  async applySyncedStatus(messageId: string, status: DeliveryStatus, media?: MediaPointer): Promise<void> {
+    const message = await ServiceContainer.database.getMessage(messageId);
+    if (!message) return;
+
+    await this.updateMessageStatus(messageId, status);
+    this.statusListeners.forEach(listener => listener(messageId, status));
+    if (media) {
+      await this.attachSyncedMedia(messageId, media);
+    }
+  }
+
   /**
    * Get messages for a chat.
    */
@@ -596,6 +857,17 @@ export class ChatService {
     return () => this.statusListeners.delete(listener);
   }
 
+  /**
+   * Subscribe to received photo downloads (progress 0-1, then done or failed).
+   * Use this to fill isMediaDownloading / mediaDownloadProgress in the UI.
+   */
+  onMediaDownload(
+    listener: (messageId: string, state: MediaDownloadState, progress: number) => void,
+  ): Unsubscribe {
+    this.mediaDownloadListeners.add(listener);
+    return () => this.mediaDownloadListeners.delete(listener);
+  }
+
   /**
    * Mark all messages in a chat as read.
    * Call this when opening a chat screen.
@@ -621,6 +893,7 @@ export class ChatService {
     this.messageListeners.clear();
     this.presenceListeners.clear();
     this.statusListeners.clear();
+    this.mediaDownloadListeners.clear();
     this.presenceMap.clear();
   }
 
@@ -660,7 +933,9 @@ export class ChatService {
   async hasPendingMessages(): Promise<boolean> {
     try {
       const pending = await ServiceContainer.database.getPendingOutbox();
-      return pending.length > 0;
+      if (pending.length > 0) return true;
+      const transfers = await ServiceContainer.database.getPendingMediaTransfers();
+      return transfers.length > 0;
     } catch {
       return false;
     }
@@ -703,6 +978,11 @@ export class ChatService {
       return;
     }
 
+    // Group messages resent 1-on-1 from a member's outbox — GroupChatService handles them
+    if (payload.metadata?.groupId) {
+      return;
+    }
+
     console.debug(`[ChatService] handleIncomingMessage id: ${id}`);
     try {
       // Extract bare JID (remove resource like /gajim.ABC123)
@@ -751,9 +1031,9 @@ export class ChatService {
         // Dynamically import libsodium only when needed
         const { from_base64, base64_variants } = await import('react-native-libsodium');
 
-        // Decrypt message
+        // Decrypt message — 'ratchet' for current clients, '1on1' for legacy payloads
         const senderPk = from_base64(senderPublicKey, base64_variants.ORIGINAL);
-        content = await ServiceContainer.encryption.decrypt(payload, senderPk);
+        content = await ServiceContainer.encryption.decrypt(payload, senderPk, bareFrom);
       }
       console.debug('[ChatService] Message received, length:', content.length);
 
@@ -761,11 +1041,81 @@ export class ChatService {
       let message: Message;
       const chatId = this.getChatId(bareFrom);
 
+      // Edit / retract / reaction — updates an existing message, no new bubble
+      let parsedContent: unknown = null;
+      try {
+        parsedContent = JSON.parse(content);
+      } catch {
+        // Plain text
+      }
+      const action = parseMessageAction(parsedContent);
+      if (action) {
+        await applyMessageAction(action, chatId, bareFrom);
+        console.log(`[ChatService] Applied ${action.type} action`);
+        return;
+      }
+
       // Try to parse as structured message (photo, agenda item, etc.)
       let isStructuredMessage = false;
+      let mediaDownloadId: string | null = null;
       try {
-        const parsed = JSON.parse(content);
-        if (parsed.type === 'image' && parsed.data) {
+        const parsed = parseStructuredPayload(parsedContent);
+        if (parsed?.type === 'image' && 'media' in parsed) {
+          isStructuredMessage = true;
+          const pointer = parsed.media;
+          if (!pointer) {
+            console.warn('[ChatService] Ignoring photo with an invalid media pointer');
+            return;
+          }
+          // Redelivered pointer — the first copy already owns a transfer
+          if (await ServiceContainer.database.getMessage(id)) {
+            return;
+          }
+          console.log('[ChatService] Received photo pointer');
+
+          const mediaId = uuid.v4();
+          await ServiceContainer.database.saveMediaTransfer({
+            mediaId,
+            messageId: id,
+            chatId,
+            type: 'photo',
+            localUri: '',
+            size: pointer.size,
+            width: parsed.width ?? 0,
+            height: parsed.height ?? 0,
+            source: 'received',
+            senderJid: bareFrom,
+            senderName: getContactDisplayName(contact),
+            encryptionKey: pointer.key,
+            encryptionNonce: pointer.nonce,
+            chunkSize: pointer.chunkSize,
+            status: 'pending',
+            retryCount: 0,
+            expiresAt: Date.now() + SEVEN_DAYS_MS,
+            remoteUrl: pointer.url,
+          });
+
+          message = {
+            id,
+            chatId,
+            senderId: bareFrom,
+            senderName: getContactDisplayName(contact),
+            content: parsed.caption,
+            contentType: 'image',
+            timestamp: Date.now(),
+            status: 'delivered',
+            isRead: false,
+            mediaId,
+            thumbnailData: parsed.thumbnail,
+            mediaWidth: parsed.width,
+            mediaHeight: parsed.height,
+            mediaSize: pointer.size,
+            isMediaDownloading: true,
+            mediaDownloadProgress: 0,
+          };
+          mediaDownloadId = mediaId;
+        } else if (parsed?.type === 'image') {
+          // Inline photo from a client without encrypted media transfer
           isStructuredMessage = true;
           console.log(`[ChatService] Received photo message`);
 
@@ -785,7 +1135,7 @@ export class ChatService {
             chatId,
             senderId: bareFrom,
             senderName: getContactDisplayName(contact),
-            content: parsed.caption || '',
+            content: parsed.caption,
             contentType: 'image',
             timestamp: Date.now(),
             status: 'delivered',
@@ -797,7 +1147,89 @@ export class ChatService {
             mediaSize: parsed.size,
           };
           console.log(`[ChatService] Photo saved to: ${photoPath}`);
-        } else if (parsed.type === 'agenda_item' && parsed.title) {
+        } else if (parsed?.type === 'audio' && 'media' in parsed) {
+          isStructuredMessage = true;
+          const pointer = parsed.media;
+          if (!pointer) {
+            console.warn('[ChatService] Ignoring voice message with an invalid media pointer');
+            return;
+          }
+          // Redelivered pointer — the first copy already owns a transfer
+          if (await ServiceContainer.database.getMessage(id)) {
+            return;
+          }
+          console.log('[ChatService] Received voice message pointer');
+
+          const mediaId = uuid.v4();
+          await ServiceContainer.database.saveMediaTransfer({
+            mediaId,
+            messageId: id,
+            chatId,
+            type: 'audio',
+            localUri: '',
+            size: pointer.size,
+            width: 0,
+            height: 0,
+            source: 'received',
+            senderJid: bareFrom,
+            senderName: getContactDisplayName(contact),
+            encryptionKey: pointer.key,
+            encryptionNonce: pointer.nonce,
+            chunkSize: pointer.chunkSize,
+            status: 'pending',
+            retryCount: 0,
+            expiresAt: Date.now() + SEVEN_DAYS_MS,
+            remoteUrl: pointer.url,
+          });
+
+          message = {
+            id,
+            chatId,
+            senderId: bareFrom,
+            senderName: getContactDisplayName(contact),
+            content: '',
+            contentType: 'audio',
+            timestamp: Date.now(),
+            status: 'delivered',
+            isRead: false,
+            mediaId,
+            mediaUri: `file://${await prepareVoicePath(mediaId)}`,
+            mediaSize: pointer.size,
+            mediaDuration: parsed.duration,
+            waveform: parsed.waveform,
+            isMediaDownloading: true,
+            mediaDownloadProgress: 0,
+          };
+          mediaDownloadId = mediaId;
+        } else if (parsed?.type === 'audio') {
+          // Inline voice message from a client without encrypted media transfer
+          isStructuredMessage = true;
+          console.log('[ChatService] Received voice message');
+
+          const tmpPath = `${RNFS.TemporaryDirectoryPath}/voice_${id}.m4a`;
+          await RNFS.writeFile(tmpPath, parsed.data, 'base64');
+          const item = await saveVoice(
+            tmpPath, chatId, parsed.duration, parsed.waveform,
+            'received', bareFrom, getContactDisplayName(contact),
+          );
+
+          message = {
+            id,
+            chatId,
+            senderId: bareFrom,
+            senderName: getContactDisplayName(contact),
+            content: '',
+            contentType: 'audio',
+            timestamp: Date.now(),
+            status: 'delivered',
+            isRead: false,
+            mediaId: item?.id,
+            mediaUri: item ? `file://${item.localUri}` : undefined,
+            mediaSize: parsed.size,
+            mediaDuration: parsed.duration,
+            waveform: parsed.waveform,
+          };
+        } else if (parsed?.type === 'agenda_item') {
           isStructuredMessage = true;
           console.log(`[ChatService] Received agenda item: ${parsed.title}`);
 
@@ -815,7 +1247,7 @@ export class ChatService {
           };
         }
       } catch {
-        // Not JSON, treat as regular text message
+        // Media could not be stored — keep the raw payload as text
       }
 
       // Regular text message
@@ -838,6 +1270,11 @@ export class ChatService {
 
       // Notify listeners
       this.messageListeners.forEach(listener => listener(message));
+
+      // The photo or recording itself follows in the background
+      if (mediaDownloadId) {
+        void this.downloadMedia(mediaDownloadId);
+      }
     } catch (error) {
       console.error('Failed to process incoming message:', error);
       // E201: Decryption failed — silently fail, don't crash the app
@@ -870,6 +1307,33 @@ export class ChatService {
     }
   }
 
+  /**
+   * Show a key change in the chat — the senior must be able to see that the
+   * person on the other end may not be who they were before.
+   */
+  private async handleContactKeyChanged(change: ContactKeyChange): Promise<void> {
+    try {
+      const contact = await ServiceContainer.database.getContact(change.jid);
+
+      const message: Message = {
+        id: uuid.v4(),
+        chatId: this.getChatId(change.jid),
+        senderId: change.jid,
+        senderName: contact ? getContactDisplayName(contact) : change.jid,
+        content: 'key_changed',
+        contentType: 'system',
+        timestamp: change.changedAt,
+        status: 'delivered',
+        isRead: false,
+      };
+      await ServiceContainer.database.saveMessage(message);
+
+      this.messageListeners.forEach(listener => listener(message));
+    } catch (error) {
+      console.error('[ChatService] Failed to add key change notice:', error);
+    }
+  }
+
   private async handlePresenceUpdate(
     from: string,
     show: PresenceShow,
@@ -969,6 +1433,9 @@ export class ChatService {
         return;
       }
 
+      // Interrupted photo uploads and downloads continue where they stopped
+      await this.resumeMediaTransfers();
+
       // Get all pending outbox messages
       const pending = await ServiceContainer.database.getPendingOutbox();
 
@@ -1074,12 +1541,54 @@ export class ChatService {
   // Private — Outbox Management
   // ============================================================
 
+  /**
+   * Encrypt an action, apply it locally, then deliver it like a message.
+   * Nothing changes locally when it cannot be encrypted for the contact.
+   * Actions have no message row of their own — only an outbox entry when offline.
+   */
+  private async sendAction(contactJid: string, action: MessageAction): Promise<void> {
+    const chatId = this.getChatId(contactJid);
+
+    const contact = await ServiceContainer.database.getContact(contactJid);
+    if (!contact?.publicKey) {
+      throw new AppError('E202', 'encryption', () => {}, {
+        reason: 'missing_public_key',
+        contactJid,
+      });
+    }
+
+    const { from_base64, base64_variants } = await import('react-native-libsodium');
+    const recipient: Recipient = {
+      jid: contactJid,
+      publicKey: from_base64(contact.publicKey, base64_variants.ORIGINAL),
+    };
+    const encryptedPayload = await ServiceContainer.encryption.encrypt(
+      JSON.stringify(action),
+      [recipient],
+      'ratchet',
+    );
+
+    await applyMessageAction(action, chatId, this.myJid!);
+
+    const actionId = uuid.v4();
+    const xmpp = ServiceContainer.xmpp;
+    if (xmpp.getConnectionStatus() === 'connected') {
+      try {
+        await xmpp.sendMessage(contactJid, encryptedPayload, actionId);
+        return;
+      } catch (xmppError) {
+        console.warn(`[ChatService] Failed to send ${action.type} action, queueing:`, xmppError);
+      }
+    }
+    await this.saveToOutbox(chatId, encryptedPayload, [contactJid], actionId);
+  }
+
   private async saveToOutbox(
     chatId: string,
     encryptedPayload: EncryptedPayload,
     pendingTo: string[],
     messageId: string,
-    contentType: 'text' | 'image' | 'video' = 'text',
+    contentType: 'text' | 'image' | 'video' | 'audio' = 'text',
   ): Promise<void> {
     const outboxMsg: Omit<OutboxMessage, 'id'> = {
       chatId,
@@ -1160,6 +1669,241 @@ export class ChatService {
     this.unsubscribers.push(() => clearInterval(interval));
   }
 
+  // ============================================================
+  // Private — Encrypted Media Transfer
+  // ============================================================
+
+  /**
+   * Upload a photo or voice message (continuing where an earlier attempt
+   * stopped), then send the pointer message. Returns 'pending' when the
+   * upload has to wait.
+   */
+  private async deliverMedia(transfer: MediaTransfer, contactJid: string): Promise<DeliveryStatus> {
+    if (this.activeMediaTransfers.has(transfer.mediaId)) return 'pending';
+
+    const xmpp = ServiceContainer.xmpp;
+    if (xmpp.getConnectionStatus() !== 'connected') {
+      console.info('[ChatService] Offline — media upload waits for the connection');
+      return 'pending';
+    }
+
+    const db = ServiceContainer.database;
+    const message = await db.getMessage(transfer.messageId);
+    if (!message || message.retractedAt) {
+      // Deleted before it was uploaded — expire the transfer so it is not resumed
+      await db.saveMediaTransfer({ ...transfer, status: 'failed', expiresAt: Date.now() });
+      return 'failed';
+    }
+
+    this.activeMediaTransfers.add(transfer.mediaId);
+    try {
+      const uploaded = await uploadMediaTransfer(
+        transfer,
+        (filename, size, contentType) => xmpp.requestUploadSlot(filename, size, contentType),
+        current => db.saveMediaTransfer(current),
+      );
+      if (!uploaded?.remoteUrl) return 'pending';
+
+      try {
+        return await this.sendMediaPointer(uploaded, uploaded.remoteUrl, message, contactJid);
+      } catch (error) {
+        console.warn('[ChatService] Media pointer could not be sent, will resume:', error);
+        await db.saveMediaTransfer({ ...uploaded, status: 'failed', retryCount: uploaded.retryCount + 1 });
+        return 'pending';
+      }
+    } finally {
+      this.activeMediaTransfers.delete(transfer.mediaId);
+    }
+  }
+
+  /**
+   * Send the pointer to an uploaded file — all the contact receives, key
+   * included, E2E encrypted. Queued in the outbox when the send fails.
+   */
+  private async sendMediaPointer(
+    transfer: MediaTransfer,
+    url: string,
+    message: Message,
+    contactJid: string,
+  ): Promise<DeliveryStatus> {
+    const isVoice = transfer.type === 'audio';
+    const pointer: MediaPointer = {
+      url,
+      key: transfer.encryptionKey,
+      nonce: transfer.encryptionNonce,
+      size: transfer.size,
+      chunkSize: transfer.chunkSize ?? MEDIA_DEFAULTS.transfer.chunkSize,
+      mimeType: isVoice ? 'audio/mp4' : 'image/jpeg',
+    };
+    const mediaPayload = isVoice
+      ? {
+        type: 'audio',
+        media: pointer,
+        duration: message.mediaDuration ?? 0,
+        waveform: message.waveform ?? [],
+      }
+      : {
+        type: 'image',
+        media: pointer,
+        caption: message.content,
+        width: transfer.width,
+        height: transfer.height,
+        thumbnail: message.thumbnailData ?? '',
+      };
+    const recipient = await this.resolveRecipient(contactJid);
+    const encryptedPayload = await ServiceContainer.encryption.encrypt(
+      JSON.stringify(mediaPayload),
+      [recipient],
+      'ratchet',
+    );
+    await ServiceContainer.database.saveMediaTransfer({ ...transfer, status: 'sent', remoteUrl: url });
+
+    try {
+      await ServiceContainer.xmpp.sendMessage(contactJid, encryptedPayload, message.id);
+      await this.updateMessageStatus(message.id, 'sent');
+      console.info('[ChatService] Media message sent successfully');
+      return 'sent';
+    } catch (xmppError) {
+      console.warn('[ChatService] Media pointer send failed, queueing:', xmppError);
+    }
+    await this.saveToOutbox(message.chatId, encryptedPayload, [contactJid], message.id, isVoice ? 'audio' : 'image');
+    return 'pending';
+  }
+
+  /**
+   * Download and decrypt a received photo or voice message into media
+   * storage, reporting progress to onMediaDownload listeners.
+   */
+  private async downloadMedia(mediaId: string): Promise<void> {
+    if (this.activeMediaTransfers.has(mediaId)) return;
+
+    const db = ServiceContainer.database;
+    const transfer = await db.getMediaTransfer(mediaId);
+    if (!transfer?.remoteUrl || transfer.status === 'received') return;
+    const remoteUrl = transfer.remoteUrl;
+
+    const notify = (state: MediaDownloadState, progress: number) => {
+      this.mediaDownloadListeners.forEach(listener => listener(transfer.messageId, state, progress));
+    };
+
+    this.activeMediaTransfers.add(mediaId);
+    try {
+      notify('downloading', 0);
+      const isVoice = transfer.type === 'audio';
+      const localPath = isVoice ? await prepareVoicePath(mediaId) : await preparePhotoPath(mediaId);
+      await downloadEncryptedFile(
+        {
+          url: remoteUrl,
+          key: transfer.encryptionKey,
+          nonce: transfer.encryptionNonce,
+          size: transfer.size,
+          chunkSize: transfer.chunkSize ?? MEDIA_DEFAULTS.transfer.chunkSize,
+          mimeType: isVoice ? 'audio/mp4' : 'image/jpeg',
+        },
+        localPath,
+        progress => notify('downloading', progress),
+      );
+      await db.saveMediaTransfer({ ...transfer, localUri: localPath, status: 'received' });
+      notify('done', 1);
+    } catch (error) {
+      console.warn('[ChatService] Media download failed:', error);
+      await db.saveMediaTransfer({ ...transfer, status: 'failed', retryCount: transfer.retryCount + 1 });
+      notify('failed', 0);
+    } finally {
+      this.activeMediaTransfers.delete(mediaId);
+    }
+  }
+
+  /**
+   * Record a photo or voice pointer from a linked device as a received transfer
+   * (same media ID, so the bubble finds the file) and download it.
+   */
+  private async attachSyncedMedia(messageId: string, pointer: MediaPointer): Promise<void> {
+    const db = ServiceContainer.database;
+    const message = await db.getMessage(messageId);
+    if (!message?.mediaId || await db.getMediaTransfer(message.mediaId)) return;
+
+    await db.saveMediaTransfer({
+      mediaId: message.mediaId,
+      messageId,
+      chatId: message.chatId,
+      type: message.contentType === 'audio' ? 'audio' : 'photo',
+      localUri: '',
+      size: pointer.size,
+      width: message.mediaWidth ?? 0,
+      height: message.mediaHeight ?? 0,
+      source: 'received',
+      senderJid: message.senderId,
+      senderName: message.senderName,
+      encryptionKey: pointer.key,
+      encryptionNonce: pointer.nonce,
+      chunkSize: pointer.chunkSize,
+      status: 'pending',
+      retryCount: 0,
+      expiresAt: Date.now() + SEVEN_DAYS_MS,
+      remoteUrl: pointer.url,
+    });
+    void this.downloadMedia(message.mediaId);
+  }
+
+  /**
+   * Recipient with the contact's public key.
+   * DEV: falls back to the bundled test keys when the contact has none.
+   */
+  private async resolveRecipient(contactJid: string): Promise<Recipient> {
+    const contact = await ServiceContainer.database.getContact(contactJid);
+    let recipientPublicKey = contact?.publicKey;
+
+    if (__DEV__ && contact && (!recipientPublicKey || recipientPublicKey.length === 0)) {
+      console.warn(`[ChatService] Contact ${contactJid} has no public key, trying test keys...`);
+      try {
+        const { getTestPublicKeyForJid } = await import('./testKeys');
+        const testKey = await getTestPublicKeyForJid(contactJid);
+        if (testKey) {
+          recipientPublicKey = testKey;
+          await ServiceContainer.database.saveContact({
+            ...contact,
+            publicKey: testKey,
+          });
+          console.log(`[ChatService] Loaded test key for ${contactJid}`);
+        }
+      } catch (testKeyError) {
+        console.warn(`[ChatService] Failed to load test key:`, testKeyError);
+      }
+    }
+
+    if (!recipientPublicKey || recipientPublicKey.length === 0) {
+      throw new AppError('E202', 'encryption', () => {}, {
+        reason: 'missing_public_key',
+        contactJid,
+      });
+    }
+
+    const { from_base64, base64_variants } = await import('react-native-libsodium');
+    return {
+      jid: contactJid,
+      publicKey: from_base64(recipientPublicKey, base64_variants.ORIGINAL),
+    };
+  }
+
+  /** Thumbnail as base64 for the pointer message, when small enough */
+  private async readInlineThumbnail(thumbnailUri: string): Promise<string | undefined> {
+    try {
+      const path = thumbnailUri.replace('file://', '');
+      const { size } = await RNFS.stat(path);
+      if (Number(size) > MEDIA_DEFAULTS.transfer.inlineThumbnailMaxBytes) return undefined;
+      return await RNFS.readFile(path, 'base64');
+    } catch {
+      return undefined;
+    }
+  }
+
+  /** "chat:jid1:jid2" → the JID that is not ours */
+  private getContactJidFromChatId(chatId: string): string {
+    const [, first, second] = chatId.split(':');
+    return first === this.myJid ? second : first;
+  }
+
   // ============================================================
   // Private — Helpers
   // ============================================================
@@ -1184,6 +1928,17 @@ export class ChatService {
       const outboxMsg = allPending.find(msg => msg.id === messageId);
 
       if (!outboxMsg) {
+        // Photo or voice message whose upload did not finish — no pointer in the outbox yet
+        const message = await ServiceContainer.database.getMessage(messageId);
+        const transfer = message?.mediaId
+          ? await ServiceContainer.database.getMediaTransfer(message.mediaId)
+          : null;
+        if (transfer && transfer.source !== 'received' && transfer.status !== 'sent') {
+          const status = await this.deliverMedia(transfer, this.getContactJidFromChatId(transfer.chatId));
+          this.statusListeners.forEach(listener => listener(messageId, status));
+          return;
+        }
+
         console.warn('[ChatService] Message not found in outbox:', messageId);
         return;
       }
@@ -1214,5 +1969,47 @@ export class ChatService {
   }
 }
 
+/**
+ * Recognise a photo, voice message or agenda item in a parsed payload.
+ * Returns null for anything else (text, action, malformed).
+ */
+export function parseStructuredPayload(parsed: unknown): StructuredPayload | null {
+  if (!parsed || typeof parsed !== 'object') return null;
+  const value = parsed as Record<string, unknown>;
+  const data = typeof value.data === 'string' && value.data.length > 0 ? value.data : null;
+  const size = typeof value.size === 'number' ? value.size : undefined;
+
+  switch (value.type) {
+    case 'image': {
+      const caption = typeof value.caption === 'string' ? value.caption : '';
+      const width = typeof value.width === 'number' ? value.width : undefined;
+      const height = typeof value.height === 'number' ? value.height : undefined;
+      if (value.media !== undefined) {
+        const thumbnail = typeof value.thumbnail === 'string' && value.thumbnail.length > 0
+          ? value.thumbnail
+          : undefined;
+        return { type: 'image', media: parseMediaPointer(value.media), caption, width, height, thumbnail };
+      }
+      return data ? { type: 'image', data, caption, width, height, size } : null;
+    }
+    case 'audio': {
+      const duration = typeof value.duration === 'number' ? value.duration : 0;
+      const waveform = Array.isArray(value.waveform)
+        ? value.waveform.filter((level): level is number => typeof level === 'number')
+        : [];
+      if (value.media !== undefined) {
+        return { type: 'audio', media: parseMediaPointer(value.media), duration, waveform };
+      }
+      return data ? { type: 'audio', data, duration, waveform, size } : null;
+    }
+    case 'agenda_item':
+      return typeof value.title === 'string' && value.title.length > 0
+        ? { type: 'agenda_item', title: value.title }
+        : null;
+    default:
+      return null;
+  }
+}
+
 /** Singleton instance */
 export const chatService = new ChatService();
@@ -0,0 +1,485 @@
+/**
+ * Check-in Service — Daily "I'm OK" for family and emergency contacts
+ *
+ * Opt-in. The user checks in once a day before a chosen time:
+ * - the big "Alles goed" button on the home screen
+ * - the "Alles goed" button on the reminder notification
+ * - opening CommEazy (when "app activity counts" is on)
+ *
+ * If nothing happened by the deadline, an end-to-end encrypted chat
+ * message goes to the first chosen ICE contact; when there is still no
+ * check-in after the escalation delay, the second contact is warned too.
+ * A local notification nudges the user before the deadline, and when
+ * the user checks in after an alert, the warned contacts get an
+ * "all clear" message.
+ *
+ * Alerts are sent by this device, so the watch only runs while CommEazy
+ * is running: a phone or tablet left open on the table, the app in the
+ * foreground, or woken by a notification. When the app was closed all
+ * day, the alert goes out the next time it runs — also when that run is
+ * an app-activity check-in: overdue alerts are sent first, then the
+ * check-in sends the all-clear, so contacts still learn about the gap.
+ *
+ * @see services/contacts/smartSections.ts (getIceContacts)
+ * @see services/localNotifications.ts
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import i18n from '@/i18n';
+import { chatService } from '@/services/chat';
+import { toDayKey } from '@/services/agendaRecurrence';
+import {
+  localNotificationService,
+  NOTIFICATION_CATEGORIES,
+  type NotificationEvent,
+} from '@/services/localNotifications';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type CheckInSource = 'button' | 'notification' | 'activity';
+
+export interface CheckInSettings {
+  enabled: boolean;
+  /** Check in before this time, "HH:MM" */
+  deadline: string;
+  /** Minutes after the deadline before the second contact is warned */
+  escalateAfterMinutes: number;
+  /** Opening the app counts as checking in */
+  countAppActivity: boolean;
+  /** ICE contacts in order: first is warned at the deadline, second on escalation */
+  contactJids: string[];
+}
+
+export interface CheckInState {
+  lastCheckInAt: number | null;
+  /** Day of the last alert, "YYYY-MM-DD" */
+  alertDay: string | null;
+  /** 0 = none, 1 = first contact warned, 2 = escalated */
+  alertLevel: number;
+  /** Contacts warned on alertDay (they get the all-clear message) */
+  alertedJids: string[];
+}
+
+export type CheckInStatus = 'off' | 'checkedIn' | 'waiting' | 'overdue';
+
+export interface CheckInEvaluation {
+  status: CheckInStatus;
+  /** Today's deadline (ms) */
+  deadlineAt: number;
+  /** Alert level that should have been reached by now (0–2) */
+  dueLevel: number;
+}
+
+type Listener = (state: CheckInState) => void;
+
+// ============================================================
+// Constants
+// ============================================================
+
+const SETTINGS_KEY = 'check_in_settings';
+const STATE_KEY = 'check_in_state';
+
+/** Reminder notification before the deadline */
+export const NUDGE_MINUTES_BEFORE = 30;
+
+/** How often the watch runs while the app is open */
+const WATCH_INTERVAL_MS = 60 * 1000;
+
+const REMINDER_NOTIFICATION_ID = 'check-in-reminder';
+export const CHECK_IN_ACTION_ID = 'check-in-ok';
+
+export const DEFAULT_CHECK_IN_SETTINGS: CheckInSettings = {
+  enabled: false,
+  deadline: '10:00',
+  escalateAfterMinutes: 60,
+  countAppActivity: true,
+  contactJids: [],
+};
+
+const INITIAL_STATE: CheckInState = {
+  lastCheckInAt: null,
+  alertDay: null,
+  alertLevel: 0,
+  alertedJids: [],
+};
+
+const MINUTE_MS = 60 * 1000;
+
+// ============================================================
+// Evaluation (pure)
+// ============================================================
+
+/** Timestamp of "HH:MM" on the day of `now` */
+export function timeOnDay(now: number, time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = new Date(now);
+  date.setHours(hours, minutes || 0, 0, 0);
+  return date.getTime();
+}
+
+/**
+ * Where today stands: checked in, still waiting, or overdue and which
+ * alert level is due.
+ */
+export function evaluateCheckIn(
+  settings: CheckInSettings,
+  state: CheckInState,
+  now: number,
+): CheckInEvaluation {
+  const deadlineAt = timeOnDay(now, settings.deadline);
+
+  if (!settings.enabled || settings.contactJids.length === 0) {
+    return { status: 'off', deadlineAt, dueLevel: 0 };
+  }
+  if (state.lastCheckInAt !== null && toDayKey(state.lastCheckInAt) === toDayKey(now)) {
+    return { status: 'checkedIn', deadlineAt, dueLevel: 0 };
+  }
+  if (now < deadlineAt) {
+    return { status: 'waiting', deadlineAt, dueLevel: 0 };
+  }
+
+  const escalateAt = deadlineAt + settings.escalateAfterMinutes * MINUTE_MS;
+  const canEscalate = settings.contactJids.length > 1;
+  return {
+    status: 'overdue',
+    deadlineAt,
+    dueLevel: canEscalate && now >= escalateAt ? 2 : 1,
+  };
+}
+
+/**
+ * Contacts to warn now: the first contact at level 1, the second at
+ * level 2. Contacts already warned today are skipped.
+ */
+export function contactsToAlert(
+  settings: CheckInSettings,
+  state: CheckInState,
+  dueLevel: number,
+  now: number,
+): { level: number; jid: string }[] {
+  const sentLevel = state.alertDay === toDayKey(now) ? state.alertLevel : 0;
+  const result: { level: number; jid: string }[] = [];
+  for (let level = sentLevel + 1; level <= dueLevel; level++) {
+    const jid = settings.contactJids[level - 1];
+    if (jid) result.push({ level, jid });
+  }
+  return result;
+}
+
+/**
+ * Next time the reminder should fire: before today's deadline when the
+ * user has not checked in yet and there is still time, otherwise
+ * tomorrow.
+ */
+export function nextReminderAt(settings: CheckInSettings, state: CheckInState, now: number): number {
+  const todayReminder = timeOnDay(now, settings.deadline) - NUDGE_MINUTES_BEFORE * MINUTE_MS;
+  const checkedInToday = state.lastCheckInAt !== null && toDayKey(state.lastCheckInAt) === toDayKey(now);
+  if (!checkedInToday && now < todayReminder) {
+    return todayReminder;
+  }
+
+  const tomorrow = new Date(now);
+  tomorrow.setDate(tomorrow.getDate() + 1);
+  return timeOnDay(tomorrow.getTime(), settings.deadline) - NUDGE_MINUTES_BEFORE * MINUTE_MS;
+}
+
+// ============================================================
+// Check-in Service
+// ============================================================
+
+class CheckInServiceImpl {
+  private settings: CheckInSettings = DEFAULT_CHECK_IN_SETTINGS;
+  private state: CheckInState = INITIAL_STATE;
+  private loadPromise: Promise<void> | null = null;
+  private watchTimer: ReturnType<typeof setInterval> | null = null;
+  /** Running watch, shared so callers can wait for its alerts */
+  private watchRun: Promise<void> | null = null;
+  private listeners = new Set<Listener>();
+  private unsubscribeNotifications: (() => void) | null = null;
+
+  /**
+   * Load settings, listen for the notification button and start the watch.
+   * Safe to call more than once.
+   */
+  async initialize(): Promise<void> {
+    await this.load();
+
+    if (!this.unsubscribeNotifications) {
+      this.unsubscribeNotifications = localNotificationService.onEvent('action', (event: NotificationEvent) => {
+        if (event.actionId === CHECK_IN_ACTION_ID) {
+          void this.checkIn('notification');
+        }
+      });
+    }
+
+    this.startWatch();
+    await this.scheduleReminder();
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const [storedSettings, storedState] = await Promise.all([
+            AsyncStorage.getItem(SETTINGS_KEY),
+            AsyncStorage.getItem(STATE_KEY),
+          ]);
+          if (storedSettings) {
+            this.settings = { ...DEFAULT_CHECK_IN_SETTINGS, ...(JSON.parse(storedSettings) as Partial<CheckInSettings>) };
+          }
+          if (storedState) {
+            this.state = { ...INITIAL_STATE, ...(JSON.parse(storedState) as Partial<CheckInState>) };
+          }
+        } catch (error) {
+          console.warn('[CheckIn] Failed to load:', error);
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  // ============================================================
+  // Settings
+  // ============================================================
+
+  async getSettings(): Promise<CheckInSettings> {
+    await this.load();
+    return this.settings;
+  }
+
+  async updateSettings(changes: Partial<CheckInSettings>): Promise<CheckInSettings> {
+    await this.load();
+    this.settings = { ...this.settings, ...changes };
+    await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(this.settings));
+
+    if (this.settings.enabled) {
+      this.startWatch();
+    } else {
+      this.stopWatch();
+    }
+    await this.scheduleReminder();
+    this.notify();
+    return this.settings;
+  }
+
+  // ============================================================
+  // State
+  // ============================================================
+
+  async getState(): Promise<CheckInState> {
+    await this.load();
+    return this.state;
+  }
+
+  async evaluate(now: number = Date.now()): Promise<CheckInEvaluation> {
+    await this.load();
+    return evaluateCheckIn(this.settings, this.state, now);
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      listener(this.state);
+    }
+  }
+
+  private async saveState(state: CheckInState): Promise<void> {
+    this.state = state;
+    await AsyncStorage.setItem(STATE_KEY, JSON.stringify(state));
+    this.notify();
+  }
+
+  // ============================================================
+  // Check-in
+  // ============================================================
+
+  /**
+   * Record a check-in. Contacts that were warned today get an
+   * all-clear message.
+   */
+  async checkIn(source: CheckInSource, now: number = Date.now()): Promise<void> {
+    await this.load();
+    if (!this.settings.enabled) return;
+    // Let a running watch finish, so its contacts get the all-clear
+    await this.watchRun;
+
+    const today = toDayKey(now);
+    const warned = this.state.alertDay === today ? this.state.alertedJids : [];
+
+    await this.saveState({
+      ...this.state,
+      lastCheckInAt: now,
+      alertedJids: [],
+    });
+    console.info('[CheckIn] Checked in via', source);
+
+    if (warned.length > 0) {
+      await this.sendToContacts(warned, i18n.t('checkIn.message.allClear', { time: formatTime(now) }));
+    }
+    await this.scheduleReminder(now);
+  }
+
+  /**
+   * App came to the foreground. Alerts that fell due while the app was
+   * not running go out before the activity check-in clears the day.
+   */
+  async onAppActive(now: number = Date.now()): Promise<void> {
+    await this.load();
+    await this.runWatch(now);
+    if (this.settings.enabled && this.settings.countAppActivity) {
+      await this.checkIn('activity', now);
+    }
+  }
+
+  // ============================================================
+  // Watch & alerts
+  // ============================================================
+
+  private startWatch(): void {
+    if (this.watchTimer || !this.settings.enabled) return;
+    this.watchTimer = setInterval(() => {
+      void this.runWatch();
+    }, WATCH_INTERVAL_MS);
+  }
+
+  private stopWatch(): void {
+    if (this.watchTimer) {
+      clearInterval(this.watchTimer);
+      this.watchTimer = null;
+    }
+  }
+
+  /**
+   * Send the alerts that are due. A contact is only warned once a day;
+   * when sending fails the next run tries again. A call during a running
+   * watch waits for that run instead of starting another.
+   */
+  runWatch(now: number = Date.now()): Promise<void> {
+    if (!this.watchRun) {
+      this.watchRun = this.sendDueAlerts(now).finally(() => {
+        this.watchRun = null;
+      });
+    }
+    return this.watchRun;
+  }
+
+  private async sendDueAlerts(now: number): Promise<void> {
+    await this.load();
+
+    const evaluation = evaluateCheckIn(this.settings, this.state, now);
+    if (evaluation.status !== 'overdue') return;
+
+    const due = contactsToAlert(this.settings, this.state, evaluation.dueLevel, now);
+    if (due.length === 0) return;
+
+    const today = toDayKey(now);
+    const alreadyWarned = this.state.alertDay === today ? [...this.state.alertedJids] : [];
+    const lastSeen = this.state.lastCheckInAt
+      ? formatLastSeen(this.state.lastCheckInAt, now)
+      : i18n.t('checkIn.message.lastSeenUnknown');
+
+    for (const { level, jid } of due) {
+      const text = level === 1
+        ? i18n.t('checkIn.message.alert', { time: this.settings.deadline, lastSeen })
+        : i18n.t('checkIn.message.escalation', { time: this.settings.deadline, lastSeen });
+
+      const sent = await this.sendToContacts([jid], text);
+      if (sent.length === 0) break;
+
+      alreadyWarned.push(jid);
+      await this.saveState({
+        ...this.state,
+        alertDay: today,
+        alertLevel: level,
+        alertedJids: [...alreadyWarned],
+      });
+      console.info('[CheckIn] Alert level', level, 'sent');
+    }
+  }
+
+  /** @returns the contacts the message was sent to */
+  private async sendToContacts(jids: string[], text: string): Promise<string[]> {
+    if (!chatService.isInitialized) return [];
+
+    const sent: string[] = [];
+    for (const jid of jids) {
+      try {
+        await chatService.sendMessage(jid, text);
+        sent.push(jid);
+      } catch (error) {
+        console.warn('[CheckIn] Failed to send message:', error);
+      }
+    }
+    return sent;
+  }
+
+  // ============================================================
+  // Reminder notification
+  // ============================================================
+
+  private async scheduleReminder(now: number = Date.now()): Promise<void> {
+    try {
+      await localNotificationService.cancel(REMINDER_NOTIFICATION_ID);
+      if (!this.settings.enabled || this.settings.contactJids.length === 0) return;
+
+      await localNotificationService.schedule({
+        id: REMINDER_NOTIFICATION_ID,
+        channelId: 'general',
+        title: i18n.t('checkIn.reminder.title'),
+        body: i18n.t('checkIn.reminder.body', { time: this.settings.deadline }),
+        triggerTimestamp: nextReminderAt(this.settings, this.state, now),
+        data: { type: 'check-in' },
+        categoryId: NOTIFICATION_CATEGORIES.CHECK_IN_REMINDER,
+        actions: [
+          {
+            id: CHECK_IN_ACTION_ID,
+            title: `👍 ${i18n.t('checkIn.button')}`,
+            autoDismiss: true,
+          },
+        ],
+      });
+    } catch (error) {
+      console.warn('[CheckIn] Failed to schedule reminder:', error);
+    }
+  }
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+function formatTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+function formatLastSeen(timestamp: number, now: number): string {
+  const yesterday = new Date(now);
+  yesterday.setDate(yesterday.getDate() - 1);
+
+  if (toDayKey(timestamp) === toDayKey(yesterday.getTime())) {
+    return i18n.t('checkIn.message.yesterdayAt', { time: formatTime(timestamp) });
+  }
+  return new Date(timestamp).toLocaleString(i18n.language, {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+// ============================================================
+// Singleton Export
+// ============================================================
+
+export const checkInService = new CheckInServiceImpl();
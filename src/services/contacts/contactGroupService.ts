@@ -19,7 +19,6 @@ import uuid from 'react-native-uuid';
 
 const LOG_PREFIX = '[contactGroupService]';
 const STORAGE_KEY = '@commeazy/contactGroups';
-const CALL_FREQUENCY_KEY = '@commeazy/callFrequency';
 
 // ============================================================
 // Types
@@ -247,52 +246,3 @@ export async function removeContactFromAllGroups(jid: string): Promise<void> {
     console.debug(LOG_PREFIX, 'Contact removed from all groups');
   }
 }
-
-// ============================================================
-// Public API — Call Frequency Tracking
-// ============================================================
-
-/**
- * Read call frequency map from AsyncStorage.
- * Returns a Record<string, number> mapping JID → call count.
- */
-export async function getCallFrequency(): Promise<Record<string, number>> {
-  try {
-    const raw = await AsyncStorage.getItem(CALL_FREQUENCY_KEY);
-    if (!raw) return {};
-    return JSON.parse(raw) as Record<string, number>;
-  } catch (error) {
-    console.error(LOG_PREFIX, 'Failed to read call frequency');
-    return {};
-  }
-}
-
-/**
- * Increment call count for a contact.
- * Called when an outgoing call is made.
- */
-export async function incrementCallFrequency(jid: string): Promise<void> {
-  try {
-    const frequency = await getCallFrequency();
-    frequency[jid] = (frequency[jid] || 0) + 1;
-    await AsyncStorage.setItem(CALL_FREQUENCY_KEY, JSON.stringify(frequency));
-    console.debug(LOG_PREFIX, 'Call frequency incremented', { count: frequency[jid] });
-  } catch (error) {
-    console.error(LOG_PREFIX, 'Failed to increment call frequency');
-  }
-}
-
-/**
- * Remove a contact's call frequency data (e.g., when contact is deleted).
- */
-export async function removeCallFrequency(jid: string): Promise<void> {
-  try {
-    const frequency = await getCallFrequency();
-    if (jid in frequency) {
-      delete frequency[jid];
-      await AsyncStorage.setItem(CALL_FREQUENCY_KEY, JSON.stringify(frequency));
-    }
-  } catch (error) {
-    console.error(LOG_PREFIX, 'Failed to remove call frequency');
-  }
-}
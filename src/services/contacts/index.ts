@@ -15,9 +15,6 @@ export {
   addContactsToGroup,
   removeContactsFromGroup,
   removeContactFromAllGroups,
-  getCallFrequency,
-  incrementCallFrequency,
-  removeCallFrequency,
 } from './contactGroupService';
 export type { ContactGroup } from './contactGroupService';
 
@@ -26,7 +26,9 @@ import { XmppJsService } from './xmpp';
 import { WatermelonDBService } from './database';
 import { chatService } from './chat';
 import { groupChatService } from './groupChat';
-import { callService } from './call';
+import { deviceSyncService } from './deviceSync';
+import { callService, createSignalingSecurity } from './call';
+import { callLogService } from './callLog';
 import { FCMNotificationService, onTokenRefresh } from './notifications';
 import { registerForVoIPPush, getVoIPToken, onVoIPPush } from './voipPushService';
 import { ProfileSyncService } from './profileSync';
@@ -246,10 +248,22 @@ class ServiceContainerClass {
 
     // 2. Database (encrypted with key from Keychain)
     this._database = new WatermelonDBService();
-    const { getDatabaseKey } = await import('./keyManager');
-    const dbKeyHex = await getDatabaseKey();
+    const { getDatabaseKeyFor, completeKeyRotation } = await import('./keyManager');
+    const { getDatabaseRekeyTargets, createMainDatabaseTarget } = await import('./databaseRekey');
+    // Finish a scheduled or interrupted key rotation before the database opens
+    try {
+      await completeKeyRotation(getDatabaseRekeyTargets());
+    } catch (rotationError) {
+      // Both keys stay in Keychain — the rotation is retried on next launch
+      console.error('[ServiceContainer] Database key rotation failed:', rotationError);
+    }
+    // A failed rotation may have left the database on the new key already
+    const dbKeyHex = await getDatabaseKeyFor(createMainDatabaseTarget());
     await this._database.initialize(dbKeyHex);
 
+    // Ratchet sessions persist in the (SQLCipher) database, sealed by encryption
+    this._encryption.setSessionStore(this._database);
+
     // 3. XMPP (needs encryption for message handling)
     this._xmpp = new XmppJsService();
 
@@ -289,6 +303,9 @@ class ServiceContainerClass {
     // Mark as initialized BEFORE ChatService init (which needs ServiceContainer access)
     this._initialized = true;
 
+    // Record finished calls in the call log (Recent tab, missed-call badge)
+    callLogService.initialize(callService);
+
     // 5. Initialize ChatService with user credentials (needs ServiceContainer.encryption)
     // In dev mode, use test credentials; in production, this comes from auth
     if (__DEV__) {
@@ -305,13 +322,25 @@ class ServiceContainerClass {
       await groupChatService.initialize(devUser.jid, devUser.name);
       console.log('[ServiceContainer] GroupChatService initialized for dev user:', devUser.jid);
 
+      // Initialize DeviceSyncService (mirrors chats to linked devices)
+      try {
+        await deviceSyncService.initialize();
+        console.log('[ServiceContainer] DeviceSyncService initialized');
+      } catch (syncError) {
+        console.warn('[ServiceContainer] DeviceSyncService not available:', syncError);
+      }
+
       // 6. Connect to XMPP server in dev mode
       try {
         await this._xmpp.connect(devUser.jid, devUser.password);
         console.log('[ServiceContainer] XMPP connected to local Prosody');
 
-        // 6a. Initialize CallService with XMPP for call signaling
-        callService.initializeWithXMPP(this._xmpp, devUser.jid);
+        // 6a. Initialize CallService with XMPP for call signaling (end-to-end encrypted)
+        callService.initializeWithXMPP(
+          this._xmpp,
+          devUser.jid,
+          createSignalingSecurity(this.encryption, this.database),
+        );
         console.log('[ServiceContainer] CallService initialized with XMPP');
 
         // 6b. Register push notifications with XMPP server (if available)
@@ -0,0 +1,67 @@
+/**
+ * Crypto Utilities — Shared helpers for the E2E protocol layers
+ *
+ * Byte and encoding helpers plus the symmetric chain KDF used by the
+ * Double Ratchet (ratchet.ts), sender keys (senderKeys.ts), safety numbers
+ * (safetyNumber.ts) and call verification (call/callVerification.ts).
+ *
+ * All base64 is the ORIGINAL variant, as everywhere in the protocol.
+ */
+
+import {
+  crypto_generichash,
+  to_base64,
+  from_base64,
+  base64_variants,
+} from 'react-native-libsodium';
+
+// ============================================================
+// Chain KDF
+// ============================================================
+
+const CHAIN_MESSAGE_INPUT = new Uint8Array([0x01]);
+const CHAIN_NEXT_INPUT = new Uint8Array([0x02]);
+
+/**
+ * KDF_CK: chain key → (next chain key, message key), keyed BLAKE2b
+ * @see https://signal.org/docs/specifications/doubleratchet/ (KDF_CK)
+ */
+export function kdfChain(chainKey: Uint8Array): [Uint8Array, Uint8Array] {
+  const messageKey = crypto_generichash(32, CHAIN_MESSAGE_INPUT, chainKey);
+  const nextChainKey = crypto_generichash(32, CHAIN_NEXT_INPUT, chainKey);
+  return [nextChainKey, messageKey];
+}
+
+// ============================================================
+// Bytes & Encoding
+// ============================================================
+
+export function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/**
+ * Bytes of an ASCII string. Only for protocol strings (JIDs, UUIDs,
+ * base64, digits): anything above 0x7f is masked, not UTF-8 encoded.
+ */
+export function asciiBytes(str: string): Uint8Array {
+  const out = new Uint8Array(str.length);
+  for (let i = 0; i < str.length; i++) {
+    out[i] = str.charCodeAt(i) & 0x7f;
+  }
+  return out;
+}
+
+export function b64(bytes: Uint8Array): string {
+  return to_base64(bytes, base64_variants.ORIGINAL);
+}
+
+export function fromB64(value: string): Uint8Array {
+  return from_base64(value, base64_variants.ORIGINAL);
+}
@@ -20,6 +20,12 @@ import {
   GroupModel,
   UserProfileModel,
   SharedDataConsentModel,
+  RatchetSessionModel,
+  SenderKeyModel,
+  ContactKeyModel,
+  MediaMessageModel,
+  LinkedDeviceModel,
+  CallLogModel,
   modelClasses,
 } from '@/models';
 
@@ -27,11 +33,24 @@ import type {
   DatabaseService,
   Message,
   OutboxMessage,
+  MediaTransfer,
+  UploadSlot,
   Contact,
   Group,
   UserProfile,
   SharedDataConsent,
+  StoredRatchetSession,
+  StoredSenderKey,
+  ContactKeyChange,
+  ContactKeyRecord,
+  LinkedDevice,
+  LocalChange,
+  CallLogEntry,
+  CallType,
+  CallDirection,
+  CallEndReason,
   Observable,
+  Unsubscribe,
   ContentType,
   DeliveryStatus,
   EncryptionMode,
@@ -45,6 +64,8 @@ import type { ProfileSyncPayload } from './profileSync';
 export class WatermelonDBService implements DatabaseService {
   private database: Database | null = null;
   private adapter: SQLiteAdapter | null = null;
+  private keyChangeListeners: Set<(change: ContactKeyChange) => void> = new Set();
+  private localChangeListeners: Set<(change: LocalChange) => void> = new Set();
 
   async initialize(encryptionKeyHex: string): Promise<void> {
     this.adapter = new SQLiteAdapter({
@@ -103,6 +124,20 @@ export class WatermelonDBService implements DatabaseService {
         // If isRead is explicitly set, use it; otherwise default to true
         // (caller should set isRead=false for received messages)
         record.isRead = msg.isRead ?? true;
+        // Photos — the file lives in mediaStorageService, transfer state in media_messages
+        if (msg.contentType === 'image') {
+          record.mediaId = msg.mediaId;
+          record.thumbnailData = msg.thumbnailData;
+          record.mediaWidth = msg.mediaWidth;
+          record.mediaHeight = msg.mediaHeight;
+        }
+        // Voice messages (v35) — the file itself lives in mediaStorageService
+        if (msg.contentType === 'audio') {
+          record.mediaId = msg.mediaId;
+          record.mediaDuration = msg.mediaDuration;
+          record.waveform = msg.waveform ?? [];
+          record.transcript = msg.transcript;
+        }
       });
     });
   }
@@ -129,8 +164,9 @@ export class WatermelonDBService implements DatabaseService {
 
     return {
       subscribe: (observer) => {
+        // Columns that change after insert (status, edits, retracts, reactions)
         const subscription = MessageModel.queryByChatId(collection, chatId)
-          .observe()
+          .observeWithColumns(['status', 'content', 'edited_at', 'retracted_at', 'reactions', 'transcript'])
           .subscribe({
             next: messages => {
               const limited = messages.slice(0, limit);
@@ -154,14 +190,82 @@ export class WatermelonDBService implements DatabaseService {
 
   async updateMessageStatus(messageId: string, status: DeliveryStatus): Promise<void> {
     const db = this.ensureDatabase();
+    const message = await this.findMessage(messageId);
+    if (!message) {
+      // Outbox entries for edit/retract/reaction controls have no message row
+      console.debug(`[Database] No message ${messageId} for status update`);
+      return;
+    }
     await db.write(async () => {
-      const message = await db.get<MessageModel>('messages').find(messageId);
       await message.update(record => {
         record.status = status;
       });
     });
   }
 
+  async getMessage(messageId: string): Promise<Message | null> {
+    const message = await this.findMessage(messageId);
+    return message ? this.messageModelToInterface(message) : null;
+  }
+
+  async editMessage(messageId: string, content: string, editedAt: number): Promise<void> {
+    const db = this.ensureDatabase();
+    const message = await db.get<MessageModel>('messages').find(messageId);
+    await db.write(async () => {
+      await message.update(record => {
+        record.editHistory = [
+          ...record.editHistory,
+          { content: record.content, timestamp: record.editedAt ?? record.timestamp },
+        ];
+        record.content = content;
+        record.editedAt = editedAt;
+      });
+    });
+  }
+
+  async retractMessage(messageId: string, retractedAt: number): Promise<void> {
+    const db = this.ensureDatabase();
+    const message = await db.get<MessageModel>('messages').find(messageId);
+    await db.write(async () => {
+      await message.update(record => {
+        // Nothing of the retracted message stays behind, including earlier versions
+        record.content = '';
+        record.editHistory = [];
+        record.thumbnailData = undefined;
+        record.transcript = undefined;
+        record.retractedAt = retractedAt;
+      });
+    });
+  }
+
+  async setMessageReaction(messageId: string, reactorJid: string, emoji: string | null): Promise<void> {
+    const db = this.ensureDatabase();
+    const message = await db.get<MessageModel>('messages').find(messageId);
+    await db.write(async () => {
+      await message.update(record => {
+        const reactions = { ...record.reactions };
+        if (emoji) {
+          reactions[reactorJid] = emoji;
+        } else {
+          delete reactions[reactorJid];
+        }
+        record.reactions = reactions;
+      });
+    });
+  }
+
+  async setMessageTranscript(messageId: string, transcript: string): Promise<void> {
+    const db = this.ensureDatabase();
+    const message = await this.findMessage(messageId);
+    if (!message) return; // Deleted while transcribing
+
+    await db.write(async () => {
+      await message.update(record => {
+        record.transcript = transcript;
+      });
+    });
+  }
+
   async markMessageAsRead(messageId: string): Promise<void> {
     const db = this.ensureDatabase();
     await db.write(async () => {
@@ -172,6 +276,7 @@ export class WatermelonDBService implements DatabaseService {
 
   async markAllMessagesAsRead(chatId: string): Promise<void> {
     const db = this.ensureDatabase();
+    let markedCount = 0;
     await db.write(async () => {
       const collection = db.get<MessageModel>('messages');
       const unreadMessages = await collection.query(
@@ -184,7 +289,12 @@ export class WatermelonDBService implements DatabaseService {
           record.isRead = true;
         });
       }
+      markedCount = unreadMessages.length;
     });
+
+    if (markedCount > 0) {
+      this.emitLocalChange({ type: 'read', chatId });
+    }
   }
 
   async getUnreadCount(chatId: string): Promise<number> {
@@ -290,12 +400,76 @@ export class WatermelonDBService implements DatabaseService {
     return expired.length;
   }
 
+  // ============================================================
+  // Media Transfers
+  // ============================================================
+
+  async saveMediaTransfer(transfer: MediaTransfer): Promise<void> {
+    const db = this.ensureDatabase();
+    const collection = db.get<MediaMessageModel>('media_messages');
+    const existing = await collection.query(Q.where('media_id', transfer.mediaId)).fetch();
+
+    const apply = (record: MediaMessageModel) => {
+      record.mediaId = transfer.mediaId;
+      record.messageId = transfer.messageId;
+      record.chatId = transfer.chatId;
+      record.type = transfer.type;
+      record.localUri = transfer.localUri;
+      record.thumbnailUri = '';
+      record.size = transfer.size;
+      record.width = transfer.width;
+      record.height = transfer.height;
+      record.source = transfer.source;
+      record.senderJid = transfer.senderJid;
+      record.senderName = transfer.senderName;
+      record.encryptionKey = transfer.encryptionKey;
+      record.encryptionNonce = transfer.encryptionNonce;
+      record.chunkSize = transfer.chunkSize;
+      record.transferStatus = transfer.status;
+      record.retryCount = transfer.retryCount;
+      record.expiresAt = transfer.expiresAt;
+      record.uploadSlot = transfer.uploadSlot ? JSON.stringify(transfer.uploadSlot) : undefined;
+      record.remoteUrl = transfer.remoteUrl;
+    };
+
+    await db.write(async () => {
+      if (existing.length > 0) {
+        await existing[0].update(apply);
+      } else {
+        await collection.create(apply);
+      }
+    });
+  }
+
+  async getMediaTransfer(mediaId: string): Promise<MediaTransfer | null> {
+    const db = this.ensureDatabase();
+    const results = await db
+      .get<MediaMessageModel>('media_messages')
+      .query(Q.where('media_id', mediaId))
+      .fetch();
+    return results.length > 0 ? this.mediaTransferModelToInterface(results[0]) : null;
+  }
+
+  async getPendingMediaTransfers(): Promise<MediaTransfer[]> {
+    const db = this.ensureDatabase();
+    const results = await db
+      .get<MediaMessageModel>('media_messages')
+      .query(
+        Q.where('transfer_status', Q.oneOf(['pending', 'sending', 'failed'])),
+        Q.where('expires_at', Q.gt(Date.now())),
+        Q.sortBy('created_at', Q.asc),
+      )
+      .fetch();
+    return results.map(m => this.mediaTransferModelToInterface(m));
+  }
+
   // ============================================================
   // Contacts
   // ============================================================
 
   async saveContact(contact: Contact): Promise<void> {
     const db = this.ensureDatabase();
+    const keyChanges: ContactKeyChange[] = [];
     await db.write(async () => {
       // Check if contact exists (by userUuid first, fallback to jid for backwards compatibility)
       const existing = await db
@@ -307,6 +481,20 @@ export class WatermelonDBService implements DatabaseService {
         ));
 
       if (existing) {
+        // Every caller (profile sync, invitations, DEV test keys) ends up here,
+        // so this is the one place a silent key swap can be caught
+        const keyChanged = !!existing.publicKey && !!contact.publicKey
+          && existing.publicKey !== contact.publicKey;
+        if (keyChanged) {
+          keyChanges.push({
+            jid: contact.jid,
+            previousKey: existing.publicKey,
+            newKey: contact.publicKey,
+            wasVerified: existing.trustLevel >= 3,
+            changedAt: Date.now(),
+          });
+        }
+
         await existing.update(record => {
           record.userUuid = contact.userUuid;
           record.jid = contact.jid;
@@ -334,6 +522,11 @@ export class WatermelonDBService implements DatabaseService {
           if (contact.trustLevel !== undefined) {
             record.trustLevel = contact.trustLevel;
           }
+          // A new key is unverified until the safety number is compared again
+          if (keyChanged) {
+            record.verified = false;
+            record.trustLevel = Math.min(record.trustLevel, 2);
+          }
           record.categories = contact.categories;
         });
       } else {
@@ -366,7 +559,18 @@ export class WatermelonDBService implements DatabaseService {
           record.categories = contact.categories;
         });
       }
+
+      if (contact.publicKey) {
+        await this.recordContactKey(contact.jid, contact.publicKey);
+      }
     });
+
+    for (const change of keyChanges) {
+      console.warn('[Database] Public key changed for a contact');
+      this.keyChangeListeners.forEach(listener => listener(change));
+    }
+
+    this.emitLocalChange({ type: 'contact', contact });
   }
 
   getContacts(): Observable<Contact[]> {
@@ -415,6 +619,29 @@ export class WatermelonDBService implements DatabaseService {
         await contact.destroyPermanently();
       }
     });
+
+    // Ratchet session is meaningless without the contact
+    await this.deleteRatchetSession(jid);
+
+    this.emitLocalChange({ type: 'contact_removed', jid });
+  }
+
+  async getContactKeyHistory(jid: string): Promise<ContactKeyRecord[]> {
+    const db = this.ensureDatabase();
+    const records = await db
+      .get<ContactKeyModel>('contact_keys')
+      .query(Q.where('contact_jid', jid), Q.sortBy('first_seen_at', Q.asc))
+      .fetch();
+    return records.map(record => ({
+      publicKey: record.publicKey,
+      firstSeenAt: record.firstSeenAt,
+      lastSeenAt: record.lastSeenAt,
+    }));
+  }
+
+  onContactKeyChanged(listener: (change: ContactKeyChange) => void): Unsubscribe {
+    this.keyChangeListeners.add(listener);
+    return () => this.keyChangeListeners.delete(listener);
   }
 
   // ============================================================
@@ -443,6 +670,8 @@ export class WatermelonDBService implements DatabaseService {
         });
       }
     });
+
+    this.emitLocalChange({ type: 'group', group });
   }
 
   getGroups(): Observable<Group[]> {
@@ -487,6 +716,166 @@ export class WatermelonDBService implements DatabaseService {
       const group = await db.get<GroupModel>('groups').find(groupId);
       await group.updateMembers(members);
     });
+
+    const group = await this.getGroup(groupId);
+    if (group) {
+      this.emitLocalChange({ type: 'group', group });
+    }
+  }
+
+  onLocalChange(listener: (change: LocalChange) => void): Unsubscribe {
+    this.localChangeListeners.add(listener);
+    return () => this.localChangeListeners.delete(listener);
+  }
+
+  // ============================================================
+  // Linked Devices
+  // ============================================================
+
+  async getLinkedDevices(): Promise<LinkedDevice[]> {
+    const db = this.ensureDatabase();
+    const records = await db
+      .get<LinkedDeviceModel>('linked_devices')
+      .query(Q.sortBy('linked_at', Q.asc))
+      .fetch();
+    return records.map(record => ({
+      deviceId: record.deviceId,
+      name: record.name,
+      platform: record.platform === 'android' ? 'android' : 'ios',
+      publicKey: record.publicKey,
+      certificate: record.certificate,
+      linkedAt: record.linkedAt,
+      lastSeenAt: record.lastSeenAt ?? undefined,
+      revokedAt: record.revokedAt ?? undefined,
+      isCurrent: record.isCurrent,
+    }));
+  }
+
+  async saveLinkedDevice(device: LinkedDevice): Promise<void> {
+    const db = this.ensureDatabase();
+    const collection = db.get<LinkedDeviceModel>('linked_devices');
+    const existing = await collection.query(Q.where('device_id', device.deviceId)).fetch();
+
+    await db.write(async () => {
+      const apply = (record: LinkedDeviceModel) => {
+        record.deviceId = device.deviceId;
+        record.name = device.name;
+        record.platform = device.platform;
+        record.publicKey = device.publicKey;
+        record.certificate = device.certificate;
+        record.linkedAt = device.linkedAt;
+        record.lastSeenAt = device.lastSeenAt;
+        record.revokedAt = device.revokedAt;
+        record.isCurrent = device.isCurrent;
+      };
+
+      if (existing.length > 0) {
+        await existing[0].update(apply);
+      } else {
+        await collection.create(apply);
+      }
+    });
+  }
+
+  // ============================================================
+  // Call History
+  // ============================================================
+
+  async saveCallLogEntry(entry: CallLogEntry): Promise<void> {
+    const db = this.ensureDatabase();
+    const collection = db.get<CallLogModel>('call_log');
+    const existing = await collection.query(Q.where('call_id', entry.callId)).fetch();
+
+    await db.write(async () => {
+      const apply = (record: CallLogModel) => {
+        record.callId = entry.callId;
+        record.callType = entry.type;
+        record.direction = entry.direction;
+        record.participantsRaw = JSON.stringify(entry.participants);
+        record.startedAt = entry.startedAt;
+        record.connectedAt = entry.connectedAt;
+        record.endedAt = entry.endedAt;
+        record.duration = entry.duration;
+        record.endReason = entry.endReason;
+        record.isMissed = entry.isMissed;
+        record.seenAt = entry.seenAt;
+      };
+
+      if (existing.length > 0) {
+        await existing[0].update(apply);
+      } else {
+        await collection.create(apply);
+      }
+    });
+  }
+
+  async getCallLog(limit: number, since?: number): Promise<CallLogEntry[]> {
+    const db = this.ensureDatabase();
+    const records = await db
+      .get<CallLogModel>('call_log')
+      .query(
+        ...(since !== undefined ? [Q.where('started_at', Q.gte(since))] : []),
+        Q.sortBy('started_at', Q.desc),
+        Q.take(limit),
+      )
+      .fetch();
+    return records.map(record => this.callLogModelToInterface(record));
+  }
+
+  observeCallLog(limit: number): Observable<CallLogEntry[]> {
+    const db = this.ensureDatabase();
+    const collection = db.get<CallLogModel>('call_log');
+
+    return {
+      subscribe: (observer) => {
+        // seen_at changes when the Recent tab is opened
+        const subscription = collection
+          .query(Q.sortBy('started_at', Q.desc), Q.take(limit))
+          .observeWithColumns(['seen_at'])
+          .subscribe({
+            next: records => {
+              observer(records.map(r => this.callLogModelToInterface(r)));
+            },
+            error: err => console.error('Call log observation error:', err),
+          });
+
+        return () => subscription.unsubscribe();
+      },
+    };
+  }
+
+  observeUnseenMissedCallCount(): Observable<number> {
+    const db = this.ensureDatabase();
+    const collection = db.get<CallLogModel>('call_log');
+
+    return {
+      subscribe: (observer) => {
+        const subscription = collection
+          .query(Q.where('is_missed', true), Q.where('seen_at', null))
+          .observeCount()
+          .subscribe({
+            next: count => observer(count),
+            error: err => console.error('Missed call observation error:', err),
+          });
+
+        return () => subscription.unsubscribe();
+      },
+    };
+  }
+
+  async markMissedCallsSeen(seenAt: number): Promise<void> {
+    const db = this.ensureDatabase();
+    await db.write(async () => {
+      const unseen = await db
+        .get<CallLogModel>('call_log')
+        .query(Q.where('is_missed', true), Q.where('seen_at', null))
+        .fetch();
+      for (const call of unseen) {
+        await call.update(record => {
+          record.seenAt = seenAt;
+        });
+      }
+    });
   }
 
   // ============================================================
@@ -642,6 +1031,118 @@ export class WatermelonDBService implements DatabaseService {
     return this.userProfileModelToInterface(profiles[0]);
   }
 
+  // ============================================================
+  // Ratchet Sessions
+  // ============================================================
+
+  async getRatchetSession(contactJid: string): Promise<StoredRatchetSession | null> {
+    const db = this.ensureDatabase();
+    const collection = db.get<RatchetSessionModel>('ratchet_sessions');
+    const results = await collection.query(Q.where('contact_jid', contactJid)).fetch();
+    if (results.length === 0) return null;
+    return {
+      current: results[0].sessionData,
+      previous: results[0].previousSessionData,
+      seenHandshakes: results[0].seenHandshakes,
+    };
+  }
+
+  async saveRatchetSession(contactJid: string, session: StoredRatchetSession): Promise<void> {
+    const db = this.ensureDatabase();
+    const collection = db.get<RatchetSessionModel>('ratchet_sessions');
+    const existing = await collection.query(Q.where('contact_jid', contactJid)).fetch();
+
+    await db.write(async () => {
+      if (existing.length > 0) {
+        await existing[0].update(record => {
+          record.sessionData = session.current;
+          record.previousSessionData = session.previous;
+          record.seenHandshakes = session.seenHandshakes;
+        });
+      } else {
+        await collection.create(record => {
+          record.contactJid = contactJid;
+          record.sessionData = session.current;
+          record.previousSessionData = session.previous;
+          record.seenHandshakes = session.seenHandshakes;
+        });
+      }
+    });
+  }
+
+  async deleteRatchetSession(contactJid: string): Promise<void> {
+    const db = this.ensureDatabase();
+    const collection = db.get<RatchetSessionModel>('ratchet_sessions');
+    const existing = await collection.query(Q.where('contact_jid', contactJid)).fetch();
+    if (existing.length === 0) return;
+
+    await db.write(async () => {
+      for (const record of existing) {
+        await record.destroyPermanently();
+      }
+    });
+  }
+
+  // ============================================================
+  // Sender Keys
+  // ============================================================
+
+  async getSenderKey(groupId: string, senderJid: string): Promise<StoredSenderKey | null> {
+    const db = this.ensureDatabase();
+    const collection = db.get<SenderKeyModel>('sender_keys');
+    const results = await collection
+      .query(Q.where('group_id', groupId), Q.where('sender_jid', senderJid))
+      .fetch();
+    if (results.length === 0) return null;
+    return {
+      current: results[0].keyData,
+      previous: results[0].previousKeyData,
+      distributedTo: results[0].distributedTo,
+    };
+  }
+
+  async saveSenderKey(groupId: string, senderJid: string, key: StoredSenderKey): Promise<void> {
+    const db = this.ensureDatabase();
+    const collection = db.get<SenderKeyModel>('sender_keys');
+    const existing = await collection
+      .query(Q.where('group_id', groupId), Q.where('sender_jid', senderJid))
+      .fetch();
+
+    await db.write(async () => {
+      if (existing.length > 0) {
+        await existing[0].update(record => {
+          record.keyData = key.current;
+          record.previousKeyData = key.previous;
+          record.distributedTo = key.distributedTo ?? [];
+        });
+      } else {
+        await collection.create(record => {
+          record.groupId = groupId;
+          record.senderJid = senderJid;
+          record.keyData = key.current;
+          record.previousKeyData = key.previous;
+          record.distributedTo = key.distributedTo ?? [];
+        });
+      }
+    });
+  }
+
+  async deleteSenderKeys(groupId: string, senderJid?: string): Promise<void> {
+    const db = this.ensureDatabase();
+    const collection = db.get<SenderKeyModel>('sender_keys');
+    const conditions = senderJid
+      ? [Q.where('group_id', groupId), Q.where('sender_jid', senderJid)]
+      : [Q.where('group_id', groupId)];
+    const existing = await collection.query(...conditions).fetch();
+    if (existing.length === 0) return;
+
+    await db.write(async () => {
+      for (const record of existing) {
+        await record.destroyPermanently();
+      }
+    });
+  }
+
   // ============================================================
   // Direct Database Access (for model-level queries)
   // ============================================================
@@ -655,6 +1156,47 @@ export class WatermelonDBService implements DatabaseService {
   // Private Helpers
   // ============================================================
 
+  private emitLocalChange(change: LocalChange): void {
+    this.localChangeListeners.forEach((listener) => {
+      try {
+        listener(change);
+      } catch (error) {
+        console.error('[Database] Local change listener error:', error);
+      }
+    });
+  }
+
+  /** Add a key to the contact's history, or refresh last_seen_at. Call inside db.write(). */
+  private async recordContactKey(jid: string, publicKey: string): Promise<void> {
+    const collection = this.ensureDatabase().get<ContactKeyModel>('contact_keys');
+    const existing = await collection
+      .query(Q.where('contact_jid', jid), Q.where('public_key', publicKey))
+      .fetch();
+    const now = Date.now();
+
+    if (existing.length > 0) {
+      await existing[0].update(record => {
+        record.lastSeenAt = now;
+      });
+    } else {
+      await collection.create(record => {
+        record.contactJid = jid;
+        record.publicKey = publicKey;
+        record.firstSeenAt = now;
+        record.lastSeenAt = now;
+      });
+    }
+  }
+
+  /** find() throws for unknown ids — this returns null instead */
+  private async findMessage(messageId: string): Promise<MessageModel | null> {
+    try {
+      return await this.ensureDatabase().get<MessageModel>('messages').find(messageId);
+    } catch {
+      return null;
+    }
+  }
+
   private ensureDatabase(): Database {
     if (!this.database) {
       throw new Error('Database not initialized');
@@ -672,6 +1214,17 @@ export class WatermelonDBService implements DatabaseService {
       contentType: m.contentType as ContentType,
       timestamp: m.timestamp,
       status: m.status as DeliveryStatus,
+      editedAt: m.editedAt ?? undefined,
+      editHistory: m.editHistory.length > 0 ? m.editHistory : undefined,
+      retractedAt: m.retractedAt ?? undefined,
+      reactions: Object.keys(m.reactions).length > 0 ? m.reactions : undefined,
+      mediaId: m.mediaId ?? undefined,
+      thumbnailData: m.thumbnailData ?? undefined,
+      mediaWidth: m.mediaWidth ?? undefined,
+      mediaHeight: m.mediaHeight ?? undefined,
+      mediaDuration: m.mediaDuration ?? undefined,
+      waveform: m.waveform.length > 0 ? m.waveform : undefined,
+      transcript: m.transcript ?? undefined,
     };
   }
 
@@ -688,6 +1241,30 @@ export class WatermelonDBService implements DatabaseService {
     };
   }
 
+  private mediaTransferModelToInterface(m: MediaMessageModel): MediaTransfer {
+    return {
+      mediaId: m.mediaId,
+      messageId: m.messageId,
+      chatId: m.chatId,
+      type: m.type,
+      localUri: m.localUri,
+      size: m.size,
+      width: m.width,
+      height: m.height,
+      source: m.source,
+      senderJid: m.senderJid ?? undefined,
+      senderName: m.senderName ?? undefined,
+      encryptionKey: m.encryptionKey,
+      encryptionNonce: m.encryptionNonce,
+      chunkSize: m.chunkSize ?? undefined,
+      status: m.transferStatus,
+      retryCount: m.retryCount,
+      expiresAt: m.expiresAt,
+      uploadSlot: m.uploadSlot ? JSON.parse(m.uploadSlot) as UploadSlot : undefined,
+      remoteUrl: m.remoteUrl ?? undefined,
+    };
+  }
+
   private contactModelToInterface(c: ContactModel): Contact {
     return {
       userUuid: c.userUuid,
@@ -730,6 +1307,29 @@ export class WatermelonDBService implements DatabaseService {
     };
   }
 
+  private callLogModelToInterface(c: CallLogModel): CallLogEntry {
+    let participants: CallLogEntry['participants'] = [];
+    try {
+      participants = JSON.parse(c.participantsRaw) as CallLogEntry['participants'];
+    } catch {
+      console.warn('[Database] Unreadable call log participants:', c.callId);
+    }
+
+    return {
+      callId: c.callId,
+      type: c.callType as CallType,
+      direction: c.direction as CallDirection,
+      participants,
+      startedAt: c.startedAt,
+      connectedAt: c.connectedAt ?? undefined,
+      endedAt: c.endedAt,
+      duration: c.duration,
+      endReason: c.endReason as CallEndReason,
+      isMissed: c.isMissed,
+      seenAt: c.seenAt ?? undefined,
+    };
+  }
+
   private userProfileModelToInterface(p: UserProfileModel): UserProfile {
     return {
       // Identity
@@ -0,0 +1,89 @@
+/**
+ * Database Rekey Targets — SQLCipher databases that take part in key rotation
+ *
+ * Each target opens its database file through op-sqlite with a candidate key,
+ * so keyManager can tell which key a file is encrypted with and re-key it
+ * with PRAGMA rekey. Targets are used on startup, before the databases are
+ * opened by WatermelonDB and the mail cache.
+ *
+ * @see services/keyManager.ts — completeKeyRotation()
+ * @see models/mailDatabase.ts — mail cache database
+ */
+
+import { Platform } from 'react-native';
+import { open, IOS_DOCUMENT_PATH, ANDROID_DATABASE_PATH, type DB } from '@op-engineering/op-sqlite';
+
+import type { RekeyTarget } from './keyManager';
+import { MAIL_DB_NAME } from '@/models/mailDatabase';
+import { closeMailCacheDb } from './mail/mailCache';
+
+/** WatermelonDB file name (dbName 'commeazy' in services/database.ts) */
+const MAIN_DB_FILE = 'commeazy.db';
+
+/**
+ * Open a database with a key and read from it.
+ * SQLCipher only reports a wrong key on the first read, not on open.
+ */
+async function probe(name: string, location: string | undefined, keyHex?: string): Promise<boolean> {
+  let db: DB | null = null;
+  try {
+    db = open({ name, location, encryptionKey: keyHex });
+    await db.execute('SELECT count(*) FROM sqlite_master;');
+    return true;
+  } catch {
+    return false;
+  } finally {
+    db?.close();
+  }
+}
+
+async function rekeyFile(name: string, location: string | undefined, oldKeyHex: string, newKeyHex: string): Promise<void> {
+  const db = open({ name, location, encryptionKey: oldKeyHex });
+  try {
+    // Keys are hex (keyManager), so inlining them in the PRAGMA is safe
+    await db.execute(`PRAGMA rekey = '${newKeyHex}';`);
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Main WatermelonDB database (chats, contacts, groups, sessions).
+ * WatermelonDB stores it in Documents (iOS) or the app databases dir (Android).
+ */
+export function createMainDatabaseTarget(): RekeyTarget {
+  // op-sqlite reads its path constants from the native module untyped
+  const location = (): string => String(Platform.OS === 'ios' ? IOS_DOCUMENT_PATH : ANDROID_DATABASE_PATH);
+
+  return {
+    name: 'WatermelonDB',
+    canOpen: keyHex => probe(MAIN_DB_FILE, location(), keyHex),
+    rekey: (oldKeyHex, newKeyHex) => rekeyFile(MAIN_DB_FILE, location(), oldKeyHex, newKeyHex),
+  };
+}
+
+/**
+ * Mail cache database (op-sqlite, default location), encrypted with the
+ * database key. A cache still unencrypted from an older version has nothing
+ * to re-key, so it counts as readable with any key; mailDatabase.ts replaces
+ * it with an encrypted one on first open.
+ */
+function createMailCacheTarget(): RekeyTarget {
+  return {
+    name: 'Mail cache',
+    canOpen: async keyHex =>
+      (await probe(MAIL_DB_NAME, undefined, keyHex)) || probe(MAIL_DB_NAME, undefined),
+    rekey: async (oldKeyHex, newKeyHex) => {
+      // The cache keeps a singleton connection — it must not stay open on the old key
+      closeMailCacheDb();
+      await rekeyFile(MAIL_DB_NAME, undefined, oldKeyHex, newKeyHex);
+    },
+  };
+}
+
+/**
+ * All databases encrypted with the key from keyManager.
+ */
+export function getDatabaseRekeyTargets(): RekeyTarget[] {
+  return [createMainDatabaseTarget(), createMailCacheTarget()];
+}
@@ -10,6 +10,9 @@
  * 2. Tablet scans QR, establishes encrypted channel
  * 3. Primary device exports encrypted key bundle (protected by PIN)
  * 4. Tablet imports keys and syncs profile
+ * 5. Tablet joins the account's linked devices (bundle.devices) via
+ *    deviceSyncService.joinLinkedDevices — messages, read markers and
+ *    contact/group changes are mirrored from then on (services/deviceSync.ts)
  *
  * ⚠️ PRODUCTION REQUIREMENTS - MUST BE IMPLEMENTED BEFORE RELEASE:
  * ─────────────────────────────────────────────────────────────────
@@ -47,7 +50,7 @@ import {
   memzero,
   ready as sodiumReady,
 } from 'react-native-libsodium';
-import type { KeyPair, UserProfile } from './interfaces';
+import type { AnnouncedDevice, KeyPair, UserProfile } from './interfaces';
 
 // QR data version for future compatibility
 const QR_VERSION = 1;
@@ -72,6 +75,8 @@ export interface DeviceLinkBundle {
     lastName: string;
     language: string;
   };
+  /** Devices already linked to the account (absent in bundles from older versions) */
+  devices?: AnnouncedDevice[];
 }
 
 export interface DeviceLinkSession {
@@ -160,11 +165,13 @@ export class DeviceLinkService {
    * @param userKeys - User's actual encryption keys to transfer
    * @param profile - User profile data
    * @param tabletPublicKey - Tablet's ephemeral public key (from connection)
+   * @param devices - Linked devices (deviceSyncService.getDevicesForLink())
    */
   async createKeyBundle(
     userKeys: KeyPair,
     profile: UserProfile,
     tabletPublicKey: string,
+    devices: AnnouncedDevice[] = [],
   ): Promise<DeviceLinkBundle> {
     await sodiumReady;
 
@@ -202,6 +209,7 @@ export class DeviceLinkService {
         lastName: profile.lastName,
         language: profile.language,
       },
+      devices,
     };
   }
 
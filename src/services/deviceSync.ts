@@ -0,0 +1,607 @@
+/**
+ * DeviceSyncService — Multi-device sync between linked devices
+ *
+ * After device linking (services/deviceLink.ts) the phone and tablet share
+ * the account key, but each keeps its own database. This service mirrors:
+ * - Messages sent or received on one device (photos via their encrypted pointer)
+ * - Delivery status of our own messages
+ * - Read markers
+ * - Contact and group changes
+ *
+ * Protocol:
+ * - Every device has its own subkey (crypto_box), kept in the Keychain
+ * - The account key certifies each subkey (EncryptionService.certifyDeviceKey),
+ *   so only a device that holds the account key can join
+ * - An event is sealed once per linked device and sent to our own bare JID
+ *   (urn:commeazy:sync:1); the server delivers it to every device and stores
+ *   it for offline ones
+ * - Every envelope announces the sending device, so a newly linked device
+ *   introduces itself with its first sync
+ * - Revoked devices no longer receive events; the revoked device itself is
+ *   told so and stops syncing. It still holds the account key — revoking
+ *   does not replace it.
+ *
+ * Voice recordings stay on the device that has them (waveform and transcript
+ * are mirrored). Events raised while offline are kept in memory only.
+ *
+ * @see services/interfaces.ts for LinkedDevice / DeviceSyncEvent
+ * @see .claude/skills/security-expert/SKILL.md
+ */
+
+import { Platform } from 'react-native';
+import * as Keychain from 'react-native-keychain';
+import {
+  crypto_box_keypair,
+  crypto_box_easy,
+  crypto_box_open_easy,
+  crypto_box_NONCEBYTES,
+  randombytes_buf,
+  to_base64,
+  from_base64,
+  to_hex,
+  to_string,
+  base64_variants,
+  ready as sodiumReady,
+} from 'react-native-libsodium';
+
+import { ServiceContainer } from './container';
+import { chatService } from './chat';
+import { groupChatService } from './groupChat';
+import type {
+  AnnouncedDevice,
+  DeliveryStatus,
+  DeviceSyncEnvelope,
+  DeviceSyncEvent,
+  LinkedDevice,
+  LocalChange,
+  Message,
+  Unsubscribe,
+} from './interfaces';
+
+// ============================================================
+// Constants
+// ============================================================
+
+const DEVICE_KEY_SERVICE = 'com.commeazy.device';
+
+/** Events kept while offline — older ones are dropped first */
+const MAX_QUEUED_EVENTS = 200;
+
+/** Device subkey and ID of this install */
+interface DeviceIdentity {
+  deviceId: string;
+  publicKey: string;
+  privateKey: string;
+}
+
+/** Plaintext inside one sealed box */
+interface SealedSyncEvent {
+  sentAt: number;
+  event: DeviceSyncEvent;
+}
+
+// ============================================================
+// Envelope Sealing
+// ============================================================
+
+/**
+ * Seal one event for each recipient device.
+ *
+ * @param event - Event to mirror
+ * @param sender - Announced record and private subkey of this device
+ * @param recipients - Linked devices (not revoked, not this device)
+ * @param sentAt - Timestamp used for replay protection
+ */
+export function sealSyncEvent(
+  event: DeviceSyncEvent,
+  sender: { device: AnnouncedDevice; privateKey: string },
+  recipients: Pick<LinkedDevice, 'deviceId' | 'publicKey'>[],
+  sentAt: number = Date.now(),
+): DeviceSyncEnvelope {
+  const plaintext = JSON.stringify({ sentAt, event } satisfies SealedSyncEvent);
+  const senderSk = from_base64(sender.privateKey, base64_variants.ORIGINAL);
+  const boxes: DeviceSyncEnvelope['boxes'] = {};
+
+  for (const recipient of recipients) {
+    const nonce = randombytes_buf(crypto_box_NONCEBYTES);
+    const ciphertext = crypto_box_easy(
+      plaintext,
+      nonce,
+      from_base64(recipient.publicKey, base64_variants.ORIGINAL),
+      senderSk,
+    );
+    boxes[recipient.deviceId] = {
+      nonce: to_base64(nonce, base64_variants.ORIGINAL),
+      ciphertext: to_base64(ciphertext, base64_variants.ORIGINAL),
+    };
+  }
+
+  return { device: sender.device, boxes };
+}
+
+/**
+ * Open our box in an envelope.
+ * Returns null when there is no box for us or it does not authenticate
+ * against the sender's subkey.
+ */
+export function openSyncEnvelope(
+  envelope: DeviceSyncEnvelope,
+  recipient: { deviceId: string; privateKey: string },
+  senderPublicKey: string,
+): SealedSyncEvent | null {
+  const box = envelope.boxes[recipient.deviceId];
+  if (!box) return null;
+
+  try {
+    const plaintext = crypto_box_open_easy(
+      from_base64(box.ciphertext, base64_variants.ORIGINAL),
+      from_base64(box.nonce, base64_variants.ORIGINAL),
+      from_base64(senderPublicKey, base64_variants.ORIGINAL),
+      from_base64(recipient.privateKey, base64_variants.ORIGINAL),
+    );
+    const sealed = JSON.parse(to_string(plaintext)) as SealedSyncEvent;
+    if (typeof sealed.sentAt !== 'number' || typeof sealed.event?.type !== 'string') {
+      return null;
+    }
+    return sealed;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================
+// DeviceSyncService
+// ============================================================
+
+export class DeviceSyncService {
+  private identity: DeviceIdentity | null = null;
+  private revoked = false;
+  private unsubscribers: Unsubscribe[] = [];
+  private deviceListeners: Set<(devices: LinkedDevice[]) => void> = new Set();
+  private revokedListeners: Set<() => void> = new Set();
+  // Changes being applied from a sync stanza — their local echo is not mirrored back
+  private applyingEchoes: Set<string> = new Set();
+  // Events raised while offline
+  private queue: DeviceSyncEvent[] = [];
+
+  get isInitialized(): boolean {
+    return this.identity !== null;
+  }
+
+  /** ID of this device, once initialized */
+  getDeviceId(): string | null {
+    return this.identity?.deviceId ?? null;
+  }
+
+  /**
+   * Load (or create) this device's subkey, register it and start mirroring.
+   * Call after ChatService and GroupChatService are initialized.
+   */
+  async initialize(): Promise<void> {
+    await sodiumReady;
+
+    this.identity = await this.loadOrCreateIdentity();
+    const current = await this.registerCurrentDevice(this.identity);
+    this.revoked = current.revokedAt !== undefined;
+    if (this.revoked) {
+      console.warn('[DeviceSync] This device was revoked — sync disabled');
+      return;
+    }
+
+    const xmpp = ServiceContainer.xmpp;
+    const db = ServiceContainer.database;
+
+    this.unsubscribers.push(
+      xmpp.onDeviceSync((envelope) => {
+        void this.handleEnvelope(envelope);
+      }),
+      xmpp.observeConnectionStatus().subscribe((status) => {
+        if (status === 'connected') {
+          void this.flushQueue();
+        }
+      }),
+      db.onLocalChange((change) => {
+        void this.mirrorLocalChange(change);
+      }),
+      chatService.onMessage((message) => {
+        void this.mirrorMessage(message);
+      }),
+      chatService.onMessageStatusChange((messageId, status) => {
+        void this.mirrorStatus(messageId, status);
+      }),
+      groupChatService.onMessage((message) => {
+        void this.mirrorMessage(message);
+      }),
+    );
+  }
+
+  /**
+   * All devices of this account, this device first.
+   */
+  async getDevices(): Promise<LinkedDevice[]> {
+    const devices = await ServiceContainer.database.getLinkedDevices();
+    return [...devices].sort((a, b) => Number(b.isCurrent) - Number(a.isCurrent));
+  }
+
+  /**
+   * Subscribe to changes in the device list (link, revoke, last seen).
+   */
+  onDevicesChanged(listener: (devices: LinkedDevice[]) => void): Unsubscribe {
+    this.deviceListeners.add(listener);
+    return () => this.deviceListeners.delete(listener);
+  }
+
+  /**
+   * Subscribe to this device being revoked from another device.
+   */
+  onRevoked(listener: () => void): Unsubscribe {
+    this.revokedListeners.add(listener);
+    return () => this.revokedListeners.delete(listener);
+  }
+
+  /**
+   * Active devices to hand to a newly linked device (in the key bundle).
+   */
+  async getDevicesForLink(): Promise<AnnouncedDevice[]> {
+    const devices = await ServiceContainer.database.getLinkedDevices();
+    return devices.filter(d => !d.revokedAt).map(toAnnouncedDevice);
+  }
+
+  /**
+   * On a newly linked device, after importing the key bundle: store the
+   * account's devices and introduce ourselves to them.
+   */
+  async joinLinkedDevices(devices: AnnouncedDevice[]): Promise<void> {
+    if (!this.identity) return;
+
+    const db = ServiceContainer.database;
+    for (const device of devices) {
+      if (device.deviceId === this.identity.deviceId) continue;
+
+      const valid = ServiceContainer.encryption.verifyDeviceCertificate(
+        device.deviceId,
+        device.publicKey,
+        device.certificate,
+      );
+      if (!valid) {
+        console.warn('[DeviceSync] Skipping linked device with an invalid certificate');
+        continue;
+      }
+      await db.saveLinkedDevice({ ...device, isCurrent: false });
+    }
+
+    await this.notifyDevicesChanged();
+
+    // The envelope announces us; the event itself carries nothing
+    await this.broadcast({ type: 'device_joined' });
+  }
+
+  /**
+   * Revoke a linked device: it no longer receives sync events and is told
+   * to stop syncing.
+   */
+  async revokeDevice(deviceId: string): Promise<void> {
+    const db = ServiceContainer.database;
+    const device = (await db.getLinkedDevices()).find(d => d.deviceId === deviceId);
+    if (!device || device.isCurrent) {
+      throw new Error('Cannot revoke this device');
+    }
+    if (device.revokedAt) return;
+
+    const revokedAt = Date.now();
+    const event: DeviceSyncEvent = { type: 'device_revoked', deviceId, revokedAt };
+
+    // The revoked device gets this last event too
+    await this.broadcast(event, [device]);
+    await db.saveLinkedDevice({ ...device, revokedAt });
+    await this.notifyDevicesChanged();
+    console.info('[DeviceSync] Device revoked');
+  }
+
+  /**
+   * Cleanup on logout.
+   */
+  cleanup(): void {
+    this.unsubscribers.forEach(unsub => unsub());
+    this.unsubscribers = [];
+    this.deviceListeners.clear();
+    this.revokedListeners.clear();
+    this.applyingEchoes.clear();
+    this.queue = [];
+    this.identity = null;
+  }
+
+  // ============================================================
+  // Private — Outgoing
+  // ============================================================
+
+  private async mirrorLocalChange(change: LocalChange): Promise<void> {
+    if (this.applyingEchoes.has(echoKey(change))) return;
+    await this.broadcast(change);
+  }
+
+  private async mirrorMessage(message: Message): Promise<void> {
+    // System messages (key changes) are raised locally on every device
+    if (message.contentType === 'system') return;
+    if (this.applyingEchoes.has(`message:${message.id}`)) return;
+
+    const media = await chatService.getMediaPointer(message);
+    // Local file paths mean nothing on the other device
+    const portable = { ...message, mediaUri: undefined, thumbnailUri: undefined };
+    await this.broadcast({ type: 'message', message: portable, media: media ?? undefined });
+  }
+
+  private async mirrorStatus(messageId: string, status: DeliveryStatus): Promise<void> {
+    if (this.applyingEchoes.has(`status:${messageId}:${status}`)) return;
+
+    const message = await ServiceContainer.database.getMessage(messageId);
+    if (!message || message.senderId !== chatService.getMyJid()) return;
+
+    // An own photo is only downloadable by the other devices once uploaded
+    const media = status === 'sent' ? await chatService.getMediaPointer(message) : null;
+    await this.broadcast({ type: 'status', messageId, status, media: media ?? undefined });
+  }
+
+  /**
+   * Seal and send an event to all active linked devices
+   * (plus `extraRecipients`). Queued while offline.
+   */
+  private async broadcast(event: DeviceSyncEvent, extraRecipients: LinkedDevice[] = []): Promise<void> {
+    if (!this.identity || this.revoked) return;
+
+    try {
+      const devices = await ServiceContainer.database.getLinkedDevices();
+      const recipients = [
+        ...devices.filter(d => !d.isCurrent && !d.revokedAt),
+        ...extraRecipients,
+      ];
+      // Single-device accounts never send sync stanzas
+      if (recipients.length === 0) return;
+
+      const xmpp = ServiceContainer.xmpp;
+      if (xmpp.getConnectionStatus() !== 'connected') {
+        this.queue.push(event);
+        if (this.queue.length > MAX_QUEUED_EVENTS) this.queue.shift();
+        return;
+      }
+
+      const current = devices.find(d => d.isCurrent);
+      if (!current) return;
+
+      const envelope = sealSyncEvent(
+        event,
+        { device: toAnnouncedDevice(current), privateKey: this.identity.privateKey },
+        recipients,
+      );
+      await xmpp.sendDeviceSync(envelope);
+    } catch (error) {
+      console.warn('[DeviceSync] Failed to send sync event:', error);
+    }
+  }
+
+  private async flushQueue(): Promise<void> {
+    const pending = this.queue;
+    this.queue = [];
+    for (const event of pending) {
+      await this.broadcast(event);
+    }
+  }
+
+  // ============================================================
+  // Private — Incoming
+  // ============================================================
+
+  private async handleEnvelope(envelope: DeviceSyncEnvelope): Promise<void> {
+    const identity = this.identity;
+    if (!identity || this.revoked) return;
+    // Our own stanza comes back from the server too
+    if (envelope.device.deviceId === identity.deviceId) return;
+    if (!envelope.boxes[identity.deviceId]) return;
+
+    const db = ServiceContainer.database;
+    let sender = (await db.getLinkedDevices()).find(d => d.deviceId === envelope.device.deviceId);
+
+    if (!sender) {
+      // A newly linked device introducing itself — must hold the account key
+      const announced = envelope.device;
+      const valid = ServiceContainer.encryption.verifyDeviceCertificate(
+        announced.deviceId,
+        announced.publicKey,
+        announced.certificate,
+      );
+      if (!valid) {
+        console.warn('[DeviceSync] Ignoring sync from a device without a valid certificate');
+        return;
+      }
+      sender = { ...toAnnouncedDevice(announced), isCurrent: false };
+      console.info('[DeviceSync] New linked device joined');
+    }
+
+    if (sender.revokedAt) return;
+
+    const sealed = openSyncEnvelope(envelope, identity, sender.publicKey);
+    if (!sealed) {
+      console.warn('[DeviceSync] Could not open sync envelope');
+      return;
+    }
+    // Replayed by the server — events from one device arrive in order
+    if (sender.lastSeenAt !== undefined && sealed.sentAt < sender.lastSeenAt) return;
+
+    await db.saveLinkedDevice({ ...sender, lastSeenAt: sealed.sentAt });
+
+    try {
+      await this.applyEvent(sealed.event, sender);
+    } catch (error) {
+      console.error('[DeviceSync] Failed to apply sync event:', error);
+    }
+    await this.notifyDevicesChanged();
+  }
+
+  private async applyEvent(event: DeviceSyncEvent, sender: LinkedDevice): Promise<void> {
+    const db = ServiceContainer.database;
+
+    switch (event.type) {
+      case 'message':
+        await this.withEcho(`message:${event.message.id}`, () =>
+          chatService.applySyncedMessage(event.message, event.media));
+        break;
+      case 'status':
+        await this.withEcho(`status:${event.messageId}:${event.status}`, () =>
+          chatService.applySyncedStatus(event.messageId, event.status, event.media));
+        break;
+      case 'read':
+        await this.withEcho(echoKey(event), () => db.markAllMessagesAsRead(event.chatId));
+        break;
+      case 'contact':
+        await this.withEcho(echoKey(event), () => db.saveContact(event.contact));
+        break;
+      case 'contact_removed':
+        await this.withEcho(echoKey(event), () => db.deleteContact(event.jid));
+        break;
+      case 'group':
+        await this.withEcho(echoKey(event), () => db.saveGroup(event.group));
+        break;
+      case 'device_joined':
+        // Already stored from the envelope announcement
+        break;
+      case 'device_revoked':
+        await this.applyRevocation(event.deviceId, event.revokedAt, sender);
+        break;
+    }
+  }
+
+  private async applyRevocation(deviceId: string, revokedAt: number, sender: LinkedDevice): Promise<void> {
+    const db = ServiceContainer.database;
+    const device = (await db.getLinkedDevices()).find(d => d.deviceId === deviceId);
+    if (!device || device.revokedAt) return;
+
+    await db.saveLinkedDevice({ ...device, revokedAt });
+
+    if (device.isCurrent) {
+      console.warn(`[DeviceSync] This device was revoked by ${sender.name}`);
+      this.revoked = true;
+      this.queue = [];
+      this.revokedListeners.forEach(listener => listener());
+    }
+  }
+
+  /** Run a sync write while its local change event is recognised as an echo */
+  private async withEcho(key: string, apply: () => Promise<void>): Promise<void> {
+    this.applyingEchoes.add(key);
+    try {
+      await apply();
+    } finally {
+      this.applyingEchoes.delete(key);
+    }
+  }
+
+  // ============================================================
+  // Private — Device Identity
+  // ============================================================
+
+  private async loadOrCreateIdentity(): Promise<DeviceIdentity> {
+    try {
+      const stored = await Keychain.getGenericPassword({ service: DEVICE_KEY_SERVICE });
+      if (stored && stored.password) {
+        const keys = JSON.parse(stored.password) as Omit<DeviceIdentity, 'deviceId'>;
+        return { deviceId: stored.username, ...keys };
+      }
+    } catch {
+      // No identity yet — created below
+    }
+
+    const keyPair = crypto_box_keypair();
+    const identity: DeviceIdentity = {
+      deviceId: to_hex(randombytes_buf(8)),
+      publicKey: to_base64(keyPair.publicKey, base64_variants.ORIGINAL),
+      privateKey: to_base64(keyPair.privateKey, base64_variants.ORIGINAL),
+    };
+
+    // THIS_DEVICE_ONLY: a restored backup on a new phone must become a new device
+    await Keychain.setGenericPassword(
+      identity.deviceId,
+      JSON.stringify({ publicKey: identity.publicKey, privateKey: identity.privateKey }),
+      {
+        service: DEVICE_KEY_SERVICE,
+        accessible: Keychain.ACCESSIBLE.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+      },
+    );
+    console.info('[DeviceSync] Device subkey created');
+    return identity;
+  }
+
+  /**
+   * Make sure this device is in the device list with a valid certificate.
+   * A database restored from another device keeps that device as a linked one.
+   */
+  private async registerCurrentDevice(identity: DeviceIdentity): Promise<LinkedDevice> {
+    const db = ServiceContainer.database;
+    const devices = await db.getLinkedDevices();
+
+    const existing = devices.find(d => d.deviceId === identity.deviceId);
+    if (existing) return existing;
+
+    for (const device of devices.filter(d => d.isCurrent)) {
+      await db.saveLinkedDevice({ ...device, isCurrent: false });
+    }
+
+    const current: LinkedDevice = {
+      deviceId: identity.deviceId,
+      name: await getDeviceName(),
+      platform: Platform.OS === 'android' ? 'android' : 'ios',
+      publicKey: identity.publicKey,
+      certificate: ServiceContainer.encryption.certifyDeviceKey(identity.deviceId, identity.publicKey),
+      linkedAt: Date.now(),
+      isCurrent: true,
+    };
+    await db.saveLinkedDevice(current);
+    return current;
+  }
+
+  private async notifyDevicesChanged(): Promise<void> {
+    if (this.deviceListeners.size === 0) return;
+    const devices = await this.getDevices();
+    this.deviceListeners.forEach(listener => listener(devices));
+  }
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+function toAnnouncedDevice(device: AnnouncedDevice): AnnouncedDevice {
+  return {
+    deviceId: device.deviceId,
+    name: device.name,
+    platform: device.platform,
+    publicKey: device.publicKey,
+    certificate: device.certificate,
+    linkedAt: device.linkedAt,
+  };
+}
+
+function echoKey(change: LocalChange): string {
+  switch (change.type) {
+    case 'contact':
+      return `contact:${change.contact.jid}`;
+    case 'contact_removed':
+      return `contact_removed:${change.jid}`;
+    case 'group':
+      return `group:${change.group.id}`;
+    case 'read':
+      return `read:${change.chatId}`;
+  }
+}
+
+/** Name shown in the linked-devices list, e.g. "iPad van Oma" */
+async function getDeviceName(): Promise<string> {
+  try {
+    const DeviceInfo = await import('react-native-device-info');
+    return await DeviceInfo.default.getDeviceName();
+  } catch {
+    return Platform.OS === 'android' ? 'Android' : 'iOS';
+  }
+}
+
+// Singleton instance
+export const deviceSyncService = new DeviceSyncService();
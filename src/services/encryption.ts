@@ -5,6 +5,12 @@
  * - ≤8 members: encrypt-to-all (individual crypto_box per recipient)
  * - >8 members: shared-key (AES secretbox + key wrapping)
  *
+ * 1-on-1 chat uses 'ratchet' mode (Double Ratchet, forward secrecy).
+ * Legacy '1on1' payloads (static crypto_box) remain decryptable.
+ *
+ * Group chat uses 'sender-key' mode (encrypt once per message, keys
+ * distributed over 'ratchet'). Legacy group payloads remain decryptable.
+ *
  * Threshold validated by PoC benchmark:
  * - Text: encrypt-to-all faster up to ~20 members
  * - Photos: shared-key saves 85-97% bandwidth above 3 members
@@ -27,6 +33,8 @@ import {
   crypto_pwhash_MEMLIMIT_MODERATE,
   crypto_pwhash_ALG_ARGON2ID13,
   crypto_generichash,
+  crypto_auth,
+  crypto_auth_verify,
   crypto_scalarmult_base,
   randombytes_buf,
   to_base64,
@@ -74,10 +82,36 @@ import type {
   EncryptionService,
   EncryptedPayload,
   EncryptedBackup,
+  EncryptionMode,
   KeyPair,
+  RatchetSessionStore,
+  SenderKeyStore,
   Recipient,
 } from './interfaces';
 import { AppError } from './interfaces';
+import {
+  initiateSession,
+  acceptSession,
+  ratchetEncrypt,
+  ratchetDecrypt,
+  serializeSession,
+  deserializeSession,
+  type RatchetSession,
+  type RatchetCiphertext,
+} from './ratchet';
+import {
+  createSenderKey,
+  createDistribution,
+  acceptDistribution,
+  isNewerSenderKey,
+  senderKeyEncrypt,
+  senderKeyDecrypt,
+  serializeSenderKey,
+  deserializeSenderKey,
+  type SenderKeyState,
+  type SenderKeyDistribution,
+  type SenderKeyMessage,
+} from './senderKeys';
 
 const ENCRYPTION_THRESHOLD = 8;
 const BACKUP_VERSION = 1;
@@ -87,11 +121,23 @@ const KEY_SERVICE = 'com.commeazy.keys';
 const KEY_ACCOUNT_PUBLIC = 'publicKey';
 const KEY_ACCOUNT_PRIVATE = 'privateKey';
 
+// Domain separation for the session sealing keys (BLAKE2b message)
+const SESSION_STORE_CONTEXT = 'commeazy.ratchet.sessions.v1';
+const HANDSHAKE_STORE_CONTEXT = 'commeazy.ratchet.handshakes.v1';
+const SENDER_KEY_STORE_CONTEXT = 'commeazy.senderkeys.v1';
+const DEVICE_CERT_CONTEXT = 'commeazy.devices.v1';
+
+/** Accepted handshake keys remembered per contact (replay protection) */
+const MAX_SEEN_HANDSHAKES = 500;
+
 export class SodiumEncryptionService implements EncryptionService {
   private publicKey: Uint8Array | null = null;
   private privateKey: Uint8Array | null = null;
   private initialized = false;
   private myJid: string | null = null;
+  private sessionStore: (RatchetSessionStore & SenderKeyStore) | null = null;
+  /** Per-contact (and per group sender) promise chain — chain state must never be advanced concurrently */
+  private sessionLocks: Map<string, Promise<unknown>> = new Map();
 
   /**
    * Set the current user's JID.
@@ -101,6 +147,14 @@ export class SodiumEncryptionService implements EncryptionService {
     this.myJid = jid;
   }
 
+  /**
+   * Inject ratchet session and sender key persistence.
+   * The database is initialized after encryption, so this is set by the container.
+   */
+  setSessionStore(store: RatchetSessionStore & SenderKeyStore): void {
+    this.sessionStore = store;
+  }
+
   async initialize(): Promise<void> {
     await sodiumReady;
 
@@ -152,10 +206,12 @@ export class SodiumEncryptionService implements EncryptionService {
    *
    * @param plaintext - Content to encrypt (string for text, Uint8Array for media)
    * @param recipients - Array of {jid, publicKey} pairs
+   * @param preferredMode - 'ratchet' for forward-secret 1-on-1 (single recipient only)
    */
   async encrypt(
     plaintext: string | Uint8Array,
     recipients: Recipient[],
+    preferredMode?: EncryptionMode,
   ): Promise<EncryptedPayload> {
     this.ensureKeys();
 
@@ -172,6 +228,10 @@ export class SodiumEncryptionService implements EncryptionService {
 
     try {
       // Select encryption mode
+      if (recipients.length === 1 && preferredMode === 'ratchet') {
+        return await this.encryptRatchet(data, recipients[0]);
+      }
+
       if (recipients.length === 1) {
         return this.encryptDirect(data, recipients[0]);
       }
@@ -194,11 +254,14 @@ export class SodiumEncryptionService implements EncryptionService {
   async decrypt(
     payload: EncryptedPayload,
     senderPublicKey: Uint8Array,
+    senderJid: string,
   ): Promise<string> {
     this.ensureKeys();
 
     try {
       switch (payload.mode) {
+        case 'ratchet':
+          return await this.decryptRatchet(payload, senderPublicKey, senderJid);
         case '1on1':
           return this.decryptDirect(payload, senderPublicKey);
         case 'encrypt-to-all':
@@ -220,6 +283,248 @@ export class SodiumEncryptionService implements EncryptionService {
     }
   }
 
+  // ============================================================
+  // Sender keys (group messages)
+  // ============================================================
+
+  /**
+   * Encrypt a group message once with our sender key.
+   * Members must have received the key (getSenderKeyDistribution) first.
+   */
+  async encryptForGroup(groupId: string, plaintext: string | Uint8Array): Promise<EncryptedPayload> {
+    this.ensureKeys();
+    const store = this.getSessionStore();
+    const myJid = this.getMyJid();
+    const data = typeof plaintext === 'string' ? from_string(plaintext) : plaintext;
+
+    try {
+      return await this.withSessionLock(senderKeyLockId(groupId, myJid), async () => {
+        const stored = await store.getSenderKey(groupId, myJid);
+        let own = this.openSenderKey(stored?.current);
+        let distributedTo = stored?.distributedTo ?? [];
+        if (!own) {
+          own = createSenderKey(groupId);
+          distributedTo = [];
+        }
+
+        const message = senderKeyEncrypt(own, data);
+        await store.saveSenderKey(groupId, myJid, {
+          current: this.sealSenderKey(own),
+          distributedTo,
+        });
+
+        return {
+          mode: 'sender-key',
+          data: message.ciphertext,
+          metadata: {
+            groupId,
+            from: myJid,
+            keyId: message.keyId,
+            iteration: String(message.iteration),
+            nonce: message.nonce,
+            signature: message.signature,
+          },
+        };
+      });
+    } catch (error) {
+      // E200: Encryption failed - NEVER fall back to plaintext
+      console.error('Group encryption failed:', error);
+      throw new AppError('E200', 'encryption', () => {}, {
+        reason: 'encrypt_failed',
+      });
+    }
+  }
+
+  /**
+   * Decrypt a group message from a member.
+   * The sender JID must come from the transport (MUC occupant / stanza from),
+   * never from the payload.
+   */
+  async decryptFromGroup(payload: EncryptedPayload, senderJid: string): Promise<string> {
+    this.ensureKeys();
+    const store = this.getSessionStore();
+    const groupId = payload.metadata.groupId;
+    const message: SenderKeyMessage = {
+      keyId: payload.metadata.keyId,
+      iteration: Number(payload.metadata.iteration),
+      nonce: payload.metadata.nonce,
+      ciphertext: payload.data,
+      signature: payload.metadata.signature,
+    };
+    const keyMissing = () => new AppError('E202', 'encryption', () => {}, {
+      reason: 'sender_key_missing',
+    });
+
+    try {
+      return await this.withSessionLock(senderKeyLockId(groupId, senderJid), async () => {
+        const stored = await store.getSenderKey(groupId, senderJid);
+        const current = this.openSenderKey(stored?.current);
+        const previous = this.openSenderKey(stored?.previous);
+
+        const state = [current, previous].find(key => key?.keyId === message.keyId);
+        if (!state) {
+          throw keyMissing();
+        }
+
+        const plaintext = senderKeyDecrypt(state, message);
+        await store.saveSenderKey(groupId, senderJid, {
+          current: this.sealSenderKey(current ?? state),
+          previous: current && previous ? this.sealSenderKey(previous) : undefined,
+        });
+        return to_string(plaintext);
+      });
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw new AppError('E201', 'encryption', () => {}, {
+        reason: 'decrypt_failed',
+      });
+    }
+  }
+
+  /**
+   * Our sender key for a group (created on first use), as distribution JSON.
+   * The caller encrypts it per member over the 'ratchet' channel.
+   */
+  async getSenderKeyDistribution(groupId: string): Promise<{ distribution: string; distributedTo: string[] }> {
+    this.ensureKeys();
+    const store = this.getSessionStore();
+    const myJid = this.getMyJid();
+
+    return this.withSessionLock(senderKeyLockId(groupId, myJid), async () => {
+      const stored = await store.getSenderKey(groupId, myJid);
+      let own = this.openSenderKey(stored?.current);
+      let distributedTo = stored?.distributedTo ?? [];
+      if (!own) {
+        own = createSenderKey(groupId);
+        distributedTo = [];
+        await store.saveSenderKey(groupId, myJid, {
+          current: this.sealSenderKey(own),
+          distributedTo,
+        });
+      }
+
+      return {
+        distribution: JSON.stringify(createDistribution(own)),
+        distributedTo,
+      };
+    });
+  }
+
+  async markSenderKeyDistributed(groupId: string, memberJids: string[]): Promise<void> {
+    const store = this.getSessionStore();
+    const myJid = this.getMyJid();
+
+    await this.withSessionLock(senderKeyLockId(groupId, myJid), async () => {
+      const stored = await store.getSenderKey(groupId, myJid);
+      if (!stored) return;
+
+      const distributedTo = new Set([...(stored.distributedTo ?? []), ...memberJids]);
+      await store.saveSenderKey(groupId, myJid, {
+        ...stored,
+        distributedTo: [...distributedTo],
+      });
+    });
+  }
+
+  /**
+   * Store a sender key received from a member. Only a newer key (higher
+   * generation) replaces the current one, which is then kept as 'previous'
+   * for late messages. A late distribution of an older key can at most
+   * become 'previous'.
+   */
+  async processSenderKeyDistribution(groupId: string, senderJid: string, distribution: string): Promise<void> {
+    this.ensureKeys();
+    const store = this.getSessionStore();
+    const parsed = JSON.parse(distribution) as SenderKeyDistribution;
+    if (parsed.groupId !== groupId) {
+      throw new AppError('E201', 'encryption', () => {}, {
+        reason: 'sender_key_group_mismatch',
+      });
+    }
+
+    await this.withSessionLock(senderKeyLockId(groupId, senderJid), async () => {
+      const stored = await store.getSenderKey(groupId, senderJid);
+      const current = this.openSenderKey(stored?.current);
+      const previous = this.openSenderKey(stored?.previous);
+
+      // Re-sent distribution of a key we already track — keep our chain position
+      if (current?.keyId === parsed.keyId || previous?.keyId === parsed.keyId) return;
+
+      const received = acceptDistribution(parsed);
+      if (!current || isNewerSenderKey(received, current)) {
+        await store.saveSenderKey(groupId, senderJid, {
+          current: this.sealSenderKey(received),
+          previous: current ? this.sealSenderKey(current) : undefined,
+        });
+        return;
+      }
+
+      // Older than the current key: only useful for messages still in flight
+      if (!previous || isNewerSenderKey(received, previous)) {
+        await store.saveSenderKey(groupId, senderJid, {
+          current: stored!.current,
+          previous: this.sealSenderKey(received),
+        });
+      }
+    });
+  }
+
+  /**
+   * Replace our sender key for a group. Nobody has received the new key yet,
+   * so the next send distributes it to the current members only.
+   */
+  async rotateSenderKey(groupId: string): Promise<void> {
+    this.ensureKeys();
+    const store = this.getSessionStore();
+    const myJid = this.getMyJid();
+
+    await this.withSessionLock(senderKeyLockId(groupId, myJid), async () => {
+      const stored = await store.getSenderKey(groupId, myJid);
+      const generation = (this.openSenderKey(stored?.current)?.generation ?? 0) + 1;
+      await store.saveSenderKey(groupId, myJid, {
+        current: this.sealSenderKey(createSenderKey(groupId, generation)),
+        distributedTo: [],
+      });
+    });
+  }
+
+  async deleteSenderKeys(groupId: string, senderJid?: string): Promise<void> {
+    await this.getSessionStore().deleteSenderKeys(groupId, senderJid);
+  }
+
+  // ============================================================
+  // Linked Devices
+  // ============================================================
+
+  /**
+   * Certify a device subkey. Only devices holding the account private key
+   * can make (or check) a certificate, so a linked device cannot be added
+   * by anyone who merely has access to our XMPP account.
+   */
+  certifyDeviceKey(deviceId: string, devicePublicKey: string): string {
+    this.ensureKeys();
+    const key = this.deriveSessionStoreKey(DEVICE_CERT_CONTEXT);
+    try {
+      const tag = crypto_auth(from_string(`${deviceId}:${devicePublicKey}`), key);
+      return to_base64(tag, base64_variants.ORIGINAL);
+    } finally {
+      memzero(key);
+    }
+  }
+
+  verifyDeviceCertificate(deviceId: string, devicePublicKey: string, certificate: string): boolean {
+    this.ensureKeys();
+    const key = this.deriveSessionStoreKey(DEVICE_CERT_CONTEXT);
+    try {
+      const tag = from_base64(certificate, base64_variants.ORIGINAL);
+      return crypto_auth_verify(tag, from_string(`${deviceId}:${devicePublicKey}`), key);
+    } catch {
+      return false;
+    } finally {
+      memzero(key);
+    }
+  }
+
   async generateQRData(): Promise<string> {
     this.ensureKeys();
     // QR contains: base64 public key + fingerprint
@@ -401,6 +706,51 @@ export class SodiumEncryptionService implements EncryptionService {
     };
   }
 
+  /** 1-on-1 forward secret: Double Ratchet session per contact */
+  private async encryptRatchet(data: Uint8Array, recipient: Recipient): Promise<EncryptedPayload> {
+    const store = this.getSessionStore();
+    const myJid = this.getMyJid();
+    const remoteKey = to_base64(recipient.publicKey, base64_variants.ORIGINAL);
+
+    return this.withSessionLock(recipient.jid, async () => {
+      const stored = await store.getRatchetSession(recipient.jid);
+      let current = stored ? this.openSession(stored.current) : null;
+      let previous = stored?.previous ? this.openSession(stored.previous) : null;
+
+      // Start a new session on first contact or when the contact's identity key changed
+      if (!current || current.remoteIdentityKey !== remoteKey || !current.sendChainKey) {
+        const keptPrevious = current && current.remoteIdentityKey === remoteKey ? current : null;
+        previous = keptPrevious;
+        current = initiateSession(this.publicKey!, this.privateKey!, recipient.publicKey);
+      }
+
+      const message = ratchetEncrypt(current, data);
+      await store.saveRatchetSession(recipient.jid, {
+        current: this.sealSession(current),
+        previous: previous ? this.sealSession(previous) : undefined,
+        seenHandshakes: stored?.seenHandshakes,
+      });
+
+      const metadata: Record<string, string> = {
+        from: myJid,
+        to: recipient.jid,
+        dh: message.header.dh,
+        pn: String(message.header.pn),
+        n: String(message.header.n),
+        nonce: message.nonce,
+      };
+      if (message.header.ek) {
+        metadata.ek = message.header.ek;
+      }
+
+      return {
+        mode: 'ratchet',
+        data: message.ciphertext,
+        metadata,
+      };
+    });
+  }
+
   // ============================================================
   // Private — Decryption
   // ============================================================
@@ -458,6 +808,202 @@ export class SodiumEncryptionService implements EncryptionService {
     }
   }
 
+  /**
+   * @param senderJid Authenticated bare JID of the sender (from the XMPP
+   *   stanza). The session is keyed on it, never on the sender-supplied
+   *   metadata, so one contact cannot replace another contact's session.
+   */
+  private async decryptRatchet(
+    payload: EncryptedPayload,
+    senderPk: Uint8Array,
+    senderJid: string,
+  ): Promise<string> {
+    const store = this.getSessionStore();
+    const myJid = this.getMyJid();
+    if (!senderJid || payload.metadata.from !== senderJid) {
+      throw new Error('Ratchet payload sender does not match');
+    }
+
+    const message: RatchetCiphertext = {
+      header: {
+        dh: payload.metadata.dh,
+        pn: Number(payload.metadata.pn),
+        n: Number(payload.metadata.n),
+        ek: payload.metadata.ek,
+      },
+      nonce: payload.metadata.nonce,
+      ciphertext: payload.data,
+    };
+    const remoteKey = to_base64(senderPk, base64_variants.ORIGINAL);
+
+    return this.withSessionLock(senderJid, async () => {
+      const stored = await store.getRatchetSession(senderJid);
+      let current = stored ? this.openSession(stored.current) : null;
+      let previous = stored?.previous ? this.openSession(stored.previous) : null;
+
+      // Sessions established with an older identity key of this contact are useless
+      if (current && current.remoteIdentityKey !== remoteKey) current = null;
+      if (previous && previous.remoteIdentityKey !== remoteKey) previous = null;
+
+      const ek = message.header.ek;
+      const isNewHandshake = !!ek
+        && current?.handshakeKey !== ek
+        && previous?.handshakeKey !== ek;
+
+      // Rows from before v40 have no list yet: start from the live sessions
+      const seenHandshakes = this.openHandshakes(stored?.seenHandshakes)
+        ?? [current, previous].filter((s): s is RatchetSession => s !== null && !s.initiator)
+          .map(s => s.handshakeKey);
+
+      let plaintext: Uint8Array;
+
+      if (isNewHandshake) {
+        // The first message of an older session would otherwise replace the live one
+        if (seenHandshakes.includes(ek)) {
+          throw new Error('Replayed ratchet handshake');
+        }
+
+        const incoming = acceptSession(this.publicKey!, this.privateKey!, senderPk, message.header);
+        plaintext = ratchetDecrypt(incoming, message);
+        seenHandshakes.push(ek);
+
+        // Both sides initiated at once: the session started by the lower JID wins.
+        // The losing session is kept as 'previous' so in-flight messages still decrypt.
+        const keepOurs = current !== null
+          && current.initiator
+          && !current.confirmed
+          && myJid < senderJid;
+        if (keepOurs) {
+          previous = incoming;
+        } else {
+          previous = current;
+          current = incoming;
+        }
+      } else {
+        const candidates = [current, previous].filter((s): s is RatchetSession => s !== null);
+        let opened: Uint8Array | null = null;
+        for (const session of candidates) {
+          try {
+            opened = ratchetDecrypt(session, message);
+            break;
+          } catch {
+            // Try the next session
+          }
+        }
+        if (!opened) {
+          throw new Error('No ratchet session could decrypt message');
+        }
+        plaintext = opened;
+      }
+
+      await store.saveRatchetSession(senderJid, {
+        current: this.sealSession(current!),
+        previous: previous ? this.sealSession(previous) : undefined,
+        seenHandshakes: this.sealHandshakes(seenHandshakes),
+      });
+
+      return to_string(plaintext);
+    });
+  }
+
+  // ============================================================
+  // Private — Ratchet session storage
+  // ============================================================
+
+  /** Sealing key derived from the identity private key — never stored */
+  private deriveSessionStoreKey(context: string): Uint8Array {
+    return crypto_generichash(32, from_string(context), this.privateKey);
+  }
+
+  private sealState(serialized: string, context: string): string {
+    const key = this.deriveSessionStoreKey(context);
+    try {
+      const nonce = randombytes_buf(crypto_secretbox_NONCEBYTES);
+      const sealed = crypto_secretbox_easy(from_string(serialized), nonce, key);
+      const out = new Uint8Array(nonce.length + sealed.length);
+      out.set(nonce, 0);
+      out.set(sealed, nonce.length);
+      return to_base64(out, base64_variants.ORIGINAL);
+    } finally {
+      memzero(key);
+    }
+  }
+
+  private openState(sealed: string, context: string): string | null {
+    const key = this.deriveSessionStoreKey(context);
+    try {
+      const raw = from_base64(sealed, base64_variants.ORIGINAL);
+      const nonce = raw.slice(0, crypto_secretbox_NONCEBYTES);
+      const box = raw.slice(crypto_secretbox_NONCEBYTES);
+      return to_string(crypto_secretbox_open_easy(box, nonce, key));
+    } catch {
+      // Sealed with a previous identity key (restore/re-key) — start over
+      return null;
+    } finally {
+      memzero(key);
+    }
+  }
+
+  private sealSession(session: RatchetSession): string {
+    return this.sealState(serializeSession(session), SESSION_STORE_CONTEXT);
+  }
+
+  private openSession(sealed: string): RatchetSession | null {
+    const raw = this.openState(sealed, SESSION_STORE_CONTEXT);
+    try {
+      return raw ? deserializeSession(raw) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /** Keeps the newest MAX_SEEN_HANDSHAKES keys; a contact starts few sessions */
+  private sealHandshakes(handshakeKeys: string[]): string {
+    return this.sealState(JSON.stringify(handshakeKeys.slice(-MAX_SEEN_HANDSHAKES)), HANDSHAKE_STORE_CONTEXT);
+  }
+
+  private openHandshakes(sealed: string | undefined): string[] | null {
+    const raw = sealed ? this.openState(sealed, HANDSHAKE_STORE_CONTEXT) : null;
+    try {
+      return raw ? (JSON.parse(raw) as string[]) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private sealSenderKey(state: SenderKeyState): string {
+    return this.sealState(serializeSenderKey(state), SENDER_KEY_STORE_CONTEXT);
+  }
+
+  private openSenderKey(sealed: string | undefined): SenderKeyState | null {
+    const raw = sealed ? this.openState(sealed, SENDER_KEY_STORE_CONTEXT) : null;
+    try {
+      return raw ? deserializeSenderKey(raw) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async withSessionLock<T>(contactJid: string, task: () => Promise<T>): Promise<T> {
+    const previousTask = this.sessionLocks.get(contactJid) ?? Promise.resolve();
+    const run = previousTask.catch(() => undefined).then(task);
+    this.sessionLocks.set(contactJid, run);
+    try {
+      return await run;
+    } finally {
+      if (this.sessionLocks.get(contactJid) === run) {
+        this.sessionLocks.delete(contactJid);
+      }
+    }
+  }
+
+  private getSessionStore(): RatchetSessionStore & SenderKeyStore {
+    if (!this.sessionStore) {
+      throw new Error('Ratchet session store not set');
+    }
+    return this.sessionStore;
+  }
+
   // ============================================================
   // Private — Helpers
   // ============================================================
@@ -500,3 +1046,8 @@ export class SodiumEncryptionService implements EncryptionService {
     }
   }
 }
+
+/** Lock key for one member's sender key — never collides with a contact JID */
+function senderKeyLockId(groupId: string, senderJid: string): string {
+  return `sender-key:${groupId}:${senderJid}`;
+}
@@ -0,0 +1,455 @@
+/**
+ * EPUB Parser — Container, OPF spine, table of contents and clean XHTML
+ *
+ * Steps:
+ * 1. META-INF/container.xml points to the OPF package document
+ * 2. The OPF manifest + spine give the reading order
+ * 3. The EPUB 3 nav document (or EPUB 2 NCX) gives chapter titles and
+ *    where each chapter starts (file + #fragment)
+ * 4. Every spine document is flattened into blocks (paragraphs, headings,
+ *    lists…) that are sanitized to a small set of safe tags, with a
+ *    plain-text version for TTS
+ *
+ * Pure functions — file access and image extraction live in
+ * booksStorageService.
+ *
+ * @see services/booksStorageService.ts
+ */
+
+import type { ZipArchive } from './zip';
+import { decodeUtf8 } from './zip';
+import type { XmlElement, XmlNode } from './xml';
+import { parseXml, findAll, findFirst, isElement, textContent } from './xml';
+
+// ============================================================
+// Types
+// ============================================================
+
+/** One paragraph-level piece of content */
+export interface EpubBlock {
+  /** Sanitized XHTML */
+  html: string;
+  /** Clean text for TTS */
+  text: string;
+}
+
+export interface EpubChapter {
+  title: string;
+  blocks: EpubBlock[];
+}
+
+export interface EpubBook {
+  title: string | null;
+  language: string | null;
+  chapters: EpubChapter[];
+}
+
+export interface EpubTocEntry {
+  title: string;
+  /** Archive path of the document */
+  path: string;
+  /** Element id inside the document, if any */
+  fragment: string | null;
+}
+
+/**
+ * Maps an image's archive path to the URI used in the sanitized HTML.
+ * Return null to leave the image out.
+ */
+export type EpubImageResolver = (archivePath: string) => string | null;
+
+interface ParsedBlock extends EpubBlock {
+  /** Element ids inside this block, used to find TOC fragments */
+  ids: string[];
+}
+
+interface SpineDocument {
+  path: string;
+  blocks: ParsedBlock[];
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+const CONTAINER_PATH = 'META-INF/container.xml';
+const XHTML_TYPES = new Set(['application/xhtml+xml', 'text/html']);
+const NCX_TYPE = 'application/x-dtbncx+xml';
+
+/** Removed together with their content */
+const DROPPED_TAGS = new Set([
+  'head', 'script', 'style', 'title', 'svg', 'math', 'iframe', 'object', 'embed',
+  'form', 'input', 'button', 'select', 'textarea', 'audio', 'video', 'canvas', 'template',
+]);
+
+/** Kept as-is (without attributes) */
+const ALLOWED_TAGS = new Set([
+  'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'ul', 'ol', 'li',
+  'em', 'i', 'strong', 'b', 'u', 'sup', 'sub', 'small', 'pre', 'hr', 'br',
+]);
+
+/** Rendered as paragraphs when they only hold inline content */
+const BLOCK_CONTAINERS = new Set([
+  'body', 'div', 'section', 'article', 'main', 'header', 'footer', 'aside', 'nav', 'figure', 'table', 'tbody', 'thead',
+]);
+
+/** Elements that start a new line in the TTS text */
+const BLOCK_TAGS = new Set([
+  ...BLOCK_CONTAINERS, 'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'ul', 'ol', 'li', 'pre', 'hr', 'tr', 'figcaption',
+]);
+
+const HEADING_TAGS = ['h1', 'h2', 'h3'];
+
+// ============================================================
+// Paths
+// ============================================================
+
+function directoryOf(path: string): string {
+  const slash = path.lastIndexOf('/');
+  return slash === -1 ? '' : path.slice(0, slash + 1);
+}
+
+/**
+ * Resolve an href relative to the document it appears in.
+ * Returns the archive path and the #fragment (if any).
+ */
+export function resolveHref(basePath: string, href: string): { path: string; fragment: string | null } {
+  const hash = href.indexOf('#');
+  const fragment = hash === -1 ? null : href.slice(hash + 1) || null;
+  let target = hash === -1 ? href : href.slice(0, hash);
+  try {
+    target = decodeURIComponent(target);
+  } catch {
+    // Keep the raw href when it is not valid percent-encoding
+  }
+  if (!target) return { path: basePath, fragment };
+
+  const parts: string[] = [];
+  for (const part of (directoryOf(basePath) + target).split('/')) {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  }
+  return { path: parts.join('/'), fragment };
+}
+
+// ============================================================
+// Sanitizing
+// ============================================================
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ');
+}
+
+/** Gutenberg page numbers and EPUB page-break markers are not part of the story */
+function isPageMarker(element: XmlElement): boolean {
+  const type = element.attributes['epub:type'] ?? '';
+  const className = element.attributes.class ?? '';
+  return type.includes('pagebreak') || /\bpagenum\b/.test(className);
+}
+
+function hasBlockChild(element: XmlElement): boolean {
+  return element.children.some(child => isElement(child) && BLOCK_TAGS.has(child.name));
+}
+
+function collectIds(element: XmlElement, ids: string[]): void {
+  if (element.attributes.id) ids.push(element.attributes.id);
+  for (const child of element.children) {
+    if (isElement(child)) collectIds(child, ids);
+  }
+}
+
+interface SanitizeContext {
+  documentPath: string;
+  resolveImage: EpubImageResolver;
+}
+
+function sanitizeNode(node: XmlNode, ctx: SanitizeContext): { html: string; text: string } {
+  if (!isElement(node)) {
+    const text = collapseWhitespace(node);
+    return { html: escapeHtml(text), text };
+  }
+  if (DROPPED_TAGS.has(node.name) || isPageMarker(node)) {
+    return { html: '', text: '' };
+  }
+  if (node.name === 'br') {
+    return { html: '<br/>', text: '\n' };
+  }
+  if (node.name === 'hr') {
+    return { html: '<hr/>', text: '\n' };
+  }
+  if (node.name === 'img' || node.name === 'image') {
+    const src = node.attributes.src ?? node.attributes['xlink:href'] ?? node.attributes.href;
+    const uri = src ? ctx.resolveImage(resolveHref(ctx.documentPath, src).path) : null;
+    if (!uri) return { html: '', text: '' };
+    const alt = node.attributes.alt ? ` alt="${escapeHtml(node.attributes.alt)}"` : '';
+    return { html: `<img src="${escapeHtml(uri)}"${alt}/>`, text: '' };
+  }
+
+  const inner = node.children.map(child => sanitizeNode(child, ctx));
+  const innerHtml = inner.map(part => part.html).join('');
+  let text = inner.map(part => part.text).join('');
+  if (BLOCK_TAGS.has(node.name)) text = `\n${text}\n`;
+  else if (node.name === 'td' || node.name === 'th') text = `${text} `;
+
+  let tag: string | null = null;
+  if (ALLOWED_TAGS.has(node.name)) tag = node.name;
+  else if (BLOCK_CONTAINERS.has(node.name) || node.name === 'tr' || node.name === 'figcaption') tag = 'p';
+
+  const html = tag ? `<${tag}>${innerHtml}</${tag}>` : innerHtml;
+  return { html, text };
+}
+
+/**
+ * Tidy TTS text: trim every line and drop empty lines.
+ */
+function cleanText(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Split a document body into paragraph-level blocks.
+ * Containers with block children (sections, divs) are opened up so a
+ * chapter can start at any heading inside them.
+ */
+function collectBlocks(element: XmlElement, ctx: SanitizeContext, blocks: ParsedBlock[]): void {
+  let looseText = '';
+  const flushLooseText = () => {
+    const text = collapseWhitespace(looseText).trim();
+    if (text) blocks.push({ html: `<p>${escapeHtml(text)}</p>`, text, ids: [] });
+    looseText = '';
+  };
+
+  for (const child of element.children) {
+    if (!isElement(child)) {
+      looseText += child;
+      continue;
+    }
+    flushLooseText();
+    if (DROPPED_TAGS.has(child.name) || isPageMarker(child)) continue;
+
+    if (BLOCK_CONTAINERS.has(child.name) && hasBlockChild(child)) {
+      const before = blocks.length;
+      collectBlocks(child, ctx, blocks);
+      // Keep ids on the container (e.g. <section id="chapter-2">) reachable
+      if (child.attributes.id && blocks.length > before) blocks[before].ids.push(child.attributes.id);
+      continue;
+    }
+
+    const { html, text } = sanitizeNode(child, ctx);
+    const ids: string[] = [];
+    collectIds(child, ids);
+    const clean = cleanText(text);
+    if (clean || html.includes('<img')) {
+      const wrapped = BLOCK_TAGS.has(child.name) || child.name === 'img' ? html : `<p>${html}</p>`;
+      blocks.push({ html: wrapped, text: clean, ids });
+    } else if (ids.length > 0) {
+      // Empty anchors (<a id="chap1"/>) mark where the next block starts
+      blocks.push({ html: '', text: '', ids });
+    }
+  }
+  flushLooseText();
+}
+
+// ============================================================
+// Package Document
+// ============================================================
+
+function readText(zip: ZipArchive, path: string): string | null {
+  const bytes = zip.read(path);
+  return bytes ? decodeUtf8(bytes) : null;
+}
+
+function readXml(zip: ZipArchive, path: string): XmlElement | null {
+  const text = readText(zip, path);
+  return text === null ? null : parseXml(text);
+}
+
+function normalizeTitle(text: string): string {
+  return collapseWhitespace(text).trim();
+}
+
+/**
+ * EPUB 3: the <nav epub:type="toc"> list in the navigation document.
+ */
+function readNavToc(zip: ZipArchive, navPath: string): EpubTocEntry[] {
+  const nav = readXml(zip, navPath);
+  if (!nav) return [];
+
+  const navElements = findAll(nav, 'nav');
+  const tocNav = navElements.find(el => (el.attributes['epub:type'] ?? '').split(/\s+/).includes('toc'))
+    ?? navElements[0];
+  if (!tocNav) return [];
+
+  return findAll(tocNav, 'a')
+    .filter(a => a.attributes.href)
+    .map(a => ({ title: normalizeTitle(textContent(a)), ...resolveHref(navPath, a.attributes.href) }));
+}
+
+/**
+ * EPUB 2: navPoints in the NCX file, in reading order.
+ */
+function readNcxToc(zip: ZipArchive, ncxPath: string): EpubTocEntry[] {
+  const ncx = readXml(zip, ncxPath);
+  if (!ncx) return [];
+
+  const entries: EpubTocEntry[] = [];
+  for (const point of findAll(ncx, 'navpoint')) {
+    const directChildren = point.children.filter(isElement);
+    const label = directChildren.find(child => child.name === 'navlabel');
+    const content = directChildren.find(child => child.name === 'content');
+    if (!content?.attributes.src) continue;
+    entries.push({
+      title: normalizeTitle(label ? textContent(label) : ''),
+      ...resolveHref(ncxPath, content.attributes.src),
+    });
+  }
+  return entries;
+}
+
+function firstHeading(blocks: ParsedBlock[]): string | null {
+  for (const block of blocks) {
+    if (HEADING_TAGS.some(tag => block.html.startsWith(`<${tag}>`)) && block.text) {
+      return block.text.split('\n')[0];
+    }
+  }
+  return null;
+}
+
+// ============================================================
+// Public API
+// ============================================================
+
+/**
+ * Parse an EPUB archive into chapters of sanitized blocks.
+ * Throws EPUB_INVALID when the package can't be found or has no readable content.
+ */
+export function parseEpub(zip: ZipArchive, resolveImage: EpubImageResolver): EpubBook {
+  const container = readXml(zip, CONTAINER_PATH);
+  const opfPath = container ? findFirst(container, 'rootfile')?.attributes['full-path'] : undefined;
+  const opf = opfPath ? readXml(zip, opfPath) : null;
+  if (!opfPath || !opf) {
+    throw new Error('EPUB_INVALID');
+  }
+
+  const metadata = findFirst(opf, 'metadata');
+  const titleElement = metadata ? findFirst(metadata, 'title') : null;
+  const languageElement = metadata ? findFirst(metadata, 'language') : null;
+  const bookTitle = titleElement ? normalizeTitle(textContent(titleElement)) : null;
+
+  // Manifest: id → item
+  const manifest = new Map<string, { path: string; mediaType: string; properties: string }>();
+  const manifestElement = findFirst(opf, 'manifest');
+  for (const item of manifestElement ? findAll(manifestElement, 'item') : []) {
+    if (!item.attributes.id || !item.attributes.href) continue;
+    manifest.set(item.attributes.id, {
+      path: resolveHref(opfPath, item.attributes.href).path,
+      mediaType: item.attributes['media-type'] ?? '',
+      properties: item.attributes.properties ?? '',
+    });
+  }
+
+  // Spine: reading order of content documents
+  const spine = findFirst(opf, 'spine');
+  const documents: SpineDocument[] = [];
+  for (const itemref of spine ? findAll(spine, 'itemref') : []) {
+    if (itemref.attributes.linear === 'no') continue;
+    const item = manifest.get(itemref.attributes.idref ?? '');
+    if (!item || !XHTML_TYPES.has(item.mediaType)) continue;
+
+    const doc = readXml(zip, item.path);
+    if (!doc) continue;
+    const blocks: ParsedBlock[] = [];
+    collectBlocks(findFirst(doc, 'body') ?? doc, { documentPath: item.path, resolveImage }, blocks);
+    documents.push({ path: item.path, blocks });
+  }
+
+  // Table of contents: EPUB 3 nav first, EPUB 2 NCX as fallback
+  const items = [...manifest.values()];
+  const navItem = items.find(item => item.properties.split(/\s+/).includes('nav'));
+  const ncxItem = manifest.get(spine?.attributes.toc ?? '') ?? items.find(item => item.mediaType === NCX_TYPE);
+  let toc = navItem ? readNavToc(zip, navItem.path) : [];
+  if (toc.length === 0 && ncxItem) toc = readNcxToc(zip, ncxItem.path);
+
+  const chapters = buildChapters(documents, toc, bookTitle ?? '');
+  if (chapters.length === 0) {
+    throw new Error('EPUB_INVALID');
+  }
+
+  return {
+    title: bookTitle,
+    language: languageElement ? normalizeTitle(textContent(languageElement)) : null,
+    chapters,
+  };
+}
+
+/**
+ * Cut the documents into chapters where TOC entries point.
+ * Without a usable TOC every spine document is one chapter.
+ */
+function buildChapters(documents: SpineDocument[], toc: EpubTocEntry[], fallbackTitle: string): EpubChapter[] {
+  const starts: { doc: number; block: number; title: string }[] = [];
+  for (const entry of toc) {
+    const doc = documents.findIndex(d => d.path === entry.path);
+    if (doc === -1) continue;
+    const block = entry.fragment
+      ? documents[doc].blocks.findIndex(b => b.ids.includes(entry.fragment as string))
+      : 0;
+    if (block === -1) continue;
+    starts.push({ doc, block, title: entry.title });
+  }
+  starts.sort((a, b) => a.doc - b.doc || a.block - b.block);
+
+  // Nested TOC entries often point at the same spot; keep the outer one
+  const uniqueStarts = starts.filter((start, i) =>
+    i === 0 || start.doc !== starts[i - 1].doc || start.block !== starts[i - 1].block,
+  );
+  if (uniqueStarts.length === 0) {
+    documents.forEach((_, doc) => uniqueStarts.push({ doc, block: 0, title: '' }));
+  }
+
+  const chapters: EpubChapter[] = [];
+  const addChapter = (title: string, blocks: ParsedBlock[]) => {
+    const content = blocks.filter(block => block.html);
+    if (content.length === 0) return;
+    chapters.push({
+      title: title || firstHeading(content) || fallbackTitle,
+      blocks: content.map(({ html, text }) => ({ html, text })),
+    });
+  };
+
+  // Content before the first TOC entry (title page, preface)
+  const first = uniqueStarts[0];
+  addChapter('', [
+    ...documents.slice(0, first.doc).flatMap(d => d.blocks),
+    ...documents[first.doc].blocks.slice(0, first.block),
+  ]);
+
+  uniqueStarts.forEach((start, i) => {
+    const next = uniqueStarts[i + 1];
+    const endDoc = next ? next.doc : documents.length - 1;
+    const blocks: ParsedBlock[] = [];
+    for (let doc = start.doc; doc <= endDoc; doc++) {
+      const from = doc === start.doc ? start.block : 0;
+      const to = next && doc === next.doc ? next.block : documents[doc].blocks.length;
+      blocks.push(...documents[doc].blocks.slice(from, to));
+    }
+    addChapter(start.title, blocks);
+  });
+
+  return chapters;
+}
+
+/**
+ * Plain text of a chapter, paragraphs separated by blank lines.
+ */
+export function chapterText(chapter: EpubChapter): string {
+  return chapter.blocks.map(block => block.text).filter(Boolean).join('\n\n');
+}
@@ -0,0 +1,19 @@
+/**
+ * EPUB Services — Central export for reading EPUB books
+ *
+ * Import from '@/services/epub' for consistency.
+ */
+
+// ZIP container
+export { openZip, inflateRaw, decodeUtf8 } from './zip';
+export type { ZipArchive, ZipEntry } from './zip';
+
+// EPUB package, table of contents and sanitized content
+export { parseEpub, resolveHref, chapterText } from './epubParser';
+export type {
+  EpubBook,
+  EpubChapter,
+  EpubBlock,
+  EpubTocEntry,
+  EpubImageResolver,
+} from './epubParser';
@@ -0,0 +1,213 @@
+/**
+ * Forgiving XML/XHTML parser for EPUB documents
+ *
+ * EPUB content is meant to be well-formed XHTML, but Gutenberg and older
+ * converters regularly ship unclosed tags and HTML entities. This parser
+ * never throws: it builds the best tree it can.
+ *
+ * Element names keep their namespace prefix stripped and are lowercased
+ * ("dc:title" → "title", "opf:package" → "package"). Attribute names keep
+ * their prefix ("epub:type").
+ */
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+// ============================================================
+// Constants
+// ============================================================
+
+/** HTML void elements that never have a closing tag */
+const VOID_ELEMENTS = new Set(['br', 'hr', 'img', 'meta', 'link', 'input', 'col', 'area', 'base', 'wbr', 'source']);
+
+/** Named entities seen in EPUB files besides the five XML ones */
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+  shy: '\u00ad',
+  mdash: '—',
+  ndash: '–',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  laquo: '«',
+  raquo: '»',
+  bdquo: '„',
+  sbquo: '‚',
+  copy: '©',
+  eacute: 'é',
+  egrave: 'è',
+  euml: 'ë',
+  iuml: 'ï',
+  ouml: 'ö',
+  uuml: 'ü',
+  auml: 'ä',
+  Auml: 'Ä',
+  Ouml: 'Ö',
+  Uuml: 'Ü',
+  szlig: 'ß',
+};
+
+// ============================================================
+// Parsing
+// ============================================================
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match;
+    }
+    return NAMED_ENTITIES[entity] ?? match;
+  });
+}
+
+function localName(qualifiedName: string): string {
+  const colon = qualifiedName.indexOf(':');
+  return (colon === -1 ? qualifiedName : qualifiedName.slice(colon + 1)).toLowerCase();
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=/]+)\s*(?:=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+  let match;
+  while ((match = pattern.exec(source)) !== null) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+/**
+ * Parse a document into a root element named "#document".
+ */
+export function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  let pos = 0;
+
+  const appendText = (text: string) => {
+    if (text) stack[stack.length - 1].children.push(text);
+  };
+
+  while (pos < source.length) {
+    const lt = source.indexOf('<', pos);
+    if (lt === -1) {
+      appendText(decodeEntities(source.slice(pos)));
+      break;
+    }
+    appendText(decodeEntities(source.slice(pos, lt)));
+
+    if (source.startsWith('<!--', lt)) {
+      const end = source.indexOf('-->', lt + 4);
+      pos = end === -1 ? source.length : end + 3;
+      continue;
+    }
+    if (source.startsWith('<![CDATA[', lt)) {
+      const end = source.indexOf(']]>', lt + 9);
+      appendText(source.slice(lt + 9, end === -1 ? source.length : end));
+      pos = end === -1 ? source.length : end + 3;
+      continue;
+    }
+    if (source[lt + 1] === '?' || source[lt + 1] === '!') {
+      // Processing instruction or DOCTYPE (including an internal subset)
+      const bracket = source.indexOf('[', lt);
+      const close = source.indexOf('>', lt);
+      const end = bracket !== -1 && bracket < close ? source.indexOf(']>', bracket) + 1 : close;
+      pos = end <= 0 ? source.length : end + 1;
+      continue;
+    }
+
+    const gt = source.indexOf('>', lt);
+    if (gt === -1) {
+      appendText(source.slice(lt));
+      break;
+    }
+    const tag = source.slice(lt + 1, gt);
+    pos = gt + 1;
+
+    if (tag[0] === '/') {
+      const name = localName(tag.slice(1).trim());
+      // Close up to the matching element; ignore stray closing tags
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i].name === name) {
+          stack.length = i;
+          break;
+        }
+      }
+      continue;
+    }
+
+    const selfClosing = tag.endsWith('/');
+    const body = selfClosing ? tag.slice(0, -1) : tag;
+    const nameMatch = /^\s*([^\s/>]+)/.exec(body);
+    if (!nameMatch) {
+      appendText(`<${tag}>`);
+      continue;
+    }
+
+    const element: XmlElement = {
+      name: localName(nameMatch[1]),
+      attributes: parseAttributes(body.slice(nameMatch[0].length)),
+      children: [],
+    };
+    stack[stack.length - 1].children.push(element);
+    if (!selfClosing && !VOID_ELEMENTS.has(element.name)) {
+      stack.push(element);
+    }
+  }
+
+  return root;
+}
+
+// ============================================================
+// Queries
+// ============================================================
+
+export function isElement(node: XmlNode): node is XmlElement {
+  return typeof node !== 'string';
+}
+
+/**
+ * Depth-first search for all elements with a (local) name.
+ */
+export function findAll(root: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = [];
+  const walk = (element: XmlElement) => {
+    for (const child of element.children) {
+      if (!isElement(child)) continue;
+      if (child.name === name) found.push(child);
+      walk(child);
+    }
+  };
+  walk(root);
+  return found;
+}
+
+export function findFirst(root: XmlElement, name: string): XmlElement | null {
+  return findAll(root, name)[0] ?? null;
+}
+
+/**
+ * Concatenated text of an element and its descendants.
+ */
+export function textContent(node: XmlNode): string {
+  if (!isElement(node)) return node;
+  return node.children.map(textContent).join('');
+}
@@ -0,0 +1,328 @@
+/**
+ * Minimal ZIP reader for EPUB containers
+ *
+ * EPUB files are ZIP archives. React Native has no zlib, so this reads the
+ * central directory and inflates DEFLATE entries (RFC 1951) in plain JS.
+ *
+ * Supported: stored (0) and deflated (8) entries.
+ * Not supported: ZIP64, encryption, multi-disk archives — EPUBs never need them.
+ */
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface ZipEntry {
+  /** Path inside the archive, e.g. "OEBPS/chapter1.xhtml" */
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+export interface ZipArchive {
+  entries: Map<string, ZipEntry>;
+  /** Read and decompress one entry. Returns null when the entry doesn't exist. */
+  read(name: string): Uint8Array | null;
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const EOCD_MIN_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+// ============================================================
+// Archive
+// ============================================================
+
+function readUint16(data: Uint8Array, offset: number): number {
+  return data[offset] | (data[offset + 1] << 8);
+}
+
+function readUint32(data: Uint8Array, offset: number): number {
+  return (data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16) | (data[offset + 3] << 24)) >>> 0;
+}
+
+/**
+ * Decode UTF-8 bytes (TextDecoder is not available in React Native).
+ */
+export function decodeUtf8(bytes: Uint8Array): string {
+  let result = '';
+  let i = 0;
+  // Skip byte order mark
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) i = 3;
+
+  while (i < bytes.length) {
+    const byte = bytes[i++];
+    let codePoint: number;
+    if (byte < 0x80) {
+      codePoint = byte;
+    } else if (byte >= 0xc0 && byte < 0xe0) {
+      codePoint = ((byte & 0x1f) << 6) | (bytes[i++] & 0x3f);
+    } else if (byte >= 0xe0 && byte < 0xf0) {
+      codePoint = ((byte & 0x0f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+    } else if (byte >= 0xf0) {
+      codePoint = ((byte & 0x07) << 18) | ((bytes[i++] & 0x3f) << 12)
+        | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+    } else {
+      codePoint = 0xfffd; // Stray continuation byte
+    }
+    result += String.fromCodePoint(codePoint);
+  }
+  return result;
+}
+
+/**
+ * Open a ZIP archive held in memory.
+ * Throws when the data is not a readable ZIP file.
+ */
+export function openZip(data: Uint8Array): ZipArchive {
+  // The end-of-central-directory record sits at the end, before an optional comment
+  let eocd = -1;
+  const searchStart = Math.max(0, data.length - EOCD_MIN_SIZE - MAX_COMMENT_SIZE);
+  for (let i = data.length - EOCD_MIN_SIZE; i >= searchStart; i--) {
+    if (readUint32(data, i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('ZIP_INVALID');
+  }
+
+  const entryCount = readUint16(data, eocd + 10);
+  let offset = readUint32(data, eocd + 16);
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (readUint32(data, offset) !== CENTRAL_SIGNATURE) {
+      throw new Error('ZIP_INVALID');
+    }
+    const nameLength = readUint16(data, offset + 28);
+    const extraLength = readUint16(data, offset + 30);
+    const commentLength = readUint16(data, offset + 32);
+    const name = decodeUtf8(data.subarray(offset + 46, offset + 46 + nameLength));
+
+    entries.set(name, {
+      name,
+      method: readUint16(data, offset + 10),
+      compressedSize: readUint32(data, offset + 20),
+      size: readUint32(data, offset + 24),
+      localHeaderOffset: readUint32(data, offset + 42),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  const read = (name: string): Uint8Array | null => {
+    const entry = entries.get(name);
+    if (!entry) return null;
+
+    const header = entry.localHeaderOffset;
+    if (readUint32(data, header) !== LOCAL_SIGNATURE) {
+      throw new Error('ZIP_INVALID');
+    }
+    // Local name/extra lengths can differ from the central directory
+    const start = header + 30 + readUint16(data, header + 26) + readUint16(data, header + 28);
+    const raw = data.subarray(start, start + entry.compressedSize);
+
+    if (entry.method === METHOD_STORED) return raw;
+    if (entry.method === METHOD_DEFLATE) return inflateRaw(raw, entry.size);
+    throw new Error('ZIP_UNSUPPORTED_METHOD');
+  };
+
+  return { entries, read };
+}
+
+// ============================================================
+// Inflate (RFC 1951)
+// ============================================================
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+/** Canonical Huffman table: symbol count per bit length + symbols sorted by code */
+interface Huffman {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+function buildHuffman(lengths: ArrayLike<number>): Huffman {
+  const counts = new Uint16Array(16);
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++;
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(16);
+  for (let len = 1; len < 16; len++) offsets[len] = offsets[len - 1] + counts[len - 1];
+
+  const symbols = new Uint16Array(lengths.length);
+  for (let i = 0; i < lengths.length; i++) {
+    if (lengths[i]) symbols[offsets[lengths[i]]++] = i;
+  }
+  return { counts, symbols };
+}
+
+const FIXED_LITERALS = buildHuffman(
+  Array.from({ length: 288 }, (_, i) => {
+    if (i < 144) return 8;
+    if (i < 256) return 9;
+    if (i < 280) return 7;
+    return 8;
+  }),
+);
+const FIXED_DISTANCES = buildHuffman(new Array<number>(30).fill(5));
+
+/**
+ * Inflate a raw DEFLATE stream (no zlib/gzip header).
+ *
+ * @param input - Compressed bytes
+ * @param expectedSize - Uncompressed size from the ZIP directory (used to size the buffer)
+ */
+export function inflateRaw(input: Uint8Array, expectedSize = 0): Uint8Array {
+  let output = new Uint8Array(Math.max(expectedSize, input.length * 4, 1024));
+  let outPos = 0;
+  let inPos = 0;
+  let bitBuffer = 0;
+  let bitCountInBuffer = 0;
+
+  const ensure = (extra: number) => {
+    if (outPos + extra <= output.length) return;
+    const grown = new Uint8Array(Math.max(output.length * 2, outPos + extra));
+    grown.set(output);
+    output = grown;
+  };
+
+  const bits = (count: number): number => {
+    while (bitCountInBuffer < count) {
+      if (inPos >= input.length) throw new Error('INFLATE_TRUNCATED');
+      bitBuffer |= input[inPos++] << bitCountInBuffer;
+      bitCountInBuffer += 8;
+    }
+    const value = bitBuffer & ((1 << count) - 1);
+    bitBuffer >>>= count;
+    bitCountInBuffer -= count;
+    return value;
+  };
+
+  const decode = (table: Huffman): number => {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let len = 1; len < 16; len++) {
+      code |= bits(1);
+      const count = table.counts[len];
+      if (code - first < count) return table.symbols[index + code - first];
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error('INFLATE_INVALID_CODE');
+  };
+
+  const inflateBlock = (literals: Huffman, distances: Huffman) => {
+    for (;;) {
+      const symbol = decode(literals);
+      if (symbol < 256) {
+        ensure(1);
+        output[outPos++] = symbol;
+      } else if (symbol === 256) {
+        return;
+      } else {
+        const lengthIndex = symbol - 257;
+        if (lengthIndex >= LENGTH_BASE.length) throw new Error('INFLATE_INVALID_CODE');
+        const length = LENGTH_BASE[lengthIndex] + bits(LENGTH_EXTRA[lengthIndex]);
+        const distIndex = decode(distances);
+        if (distIndex >= DIST_BASE.length) throw new Error('INFLATE_INVALID_CODE');
+        const distance = DIST_BASE[distIndex] + bits(DIST_EXTRA[distIndex]);
+        if (distance > outPos) throw new Error('INFLATE_INVALID_DISTANCE');
+
+        ensure(length);
+        // Byte by byte: the copy may overlap the bytes it produces
+        for (let i = 0; i < length; i++) {
+          output[outPos] = output[outPos - distance];
+          outPos++;
+        }
+      }
+    }
+  };
+
+  const readDynamicTables = (): [Huffman, Huffman] => {
+    const literalCount = bits(5) + 257;
+    const distanceCount = bits(5) + 1;
+    const codeLengthCount = bits(4) + 4;
+
+    const codeLengthLengths = new Uint8Array(19);
+    for (let i = 0; i < codeLengthCount; i++) {
+      codeLengthLengths[CODE_LENGTH_ORDER[i]] = bits(3);
+    }
+    const codeLengthTable = buildHuffman(codeLengthLengths);
+
+    const lengths = new Uint8Array(literalCount + distanceCount);
+    let i = 0;
+    while (i < lengths.length) {
+      const symbol = decode(codeLengthTable);
+      if (symbol < 16) {
+        lengths[i++] = symbol;
+        continue;
+      }
+      let repeat: number;
+      let value = 0;
+      if (symbol === 16) {
+        if (i === 0) throw new Error('INFLATE_INVALID_CODE');
+        value = lengths[i - 1];
+        repeat = 3 + bits(2);
+      } else if (symbol === 17) {
+        repeat = 3 + bits(3);
+      } else {
+        repeat = 11 + bits(7);
+      }
+      if (i + repeat > lengths.length) throw new Error('INFLATE_INVALID_CODE');
+      lengths.fill(value, i, i + repeat);
+      i += repeat;
+    }
+
+    return [
+      buildHuffman(lengths.subarray(0, literalCount)),
+      buildHuffman(lengths.subarray(literalCount)),
+    ];
+  };
+
+  let isFinal = false;
+  while (!isFinal) {
+    isFinal = bits(1) === 1;
+    const type = bits(2);
+
+    if (type === 0) {
+      // Stored block: skip to byte boundary, then LEN/NLEN
+      bitBuffer = 0;
+      bitCountInBuffer = 0;
+      const length = readUint16(input, inPos);
+      inPos += 4;
+      if (inPos + length > input.length) throw new Error('INFLATE_TRUNCATED');
+      ensure(length);
+      output.set(input.subarray(inPos, inPos + length), outPos);
+      outPos += length;
+      inPos += length;
+    } else if (type === 1) {
+      inflateBlock(FIXED_LITERALS, FIXED_DISTANCES);
+    } else if (type === 2) {
+      const [literals, distances] = readDynamicTables();
+      inflateBlock(literals, distances);
+    } else {
+      throw new Error('INFLATE_INVALID_BLOCK');
+    }
+  }
+
+  return output.subarray(0, outPos);
+}
@@ -1,23 +1,38 @@
 /**
  * GroupChatService — Group Chat Business Logic
  *
- * Combines XMPP MUC, Encryption (dual-path), and Database services to handle:
+ * Combines XMPP MUC, Encryption (sender keys), and Database services to handle:
  * - Creating groups
  * - Sending encrypted group messages
  * - Receiving and decrypting group messages
  * - Managing group members
  * - Offline sync (7-day outbox)
+ * - Edit, delete for everyone and reactions (services/messageActions.ts)
+ * - Voice messages (uploaded once as an encrypted file, services/media/mediaTransfer.ts;
+ *   the pointer is encrypted once for the group, received ones are downloaded by ChatService)
  *
- * Dual-path encryption:
- * - ≤8 members: encrypt-to-all (individual crypto_box per recipient)
- * - >8 members: shared-key (AES secretbox + key wrapping)
+ * Sender-key encryption:
+ * - Each member distributes its sender key once per member, over the
+ *   1-on-1 ratchet channel (urn:commeazy:senderkey:1)
+ * - Each message is encrypted once, whatever the group size
+ * - Removing a member (or leaving) sends a membership change as a signed
+ *   group message; every client that applies it rotates its own sender key
+ *   and re-distributes it to the remaining members only, so the removed
+ *   member cannot read new messages from anyone
+ * - Adding a member works the same way: every client rotates, so the new
+ *   member cannot read messages sent before they joined
+ * - Only the group creator may remove others; anyone may remove themselves;
+ *   any member may add others
+ * - Legacy encrypt-to-all / shared-key payloads remain decryptable
  *
  * @see services/interfaces.ts for contracts
  * @see .claude/skills/xmpp-specialist/SKILL.md for MUC protocol
- * @see .claude/skills/security-expert/SKILL.md for dual-path encryption
+ * @see .claude/skills/security-expert/SKILL.md for group encryption
+ * @see services/senderKeys.ts for the sender key chain
  */
 
 import uuid from 'react-native-uuid';
+import RNFS from 'react-native-fs';
 
 import { ServiceContainer } from './container';
 import type {
@@ -29,14 +44,44 @@ import type {
   Observable,
   Unsubscribe,
   DeliveryStatus,
+  MediaTransfer,
   Recipient,
-  EncryptionMode,
 } from './interfaces';
 import { AppError, COMMEAZY_DOMAIN, getContactDisplayName } from './interfaces';
+import {
+  applyMessageAction,
+  canEditMessage,
+  canReactToMessage,
+  canRetractMessage,
+  parseMessageAction,
+  type MessageAction,
+} from './messageActions';
+import {
+  saveVoice,
+  prepareVoicePath,
+  createMediaKey,
+  uploadMediaTransfer,
+  MEDIA_DEFAULTS,
+} from './media';
+import { chatService, parseStructuredPayload } from './chat';
+import type { MediaPointer, VoiceRecordingResult } from '@/types/media';
 
 const SEVEN_DAYS_MS = 7 * 24 * 60 * 60 * 1000;
 const MUC_DOMAIN = `muc.${COMMEAZY_DOMAIN}`;
 
+/** Messages kept per sender while their sender key has not arrived yet */
+const MAX_PENDING_PER_SENDER = 50;
+
+interface PendingGroupMessage {
+  payload: EncryptedPayload;
+  id: string;
+}
+
+/** Membership change, sent as a group message (signed with the sender key) */
+type MembershipChange =
+  | { type: 'membership'; added: string }
+  | { type: 'membership'; removed: string };
+
 export interface GroupListItem {
   groupId: string;
   group: Group;
@@ -64,6 +109,12 @@ export class GroupChatService {
   // Track which MUC rooms we've joined
   private joinedRooms: Set<string> = new Set();
 
+  // Messages waiting for the sender's key distribution, keyed `${groupId}|${senderJid}`
+  private pendingSenderKeyMessages: Map<string, PendingGroupMessage[]> = new Map();
+
+  // Media IDs of voice uploads in progress (guards against a parallel resume)
+  private activeMediaTransfers: Set<string> = new Set();
+
   /**
    * Check if the group chat service has been initialized.
    */
@@ -109,7 +160,7 @@ export class GroupChatService {
   async createGroup(name: string, memberJids: string[]): Promise<CreateGroupResult> {
     this.ensureInitialized();
 
-    const groupId = uuid.v4() as string;
+    const groupId = uuid.v4();
     const roomJid = `${groupId}@${MUC_DOMAIN}`;
 
     // Add self to members if not already included
@@ -117,11 +168,6 @@ export class GroupChatService {
       ? memberJids
       : [this.myJid!, ...memberJids];
 
-    // Determine encryption mode based on member count
-    const encryptionMode: EncryptionMode = allMembers.length <= 8
-      ? 'encrypt-to-all'
-      : 'shared-key';
-
     // Create group in database
     const group: Group = {
       id: groupId,
@@ -129,7 +175,7 @@ export class GroupChatService {
       members: allMembers,
       createdBy: this.myJid!,
       createdAt: Date.now(),
-      encryptionMode,
+      encryptionMode: 'sender-key',
     };
 
     await ServiceContainer.database.saveGroup(group);
@@ -152,7 +198,7 @@ export class GroupChatService {
 
   /**
    * Send a text message to a group.
-   * Handles dual-path encryption based on member count.
+   * Distributes our sender key to members that lack it, then encrypts once.
    */
   async sendMessage(
     groupId: string,
@@ -167,21 +213,19 @@ export class GroupChatService {
       });
     }
 
-    const messageId = uuid.v4() as string;
+    const messageId = uuid.v4();
     const timestamp = Date.now();
     const roomJid = `${groupId}@${MUC_DOMAIN}`;
 
     try {
-      // Get recipient info for all members (except self)
-      const recipients = await this.getGroupRecipients(group);
+      // Members must hold our sender key before they can read the message
+      await this.distributeSenderKey(group);
 
-      // Encrypt message (dual-path based on member count)
-      const encryptedPayload: EncryptedPayload = await ServiceContainer.encryption.encrypt(
+      // Encrypt once for the whole group (metadata carries the groupId)
+      const encryptedPayload: EncryptedPayload = await ServiceContainer.encryption.encryptForGroup(
+        groupId,
         content,
-        recipients,
       );
-      // Add group metadata
-      encryptedPayload.metadata.groupId = groupId;
 
       // Save to local messages (decrypted for display)
       const message: Message = {
@@ -234,6 +278,137 @@ export class GroupChatService {
     }
   }
 
+  /**
+   * Send a voice message to a group.
+   * The recording is uploaded once; the group receives the pointer to it,
+   * like a 1-on-1 voice message. Transcription is handled by
+   * ChatService.transcribeVoiceMessage for both.
+   */
+  async sendVoiceMessage(
+    groupId: string,
+    recording: VoiceRecordingResult,
+  ): Promise<SendGroupMessageResult> {
+    this.ensureInitialized();
+
+    if (!recording.success || !recording.uri) {
+      throw new AppError('E300', 'delivery', () => {}, {
+        reason: recording.error ?? 'voice_recording_failed',
+      });
+    }
+
+    const group = await ServiceContainer.database.getGroup(groupId);
+    if (!group) {
+      throw new AppError('E404', 'delivery', () => {}, {
+        reason: 'group_not_found',
+      });
+    }
+
+    const messageId = uuid.v4();
+    const timestamp = Date.now();
+    const duration = recording.duration ?? 0;
+    const waveform = recording.waveform ?? [];
+
+    try {
+      // Step 1: Move the recording into media storage
+      const item = await saveVoice(recording.uri, groupId, duration, waveform, 'recorded', this.myJid!, this.myName!);
+      if (!item) {
+        throw new AppError('E500', 'network', () => {}, { reason: 'voice_save_failed' });
+      }
+
+      // Step 2: Transfer record with a fresh per-file key
+      const { key, nonce } = createMediaKey();
+      const transfer: MediaTransfer = {
+        mediaId: item.id,
+        messageId,
+        chatId: groupId,
+        type: 'audio',
+        localUri: item.localUri,
+        size: item.size,
+        width: 0,
+        height: 0,
+        source: item.source,
+        encryptionKey: key,
+        encryptionNonce: nonce,
+        chunkSize: MEDIA_DEFAULTS.transfer.chunkSize,
+        status: 'pending',
+        retryCount: 0,
+        expiresAt: timestamp + SEVEN_DAYS_MS,
+      };
+      await ServiceContainer.database.saveMediaTransfer(transfer);
+
+      // Step 3: Save to local messages
+      const message: Message = {
+        id: messageId,
+        chatId: groupId,
+        senderId: this.myJid!,
+        senderName: this.myName!,
+        content: '',
+        contentType: 'audio',
+        timestamp,
+        status: 'pending',
+        isRead: true,
+        mediaId: item.id,
+        mediaUri: `file://${item.localUri}`,
+        mediaSize: item.size,
+        mediaDuration: duration,
+        waveform,
+      };
+      await ServiceContainer.database.saveMessage(message);
+      this.messageListeners.forEach(listener => listener(message));
+
+      // Step 4: Upload, then send the pointer to the room (or queue it)
+      const status = await this.deliverVoice(transfer, group);
+      return { messageId, status };
+    } catch (error) {
+      console.error('[GroupChatService] sendVoiceMessage error:', error);
+      if (error instanceof AppError) throw error;
+
+      throw new AppError('E300', 'delivery', () => {}, {
+        reason: 'voice_send_failed',
+      });
+    }
+  }
+
+  // ============================================================
+  // Message Actions (edit, delete for everyone, reactions)
+  // ============================================================
+
+  /**
+   * Edit one of our own text messages in a group (within EDIT_WINDOW_MS).
+   */
+  async editMessage(groupId: string, messageId: string, text: string): Promise<void> {
+    this.ensureInitialized();
+    const message = await ServiceContainer.database.getMessage(messageId);
+    if (!message || !canEditMessage(message, this.myJid!)) {
+      throw new AppError('E305', 'delivery', () => {}, { reason: 'edit_not_allowed' });
+    }
+    await this.sendAction(groupId, { type: 'edit', targetId: messageId, text, editedAt: Date.now() });
+  }
+
+  /**
+   * Delete one of our own group messages for everyone (within RETRACT_WINDOW_MS).
+   */
+  async retractMessage(groupId: string, messageId: string): Promise<void> {
+    this.ensureInitialized();
+    const message = await ServiceContainer.database.getMessage(messageId);
+    if (!message || !canRetractMessage(message, this.myJid!)) {
+      throw new AppError('E305', 'delivery', () => {}, { reason: 'retract_not_allowed' });
+    }
+    await this.sendAction(groupId, { type: 'retract', targetId: messageId, retractedAt: Date.now() });
+  }
+
+  /**
+   * React to a group message with an emoji, or remove our reaction (emoji null).
+   */
+  async reactToMessage(groupId: string, messageId: string, emoji: string | null): Promise<void> {
+    this.ensureInitialized();
+    const message = await ServiceContainer.database.getMessage(messageId);
+    if (!message || !canReactToMessage(message)) {
+      throw new AppError('E305', 'delivery', () => {}, { reason: 'reaction_not_allowed' });
+    }
+    await this.sendAction(groupId, { type: 'reaction', targetId: messageId, emoji });
+  }
+
   /**
    * Get messages for a group.
    */
@@ -327,9 +502,13 @@ export class GroupChatService {
   }
 
   /**
-   * Add a member to a group.
+   * Add a member to a group. The existing members are told first, with our
+   * current sender key; then everyone rotates, so the new member cannot
+   * read what was sent before they joined.
    */
   async addMember(groupId: string, memberJid: string): Promise<void> {
+    this.ensureInitialized();
+
     const group = await ServiceContainer.database.getGroup(groupId);
     if (!group) {
       throw new AppError('E404', 'delivery', () => {}, {
@@ -341,51 +520,54 @@ export class GroupChatService {
       return; // Already a member
     }
 
-    const newMembers = [...group.members, memberJid];
-    await ServiceContainer.database.updateGroupMembers(groupId, newMembers);
+    const change: MembershipChange = { type: 'membership', added: memberJid };
+    try {
+      await this.sendGroupPayload(group, JSON.stringify(change), 'membership');
+    } catch (error) {
+      // Applied locally anyway — members pick up the new list with our next key
+      console.warn('[GroupChatService] Failed to send membership change:', error);
+    }
 
-    console.log(`[GroupChatService] Added ${memberJid} to group ${groupId}`);
+    await this.applyAddition(group, memberJid);
   }
 
   /**
-   * Remove a member from a group.
+   * Remove a member from a group (only the creator may remove others).
+   * The other members are told first, with our current sender key, so
+   * they can verify the change before anyone rotates.
    */
   async removeMember(groupId: string, memberJid: string): Promise<void> {
+    this.ensureInitialized();
+
     const group = await ServiceContainer.database.getGroup(groupId);
     if (!group) {
       throw new AppError('E404', 'delivery', () => {}, {
         reason: 'group_not_found',
       });
     }
+    if (!group.members.includes(memberJid)) {
+      return; // Not a member
+    }
+    if (!this.mayRemove(group, this.myJid!, memberJid)) {
+      throw new AppError('E305', 'delivery', () => {}, { reason: 'remove_not_allowed' });
+    }
 
-    const newMembers = group.members.filter(jid => jid !== memberJid);
-    await ServiceContainer.database.updateGroupMembers(groupId, newMembers);
+    const change: MembershipChange = { type: 'membership', removed: memberJid };
+    try {
+      await this.sendGroupPayload(group, JSON.stringify(change), 'membership');
+    } catch (error) {
+      // Applied locally anyway — the removed member must not keep our new key
+      console.warn('[GroupChatService] Failed to send membership change:', error);
+    }
 
-    console.log(`[GroupChatService] Removed ${memberJid} from group ${groupId}`);
+    await this.applyRemoval(group, memberJid);
   }
 
   /**
    * Leave a group.
    */
   async leaveGroup(groupId: string): Promise<void> {
-    this.ensureInitialized();
-
-    const roomJid = `${groupId}@${MUC_DOMAIN}`;
-
-    // Leave MUC room
-    try {
-      const xmpp = ServiceContainer.xmpp;
-      if (xmpp.getConnectionStatus() === 'connected' && this.joinedRooms.has(roomJid)) {
-        await xmpp.leaveMUC(roomJid);
-        this.joinedRooms.delete(roomJid);
-      }
-    } catch (error) {
-      console.warn(`[GroupChatService] Failed to leave MUC room:`, error);
-    }
-
-    // Remove self from members
     await this.removeMember(groupId, this.myJid!);
-
     console.log(`[GroupChatService] Left group ${groupId}`);
   }
 
@@ -440,6 +622,8 @@ export class GroupChatService {
     this.unsubscribers = [];
     this.messageListeners.clear();
     this.statusListeners.clear();
+    this.pendingSenderKeyMessages.clear();
+    this.activeMediaTransfers.clear();
   }
 
   // ============================================================
@@ -456,6 +640,21 @@ export class GroupChatService {
       await this.handleIncomingMessage(from, payload, id);
     });
     this.unsubscribers.push(msgUnsub);
+
+    // Handle sender keys distributed by other members
+    const senderKeyUnsub = xmpp.onSenderKey((from, payload) => {
+      void this.handleIncomingSenderKey(from, payload);
+    });
+    this.unsubscribers.push(senderKeyUnsub);
+
+    // Catch up on distributions skipped while offline (messages sent from the outbox)
+    const statusUnsub = xmpp.observeConnectionStatus().subscribe((status) => {
+      if (status === 'connected') {
+        void this.distributeAllSenderKeys();
+        void this.resumeVoiceUploads();
+      }
+    });
+    this.unsubscribers.push(statusUnsub);
   }
 
   private async handleIncomingMessage(
@@ -463,19 +662,29 @@ export class GroupChatService {
     payload: EncryptedPayload,
     id: string,
   ): Promise<void> {
-    // Check if this is a MUC message (from muc.commeazy.local)
-    if (!from.includes(MUC_DOMAIN)) {
-      return; // Not a MUC message, let ChatService handle it
+    // Group messages arrive via the MUC room, or 1-on-1 from a member's outbox
+    const isMucMessage = from.includes(MUC_DOMAIN);
+    const isDirectGroupMessage = !isMucMessage
+      && payload.mode === 'sender-key'
+      && !!payload.metadata?.groupId;
+    if (!isMucMessage && !isDirectGroupMessage) {
+      return; // Not a group message, let ChatService handle it
     }
 
-    // Extract room JID and sender nickname
-    // Format: room@muc.commeazy.local/nickname
-    const parts = from.split('/');
-    const roomJid = parts[0];
-    const senderNickname = parts[1];
-
-    // Extract group ID from room JID
-    const groupId = roomJid.split('@')[0];
+    let groupId: string;
+    let senderNickname: string | null = null;
+    if (isMucMessage) {
+      // Extract room JID and sender nickname
+      // Format: room@muc.commeazy.local/nickname
+      const parts = from.split('/');
+      const roomJid = parts[0];
+      senderNickname = parts[1];
+
+      // Extract group ID from room JID
+      groupId = roomJid.split('@')[0];
+    } else {
+      groupId = payload.metadata.groupId;
+    }
 
     // Get group to verify membership
     const group = await ServiceContainer.database.getGroup(groupId);
@@ -485,45 +694,378 @@ export class GroupChatService {
     }
 
     // Skip our own messages (MUC echoes them back)
-    if (senderNickname === this.myName) {
+    if (senderNickname !== null && senderNickname === this.myName) {
       console.log(`[GroupChatService] Skipping own message echo`);
       return;
     }
 
     try {
-      // Get sender's public key from contacts
-      const senderContact = await this.findSenderByNickname(group, senderNickname);
+      // Get sender's contact (MUC: by nickname, direct: by bare JID)
+      const senderContact = senderNickname !== null
+        ? await this.findSenderByNickname(group, senderNickname)
+        : await this.findSenderByJid(group, from.split('/')[0]);
       if (!senderContact) {
-        console.warn(`[GroupChatService] Unknown sender: ${senderNickname}`);
+        console.warn(`[GroupChatService] Unknown sender: ${senderNickname ?? 'direct'}`);
         return;
       }
 
-      const { from_base64, base64_variants } = await import('react-native-libsodium');
-      const senderPk = from_base64(senderContact.publicKey, base64_variants.ORIGINAL);
-      const content = await ServiceContainer.encryption.decrypt(payload, senderPk);
-      const senderJid = senderContact.jid;
-      const senderName = senderContact.name;
+      let content: string;
+      if (payload.mode === 'sender-key') {
+        try {
+          content = await ServiceContainer.encryption.decryptFromGroup(payload, senderContact.jid);
+        } catch (error) {
+          if (error instanceof AppError && error.context?.reason === 'sender_key_missing') {
+            // Distribution travels 1-on-1 and may arrive after the message
+            this.queuePendingMessage(groupId, senderContact.jid, payload, id);
+            return;
+          }
+          throw error;
+        }
+      } else {
+        // Legacy encrypt-to-all / shared-key payloads
+        const { from_base64, base64_variants } = await import('react-native-libsodium');
+        const senderPk = from_base64(senderContact.publicKey, base64_variants.ORIGINAL);
+        content = await ServiceContainer.encryption.decrypt(payload, senderPk, senderContact.jid);
+      }
 
-      // Save to database
-      const message: Message = {
-        id,
+      await this.saveIncomingMessage(groupId, senderContact, content, id);
+    } catch (error) {
+      console.error('[GroupChatService] Failed to process group message:', error);
+    }
+  }
+
+  private async saveIncomingMessage(
+    groupId: string,
+    sender: Contact,
+    content: string,
+    id: string,
+  ): Promise<void> {
+    // Edit / retract / reaction — updates an existing message, no new bubble
+    let parsedContent: unknown = null;
+    try {
+      parsedContent = JSON.parse(content);
+    } catch {
+      // Plain text
+    }
+    const membership = parseMembershipChange(parsedContent);
+    if (membership) {
+      await this.handleMembershipChange(groupId, sender.jid, membership);
+      return;
+    }
+
+    const action = parseMessageAction(parsedContent);
+    if (action) {
+      await applyMessageAction(action, groupId, sender.jid);
+      console.debug(`[GroupChatService] Applied ${action.type} action`);
+      return;
+    }
+
+    let message: Message = {
+      id,
+      chatId: groupId,
+      senderId: sender.jid,
+      senderName: sender.name,
+      content,
+      contentType: 'text',
+      timestamp: Date.now(),
+      status: 'delivered',
+      isRead: false,
+    };
+
+    // Voice message — the row keeps a reference, the audio lives in media storage
+    const voice = parseStructuredPayload(parsedContent);
+    if (voice?.type === 'audio' && 'media' in voice) {
+      const pointer = voice.media;
+      if (!pointer) {
+        console.warn('[GroupChatService] Ignoring voice message with an invalid media pointer');
+        return;
+      }
+      // Redelivered pointer — the first copy already owns a transfer
+      if (await ServiceContainer.database.getMessage(id)) {
+        return;
+      }
+
+      const mediaId = uuid.v4();
+      await ServiceContainer.database.saveMediaTransfer({
+        mediaId,
+        messageId: id,
         chatId: groupId,
-        senderId: senderJid,
-        senderName: senderName,
-        content,
-        contentType: 'text',
-        timestamp: Date.now(),
-        status: 'delivered',
-        isRead: false,
+        type: 'audio',
+        localUri: '',
+        size: pointer.size,
+        width: 0,
+        height: 0,
+        source: 'received',
+        senderJid: sender.jid,
+        senderName: getContactDisplayName(sender),
+        encryptionKey: pointer.key,
+        encryptionNonce: pointer.nonce,
+        chunkSize: pointer.chunkSize,
+        status: 'pending',
+        retryCount: 0,
+        expiresAt: Date.now() + SEVEN_DAYS_MS,
+        remoteUrl: pointer.url,
+      });
+
+      message = {
+        ...message,
+        content: '',
+        contentType: 'audio',
+        mediaId,
+        mediaUri: `file://${await prepareVoicePath(mediaId)}`,
+        mediaSize: pointer.size,
+        mediaDuration: voice.duration,
+        waveform: voice.waveform,
+        isMediaDownloading: true,
+        mediaDownloadProgress: 0,
       };
-      await ServiceContainer.database.saveMessage(message);
+    } else if (voice?.type === 'audio') {
+      // Inline voice message from a client without encrypted media transfer
+      const tmpPath = `${RNFS.TemporaryDirectoryPath}/voice_${id}.m4a`;
+      await RNFS.writeFile(tmpPath, voice.data, 'base64');
+      const item = await saveVoice(
+        tmpPath, groupId, voice.duration, voice.waveform, 'received', sender.jid, getContactDisplayName(sender),
+      );
 
-      // Notify listeners
-      this.messageListeners.forEach(listener => listener(message));
+      message = {
+        ...message,
+        content: '',
+        contentType: 'audio',
+        mediaId: item?.id,
+        mediaUri: item ? `file://${item.localUri}` : undefined,
+        mediaSize: voice.size,
+        mediaDuration: voice.duration,
+        waveform: voice.waveform,
+      };
+    }
+
+    await ServiceContainer.database.saveMessage(message);
+
+    // Notify listeners
+    this.messageListeners.forEach(listener => listener(message));
+
+    // The recording itself follows in the background
+    if (message.isMediaDownloading) {
+      void chatService.retryMediaDownload(id);
+    }
+
+    console.debug('[GroupChatService] Saved group message');
+  }
 
-      console.debug('[GroupChatService] Saved group message');
+  /**
+   * Handle a sender key distributed by a group member (1-on-1, ratchet-encrypted).
+   * Only members of the group may issue keys for it.
+   */
+  private async handleIncomingSenderKey(from: string, payload: EncryptedPayload): Promise<void> {
+    const senderJid = from.split('/')[0];
+
+    try {
+      const contact = await ServiceContainer.database.getContact(senderJid);
+      if (!contact?.publicKey) {
+        console.warn('[GroupChatService] Sender key from unknown contact ignored');
+        return;
+      }
+
+      const { from_base64, base64_variants } = await import('react-native-libsodium');
+      const senderPk = from_base64(contact.publicKey, base64_variants.ORIGINAL);
+      const distribution = await ServiceContainer.encryption.decrypt(payload, senderPk, senderJid);
+
+      const { groupId } = JSON.parse(distribution) as { groupId: string };
+      const group = await ServiceContainer.database.getGroup(groupId);
+      if (!group || !group.members.includes(senderJid)) {
+        console.warn(`[GroupChatService] Sender key for group ${groupId} from non-member ignored`);
+        return;
+      }
+
+      await ServiceContainer.encryption.processSenderKeyDistribution(groupId, senderJid, distribution);
+      console.debug(`[GroupChatService] Stored sender key for group ${groupId}`);
+
+      await this.replayPendingMessages(groupId, contact);
     } catch (error) {
-      console.error('[GroupChatService] Failed to process group message:', error);
+      console.error('[GroupChatService] Failed to process sender key:', error);
+    }
+  }
+
+  // ============================================================
+  // Private — Membership
+  // ============================================================
+
+  /**
+   * Apply a membership change received from a member. The sender is the
+   * authenticated author of the (signed) group message.
+   */
+  private async handleMembershipChange(
+    groupId: string,
+    senderJid: string,
+    change: MembershipChange,
+  ): Promise<void> {
+    const group = await ServiceContainer.database.getGroup(groupId);
+    if (!group) return;
+
+    if ('added' in change) {
+      if (group.members.includes(change.added)) return;
+      if (!group.members.includes(senderJid)) {
+        console.warn(`[GroupChatService] Membership change from ${senderJid} not allowed, ignored`);
+        return;
+      }
+      await this.applyAddition(group, change.added);
+      return;
+    }
+
+    if (!group.members.includes(change.removed)) return;
+    if (!this.mayRemove(group, senderJid, change.removed)) {
+      console.warn(`[GroupChatService] Membership change from ${senderJid} not allowed, ignored`);
+      return;
+    }
+
+    await this.applyRemoval(group, change.removed);
+  }
+
+  /** Only the creator removes others; every member may leave */
+  private mayRemove(group: Group, byJid: string, memberJid: string): boolean {
+    return group.members.includes(byJid)
+      && (byJid === memberJid || byJid === group.createdBy);
+  }
+
+  /**
+   * Add a member locally and re-issue our key, so the new member gets a
+   * fresh chain instead of the one that protected earlier messages.
+   */
+  private async applyAddition(group: Group, memberJid: string): Promise<void> {
+    const newMembers = [...group.members, memberJid];
+    await ServiceContainer.database.updateGroupMembers(group.id, newMembers);
+    await this.rotateSenderKey({ ...group, members: newMembers });
+
+    console.log(`[GroupChatService] Added ${memberJid} to group ${group.id}`);
+  }
+
+  /**
+   * Drop a member locally. When it is us, all keys of the group are deleted
+   * and we leave the room; otherwise we forget their key and rotate ours.
+   */
+  private async applyRemoval(group: Group, memberJid: string): Promise<void> {
+    const newMembers = group.members.filter(jid => jid !== memberJid);
+    await ServiceContainer.database.updateGroupMembers(group.id, newMembers);
+
+    const encryption = ServiceContainer.encryption;
+    if (memberJid === this.myJid) {
+      // We are out: our key and everyone else's are useless now
+      await encryption.deleteSenderKeys(group.id);
+      this.dropPendingMessages(group.id);
+      await this.leaveRoom(group.id);
+    } else {
+      // Stop accepting their messages and re-issue our key without them
+      await encryption.deleteSenderKeys(group.id, memberJid);
+      this.dropPendingMessages(group.id, memberJid);
+      await this.rotateSenderKey({ ...group, members: newMembers });
+    }
+
+    console.log(`[GroupChatService] Removed ${memberJid} from group ${group.id}`);
+  }
+
+  private async leaveRoom(groupId: string): Promise<void> {
+    const roomJid = `${groupId}@${MUC_DOMAIN}`;
+    try {
+      const xmpp = ServiceContainer.xmpp;
+      if (xmpp.getConnectionStatus() === 'connected' && this.joinedRooms.has(roomJid)) {
+        await xmpp.leaveMUC(roomJid);
+      }
+    } catch (error) {
+      console.warn(`[GroupChatService] Failed to leave MUC room:`, error);
+    }
+    this.joinedRooms.delete(roomJid);
+  }
+
+  // ============================================================
+  // Private — Sender Keys
+  // ============================================================
+
+  /**
+   * Send our sender key to every member that has not received it yet.
+   * No-op when offline — distributeAllSenderKeys() catches up on reconnect.
+   */
+  private async distributeSenderKey(group: Group): Promise<void> {
+    const xmpp = ServiceContainer.xmpp;
+    if (xmpp.getConnectionStatus() !== 'connected') return;
+
+    const encryption = ServiceContainer.encryption;
+    const { distribution, distributedTo } = await encryption.getSenderKeyDistribution(group.id);
+
+    const recipients = (await this.getGroupRecipients(group))
+      .filter(recipient => !distributedTo.includes(recipient.jid));
+    if (recipients.length === 0) return;
+
+    const delivered: string[] = [];
+    for (const recipient of recipients) {
+      try {
+        const payload = await encryption.encrypt(distribution, [recipient], 'ratchet');
+        await xmpp.sendSenderKey(recipient.jid, payload);
+        delivered.push(recipient.jid);
+      } catch (error) {
+        console.warn(`[GroupChatService] Failed to send sender key to ${recipient.jid}:`, error);
+      }
+    }
+
+    await encryption.markSenderKeyDistributed(group.id, delivered);
+    console.log(`[GroupChatService] Sender key sent to ${delivered.length} member(s) of ${group.id}`);
+  }
+
+  /** Replace our sender key and send the new one to every member */
+  private async rotateSenderKey(group: Group): Promise<void> {
+    await ServiceContainer.encryption.rotateSenderKey(group.id);
+    try {
+      await this.distributeSenderKey(group);
+    } catch (error) {
+      // Retried on the next send or reconnect
+      console.warn('[GroupChatService] Sender key re-distribution failed:', error);
+    }
+  }
+
+  private async distributeAllSenderKeys(): Promise<void> {
+    if (!this.isInitialized) return;
+
+    try {
+      const groups = await ServiceContainer.database.getGroupsOnce();
+      for (const group of groups) {
+        if (!group.members.includes(this.myJid!)) continue;
+        await this.distributeSenderKey(group);
+      }
+    } catch (error) {
+      console.warn('[GroupChatService] Sender key catch-up failed:', error);
+    }
+  }
+
+  private queuePendingMessage(groupId: string, senderJid: string, payload: EncryptedPayload, id: string): void {
+    const key = `${groupId}|${senderJid}`;
+    const queue = this.pendingSenderKeyMessages.get(key) ?? [];
+    queue.push({ payload, id });
+    // Oldest messages are dropped first when a sender's key never arrives
+    this.pendingSenderKeyMessages.set(key, queue.slice(-MAX_PENDING_PER_SENDER));
+    console.debug(`[GroupChatService] Waiting for sender key (${queue.length} pending)`);
+  }
+
+  private async replayPendingMessages(groupId: string, sender: Contact): Promise<void> {
+    const key = `${groupId}|${sender.jid}`;
+    const queue = this.pendingSenderKeyMessages.get(key);
+    if (!queue) return;
+    this.pendingSenderKeyMessages.delete(key);
+
+    for (const pending of queue) {
+      try {
+        const content = await ServiceContainer.encryption.decryptFromGroup(pending.payload, sender.jid);
+        await this.saveIncomingMessage(groupId, sender, content, pending.id);
+      } catch (error) {
+        console.warn('[GroupChatService] Pending group message could not be decrypted:', error);
+      }
+    }
+  }
+
+  private dropPendingMessages(groupId: string, senderJid?: string): void {
+    for (const key of [...this.pendingSenderKeyMessages.keys()]) {
+      const [keyGroupId, keySenderJid] = key.split('|');
+      if (keyGroupId === groupId && (!senderJid || keySenderJid === senderJid)) {
+        this.pendingSenderKeyMessages.delete(key);
+      }
     }
   }
 
@@ -574,6 +1116,11 @@ export class GroupChatService {
     return recipients;
   }
 
+  private async findSenderByJid(group: Group, jid: string): Promise<Contact | null> {
+    if (!group.members.includes(jid)) return null;
+    return ServiceContainer.database.getContact(jid);
+  }
+
   private async findSenderByNickname(group: Group, nickname: string): Promise<Contact | null> {
     // Try to find member by display name
     for (const memberJid of group.members) {
@@ -585,11 +1132,144 @@ export class GroupChatService {
     return null;
   }
 
+  /**
+   * Apply an action locally, then deliver it like a group message.
+   * Actions have no message row of their own — only an outbox entry when offline.
+   */
+  private async sendAction(groupId: string, action: MessageAction): Promise<void> {
+    const group = await ServiceContainer.database.getGroup(groupId);
+    if (!group) {
+      throw new AppError('E404', 'delivery', () => {}, {
+        reason: 'group_not_found',
+      });
+    }
+
+    await applyMessageAction(action, groupId, this.myJid!);
+    await this.sendGroupPayload(group, JSON.stringify(action), action.type);
+  }
+
+  /**
+   * Encrypt a control message (action, membership change) or media pointer
+   * with our sender key and send it to the room, or to the outbox when offline.
+   */
+  private async sendGroupPayload(
+    group: Group,
+    content: string,
+    kind: string,
+    payloadId = uuid.v4(),
+    contentType: 'text' | 'audio' = 'text',
+  ): Promise<DeliveryStatus> {
+    await this.distributeSenderKey(group);
+    const encryptedPayload = await ServiceContainer.encryption.encryptForGroup(group.id, content);
+
+    const roomJid = `${group.id}@${MUC_DOMAIN}`;
+    const xmpp = ServiceContainer.xmpp;
+    if (xmpp.getConnectionStatus() === 'connected') {
+      try {
+        if (!this.joinedRooms.has(roomJid)) {
+          await xmpp.joinMUC(roomJid, this.myName!);
+          this.joinedRooms.add(roomJid);
+        }
+        await xmpp.sendMUCMessage(roomJid, encryptedPayload, payloadId);
+        return 'sent';
+      } catch (xmppError) {
+        console.warn(`[GroupChatService] Failed to send ${kind} message, queueing:`, xmppError);
+      }
+    }
+    await this.saveToOutbox(group.id, encryptedPayload, group.members, payloadId, contentType);
+    return 'pending';
+  }
+
+  /**
+   * Upload a voice recording, then send its pointer to the group.
+   * Returns 'pending' while offline or when the upload has to be resumed.
+   */
+  private async deliverVoice(transfer: MediaTransfer, group: Group): Promise<DeliveryStatus> {
+    if (this.activeMediaTransfers.has(transfer.mediaId)) return 'pending';
+
+    const xmpp = ServiceContainer.xmpp;
+    if (xmpp.getConnectionStatus() !== 'connected') {
+      console.info('[GroupChatService] Offline — voice upload waits for the connection');
+      return 'pending';
+    }
+
+    const db = ServiceContainer.database;
+    const message = await db.getMessage(transfer.messageId);
+    if (!message || message.retractedAt) {
+      // Deleted before it was uploaded — expire the transfer so it is not resumed
+      await db.saveMediaTransfer({ ...transfer, status: 'failed', expiresAt: Date.now() });
+      return 'failed';
+    }
+
+    this.activeMediaTransfers.add(transfer.mediaId);
+    try {
+      const uploaded = await uploadMediaTransfer(
+        transfer,
+        (filename, size, contentType) => xmpp.requestUploadSlot(filename, size, contentType),
+        current => db.saveMediaTransfer(current),
+      );
+      if (!uploaded?.remoteUrl) return 'pending';
+
+      try {
+        const pointer: MediaPointer = {
+          url: uploaded.remoteUrl,
+          key: uploaded.encryptionKey,
+          nonce: uploaded.encryptionNonce,
+          size: uploaded.size,
+          chunkSize: uploaded.chunkSize ?? MEDIA_DEFAULTS.transfer.chunkSize,
+          mimeType: 'audio/mp4',
+        };
+        const content = JSON.stringify({
+          type: 'audio',
+          media: pointer,
+          duration: message.mediaDuration ?? 0,
+          waveform: message.waveform ?? [],
+        });
+        const status = await this.sendGroupPayload(group, content, 'voice', message.id, 'audio');
+        await db.saveMediaTransfer({ ...uploaded, status: 'sent' });
+        if (status === 'sent') {
+          await this.updateMessageStatus(message.id, 'sent');
+        }
+        return status;
+      } catch (error) {
+        console.warn('[GroupChatService] Voice pointer could not be sent, will resume:', error);
+        await db.saveMediaTransfer({ ...uploaded, status: 'failed', retryCount: uploaded.retryCount + 1 });
+        return 'pending';
+      }
+    } finally {
+      this.activeMediaTransfers.delete(transfer.mediaId);
+    }
+  }
+
+  /**
+   * Continue voice uploads interrupted while offline.
+   * Downloads of received recordings are resumed by ChatService.
+   */
+  private async resumeVoiceUploads(): Promise<void> {
+    if (!this.isInitialized) return;
+
+    const db = ServiceContainer.database;
+    try {
+      const transfers = await db.getPendingMediaTransfers();
+      for (const transfer of transfers) {
+        if (transfer.source === 'received' || transfer.chatId.startsWith('chat:')) continue;
+
+        const group = await db.getGroup(transfer.chatId);
+        if (group) {
+          await this.deliverVoice(transfer, group);
+        }
+      }
+    } catch (error) {
+      console.warn('[GroupChatService] Voice upload resume failed:', error);
+    }
+  }
+
   private async saveToOutbox(
     groupId: string,
     encryptedPayload: EncryptedPayload,
     members: string[],
     messageId: string,
+    contentType: 'text' | 'audio' = 'text',
   ): Promise<void> {
     // Filter out self from pending recipients
     const pendingTo = members.filter(jid => jid !== this.myJid);
@@ -597,7 +1277,7 @@ export class GroupChatService {
     const outboxMsg: Omit<OutboxMessage, 'id'> = {
       chatId: groupId,
       encryptedContent: JSON.stringify(encryptedPayload),
-      contentType: 'text',
+      contentType,
       timestamp: Date.now(),
       expiresAt: Date.now() + SEVEN_DAYS_MS,
       pendingTo,
@@ -619,5 +1299,13 @@ export class GroupChatService {
   }
 }
 
+function parseMembershipChange(value: unknown): MembershipChange | null {
+  const change = value as { type?: unknown; added?: unknown; removed?: unknown } | null;
+  if (change?.type !== 'membership') return null;
+  if (typeof change.added === 'string') return { type: 'membership', added: change.added };
+  if (typeof change.removed === 'string') return { type: 'membership', removed: change.removed };
+  return null;
+}
+
 /** Singleton instance */
 export const groupChatService = new GroupChatService();
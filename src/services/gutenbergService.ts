@@ -121,13 +121,14 @@ async function fetchWithTimeout(url: string, timeoutMs: number): Promise<Respons
  * Transform Gutendex book to our Book model
  */
 function transformGutendexBook(book: GutendexBook): Book | null {
-  // Get download URL - ONLY plain text is supported (EPUB requires ZIP parsing which we don't have)
-  // Plain text is easier to read with TTS and doesn't need additional libraries
+  // Get download URL - EPUB preferred: it keeps chapters, italics and images
+  // (unpacked by services/epub). Plain text is the fallback.
   const downloadUrl =
+    book.formats['application/epub+zip'] ||
     book.formats['text/plain; charset=utf-8'] ||
     book.formats['text/plain'];
 
-  // Skip books without plain text format - we can't read EPUB files
+  // Skip books without a readable format
   if (!downloadUrl) {
     return null;
   }
@@ -30,6 +30,7 @@ export type {
   XMPPService,
   NotificationService,
   CallService,
+  CallLogEntry,
   SupportedLanguage,
 } from './interfaces';
 
@@ -47,6 +48,7 @@ export { notificationService } from './notifications';
 
 export { callService } from './call';
 export type { ActiveCall, CallType, CallState, CallParticipant } from './call';
+export { callLogService } from './callLog';
 
 // Siri Call Integration (iOS)
 export { siriService, type SiriCallIntent, type SiriAuthorizationStatus } from './siriService';
@@ -92,6 +94,16 @@ export {
   generateVideoThumbnail,
   getVideoDuration,
   validateVideoDuration,
+  startVoiceRecording,
+  stopVoiceRecording,
+  cancelVoiceRecording,
+  levelsToWaveform,
+  playVoice,
+  pauseVoice,
+  stopVoice,
+  setVoiceRate,
+  onVoicePlayback,
+  transcribeVoice,
   getFileSize,
   readAsBase64,
   writeBase64ToFile,
@@ -103,6 +115,7 @@ export {
   // Media storage
   savePhoto,
   saveVideo,
+  saveVoice,
   saveMedia,
   mediaExists,
   getMediaUri,
@@ -134,6 +147,8 @@ export {
 // ============================================================
 
 export { deviceLinkService } from './deviceLink';
+export { deviceSyncService } from './deviceSync';
+export { backupService } from './backup';
 export {
   pickImage,
   takePicture,
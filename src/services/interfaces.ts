@@ -8,12 +8,14 @@
  * READ THIS FIRST — this file defines the entire service architecture.
  */
 
+import type { MediaType, MediaSource, MediaTransferStatus, MediaPointer } from '@/types/media';
+
 // ============================================================
 // Common Types
 // ============================================================
 
-export type ContentType = 'text' | 'image' | 'video' | 'agenda_item';
-export type EncryptionMode = '1on1' | 'encrypt-to-all' | 'shared-key';
+export type ContentType = 'text' | 'image' | 'video' | 'audio' | 'agenda_item' | 'system';
+export type EncryptionMode = '1on1' | 'encrypt-to-all' | 'shared-key' | 'ratchet' | 'sender-key';
 export type DeliveryStatus = 'pending' | 'sent' | 'delivered' | 'failed' | 'expired';
 export type ConnectionStatus = 'connected' | 'connecting' | 'disconnected' | 'error';
 export type SupportedLanguage = 'nl' | 'en' | 'en-GB' | 'de' | 'fr' | 'es' | 'it' | 'pl' | 'no' | 'sv' | 'da' | 'pt' | 'pt-BR';
@@ -67,7 +69,7 @@ export interface Message {
   chatId: string;
   senderId: string;
   senderName: string;
-  content: string;           // Decrypted content (text or caption for media)
+  content: string;           // Decrypted content (text or caption for media, SystemEvent for 'system')
   contentType: ContentType;
   timestamp: number;
   status: DeliveryStatus;
@@ -76,11 +78,30 @@ export interface Message {
   // Photo/Video specific fields (required when contentType is 'image' or 'video')
   mediaUri?: string;         // Full resolution local file URI
   thumbnailUri?: string;     // Thumbnail URI for preview
+  thumbnailData?: string;    // Base64 JPEG preview — travels in the photo pointer message
   mediaWidth?: number;       // Original width in pixels
   mediaHeight?: number;      // Original height in pixels
   mediaSize?: number;        // File size in bytes
   isMediaDownloading?: boolean;  // Download in progress
   mediaDownloadProgress?: number; // 0-1 download progress
+
+  // Voice message fields (contentType 'audio', v35)
+  mediaId?: string;          // Voice file in mediaStorageService (media/{mediaId}.m4a)
+  mediaDuration?: number;    // Duration in seconds
+  waveform?: number[];       // Waveform bars 0-1
+  transcript?: string;       // On-device transcription (accessibility)
+
+  // Edit / delete-for-everyone / reactions (v34)
+  editedAt?: number;         // Last edit — content holds the latest version
+  editHistory?: MessageEdit[]; // Earlier versions, oldest first
+  retractedAt?: number;      // Deleted for everyone — content is cleared
+  reactions?: Record<string, string>; // Reactor JID → emoji
+}
+
+/** An earlier version of an edited message */
+export interface MessageEdit {
+  content: string;
+  timestamp: number;         // When this version was written
 }
 
 export interface OutboxMessage {
@@ -94,6 +115,41 @@ export interface OutboxMessage {
   deliveredTo: string[];     // JIDs that ACKed
 }
 
+/**
+ * Encrypted media transfer state (media_messages row, v36).
+ * The file itself travels encrypted over XEP-0363 HTTP upload; the key and
+ * nonce only ever leave the device inside the E2E encrypted pointer message.
+ */
+export interface MediaTransfer {
+  mediaId: string;
+  messageId: string;
+  chatId: string;
+  type: MediaType;
+  localUri: string;          // Decrypted file — empty until a download completes
+  size: number;              // Plaintext size in bytes
+  width: number;
+  height: number;
+  source: MediaSource;
+  senderJid?: string;
+  senderName?: string;
+  encryptionKey: string;     // Base64 XChaCha20-Poly1305 key
+  encryptionNonce: string;   // Base64 base nonce (per-chunk nonces derive from it)
+  chunkSize?: number;        // Plaintext bytes per encrypted chunk
+  status: MediaTransferStatus;
+  retryCount: number;
+  expiresAt: number;         // 7 days — the upload server deletes the file by then
+  uploadSlot?: UploadSlot;   // Sender: slot kept so an interrupted upload resumes
+  remoteUrl?: string;        // Download URL of the encrypted file
+}
+
+/** XEP-0363 upload slot handed out by the server's upload component */
+export interface UploadSlot {
+  putUrl: string;
+  getUrl: string;
+  /** Extra headers the PUT must carry (Authorization, Cookie, Expires) */
+  headers: Record<string, string>;
+}
+
 export interface ContactAddress {
   street?: string;           // Straat + huisnummer (e.g., "Kerkstraat 42")
   postalCode?: string;       // Postcode (e.g., "1012 AB")
@@ -131,6 +187,29 @@ export interface Contact {
   profileVersion?: number;
 }
 
+/**
+ * Local system events shown in a chat (contentType 'system').
+ * Never sent over the network — content holds the event, the UI translates it.
+ */
+export type SystemEvent = 'key_changed';
+
+/** A known contact's public key was replaced by a different one */
+export interface ContactKeyChange {
+  jid: string;
+  previousKey: string;
+  newKey: string;
+  /** Contact was Verified (trust level 3) — dropped to Connected (2) */
+  wasVerified: boolean;
+  changedAt: number;
+}
+
+/** One public key from a contact's key history */
+export interface ContactKeyRecord {
+  publicKey: string;         // Base64
+  firstSeenAt: number;
+  lastSeenAt: number;
+}
+
 /** Get full display name for a contact (e.g., "Oma Jansen") */
 export function getContactDisplayName(contact: Pick<Contact, 'firstName' | 'lastName'>): string {
   return `${contact.firstName} ${contact.lastName}`.trim();
@@ -151,6 +230,61 @@ export interface Group {
   encryptionMode: EncryptionMode;
 }
 
+// ============================================================
+// Linked Devices (multi-device sync)
+// ============================================================
+
+/**
+ * One device of this account (phone, tablet).
+ * Every device has its own subkey for sync stanzas; the account key
+ * certifies it, so only devices holding the account key can add devices.
+ */
+export interface LinkedDevice {
+  deviceId: string;          // Random hex, generated once per install
+  name: string;              // e.g. "iPad van Oma"
+  platform: 'ios' | 'android';
+  publicKey: string;         // Device subkey (crypto_box), Base64
+  certificate: string;       // crypto_auth over deviceId + publicKey with the account key
+  linkedAt: number;
+  lastSeenAt?: number;       // Last sync stanza received from this device
+  revokedAt?: number;        // Revoked devices no longer receive sync stanzas
+  isCurrent: boolean;        // This device
+}
+
+/**
+ * A change made on this device that linked devices mirror.
+ * Emitted by DatabaseService for contact, group and read-marker writes.
+ */
+export type LocalChange =
+  | { type: 'contact'; contact: Contact }
+  | { type: 'contact_removed'; jid: string }
+  | { type: 'group'; group: Group }
+  | { type: 'read'; chatId: string };
+
+/**
+ * Event mirrored to linked devices (inside an encrypted sync envelope).
+ * `media` carries the encrypted photo pointer so the other device can download it.
+ */
+export type DeviceSyncEvent =
+  | LocalChange
+  | { type: 'message'; message: Message; media?: MediaPointer }
+  | { type: 'status'; messageId: string; status: DeliveryStatus; media?: MediaPointer }
+  | { type: 'device_joined' }
+  | { type: 'device_revoked'; deviceId: string; revokedAt: number };
+
+/** Public part of a device, as announced in every sync envelope */
+export type AnnouncedDevice = Pick<LinkedDevice, 'deviceId' | 'name' | 'platform' | 'publicKey' | 'certificate' | 'linkedAt'>;
+
+/**
+ * Sync stanza payload (urn:commeazy:sync:1), sent to our own bare JID.
+ * Carries the sending device (so a newly linked device introduces itself)
+ * and one sealed copy of the event per recipient device.
+ */
+export interface DeviceSyncEnvelope {
+  device: AnnouncedDevice;
+  boxes: Record<string, { nonce: string; ciphertext: string }>;
+}
+
 export interface UserProfile {
   // Identity (UUID is stable, name can change)
   userUuid: string;                      // Stable identifier, generated once at onboarding
@@ -340,6 +474,15 @@ export interface DatabaseService {
   getMessages(chatId: string, limit: number, offset?: number): Promise<Message[]>;
   observeMessages(chatId: string, limit: number): Observable<Message[]>;
   deleteMessage(messageId: string): Promise<void>;
+  getMessage(messageId: string): Promise<Message | null>;
+  /** Replace the content, keeping the previous version in editHistory */
+  editMessage(messageId: string, content: string, editedAt: number): Promise<void>;
+  /** Delete for everyone: clears content and thumbnail, keeps a tombstone */
+  retractMessage(messageId: string, retractedAt: number): Promise<void>;
+  /** Set one person's reaction, or remove it (emoji null) */
+  setMessageReaction(messageId: string, reactorJid: string, emoji: string | null): Promise<void>;
+  /** Store the on-device transcription of a voice message */
+  setMessageTranscript(messageId: string, transcript: string): Promise<void>;
   updateMessageStatus(messageId: string, status: DeliveryStatus): Promise<void>;
   markMessageAsRead(messageId: string): Promise<void>;
   markAllMessagesAsRead(chatId: string): Promise<void>;
@@ -354,6 +497,12 @@ export interface DatabaseService {
   getExpiredOutbox(): Promise<OutboxMessage[]>;
   cleanupExpiredOutbox(): Promise<number>;
 
+  // Media transfers (encrypted upload / download state)
+  saveMediaTransfer(transfer: MediaTransfer): Promise<void>;
+  getMediaTransfer(mediaId: string): Promise<MediaTransfer | null>;
+  /** Unfinished, unexpired transfers — resumed after reconnect */
+  getPendingMediaTransfers(): Promise<MediaTransfer[]>;
+
   // Contacts
   saveContact(contact: Contact): Promise<void>;
   getContacts(): Observable<Contact[]>;
@@ -361,6 +510,10 @@ export interface DatabaseService {
   getContactsOnce(): Promise<Contact[]>;
   getContact(jid: string): Promise<Contact | null>;
   deleteContact(jid: string): Promise<void>;
+  /** Every public key ever stored for the contact, oldest first */
+  getContactKeyHistory(jid: string): Promise<ContactKeyRecord[]>;
+  /** Fires after saveContact replaced a known contact's public key */
+  onContactKeyChanged(listener: (change: ContactKeyChange) => void): Unsubscribe;
 
   // Groups
   saveGroup(group: Group): Promise<void>;
@@ -370,11 +523,71 @@ export interface DatabaseService {
   getGroup(id: string): Promise<Group | null>;
   updateGroupMembers(groupId: string, members: string[]): Promise<void>;
 
+  /** Fires after contact, group and read-marker writes (mirrored to linked devices) */
+  onLocalChange(listener: (change: LocalChange) => void): Unsubscribe;
+
+  // Linked devices (multi-device sync)
+  getLinkedDevices(): Promise<LinkedDevice[]>;
+  saveLinkedDevice(device: LinkedDevice): Promise<void>;
+
+  // Call history
+  saveCallLogEntry(entry: CallLogEntry): Promise<void>;
+  /** Newest first; only calls started at or after `since` when given */
+  getCallLog(limit: number, since?: number): Promise<CallLogEntry[]>;
+  observeCallLog(limit: number): Observable<CallLogEntry[]>;
+  /** Missed calls not yet seen in the Recent tab */
+  observeUnseenMissedCallCount(): Observable<number>;
+  markMissedCallsSeen(seenAt: number): Promise<void>;
+
   // User profile
   saveUserProfile(profile: UserProfile): Promise<void>;
   getUserProfile(): Promise<UserProfile | null>;
+
+  // Ratchet sessions (sealed by EncryptionService)
+  getRatchetSession(contactJid: string): Promise<StoredRatchetSession | null>;
+  saveRatchetSession(contactJid: string, session: StoredRatchetSession): Promise<void>;
+  deleteRatchetSession(contactJid: string): Promise<void>;
+
+  // Group sender keys (sealed by EncryptionService)
+  getSenderKey(groupId: string, senderJid: string): Promise<StoredSenderKey | null>;
+  saveSenderKey(groupId: string, senderJid: string, key: StoredSenderKey): Promise<void>;
+  /** Delete one member's sender key, or all sender keys of the group */
+  deleteSenderKeys(groupId: string, senderJid?: string): Promise<void>;
 }
 
+/**
+ * Sealed Double Ratchet session blobs for one contact.
+ * Opaque to the database — only EncryptionService can open them.
+ */
+export interface StoredRatchetSession {
+  current: string;
+  previous?: string;
+  /** Handshake keys accepted from this contact — a replayed handshake is rejected */
+  seenHandshakes?: string;
+}
+
+/** Persistence for ratchet sessions, injected into EncryptionService */
+export type RatchetSessionStore = Pick<
+  DatabaseService,
+  'getRatchetSession' | 'saveRatchetSession' | 'deleteRatchetSession'
+>;
+
+/**
+ * Sealed sender key state for one member of one group.
+ * For our own key, `distributedTo` lists the members that received it.
+ */
+export interface StoredSenderKey {
+  current: string;
+  previous?: string;
+  distributedTo?: string[];
+}
+
+/** Persistence for group sender keys, injected into EncryptionService */
+export type SenderKeyStore = Pick<
+  DatabaseService,
+  'getSenderKey' | 'saveSenderKey' | 'deleteSenderKeys'
+>;
+
 // ============================================================
 // EncryptionService
 // Implementation: SodiumEncryptionService (libsodium)
@@ -389,8 +602,43 @@ export interface EncryptionService {
   /** Set the current user's JID for group decryption (shared-key mode). */
   setMyJid(jid: string): void;
 
-  encrypt(plaintext: string | Uint8Array, recipients: Recipient[]): Promise<EncryptedPayload>;
-  decrypt(payload: EncryptedPayload, senderPublicKey: Uint8Array): Promise<string>;
+  /** Inject session persistence for 'ratchet' and 'sender-key' modes (database is initialized after encryption). */
+  setSessionStore(store: RatchetSessionStore & SenderKeyStore): void;
+
+  /**
+   * Encrypt for recipients. Mode is chosen by recipient count unless
+   * `preferredMode` is 'ratchet' and there is exactly one recipient.
+   */
+  encrypt(
+    plaintext: string | Uint8Array,
+    recipients: Recipient[],
+    preferredMode?: EncryptionMode,
+  ): Promise<EncryptedPayload>;
+  /**
+   * Decrypt a payload from `senderJid` (authenticated bare JID from the stanza).
+   * 'ratchet' payloads whose metadata.from differs are rejected.
+   */
+  decrypt(payload: EncryptedPayload, senderPublicKey: Uint8Array, senderJid: string): Promise<string>;
+
+  // Group sender keys ('sender-key' mode)
+  /** Encrypt once for the whole group with our sender key (created on first use). */
+  encryptForGroup(groupId: string, plaintext: string | Uint8Array): Promise<EncryptedPayload>;
+  /** @throws AppError E202 (reason 'sender_key_missing') until the sender's key has arrived */
+  decryptFromGroup(payload: EncryptedPayload, senderJid: string): Promise<string>;
+  /** Our sender key as distribution JSON, plus the members that already received it. */
+  getSenderKeyDistribution(groupId: string): Promise<{ distribution: string; distributedTo: string[] }>;
+  markSenderKeyDistributed(groupId: string, memberJids: string[]): Promise<void>;
+  /** Store a member's sender key (rejected if it was issued for another group). */
+  processSenderKeyDistribution(groupId: string, senderJid: string, distribution: string): Promise<void>;
+  /** Replace our sender key — members must receive the new one before it is used. */
+  rotateSenderKey(groupId: string): Promise<void>;
+  deleteSenderKeys(groupId: string, senderJid?: string): Promise<void>;
+
+  // Linked devices
+  /** Certify a device subkey with the account key (base64 certificate). */
+  certifyDeviceKey(deviceId: string, devicePublicKey: string): string;
+  /** True when the certificate was made by a holder of our account key. */
+  verifyDeviceCertificate(deviceId: string, devicePublicKey: string, certificate: string): boolean;
 
   generateQRData(): Promise<string>;
   verifyQRData(qrData: string, expectedPublicKey: string): boolean;
@@ -428,11 +676,22 @@ export interface XMPPService {
   subscribeToPresence(contactJid: string): Promise<void>;
   probePresence(contactJid: string): Promise<void>;
 
+  // HTTP File Upload (XEP-0363)
+  requestUploadSlot(filename: string, size: number, contentType: string): Promise<UploadSlot>;
+
   // MUC (Group Chat)
   joinMUC(roomJid: string, nickname: string): Promise<void>;
   leaveMUC(roomJid: string): Promise<void>;
   sendMUCMessage(roomJid: string, payload: EncryptedPayload, messageId: string): Promise<void>;
 
+  // Group sender keys (distributed over 1-on-1 ratchet channels)
+  sendSenderKey(to: string, payload: EncryptedPayload): Promise<void>;
+  onSenderKey(handler: (from: string, payload: EncryptedPayload) => void): Unsubscribe;
+
+  // Multi-device sync (sent to our own bare JID, reaches every linked device)
+  sendDeviceSync(envelope: DeviceSyncEnvelope): Promise<void>;
+  onDeviceSync(handler: (envelope: DeviceSyncEnvelope) => void): Unsubscribe;
+
   // Push Notifications (XEP-0357)
   enablePushNotifications(fcmToken: string, apnsToken?: string, voipToken?: string): Promise<void>;
   disablePushNotifications(): Promise<void>;
@@ -512,6 +771,21 @@ export type CallEndReason =
   | 'failed'         // ICE/network connection failed
   | 'error';         // Unexpected error
 
+/**
+ * How a call's media travels
+ * - mesh: directly between phones (1-on-1 and 3-way)
+ * - sfu: through the group call server (more than 3 participants)
+ */
+export type CallMode = 'mesh' | 'sfu';
+
+/**
+ * Link quality to a participant, from RTT, packet loss, jitter and bandwidth
+ * - good: full video quality
+ * - fair: reduced resolution and framerate
+ * - poor: video paused, audio only
+ */
+export type ConnectionQuality = 'good' | 'fair' | 'poor';
+
 /**
  * A participant in a call (1-on-1 or 3-way)
  */
@@ -521,6 +795,10 @@ export interface CallParticipant {
   isMuted: boolean;
   isVideoEnabled: boolean;
   connectionState: 'connecting' | 'connected' | 'disconnected';
+  /** Same 6 digits on both phones; only when both sides are verified contacts */
+  verificationCode?: string;
+  /** Measured link quality, once media flows */
+  quality?: ConnectionQuality;
 }
 
 /**
@@ -539,6 +817,26 @@ export interface ActiveCall {
   isSpeakerOn: boolean;                 // Speaker mode (vs earpiece)
   isVideoEnabled: boolean;              // Local camera enabled
   isFrontCamera: boolean;               // Front or back camera
+  mode?: CallMode;                      // 'sfu' for group calls (default mesh)
+  isFrameEncrypted?: boolean;           // SFU calls: media end-to-end encrypted on this device
+}
+
+/**
+ * One finished call in the call history
+ * Recorded by CallLogService from CallService state and end events
+ */
+export interface CallLogEntry {
+  callId: string;                       // CallService call ID
+  type: CallType;                       // voice or video
+  direction: CallDirection;             // incoming or outgoing
+  participants: { jid: string; name: string }[];  // Other people in the call (without self)
+  startedAt: number;                    // Timestamp ringing started
+  connectedAt?: number;                 // Timestamp answered (undefined if never connected)
+  endedAt: number;                      // Timestamp ended
+  duration: number;                     // Seconds connected (0 if never connected)
+  endReason: CallEndReason;
+  isMissed: boolean;                    // Incoming, not answered, not declined by us
+  seenAt?: number;                      // Missed call seen in the Recent tab
 }
 
 /**
@@ -655,6 +953,19 @@ export interface CallService {
    */
   canAddParticipant(callId: string): boolean;
 
+  // ============================================================
+  // Group Calls
+  // ============================================================
+
+  /**
+   * Call several contacts at once. Up to 2 contacts this is a normal
+   * (mesh) call; with more the call goes through the SFU.
+   * @param contactJids - The contacts to call (max MAX_GROUP_PARTICIPANTS - 1)
+   * @param type - 'voice' or 'video'
+   * @returns The unique call ID
+   */
+  initiateGroupCall(contactJids: string[], type: CallType): Promise<string>;
+
   // ============================================================
   // Local Controls
   // ============================================================
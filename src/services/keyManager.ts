@@ -5,8 +5,16 @@
  * - Generates a random key on first launch via libsodium
  * - Stores it in iOS Keychain (accessible: AFTER_FIRST_UNLOCK — survives iCloud Backup)
  * - Retrieves it on subsequent launches
+ * - Rotates it (SQLCipher PRAGMA rekey) with crash recovery
  *
- * Fase 4 fundament: rotateKey() stub for future key rotation.
+ * Key rotation uses two Keychain slots:
+ * - current: the key all databases are encrypted with
+ * - pending: the next key — its presence means a rotation is in progress
+ *
+ * The pending key is written BEFORE any database is touched, and only promoted
+ * to current after every database has been re-keyed. A rotation interrupted at
+ * any point is rolled forward by completeKeyRotation() on the next launch:
+ * each database reports which key opens it, so re-keying is idempotent.
  *
  * @see TESTFLIGHT_SECURITY_HARDENING.md Item 1.1
  */
@@ -16,6 +24,23 @@ import { randombytes_buf, to_hex, ready as sodiumReady } from 'react-native-libs
 
 const DB_KEY_SERVICE = 'com.commeazy.database.key';
 const DB_KEY_ACCOUNT = 'databaseEncryptionKey';
+const PENDING_KEY_SERVICE = 'com.commeazy.database.key.pending';
+const PENDING_KEY_ACCOUNT = 'pendingDatabaseEncryptionKey';
+
+/**
+ * A SQLCipher database that takes part in key rotation.
+ * Implementations must be closed (or closable) while rekey() runs.
+ *
+ * @see services/databaseRekey.ts for the on-device targets
+ */
+export interface RekeyTarget {
+  /** Name for logging */
+  name: string;
+  /** Whether the database opens (and is readable) with this key */
+  canOpen(keyHex: string): Promise<boolean>;
+  /** Re-encrypt the database from oldKey to newKey */
+  rekey(oldKeyHex: string, newKeyHex: string): Promise<void>;
+}
 
 /**
  * Get the database encryption key from Keychain.
@@ -69,18 +94,124 @@ export async function hasDatabaseKey(): Promise<boolean> {
 }
 
 /**
- * Rotate the database encryption key.
+ * The key to open a database with: the current key, unless a rotation failed
+ * part-way and this database is already on the pending key. The pending key
+ * then stays in Keychain, so completeKeyRotation() resumes on next launch.
+ */
+export async function getDatabaseKeyFor(target: RekeyTarget): Promise<string> {
+  const currentKey = await getDatabaseKey();
+  const pendingKey = await getPendingKey();
+  if (!pendingKey || pendingKey === currentKey || (await target.canOpen(currentKey))) {
+    return currentKey;
+  }
+  return (await target.canOpen(pendingKey)) ? pendingKey : currentKey;
+}
+
+/**
+ * Start a key rotation: generate the next key and store it in the pending slot.
+ * No database is touched — completeKeyRotation() does the re-keying.
+ *
+ * Safe to call from a running app: the databases are re-keyed on the next
+ * launch, before they are opened. If a rotation is already pending, that key
+ * is kept.
+ */
+export async function scheduleKeyRotation(): Promise<void> {
+  await sodiumReady;
+
+  if (await getPendingKey()) {
+    console.info('[KeyManager] Key rotation already scheduled');
+    return;
+  }
+
+  const keyHex = to_hex(randombytes_buf(32));
+  await Keychain.setGenericPassword(PENDING_KEY_ACCOUNT, keyHex, {
+    service: PENDING_KEY_SERVICE,
+    accessible: Keychain.ACCESSIBLE.AFTER_FIRST_UNLOCK,
+  });
+  console.info('[KeyManager] Key rotation scheduled');
+}
+
+/**
+ * Check if a key rotation is in progress (scheduled or interrupted).
+ */
+export async function isKeyRotationPending(): Promise<boolean> {
+  return (await getPendingKey()) !== null;
+}
+
+/**
+ * Finish a pending key rotation (no-op if none is pending).
+ * Call on startup BEFORE any target database is opened.
+ *
+ * Per target:
+ * - opens with the pending key → already re-keyed, skip
+ * - opens with the current key → PRAGMA rekey to the pending key
+ * - opens with neither → abort; both keys stay in Keychain, nothing is lost
+ *
+ * When every target is on the pending key, it replaces the current key
+ * (single Keychain write) and the pending slot is cleared.
+ *
+ * @returns true if a rotation was completed
+ * @throws Error if a target cannot be opened with either key
+ */
+export async function completeKeyRotation(targets: RekeyTarget[]): Promise<boolean> {
+  const pendingKey = await getPendingKey();
+  if (!pendingKey) return false;
+
+  const currentKey = await getDatabaseKey();
+
+  if (currentKey !== pendingKey) {
+    for (const target of targets) {
+      if (await target.canOpen(pendingKey)) {
+        console.debug(`[KeyManager] ${target.name} already uses the new key`);
+        continue;
+      }
+      if (!(await target.canOpen(currentKey))) {
+        throw new Error(`[KeyManager] ${target.name} cannot be opened with the current or new key`);
+      }
+      await target.rekey(currentKey, pendingKey);
+      console.info(`[KeyManager] ${target.name} re-keyed`);
+    }
+
+    // Promote: from here on every target opens with the new key
+    await Keychain.setGenericPassword(DB_KEY_ACCOUNT, pendingKey, {
+      service: DB_KEY_SERVICE,
+      accessible: Keychain.ACCESSIBLE.AFTER_FIRST_UNLOCK,
+    });
+  }
+
+  // A crash before this line leaves current === pending, which is handled above
+  await Keychain.resetGenericPassword({ service: PENDING_KEY_SERVICE });
+  console.info('[KeyManager] Key rotation completed');
+  return true;
+}
+
+/**
+ * Rotate the database encryption key now.
  *
- * TODO: Implement key rotation (Fase 4 — evaluate during TestFlight).
  * Steps:
- * 1. Generate new random key
- * 2. Re-encrypt database with new key (SQLCipher PRAGMA rekey)
- * 3. Store new key in Keychain
- * 4. Delete old key
+ * 1. Generate new random key (pending slot)
+ * 2. Re-encrypt each database with the new key (SQLCipher PRAGMA rekey)
+ * 3. Store new key as current key in Keychain
+ * 4. Delete the pending key
  *
- * @throws Error — Not yet implemented
+ * All targets must be closed. In the running app, use scheduleKeyRotation()
+ * instead — the main database stays open for the app's lifetime.
+ *
+ * @throws Error if a target cannot be re-keyed (the rotation resumes on next launch)
+ */
+export async function rotateKey(targets: RekeyTarget[]): Promise<void> {
+  // Finish an interrupted rotation first, so it never gets a second new key
+  await completeKeyRotation(targets);
+  await scheduleKeyRotation();
+  await completeKeyRotation(targets);
+}
+
+/**
+ * The pending key, or null when no rotation is in progress.
+ * A failed Keychain read throws: it must not look like "nothing pending",
+ * or a half-finished rotation would be skipped or a new key scheduled.
  */
-export async function rotateKey(): Promise<void> {
-  // TODO: implement key rotation (Fase 4)
-  throw new Error('Key rotation not yet implemented — see TESTFLIGHT_SECURITY_HARDENING.md Fase 4.4');
+async function getPendingKey(): Promise<string | null> {
+  const result = await Keychain.getGenericPassword({ service: PENDING_KEY_SERVICE });
+  return result && result.password ? result.password : null;
 }
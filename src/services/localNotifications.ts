@@ -154,6 +154,7 @@ export const NOTIFICATION_CHANNELS: Record<string, NotificationChannel> = {
 export const NOTIFICATION_CATEGORIES = {
   MEDICATION_REMINDER: 'medication-reminder',
   AGENDA_REMINDER: 'agenda-reminder',
+  CHECK_IN_REMINDER: 'check-in-reminder',
 } as const;
 
 /** Predefined actions for medication notifications */
@@ -572,6 +573,15 @@ class LocalNotificationService {
             },
           ],
         },
+        {
+          id: NOTIFICATION_CATEGORIES.CHECK_IN_REMINDER,
+          actions: [
+            {
+              id: 'check-in-ok',
+              title: '👍 Alles goed', // Fallback
+            },
+          ],
+        },
       ]);
     } catch (error) {
       console.warn('[LocalNotifications] Category setup failed:', error);
@@ -0,0 +1,172 @@
+/**
+ * Calendar Mail Service — Send and hand over .ics files
+ *
+ * - Answer invitations received by mail (iTIP REPLY to the organizer)
+ * - Mail agenda items to family members as an .ics attachment
+ * - Export a date range as an .ics file (share sheet on iOS,
+ *   Downloads on Android, like podcast OPML and backups)
+ *
+ * The .ics content itself is built by icsWriter.ts. Attachments go
+ * through a temp file because Hermes has no Buffer for base64.
+ *
+ * @see src/services/mail/icsWriter.ts
+ * @see src/services/podcastOpml.ts (same file hand-over)
+ */
+
+import { Platform, Share } from 'react-native';
+import RNFS from 'react-native-fs';
+
+import type { EmailAddress, MailAccount } from '@/types/mail';
+import type { ParsedCalendarEvent } from './icsParser';
+import {
+  buildInvitationReply,
+  pickAttendeeAddress,
+  type InvitationResponse,
+} from './icsWriter';
+
+// ============================================================
+// Constants
+// ============================================================
+
+const ICS_MIME_TYPE = 'text/calendar';
+const REPLY_FILE_NAME = 'reply.ics';
+
+// ============================================================
+// Helpers
+// ============================================================
+
+/** Turn an appointment title into a safe file name */
+export function icsFileName(title: string): string {
+  const base = title
+    .replace(/[\\/:*?"<>|]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 60);
+  return `${base || 'CommEazy'}.ics`;
+}
+
+async function writeIcsFile(content: string, fileName: string): Promise<string> {
+  const path = `${RNFS.CachesDirectoryPath}/${fileName}`;
+  await RNFS.writeFile(path, content, 'utf8');
+  return path;
+}
+
+async function sendWithAccount(
+  account: MailAccount,
+  params: {
+    to: EmailAddress[];
+    subject: string;
+    body: string;
+    ics: string;
+    fileName: string;
+    mimeType: string;
+  },
+): Promise<void> {
+  const smtpBridge = await import('./smtpBridge');
+  const credentialManager = await import('./credentialManager');
+
+  const credentials = await credentialManager.getCredentials(account.id);
+  if (!credentials) {
+    throw new Error('[calendarMailService] No credentials found for account');
+  }
+
+  const path = await writeIcsFile(params.ics, params.fileName);
+  try {
+    await smtpBridge.sendMessage({
+      smtpConfig: credentialManager.buildSMTPConfig(credentials),
+      from: { name: account.displayName, address: account.email },
+      to: params.to,
+      subject: params.subject,
+      body: params.body,
+      attachments: [{ filePath: path, fileName: params.fileName, mimeType: params.mimeType }],
+    });
+  } finally {
+    RNFS.unlink(path).catch(() => {});
+  }
+}
+
+// ============================================================
+// Public API
+// ============================================================
+
+/**
+ * Answer a calendar invitation: sends a METHOD:REPLY to the organizer,
+ * which calendar servers (Google, Outlook, iCloud) apply to the event.
+ *
+ * @param account - Mail account the invitation was received on
+ * @param event - Parsed invitation (needs UID and organizer)
+ * @param response - accepted / declined / tentative
+ * @param subject - Localized subject, e.g. "Geaccepteerd: Verjaardag Oma"
+ * @param body - Localized plain text body
+ */
+export async function sendInvitationReply(
+  account: MailAccount,
+  event: ParsedCalendarEvent,
+  response: InvitationResponse,
+  subject: string,
+  body: string,
+): Promise<void> {
+  if (!event.organizer) {
+    throw new Error('[calendarMailService] Invitation has no organizer');
+  }
+
+  const ics = buildInvitationReply(
+    event,
+    { email: pickAttendeeAddress(event, account.email), name: account.displayName },
+    response,
+  );
+
+  await sendWithAccount(account, {
+    to: [{ address: event.organizer }],
+    subject,
+    body,
+    ics,
+    fileName: REPLY_FILE_NAME,
+    mimeType: `${ICS_MIME_TYPE}; method=REPLY`,
+  });
+  console.info('[calendarMailService] Invitation reply sent:', response);
+}
+
+/**
+ * Mail an .ics file with agenda items from the default mail account.
+ *
+ * @returns false when no mail account is set up
+ */
+export async function sendCalendarByMail(params: {
+  to: EmailAddress[];
+  subject: string;
+  body: string;
+  ics: string;
+  fileName: string;
+}): Promise<boolean> {
+  const credentialManager = await import('./credentialManager');
+  const account = await credentialManager.getDefaultAccount();
+  if (!account) return false;
+
+  await sendWithAccount(account, {
+    ...params,
+    mimeType: `${ICS_MIME_TYPE}; method=PUBLISH`,
+  });
+  return true;
+}
+
+/**
+ * Write an .ics file and hand it to the user.
+ *
+ * @returns 'shared' when the share sheet was used, 'saved' for Downloads
+ */
+export async function exportCalendarFile(ics: string, fileName: string): Promise<'shared' | 'saved'> {
+  const path = await writeIcsFile(ics, fileName);
+
+  if (Platform.OS === 'ios') {
+    await Share.share({ url: `file://${path}` });
+    return 'shared';
+  }
+
+  const target = `${RNFS.DownloadDirectoryPath}/${fileName}`;
+  if (await RNFS.exists(target)) {
+    await RNFS.unlink(target);
+  }
+  await RNFS.copyFile(path, target);
+  return 'saved';
+}
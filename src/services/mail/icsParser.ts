@@ -12,8 +12,11 @@
  * - DTEND → endTime
  * - LOCATION → locationName
  * - DESCRIPTION → notes
- * - RRULE → repeatType
+ * - RRULE → rrule (+ repeatType for the repeat picker)
+ * - EXDATE → exdates
+ * - RECURRENCE-ID → override of one occurrence (exception record)
  * - VALARM → reminderOffset
+ * - ORGANIZER / ATTENDEE / SEQUENCE → kept for iTIP replies (icsWriter.ts)
  *
  * @see types/mail.ts for MailAttachmentMeta (ICS detection via mimeType)
  * @see contexts/AgendaContext.tsx for CreateAgendaItemData
@@ -21,7 +24,8 @@
 
 import ICAL from 'ical.js';
 import type { CreateAgendaItemData } from '@/contexts/AgendaContext';
-import type { RepeatType, ReminderOffset } from '@/constants/agendaCategories';
+import type { ReminderOffset } from '@/constants/agendaCategories';
+import { parseRRule, formatRRule, repeatTypeForRule, toDayKey } from '@/services/agendaRecurrence';
 
 // ============================================================
 // Types
@@ -41,10 +45,26 @@ export interface ParsedCalendarEvent {
   description: string | null;
   /** Organizer email */
   organizer: string | null;
+  /** Attendee emails (lowercase) */
+  attendees: string[];
+  /** iTIP method of the calendar (REQUEST, PUBLISH, CANCEL, …) */
+  method: string | null;
+  /** Revision of the invitation (SEQUENCE), echoed in replies */
+  sequence: number;
   /** Whether this is an all-day event */
   isAllDay: boolean;
-  /** Recurrence rule string (FREQ=DAILY, etc.) */
+  /** Event UID (links overrides to their series) */
+  uid: string | null;
+  /** Recurrence rule frequency (DAILY, WEEKLY, …) */
   rruleFreq: string | null;
+  /** Full recurrence rule value, null when not repeating or unsupported */
+  rrule: string | null;
+  /** Excluded days "YYYY-MM-DD" (EXDATE) */
+  exdates: string[];
+  /** Original start of the occurrence this event overrides (RECURRENCE-ID) */
+  recurrenceId: Date | null;
+  /** STATUS:CANCELLED — for overrides: the occurrence is removed */
+  isCancelled: boolean;
   /** Alarm offset in minutes before event (null = no alarm) */
   alarmMinutesBefore: number | null;
 }
@@ -64,8 +84,11 @@ export function parseICS(icsContent: string): ParsedCalendarEvent[] {
     const jcalData = ICAL.parse(icsContent);
     const comp = new ICAL.Component(jcalData);
     const vevents = comp.getAllSubcomponents('vevent');
+    const method = comp.getFirstPropertyValue('method');
 
-    return vevents.map(parseVEvent).filter(Boolean) as ParsedCalendarEvent[];
+    return vevents
+      .map(vevent => parseVEvent(vevent, typeof method === 'string' ? method.toUpperCase() : null))
+      .filter(Boolean) as ParsedCalendarEvent[];
   } catch (error) {
     console.error('[icsParser] Failed to parse ICS content:', error);
     return [];
@@ -75,7 +98,7 @@ export function parseICS(icsContent: string): ParsedCalendarEvent[] {
 /**
  * Parse a single VEVENT component into a ParsedCalendarEvent.
  */
-function parseVEvent(vevent: ICAL.Component): ParsedCalendarEvent | null {
+function parseVEvent(vevent: ICAL.Component, method: string | null): ParsedCalendarEvent | null {
   try {
     const event = new ICAL.Event(vevent);
 
@@ -110,16 +133,44 @@ function parseVEvent(vevent: ICAL.Component): ParsedCalendarEvent | null {
       }
     }
 
+    // Attendees (needed to answer the invitation as the right address)
+    const attendees: string[] = [];
+    for (const attendeeProp of vevent.getAllProperties('attendee')) {
+      const value = attendeeProp.getFirstValue();
+      if (typeof value === 'string') {
+        attendees.push(value.replace(/^mailto:/i, '').toLowerCase());
+      }
+    }
+
     // Recurrence rule
     let rruleFreq: string | null = null;
+    let rrule: string | null = null;
     const rruleProp = vevent.getFirstProperty('rrule');
     if (rruleProp) {
-      const rrule = rruleProp.getFirstValue();
-      if (rrule && typeof rrule === 'object' && 'freq' in rrule) {
-        rruleFreq = (rrule as { freq: string }).freq;
+      const recur = rruleProp.getFirstValue();
+      if (recur && typeof recur === 'object' && 'freq' in recur) {
+        rruleFreq = (recur as { freq: string }).freq;
+        rrule = mapRrule(String(recur), rruleFreq);
+      }
+    }
+
+    // Excluded occurrences (one EXDATE property may hold several dates)
+    const exdates: string[] = [];
+    for (const exdateProp of vevent.getAllProperties('exdate')) {
+      for (const value of exdateProp.getValues()) {
+        if (value && typeof value === 'object' && 'toJSDate' in value) {
+          exdates.push(toDayKey((value as ICAL.Time).toJSDate().getTime()));
+        }
       }
     }
 
+    // Override of a single occurrence
+    const recurrenceIdValue = vevent.getFirstPropertyValue('recurrence-id');
+    const recurrenceId = recurrenceIdValue && typeof recurrenceIdValue === 'object' && 'toJSDate' in recurrenceIdValue
+      ? recurrenceIdValue.toJSDate()
+      : null;
+    const status = vevent.getFirstPropertyValue('status');
+
     // Alarm (VALARM) — find earliest alarm trigger
     let alarmMinutesBefore: number | null = null;
     const valarms = vevent.getAllSubcomponents('valarm');
@@ -145,8 +196,16 @@ function parseVEvent(vevent: ICAL.Component): ParsedCalendarEvent | null {
       location,
       description,
       organizer,
+      attendees,
+      method,
+      sequence: event.sequence || 0,
       isAllDay,
+      uid: event.uid || null,
       rruleFreq,
+      rrule,
+      exdates,
+      recurrenceId,
+      isCancelled: typeof status === 'string' && status.toUpperCase() === 'CANCELLED',
       alarmMinutesBefore,
     };
   } catch (error) {
@@ -186,8 +245,8 @@ export function mapToAgendaData(
     endTime = `${String(endObj.getHours()).padStart(2, '0')}:${String(endObj.getMinutes()).padStart(2, '0')}`;
   }
 
-  // Map RRULE frequency to CommEazy RepeatType
-  const repeatType = mapRruleFreq(event.rruleFreq);
+  // Recurrence: full rule, with the picker's repeat type for display
+  const rule = event.rrule ? parseRRule(event.rrule) : null;
 
   // Map alarm to ReminderOffset
   const reminderOffset = mapAlarmToReminder(event.alarmMinutesBefore);
@@ -200,7 +259,10 @@ export function mapToAgendaData(
     title: event.summary,
     date: startOfDay.getTime(),
     time,
-    repeatType,
+    repeatType: rule ? repeatTypeForRule(rule) : undefined,
+    rrule: event.rrule ?? undefined,
+    exdates: event.exdates.length > 0 ? event.exdates : undefined,
+    endDate: rule?.until ? new Date(`${rule.until}T00:00:00`).getTime() : undefined,
     reminderOffset,
     locationName: event.location ?? undefined,
     // New fields (stored after schema v21):
@@ -211,18 +273,33 @@ export function mapToAgendaData(
 }
 
 /**
- * Map RRULE FREQ value to CommEazy RepeatType.
+ * Normalize an ICS RRULE for storage. Rules the recurrence engine cannot
+ * expand (BYWEEKNO, BYYEARDAY) fall back to their plain frequency, so the
+ * series still repeats; sub-daily rules are dropped.
  */
-function mapRruleFreq(freq: string | null): RepeatType | undefined {
-  if (!freq) return undefined;
-
-  switch (freq.toUpperCase()) {
-    case 'DAILY': return 'daily';
-    case 'WEEKLY': return 'weekly';
-    case 'MONTHLY': return 'monthly';
-    case 'YEARLY': return 'yearly';
-    default: return undefined;
-  }
+function mapRrule(value: string, freq: string): string | null {
+  const rule = parseRRule(value);
+  if (rule) return formatRRule(rule);
+
+  const fallback = parseRRule(`FREQ=${freq}`);
+  return fallback ? formatRRule(fallback) : null;
+}
+
+/**
+ * Split VEVENTs into series and overrides of single occurrences
+ * (same UID + RECURRENCE-ID), as calendar apps send them.
+ */
+export function groupRecurrenceOverrides(events: ParsedCalendarEvent[]): {
+  event: ParsedCalendarEvent;
+  overrides: ParsedCalendarEvent[];
+}[] {
+  const series = events.filter(e => !e.recurrenceId);
+  return series.map(event => ({
+    event,
+    overrides: event.uid
+      ? events.filter(e => e.recurrenceId && e.uid === event.uid)
+      : [],
+  }));
 }
 
 /**
@@ -0,0 +1,439 @@
+/**
+ * ICS Calendar Writer
+ *
+ * Serializes agenda items to iCalendar (.ics) so family members without
+ * CommEazy can add our appointments to their own calendar, and builds
+ * iTIP REPLY messages (accept/decline/tentative) for invitations that
+ * arrived by mail. Counterpart of icsParser.ts.
+ *
+ * Field mapping (reverse of icsParser):
+ * - title → SUMMARY
+ * - item_date + time → DTSTART (floating local time, like the agenda)
+ * - end_time → DTEND
+ * - location_name + address → LOCATION
+ * - notes → DESCRIPTION
+ * - rrule / repeat_type + end_date → RRULE
+ * - exdates + deleted occurrences → EXDATE
+ * - "alleen vandaag" exceptions → VEVENT with RECURRENCE-ID
+ * - reminder_offset → VALARM
+ *
+ * Pure string building — no ical.js, no native modules — so it can run
+ * in unit tests. Sending and file handling live in calendarMailService.ts.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc5545 (iCalendar)
+ * @see https://www.rfc-editor.org/rfc/rfc5546 (iTIP)
+ */
+
+import type { AgendaItemModel } from '@/models/AgendaItem';
+import { reminderOffsetToMs, type ReminderOffset } from '@/constants/agendaCategories';
+import { getItemRule, expandRecurrence, formatRRule, toDayKey } from '@/services/agendaRecurrence';
+import type { ParsedCalendarEvent } from './icsParser';
+
+// ============================================================
+// Types
+// ============================================================
+
+/** Agenda item fields needed for export (a record or a plain object) */
+export type IcsAgendaItem = Pick<
+  AgendaItemModel,
+  | 'id'
+  | 'title'
+  | 'itemDate'
+  | 'time'
+  | 'times'
+  | 'repeatType'
+  | 'endDate'
+  | 'rrule'
+  | 'exdates'
+  | 'reminderOffset'
+  | 'endTime'
+  | 'notes'
+  | 'locationName'
+  | 'addressStreet'
+  | 'addressPostalCode'
+  | 'addressCity'
+  | 'addressCountry'
+  | 'isHidden'
+  | 'parentId'
+  | 'exceptionDate'
+>;
+
+/** Answer to a calendar invitation */
+export type InvitationResponse = 'accepted' | 'declined' | 'tentative';
+
+// ============================================================
+// Constants
+// ============================================================
+
+const PRODID = '-//CommEazy//Agenda//EN';
+const UID_DOMAIN = 'commeazy.app';
+/** RFC 5545 §3.1: lines longer than 75 octets are folded */
+const MAX_LINE_OCTETS = 75;
+
+const PARTSTAT: Record<InvitationResponse, string> = {
+  accepted: 'ACCEPTED',
+  declined: 'DECLINED',
+  tentative: 'TENTATIVE',
+};
+
+// ============================================================
+// Formatting Helpers
+// ============================================================
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+/** "YYYY-MM-DD" → "YYYYMMDD" */
+function compactDay(dayKey: string): string {
+  return dayKey.replace(/-/g, '');
+}
+
+/** "HH:MM" → "HHMM00" */
+function compactTime(time: string): string {
+  const [hours, minutes] = time.split(':');
+  return `${pad(Number(hours))}${pad(Number(minutes) || 0)}00`;
+}
+
+/** DATE or floating DATE-TIME value for a day, e.g. "20240305T110000" */
+function localValue(dayKey: string, time: string | null): string {
+  return time ? `${compactDay(dayKey)}T${compactTime(time)}` : compactDay(dayKey);
+}
+
+/** UTC DATE-TIME, e.g. "20240305T100000Z" */
+function utcValue(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`
+    + `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+/** Property line for a date value, with VALUE=DATE for all-day events */
+function dateProperty(name: string, dayKey: string, time: string | null): string {
+  return time
+    ? `${name}:${localValue(dayKey, time)}`
+    : `${name};VALUE=DATE:${localValue(dayKey, null)}`;
+}
+
+/** Escape a TEXT value (RFC 5545 §3.3.11) */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/** Parameter value, quoted when it contains separators (e.g. CN="Jansen, Piet") */
+function paramValue(value: string): string {
+  const cleaned = value.replace(/"/g, '');
+  return /[:;,]/.test(cleaned) ? `"${cleaned}"` : cleaned;
+}
+
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
+}
+
+/**
+ * Fold a content line at 75 octets; continuation lines start with a space.
+ * Never splits a multi-byte character.
+ */
+export function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = utf8Length(char);
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function buildCalendar(method: 'PUBLISH' | 'REPLY', body: string[]): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    `PRODID:${PRODID}`,
+    'VERSION:2.0',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`,
+    ...body,
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// ============================================================
+// Agenda Items → VEVENT
+// ============================================================
+
+function parseJsonArray(value: string | undefined): string[] {
+  if (!value) return [];
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((v): v is string => typeof v === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Times of an item: one entry per VEVENT (medication can have several) */
+function itemTimes(item: IcsAgendaItem): (string | null)[] {
+  const times = parseJsonArray(item.times);
+  return times.length > 1 ? times : [item.time ?? times[0] ?? null];
+}
+
+function itemLocation(item: IcsAgendaItem): string | null {
+  const postalCity = [item.addressPostalCode, item.addressCity].filter(Boolean).join(' ');
+  const parts = [item.locationName, item.addressStreet, postalCity, item.addressCountry]
+    .filter((part): part is string => !!part && part.trim().length > 0);
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+/** TRIGGER value for a reminder offset, e.g. "-PT15M" or "-P1D" */
+function alarmTrigger(offset: ReminderOffset): string {
+  const minutes = reminderOffsetToMs(offset) / 60000;
+  if (minutes === 0) return 'PT0M';
+  if (minutes % 1440 === 0) return `-P${minutes / 1440}D`;
+  if (minutes % 60 === 0) return `-PT${minutes / 60}H`;
+  return `-PT${minutes}M`;
+}
+
+/** End of an event: DTEND on the next day when the end time is past midnight */
+function endProperty(dayKey: string, time: string | null, endTime: string | null | undefined): string | null {
+  if (!time || !endTime) return null;
+  if (endTime > time) return dateProperty('DTEND', dayKey, endTime);
+
+  const [year, month, date] = dayKey.split('-').map(Number);
+  return dateProperty('DTEND', toDayKey(new Date(year, month - 1, date + 1).getTime()), endTime);
+}
+
+interface VEventOptions {
+  uid: string;
+  dayKey: string;
+  time: string | null;
+  stamp: string;
+  rrule?: string | null;
+  exdates?: string[];
+  recurrenceId?: { dayKey: string; time: string | null };
+}
+
+function buildVEvent(item: IcsAgendaItem, options: VEventOptions): string[] {
+  const { uid, dayKey, time, stamp, rrule, exdates, recurrenceId } = options;
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${stamp}`,
+    dateProperty('DTSTART', dayKey, time),
+  ];
+
+  const end = endProperty(dayKey, time, item.endTime);
+  if (end) lines.push(end);
+  if (recurrenceId) lines.push(dateProperty('RECURRENCE-ID', recurrenceId.dayKey, recurrenceId.time));
+
+  if (rrule) {
+    // UNTIL must have the same value type as DTSTART
+    lines.push(`RRULE:${time ? rrule.replace(/UNTIL=(\d{8})(?!T)/, 'UNTIL=$1T235959') : rrule}`);
+  }
+  if (exdates && exdates.length > 0) {
+    lines.push(time
+      ? `EXDATE:${exdates.map(day => localValue(day, time)).join(',')}`
+      : `EXDATE;VALUE=DATE:${exdates.map(day => localValue(day, null)).join(',')}`);
+  }
+
+  lines.push(`SUMMARY:${escapeText(item.title)}`);
+  const location = itemLocation(item);
+  if (location) lines.push(`LOCATION:${escapeText(location)}`);
+  if (item.notes) lines.push(`DESCRIPTION:${escapeText(item.notes)}`);
+
+  if (item.reminderOffset) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(item.title)}`,
+      `TRIGGER:${alarmTrigger(item.reminderOffset as ReminderOffset)}`,
+      'END:VALARM',
+    );
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * VEVENTs for one agenda item: the series (or single appointment) plus
+ * one override per changed occurrence. Deleted occurrences become EXDATE.
+ *
+ * @param item - Series or single item (no parent)
+ * @param exceptions - Exception records of this item, hidden ones included
+ */
+function itemToVEvents(item: IcsAgendaItem, exceptions: IcsAgendaItem[], stamp: string): string[] {
+  const rule = getItemRule({ rrule: item.rrule, repeatType: item.repeatType, endDate: item.endDate });
+  const dayKey = toDayKey(item.itemDate);
+  const times = itemTimes(item);
+
+  const relevant = rule ? exceptions.filter(e => e.exceptionDate !== undefined) : [];
+  const exdates = rule
+    ? [...new Set([
+      ...parseJsonArray(item.exdates),
+      ...relevant.filter(e => e.isHidden).map(e => toDayKey(e.exceptionDate!)),
+    ])].sort()
+    : [];
+  const overrides = relevant.filter(e => !e.isHidden);
+
+  const lines: string[] = [];
+  times.forEach((time, index) => {
+    // Several medication times: one series per time, linked by UID suffix
+    const uid = times.length > 1 ? `${item.id}-${index}@${UID_DOMAIN}` : `${item.id}@${UID_DOMAIN}`;
+
+    lines.push(...buildVEvent(item, {
+      uid,
+      dayKey,
+      time,
+      stamp,
+      rrule: rule ? formatRRule(rule) : null,
+      exdates,
+    }));
+
+    for (const override of overrides) {
+      const overrideTimes = itemTimes(override);
+      lines.push(...buildVEvent(override, {
+        uid,
+        dayKey: toDayKey(override.itemDate),
+        time: time ? overrideTimes[index] ?? overrideTimes[0] ?? time : null,
+        stamp,
+        recurrenceId: { dayKey: toDayKey(override.exceptionDate!), time },
+      }));
+    }
+  });
+
+  return lines;
+}
+
+// ============================================================
+// Public API — Export
+// ============================================================
+
+/**
+ * Serialize agenda items to an iCalendar file (METHOD:PUBLISH).
+ *
+ * @param items - Series and single items (an exception record on its own
+ *   exports as a single appointment)
+ * @param exceptions - Exception records (parent_id set), hidden ones included
+ * @param now - DTSTAMP (defaults to now)
+ * @returns ICS content with CRLF line endings
+ */
+export function buildAgendaCalendar(
+  items: IcsAgendaItem[],
+  exceptions: IcsAgendaItem[] = [],
+  now: Date = new Date(),
+): string {
+  const stamp = utcValue(now);
+  const body: string[] = [];
+
+  for (const item of items) {
+    const itemExceptions = exceptions.filter(e => e.parentId === item.id);
+    body.push(...itemToVEvents(item, itemExceptions, stamp));
+  }
+
+  return buildCalendar('PUBLISH', body);
+}
+
+/**
+ * Items with at least one occurrence in a date range (inclusive, local midnights).
+ * Exception records are left out; buildAgendaCalendar adds them to their series.
+ */
+export function filterItemsInRange<T extends IcsAgendaItem>(
+  items: T[],
+  rangeStart: number,
+  rangeEnd: number,
+): T[] {
+  return items.filter(item => {
+    if (item.parentId || item.isHidden) return false;
+
+    const rule = getItemRule({ rrule: item.rrule, repeatType: item.repeatType, endDate: item.endDate });
+    if (!rule) return item.itemDate >= rangeStart && item.itemDate <= rangeEnd;
+
+    const exdates = new Set(parseJsonArray(item.exdates));
+    return expandRecurrence(rule, item.itemDate, rangeStart, rangeEnd, exdates).length > 0;
+  });
+}
+
+// ============================================================
+// Public API — iTIP Reply
+// ============================================================
+
+/**
+ * Whether an invitation can be answered: it needs a UID and an organizer,
+ * and must not be a cancellation or a plain published event.
+ */
+export function canReplyToInvitation(event: ParsedCalendarEvent): boolean {
+  if (!event.uid || !event.organizer || event.isCancelled) return false;
+  return event.method === 'REQUEST' || (event.method === null && event.attendees.length > 0);
+}
+
+/**
+ * Address to answer with: the attendee entry that matches one of our
+ * addresses, otherwise the account address itself.
+ */
+export function pickAttendeeAddress(event: ParsedCalendarEvent, accountEmail: string): string {
+  const own = accountEmail.toLowerCase();
+  return event.attendees.find(address => address === own) ?? accountEmail;
+}
+
+/**
+ * Build an iTIP REPLY (RFC 5546 §3.2.3) for an invitation.
+ *
+ * @param event - Invitation as parsed from the mail
+ * @param attendee - Our address (and name) as known to the organizer
+ * @param response - accepted / declined / tentative
+ * @param now - DTSTAMP (defaults to now)
+ */
+export function buildInvitationReply(
+  event: ParsedCalendarEvent,
+  attendee: { email: string; name?: string },
+  response: InvitationResponse,
+  now: Date = new Date(),
+): string {
+  if (!event.uid || !event.organizer) {
+    throw new Error('[icsWriter] Invitation has no UID or organizer');
+  }
+
+  const dayKey = toDayKey(event.dtstart.getTime());
+  const start = event.isAllDay
+    ? dateProperty('DTSTART', dayKey, null)
+    : `DTSTART:${utcValue(event.dtstart)}`;
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${utcValue(now)}`,
+    `SEQUENCE:${event.sequence}`,
+    start,
+  ];
+  if (event.recurrenceId) {
+    lines.push(event.isAllDay
+      ? dateProperty('RECURRENCE-ID', toDayKey(event.recurrenceId.getTime()), null)
+      : `RECURRENCE-ID:${utcValue(event.recurrenceId)}`);
+  }
+  lines.push(
+    `SUMMARY:${escapeText(event.summary)}`,
+    `ORGANIZER:mailto:${event.organizer}`,
+    `ATTENDEE;PARTSTAT=${PARTSTAT[response]}${attendee.name ? `;CN=${paramValue(attendee.name)}` : ''}:mailto:${attendee.email}`,
+    'END:VEVENT',
+  );
+
+  return buildCalendar('REPLY', lines);
+}
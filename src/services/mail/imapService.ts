@@ -8,6 +8,7 @@
  * - initialSync: Fetch latest N headers, populate cache
  * - incrementalSync: Fetch only new messages (UID > highest cached)
  * - getMessages: Read from local cache (offline-first)
+ * - cacheHeaders: Assign conversation thread ids, then store (mailThreading.ts)
  *
  * @see src/services/mail/imapBridge.ts — Native module wrapper
  * @see src/services/mail/mailCache.ts — Cache operations
@@ -18,6 +19,7 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import type { IMAPConfig, MailHeader, CachedMailHeader, MailBody, MailSyncState } from '@/types/mail';
 import * as imapBridge from './imapBridge';
 import * as mailCache from './mailCache';
+import { assignThreadIds } from './mailThreading';
 import * as credentialManager from './credentialManager';
 import type { MailDatabaseConnection } from '@/models/mailDatabase';
 
@@ -102,6 +104,35 @@ async function connectWithAccount(
   return credentialManager.buildIMAPConfig(credentials);
 }
 
+// ============================================================
+// Threading
+// ============================================================
+
+/**
+ * Store headers from the server with their conversation thread id.
+ * Replies are matched to cached messages of the account in any folder
+ * (Message-ID / In-Reply-To / References, subject as fallback).
+ *
+ * @param db - Mail cache database connection
+ * @param accountId - Account identifier
+ * @param folder - Mailbox folder name
+ * @param headers - Headers as returned by the native module
+ */
+export async function cacheHeaders(
+  db: MailDatabaseConnection,
+  accountId: string,
+  folder: string,
+  headers: MailHeader[],
+): Promise<void> {
+  const threaded = await assignThreadIds(headers, folder, {
+    findThreadByMessageIds: (messageIds) =>
+      mailCache.findThreadIdByMessageIds(db, accountId, messageIds),
+    findThreadBySubject: (subject, sinceIso) =>
+      mailCache.findThreadIdBySubject(db, accountId, subject, sinceIso),
+  });
+  await mailCache.upsertHeaders(db, accountId, folder, threaded);
+}
+
 // ============================================================
 // Initial Sync
 // ============================================================
@@ -143,7 +174,7 @@ export async function initialSync(
     }
 
     // Store headers in cache
-    await mailCache.upsertHeaders(db, accountId, folder, headers);
+    await cacheHeaders(db, accountId, folder, headers);
 
     // Compute sync boundaries
     const highestUid = Math.max(...headers.map(h => h.uid));
@@ -198,7 +229,7 @@ export async function initialSyncForAccount(
       return;
     }
 
-    await mailCache.upsertHeaders(db, accountId, folder, headers);
+    await cacheHeaders(db, accountId, folder, headers);
 
     const highestUid = Math.max(...headers.map(h => h.uid));
     const lowestUid = Math.min(...headers.map(h => h.uid));
@@ -280,7 +311,7 @@ export async function incrementalSync(
     }
 
     // Store new headers in cache
-    await mailCache.upsertHeaders(db, accountId, folder, newHeaders);
+    await cacheHeaders(db, accountId, folder, newHeaders);
 
     // Update sync state
     const newHighestUid = Math.max(
@@ -347,7 +378,7 @@ export async function incrementalSyncForAccount(
       return 0;
     }
 
-    await mailCache.upsertHeaders(db, accountId, folder, newHeaders);
+    await cacheHeaders(db, accountId, folder, newHeaders);
 
     const newHighestUid = Math.max(
       syncState.highestUid,
@@ -635,6 +666,23 @@ export async function getMessages(
   return await mailCache.getHeaders(db, accountId, folder, limit, offset);
 }
 
+/**
+ * Get all cached messages of a conversation, oldest first.
+ * No network calls — fully offline.
+ *
+ * @param db - Mail cache database connection
+ * @param accountId - Account identifier
+ * @param threadId - Thread id of one of the messages
+ * @returns Cached headers of the conversation, across folders
+ */
+export async function getThread(
+  db: MailDatabaseConnection,
+  accountId: string,
+  threadId: string,
+): Promise<CachedMailHeader[]> {
+  return await mailCache.getThreadHeaders(db, accountId, threadId);
+}
+
 /**
  * Get sync state for a folder.
  *
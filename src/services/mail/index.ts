@@ -39,3 +39,7 @@ export * as imageWhitelistService from './imageWhitelistService';
 
 // ICS calendar invitation parsing
 export * as icsParser from './icsParser';
+
+// ICS export + iTIP replies
+export * as icsWriter from './icsWriter';
+export * as calendarMailService from './calendarMailService';
@@ -15,10 +15,11 @@ import type {
   MailDatabaseConnection,
 } from '@/models/mailDatabase';
 import {
-  openMailDatabase,
+  openEncryptedMailDatabase,
   initializeMailSchema,
   isFts5Available,
 } from '@/models/mailDatabase';
+import { getDatabaseKey } from '../keyManager';
 import type {
   MailHeader,
   MailAttachmentMeta,
@@ -26,30 +27,42 @@ import type {
   CachedMailBody,
 } from '@/types/mail';
 import { parseEmailAddress } from '@/types/mail';
+import { normalizeMessageId, normalizeSubject, ownThreadId } from './mailThreading';
 
 // ============================================================
 // Singleton Instance
 // ============================================================
 
 let dbInstance: MailDatabaseConnection | null = null;
-let dbInitialized = false;
+/** Pending open, shared by concurrent callers */
+let dbOpening: Promise<MailDatabaseConnection> | null = null;
 
 /**
  * Get or create the mail cache database connection.
- * Initializes schema on first call.
+ * Opens it encrypted with the database key and initializes the schema on first call.
  *
- * @param encryptionKey - Optional SQLCipher encryption key (hex string)
  * @returns Database connection
  */
-export async function getMailCacheDb(encryptionKey?: string): Promise<MailDatabaseConnection> {
-  if (!dbInstance) {
-    dbInstance = openMailDatabase(encryptionKey);
+export async function getMailCacheDb(): Promise<MailDatabaseConnection> {
+  if (dbInstance) return dbInstance;
+  if (!dbOpening) {
+    dbOpening = openMailCache().finally(() => {
+      dbOpening = null;
+    });
   }
-  if (!dbInitialized) {
-    await initializeMailSchema(dbInstance);
-    dbInitialized = true;
+  return dbOpening;
+}
+
+async function openMailCache(): Promise<MailDatabaseConnection> {
+  const db = await openEncryptedMailDatabase(await getDatabaseKey());
+  try {
+    await initializeMailSchema(db);
+  } catch (error) {
+    db.close();
+    throw error;
   }
-  return dbInstance;
+  dbInstance = db;
+  return db;
 }
 
 /**
@@ -60,7 +73,6 @@ export function closeMailCacheDb(): void {
   if (dbInstance) {
     dbInstance.close();
     dbInstance = null;
-    dbInitialized = false;
   }
 }
 
@@ -72,6 +84,9 @@ export function closeMailCacheDb(): void {
  * Insert or update mail headers in the cache.
  * Also updates the FTS5 index for full-text search.
  *
+ * Sync code goes through imapService.cacheHeaders(), which assigns the
+ * thread ids first.
+ *
  * @param db - Database connection
  * @param accountId - Account identifier
  * @param folder - Mailbox folder name
@@ -98,8 +113,9 @@ export async function upsertHeaders(
         `INSERT OR REPLACE INTO mail_headers
          (uid, account_id, folder, from_raw, from_name, from_address,
           to_addresses, subject, date_iso, has_attachment, is_read,
-          is_flagged, sequence_number, is_local)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0)`,
+          is_flagged, sequence_number, is_local,
+          message_id, in_reply_to, references_ids, thread_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0, ?, ?, ?, ?)`,
         [
           header.uid,
           accountId,
@@ -114,6 +130,10 @@ export async function upsertHeaders(
           header.isRead ? 1 : 0,
           header.isFlagged ? 1 : 0,
           seqNum,
+          normalizeMessageId(header.messageId),
+          header.inReplyTo ?? null,
+          header.references ?? null,
+          header.threadId ?? null,
         ],
       );
 
@@ -332,6 +352,94 @@ export async function deleteHeader(
   });
 }
 
+// ============================================================
+// Thread Operations
+// ============================================================
+
+/**
+ * Find the thread of the first cached message with one of these Message-IDs.
+ * Searches all folders (a reply's parent is often in Sent).
+ *
+ * @param db - Database connection
+ * @param accountId - Account identifier
+ * @param messageIds - Normalized Message-IDs
+ * @returns Thread id or null if none of the messages is cached
+ */
+export async function findThreadIdByMessageIds(
+  db: MailDatabaseConnection,
+  accountId: string,
+  messageIds: string[],
+): Promise<string | null> {
+  if (messageIds.length === 0) return null;
+
+  const placeholders = messageIds.map(() => '?').join(', ');
+  const rows = await db.executeQuery<{ thread_id: string | null }>(
+    `SELECT COALESCE(thread_id, message_id) as thread_id FROM mail_headers
+     WHERE account_id = ? AND message_id IN (${placeholders})
+     ORDER BY date_iso ASC
+     LIMIT 1`,
+    [accountId, ...messageIds],
+  );
+
+  return rows[0]?.thread_id ?? null;
+}
+
+/**
+ * Find the latest thread whose subject normalizes to the given subject.
+ * Fallback for replies from servers that strip References/In-Reply-To.
+ *
+ * @param db - Database connection
+ * @param accountId - Account identifier
+ * @param subject - Normalized subject (see mailThreading.normalizeSubject)
+ * @param sinceIso - Only messages from this date on
+ * @returns Thread id or null if no conversation matches
+ */
+export async function findThreadIdBySubject(
+  db: MailDatabaseConnection,
+  accountId: string,
+  subject: string,
+  sinceIso: string,
+): Promise<string | null> {
+  if (!subject) return null;
+
+  // LIKE narrows the candidates, the prefixes are compared in JS
+  const likeQuery = `%${subject.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+  const rows = await db.executeQuery<RawHeaderRow>(
+    `SELECT * FROM mail_headers
+     WHERE account_id = ? AND date_iso >= ? AND subject LIKE ? ESCAPE '\\'
+     ORDER BY date_iso DESC
+     LIMIT 50`,
+    [accountId, sinceIso, likeQuery],
+  );
+
+  const match = rows.find((row) => normalizeSubject(row.subject) === subject);
+  return match ? rowToCachedHeader(match).threadId ?? null : null;
+}
+
+/**
+ * Get all cached messages of a conversation, across folders, oldest first.
+ *
+ * @param db - Database connection
+ * @param accountId - Account identifier
+ * @param threadId - Thread id
+ * @returns Cached headers of the conversation
+ */
+export async function getThreadHeaders(
+  db: MailDatabaseConnection,
+  accountId: string,
+  threadId: string,
+): Promise<CachedMailHeader[]> {
+  const rows = await db.executeQuery<RawHeaderRow>(
+    `SELECT * FROM mail_headers
+     WHERE account_id = ?
+       AND (thread_id = ? OR (thread_id IS NULL AND message_id = ?))
+     ORDER BY date_iso ASC`,
+    [accountId, threadId, threadId],
+  );
+
+  return rows.map(rowToCachedHeader);
+}
+
 // ============================================================
 // Body Operations
 // ============================================================
@@ -592,6 +700,10 @@ interface RawHeaderRow {
   is_flagged: number;
   sequence_number: number;
   is_local: number;
+  message_id: string | null;
+  in_reply_to: string | null;
+  references_ids: string | null;
+  thread_id: string | null;
 }
 
 /** Convert a raw SQLite row to a CachedMailHeader */
@@ -618,5 +730,10 @@ function rowToCachedHeader(row: RawHeaderRow): CachedMailHeader {
     isFlagged: row.is_flagged === 1,
     sequenceNumber: row.sequence_number,
     isLocal: row.is_local === 1,
+    messageId: row.message_id ?? undefined,
+    inReplyTo: row.in_reply_to ?? undefined,
+    references: row.references_ids ?? undefined,
+    // Headers cached before threading: each message is its own conversation
+    threadId: row.thread_id ?? ownThreadId({ uid: row.uid, messageId: row.message_id ?? undefined }, row.folder),
   };
 }
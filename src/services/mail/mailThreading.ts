@@ -0,0 +1,219 @@
+/**
+ * Mail Threading — Group messages into conversations
+ *
+ * A reply names its parents in the Message-ID / In-Reply-To / References
+ * headers. During sync every header gets a thread id:
+ * - A known parent (References or In-Reply-To) → the parent's thread
+ * - Otherwise the thread root from References, if the header names one
+ * - Servers that strip references: a reply ("Re: …") joins the latest
+ *   conversation with the same subject from the last SUBJECT_WINDOW_DAYS
+ * - Anything else starts its own thread (its own Message-ID)
+ *
+ * Pure functions; the lookups in the cache go through ThreadLookup
+ * (implemented by mailCache) so this also works for a batch of headers
+ * that is not stored yet.
+ *
+ * @see src/services/mail/imapService.ts — cacheHeaders()
+ * @see src/services/mail/mailCache.ts — thread queries
+ */
+
+import type { CachedMailHeader, MailHeader } from '@/types/mail';
+
+// ============================================================
+// Types
+// ============================================================
+
+/** Thread lookups in the stored headers of an account */
+export interface ThreadLookup {
+  /** Thread of the first stored message with one of these Message-IDs */
+  findThreadByMessageIds(messageIds: string[]): Promise<string | null>;
+  /** Latest thread (since `sinceIso`) whose subject normalizes to `subject` */
+  findThreadBySubject(subject: string, sinceIso: string): Promise<string | null>;
+}
+
+/** One inbox row: a conversation, shown as its latest message */
+export interface MailThreadSummary {
+  threadId: string;
+  /** Latest message of the conversation in this list */
+  latest: CachedMailHeader;
+  /** Messages of the conversation in this list */
+  count: number;
+  unreadCount: number;
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+/** How far back a reply without references looks for its conversation */
+const SUBJECT_WINDOW_DAYS = 30;
+
+/**
+ * Reply prefixes in the languages we support (Re, AW, Antw, SV, Odp, R, RES)
+ * and their numbered forms ("Re[2]:", "Re(3):")
+ */
+const REPLY_PREFIX = /^\s*(re|aw|antw|sv|odp|r|res)\s*(\[\d+\]|\(\d+\))?\s*:\s*/i;
+
+/**
+ * Reply and forward prefixes (Fwd, Fw, WG, Doorst, TR, RV, VS, Enc, I, PD).
+ * A forward keeps its subject but starts a new conversation.
+ */
+const ANY_PREFIX = /^\s*(re|aw|antw|sv|odp|r|res|fwd?|wg|doorst|tr|rv|vs|enc|i|pd)\s*(\[\d+\]|\(\d+\))?\s*:\s*/i;
+
+// ============================================================
+// Header Parsing
+// ============================================================
+
+/**
+ * Normalize a Message-ID: the part between < >, lowercased.
+ * Returns null for empty values.
+ */
+export function normalizeMessageId(raw: string | undefined | null): string | null {
+  if (!raw) return null;
+  const match = /<([^<>\s]+)>/.exec(raw);
+  const id = (match ? match[1] : raw).trim().toLowerCase();
+  return id.length > 0 ? id : null;
+}
+
+/**
+ * All Message-IDs of a References header, oldest (thread root) first.
+ */
+export function parseReferences(raw: string | undefined | null): string[] {
+  if (!raw) return [];
+  const ids = [...raw.matchAll(/<([^<>\s]+)>/g)].map((match) => match[1].toLowerCase());
+  return [...new Set(ids)];
+}
+
+/**
+ * Subject without reply/forward prefixes and extra whitespace, lowercased.
+ * "Re: AW: Re[2]:  Uw aanvraag" → "uw aanvraag"
+ */
+export function normalizeSubject(subject: string | undefined | null): string {
+  let result = subject ?? '';
+  let previous: string;
+  do {
+    previous = result;
+    result = result.replace(ANY_PREFIX, '');
+  } while (result !== previous);
+  return result.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+export function isReplySubject(subject: string | undefined | null): boolean {
+  return REPLY_PREFIX.test(subject ?? '');
+}
+
+/**
+ * Thread id for a message that starts its own conversation.
+ * Messages without Message-ID are keyed by folder and UID.
+ */
+export function ownThreadId(header: Pick<MailHeader, 'uid' | 'messageId'>, folder: string): string {
+  return normalizeMessageId(header.messageId) ?? `local:${folder}:${header.uid}`;
+}
+
+// ============================================================
+// Thread Assignment
+// ============================================================
+
+/**
+ * Assign a thread id to each header of a sync batch.
+ *
+ * Headers are handled oldest first, so a reply in the same batch as its
+ * parent finds it. Returns the headers in their original order.
+ */
+export async function assignThreadIds<T extends MailHeader>(
+  headers: T[],
+  folder: string,
+  lookup: ThreadLookup,
+): Promise<T[]> {
+  const byMessageId = new Map<string, string>();
+  const bySubject = new Map<string, { threadId: string; date: string }>();
+  const threadIds = new Map<T, string>();
+
+  const oldestFirst = [...headers].sort((a, b) => a.date.localeCompare(b.date));
+
+  for (const header of oldestFirst) {
+    const parents = [...parseReferences(header.references)];
+    const inReplyTo = normalizeMessageId(header.inReplyTo);
+    if (inReplyTo && !parents.includes(inReplyTo)) {
+      parents.push(inReplyTo);
+    }
+
+    let threadId: string | null = null;
+
+    if (parents.length > 0) {
+      // Nearest known parent first
+      for (const id of [...parents].reverse()) {
+        threadId = byMessageId.get(id) ?? null;
+        if (threadId) break;
+      }
+      threadId ??= await lookup.findThreadByMessageIds(parents);
+      threadId ??= parents[0];
+    } else if (isReplySubject(header.subject)) {
+      const subject = normalizeSubject(header.subject);
+      const since = subjectWindowStart(header.date);
+      const inBatch = bySubject.get(subject);
+      threadId = inBatch && inBatch.date >= since
+        ? inBatch.threadId
+        : await lookup.findThreadBySubject(subject, since);
+    }
+
+    threadId ??= ownThreadId(header, folder);
+    threadIds.set(header, threadId);
+
+    const messageId = normalizeMessageId(header.messageId);
+    if (messageId) {
+      byMessageId.set(messageId, threadId);
+    }
+    const subject = normalizeSubject(header.subject);
+    if (subject) {
+      bySubject.set(subject, { threadId, date: header.date });
+    }
+  }
+
+  return headers.map((header) => ({ ...header, threadId: threadIds.get(header) }));
+}
+
+// ============================================================
+// Grouping
+// ============================================================
+
+/**
+ * Group a list of headers (newest first) into conversations, newest
+ * conversation first. Headers without thread id stay on their own.
+ */
+export function groupByThread(headers: CachedMailHeader[]): MailThreadSummary[] {
+  const threads = new Map<string, MailThreadSummary>();
+
+  for (const header of headers) {
+    const threadId = header.threadId ?? ownThreadId(header, header.folder);
+    const thread = threads.get(threadId);
+
+    if (!thread) {
+      threads.set(threadId, {
+        threadId,
+        latest: header,
+        count: 1,
+        unreadCount: header.isRead ? 0 : 1,
+      });
+      continue;
+    }
+
+    thread.count++;
+    if (!header.isRead) thread.unreadCount++;
+    if (header.date > thread.latest.date) {
+      thread.latest = header;
+    }
+  }
+
+  return [...threads.values()].sort((a, b) => b.latest.date.localeCompare(a.latest.date));
+}
+
+// ============================================================
+// Internal Helpers
+// ============================================================
+
+function subjectWindowStart(isoDate: string): string {
+  const time = Date.parse(isoDate);
+  const from = Number.isNaN(time) ? Date.now() : time;
+  return new Date(from - SUBJECT_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
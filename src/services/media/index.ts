@@ -1,7 +1,7 @@
 /**
  * Media Services — Export Module
  *
- * Provides photo/video processing, storage, and queue management.
+ * Provides photo/video/voice processing, storage, and queue management.
  *
  * @see types/media.ts for type definitions
  * @see .claude/plans/PHOTO_VIDEO_MESSAGING.md for architecture
@@ -23,6 +23,18 @@ export {
   getVideoDuration,
   validateVideoDuration,
 
+  // Voice messages (iOS: native AVFoundation + on-device Speech)
+  startVoiceRecording,
+  stopVoiceRecording,
+  cancelVoiceRecording,
+  levelsToWaveform,
+  playVoice,
+  pauseVoice,
+  stopVoice,
+  setVoiceRate,
+  onVoicePlayback,
+  transcribeVoice,
+
   // Utility functions
   getFileSize,
   readAsBase64,
@@ -43,12 +55,16 @@ export {
   // Save media
   savePhoto,
   saveVideo,
+  saveVoice,
   saveMedia,
 
   // Retrieve media
   mediaExists,
   getMediaUri,
   getThumbnailUri,
+  preparePhotoPath,
+  prepareVoicePath,
+  getPhotoFileUri,
 
   // Cleanup
   deleteMedia,
@@ -62,6 +78,20 @@ export {
   getMediaCount,
 } from './mediaStorageService';
 
+// ============================================================
+// Encrypted Media Transfer (XEP-0363 upload, chunked XChaCha20-Poly1305)
+// ============================================================
+
+export {
+  createMediaKey,
+  encryptedSize,
+  uploadEncryptedFile,
+  uploadMediaTransfer,
+  downloadEncryptedFile,
+  parseMediaPointer,
+  UPLOAD_CONTENT_TYPE,
+} from './mediaTransfer';
+
 // ============================================================
 // Media Queue Service
 // ============================================================
@@ -1,9 +1,10 @@
 /**
- * MediaService — Photo/Video Processing
+ * MediaService — Photo/Video/Voice Processing
  *
  * Handles:
  * - Photo compression (max 1920x1080, JPEG 80%)
  * - Video compression (max 720p, 2Mbps, max 2 min)
+ * - Voice recording (AAC 24kbps, max 2 min), playback speed and on-device transcription
  * - EXIF stripping (GPS, device info)
  * - Thumbnail generation
  * - Encryption/decryption of media
@@ -12,7 +13,7 @@
  * @see .claude/plans/PHOTO_VIDEO_MESSAGING.md for architecture
  */
 
-import { NativeModules, Platform } from 'react-native';
+import { NativeEventEmitter, NativeModules, Platform } from 'react-native';
 import RNFS from 'react-native-fs';
 import ImageResizer from '@bam.tech/react-native-image-resizer';
 import type {
@@ -22,9 +23,31 @@ import type {
   CompressionResult,
   ExifStripResult,
   ProgressCallback,
+  VoiceRecordingResult,
 } from '@/types/media';
+import { MEDIA_DEFAULTS } from '@/types/media';
+
+/**
+ * NativeModules.VoiceMessageModule (iOS).
+ * Method signatures match the Swift bridge (VoiceMessageModule.swift);
+ * paths are raw filesystem paths without file://.
+ */
+interface VoiceMessageNativeModule {
+  startRecording(maxDurationSeconds: number): Promise<string>;
+  stopRecording(): Promise<{ uri: string; duration: number; size: number; levels?: number[] }>;
+  cancelRecording(): Promise<void>;
+  play(path: string, position: number, rate: number): Promise<{ duration: number }>;
+  pause(): Promise<{ position: number } | null>;
+  stop(): Promise<void>;
+  setRate(rate: number): Promise<void>;
+  transcribe(path: string, locale: string): Promise<string>;
+  // RCTEventEmitter (playback events)
+  addListener(eventType: string): void;
+  removeListeners(count: number): void;
+}
 
 const { VideoProcessingModule } = NativeModules;
+const VoiceMessageModule = NativeModules.VoiceMessageModule as VoiceMessageNativeModule | undefined;
 
 // Re-export defaults for convenience
 export { MEDIA_DEFAULTS } from '@/types/media';
@@ -427,6 +450,226 @@ export async function validateVideoDuration(
   };
 }
 
+// ============================================================
+// Voice Processing
+// ============================================================
+
+/** Meter levels at or below this are drawn as silence */
+const VOICE_SILENCE_DB = -50;
+
+/** Playback events from VoiceMessageModule (created on first subscription) */
+let voiceEventEmitter: NativeEventEmitter | null = null;
+
+/**
+ * Start recording a voice message (push-to-talk: call on press-in)
+ *
+ * @returns True when the recorder is running
+ */
+export async function startVoiceRecording(): Promise<boolean> {
+  if (Platform.OS !== 'ios' || !VoiceMessageModule) {
+    console.warn(LOG_PREFIX, 'Voice recording not available on this platform');
+    return false;
+  }
+
+  try {
+    await VoiceMessageModule.startRecording(MEDIA_DEFAULTS.voice.maxDurationSeconds);
+    return true;
+  } catch (error) {
+    console.warn(LOG_PREFIX, 'Failed to start voice recording:', error);
+    return false;
+  }
+}
+
+/**
+ * Stop recording (push-to-talk: call on press-out)
+ *
+ * The native recorder already compresses (AAC mono 16kHz 24kbps), so the
+ * result can be encrypted and sent as-is. Recordings shorter than
+ * MEDIA_DEFAULTS.voice.minDurationSeconds are discarded as accidental taps.
+ *
+ * @returns Recording result with file URI, duration and waveform
+ */
+export async function stopVoiceRecording(): Promise<VoiceRecordingResult> {
+  if (!VoiceMessageModule) {
+    return { success: false, error: 'Voice recording not available' };
+  }
+
+  try {
+    const result = await VoiceMessageModule.stopRecording();
+    const duration = Number(result.duration) || 0;
+
+    if (duration < MEDIA_DEFAULTS.voice.minDurationSeconds) {
+      await deleteFile(result.uri);
+      return { success: false, error: 'too_short' };
+    }
+
+    return {
+      success: true,
+      uri: `file://${result.uri}`,
+      size: Number(result.size) || 0,
+      duration,
+      waveform: levelsToWaveform(result.levels ?? []),
+    };
+  } catch (error) {
+    console.error(LOG_PREFIX, 'Failed to stop voice recording:', error);
+    return { success: false, error: String(error) };
+  }
+}
+
+/**
+ * Discard the recording in progress
+ */
+export async function cancelVoiceRecording(): Promise<void> {
+  try {
+    await VoiceMessageModule?.cancelRecording();
+  } catch (error) {
+    console.warn(LOG_PREFIX, 'Failed to cancel voice recording:', error);
+  }
+}
+
+/**
+ * Turn native meter levels (dBFS, 10 per second) into a fixed number of
+ * waveform bars between 0 and 1 — loudest sample per bar, so short words stay visible.
+ *
+ * @param levels - Average power samples in dBFS (-160 … 0)
+ * @param bars - Number of bars (default: MEDIA_DEFAULTS.voice.waveformBars)
+ */
+export function levelsToWaveform(
+  levels: number[],
+  bars: number = MEDIA_DEFAULTS.voice.waveformBars,
+): number[] {
+  if (levels.length === 0) {
+    return new Array<number>(bars).fill(0);
+  }
+
+  const waveform: number[] = [];
+  for (let bar = 0; bar < bars; bar++) {
+    const start = Math.floor((bar * levels.length) / bars);
+    const end = Math.max(start + 1, Math.floor(((bar + 1) * levels.length) / bars));
+    const loudest = Math.max(...levels.slice(start, end));
+    const normalized = (loudest - VOICE_SILENCE_DB) / -VOICE_SILENCE_DB;
+    waveform.push(Math.round(Math.min(1, Math.max(0, normalized)) * 100) / 100);
+  }
+  return waveform;
+}
+
+/**
+ * Play a voice message
+ *
+ * @param uri - Local file URI
+ * @param position - Start position in seconds (resume after pause)
+ * @param rate - Playback speed (0.5 – 2.0)
+ * @returns True if playback started
+ */
+export async function playVoice(uri: string, position = 0, rate = 1): Promise<boolean> {
+  if (!VoiceMessageModule) return false;
+
+  try {
+    await VoiceMessageModule.play(toNativePath(uri), position, rate);
+    return true;
+  } catch (error) {
+    console.error(LOG_PREFIX, 'Failed to play voice message:', error);
+    return false;
+  }
+}
+
+/**
+ * Pause voice playback
+ *
+ * @returns Position in seconds where playback paused
+ */
+export async function pauseVoice(): Promise<number> {
+  if (!VoiceMessageModule) return 0;
+
+  try {
+    const result = await VoiceMessageModule.pause();
+    return Number(result?.position) || 0;
+  } catch (error) {
+    console.warn(LOG_PREFIX, 'Failed to pause voice message:', error);
+    return 0;
+  }
+}
+
+/**
+ * Stop voice playback (leaving the chat, starting a recording)
+ */
+export async function stopVoice(): Promise<void> {
+  try {
+    await VoiceMessageModule?.stop();
+  } catch (error) {
+    console.warn(LOG_PREFIX, 'Failed to stop voice message:', error);
+  }
+}
+
+/**
+ * Change playback speed of the playing voice message
+ */
+export async function setVoiceRate(rate: number): Promise<void> {
+  try {
+    await VoiceMessageModule?.setRate(rate);
+  } catch (error) {
+    console.warn(LOG_PREFIX, 'Failed to set voice playback rate:', error);
+  }
+}
+
+/**
+ * Subscribe to playback progress and end events
+ *
+ * @returns Unsubscribe function
+ */
+export function onVoicePlayback(
+  onProgress: (uri: string, position: number, duration: number) => void,
+  onEnded: (uri: string) => void,
+): () => void {
+  if (!VoiceMessageModule) return () => {};
+
+  voiceEventEmitter ??= new NativeEventEmitter(VoiceMessageModule);
+  const progressSub = voiceEventEmitter.addListener(
+    'voicePlaybackProgress',
+    (event: { uri: string; position: number; duration: number }) => {
+      onProgress(`file://${event.uri}`, event.position, event.duration);
+    },
+  );
+  const endedSub = voiceEventEmitter.addListener('voicePlaybackEnded', (event: { uri: string }) => {
+    onEnded(`file://${event.uri}`);
+  });
+
+  return () => {
+    progressSub.remove();
+    endedSub.remove();
+  };
+}
+
+/** App languages → speech recognizer locales */
+const SPEECH_LOCALES: Record<string, string> = {
+  nl: 'nl-NL', de: 'de-DE', fr: 'fr-FR', es: 'es-ES',
+  it: 'it-IT', no: 'nb-NO', sv: 'sv-SE', da: 'da-DK',
+  pt: 'pt-PT', pl: 'pl-PL', en: 'en-US',
+};
+
+/**
+ * Transcribe a voice message on-device (accessibility: read instead of listen)
+ *
+ * Audio never leaves the phone — returns null when on-device recognition
+ * is not available for the language.
+ *
+ * @param uri - Local file URI
+ * @param language - App language ('nl', 'pt-BR', …) or BCP-47 tag ('nl-NL')
+ * @returns Transcript, or null if unavailable
+ */
+export async function transcribeVoice(uri: string, language: string): Promise<string | null> {
+  if (Platform.OS !== 'ios' || !VoiceMessageModule) return null;
+
+  try {
+    const locale = SPEECH_LOCALES[language] ?? language;
+    const transcript = await VoiceMessageModule.transcribe(toNativePath(uri), locale);
+    return transcript.trim() || null;
+  } catch (error) {
+    console.info(LOG_PREFIX, 'Voice transcription unavailable:', error);
+    return null;
+  }
+}
+
 // ============================================================
 // Utility Functions
 // ============================================================
@@ -550,13 +793,14 @@ export async function copyToMediaDirectory(
  * Determine media type from file extension
  *
  * @param uri - File URI or path
- * @returns 'photo' | 'video' | null
+ * @returns 'photo' | 'video' | 'audio' | null
  */
 export function getMediaTypeFromUri(uri: string): MediaType | null {
   const extension = uri.split('.').pop()?.toLowerCase();
 
   const photoExtensions = ['jpg', 'jpeg', 'png', 'gif', 'webp', 'heic', 'heif'];
   const videoExtensions = ['mp4', 'mov', 'avi', 'mkv', 'webm', 'm4v', '3gp'];
+  const audioExtensions = ['m4a', 'aac'];
 
   if (photoExtensions.includes(extension || '')) {
     return 'photo';
@@ -566,5 +810,9 @@ export function getMediaTypeFromUri(uri: string): MediaType | null {
     return 'video';
   }
 
+  if (audioExtensions.includes(extension || '')) {
+    return 'audio';
+  }
+
   return null;
 }
@@ -280,6 +280,76 @@ export async function saveVideo(
   }
 }
 
+/**
+ * Save a voice message to local storage
+ *
+ * Voice messages are compressed while recording (AAC 24kbps), so this only
+ * moves the file into permanent storage. There is no thumbnail — the
+ * waveform is the preview.
+ *
+ * @param sourceUri - Recorded (or received) .m4a URI
+ * @param chatId - Associated chat ID
+ * @param duration - Duration in seconds
+ * @param waveform - Waveform bars 0-1
+ * @param source - Source of the media
+ * @param senderJid - Sender JID (for received media)
+ * @param senderName - Sender name (for received media)
+ * @returns MediaItem with local URI and metadata
+ */
+export async function saveVoice(
+  sourceUri: string,
+  chatId: string,
+  duration: number,
+  waveform: number[],
+  source: MediaSource = 'recorded',
+  senderJid?: string,
+  senderName?: string
+): Promise<MediaItem | null> {
+  try {
+    await ensureDirectories();
+
+    const mediaId = uuid.v4() as string;
+    const timestamp = Date.now();
+
+    console.info(LOG_PREFIX, 'Saving voice message:', { mediaId, source, chatId });
+
+    const localUri = await copyToMediaDirectory(sourceUri, `${mediaId}.m4a`);
+    if (!localUri) {
+      console.error(LOG_PREFIX, 'Failed to copy voice file');
+      return null;
+    }
+
+    // Recording lives in tmp — remove it once it is safely stored
+    RNFS.unlink(sourceUri.replace('file://', '')).catch(() => {});
+
+    const size = await getFileSize(localUri);
+
+    const mediaItem: MediaItem = {
+      id: mediaId,
+      type: 'audio',
+      localUri,
+      thumbnailUri: '',
+      size,
+      width: 0,
+      height: 0,
+      duration,
+      waveform,
+      source,
+      senderJid,
+      senderName,
+      timestamp,
+      chatId,
+    };
+
+    console.info(LOG_PREFIX, 'Voice message saved:', { id: mediaId, size, duration });
+
+    return mediaItem;
+  } catch (error) {
+    console.error(LOG_PREFIX, 'Failed to save voice message:', error);
+    return null;
+  }
+}
+
 /**
  * Save media to local storage (auto-detects type)
  *
@@ -324,7 +394,7 @@ export async function saveMedia(
 export async function mediaExists(mediaId: string): Promise<boolean> {
   try {
     // Check for common extensions
-    const extensions = ['jpg', 'jpeg', 'png', 'mp4', 'mov'];
+    const extensions = ['jpg', 'jpeg', 'png', 'mp4', 'mov', 'm4a'];
 
     for (const ext of extensions) {
       const path = getMediaPath(`${mediaId}.${ext}`);
@@ -349,7 +419,7 @@ export async function mediaExists(mediaId: string): Promise<boolean> {
  */
 export async function getMediaUri(mediaId: string): Promise<string | null> {
   try {
-    const extensions = ['jpg', 'jpeg', 'png', 'mp4', 'mov'];
+    const extensions = ['jpg', 'jpeg', 'png', 'mp4', 'mov', 'm4a'];
 
     for (const ext of extensions) {
       const path = getMediaPath(`${mediaId}.${ext}`);
@@ -366,6 +436,41 @@ export async function getMediaUri(mediaId: string): Promise<string | null> {
   }
 }
 
+/**
+ * Get the local path for a photo that is written directly into storage
+ * (decrypted download). Photos are always stored as JPEG.
+ *
+ * @param mediaId - Media ID
+ * @returns Absolute path (the file may not exist yet)
+ */
+export async function preparePhotoPath(mediaId: string): Promise<string> {
+  await ensureDirectories();
+  return getMediaPath(`${mediaId}.jpg`);
+}
+
+/**
+ * Get the local path for a voice message that is written directly into
+ * storage (decrypted download). Voice messages are always AAC in .m4a.
+ *
+ * @param mediaId - Media ID
+ * @returns Absolute path (the file may not exist yet)
+ */
+export async function prepareVoicePath(mediaId: string): Promise<string> {
+  await ensureDirectories();
+  return getMediaPath(`${mediaId}.m4a`);
+}
+
+/**
+ * Get the file URI of a stored photo without touching the file system,
+ * for rendering message lists. The file may still be downloading.
+ *
+ * @param mediaId - Media ID
+ * @returns file:// URI
+ */
+export function getPhotoFileUri(mediaId: string): string {
+  return `file://${getMediaPath(`${mediaId}.jpg`)}`;
+}
+
 /**
  * Get the thumbnail URI for a media file
  *
@@ -0,0 +1,358 @@
+/**
+ * MediaTransfer — Encrypted chunked media upload and download
+ *
+ * Photos and voice messages no longer travel inside the chat message. Instead:
+ * 1. The file is encrypted with a random per-file key (XChaCha20-Poly1305)
+ * 2. The ciphertext is uploaded in chunks to an XEP-0363 upload slot
+ * 3. A small pointer { url, key, nonce, size, chunkSize } is sent inside
+ *    the normal E2E encrypted chat payload
+ *
+ * Chunk format:
+ * - The plaintext is split into chunkSize pieces, each sealed separately
+ * - Chunk nonce = base nonce with the chunk index XORed into the last 4 bytes
+ * - Associated data = "<index>:<total>", so chunks cannot be reordered,
+ *   dropped or the file truncated without decryption failing
+ *
+ * Uploads resume: before sending, the server is asked how many bytes it
+ * already has (HEAD → Upload-Offset) and only the missing chunks follow.
+ * The upload server (server/media-upload) never sees the key.
+ *
+ * @see server/media-upload/server.js for the storage side
+ * @see services/chat.ts — sendPhotoMessage / sendVoiceMessage / handleIncomingMessage
+ * @see services/groupChat.ts — sendVoiceMessage
+ */
+
+import RNFS from 'react-native-fs';
+import {
+  crypto_aead_xchacha20poly1305_ietf_encrypt,
+  crypto_aead_xchacha20poly1305_ietf_decrypt,
+  crypto_aead_xchacha20poly1305_ietf_keygen,
+  crypto_aead_xchacha20poly1305_ietf_NPUBBYTES,
+  randombytes_buf,
+  to_base64,
+  from_base64,
+  base64_variants,
+} from 'react-native-libsodium';
+import type { MediaTransfer, UploadSlot } from '../interfaces';
+import type { MediaPointer, ProgressCallback } from '@/types/media';
+import { MEDIA_DEFAULTS } from '@/types/media';
+
+// ============================================================
+// Constants
+// ============================================================
+
+const LOG_PREFIX = '[mediaTransfer]';
+
+/** Poly1305 authentication tag added to every chunk */
+export const AEAD_TAG_BYTES = 16;
+
+/** What the upload slot is requested for — the server only sees ciphertext */
+export const UPLOAD_CONTENT_TYPE = 'application/octet-stream';
+
+// ============================================================
+// Chunk Math
+// ============================================================
+
+/** Number of chunks for a plaintext of `size` bytes (an empty file is one empty chunk) */
+export function chunkCount(size: number, chunkSize: number): number {
+  return Math.max(1, Math.ceil(size / chunkSize));
+}
+
+/** Size of the uploaded ciphertext */
+export function encryptedSize(size: number, chunkSize: number): number {
+  return size + chunkCount(size, chunkSize) * AEAD_TAG_BYTES;
+}
+
+/**
+ * First chunk still missing when the server already holds `storedBytes`.
+ * The server only ever appends whole chunks, so this is an exact division.
+ */
+export function resumeChunkIndex(storedBytes: number, chunkSize: number): number {
+  return Math.floor(storedBytes / (chunkSize + AEAD_TAG_BYTES));
+}
+
+/** Nonce for chunk `index`: the base nonce with the index XORed into its last 4 bytes */
+export function chunkNonce(baseNonce: Uint8Array, index: number): Uint8Array {
+  const nonce = new Uint8Array(baseNonce);
+  const end = nonce.length;
+  nonce[end - 4] ^= (index >>> 24) & 0xff;
+  nonce[end - 3] ^= (index >>> 16) & 0xff;
+  nonce[end - 2] ^= (index >>> 8) & 0xff;
+  nonce[end - 1] ^= index & 0xff;
+  return nonce;
+}
+
+// ============================================================
+// Chunk Encryption
+// ============================================================
+
+/**
+ * Create a fresh key and base nonce for one file (base64 ORIGINAL,
+ * as stored in media_messages.encryption_key / encryption_nonce).
+ */
+export function createMediaKey(): { key: string; nonce: string } {
+  return {
+    key: to_base64(crypto_aead_xchacha20poly1305_ietf_keygen(), base64_variants.ORIGINAL),
+    nonce: to_base64(randombytes_buf(crypto_aead_xchacha20poly1305_ietf_NPUBBYTES), base64_variants.ORIGINAL),
+  };
+}
+
+export function encryptChunk(
+  plaintext: Uint8Array,
+  key: Uint8Array,
+  baseNonce: Uint8Array,
+  index: number,
+  total: number,
+): Uint8Array {
+  return crypto_aead_xchacha20poly1305_ietf_encrypt(
+    plaintext,
+    `${index}:${total}`,
+    null,
+    chunkNonce(baseNonce, index),
+    key,
+  );
+}
+
+/** Throws when the chunk was tampered with, reordered or belongs to another file */
+export function decryptChunk(
+  ciphertext: Uint8Array,
+  key: Uint8Array,
+  baseNonce: Uint8Array,
+  index: number,
+  total: number,
+): Uint8Array {
+  return crypto_aead_xchacha20poly1305_ietf_decrypt(
+    null,
+    ciphertext,
+    `${index}:${total}`,
+    chunkNonce(baseNonce, index),
+    key,
+  );
+}
+
+// ============================================================
+// Upload
+// ============================================================
+
+/**
+ * Ask the upload server how many bytes of this slot it already stores.
+ * Unknown or unreachable means starting from the beginning.
+ */
+async function getUploadOffset(putUrl: string): Promise<number> {
+  try {
+    const response = await fetch(putUrl, { method: 'HEAD' });
+    if (!response.ok) return 0;
+    return parseInt(response.headers.get('Upload-Offset') ?? '0', 10) || 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Encrypt and upload a local file to its slot, continuing after the chunks
+ * the server already has.
+ *
+ * @param transfer - Media transfer with key, nonce, size and local file
+ * @param slot - XEP-0363 slot requested for encryptedSize(size, chunkSize) bytes
+ * @param onProgress - 0-1 progress (chunks done / total)
+ * @returns true when the file is complete on the server, false when the
+ *          server rejected the slot (expired or unknown — request a new one)
+ * @throws on network errors; calling again later resumes
+ */
+export async function uploadEncryptedFile(
+  transfer: MediaTransfer,
+  slot: UploadSlot,
+  onProgress?: ProgressCallback,
+): Promise<boolean> {
+  const chunkSize = transfer.chunkSize ?? MEDIA_DEFAULTS.transfer.chunkSize;
+  const total = chunkCount(transfer.size, chunkSize);
+  const uploadSize = encryptedSize(transfer.size, chunkSize);
+  const key = from_base64(transfer.encryptionKey, base64_variants.ORIGINAL);
+  const baseNonce = from_base64(transfer.encryptionNonce, base64_variants.ORIGINAL);
+  const path = transfer.localUri.replace('file://', '');
+
+  const stored = await getUploadOffset(slot.putUrl);
+  const firstChunk = resumeChunkIndex(stored, chunkSize);
+  if (firstChunk > 0) {
+    console.info(LOG_PREFIX, `Resuming upload at chunk ${firstChunk}/${total}`);
+  }
+
+  for (let index = firstChunk; index < total; index++) {
+    const plainBase64 = await RNFS.read(path, chunkSize, index * chunkSize, 'base64');
+    const plaintext = from_base64(plainBase64, base64_variants.ORIGINAL);
+    const ciphertext = encryptChunk(plaintext, key, baseNonce, index, total);
+    const start = index * (chunkSize + AEAD_TAG_BYTES);
+
+    const response = await fetch(slot.putUrl, {
+      method: 'PUT',
+      headers: {
+        ...slot.headers,
+        'Content-Type': UPLOAD_CONTENT_TYPE,
+        'Content-Range': `bytes ${start}-${start + ciphertext.length - 1}/${uploadSize}`,
+      },
+      body: ciphertext,
+    });
+
+    if (response.status === 409) {
+      // Already complete (an earlier attempt finished after we lost the connection)
+      const offset = parseInt(response.headers.get('Upload-Offset') ?? '0', 10);
+      if (offset === uploadSize) break;
+      throw new Error(`Upload offset mismatch: server has ${offset} bytes`);
+    }
+    if (response.status === 403 || response.status === 404 || response.status === 410) {
+      console.warn(LOG_PREFIX, `Upload slot rejected (HTTP ${response.status})`);
+      return false;
+    }
+    if (!response.ok) {
+      throw new Error(`Upload failed: HTTP ${response.status}`);
+    }
+
+    onProgress?.((index + 1) / total);
+  }
+
+  onProgress?.(1);
+  return true;
+}
+
+/**
+ * Upload a transfer's file: continue in the slot it kept, or request one.
+ * A slot the server rejects is replaced once. Each new slot is saved before
+ * uploading, so an interrupted upload resumes in the same file.
+ *
+ * @param transfer - Media transfer to upload
+ * @param requestSlot - XEP-0363 slot request (XMPPService.requestUploadSlot)
+ * @param saveTransfer - Persists the transfer (DatabaseService.saveMediaTransfer)
+ * @returns The transfer with its download URL in remoteUrl, or null when the
+ *          upload was interrupted (then saved as 'failed', to be resumed)
+ */
+export async function uploadMediaTransfer(
+  transfer: MediaTransfer,
+  requestSlot: (filename: string, size: number, contentType: string) => Promise<UploadSlot>,
+  saveTransfer: (transfer: MediaTransfer) => Promise<void>,
+): Promise<MediaTransfer | null> {
+  const chunkSize = transfer.chunkSize ?? MEDIA_DEFAULTS.transfer.chunkSize;
+  let current = transfer;
+  try {
+    for (let attempt = 0; attempt < 2; attempt++) {
+      let slot = current.uploadSlot;
+      if (!slot) {
+        slot = await requestSlot(`${current.mediaId}.bin`, encryptedSize(current.size, chunkSize), UPLOAD_CONTENT_TYPE);
+        current = { ...current, uploadSlot: slot, status: 'sending' };
+        await saveTransfer(current);
+      }
+
+      if (await uploadEncryptedFile(current, slot)) {
+        return { ...current, remoteUrl: slot.getUrl };
+      }
+      current = { ...current, uploadSlot: undefined };
+    }
+    throw new Error('Upload slot rejected');
+  } catch (error) {
+    console.warn(LOG_PREFIX, 'Upload interrupted, will resume:', error);
+    await saveTransfer({ ...current, status: 'failed', retryCount: current.retryCount + 1 });
+    return null;
+  }
+}
+
+// ============================================================
+// Download
+// ============================================================
+
+/**
+ * Download an encrypted file and decrypt it chunk by chunk into `destPath`.
+ *
+ * @param pointer - Pointer from the chat payload
+ * @param destPath - Where the decrypted file goes (overwritten)
+ * @param onProgress - 0-1 download progress
+ * @throws when the download fails or any chunk does not authenticate
+ */
+export async function downloadEncryptedFile(
+  pointer: MediaPointer,
+  destPath: string,
+  onProgress?: ProgressCallback,
+): Promise<void> {
+  const total = chunkCount(pointer.size, pointer.chunkSize);
+  const expectedSize = encryptedSize(pointer.size, pointer.chunkSize);
+  const key = from_base64(pointer.key, base64_variants.ORIGINAL);
+  const baseNonce = from_base64(pointer.nonce, base64_variants.ORIGINAL);
+  const encryptedPath = `${RNFS.TemporaryDirectoryPath}/${destPath.split('/').pop()}.enc`;
+
+  try {
+    const { promise } = RNFS.downloadFile({
+      fromUrl: pointer.url,
+      toFile: encryptedPath,
+      progressDivider: 5,
+      progress: (res) => {
+        if (res.contentLength > 0) {
+          onProgress?.(res.bytesWritten / res.contentLength);
+        }
+      },
+    });
+    const result = await promise;
+    if (result.statusCode !== 200) {
+      throw new Error(`Download failed: HTTP ${result.statusCode}`);
+    }
+
+    const { size } = await RNFS.stat(encryptedPath);
+    if (Number(size) !== expectedSize) {
+      throw new Error(`Download size mismatch: ${size} instead of ${expectedSize}`);
+    }
+
+    if (await RNFS.exists(destPath)) {
+      await RNFS.unlink(destPath);
+    }
+    await RNFS.writeFile(destPath, '', 'base64');
+
+    for (let index = 0; index < total; index++) {
+      const start = index * (pointer.chunkSize + AEAD_TAG_BYTES);
+      const cipherBase64 = await RNFS.read(encryptedPath, pointer.chunkSize + AEAD_TAG_BYTES, start, 'base64');
+      const plaintext = decryptChunk(
+        from_base64(cipherBase64, base64_variants.ORIGINAL),
+        key,
+        baseNonce,
+        index,
+        total,
+      );
+      await RNFS.appendFile(destPath, to_base64(plaintext, base64_variants.ORIGINAL), 'base64');
+    }
+
+    onProgress?.(1);
+  } catch (error) {
+    // Never leave a half-decrypted file behind
+    await RNFS.unlink(destPath).catch(() => {});
+    throw error;
+  } finally {
+    await RNFS.unlink(encryptedPath).catch(() => {});
+  }
+}
+
+// ============================================================
+// Pointer Validation
+// ============================================================
+
+/**
+ * Recognise a media pointer in a parsed chat payload.
+ * Returns null for anything malformed (including non-HTTPS URLs in release builds).
+ */
+export function parseMediaPointer(value: unknown): MediaPointer | null {
+  if (!value || typeof value !== 'object') return null;
+  const pointer = value as Record<string, unknown>;
+
+  if (typeof pointer.url !== 'string' || typeof pointer.key !== 'string' || typeof pointer.nonce !== 'string') {
+    return null;
+  }
+  if (!pointer.url.startsWith('https://') && !(__DEV__ && pointer.url.startsWith('http://'))) {
+    return null;
+  }
+  if (typeof pointer.size !== 'number' || pointer.size < 0) return null;
+  if (typeof pointer.chunkSize !== 'number' || pointer.chunkSize <= 0) return null;
+
+  return {
+    url: pointer.url,
+    key: pointer.key,
+    nonce: pointer.nonce,
+    size: pointer.size,
+    chunkSize: pointer.chunkSize,
+    mimeType: typeof pointer.mimeType === 'string' ? pointer.mimeType : 'application/octet-stream',
+  };
+}
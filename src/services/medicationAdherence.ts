@@ -0,0 +1,428 @@
+/**
+ * Medication Adherence — Summarize the medication log
+ *
+ * Turns medication agenda items and their `medication_log` into doses
+ * with a status, and summarizes them per medication and per week:
+ *
+ * - taken:    confirmed within LATE threshold of the scheduled time
+ * - late:     confirmed, but more than the threshold after the dose time
+ * - skipped:  the user said they skipped it
+ * - missed:   nothing logged and the grace period has passed
+ * - pending:  due, still within the grace period
+ * - upcoming: not due yet
+ *
+ * Pure functions (no database, no i18n instance) so it can run in unit
+ * tests; medicationSummary.ts does the loading, sending and exporting.
+ *
+ * @see models/AgendaItem.ts (MedicationLogEntry)
+ * @see services/medicationSummary.ts
+ */
+
+import type { AgendaItemModel, MedicationLogEntry } from '@/models/AgendaItem';
+import { getItemRule, expandRecurrence, toDayKey } from '@/services/agendaRecurrence';
+
+// ============================================================
+// Types
+// ============================================================
+
+/** Agenda item fields needed for adherence (a record or a plain object) */
+export type MedicationItem = Pick<
+  AgendaItemModel,
+  | 'id'
+  | 'title'
+  | 'category'
+  | 'formType'
+  | 'itemDate'
+  | 'time'
+  | 'times'
+  | 'repeatType'
+  | 'endDate'
+  | 'rrule'
+  | 'exdates'
+  | 'medicationLog'
+  | 'isHidden'
+  | 'parentId'
+  | 'exceptionDate'
+>;
+
+export type DoseStatus = 'taken' | 'late' | 'skipped' | 'missed' | 'pending' | 'upcoming';
+
+export interface Dose {
+  /** Series the dose belongs to (parent id for "alleen vandaag" exceptions) */
+  medicationId: string;
+  title: string;
+  /** Day "YYYY-MM-DD" */
+  date: string;
+  /** Dose time "HH:MM" */
+  time: string;
+  scheduledAt: number;
+  status: DoseStatus;
+  confirmedAt?: number;
+}
+
+export interface AdherenceSummary {
+  taken: number;
+  late: number;
+  skipped: number;
+  missed: number;
+  pending: number;
+  upcoming: number;
+  /** Taken (on time or late) / doses that were due, null when nothing was due */
+  rate: number | null;
+}
+
+export interface WeekSummary extends AdherenceSummary {
+  /** Monday of the week, "YYYY-MM-DD" */
+  weekStart: string;
+}
+
+export interface MedicationSummary extends AdherenceSummary {
+  medicationId: string;
+  title: string;
+}
+
+export interface AdherenceOptions {
+  /** Taken more than this after the dose time counts as late */
+  lateAfterMinutes: number;
+  /** Nothing logged this long after the dose time counts as missed */
+  missedAfterMinutes: number;
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+export const DEFAULT_ADHERENCE_OPTIONS: AdherenceOptions = {
+  lateAfterMinutes: 60,
+  missedAfterMinutes: 120,
+};
+
+/** Time used for medication items without a time (all-day) */
+const DEFAULT_DOSE_TIME = '09:00';
+
+const MINUTE_MS = 60 * 1000;
+
+// ============================================================
+// Helpers
+// ============================================================
+
+function parseJsonArray<T>(value: string | undefined): T[] {
+  if (!value) return [];
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed) ? (parsed as T[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function atTime(dayTimestamp: number, time: string): number {
+  const date = new Date(dayTimestamp);
+  const [hours, minutes] = time.split(':').map(Number);
+  date.setHours(hours, minutes || 0, 0, 0);
+  return date.getTime();
+}
+
+/** Monday of the week of a day key */
+function weekStartOf(dayKey: string): string {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  const offset = (date.getDay() + 6) % 7;
+  return toDayKey(new Date(year, month - 1, day - offset).getTime());
+}
+
+export function isMedicationItem(item: Pick<MedicationItem, 'category' | 'formType'>): boolean {
+  return item.formType === 'medication' || item.category === 'medication';
+}
+
+/** Dose times of an item: medication can have several per day */
+function doseTimes(item: MedicationItem): string[] {
+  const times = parseJsonArray<string>(item.times).filter(time => typeof time === 'string');
+  if (times.length > 0) return times;
+  return [item.time ?? DEFAULT_DOSE_TIME];
+}
+
+/**
+ * Status of one dose from its log entry.
+ */
+export function classifyDose(
+  scheduledAt: number,
+  entry: MedicationLogEntry | undefined,
+  now: number,
+  options: AdherenceOptions = DEFAULT_ADHERENCE_OPTIONS,
+): DoseStatus {
+  if (entry?.status === 'skipped') return 'skipped';
+  if (entry?.status === 'taken') {
+    const confirmedAt = entry.confirmedAt ?? scheduledAt;
+    return confirmedAt - scheduledAt > options.lateAfterMinutes * MINUTE_MS ? 'late' : 'taken';
+  }
+  if (now < scheduledAt) return 'upcoming';
+  return now - scheduledAt > options.missedAfterMinutes * MINUTE_MS ? 'missed' : 'pending';
+}
+
+// ============================================================
+// Doses
+// ============================================================
+
+/**
+ * All doses of medication items in a date range, with their status.
+ *
+ * @param items - Medication items including exception records (hidden
+ *   exceptions remove that day from the series)
+ * @param rangeStart - Local midnight of the first day
+ * @param rangeEnd - Local midnight of the last day (inclusive)
+ * @param now - Current time (for pending / missed)
+ * @returns Doses sorted by scheduled time
+ */
+export function buildDoses(
+  items: MedicationItem[],
+  rangeStart: number,
+  rangeEnd: number,
+  now: number = Date.now(),
+  options: AdherenceOptions = DEFAULT_ADHERENCE_OPTIONS,
+): Dose[] {
+  const medications = items.filter(isMedicationItem);
+
+  // Days taken over by an exception record, per series
+  const exceptionDays = new Map<string, Set<string>>();
+  for (const item of medications) {
+    if (!item.parentId || item.exceptionDate === undefined) continue;
+    const days = exceptionDays.get(item.parentId) ?? new Set<string>();
+    days.add(toDayKey(item.exceptionDate));
+    exceptionDays.set(item.parentId, days);
+  }
+
+  const doses: Dose[] = [];
+  for (const item of medications) {
+    if (item.isHidden) continue;
+
+    const rule = item.parentId ? null : getItemRule(item);
+    let days: number[];
+    if (rule) {
+      const excluded = new Set([
+        ...parseJsonArray<string>(item.exdates),
+        ...(exceptionDays.get(item.id) ?? []),
+      ]);
+      days = expandRecurrence(rule, item.itemDate, rangeStart, rangeEnd, excluded);
+    } else {
+      days = item.itemDate >= rangeStart && item.itemDate <= rangeEnd ? [item.itemDate] : [];
+    }
+    if (days.length === 0) continue;
+
+    const log = parseJsonArray<MedicationLogEntry>(item.medicationLog);
+    const times = doseTimes(item);
+
+    for (const day of days) {
+      const date = toDayKey(day);
+      for (const time of times) {
+        const scheduledAt = atTime(day, time);
+        const entry = log.find(e => e.date === date && e.time === time);
+        doses.push({
+          medicationId: item.parentId ?? item.id,
+          title: item.title,
+          date,
+          time,
+          scheduledAt,
+          status: classifyDose(scheduledAt, entry, now, options),
+          confirmedAt: entry?.status === 'taken' ? entry.confirmedAt : undefined,
+        });
+      }
+    }
+  }
+
+  return doses.sort((a, b) => a.scheduledAt - b.scheduledAt);
+}
+
+// ============================================================
+// Summaries
+// ============================================================
+
+export function summarizeDoses(doses: Dose[]): AdherenceSummary {
+  const summary: AdherenceSummary = {
+    taken: 0,
+    late: 0,
+    skipped: 0,
+    missed: 0,
+    pending: 0,
+    upcoming: 0,
+    rate: null,
+  };
+  for (const dose of doses) {
+    summary[dose.status]++;
+  }
+
+  const due = summary.taken + summary.late + summary.skipped + summary.missed;
+  summary.rate = due > 0 ? (summary.taken + summary.late) / due : null;
+  return summary;
+}
+
+/** Summary per calendar week (Monday–Sunday), oldest week first */
+export function summarizeByWeek(doses: Dose[]): WeekSummary[] {
+  const weeks = new Map<string, Dose[]>();
+  for (const dose of doses) {
+    const weekStart = weekStartOf(dose.date);
+    weeks.set(weekStart, [...(weeks.get(weekStart) ?? []), dose]);
+  }
+
+  return [...weeks.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([weekStart, weekDoses]) => ({ weekStart, ...summarizeDoses(weekDoses) }));
+}
+
+/** Summary per medication, in order of first dose */
+export function summarizeByMedication(doses: Dose[]): MedicationSummary[] {
+  const medications = new Map<string, Dose[]>();
+  for (const dose of doses) {
+    medications.set(dose.medicationId, [...(medications.get(dose.medicationId) ?? []), dose]);
+  }
+
+  return [...medications.entries()].map(([medicationId, medicationDoses]) => ({
+    medicationId,
+    title: medicationDoses[0].title,
+    ...summarizeDoses(medicationDoses),
+  }));
+}
+
+/** Adherence as a whole percentage, e.g. 0.857 → "86%" */
+export function formatRate(rate: number | null): string {
+  return rate === null ? '–' : `${Math.round(rate * 100)}%`;
+}
+
+// ============================================================
+// Caregiver summary & report
+// ============================================================
+
+type Translate = (key: string, options?: Record<string, unknown>) => string;
+
+const STATUS_ICONS: Record<DoseStatus, string> = {
+  taken: '✅',
+  late: '⏰',
+  skipped: '⏭️',
+  missed: '❌',
+  pending: '⏳',
+  upcoming: '🕒',
+};
+
+function formatDay(dayKey: string, locale: string, format: 'long' | 'short' = 'long'): string {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(locale, format === 'long'
+    ? { weekday: 'long', day: 'numeric', month: 'long' }
+    : { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+function formatClock(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+function doseLabel(dose: Dose, t: Translate): string {
+  const status = t(`modules.agenda.adherence.status.${dose.status}`);
+  return dose.status === 'late' && dose.confirmedAt
+    ? `${status} (${formatClock(dose.confirmedAt)})`
+    : status;
+}
+
+/**
+ * Plain text summary of one day, sent to the chosen ICE contact.
+ * One line per dose so it reads well in a chat bubble.
+ */
+export function buildDailySummaryText(
+  dayKey: string,
+  doses: Dose[],
+  t: Translate,
+  locale: string,
+): string {
+  const dayDoses = doses.filter(dose => dose.date === dayKey);
+  const summary = summarizeDoses(dayDoses);
+  const header = t('modules.agenda.adherence.summary.header', { date: formatDay(dayKey, locale) });
+
+  if (dayDoses.length === 0) {
+    return `${header}\n${t('modules.agenda.adherence.summary.noDoses')}`;
+  }
+
+  const lines = dayDoses.map(dose =>
+    `${STATUS_ICONS[dose.status]} ${dose.time} ${dose.title} — ${doseLabel(dose, t)}`,
+  );
+  const due = dayDoses.length - summary.pending - summary.upcoming;
+  return [
+    header,
+    t('modules.agenda.adherence.summary.count', { taken: summary.taken + summary.late, due }),
+    '',
+    ...lines,
+  ].join('\n');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Printable HTML overview for a visit to the GP: totals per medication,
+ * per week, and every dose that was not taken on time.
+ * Opens in any browser and prints on A4 without extra libraries.
+ */
+export function buildAdherenceReportHtml(params: {
+  doses: Dose[];
+  from: string;
+  to: string;
+  t: Translate;
+  locale: string;
+  now?: number;
+}): string {
+  const { doses, from, to, t, locale, now = Date.now() } = params;
+  const k = (key: string, options?: Record<string, unknown>) =>
+    escapeHtml(t(`modules.agenda.adherence.report.${key}`, options));
+
+  const totalsHeader = `<tr><th>${k('medication')}</th><th>${k('taken')}</th><th>${k('late')}</th>`
+    + `<th>${k('skipped')}</th><th>${k('missed')}</th><th>${k('rate')}</th></tr>`;
+  const totalsRow = (label: string, summary: AdherenceSummary) =>
+    `<tr><td>${escapeHtml(label)}</td><td>${summary.taken}</td><td>${summary.late}</td>`
+    + `<td>${summary.skipped}</td><td>${summary.missed}</td><td>${formatRate(summary.rate)}</td></tr>`;
+
+  const medicationRows = summarizeByMedication(doses).map(m => totalsRow(m.title, m));
+  const weekRows = summarizeByWeek(doses).map(w =>
+    totalsRow(t('modules.agenda.adherence.weekOf', { date: formatDay(w.weekStart, locale, 'short') }), w),
+  );
+
+  const exceptions = doses.filter(d => d.status === 'late' || d.status === 'skipped' || d.status === 'missed');
+  const exceptionRows = exceptions.map(d =>
+    `<tr><td>${escapeHtml(formatDay(d.date, locale, 'short'))}</td><td>${d.time}</td>`
+    + `<td>${escapeHtml(d.title)}</td><td>${escapeHtml(doseLabel(d, t))}</td></tr>`,
+  );
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(locale)}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${k('title')}</title>
+<style>
+body { font-family: -apple-system, Roboto, Arial, sans-serif; font-size: 14px; color: #212121; margin: 24px; }
+h1 { font-size: 22px; } h2 { font-size: 17px; margin-top: 28px; }
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid #BDBDBD; padding: 6px 8px; text-align: left; }
+th { background: #F5F5F5; }
+.meta { color: #616161; }
+</style>
+</head>
+<body>
+<h1>${k('title')}</h1>
+<p class="meta">${k('period', { from: formatDay(from, locale, 'short'), to: formatDay(to, locale, 'short') })}</p>
+<p><strong>${k('overall', { rate: formatRate(summarizeDoses(doses).rate) })}</strong></p>
+<h2>${k('perMedication')}</h2>
+<table>${totalsHeader}${medicationRows.join('')}</table>
+<h2>${k('perWeek')}</h2>
+<table>${totalsHeader.replace(k('medication'), k('week'))}${weekRows.join('')}</table>
+<h2>${k('exceptions')}</h2>
+${exceptionRows.length > 0
+    ? `<table><tr><th>${k('date')}</th><th>${k('time')}</th><th>${k('medication')}</th><th>${k('status')}</th></tr>${exceptionRows.join('')}</table>`
+    : `<p>${k('noExceptions')}</p>`}
+<p class="meta">${k('generated', { date: new Date(now).toLocaleDateString(locale) })}</p>
+</body>
+</html>
+`;
+}
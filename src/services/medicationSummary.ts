@@ -0,0 +1,198 @@
+/**
+ * Medication Summary — Caregiver messages and the GP overview
+ *
+ * - Daily summary: once a day (after the chosen time) the medication of
+ *   that day is sent to one ICE contact as a normal, end-to-end
+ *   encrypted chat message. Runs when the app starts or comes to the
+ *   foreground; a summary that could not be sent yesterday is sent the
+ *   next morning instead.
+ * - Report: printable HTML overview of a period, handed over like the
+ *   podcast OPML and .ics exports (share sheet on iOS, Downloads on Android).
+ *
+ * The numbers come from medicationAdherence.ts.
+ *
+ * @see src/services/medicationAdherence.ts
+ * @see src/services/mail/calendarMailService.ts (same file hand-over)
+ */
+
+import { Platform, Share } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import RNFS from 'react-native-fs';
+
+import i18n from '@/i18n';
+import { ServiceContainer } from '@/services/container';
+import type { WatermelonDBService } from '@/services/database';
+import type { AgendaItemModel } from '@/models/AgendaItem';
+import { toDayKey } from '@/services/agendaRecurrence';
+import {
+  buildDoses,
+  buildDailySummaryText,
+  buildAdherenceReportHtml,
+  type Dose,
+} from '@/services/medicationAdherence';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface DailySummarySettings {
+  enabled: boolean;
+  /** JID of the ICE contact that receives the summary */
+  contactJid: string | null;
+  /** Earliest time to send the summary of the day, "HH:MM" */
+  sendAt: string;
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+const SETTINGS_KEY = 'medication_summary_settings';
+const LAST_SENT_KEY = 'medication_summary_last_sent';
+
+const DEFAULT_SETTINGS: DailySummarySettings = {
+  enabled: false,
+  contactJid: null,
+  sendAt: '20:00',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================
+// Settings
+// ============================================================
+
+export async function getDailySummarySettings(): Promise<DailySummarySettings> {
+  try {
+    const stored = await AsyncStorage.getItem(SETTINGS_KEY);
+    return stored
+      ? { ...DEFAULT_SETTINGS, ...(JSON.parse(stored) as Partial<DailySummarySettings>) }
+      : DEFAULT_SETTINGS;
+  } catch (error) {
+    console.warn('[medicationSummary] Failed to load settings:', error);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export async function saveDailySummarySettings(settings: DailySummarySettings): Promise<void> {
+  await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+// ============================================================
+// Doses
+// ============================================================
+
+function startOfDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+/**
+ * Doses of all medication items between two days (inclusive).
+ * Loads hidden records too: deleted "alleen vandaag" exceptions
+ * remove their day from the series.
+ */
+export async function loadDoses(rangeStart: number, rangeEnd: number, now: number = Date.now()): Promise<Dose[]> {
+  const db = (ServiceContainer.database as WatermelonDBService).getDb();
+  const records = await db.get<AgendaItemModel>('agenda_items').query().fetch();
+  return buildDoses(records, startOfDay(rangeStart), startOfDay(rangeEnd), now);
+}
+
+// ============================================================
+// Daily summary
+// ============================================================
+
+/**
+ * Day whose summary is due now, or null. The summary of today is due
+ * after the send time; until then yesterday's summary is still due if
+ * it was never sent.
+ */
+function dueDay(settings: DailySummarySettings, lastSent: string | null, now: number): string | null {
+  const [hours, minutes] = settings.sendAt.split(':').map(Number);
+  const sendAt = new Date(now);
+  sendAt.setHours(hours, minutes || 0, 0, 0);
+
+  const today = toDayKey(now);
+  const yesterday = toDayKey(startOfDay(now) - DAY_MS / 2);
+  const candidate = now >= sendAt.getTime() ? today : yesterday;
+
+  if (lastSent && lastSent >= candidate) return null;
+  // Only catch up one day: older summaries are no longer useful
+  if (candidate === yesterday && lastSent === null) return null;
+  return candidate;
+}
+
+/**
+ * Send the daily summary to the chosen ICE contact when it is due.
+ * Safe to call often (app start, every foreground).
+ *
+ * @returns true when a summary was sent
+ */
+export async function sendDailySummaryIfDue(now: number = Date.now()): Promise<boolean> {
+  const settings = await getDailySummarySettings();
+  if (!settings.enabled || !settings.contactJid) return false;
+
+  const lastSent = await AsyncStorage.getItem(LAST_SENT_KEY);
+  const day = dueDay(settings, lastSent, now);
+  if (!day) return false;
+
+  const { chatService } = await import('@/services/chat');
+  if (!chatService.isInitialized) return false;
+
+  const [year, month, date] = day.split('-').map(Number);
+  const dayStart = new Date(year, month - 1, date).getTime();
+  const doses = await loadDoses(dayStart, dayStart, now);
+  if (doses.length === 0) {
+    // Nothing scheduled: do not bother the contact
+    await AsyncStorage.setItem(LAST_SENT_KEY, day);
+    return false;
+  }
+
+  const text = buildDailySummaryText(day, doses, i18n.t.bind(i18n), i18n.language);
+  await chatService.sendMessage(settings.contactJid, text);
+  await AsyncStorage.setItem(LAST_SENT_KEY, day);
+  console.info('[medicationSummary] Daily summary sent for', day);
+  return true;
+}
+
+// ============================================================
+// Report
+// ============================================================
+
+/**
+ * Write the printable overview of a period and hand it to the user.
+ *
+ * @returns 'shared' when the share sheet was used, 'saved' for Downloads
+ */
+export async function exportAdherenceReport(
+  rangeStart: number,
+  rangeEnd: number,
+  now: number = Date.now(),
+): Promise<'shared' | 'saved'> {
+  const doses = await loadDoses(rangeStart, rangeEnd, now);
+  const html = buildAdherenceReportHtml({
+    doses,
+    from: toDayKey(rangeStart),
+    to: toDayKey(rangeEnd),
+    t: i18n.t.bind(i18n),
+    locale: i18n.language,
+    now,
+  });
+
+  const fileName = `CommEazy-${i18n.t('modules.agenda.adherence.report.fileName')}-${toDayKey(now)}.html`;
+  const path = `${RNFS.CachesDirectoryPath}/${fileName}`;
+  await RNFS.writeFile(path, html, 'utf8');
+
+  if (Platform.OS === 'ios') {
+    await Share.share({ url: `file://${path}` });
+    return 'shared';
+  }
+
+  const target = `${RNFS.DownloadDirectoryPath}/${fileName}`;
+  if (await RNFS.exists(target)) {
+    await RNFS.unlink(target);
+  }
+  await RNFS.copyFile(path, target);
+  return 'saved';
+}
@@ -0,0 +1,137 @@
+/**
+ * Message Actions — edit, delete for everyone, reactions
+ *
+ * Actions travel as structured JSON inside the normal encrypted envelope,
+ * next to photo and agenda item payloads:
+ *
+ *   { "type": "edit",     "targetId": "…", "text": "…", "editedAt": 1700000000000 }
+ *   { "type": "retract",  "targetId": "…", "retractedAt": 1700000000000 }
+ *   { "type": "reaction", "targetId": "…", "emoji": "👍" }   (emoji null = remove)
+ *
+ * The time windows are enforced by the sender when offering the action; a
+ * receiver only checks that edits and retracts come from the original author,
+ * so an action delivered late from the 7-day outbox still applies. An edit
+ * older than the version already shown is ignored.
+ *
+ * Used by ChatService (1-on-1) and GroupChatService (groups).
+ *
+ * @see services/chat.ts — handleIncomingMessage structured branch
+ * @see services/groupChat.ts — saveIncomingMessage
+ */
+
+import { ServiceContainer } from './container';
+import type { Message } from './interfaces';
+import { deleteMedia } from './media/mediaStorageService';
+
+/** Own messages can be edited up to 24 hours after sending */
+export const EDIT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/** Own messages can be deleted for everyone up to 24 hours after sending */
+export const RETRACT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/** Reactions offered in the UI — a short, recognisable set */
+export const REACTION_EMOJIS = ['👍', '❤️', '😂', '😮', '😢', '🙏'] as const;
+
+export type MessageAction =
+  | { type: 'edit'; targetId: string; text: string; editedAt: number }
+  | { type: 'retract'; targetId: string; retractedAt: number }
+  | { type: 'reaction'; targetId: string; emoji: string | null };
+
+/**
+ * Recognise an action in a parsed payload.
+ * Returns null for anything else (text, photo, agenda item, malformed).
+ */
+export function parseMessageAction(parsed: unknown): MessageAction | null {
+  if (!parsed || typeof parsed !== 'object') return null;
+  const value = parsed as Record<string, unknown>;
+  if (typeof value.targetId !== 'string' || value.targetId.length === 0) return null;
+
+  switch (value.type) {
+    case 'edit':
+      if (typeof value.text !== 'string' || value.text.trim().length === 0) return null;
+      if (typeof value.editedAt !== 'number') return null;
+      return { type: 'edit', targetId: value.targetId, text: value.text, editedAt: value.editedAt };
+    case 'retract':
+      if (typeof value.retractedAt !== 'number') return null;
+      return { type: 'retract', targetId: value.targetId, retractedAt: value.retractedAt };
+    case 'reaction':
+      if (value.emoji !== null && typeof value.emoji !== 'string') return null;
+      // One emoji, not a message smuggled in as a reaction
+      if (typeof value.emoji === 'string' && (value.emoji.length === 0 || value.emoji.length > 16)) return null;
+      return { type: 'reaction', targetId: value.targetId, emoji: value.emoji };
+    default:
+      return null;
+  }
+}
+
+/** Own text message, not deleted, within the edit window */
+export function canEditMessage(message: Message, myJid: string, now = Date.now()): boolean {
+  return message.senderId === myJid
+    && message.contentType === 'text'
+    && !message.retractedAt
+    && now - message.timestamp <= EDIT_WINDOW_MS;
+}
+
+/** Own message, not deleted yet, within the retract window */
+export function canRetractMessage(message: Message, myJid: string, now = Date.now()): boolean {
+  return message.senderId === myJid
+    && message.contentType !== 'system'
+    && !message.retractedAt
+    && now - message.timestamp <= RETRACT_WINDOW_MS;
+}
+
+/** Anyone's message, as long as it still exists */
+export function canReactToMessage(message: Message): boolean {
+  return message.contentType !== 'system' && !message.retractedAt;
+}
+
+/**
+ * Apply an action received from `senderJid` in `chatId`.
+ * Returns the updated message, or null when the action was rejected.
+ */
+export async function applyMessageAction(
+  action: MessageAction,
+  chatId: string,
+  senderJid: string,
+): Promise<Message | null> {
+  const db = ServiceContainer.database;
+  const target = await db.getMessage(action.targetId);
+
+  // Actions only reach messages in the same conversation
+  if (!target || target.chatId !== chatId) {
+    console.warn(`[MessageActions] Ignoring ${action.type}: target not in this chat`);
+    return null;
+  }
+  if (target.retractedAt) {
+    return null;
+  }
+
+  switch (action.type) {
+    case 'edit':
+      if (target.senderId !== senderJid || target.contentType !== 'text') {
+        console.warn('[MessageActions] Ignoring edit from someone other than the author');
+        return null;
+      }
+      if (target.content === action.text) return target; // Outbox re-delivery
+      // Edits can arrive out of order (outbox, reconnect): keep the newest
+      if (action.editedAt <= (target.editedAt ?? target.timestamp)) return target;
+      await db.editMessage(target.id, action.text, action.editedAt);
+      break;
+    case 'retract':
+      if (target.senderId !== senderJid) {
+        console.warn('[MessageActions] Ignoring retract from someone other than the author');
+        return null;
+      }
+      await db.retractMessage(target.id, action.retractedAt);
+      // A deleted voice message must not stay playable from storage
+      if (target.mediaId) {
+        await deleteMedia(target.mediaId);
+      }
+      break;
+    case 'reaction':
+      await db.setMessageReaction(target.id, senderJid, action.emoji);
+      break;
+  }
+
+  return db.getMessage(target.id);
+}
@@ -0,0 +1,64 @@
+/**
+ * Network Status — Connection type detection (Wi-Fi vs mobile data)
+ *
+ * Thin wrapper around the native NetworkStatusModule (iOS, NWPathMonitor).
+ * Where the module is not available the connection type is 'unknown' and
+ * callers should not block work on it.
+ *
+ * @see ios/NetworkStatusModule.swift
+ */
+
+import { NativeModules, NativeEventEmitter, Platform } from 'react-native';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type ConnectionType = 'wifi' | 'cellular' | 'other' | 'none' | 'unknown';
+
+interface NetworkStatusModuleInterface {
+  getConnectionType(): Promise<Exclude<ConnectionType, 'unknown'>>;
+}
+
+// Check if native module is available (iOS only)
+const NetworkStatusModule: NetworkStatusModuleInterface | null =
+  Platform.OS === 'ios'
+    ? (NativeModules.NetworkStatusModule as NetworkStatusModuleInterface | undefined) ?? null
+    : null;
+
+let eventEmitter: NativeEventEmitter | null = null;
+
+// ============================================================
+// API
+// ============================================================
+
+/**
+ * Current connection type, or 'unknown' when it cannot be determined.
+ */
+export async function getConnectionType(): Promise<ConnectionType> {
+  if (!NetworkStatusModule) return 'unknown';
+
+  try {
+    return await NetworkStatusModule.getConnectionType();
+  } catch (error) {
+    console.warn('[networkStatus] Failed to get connection type:', error);
+    return 'unknown';
+  }
+}
+
+/**
+ * Listen for connection type changes.
+ * @returns Unsubscribe function
+ */
+export function onConnectionTypeChange(listener: (type: ConnectionType) => void): () => void {
+  if (!NetworkStatusModule) return () => {};
+
+  if (!eventEmitter) {
+    eventEmitter = new NativeEventEmitter(NativeModules.NetworkStatusModule);
+  }
+  const subscription = eventEmitter.addListener(
+    'networkStatusChanged',
+    (event: { type: ConnectionType }) => listener(event.type),
+  );
+  return () => subscription.remove();
+}
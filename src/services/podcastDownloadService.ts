@@ -0,0 +1,743 @@
+/**
+ * Podcast Download Service — Offline episodes
+ *
+ * Downloads podcast episodes to the device so they can be played without
+ * a connection. Features:
+ * - Persistent download queue (one episode at a time, survives app restarts)
+ * - Resumable downloads: episodes are fetched in HTTP Range chunks appended
+ *   to a .part file, so a paused or interrupted download continues where it
+ *   stopped (servers without Range support fall back to a single request)
+ * - "Wi-Fi only" setting (default on) — the queue waits on mobile data
+ * - Auto-download of the newest N episodes of every subscribed show
+ * - Auto-delete after an episode has been listened to
+ * - Storage usage info in the same shape as the books module
+ *
+ * Storage structure:
+ * - /Documents/podcasts/{fileName}.{ext} — Completed episode audio
+ * - /Documents/podcasts/{fileName}.part — Partial download
+ * - AsyncStorage: podcast_downloads — Download records
+ * - AsyncStorage: podcast_download_settings — User settings
+ *
+ * @see src/services/booksStorageService.ts — same download/storage pattern
+ */
+
+import RNFS from 'react-native-fs';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type { PodcastEpisode, PodcastShow } from '@/contexts/PodcastContext';
+import { getPodcastEpisodes } from './podcastService';
+import { getConnectionType, onConnectionTypeChange } from './networkStatus';
+import { calculateRetryDelay, PODCAST_DOWNLOAD_RETRY_CONFIG } from './retry-utils';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type EpisodeDownloadStatus = 'queued' | 'downloading' | 'paused' | 'failed' | 'completed';
+
+/**
+ * A downloaded (or downloading) episode
+ */
+export interface EpisodeDownload {
+  episode: PodcastEpisode;
+  showTitle: string;
+  status: EpisodeDownloadStatus;
+  localPath: string;
+  bytesDownloaded: number;
+  totalBytes: number;           // 0 while unknown
+  addedAt: number;
+  completedAt?: number;
+  isAutoDownload: boolean;
+}
+
+export interface PodcastDownloadSettings {
+  /** Only download on Wi-Fi (queue waits on mobile data) */
+  wifiOnly: boolean;
+  /** Newest episodes to keep downloaded per subscribed show (0 = off) */
+  autoDownloadCount: number;
+  /** Delete the download once the episode has been listened to */
+  autoDeleteAfterListening: boolean;
+}
+
+/**
+ * Storage info for UI display
+ */
+export interface PodcastStorageInfo {
+  usedBytes: number;
+  episodeCount: number;
+  formattedUsed: string;        // e.g., "45 MB"
+}
+
+export interface PodcastDownloadState {
+  downloads: EpisodeDownload[];
+  /** True when queued downloads wait for a Wi-Fi connection */
+  isWaitingForWifi: boolean;
+}
+
+export type PodcastDownloadListener = (state: PodcastDownloadState) => void;
+
+// ============================================================
+// Constants
+// ============================================================
+
+const PODCASTS_DIR = `${RNFS.DocumentDirectoryPath}/podcasts`;
+const STORAGE_KEYS = {
+  downloads: 'podcast_downloads',
+  settings: 'podcast_download_settings',
+  autoDownloaded: 'podcast_auto_downloaded_ids',
+  autoDownloadLastRun: 'podcast_auto_download_last_run',
+};
+
+const DEFAULT_DOWNLOAD_SETTINGS: PodcastDownloadSettings = {
+  wifiOnly: true,
+  autoDownloadCount: 0,
+  autoDeleteAfterListening: true,
+};
+
+const CHUNK_SIZE = 4 * 1024 * 1024; // 4 MB per Range request
+const DOWNLOAD_TIMEOUT_MS = 60000;
+const DOWNLOAD_MAX_RETRIES = PODCAST_DOWNLOAD_RETRY_CONFIG.maxAttempts;
+const AUTO_DOWNLOAD_INTERVAL_MS = 6 * 60 * 60 * 1000; // 6 hours
+const MAX_AUTO_DOWNLOADED_IDS = 500;
+const AUDIO_EXTENSIONS = ['mp3', 'm4a', 'aac', 'mp4', 'ogg', 'opus', 'wav'];
+
+/** Thrown inside the download loop when the user pauses or deletes */
+const DOWNLOAD_INTERRUPTED = 'DOWNLOAD_INTERRUPTED';
+/** Thrown inside the download loop when "Wi-Fi only" blocks the download */
+const WAITING_FOR_WIFI = 'WAITING_FOR_WIFI';
+
+// ============================================================
+// Helpers
+// ============================================================
+
+/**
+ * File-system safe name for an episode ID (GUIDs are often URLs).
+ * A short FNV-1a hash keeps truncated names unique.
+ */
+function fileNameForEpisode(episodeId: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < episodeId.length; i++) {
+    hash ^= episodeId.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  const readable = episodeId.replace(/[^a-zA-Z0-9_-]/g, '_').slice(-40);
+  return `${readable}_${(hash >>> 0).toString(16)}`;
+}
+
+function extensionForUrl(url: string): string {
+  const path = url.split(/[?#]/)[0];
+  const extension = path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+  return AUDIO_EXTENSIONS.includes(extension) ? extension : 'mp3';
+}
+
+/**
+ * Total size from a Content-Range header ("bytes 0-4194303/58000000").
+ */
+function parseContentRangeTotal(headers: Record<string, string> | undefined): number {
+  if (!headers) return 0;
+  const key = Object.keys(headers).find(name => name.toLowerCase() === 'content-range');
+  const match = key ? /\/(\d+)\s*$/.exec(headers[key]) : null;
+  return match ? parseInt(match[1], 10) : 0;
+}
+
+/**
+ * Format bytes to human-readable string
+ */
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return '0 B';
+
+  const units = ['B', 'KB', 'MB', 'GB'];
+  const k = 1024;
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+
+  return `${(bytes / Math.pow(k, i)).toFixed(1)} ${units[i]}`;
+}
+
+// ============================================================
+// Podcast Download Service
+// ============================================================
+
+class PodcastDownloadService {
+  private downloads: EpisodeDownload[] = [];
+  private settings: PodcastDownloadSettings = DEFAULT_DOWNLOAD_SETTINGS;
+  private listeners = new Set<PodcastDownloadListener>();
+  private initPromise: Promise<void> | null = null;
+  private isProcessing = false;
+  private isWaitingForWifi = false;
+  private activeEpisodeId: string | null = null;
+  private activeJobId: number | null = null;
+  private unsubscribeNetwork: (() => void) | null = null;
+
+  /**
+   * Load persisted downloads and settings (idempotent)
+   */
+  initialize(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.load().catch((error) => {
+        this.initPromise = null;
+        throw error;
+      });
+    }
+    return this.initPromise;
+  }
+
+  private async load(): Promise<void> {
+    const dirExists = await RNFS.exists(PODCASTS_DIR);
+    if (!dirExists) {
+      await RNFS.mkdir(PODCASTS_DIR);
+    }
+
+    try {
+      const [storedDownloads, storedSettings] = await Promise.all([
+        AsyncStorage.getItem(STORAGE_KEYS.downloads),
+        AsyncStorage.getItem(STORAGE_KEYS.settings),
+      ]);
+      if (storedSettings) {
+        this.settings = {
+          ...DEFAULT_DOWNLOAD_SETTINGS,
+          ...(JSON.parse(storedSettings) as Partial<PodcastDownloadSettings>),
+        };
+      }
+      this.downloads = storedDownloads ? (JSON.parse(storedDownloads) as EpisodeDownload[]) : [];
+    } catch (error) {
+      console.error('[PodcastDownloadService] Failed to load downloads:', error);
+      this.downloads = [];
+    }
+
+    // A download that was running when the app closed continues from its .part file
+    for (const download of this.downloads) {
+      if (download.status === 'downloading') {
+        download.status = 'queued';
+      }
+      if (download.status !== 'completed') {
+        download.bytesDownloaded = await this.getPartialSize(download);
+      }
+    }
+
+    // Resume the queue as soon as Wi-Fi comes back
+    this.unsubscribeNetwork = onConnectionTypeChange(() => {
+      if (this.isWaitingForWifi) {
+        void this.processQueue();
+      }
+    });
+
+    console.info('[PodcastDownloadService] Initialized with', this.downloads.length, 'downloads');
+  }
+
+  // ============================================================
+  // State & Listeners
+  // ============================================================
+
+  getState(): PodcastDownloadState {
+    return { downloads: [...this.downloads], isWaitingForWifi: this.isWaitingForWifi };
+  }
+
+  /**
+   * Listen for download state changes (progress, status, deletions).
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: PodcastDownloadListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.downloads, JSON.stringify(this.downloads));
+    } catch (error) {
+      console.error('[PodcastDownloadService] Failed to save downloads:', error);
+    }
+  }
+
+  private update(episodeId: string, changes: Partial<EpisodeDownload>): void {
+    const index = this.downloads.findIndex(d => d.episode.id === episodeId);
+    if (index === -1) return;
+    this.downloads[index] = { ...this.downloads[index], ...changes };
+    this.notify();
+  }
+
+  getDownload(episodeId: string): EpisodeDownload | null {
+    return this.downloads.find(d => d.episode.id === episodeId) ?? null;
+  }
+
+  /**
+   * Local file URI for a completed download, or null to stream.
+   * A download whose file has disappeared is removed.
+   */
+  async getLocalUri(episodeId: string): Promise<string | null> {
+    await this.initialize();
+
+    const download = this.getDownload(episodeId);
+    if (!download || download.status !== 'completed') return null;
+
+    const exists = await RNFS.exists(download.localPath);
+    if (!exists) {
+      console.warn('[PodcastDownloadService] Downloaded file missing, streaming instead:', episodeId);
+      await this.deleteDownload(episodeId);
+      return null;
+    }
+    return `file://${download.localPath}`;
+  }
+
+  // ============================================================
+  // Settings
+  // ============================================================
+
+  async getSettings(): Promise<PodcastDownloadSettings> {
+    await this.initialize();
+    return { ...this.settings };
+  }
+
+  async saveSettings(changes: Partial<PodcastDownloadSettings>): Promise<PodcastDownloadSettings> {
+    await this.initialize();
+    this.settings = { ...this.settings, ...changes };
+    await AsyncStorage.setItem(STORAGE_KEYS.settings, JSON.stringify(this.settings));
+
+    // Turning "Wi-Fi only" off releases a waiting queue
+    if (changes.wifiOnly === false && this.isWaitingForWifi) {
+      void this.processQueue();
+    }
+    return { ...this.settings };
+  }
+
+  // ============================================================
+  // Queue
+  // ============================================================
+
+  /**
+   * Add an episode to the download queue.
+   * Does nothing when the episode is already downloaded or queued.
+   */
+  async enqueue(
+    episode: PodcastEpisode,
+    show: PodcastShow,
+    isAutoDownload = false,
+  ): Promise<void> {
+    await this.initialize();
+
+    if (!episode.streamUrl) {
+      console.warn('[PodcastDownloadService] Episode has no audio URL:', episode.id);
+      return;
+    }
+
+    const existing = this.getDownload(episode.id);
+    if (existing) {
+      if (existing.status === 'failed' || existing.status === 'paused') {
+        await this.resumeDownload(episode.id);
+      }
+      return;
+    }
+
+    this.downloads.push({
+      episode,
+      showTitle: show.title,
+      status: 'queued',
+      localPath: `${PODCASTS_DIR}/${fileNameForEpisode(episode.id)}.${extensionForUrl(episode.streamUrl)}`,
+      bytesDownloaded: 0,
+      totalBytes: 0,
+      addedAt: Date.now(),
+      isAutoDownload,
+    });
+    await this.persist();
+    this.notify();
+
+    console.info('[PodcastDownloadService] Queued:', episode.title);
+    void this.processQueue();
+  }
+
+  /**
+   * Pause a queued or running download. The partial file is kept.
+   */
+  async pauseDownload(episodeId: string): Promise<void> {
+    const download = this.getDownload(episodeId);
+    if (!download || (download.status !== 'queued' && download.status !== 'downloading')) return;
+
+    this.update(episodeId, { status: 'paused' });
+    if (this.activeEpisodeId === episodeId) {
+      this.stopActiveJob();
+    }
+    await this.persist();
+  }
+
+  /**
+   * Put a paused or failed download back in the queue.
+   */
+  async resumeDownload(episodeId: string): Promise<void> {
+    const download = this.getDownload(episodeId);
+    if (!download || (download.status !== 'paused' && download.status !== 'failed')) return;
+
+    this.update(episodeId, { status: 'queued' });
+    await this.persist();
+    void this.processQueue();
+  }
+
+  /**
+   * Remove a download (any status) and its files.
+   */
+  async deleteDownload(episodeId: string): Promise<void> {
+    await this.initialize();
+
+    const download = this.getDownload(episodeId);
+    if (!download) return;
+
+    if (this.activeEpisodeId === episodeId) {
+      this.stopActiveJob();
+    }
+    this.downloads = this.downloads.filter(d => d.episode.id !== episodeId);
+    await this.persist();
+    this.notify();
+
+    for (const path of [download.localPath, this.partPath(download), this.chunkPath(download)]) {
+      try {
+        if (await RNFS.exists(path)) {
+          await RNFS.unlink(path);
+        }
+      } catch (error) {
+        console.warn('[PodcastDownloadService] Failed to delete file:', path, error);
+      }
+    }
+    console.info('[PodcastDownloadService] Deleted download:', download.episode.title);
+  }
+
+  /**
+   * Delete the download of a listened episode when auto-delete is on.
+   */
+  async handleEpisodeListened(episodeId: string): Promise<void> {
+    await this.initialize();
+    if (!this.settings.autoDeleteAfterListening) return;
+
+    const download = this.getDownload(episodeId);
+    if (download?.status === 'completed') {
+      console.info('[PodcastDownloadService] Auto-deleting listened episode:', download.episode.title);
+      await this.deleteDownload(episodeId);
+    }
+  }
+
+  /**
+   * Download queued episodes one at a time until the queue is empty,
+   * or until "Wi-Fi only" blocks it.
+   */
+  async processQueue(): Promise<void> {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    try {
+      await this.initialize();
+      this.isWaitingForWifi = false;
+
+      let next = this.downloads.find(d => d.status === 'queued');
+      while (next) {
+        if (!(await this.isNetworkAllowed())) {
+          this.isWaitingForWifi = true;
+          console.info('[PodcastDownloadService] Waiting for Wi-Fi');
+          break;
+        }
+        await this.runDownload(next.episode.id);
+        next = this.downloads.find(d => d.status === 'queued');
+      }
+    } catch (error) {
+      console.error('[PodcastDownloadService] Queue processing failed:', error);
+    } finally {
+      this.isProcessing = false;
+      this.notify();
+    }
+  }
+
+  private async isNetworkAllowed(): Promise<boolean> {
+    const type = await getConnectionType();
+    if (type === 'none') return false;
+    // 'unknown' (no native module) does not block: the setting can't be enforced there
+    return !this.settings.wifiOnly || type !== 'cellular';
+  }
+
+  // ============================================================
+  // Downloading
+  // ============================================================
+
+  private partPath(download: EpisodeDownload): string {
+    return download.localPath.replace(/\.[^./]+$/, '.part');
+  }
+
+  private chunkPath(download: EpisodeDownload): string {
+    return download.localPath.replace(/\.[^./]+$/, '.chunk');
+  }
+
+  private async getPartialSize(download: EpisodeDownload): Promise<number> {
+    try {
+      const partPath = this.partPath(download);
+      if (await RNFS.exists(partPath)) {
+        return Number((await RNFS.stat(partPath)).size);
+      }
+    } catch {
+      // Treat unreadable partial files as empty
+    }
+    return 0;
+  }
+
+  private stopActiveJob(): void {
+    if (this.activeJobId != null) {
+      console.info('[PodcastDownloadService] Stopping download job:', this.activeJobId);
+      RNFS.stopDownload(this.activeJobId);
+      this.activeJobId = null;
+    }
+  }
+
+  /**
+   * Download one episode, chunk by chunk, with retries per chunk.
+   */
+  private async runDownload(episodeId: string): Promise<void> {
+    this.activeEpisodeId = episodeId;
+    this.update(episodeId, { status: 'downloading' });
+    await this.persist();
+
+    let attempt = 0;
+    try {
+      for (;;) {
+        const download = this.getDownload(episodeId);
+        if (!download || download.status !== 'downloading') {
+          throw new Error(DOWNLOAD_INTERRUPTED);
+        }
+
+        try {
+          const isComplete = await this.downloadNextChunk(download);
+          attempt = 0;
+          if (isComplete) break;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          const current = this.getDownload(episodeId);
+          if (!current || current.status !== 'downloading') {
+            throw new Error(DOWNLOAD_INTERRUPTED);
+          }
+          if (message === WAITING_FOR_WIFI || attempt >= DOWNLOAD_MAX_RETRIES) {
+            throw error;
+          }
+
+          attempt++;
+          const retryDelay = calculateRetryDelay(PODCAST_DOWNLOAD_RETRY_CONFIG, attempt);
+          console.warn('[PodcastDownloadService] Chunk failed:', message, '- retry', attempt, 'in', retryDelay, 'ms');
+          await new Promise(resolve => setTimeout(resolve, retryDelay));
+        }
+      }
+
+      this.update(episodeId, { status: 'completed', completedAt: Date.now() });
+      console.info('[PodcastDownloadService] Download complete:', episodeId);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (message === WAITING_FOR_WIFI) {
+        // Back in the queue; processQueue notices the network on the next round
+        this.update(episodeId, { status: 'queued' });
+      } else if (message !== DOWNLOAD_INTERRUPTED) {
+        console.error('[PodcastDownloadService] Download failed:', episodeId, message);
+        this.update(episodeId, { status: 'failed' });
+      }
+    } finally {
+      this.activeEpisodeId = null;
+      await this.persist();
+    }
+  }
+
+  /**
+   * Fetch the next Range chunk and append it to the .part file.
+   * @returns true when the episode is complete
+   */
+  private async downloadNextChunk(download: EpisodeDownload): Promise<boolean> {
+    if (!(await this.isNetworkAllowed())) {
+      throw new Error(WAITING_FOR_WIFI);
+    }
+
+    const episodeId = download.episode.id;
+    const partPath = this.partPath(download);
+    const chunkPath = this.chunkPath(download);
+    const offset = await this.getPartialSize(download);
+    let totalBytes = download.totalBytes;
+    let isFullResponse = false;
+
+    const job = RNFS.downloadFile({
+      fromUrl: download.episode.streamUrl,
+      toFile: chunkPath,
+      headers: { Range: `bytes=${offset}-${offset + CHUNK_SIZE - 1}` },
+      connectionTimeout: DOWNLOAD_TIMEOUT_MS,
+      readTimeout: DOWNLOAD_TIMEOUT_MS,
+      progressInterval: 500,
+      begin: (res) => {
+        isFullResponse = res.statusCode === 200;
+        totalBytes = res.statusCode === 206
+          ? parseContentRangeTotal(res.headers) || totalBytes
+          : res.contentLength;
+        if (totalBytes !== download.totalBytes) {
+          this.update(episodeId, { totalBytes });
+        }
+      },
+      progress: (res) => {
+        this.update(episodeId, { bytesDownloaded: (isFullResponse ? 0 : offset) + res.bytesWritten });
+      },
+    });
+
+    this.activeJobId = job.jobId;
+    const result = await job.promise.finally(() => {
+      this.activeJobId = null;
+    });
+
+    try {
+      // Paused or deleted while the chunk was in flight
+      if (this.getDownload(episodeId)?.status !== 'downloading') {
+        throw new Error(DOWNLOAD_INTERRUPTED);
+      }
+
+      if (result.statusCode === 200) {
+        // Server ignored the Range header: the chunk is the whole episode
+        if (await RNFS.exists(partPath)) await RNFS.unlink(partPath);
+        await this.finishFile(chunkPath, download.localPath);
+        this.update(episodeId, { bytesDownloaded: result.bytesWritten, totalBytes: result.bytesWritten });
+        return true;
+      }
+
+      if (result.statusCode === 416 && offset > 0) {
+        // Range starts at the end of the file: nothing left to fetch
+        await this.finishFile(partPath, download.localPath);
+        return true;
+      }
+
+      if (result.statusCode !== 206) {
+        throw new Error(`Download failed with status: ${result.statusCode}`);
+      }
+
+      // Append through base64: RNFS has no binary append, chunks keep this small
+      const chunk = await RNFS.readFile(chunkPath, 'base64');
+      await RNFS.appendFile(partPath, chunk, 'base64');
+      const bytesDownloaded = offset + result.bytesWritten;
+      this.update(episodeId, { bytesDownloaded, totalBytes });
+      await this.persist();
+
+      if (result.bytesWritten === 0 || (totalBytes > 0 && bytesDownloaded >= totalBytes)) {
+        await this.finishFile(partPath, download.localPath);
+        return true;
+      }
+      return false;
+    } finally {
+      if (await RNFS.exists(chunkPath)) {
+        await RNFS.unlink(chunkPath);
+      }
+    }
+  }
+
+  private async finishFile(fromPath: string, localPath: string): Promise<void> {
+    if (await RNFS.exists(localPath)) {
+      await RNFS.unlink(localPath);
+    }
+    await RNFS.moveFile(fromPath, localPath);
+  }
+
+  // ============================================================
+  // Auto-download
+  // ============================================================
+
+  /**
+   * Queue the newest episodes of every subscribed show.
+   *
+   * Runs at most every few hours unless forced. Episodes that were
+   * auto-downloaded before (and perhaps deleted) or already listened to
+   * are not downloaded again.
+   *
+   * @param shows - Subscribed shows
+   * @param isListened - Whether an episode was already listened to
+   * @param force - Skip the interval check (e.g. right after subscribing)
+   *   without postponing the next regular run
+   */
+  async autoDownloadNewEpisodes(
+    shows: PodcastShow[],
+    isListened: (episodeId: string) => boolean,
+    force = false,
+  ): Promise<void> {
+    await this.initialize();
+    const count = this.settings.autoDownloadCount;
+    if (count <= 0 || shows.length === 0) return;
+
+    if (!force) {
+      const lastRun = Number(await AsyncStorage.getItem(STORAGE_KEYS.autoDownloadLastRun)) || 0;
+      if (Date.now() - lastRun < AUTO_DOWNLOAD_INTERVAL_MS) return;
+      await AsyncStorage.setItem(STORAGE_KEYS.autoDownloadLastRun, String(Date.now()));
+    }
+
+    const storedIds = await AsyncStorage.getItem(STORAGE_KEYS.autoDownloaded);
+    const autoDownloadedIds = storedIds ? (JSON.parse(storedIds) as string[]) : [];
+
+    for (const show of shows) {
+      const result = await getPodcastEpisodes(show);
+      if (!result.data) {
+        console.warn('[PodcastDownloadService] Auto-download skipped, no episodes for:', show.title);
+        continue;
+      }
+
+      const newest = [...result.data]
+        .sort((a, b) => b.publishedAt - a.publishedAt)
+        .slice(0, count);
+
+      for (const episode of newest) {
+        if (autoDownloadedIds.includes(episode.id) || isListened(episode.id) || this.getDownload(episode.id)) {
+          continue;
+        }
+        autoDownloadedIds.push(episode.id);
+        await this.enqueue(episode, show, true);
+      }
+    }
+
+    await AsyncStorage.setItem(
+      STORAGE_KEYS.autoDownloaded,
+      JSON.stringify(autoDownloadedIds.slice(-MAX_AUTO_DOWNLOADED_IDS)),
+    );
+  }
+
+  // ============================================================
+  // Storage Info
+  // ============================================================
+
+  /**
+   * Get storage usage information (completed and partial downloads)
+   */
+  async getStorageInfo(): Promise<PodcastStorageInfo> {
+    await this.initialize();
+
+    let totalBytes = 0;
+    for (const download of this.downloads) {
+      try {
+        const path = download.status === 'completed' ? download.localPath : this.partPath(download);
+        const exists = await RNFS.exists(path);
+        if (exists) {
+          const stat = await RNFS.stat(path);
+          totalBytes += Number(stat.size);
+        }
+      } catch (error) {
+        // Skip files we can't stat
+      }
+    }
+
+    return {
+      usedBytes: totalBytes,
+      episodeCount: this.downloads.filter(d => d.status === 'completed').length,
+      formattedUsed: formatBytes(totalBytes),
+    };
+  }
+
+  /**
+   * Stop listening for network changes (tests / teardown)
+   */
+  destroy(): void {
+    this.stopActiveJob();
+    this.unsubscribeNetwork?.();
+    this.unsubscribeNetwork = null;
+  }
+}
+
+// Export singleton instance
+export const podcastDownloadService = new PodcastDownloadService();
+
+// Export defaults for UI
+export { DEFAULT_DOWNLOAD_SETTINGS };
@@ -0,0 +1,170 @@
+/**
+ * Podcast OPML — Move subscriptions between apps and phones
+ *
+ * OPML is the file format every podcast app can import and export: an
+ * outline with one entry per feed URL. Family members can set up the
+ * podcasts on their own phone and hand over a single file.
+ *
+ * Export goes through the share sheet on iOS (mail, AirDrop, Save to
+ * Files) and to Downloads on Android, like backups. Import reads .opml
+ * files opened with CommEazy (iOS Documents/Inbox) or from Downloads.
+ *
+ * @see src/services/backup.ts (same file hand-over)
+ */
+
+import { Platform, Share } from 'react-native';
+import RNFS from 'react-native-fs';
+
+import type { PodcastShow } from '@/contexts/PodcastContext';
+import { parseXml, findAll } from './epub/xml';
+import { normalizeFeedUrl } from './podcastService';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface OpmlFeed {
+  feedUrl: string;
+  title: string;
+}
+
+export interface OpmlFileInfo {
+  path: string;
+  name: string;
+  modifiedAt: number;
+}
+
+// ============================================================
+// Constants
+// ============================================================
+
+const OPML_EXTENSION = '.opml';
+const EXPORT_FILE_NAME = 'CommEazy-podcasts.opml';
+
+// ============================================================
+// Format
+// ============================================================
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Build an OPML 2.0 document for the given shows.
+ */
+export function buildOpml(shows: PodcastShow[], createdAt: Date = new Date()): string {
+  const outlines = shows
+    .filter(show => show.feedUrl)
+    .map(show => {
+      const title = escapeXml(show.title);
+      return `    <outline type="rss" text="${title}" title="${title}" xmlUrl="${escapeXml(show.feedUrl)}" />`;
+    });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    '    <title>CommEazy Podcasts</title>',
+    `    <dateCreated>${createdAt.toUTCString()}</dateCreated>`,
+    '  </head>',
+    '  <body>',
+    ...outlines,
+    '  </body>',
+    '</opml>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Feeds in an OPML document, in document order without duplicates.
+ * Folders (nested outlines) are flattened; outlines without a usable
+ * feed URL are skipped.
+ */
+export function parseOpml(source: string): OpmlFeed[] {
+  const feeds: OpmlFeed[] = [];
+  const seen = new Set<string>();
+
+  for (const outline of findAll(parseXml(source), 'outline')) {
+    // Attribute names keep their case; some exporters write "xmlurl"
+    const attributes: Record<string, string> = {};
+    for (const [name, value] of Object.entries(outline.attributes)) {
+      attributes[name.toLowerCase()] = value;
+    }
+    if (!attributes.xmlurl) continue;
+
+    const feedUrl = normalizeFeedUrl(attributes.xmlurl);
+    if (!feedUrl || seen.has(feedUrl)) continue;
+    seen.add(feedUrl);
+
+    feeds.push({
+      feedUrl,
+      title: attributes.title || attributes.text || feedUrl,
+    });
+  }
+
+  return feeds;
+}
+
+// ============================================================
+// Files
+// ============================================================
+
+/**
+ * Write the subscriptions to an OPML file and hand it to the user.
+ *
+ * @returns 'shared' when the share sheet was used, 'saved' for Downloads
+ */
+export async function exportOpmlFile(shows: PodcastShow[]): Promise<'shared' | 'saved'> {
+  const path = `${RNFS.CachesDirectoryPath}/${EXPORT_FILE_NAME}`;
+  await RNFS.writeFile(path, buildOpml(shows), 'utf8');
+
+  if (Platform.OS === 'ios') {
+    await Share.share({ url: `file://${path}` });
+    return 'shared';
+  }
+
+  const target = `${RNFS.DownloadDirectoryPath}/${EXPORT_FILE_NAME}`;
+  if (await RNFS.exists(target)) {
+    await RNFS.unlink(target);
+  }
+  await RNFS.copyFile(path, target);
+  return 'saved';
+}
+
+/**
+ * OPML files this device can see, newest first.
+ */
+export async function listOpmlFiles(): Promise<OpmlFileInfo[]> {
+  const directory = Platform.OS === 'ios'
+    ? `${RNFS.DocumentDirectoryPath}/Inbox`
+    : RNFS.DownloadDirectoryPath;
+
+  if (!(await RNFS.exists(directory))) return [];
+
+  try {
+    const items = await RNFS.readDir(directory);
+    return items
+      .filter(item => item.isFile() && item.name.toLowerCase().endsWith(OPML_EXTENSION))
+      .map(item => ({
+        path: item.path,
+        name: item.name,
+        modifiedAt: item.mtime ? item.mtime.getTime() : 0,
+      }))
+      .sort((a, b) => b.modifiedAt - a.modifiedAt);
+  } catch (error) {
+    console.warn('[podcastOpml] Could not read folder:', (error as Error).message);
+    return [];
+  }
+}
+
+/**
+ * Read the feeds from an OPML file.
+ */
+export async function readOpmlFile(path: string): Promise<OpmlFeed[]> {
+  const source = await RNFS.readFile(path, 'utf8');
+  return parseOpml(source);
+}
@@ -7,6 +7,9 @@
  * For episode fetching, we parse RSS feeds directly since iTunes
  * doesn't provide episode-level data in search results.
  *
+ * Shows can also be added by feed URL (RSS or Atom) without iTunes;
+ * those get a stable id derived from the URL (see getFeedShowId).
+ *
  * Features:
  * - Rate limiting (~15 req/min to stay under iTunes limit of ~20/min)
  * - Two-tier caching (memory + AsyncStorage)
@@ -75,6 +78,7 @@ export type ApiResult<T> = {
 // ============================================================
 
 const ITUNES_API = 'https://itunes.apple.com';
+const FEED_SHOW_ID_PREFIX = 'feed-';
 const API_TIMEOUT_MS = 15000;
 const RSS_TIMEOUT_MS = 20000;
 
@@ -169,9 +173,115 @@ function extractTagContent(content: string, tagName: string): string | null {
   return null;
 }
 
+/**
+ * Extract text from an element that may carry attributes (Atom style),
+ * e.g. <title type="html">…</title>
+ */
+function extractElementText(content: string, tagName: string): string | null {
+  const match = content.match(new RegExp(`<${tagName}(?:\\s[^>]*)?>([\\s\\S]*?)</${tagName}>`));
+  if (!match) return null;
+
+  const value = match[1].trim();
+  const cdataMatch = value.match(/^<!\[CDATA\[([\s\S]*?)\]\]>$/);
+  return cdataMatch ? cdataMatch[1].trim() : decodeHtmlEntities(value);
+}
+
+/**
+ * Read an attribute from a single tag, with single or double quotes
+ */
+function extractAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}=(?:"([^"]*)"|'([^']*)')`));
+  if (!match) return undefined;
+  return decodeHtmlEntities(match[1] ?? match[2]);
+}
+
+/**
+ * Parse an Atom feed into the same shape as an RSS channel
+ */
+function parseAtomFeed(feedContent: string): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  // Feed-level metadata lives outside the entries
+  const headContent = feedContent.replace(/<entry[\s>][\s\S]*?<\/entry>/g, '');
+
+  const title = extractElementText(headContent, 'title');
+  if (title) {
+    result.title = title;
+  }
+  const subtitle = extractElementText(headContent, 'subtitle');
+  if (subtitle) {
+    result.description = subtitle;
+  }
+  const authorBlock = extractElementText(headContent, 'author');
+  const authorName = (authorBlock && extractElementText(authorBlock, 'name'))
+    || extractElementText(headContent, 'itunes:author');
+  if (authorName) {
+    result['itunes:author'] = authorName;
+  }
+  const logo = extractElementText(headContent, 'logo') || extractElementText(headContent, 'icon');
+  if (logo) {
+    result.image = { url: logo };
+  }
+
+  const items: RSSItem[] = [];
+  const entryRegex = /<entry(?:\s[^>]*)?>([\s\S]*?)<\/entry>/g;
+  let entryMatch;
+
+  while ((entryMatch = entryRegex.exec(feedContent)) !== null) {
+    const entryContent = entryMatch[1];
+    const item: RSSItem = {
+      title: extractElementText(entryContent, 'title') || '',
+      pubDate: extractElementText(entryContent, 'published')
+        || extractElementText(entryContent, 'updated')
+        || '',
+    };
+
+    const summary = extractElementText(entryContent, 'summary') || extractElementText(entryContent, 'content');
+    if (summary) {
+      item.description = summary;
+    }
+
+    const duration = extractElementText(entryContent, 'itunes:duration');
+    if (duration) {
+      item['itunes:duration'] = duration;
+    }
+
+    const id = extractElementText(entryContent, 'id');
+    if (id) {
+      item.guid = id;
+    }
+
+    // Audio is a <link rel="enclosure" href="…" type="audio/…">
+    const linkTags = entryContent.match(/<link\s[^>]*>/g) ?? [];
+    const enclosureTag = linkTags.find(tag => extractAttribute(tag, 'rel') === 'enclosure');
+    const href = enclosureTag ? extractAttribute(enclosureTag, 'href') : undefined;
+    if (enclosureTag && href) {
+      item.enclosure = {
+        url: href,
+        type: extractAttribute(enclosureTag, 'type') || 'audio/mpeg',
+        length: extractAttribute(enclosureTag, 'length'),
+      };
+    }
+
+    const itemImageMatch = entryContent.match(/<itunes:image[^>]*href="([^"]*)"[^>]*\/?>/);
+    if (itemImageMatch) {
+      item['itunes:image'] = { href: itemImageMatch[1] };
+    }
+
+    if (item.title && item.enclosure?.url) {
+      items.push(item);
+    }
+  }
+
+  result.item = items;
+
+  return result;
+}
+
 /**
  * Simple XML to JSON parser for RSS feeds
- * Note: This is a basic parser for podcast RSS feeds
+ * Note: This is a basic parser for podcast RSS feeds (Atom feeds are
+ * converted to the same shape)
  */
 function parseXML(xml: string): Record<string, unknown> {
   // Remove XML declaration and clean up
@@ -185,7 +295,8 @@ function parseXML(xml: string): Record<string, unknown> {
   // Extract channel content
   const channelMatch = cleanXml.match(/<channel>([\s\S]*?)<\/channel>/);
   if (!channelMatch) {
-    return result;
+    const atomMatch = cleanXml.match(/<feed(?:\s[^>]*)?>([\s\S]*?)<\/feed>/);
+    return atomMatch ? parseAtomFeed(atomMatch[1]) : result;
   }
 
   const channelContent = channelMatch[1];
@@ -440,6 +551,59 @@ export async function getTrendingPodcasts(
   }
 }
 
+/**
+ * Map parsed feed items to episodes (only items with audio)
+ */
+function toEpisodes(show: PodcastShow, channel: RSSChannel, limit: number): PodcastEpisode[] {
+  // Ensure items is an array
+  const items = Array.isArray(channel.item) ? channel.item : [channel.item];
+
+  return items
+    .slice(0, limit)
+    .map((item, index) => {
+      const guid = typeof item.guid === 'string'
+        ? item.guid
+        : item.guid?.['#text'] || `${show.id}-${index}`;
+
+      return {
+        id: guid,
+        podcastId: show.id,
+        title: item.title || 'Untitled Episode',
+        description: item['itunes:summary'] || item.description || '',
+        streamUrl: item.enclosure?.url || '',
+        duration: parseDuration(item['itunes:duration']),
+        publishedAt: item.pubDate ? new Date(item.pubDate).getTime() : Date.now(),
+        artwork: item['itunes:image']?.href || show.artwork,
+      };
+    })
+    .filter(ep => ep.streamUrl); // Only include episodes with audio
+}
+
+/**
+ * Fetch and parse a feed. Returns the channel, or an error when the
+ * response is not a feed with items.
+ */
+async function fetchFeed(feedUrl: string): Promise<ApiResult<RSSChannel>> {
+  console.log('[podcastService] Fetching feed:', feedUrl);
+
+  const response = await fetchWithTimeout(feedUrl, RSS_TIMEOUT_MS);
+
+  if (!response.ok) {
+    console.error('[podcastService] Feed fetch error:', response.status);
+    return { data: null, error: 'server' };
+  }
+
+  const xml = await response.text();
+  const parsed = parseXML(xml) as unknown as RSSChannel;
+
+  if (!parsed.item) {
+    console.error('[podcastService] No items in feed');
+    return { data: null, error: 'parse' };
+  }
+
+  return { data: parsed, error: null };
+}
+
 /**
  * Get episodes for a podcast from its RSS feed
  * Uses caching (RSS feeds are not rate limited, but caching improves UX)
@@ -461,45 +625,12 @@ export async function getPodcastEpisodes(
       return { data: null, error: 'parse' };
     }
 
-    console.log('[podcastService] Fetching episodes from:', show.feedUrl);
-
-    const response = await fetchWithTimeout(show.feedUrl, RSS_TIMEOUT_MS);
-
-    if (!response.ok) {
-      console.error('[podcastService] Feed fetch error:', response.status);
-      return { data: null, error: 'server' };
-    }
-
-    const xml = await response.text();
-    const parsed = parseXML(xml) as unknown as RSSChannel;
-
-    if (!parsed.item) {
-      console.error('[podcastService] No items in feed');
-      return { data: null, error: 'parse' };
+    const feed = await fetchFeed(show.feedUrl);
+    if (!feed.data) {
+      return { data: null, error: feed.error };
     }
 
-    // Ensure items is an array
-    const items = Array.isArray(parsed.item) ? parsed.item : [parsed.item];
-
-    const episodes: PodcastEpisode[] = items
-      .slice(0, limit)
-      .map((item, index) => {
-        const guid = typeof item.guid === 'string'
-          ? item.guid
-          : item.guid?.['#text'] || `${show.id}-${index}`;
-
-        return {
-          id: guid,
-          podcastId: show.id,
-          title: item.title || 'Untitled Episode',
-          description: item['itunes:summary'] || item.description || '',
-          streamUrl: item.enclosure?.url || '',
-          duration: parseDuration(item['itunes:duration']),
-          publishedAt: item.pubDate ? new Date(item.pubDate).getTime() : Date.now(),
-          artwork: item['itunes:image']?.href || show.artwork,
-        };
-      })
-      .filter(ep => ep.streamUrl); // Only include episodes with audio
+    const episodes = toEpisodes(show, feed.data, limit);
 
     // Cache the episodes
     await podcastCacheService.setEpisodes(show.id, episodes);
@@ -574,6 +705,86 @@ export async function getPodcastById(
   }
 }
 
+// ============================================================
+// Custom Feeds
+// ============================================================
+
+/**
+ * Turn user input into a feed URL, or null when it cannot be one.
+ * Accepts "example.com/feed.xml" and the feed:// / itpc:// / pcast://
+ * links podcast websites use.
+ */
+export function normalizeFeedUrl(input: string): string | null {
+  let url = input.trim();
+  if (!url || /\s/.test(url)) return null;
+
+  url = url
+    .replace(/^feed:(?=https?:\/\/)/i, '')
+    .replace(/^(feed|itpc|pcast|podcast):\/\//i, 'https://');
+  if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(url)) {
+    url = `https://${url}`;
+  }
+
+  return /^https?:\/\/[^/?#]+\.[^/?#]+/i.test(url) ? url : null;
+}
+
+/**
+ * Stable show id for a feed added by URL (iTunes shows use their
+ * collection id). Same URL gives the same id on every device.
+ */
+export function getFeedShowId(feedUrl: string): string {
+  let hash = 5381;
+  for (let i = 0; i < feedUrl.length; i++) {
+    hash = ((hash << 5) + hash + feedUrl.charCodeAt(i)) | 0;
+  }
+  return `${FEED_SHOW_ID_PREFIX}${(hash >>> 0).toString(36)}`;
+}
+
+/**
+ * Build a show from any RSS or Atom feed URL.
+ * The feed only counts as a podcast when the episode parser finds at
+ * least one episode with audio; those episodes are cached right away.
+ * Does not use the iTunes API, so there is no rate limit.
+ */
+export async function getPodcastByFeedUrl(
+  feedUrl: string
+): Promise<ApiResult<PodcastShow>> {
+  try {
+    const feed = await fetchFeed(feedUrl);
+    if (!feed.data) {
+      return { data: null, error: feed.error };
+    }
+
+    const channel = feed.data;
+    const show: PodcastShow = {
+      id: getFeedShowId(feedUrl),
+      title: channel.title || feedUrl,
+      author: channel['itunes:author'] || '',
+      description: channel.description,
+      artwork: channel['itunes:image']?.href || channel.image?.url,
+      feedUrl,
+      subscribedAt: 0,
+    };
+
+    const episodes = toEpisodes(show, channel, 50);
+    if (episodes.length === 0) {
+      console.error('[podcastService] Feed has no audio episodes:', feedUrl);
+      return { data: null, error: 'parse' };
+    }
+
+    await podcastCacheService.setEpisodes(show.id, episodes);
+
+    console.log('[podcastService] Feed added:', show.title, `(${episodes.length} episodes)`);
+    return { data: show, error: null };
+  } catch (error) {
+    console.error('[podcastService] Feed lookup failed:', error);
+    if (error instanceof Error && error.name === 'AbortError') {
+      return { data: null, error: 'timeout' };
+    }
+    return { data: null, error: 'network' };
+  }
+}
+
 // ============================================================
 // Cache Service Initialization
 // ============================================================
@@ -0,0 +1,390 @@
+/**
+ * CommEazy Double Ratchet — forward-secret 1-on-1 sessions
+ *
+ * Per-contact session layer on top of the long-term X25519 identity keys:
+ * - Handshake: X3DH-style, initiator mixes DH(IK_A, IK_B) and DH(EK_A, IK_B)
+ *   into the root key. No prekey server needed (zero server storage) — the
+ *   responder's identity key is the ratchet key for the initiator's first
+ *   chain only; the responder replies from a fresh ratchet keypair.
+ * - Symmetric ratchet: every message gets a fresh key from the chain key
+ * - DH ratchet: every reply rotates the ratchet keypair, so a leaked
+ *   identity key no longer decrypts past conversations
+ *
+ * Primitives (libsodium):
+ * - DH: crypto_scalarmult (X25519)
+ * - KDF: keyed BLAKE2b (crypto_generichash)
+ * - AEAD: XChaCha20-Poly1305, header + identity keys as associated data
+ *
+ * This module is pure: it mutates the session object it is given and never
+ * touches storage. SodiumEncryptionService owns persistence and locking.
+ *
+ * @see https://signal.org/docs/specifications/doubleratchet/
+ * @see services/encryption.ts for the 'ratchet' EncryptionMode
+ */
+
+import {
+  crypto_box_keypair,
+  crypto_scalarmult,
+  crypto_generichash,
+  crypto_aead_xchacha20poly1305_ietf_encrypt,
+  crypto_aead_xchacha20poly1305_ietf_decrypt,
+  crypto_aead_xchacha20poly1305_ietf_NPUBBYTES,
+  randombytes_buf,
+  memzero,
+} from 'react-native-libsodium';
+import { asciiBytes, b64, concat, fromB64, kdfChain } from './crypto-utils';
+
+/** Maximum number of message keys skipped in one chain (out-of-order delivery) */
+export const MAX_SKIP = 500;
+
+/** Maximum number of skipped message keys kept per session */
+const MAX_STORED_SKIPPED = 1000;
+
+const SESSION_VERSION = 1;
+
+// KDF domain separation — BLAKE2b keys must be 16-64 bytes
+const X3DH_KDF_KEY = asciiBytes('CommEazy-X3DH-v1');
+
+// ============================================================
+// Types
+// ============================================================
+
+/** Serializable session state (all binary values base64 ORIGINAL) */
+export interface RatchetSession {
+  version: number;
+  /** Peer identity public key the session was established with */
+  remoteIdentityKey: string;
+  /** Associated data: initiator IK || responder IK */
+  ad: string;
+  rootKey: string;
+  /** Own current ratchet keypair */
+  dhSelfPublic: string;
+  dhSelfPrivate: string;
+  /** Peer's current ratchet public key */
+  dhRemote: string | null;
+  sendChainKey: string | null;
+  recvChainKey: string | null;
+  sendCount: number;
+  recvCount: number;
+  previousSendCount: number;
+  /** Skipped message keys: `${dhPublic}:${n}` → message key */
+  skipped: Record<string, string>;
+  /** Handshake ephemeral key, sent with every message until the peer replies */
+  pendingHandshake: string | null;
+  /** Ephemeral key that created this session (initiator's EK) */
+  handshakeKey: string;
+  /** True once a message was decrypted on this session */
+  confirmed: boolean;
+  /** Whether we initiated this session */
+  initiator: boolean;
+  createdAt: number;
+}
+
+/** Message header — travels in EncryptedPayload.metadata */
+export interface RatchetHeader {
+  dh: string;
+  pn: number;
+  n: number;
+  /** Initiator ephemeral key — only present until the session is confirmed */
+  ek?: string;
+}
+
+export interface RatchetCiphertext {
+  header: RatchetHeader;
+  nonce: string;
+  ciphertext: string;
+}
+
+// ============================================================
+// Handshake
+// ============================================================
+
+/**
+ * Start a new session towards a contact (we send first).
+ */
+export function initiateSession(
+  myIdentityPublic: Uint8Array,
+  myIdentityPrivate: Uint8Array,
+  theirIdentityPublic: Uint8Array,
+): RatchetSession {
+  const ephemeral = crypto_box_keypair();
+
+  const dh1 = crypto_scalarmult(myIdentityPrivate, theirIdentityPublic);
+  const dh2 = crypto_scalarmult(ephemeral.privateKey, theirIdentityPublic);
+  const sharedSecret = deriveSharedSecret(dh1, dh2);
+  memzero(ephemeral.privateKey);
+
+  // Alice's first DH ratchet step against Bob's identity key
+  const ratchetKp = crypto_box_keypair();
+  const dhOut = crypto_scalarmult(ratchetKp.privateKey, theirIdentityPublic);
+  const [rootKey, sendChainKey] = kdfRoot(sharedSecret, dhOut);
+  memzero(sharedSecret);
+  memzero(dhOut);
+
+  return {
+    version: SESSION_VERSION,
+    remoteIdentityKey: b64(theirIdentityPublic),
+    ad: b64(concat(myIdentityPublic, theirIdentityPublic)),
+    rootKey: b64(rootKey),
+    dhSelfPublic: b64(ratchetKp.publicKey),
+    dhSelfPrivate: b64(ratchetKp.privateKey),
+    dhRemote: b64(theirIdentityPublic),
+    sendChainKey: b64(sendChainKey),
+    recvChainKey: null,
+    sendCount: 0,
+    recvCount: 0,
+    previousSendCount: 0,
+    skipped: {},
+    pendingHandshake: b64(ephemeral.publicKey),
+    handshakeKey: b64(ephemeral.publicKey),
+    confirmed: false,
+    initiator: true,
+    createdAt: Date.now(),
+  };
+}
+
+/**
+ * Accept a session started by a contact, from the header of their first
+ * message (it carries `ek`). Takes the first DH ratchet step right away:
+ * the identity private key is only used here and never stored in the session.
+ *
+ * @throws Error if the header carries no handshake key
+ */
+export function acceptSession(
+  myIdentityPublic: Uint8Array,
+  myIdentityPrivate: Uint8Array,
+  theirIdentityPublic: Uint8Array,
+  header: RatchetHeader,
+): RatchetSession {
+  if (!header.ek) {
+    throw new Error('Ratchet header carries no handshake key');
+  }
+  const theirRatchetKey = fromB64(header.dh);
+
+  const dh1 = crypto_scalarmult(myIdentityPrivate, theirIdentityPublic);
+  const dh2 = crypto_scalarmult(myIdentityPrivate, fromB64(header.ek));
+  const sharedSecret = deriveSharedSecret(dh1, dh2);
+
+  // Bob's side of Alice's first ratchet step: her ratchet key against his identity key
+  const dhRecv = crypto_scalarmult(myIdentityPrivate, theirRatchetKey);
+  const [rootAfterRecv, recvChainKey] = kdfRoot(sharedSecret, dhRecv);
+  memzero(sharedSecret);
+  memzero(dhRecv);
+
+  // Fresh ratchet keypair for Bob's first sending chain
+  const ratchetKp = crypto_box_keypair();
+  const dhSend = crypto_scalarmult(ratchetKp.privateKey, theirRatchetKey);
+  const [rootKey, sendChainKey] = kdfRoot(rootAfterRecv, dhSend);
+  memzero(dhSend);
+
+  return {
+    version: SESSION_VERSION,
+    remoteIdentityKey: b64(theirIdentityPublic),
+    ad: b64(concat(theirIdentityPublic, myIdentityPublic)),
+    rootKey: b64(rootKey),
+    dhSelfPublic: b64(ratchetKp.publicKey),
+    dhSelfPrivate: b64(ratchetKp.privateKey),
+    dhRemote: header.dh,
+    sendChainKey: b64(sendChainKey),
+    recvChainKey: b64(recvChainKey),
+    sendCount: 0,
+    recvCount: 0,
+    previousSendCount: 0,
+    skipped: {},
+    pendingHandshake: null,
+    handshakeKey: header.ek,
+    confirmed: false,
+    initiator: false,
+    createdAt: Date.now(),
+  };
+}
+
+// ============================================================
+// Encrypt / Decrypt
+// ============================================================
+
+/**
+ * Encrypt one message and advance the sending chain.
+ * @throws Error if the session cannot send yet (responder before first reply)
+ */
+export function ratchetEncrypt(session: RatchetSession, plaintext: Uint8Array): RatchetCiphertext {
+  if (!session.sendChainKey) {
+    throw new Error('Ratchet session has no sending chain');
+  }
+
+  const [nextChainKey, messageKey] = kdfChain(fromB64(session.sendChainKey));
+  const header: RatchetHeader = {
+    dh: session.dhSelfPublic,
+    pn: session.previousSendCount,
+    n: session.sendCount,
+  };
+  if (session.pendingHandshake) {
+    header.ek = session.pendingHandshake;
+  }
+
+  const nonce = randombytes_buf(crypto_aead_xchacha20poly1305_ietf_NPUBBYTES);
+  const ciphertext = crypto_aead_xchacha20poly1305_ietf_encrypt(
+    plaintext,
+    associatedData(session, header),
+    null,
+    nonce,
+    messageKey,
+  );
+  memzero(messageKey);
+
+  session.sendChainKey = b64(nextChainKey);
+  session.sendCount += 1;
+
+  return { header, nonce: b64(nonce), ciphertext: b64(ciphertext) };
+}
+
+/**
+ * Decrypt one message, performing a DH ratchet step when the peer's
+ * ratchet key changed. The session is only mutated on success.
+ *
+ * @throws Error on authentication failure or too many skipped messages
+ */
+export function ratchetDecrypt(session: RatchetSession, message: RatchetCiphertext): Uint8Array {
+  const { header } = message;
+
+  // 1. Out-of-order message whose key we stored earlier
+  const skippedId = `${header.dh}:${header.n}`;
+  const skippedKey = session.skipped[skippedId];
+  if (skippedKey) {
+    const plaintext = openMessage(session, message, fromB64(skippedKey));
+    delete session.skipped[skippedId];
+    session.confirmed = true;
+    return plaintext;
+  }
+
+  // Work on a copy so a forged message can't corrupt the session
+  const working: RatchetSession = { ...session, skipped: { ...session.skipped } };
+
+  // 2. New ratchet key from the peer → DH ratchet step
+  if (header.dh !== working.dhRemote || !working.recvChainKey) {
+    if (working.recvChainKey) {
+      skipMessageKeys(working, header.pn);
+    }
+    dhRatchet(working, header.dh);
+  }
+
+  // 3. Skip ahead in the current receiving chain
+  skipMessageKeys(working, header.n);
+
+  const [nextChainKey, messageKey] = kdfChain(fromB64(working.recvChainKey!));
+  const plaintext = openMessage(working, message, messageKey);
+  working.recvChainKey = b64(nextChainKey);
+  working.recvCount += 1;
+  working.confirmed = true;
+  // Peer has our handshake once it replies on a chain we created
+  working.pendingHandshake = null;
+
+  Object.assign(session, working);
+  return plaintext;
+}
+
+// ============================================================
+// Serialization
+// ============================================================
+
+export function serializeSession(session: RatchetSession): string {
+  return JSON.stringify(session);
+}
+
+export function deserializeSession(raw: string): RatchetSession {
+  const parsed = JSON.parse(raw) as RatchetSession;
+  if (parsed.version !== SESSION_VERSION) {
+    throw new Error(`Unsupported ratchet session version: ${parsed.version}`);
+  }
+  return parsed;
+}
+
+// ============================================================
+// Private — Ratchet steps
+// ============================================================
+
+function dhRatchet(session: RatchetSession, theirRatchetKey: string): void {
+  const theirPk = fromB64(theirRatchetKey);
+
+  session.previousSendCount = session.sendCount;
+  session.sendCount = 0;
+  session.recvCount = 0;
+  session.dhRemote = theirRatchetKey;
+
+  // Receiving chain from our current ratchet key
+  const dhRecv = crypto_scalarmult(fromB64(session.dhSelfPrivate), theirPk);
+  const [rootAfterRecv, recvChainKey] = kdfRoot(fromB64(session.rootKey), dhRecv);
+  memzero(dhRecv);
+
+  // Fresh ratchet keypair for our next sending chain
+  const next = crypto_box_keypair();
+  const dhSend = crypto_scalarmult(next.privateKey, theirPk);
+  const [rootAfterSend, sendChainKey] = kdfRoot(rootAfterRecv, dhSend);
+  memzero(dhSend);
+
+  session.rootKey = b64(rootAfterSend);
+  session.recvChainKey = b64(recvChainKey);
+  session.sendChainKey = b64(sendChainKey);
+  session.dhSelfPublic = b64(next.publicKey);
+  session.dhSelfPrivate = b64(next.privateKey);
+}
+
+function skipMessageKeys(session: RatchetSession, until: number): void {
+  if (!session.recvChainKey || !session.dhRemote) return;
+  if (session.recvCount + MAX_SKIP < until) {
+    throw new Error('Too many skipped ratchet messages');
+  }
+
+  let chainKey = fromB64(session.recvChainKey);
+  while (session.recvCount < until) {
+    const [nextChainKey, messageKey] = kdfChain(chainKey);
+    session.skipped[`${session.dhRemote}:${session.recvCount}`] = b64(messageKey);
+    chainKey = nextChainKey;
+    session.recvCount += 1;
+  }
+  session.recvChainKey = b64(chainKey);
+
+  // Drop the oldest skipped keys (insertion order) beyond the cap
+  const ids = Object.keys(session.skipped);
+  for (let i = 0; i < ids.length - MAX_STORED_SKIPPED; i++) {
+    delete session.skipped[ids[i]];
+  }
+}
+
+function openMessage(session: RatchetSession, message: RatchetCiphertext, messageKey: Uint8Array): Uint8Array {
+  try {
+    return crypto_aead_xchacha20poly1305_ietf_decrypt(
+      null,
+      fromB64(message.ciphertext),
+      associatedData(session, message.header),
+      fromB64(message.nonce),
+      messageKey,
+    );
+  } finally {
+    memzero(messageKey);
+  }
+}
+
+// ============================================================
+// Private — KDFs & helpers
+// ============================================================
+
+function deriveSharedSecret(dh1: Uint8Array, dh2: Uint8Array): Uint8Array {
+  const secret = crypto_generichash(32, concat(dh1, dh2), X3DH_KDF_KEY);
+  memzero(dh1);
+  memzero(dh2);
+  return secret;
+}
+
+/** KDF_RK: (root key, DH output) → (new root key, chain key) */
+function kdfRoot(rootKey: Uint8Array, dhOut: Uint8Array): [Uint8Array, Uint8Array] {
+  const out = crypto_generichash(64, dhOut, rootKey);
+  return [out.slice(0, 32), out.slice(32, 64)];
+}
+
+function associatedData(session: RatchetSession, header: RatchetHeader): Uint8Array {
+  return concat(
+    fromB64(session.ad),
+    asciiBytes(`${header.dh}|${header.pn}|${header.n}|${header.ek ?? ''}`),
+  );
+}
@@ -89,6 +89,14 @@ export const BOOKS_DOWNLOAD_RETRY_CONFIG: RetryConfig = {
   strategy: 'exponential',
 };
 
+/** Podcast episode download retry (per chunk, 3 attempts) */
+export const PODCAST_DOWNLOAD_RETRY_CONFIG: RetryConfig = {
+  maxAttempts: 3,
+  baseDelayMs: 2000,
+  maxDelayMs: 15000,
+  strategy: 'exponential',
+};
+
 /** XMPP reconnection (10 attempts, exponential with jitter) */
 export const XMPP_RETRY_CONFIG: RetryConfig = {
   maxAttempts: 10,
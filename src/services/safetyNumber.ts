@@ -0,0 +1,81 @@
+/**
+ * CommEazy Safety Number — human-comparable key fingerprint
+ *
+ * Two contacts read the same 60 digits aloud (or compare them side by side)
+ * to confirm nobody sits between them. The number is derived from both
+ * public keys and JIDs, so it changes whenever either key changes.
+ *
+ * Construction (Signal-style numeric fingerprint):
+ * - Per party: iterated BLAKE2b-512 over version || public key || JID
+ * - First 30 bytes → six 5-byte chunks → six 5-digit groups (30 digits)
+ * - Both halves sorted, so both sides see the same 60 digits
+ *
+ * @see https://signal.org/docs/specifications/fingerprint/ (numeric fingerprint)
+ * @see screens/contacts/VerifyContactScreen.tsx
+ */
+
+import { crypto_generichash } from 'react-native-libsodium';
+import { asciiBytes, concat, fromB64 } from './crypto-utils';
+
+const FINGERPRINT_VERSION = 0;
+
+/** Hash iterations — makes a brute-forced colliding key expensive */
+const ITERATIONS = 5200;
+
+/** Digits per displayed group */
+const GROUP_SIZE = 5;
+
+/**
+ * Safety number for a conversation: 60 digits, identical on both devices.
+ * Keys are Base64 (ORIGINAL), as stored on Contact.publicKey.
+ */
+export function computeSafetyNumber(
+  myJid: string,
+  myPublicKey: string,
+  theirJid: string,
+  theirPublicKey: string,
+): string {
+  const mine = partyFingerprint(myJid, myPublicKey);
+  const theirs = partyFingerprint(theirJid, theirPublicKey);
+  return mine < theirs ? mine + theirs : theirs + mine;
+}
+
+/**
+ * Split a safety number into 5-digit groups for display ("12345 67890 …").
+ */
+export function formatSafetyNumber(safetyNumber: string): string[] {
+  const groups: string[] = [];
+  for (let i = 0; i < safetyNumber.length; i += GROUP_SIZE) {
+    groups.push(safetyNumber.slice(i, i + GROUP_SIZE));
+  }
+  return groups;
+}
+
+// ============================================================
+// Private helpers
+// ============================================================
+
+function partyFingerprint(jid: string, publicKeyB64: string): string {
+  const publicKey = fromB64(publicKeyB64);
+
+  let hash = concat(new Uint8Array([0, FINGERPRINT_VERSION]), publicKey, asciiBytes(jid));
+  for (let i = 0; i < ITERATIONS; i++) {
+    hash = crypto_generichash(64, concat(hash, publicKey), null);
+  }
+
+  let digits = '';
+  for (let offset = 0; offset < 30; offset += 5) {
+    digits += encodeChunk(hash, offset);
+  }
+  return digits;
+}
+
+/** 5 bytes → 40-bit integer → 5 decimal digits */
+function encodeChunk(hash: Uint8Array, offset: number): string {
+  // 40 bits exceed 32-bit bitwise operators, so multiply instead of shifting
+  let value = 0;
+  for (let i = 0; i < 5; i++) {
+    value = value * 256 + hash[offset + i];
+  }
+  return String(value % 100000).padStart(GROUP_SIZE, '0');
+}
@@ -0,0 +1,312 @@
+/**
+ * CommEazy Sender Keys — encrypt-once group messaging
+ *
+ * Signal-style sender keys for MUC groups:
+ * - Every member has one sender key per group: a chain key + Ed25519 signing key
+ * - The sender key is distributed once to each member over the 1-on-1
+ *   ratchet channel (SenderKeyDistribution)
+ * - Each group message is encrypted once with the next key from the chain,
+ *   so stanza size no longer grows with the member count
+ * - Messages are signed, so members holding the chain key cannot forge
+ *   messages in someone else's name
+ *
+ * Primitives (libsodium):
+ * - KDF: keyed BLAKE2b (crypto_generichash)
+ * - AEAD: XChaCha20-Poly1305, group + key id + iteration as associated data
+ * - Signature: Ed25519 (crypto_sign_detached)
+ *
+ * This module is pure: it mutates the state object it is given and never
+ * touches storage. SodiumEncryptionService owns persistence.
+ *
+ * @see https://signal.org/docs/specifications/group-messaging/ (sender keys)
+ * @see services/ratchet.ts for the 1-on-1 channel used for distribution
+ */
+
+import {
+  crypto_sign_keypair,
+  crypto_sign_detached,
+  crypto_sign_verify_detached,
+  crypto_aead_xchacha20poly1305_ietf_encrypt,
+  crypto_aead_xchacha20poly1305_ietf_decrypt,
+  crypto_aead_xchacha20poly1305_ietf_NPUBBYTES,
+  randombytes_buf,
+  memzero,
+} from 'react-native-libsodium';
+import { asciiBytes, b64, fromB64, kdfChain } from './crypto-utils';
+
+/** Maximum number of message keys skipped at once (lost or reordered messages) */
+export const MAX_SENDER_KEY_SKIP = 1000;
+
+/** Maximum number of skipped message keys kept per sender key */
+const MAX_STORED_SKIPPED = 500;
+
+const SENDER_KEY_VERSION = 1;
+
+
+// ============================================================
+// Types
+// ============================================================
+
+/** Serializable sender key state (all binary values base64 ORIGINAL) */
+export interface SenderKeyState {
+  version: number;
+  groupId: string;
+  /** Random id — changes on every rotation */
+  keyId: string;
+  chainKey: string;
+  /** Iteration of the next message key in the chain */
+  iteration: number;
+  signingPublicKey: string;
+  /** Only present on our own sender key */
+  signingPrivateKey?: string;
+  /** Skipped message keys: iteration → message key */
+  skipped: Record<string, string>;
+  /** Set by the owner; received keys take it from the distribution */
+  createdAt: number;
+  /** Incremented on every rotation by the owner (absent on legacy keys = 0) */
+  generation?: number;
+}
+
+/** What a member sends to the others (over the 1-on-1 ratchet channel) */
+export interface SenderKeyDistribution {
+  groupId: string;
+  keyId: string;
+  chainKey: string;
+  iteration: number;
+  signingPublicKey: string;
+  /** Absent in distributions from older clients */
+  generation?: number;
+  createdAt?: number;
+}
+
+/** Encrypted group message — travels in EncryptedPayload.metadata + data */
+export interface SenderKeyMessage {
+  keyId: string;
+  iteration: number;
+  nonce: string;
+  ciphertext: string;
+  signature: string;
+}
+
+// ============================================================
+// Key lifecycle
+// ============================================================
+
+/**
+ * Create our own sender key for a group (also used for rotation).
+ * `generation` must exceed that of the key it replaces.
+ */
+export function createSenderKey(groupId: string, generation = 0): SenderKeyState {
+  const signing = crypto_sign_keypair();
+
+  return {
+    version: SENDER_KEY_VERSION,
+    groupId,
+    keyId: b64(randombytes_buf(12)),
+    chainKey: b64(randombytes_buf(32)),
+    iteration: 0,
+    signingPublicKey: b64(signing.publicKey),
+    signingPrivateKey: b64(signing.privateKey),
+    skipped: {},
+    createdAt: Date.now(),
+    generation,
+  };
+}
+
+/**
+ * Distribution message for our sender key at its current iteration.
+ * Receivers cannot derive message keys from before this point.
+ */
+export function createDistribution(state: SenderKeyState): SenderKeyDistribution {
+  return {
+    groupId: state.groupId,
+    keyId: state.keyId,
+    chainKey: state.chainKey,
+    iteration: state.iteration,
+    signingPublicKey: state.signingPublicKey,
+    generation: state.generation ?? 0,
+    createdAt: state.createdAt,
+  };
+}
+
+/**
+ * Receiver-side state from another member's distribution message.
+ */
+export function acceptDistribution(distribution: SenderKeyDistribution): SenderKeyState {
+  return {
+    version: SENDER_KEY_VERSION,
+    groupId: distribution.groupId,
+    keyId: distribution.keyId,
+    chainKey: distribution.chainKey,
+    iteration: distribution.iteration,
+    signingPublicKey: distribution.signingPublicKey,
+    skipped: {},
+    createdAt: distribution.createdAt ?? Date.now(),
+    generation: distribution.generation ?? 0,
+  };
+}
+
+/**
+ * True when `candidate` replaced `other` at the owner: a higher generation,
+ * or the same generation created later (owner lost its state).
+ * A distribution that arrives late must never replace a newer key.
+ */
+export function isNewerSenderKey(candidate: SenderKeyState, other: SenderKeyState): boolean {
+  const candidateGeneration = candidate.generation ?? 0;
+  const otherGeneration = other.generation ?? 0;
+  if (candidateGeneration !== otherGeneration) {
+    return candidateGeneration > otherGeneration;
+  }
+  return candidate.createdAt > other.createdAt;
+}
+
+// ============================================================
+// Encrypt / Decrypt
+// ============================================================
+
+/**
+ * Encrypt one group message and advance the chain.
+ * @throws Error if this is not our own sender key
+ */
+export function senderKeyEncrypt(state: SenderKeyState, plaintext: Uint8Array): SenderKeyMessage {
+  if (!state.signingPrivateKey) {
+    throw new Error('Cannot encrypt with a received sender key');
+  }
+
+  const [nextChainKey, messageKey] = kdfChain(fromB64(state.chainKey));
+  const iteration = state.iteration;
+  const nonce = randombytes_buf(crypto_aead_xchacha20poly1305_ietf_NPUBBYTES);
+
+  let ciphertext: Uint8Array;
+  try {
+    ciphertext = crypto_aead_xchacha20poly1305_ietf_encrypt(
+      plaintext,
+      associatedData(state.groupId, state.keyId, iteration),
+      null,
+      nonce,
+      messageKey,
+    );
+  } finally {
+    memzero(messageKey);
+  }
+
+  const unsigned = {
+    keyId: state.keyId,
+    iteration,
+    nonce: b64(nonce),
+    ciphertext: b64(ciphertext),
+  };
+  const signature = crypto_sign_detached(
+    signedData(state.groupId, unsigned),
+    fromB64(state.signingPrivateKey),
+  );
+
+  state.chainKey = b64(nextChainKey);
+  state.iteration = iteration + 1;
+
+  return { ...unsigned, signature: b64(signature) };
+}
+
+/**
+ * Verify and decrypt one group message. The state is only mutated on success.
+ *
+ * @throws Error on a bad signature, authentication failure, replay or
+ *   too many skipped messages
+ */
+export function senderKeyDecrypt(state: SenderKeyState, message: SenderKeyMessage): Uint8Array {
+  if (message.keyId !== state.keyId) {
+    throw new Error('Sender key id mismatch');
+  }
+
+  const valid = crypto_sign_verify_detached(
+    fromB64(message.signature),
+    signedData(state.groupId, message),
+    fromB64(state.signingPublicKey),
+  );
+  if (!valid) {
+    throw new Error('Invalid sender key signature');
+  }
+
+  // 1. Older message whose key we stored when skipping ahead
+  if (message.iteration < state.iteration) {
+    const skippedKey = state.skipped[String(message.iteration)];
+    if (!skippedKey) {
+      throw new Error('Sender key message replayed or too old');
+    }
+    const plaintext = openMessage(state, message, fromB64(skippedKey));
+    delete state.skipped[String(message.iteration)];
+    return plaintext;
+  }
+
+  if (message.iteration - state.iteration > MAX_SENDER_KEY_SKIP) {
+    throw new Error('Too many skipped sender key messages');
+  }
+
+  // Work on a copy so a failed decrypt can't advance the chain
+  const working: SenderKeyState = { ...state, skipped: { ...state.skipped } };
+
+  // 2. Skip ahead to the message's iteration
+  let chainKey = fromB64(working.chainKey);
+  while (working.iteration < message.iteration) {
+    const [nextChainKey, skippedKey] = kdfChain(chainKey);
+    working.skipped[String(working.iteration)] = b64(skippedKey);
+    chainKey = nextChainKey;
+    working.iteration += 1;
+  }
+
+  const [nextChainKey, messageKey] = kdfChain(chainKey);
+  const plaintext = openMessage(working, message, messageKey);
+  working.chainKey = b64(nextChainKey);
+  working.iteration += 1;
+
+  // Drop the oldest skipped keys (insertion order) beyond the cap
+  const ids = Object.keys(working.skipped);
+  for (let i = 0; i < ids.length - MAX_STORED_SKIPPED; i++) {
+    delete working.skipped[ids[i]];
+  }
+
+  Object.assign(state, working);
+  return plaintext;
+}
+
+// ============================================================
+// Serialization
+// ============================================================
+
+export function serializeSenderKey(state: SenderKeyState): string {
+  return JSON.stringify(state);
+}
+
+export function deserializeSenderKey(raw: string): SenderKeyState {
+  const parsed = JSON.parse(raw) as SenderKeyState;
+  if (parsed.version !== SENDER_KEY_VERSION) {
+    throw new Error(`Unsupported sender key version: ${parsed.version}`);
+  }
+  return parsed;
+}
+
+// ============================================================
+// Private helpers
+// ============================================================
+
+function openMessage(state: SenderKeyState, message: SenderKeyMessage, messageKey: Uint8Array): Uint8Array {
+  try {
+    return crypto_aead_xchacha20poly1305_ietf_decrypt(
+      null,
+      fromB64(message.ciphertext),
+      associatedData(state.groupId, message.keyId, message.iteration),
+      fromB64(message.nonce),
+      messageKey,
+    );
+  } finally {
+    memzero(messageKey);
+  }
+}
+
+function associatedData(groupId: string, keyId: string, iteration: number): Uint8Array {
+  return asciiBytes(`${groupId}|${keyId}|${iteration}`);
+}
+
+function signedData(groupId: string, message: Omit<SenderKeyMessage, 'signature'>): Uint8Array {
+  return asciiBytes(`${groupId}|${message.keyId}|${message.iteration}|${message.nonce}|${message.ciphertext}`);
+}
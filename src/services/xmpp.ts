@@ -14,6 +14,8 @@ import type {
   PresenceShow,
   Observable,
   Unsubscribe,
+  UploadSlot,
+  DeviceSyncEnvelope,
 } from './interfaces';
 import type { ProfileSyncMessage } from './profileSync';
 import { calculateRetryDelay, XMPP_RETRY_CONFIG } from './retry-utils';
@@ -33,18 +35,37 @@ const NS_PUSH = 'urn:xmpp:push:0';
 const FCM_PUSH_SERVICE = 'push.commeazy.local';        // FCM message notifications
 const VOIP_PUSH_SERVICE = 'voip.push.commeazy.local';  // APNs VoIP (PushKit) for calls
 
-// Call signaling namespace (custom for CommEazy)
+// XEP-0363 HTTP File Upload — served by Prosody's upload component,
+// files stored by server/media-upload
+const NS_HTTP_UPLOAD = 'urn:xmpp:http:upload:0';
+const UPLOAD_SLOT_TIMEOUT_MS = 10000;
+
+// Call signaling namespace (custom for CommEazy) — payloads are end-to-end encrypted
 const NS_CALL = 'urn:commeazy:call:1';
 
 // Profile sync namespace (custom for CommEazy)
 const NS_PROFILE = 'urn:commeazy:profile:1';
 
-// Call signaling payload type (matches types in call/types.ts)
-interface CallSignalingPayload {
-  type: 'offer' | 'answer' | 'ice-candidate' | 'hangup' | 'decline' | 'busy' | 'ringing' | 'invite';
-  callId: string;
-  [key: string]: unknown;
-}
+// Group sender key distribution namespace (custom for CommEazy)
+const NS_SENDER_KEY = 'urn:commeazy:senderkey:1';
+
+// Multi-device sync namespace (custom for CommEazy) — sent to our own bare JID
+const NS_SYNC = 'urn:commeazy:sync:1';
+
+// Call signaling payload type (matches CallSignal in call/types.ts):
+// sealed for contacts, plain sfu-* signals for the group call SFU
+type CallSignalingPayload =
+  | {
+    type: 'sealed';
+    callId: string;
+    ring?: boolean;
+    envelope: EncryptedPayload;
+  }
+  | {
+    type: `sfu-${string}`;
+    callId: string;
+    [key: string]: unknown;
+  };
 
 export class XmppJsService implements XMPPService {
   private xmpp: XMPPClient | null = null;
@@ -55,11 +76,19 @@ export class XmppJsService implements XMPPService {
   private receiptHandlers: Set<(messageId: string, from: string) => void> = new Set();
   private callSignalingHandlers: Set<(from: string, payload: CallSignalingPayload) => void> = new Set();
   private profileSyncHandlers: Set<(from: string, message: ProfileSyncMessage) => void> = new Set();
+  private senderKeyHandlers: Set<(from: string, payload: EncryptedPayload) => void> = new Set();
+  private deviceSyncHandlers: Set<(envelope: DeviceSyncEnvelope) => void> = new Set();
   private reconnectAttempts = 0;
   private pushEnabled = false;
+  private domain = 'commeazy.local';
+  private bareJid: string | null = null;
+  /** IQ results we are waiting for, by stanza id (see requestUploadSlot) */
+  private pendingIqs: Map<string, (stanza: Element) => void> = new Map();
 
   async connect(userJid: string, password: string): Promise<void> {
     const parsed = parseJid(userJid);
+    this.domain = parsed.domain;
+    this.bareJid = `${parsed.local}@${parsed.domain}`;
 
     // Use WebSocket for both dev and production (React Native requires WebSocket)
     // Dev: local Prosody on port 5280 (HTTP WebSocket), Production: commeazy.nl (HTTPS)
@@ -311,6 +340,75 @@ export class XmppJsService implements XMPPService {
     }
   }
 
+  // ---- HTTP File Upload (XEP-0363) ----
+
+  /**
+   * Request an upload slot from the server's upload component.
+   *
+   * The IQ stanza looks like:
+   * <iq type="get" to="upload.commeazy.local" id="upload-...">
+   *   <request xmlns="urn:xmpp:http:upload:0" filename="..." size="..." content-type="..."/>
+   * </iq>
+   *
+   * @param filename - Name for the stored file (no personal data — it is visible to the server)
+   * @param size - Exact size in bytes of what will be uploaded
+   * @param contentType - MIME type the PUT will carry
+   * @returns PUT/GET URLs plus any headers the PUT must carry
+   */
+  async requestUploadSlot(filename: string, size: number, contentType: string): Promise<UploadSlot> {
+    this.ensureConnected();
+
+    const requestId = `upload-${Date.now()}`;
+
+    return new Promise<UploadSlot>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingIqs.delete(requestId);
+        reject(new Error('Upload slot request timed out'));
+      }, UPLOAD_SLOT_TIMEOUT_MS);
+
+      this.pendingIqs.set(requestId, (stanza: Element) => {
+        clearTimeout(timer);
+
+        const slot = stanza.getChild('slot', NS_HTTP_UPLOAD);
+        const put = slot?.getChild('put');
+        const get = slot?.getChild('get');
+        if (stanza.attrs.type !== 'result' || !put?.attrs.url || !get?.attrs.url) {
+          const condition = stanza.getChild('error')?.children[0];
+          const reason = typeof condition === 'object' ? condition.name : 'no slot';
+          reject(new Error(`Upload slot refused: ${reason}`));
+          return;
+        }
+
+        // Only these headers may be passed on to the PUT (XEP-0363 §5)
+        const headers: Record<string, string> = {};
+        for (const header of put.children) {
+          if (typeof header !== 'object' || header.name !== 'header') continue;
+          const name = String(header.attrs.name);
+          if (['Authorization', 'Cookie', 'Expires'].includes(name)) {
+            headers[name] = header.text().replace(/[\r\n]/g, '');
+          }
+        }
+
+        resolve({ putUrl: String(put.attrs.url), getUrl: String(get.attrs.url), headers });
+      });
+
+      const stanza = xml('iq', { type: 'get', to: `upload.${this.domain}`, id: requestId },
+        xml('request', {
+          xmlns: NS_HTTP_UPLOAD,
+          filename,
+          size: String(size),
+          'content-type': contentType,
+        }),
+      );
+
+      this.xmpp!.send(stanza).catch((error: unknown) => {
+        clearTimeout(timer);
+        this.pendingIqs.delete(requestId);
+        reject(error instanceof Error ? error : new Error('Upload slot request failed'));
+      });
+    });
+  }
+
   async joinMUC(roomJid: string, nickname: string): Promise<void> {
     this.ensureConnected();
     await this.xmpp!.send(
@@ -358,7 +456,7 @@ export class XmppJsService implements XMPPService {
    * Used for WebRTC SDP/ICE exchange and call control.
    *
    * @param to - The JID of the recipient
-   * @param payload - The call signaling payload (offer, answer, ice-candidate, etc.)
+   * @param payload - The encrypted call signaling payload (offer, answer, ice-candidate, etc.)
    */
   async sendCallSignaling(to: string, payload: CallSignalingPayload): Promise<void> {
     this.ensureConnected();
@@ -423,6 +521,75 @@ export class XmppJsService implements XMPPService {
     return () => this.profileSyncHandlers.delete(handler);
   }
 
+  // ---- Group Sender Keys (urn:commeazy:senderkey:1) ----
+
+  /**
+   * Send an encrypted sender key distribution to one group member.
+   * Uses 'chat' type with a store hint (XEP-0334) — unlike profile sync,
+   * members that are offline must still receive the key.
+   *
+   * @param to - The JID of the group member
+   * @param payload - Distribution encrypted over the 1-on-1 ratchet channel
+   */
+  async sendSenderKey(to: string, payload: EncryptedPayload): Promise<void> {
+    this.ensureConnected();
+
+    const stanza = xml('message', { to, type: 'chat', id: `senderkey-${Date.now()}` },
+      xml('senderkey', { xmlns: NS_SENDER_KEY }, JSON.stringify(payload)),
+      xml('store', { xmlns: 'urn:xmpp:hints' }),
+    );
+
+    await this.xmpp!.send(stanza);
+
+    if (__DEV__) {
+      console.log(`[XMPP] Sent sender key to ${to.split('@')[0]}`);
+    }
+  }
+
+  /**
+   * Register handler for incoming sender key distributions.
+   * Used by GroupChatService.
+   *
+   * @param handler - Callback receiving (from, encrypted payload)
+   * @returns Unsubscribe function
+   */
+  onSenderKey(handler: (from: string, payload: EncryptedPayload) => void): Unsubscribe {
+    this.senderKeyHandlers.add(handler);
+    return () => this.senderKeyHandlers.delete(handler);
+  }
+
+  // ---- Multi-device Sync (urn:commeazy:sync:1) ----
+
+  /**
+   * Send a sync envelope to our own bare JID. The server delivers it to
+   * every online device of the account and keeps it for offline ones
+   * (store hint). The envelope holds one sealed copy per linked device.
+   *
+   * @param envelope - Sealed sync event (see services/deviceSync.ts)
+   */
+  async sendDeviceSync(envelope: DeviceSyncEnvelope): Promise<void> {
+    this.ensureConnected();
+
+    const stanza = xml('message', { to: this.bareJid!, type: 'chat', id: `sync-${Date.now()}` },
+      xml('sync', { xmlns: NS_SYNC }, JSON.stringify(envelope)),
+      xml('store', { xmlns: 'urn:xmpp:hints' }),
+    );
+
+    await this.xmpp!.send(stanza);
+  }
+
+  /**
+   * Register handler for sync envelopes from our other devices.
+   * Used by DeviceSyncService.
+   *
+   * @param handler - Callback receiving the envelope
+   * @returns Unsubscribe function
+   */
+  onDeviceSync(handler: (envelope: DeviceSyncEnvelope) => void): Unsubscribe {
+    this.deviceSyncHandlers.add(handler);
+    return () => this.deviceSyncHandlers.delete(handler);
+  }
+
   // ---- Push Notifications (XEP-0357) ----
 
   /**
@@ -563,6 +730,13 @@ export class XmppJsService implements XMPPService {
         this.handleIncomingMessage(stanza);
       } else if (stanza.is('presence')) {
         this.handleIncomingPresence(stanza);
+      } else if (stanza.is('iq')) {
+        const id = stanza.attrs.id as string | undefined;
+        const pending = id ? this.pendingIqs.get(id) : undefined;
+        if (id && pending) {
+          this.pendingIqs.delete(id);
+          pending(stanza);
+        }
       }
     });
   }
@@ -599,6 +773,20 @@ export class XmppJsService implements XMPPService {
       return;
     }
 
+    // Check for group sender key distribution stanza
+    const senderKeyElement = stanza.getChild('senderkey', NS_SENDER_KEY);
+    if (senderKeyElement) {
+      this.handleIncomingSenderKey(from, senderKeyElement);
+      return;
+    }
+
+    // Check for multi-device sync stanza
+    const syncElement = stanza.getChild('sync', NS_SYNC);
+    if (syncElement) {
+      this.handleIncomingDeviceSync(from, syncElement);
+      return;
+    }
+
     // Check for message body
     const body = stanza.getChildText('body');
     if (body) {
@@ -687,6 +875,66 @@ export class XmppJsService implements XMPPService {
     }
   }
 
+  /**
+   * Handle incoming sender key distribution stanzas.
+   * Parses the JSON payload and notifies registered handlers.
+   */
+  private handleIncomingSenderKey(from: string, senderKeyElement: Element): void {
+    try {
+      const jsonPayload = senderKeyElement.text();
+      if (!jsonPayload) {
+        console.warn('[XMPP] Empty sender key payload');
+        return;
+      }
+
+      const payload = JSON.parse(jsonPayload) as EncryptedPayload;
+
+      if (__DEV__) {
+        console.log(`[XMPP] Received sender key from ${from.split('@')[0]}`);
+      }
+
+      // Notify all registered handlers
+      this.senderKeyHandlers.forEach((handler) => {
+        try {
+          handler(from, payload);
+        } catch (handlerError) {
+          console.error('[XMPP] Sender key handler error:', handlerError);
+        }
+      });
+    } catch (parseError) {
+      console.error('[XMPP] Failed to parse sender key payload:', parseError);
+    }
+  }
+
+  /**
+   * Handle incoming sync stanzas. Only our own account may send them —
+   * anything else is dropped before parsing.
+   */
+  private handleIncomingDeviceSync(from: string, syncElement: Element): void {
+    if (from.split('/')[0] !== this.bareJid) {
+      console.warn('[XMPP] Ignoring sync stanza from another account');
+      return;
+    }
+
+    try {
+      const envelope = JSON.parse(syncElement.text()) as DeviceSyncEnvelope;
+      if (typeof envelope.device?.deviceId !== 'string' || typeof envelope.boxes !== 'object') {
+        console.warn('[XMPP] Malformed sync envelope');
+        return;
+      }
+
+      this.deviceSyncHandlers.forEach((handler) => {
+        try {
+          handler(envelope);
+        } catch (handlerError) {
+          console.error('[XMPP] Device sync handler error:', handlerError);
+        }
+      });
+    } catch (parseError) {
+      console.error('[XMPP] Failed to parse sync envelope:', parseError);
+    }
+  }
+
   private handleIncomingPresence(stanza: Element): void {
     const from = stanza.attrs.from as string | undefined;
     const type = stanza.attrs.type as string | undefined;
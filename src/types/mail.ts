@@ -109,6 +109,18 @@ export interface MailHeader {
 
   /** Whether the message is flagged (\\Flagged) */
   isFlagged: boolean;
+
+  /** Message-ID header (e.g., "<abc@example.com>"), when the server sends it */
+  messageId?: string;
+
+  /** In-Reply-To header: Message-ID of the message this replies to */
+  inReplyTo?: string;
+
+  /** References header: Message-IDs of the conversation, oldest first */
+  references?: string;
+
+  /** Conversation this message belongs to (assigned during sync) */
+  threadId?: string;
 }
 
 /**
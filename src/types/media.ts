@@ -1,5 +1,5 @@
 /**
- * Media Types — Photo/Video Messaging
+ * Media Types — Photo/Video/Voice Messaging
  *
  * Type definitions for the media messaging system.
  * Used by mediaService, mediaStorageService, and mediaQueueService.
@@ -14,7 +14,7 @@
 /**
  * Type of media content
  */
-export type MediaType = 'photo' | 'video';
+export type MediaType = 'photo' | 'video' | 'audio';
 
 /**
  * Transfer status for media in outbox
@@ -34,6 +34,7 @@ export type MediaTransferStatus =
 export type MediaSource =
   | 'camera'       // Captured with device camera
   | 'gallery'      // Selected from photo library
+  | 'recorded'     // Recorded with the microphone (voice messages)
   | 'received';    // Received from another user
 
 // ============================================================
@@ -66,9 +67,12 @@ export interface MediaItem {
   /** Height in pixels */
   height: number;
 
-  /** Duration in seconds (video only) */
+  /** Duration in seconds (video and audio) */
   duration?: number;
 
+  /** Waveform bars 0-1 (audio only) */
+  waveform?: number[];
+
   /** Source of the media */
   source: MediaSource;
 
@@ -135,9 +139,12 @@ export interface MediaMetadata {
   /** Height in pixels */
   height: number;
 
-  /** Duration in seconds (video only) */
+  /** Duration in seconds (video and audio) */
   duration?: number;
 
+  /** Waveform bars 0-1 (audio only) */
+  waveform?: number[];
+
   /** Thumbnail data (base64-encoded JPEG, ~10KB) */
   thumbnail: string;
 
@@ -145,6 +152,31 @@ export interface MediaMetadata {
   algorithm: 'xchacha20-poly1305';
 }
 
+/**
+ * Pointer to an encrypted file on the XEP-0363 upload server.
+ * Travels inside the E2E encrypted chat payload — the only place the key
+ * is ever sent.
+ */
+export interface MediaPointer {
+  /** HTTPS download URL of the encrypted file */
+  url: string;
+
+  /** XChaCha20-Poly1305 key (base64) */
+  key: string;
+
+  /** Base nonce (base64) — chunk nonces derive from it */
+  nonce: string;
+
+  /** Plaintext size in bytes */
+  size: number;
+
+  /** Plaintext bytes per encrypted chunk */
+  chunkSize: number;
+
+  /** MIME type of the decrypted file */
+  mimeType: string;
+}
+
 // ============================================================
 // Media Queue
 // ============================================================
@@ -278,6 +310,29 @@ export interface CompressionResult {
   error?: string;
 }
 
+/**
+ * Result of a voice recording
+ */
+export interface VoiceRecordingResult {
+  /** Success or failure */
+  success: boolean;
+
+  /** Recorded file URI (AAC in .m4a, already compressed) */
+  uri?: string;
+
+  /** File size in bytes */
+  size?: number;
+
+  /** Duration in seconds */
+  duration?: number;
+
+  /** Waveform bars 0-1, MEDIA_DEFAULTS.voice.waveformBars long */
+  waveform?: number[];
+
+  /** Error message if failed */
+  error?: string;
+}
+
 /**
  * Result of EXIF stripping
  */
@@ -321,6 +376,14 @@ export const MEDIA_DEFAULTS = {
     maxSizeBytes: 30 * 1024 * 1024, // 30MB target
   },
 
+  /** Voice message settings (compressed while recording: AAC mono 16kHz 24kbps) */
+  voice: {
+    minDurationSeconds: 1, // Shorter = accidental tap, discarded
+    maxDurationSeconds: 120, // 2 minutes
+    waveformBars: 40,
+    playbackRates: [0.75, 1, 1.5] as const,
+  },
+
   /** Thumbnail settings */
   thumbnail: {
     maxWidth: 200,
@@ -328,6 +391,12 @@ export const MEDIA_DEFAULTS = {
     quality: 60,
   },
 
+  /** Encrypted HTTP upload settings */
+  transfer: {
+    chunkSize: 256 * 1024, // Plaintext bytes per chunk (one PUT each)
+    inlineThumbnailMaxBytes: 16 * 1024, // Preview sent inside the pointer message
+  },
+
   /** Queue settings */
   queue: {
     retentionDays: 7,